@@ -17,6 +17,9 @@ import {
   View,
 } from "react-native";
 
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
 const { width, height } = Dimensions.get("window");
 
 const clamp = (value: number, min: number, max: number) =>
@@ -44,6 +47,8 @@ const businessTypes: BusinessType[] = [
 ];
 
 const BusinessSelectionScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [selectedType, setSelectedType] = useState<string>("retail");
   const [loading, setLoading] = useState(false);
 
@@ -130,7 +135,7 @@ const BusinessSelectionScreen: React.FC = () => {
 
   return (
     <View style={styles.container}>
-      <StatusBar barStyle="light-content" backgroundColor="#1155CC" />
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
 
       <View style={styles.topSection} />
 
@@ -175,7 +180,7 @@ const BusinessSelectionScreen: React.FC = () => {
             activeOpacity={0.8}
           >
             {loading ? (
-              <ActivityIndicator color="#FFFFFF" size="small" />
+              <ActivityIndicator color={colors.onPrimary} size="small" />
             ) : (
               <Text style={styles.finishButtonText}>Finish</Text>
             )}
@@ -184,7 +189,7 @@ const BusinessSelectionScreen: React.FC = () => {
 
         {loading && (
           <View style={styles.loadingOverlay}>
-            <ActivityIndicator size="large" color="#1155CC" />
+            <ActivityIndicator size="large" color={colors.primary} />
             <Text style={styles.loadingText}>Setting up your account...</Text>
           </View>
         )}
@@ -193,160 +198,161 @@ const BusinessSelectionScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: { flex: 1, backgroundColor: "#1155CC" },
-  topSection: { height: verticalScale(200) },
-  bottomSection: {
-    backgroundColor: "#FFFFFF",
-    borderTopLeftRadius: moderateScale(24),
-    borderTopRightRadius: moderateScale(24),
-    paddingTop: verticalScale(8),
-    flex: 1,
-  },
-  handleBar: {
-    width: scale(80),
-    height: verticalScale(4),
-    backgroundColor: "#E5E7EB",
-    borderRadius: moderateScale(2),
-    alignSelf: "center",
-    marginBottom: verticalScale(20),
-  },
-  scrollContainer: { flex: 1 },
-  scrollContent: { flexGrow: 1, paddingBottom: verticalScale(20) },
-  formContainer: {
-    paddingHorizontal: scale(24),
-    minHeight: verticalScale(360),
-  },
-  successText: {
-    fontSize: moderateScale(16),
-    color: "#1155CC",
-    textAlign: "center",
-    marginBottom: verticalScale(8),
-    fontFamily: "DMSans_400Regular",
-  },
-  title: {
-    fontSize: moderateScale(24),
-    fontFamily: "DMSans_700Bold",
-    color: "#000000",
-    textAlign: "center",
-    marginBottom: verticalScale(8),
-  },
-  subtitle: {
-    fontSize: moderateScale(16),
-    color: "#BCBCBC",
-    textAlign: "center",
-    lineHeight: moderateScale(22),
-    marginBottom: verticalScale(24),
-    fontFamily: "DMSans_400Regular",
-  },
-  sectionTitle: {
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-    color: "#111827",
-    marginBottom: verticalScale(14),
-  },
-  optionsContainer: { marginBottom: verticalScale(16) },
-  businessOption: {
-    borderWidth: 1.5,
-    borderColor: "#E5E7EB",
-    borderRadius: moderateScale(12),
-    padding: moderateScale(14),
-    backgroundColor: "#FFFFFF",
-    position: "relative",
-    minHeight: verticalScale(76),
-    marginBottom: verticalScale(10),
-  },
-  selectedOption: {
-    borderColor: "#1155CC",
-    backgroundColor: "#F8FAFC",
-  },
-  businessContent: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    minHeight: verticalScale(46),
-  },
-  businessInfo: { flex: 1, paddingRight: scale(14) },
-  businessTitle: {
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-    color: "#111827",
-    marginBottom: verticalScale(4),
-  },
-  businessDescription: {
-    fontSize: moderateScale(14),
-    color: "#BCBCBC",
-    lineHeight: moderateScale(18),
-    fontFamily: "DMSans_400Regular",
-  },
-  businessIcon: {
-    width: scale(62),
-    height: scale(62),
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  selectionIndicator: {
-    position: "absolute",
-    top: verticalScale(8),
-    right: scale(8),
-    width: scale(8),
-    height: scale(8),
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(4),
-  },
-  buttonContainer: {
-    flexDirection: "row",
-    gap: scale(12),
-    paddingHorizontal: scale(24),
-    paddingBottom:
-      Platform.OS === "ios" ? verticalScale(30) : verticalScale(18),
-    backgroundColor: "#FFFFFF",
-  },
-  backButton: {
-    flex: 1,
-    borderWidth: 1.5,
-    borderColor: "#1155CC",
-    borderRadius: moderateScale(25),
-    paddingVertical: verticalScale(14),
-    alignItems: "center",
-    minHeight: verticalScale(50),
-  },
-  backButtonText: {
-    color: "#1155CC",
-    fontSize: moderateScale(18),
-    fontFamily: "DMSans_700Bold",
-  },
-  finishButton: {
-    flex: 2,
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(25),
-    paddingVertical: verticalScale(14),
-    alignItems: "center",
-    minHeight: verticalScale(50),
-  },
-  finishButtonText: {
-    color: "#FFFFFF",
-    fontSize: moderateScale(14),
-    fontFamily: "DMSans_500Medium",
-  },
-  disabled: { opacity: 0.6 },
-  loadingOverlay: {
-    position: "absolute",
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    backgroundColor: "rgba(255, 255, 255, 0.9)",
-    justifyContent: "center",
-    alignItems: "center",
-    zIndex: 1000,
-  },
-  loadingText: {
-    marginTop: verticalScale(10),
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-    color: "#1155CC",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.primary },
+    topSection: { height: verticalScale(200) },
+    bottomSection: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: moderateScale(24),
+      borderTopRightRadius: moderateScale(24),
+      paddingTop: verticalScale(8),
+      flex: 1,
+    },
+    handleBar: {
+      width: scale(80),
+      height: verticalScale(4),
+      backgroundColor: colors.border,
+      borderRadius: moderateScale(2),
+      alignSelf: "center",
+      marginBottom: verticalScale(20),
+    },
+    scrollContainer: { flex: 1 },
+    scrollContent: { flexGrow: 1, paddingBottom: verticalScale(20) },
+    formContainer: {
+      paddingHorizontal: scale(24),
+      minHeight: verticalScale(360),
+    },
+    successText: {
+      fontSize: moderateScale(16),
+      color: colors.primary,
+      textAlign: "center",
+      marginBottom: verticalScale(8),
+      fontFamily: "DMSans_400Regular",
+    },
+    title: {
+      fontSize: moderateScale(24),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      textAlign: "center",
+      marginBottom: verticalScale(8),
+    },
+    subtitle: {
+      fontSize: moderateScale(16),
+      color: colors.textMuted,
+      textAlign: "center",
+      lineHeight: moderateScale(22),
+      marginBottom: verticalScale(24),
+      fontFamily: "DMSans_400Regular",
+    },
+    sectionTitle: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      marginBottom: verticalScale(14),
+    },
+    optionsContainer: { marginBottom: verticalScale(16) },
+    businessOption: {
+      borderWidth: 1.5,
+      borderColor: colors.border,
+      borderRadius: moderateScale(12),
+      padding: moderateScale(14),
+      backgroundColor: colors.surface,
+      position: "relative",
+      minHeight: verticalScale(76),
+      marginBottom: verticalScale(10),
+    },
+    selectedOption: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primarySoft,
+    },
+    businessContent: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      minHeight: verticalScale(46),
+    },
+    businessInfo: { flex: 1, paddingRight: scale(14) },
+    businessTitle: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      marginBottom: verticalScale(4),
+    },
+    businessDescription: {
+      fontSize: moderateScale(14),
+      color: colors.textMuted,
+      lineHeight: moderateScale(18),
+      fontFamily: "DMSans_400Regular",
+    },
+    businessIcon: {
+      width: scale(62),
+      height: scale(62),
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    selectionIndicator: {
+      position: "absolute",
+      top: verticalScale(8),
+      right: scale(8),
+      width: scale(8),
+      height: scale(8),
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(4),
+    },
+    buttonContainer: {
+      flexDirection: "row",
+      gap: scale(12),
+      paddingHorizontal: scale(24),
+      paddingBottom:
+        Platform.OS === "ios" ? verticalScale(30) : verticalScale(18),
+      backgroundColor: colors.surface,
+    },
+    backButton: {
+      flex: 1,
+      borderWidth: 1.5,
+      borderColor: colors.primary,
+      borderRadius: moderateScale(25),
+      paddingVertical: verticalScale(14),
+      alignItems: "center",
+      minHeight: verticalScale(50),
+    },
+    backButtonText: {
+      color: colors.primary,
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_700Bold",
+    },
+    finishButton: {
+      flex: 2,
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(25),
+      paddingVertical: verticalScale(14),
+      alignItems: "center",
+      minHeight: verticalScale(50),
+    },
+    finishButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+    },
+    disabled: { opacity: 0.6 },
+    loadingOverlay: {
+      position: "absolute",
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: `${colors.surface}E6`,
+      justifyContent: "center",
+      alignItems: "center",
+      zIndex: 1000,
+    },
+    loadingText: {
+      marginTop: verticalScale(10),
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+      color: colors.primary,
+    },
+  });
 
 export default BusinessSelectionScreen;
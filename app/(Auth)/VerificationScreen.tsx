@@ -1,6 +1,10 @@
 // app/(Auth)/VerificationScreen.tsx
 import { resendOtp, saveAuthTokens, verifyOtp } from "@/src/api";
 import { Ionicons } from "@expo/vector-icons";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import useBranchStore from "@/stores/branchStore";
+import useShiftStore from "@/stores/shiftStore";
+import { useQueryClient } from "@tanstack/react-query";
 import { router, useLocalSearchParams } from "expo-router";
 import React, { useEffect, useRef, useState } from "react";
 import {
@@ -14,9 +18,11 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
-import { styles } from "./VerificationScreen.style";
+import { createStyles } from "./VerificationScreen.style";
 
 const VerificationScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const params = useLocalSearchParams<{
     phoneNumber: string;
     verificationId: string;
@@ -24,6 +30,7 @@ const VerificationScreen: React.FC = () => {
   }>();
 
   const phoneNumber = params.phoneNumber ?? "";
+  const queryClient = useQueryClient();
   const [verificationId, setVerificationId] = useState(
     params.verificationId ?? "",
   );
@@ -86,6 +93,12 @@ const VerificationScreen: React.FC = () => {
     try {
       const result = await verifyOtp(verificationId, verificationCode);
       await saveAuthTokens(result.tokens);
+      // Drop anything cached for whoever used this phone before, so a
+      // cashier never sees the last owner's figures
+      queryClient.clear();
+      queryClient.setQueryData(["profile"], result.user);
+      useBranchStore.getState().setBranch(null);
+      useShiftStore.getState().setShift(null);
 
       setTimeout(() => {
         if (result.is_new_user) {
@@ -151,7 +164,7 @@ const VerificationScreen: React.FC = () => {
       behavior={Platform.OS === "ios" ? "padding" : "height"}
       keyboardVerticalOffset={0}
     >
-      <StatusBar barStyle="light-content" backgroundColor="#1155CC" />
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
 
       <View style={styles.topSection} />
 
@@ -244,7 +257,11 @@ const VerificationScreen: React.FC = () => {
                   onPress={handleGoBack}
                   disabled={loading}
                 >
-                  <Ionicons name="arrow-back" size={20} color="#1155CC" />
+                  <Ionicons
+                    name="arrow-back"
+                    size={20}
+                    color={colors.primary}
+                  />
                   <Text style={styles.backText}>Back</Text>
                 </TouchableOpacity>
 
@@ -266,7 +283,7 @@ const VerificationScreen: React.FC = () => {
 
         {loading && (
           <View style={styles.loadingOverlay}>
-            <ActivityIndicator size="large" color="#1155CC" />
+            <ActivityIndicator size="large" color={colors.primary} />
             <Text style={styles.loadingText}>Verifying...</Text>
           </View>
         )}
@@ -1,5 +1,10 @@
 // app/(Auth)/WelcomeScreen.tsx
 import { requestOtp } from "@/src/api";
+import {
+    formatPhoneNumber,
+    getDialCode,
+    isValidPhoneNumber,
+} from "@/utils/formatters";
 import { router } from "expo-router";
 import React, { useState } from "react";
 import {
@@ -17,6 +22,9 @@ import {
   View,
 } from "react-native";
 
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
 const { width, height } = Dimensions.get("window");
 
 const clamp = (val: number, min: number, max: number) =>
@@ -29,23 +37,11 @@ const moderateScale = (size: number, factor = 0.5) =>
   size + (scale(size) - size) * factor;
 
 const WelcomeScreen: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [phoneNumber, setPhoneNumber] = useState("");
   const [loading, setLoading] = useState(false);
 
-  const formatPhoneNumber = (phone: string): string => {
-    let formatted = phone.trim().replace(/[\s\-\(\)]/g, "");
-    if (!formatted.startsWith("+")) {
-      formatted = formatted.replace(/^0/, "");
-      formatted = "+234" + formatted;
-    }
-    return formatted;
-  };
-
-  const validatePhoneNumber = (phone: string): boolean => {
-    const phoneRegex = /^\+[1-9]\d{6,14}$/;
-    return phoneRegex.test(phone);
-  };
-
   const handleSendOTP = async () => {
     if (!phoneNumber.trim()) {
       Alert.alert("Error", "Please enter your phone number");
@@ -54,7 +50,7 @@ const WelcomeScreen: React.FC = () => {
 
     const formattedPhone = formatPhoneNumber(phoneNumber);
 
-    if (!validatePhoneNumber(formattedPhone)) {
+    if (!isValidPhoneNumber(formattedPhone)) {
       Alert.alert(
         "Error",
         "Please enter a valid phone number with country code",
@@ -97,7 +93,7 @@ const WelcomeScreen: React.FC = () => {
       behavior={Platform.OS === "ios" ? "padding" : "height"}
       keyboardVerticalOffset={0}
     >
-      <StatusBar barStyle="light-content" backgroundColor="#1155CC" />
+      <StatusBar barStyle="light-content" backgroundColor={colors.primary} />
 
       <View style={styles.topSection}>
         <Text style={styles.greeting}>Hello!</Text>
@@ -117,8 +113,8 @@ const WelcomeScreen: React.FC = () => {
         >
           <TextInput
             style={[styles.input, loading && styles.inputDisabled]}
-            placeholder="Phone number (e.g., +234XXXXXXXXX)"
-            placeholderTextColor="#9CA3AF"
+            placeholder={`Phone number (e.g., +${getDialCode()}XXXXXXXXX)`}
+            placeholderTextColor={colors.textMuted}
             value={phoneNumber}
             onChangeText={setPhoneNumber}
             keyboardType="phone-pad"
@@ -139,7 +135,7 @@ const WelcomeScreen: React.FC = () => {
             disabled={loading || !phoneNumber.trim()}
           >
             {loading ? (
-              <ActivityIndicator color="#FFFFFF" size="small" />
+              <ActivityIndicator color={colors.onPrimary} size="small" />
             ) : (
               <Text style={styles.continueButtonText}>Send OTP</Text>
             )}
@@ -150,93 +146,94 @@ const WelcomeScreen: React.FC = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: { flex: 1, backgroundColor: "#1155CC" },
-  topSection: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-    paddingHorizontal: scale(32),
-    paddingVertical: verticalScale(16),
-  },
-  greeting: {
-    fontSize: moderateScale(52),
-    fontFamily: "DMSans_700Bold",
-    color: "#FFFFFF",
-    lineHeight: moderateScale(64),
-  },
-  subtitle: {
-    fontSize: moderateScale(22),
-    color: "#FFFFFF",
-    fontFamily: "DMSans_400Regular",
-    lineHeight: moderateScale(32),
-    textAlign: "center",
-  },
-  description: {
-    fontSize: moderateScale(14),
-    fontFamily: "DMSans_400Regular",
-    color: "#E3F2FD",
-    textAlign: "center",
-    lineHeight: moderateScale(22),
-    opacity: 0.9,
-    marginTop: verticalScale(4),
-  },
-  bottomSection: {
-    flex: 1,
-    backgroundColor: "#FFFFFF",
-    borderTopLeftRadius: 24,
-    borderTopRightRadius: 24,
-    paddingTop: verticalScale(8),
-  },
-  handleBar: {
-    width: scale(80),
-    height: verticalScale(4),
-    backgroundColor: "#E5E7EB",
-    borderRadius: moderateScale(2),
-    alignSelf: "center",
-    marginBottom: verticalScale(24),
-  },
-  scrollContent: {
-    paddingHorizontal: scale(24),
-    paddingBottom: verticalScale(32),
-    flexGrow: 1,
-    justifyContent: "center",
-  },
-  input: {
-    borderWidth: 1.5,
-    borderColor: "#D1D5DB",
-    borderRadius: moderateScale(12),
-    paddingHorizontal: scale(16),
-    paddingVertical: verticalScale(14),
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-    color: "#111827",
-    marginBottom: verticalScale(14),
-    backgroundColor: "#FFFFFF",
-  },
-  inputDisabled: { opacity: 0.6 },
-  infoText: {
-    fontSize: moderateScale(13),
-    fontFamily: "DMSans_400Regular",
-    color: "#6B7280",
-    textAlign: "left",
-    marginBottom: verticalScale(28),
-    lineHeight: moderateScale(20),
-  },
-  continueButton: {
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(25),
-    paddingVertical: verticalScale(14),
-    alignItems: "center",
-    marginBottom: verticalScale(12),
-  },
-  disabledButton: { opacity: 0.6 },
-  continueButtonText: {
-    color: "#FFFFFF",
-    fontSize: moderateScale(17),
-    fontFamily: "DMSans_700Bold",
-    lineHeight: moderateScale(24),
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: colors.primary },
+    topSection: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      paddingHorizontal: scale(32),
+      paddingVertical: verticalScale(16),
+    },
+    greeting: {
+      fontSize: moderateScale(52),
+      fontFamily: "DMSans_700Bold",
+      color: colors.onPrimary,
+      lineHeight: moderateScale(64),
+    },
+    subtitle: {
+      fontSize: moderateScale(22),
+      color: colors.onPrimary,
+      fontFamily: "DMSans_400Regular",
+      lineHeight: moderateScale(32),
+      textAlign: "center",
+    },
+    description: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.onPrimary,
+      textAlign: "center",
+      lineHeight: moderateScale(22),
+      opacity: 0.9,
+      marginTop: verticalScale(4),
+    },
+    bottomSection: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      paddingTop: verticalScale(8),
+    },
+    handleBar: {
+      width: scale(80),
+      height: verticalScale(4),
+      backgroundColor: colors.border,
+      borderRadius: moderateScale(2),
+      alignSelf: "center",
+      marginBottom: verticalScale(24),
+    },
+    scrollContent: {
+      paddingHorizontal: scale(24),
+      paddingBottom: verticalScale(32),
+      flexGrow: 1,
+      justifyContent: "center",
+    },
+    input: {
+      borderWidth: 1.5,
+      borderColor: colors.border,
+      borderRadius: moderateScale(12),
+      paddingHorizontal: scale(16),
+      paddingVertical: verticalScale(14),
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      marginBottom: verticalScale(14),
+      backgroundColor: colors.surface,
+    },
+    inputDisabled: { opacity: 0.6 },
+    infoText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      textAlign: "left",
+      marginBottom: verticalScale(28),
+      lineHeight: moderateScale(20),
+    },
+    continueButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(25),
+      paddingVertical: verticalScale(14),
+      alignItems: "center",
+      marginBottom: verticalScale(12),
+    },
+    disabledButton: { opacity: 0.6 },
+    continueButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(17),
+      fontFamily: "DMSans_700Bold",
+      lineHeight: moderateScale(24),
+    },
+  });
 
 export default WelcomeScreen;
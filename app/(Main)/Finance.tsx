@@ -1,4 +1,5 @@
-import React, { useCallback, useState } from "react";
+import { useRouter } from "expo-router";
+import React, { useCallback, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   ScrollView,
@@ -8,10 +9,13 @@ import {
 } from "react-native";
 import DateTimePickerModal from "react-native-modal-datetime-picker";
 import { SafeAreaView } from "react-native-safe-area-context";
-import { styles } from "../../src/styles/Finance.styles";
+import { createStyles } from "../../src/styles/Finance.styles";
 
 import {
+  BranchBreakdownSection,
+  BranchScopeSelector,
   DailySummaryCard,
+  DateRangePanel,
   MonthlyReportCard,
   SalesTrendChart,
   SeasonalInsightsSection,
@@ -20,15 +24,75 @@ import {
   SummaryCards,
   TopProductsSection,
 } from "../../components/FinanceSections";
+import { useBranches } from "../../hooks/useBranches";
 import { useFinanceData } from "../../hooks/useFinanceData";
 import { usePdfReport } from "../../hooks/usePdfReport";
+import type { BranchScope } from "../../src/api/branches";
+import {
+  getPresetRange,
+  type DateRange,
+  type DateRangePreset,
+} from "../../utils/dateRanges";
 import { verticalScale } from "../../utils/scaling";
 import { Period } from "../types/finance.types";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const PERIOD_PRESETS: Record<Exclude<Period, "Custom">, DateRangePreset> = {
+  Today: "today",
+  Week: "this_week",
+  Month: "this_month",
+};
 
 const Finance = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
   const [selectedPeriod, setSelectedPeriod] = useState<Period>("Week");
   const [isDatePickerVisible, setIsDatePickerVisible] = useState(false);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
+  const [customPreset, setCustomPreset] = useState<DateRangePreset | null>(
+    "last_7_days",
+  );
+  const [customRange, setCustomRange] = useState<DateRange>(() =>
+    getPresetRange("last_7_days"),
+  );
+  const [editingRangeField, setEditingRangeField] = useState<
+    keyof DateRange | null
+  >(null);
+  // Businesses with several branches see them all added up by default
+  const [reportBranch, setReportBranch] = useState<BranchScope>("all");
+  const { data: branches = [] } = useBranches();
+
+  const { range, preset } = useMemo(
+    () =>
+      selectedPeriod === "Custom"
+        ? { range: customRange, preset: customPreset }
+        : {
+            range: getPresetRange(PERIOD_PRESETS[selectedPeriod]),
+            preset: PERIOD_PRESETS[selectedPeriod],
+          },
+    [selectedPeriod, customRange, customPreset],
+  );
+
+  const handleSelectPreset = useCallback((key: DateRangePreset) => {
+    setCustomPreset(key);
+    setCustomRange(getPresetRange(key));
+  }, []);
+
+  const handleRangeDateConfirm = useCallback(
+    (date: Date) => {
+      if (editingRangeField) {
+        setCustomRange((prev) => {
+          const next = { ...prev, [editingRangeField]: date };
+          // Keep the range the right way round
+          return next.from > next.to ? { from: next.to, to: next.from } : next;
+        });
+        setCustomPreset(null);
+      }
+      setEditingRangeField(null);
+    },
+    [editingRangeField],
+  );
 
   const showDatePicker = useCallback(() => setIsDatePickerVisible(true), []);
   const hideDatePicker = useCallback(() => setIsDatePickerVisible(false), []);
@@ -47,7 +111,13 @@ const Finance = () => {
     seasonalInsights,
     chartData,
     monthlyReport,
-  } = useFinanceData(selectedPeriod, selectedDate);
+    branchTotals,
+  } = useFinanceData(
+    range,
+    selectedDate,
+    preset,
+    branches.length > 1 ? reportBranch : undefined,
+  );
 
   const { pdfLoading, generatePDFReport } = usePdfReport({
     monthlyReport,
@@ -76,7 +146,7 @@ const Finance = () => {
 
           {/* Period Selector */}
           <View style={styles.periodSelector}>
-            {(["Today", "Week", "Month"] as const).map((p) => (
+            {(["Today", "Week", "Month", "Custom"] as const).map((p) => (
               <TouchableOpacity
                 key={p}
                 style={[
@@ -97,6 +167,21 @@ const Finance = () => {
             ))}
           </View>
 
+          {selectedPeriod === "Custom" && (
+            <DateRangePanel
+              range={customRange}
+              preset={customPreset}
+              onSelectPreset={handleSelectPreset}
+              onEditDate={setEditingRangeField}
+            />
+          )}
+
+          <BranchScopeSelector
+            branches={branches}
+            scope={reportBranch}
+            onSelect={setReportBranch}
+          />
+
           <SummaryCards
             financialSummary={
               financialSummary || {
@@ -105,6 +190,9 @@ const Finance = () => {
                 totalExpenses: 0,
               }
             }
+            onOpenExpenses={() =>
+              router.push("/(Routes)/ExpensesScreen" as any)
+            }
           />
 
           <DailySummaryCard
@@ -121,6 +209,8 @@ const Finance = () => {
             onOpenDatePicker={showDatePicker}
           />
 
+          <BranchBreakdownSection branchTotals={branchTotals} />
+
           <TopProductsSection topProducts={topProducts || []} />
 
           <SlowMovingStockSection slowMovingStock={slowMovingStock || []} />
@@ -162,6 +252,9 @@ const Finance = () => {
             }
             pdfLoading={pdfLoading}
             onDownload={generatePDFReport}
+            onExportData={() =>
+              router.push("/(Routes)/ExportDataScreen" as any)
+            }
           />
 
           <View style={{ height: verticalScale(40) }} />
@@ -175,7 +268,7 @@ const Finance = () => {
         */}
         {dataLoading && (
           <View style={styles.loadingOverlay} pointerEvents="none">
-            <ActivityIndicator size="large" color="#1155CC" />
+            <ActivityIndicator size="large" color={colors.primary} />
             <Text style={styles.loadingText}>Loading financial data...</Text>
           </View>
         )}
@@ -195,8 +288,21 @@ const Finance = () => {
         onCancel={hideDatePicker}
         maximumDate={new Date()}
         display="default"
-        themeVariant="light"
-        accentColor="#1155CC"
+        themeVariant={isDark ? "dark" : "light"}
+        accentColor={colors.primary}
+        confirmTextIOS="Apply"
+        cancelTextIOS="Cancel"
+      />
+      <DateTimePickerModal
+        isVisible={editingRangeField !== null}
+        mode="date"
+        date={editingRangeField ? customRange[editingRangeField] : new Date()}
+        onConfirm={handleRangeDateConfirm}
+        onCancel={() => setEditingRangeField(null)}
+        maximumDate={new Date()}
+        display="default"
+        themeVariant={isDark ? "dark" : "light"}
+        accentColor={colors.primary}
         confirmTextIOS="Apply"
         cancelTextIOS="Cancel"
       />
@@ -5,15 +5,19 @@ import HomeHeader from "@/components/HomeHeader";
 import NotificationFeed from "@/components/NotificationFeed";
 import SalesSummary from "@/components/SalesSummary";
 import StatCards from "@/components/StatCards";
-import { homeStyles as styles, verticalScale } from "@/components/homeStyles";
+import { createHomeStyles, verticalScale } from "@/components/homeStyles";
 import { AddProductContext } from "@/context/AddProductContext";
+import { useThemedStyles } from "@/hooks/useTheme";
 import { useHomeData } from "@/hooks/useHomeData";
+import { useExpiryAlerts } from "@/hooks/useNotifications";
 import { getUserInventoryItem } from "@/src/api";
 import ActionButtons from "../../components/ActionButtons";
 
 const Home = () => {
+  const styles = useThemedStyles(createHomeStyles);
   const { openAddProduct, openRestockProduct } = useContext(AddProductContext);
   const { inventory, notifications, userData } = useHomeData();
+  useExpiryAlerts();
 
   const toAddProductModel = (item: any) => ({
     id: String(item.id),
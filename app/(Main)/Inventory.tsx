@@ -1,7 +1,13 @@
+import BarcodeScanner from "@/components/BarcodeScanner";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 import { useProductsData } from "@/hooks/useProductsData";
 import { Product as UIProduct } from "@/src/api/dummyData/dummyProducts";
-import type { ApiUserInventoryItem } from "@/src/api/products";
-import { Feather } from "@expo/vector-icons";
+import {
+  findInventoryItemByBarcode,
+  type ApiUserInventoryItem,
+} from "@/src/api/products";
+import { Feather, Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React, { useEffect, useState } from "react";
 import {
@@ -17,8 +23,20 @@ import {
   View,
 } from "react-native";
 import { formatCurrency } from "@/utils/formatters";
+import {
+    formatStockQuantity,
+    isCartonProduct,
+    mapPackaging,
+} from "@/utils/units";
+import {
+    getAggregateStock,
+    getPriceRange,
+    getVariantName,
+    groupVariants,
+    mapVariant,
+} from "@/utils/variants";
 import AddProductFlow from "../(Routes)/AddProductFlow";
-import { styles } from "../../src/styles/Inventory.styles";
+import { createStyles } from "../../src/styles/Inventory.styles";
 
 type FilterType = "all" | "inStock" | "outOfStock" | "expiring";
 
@@ -50,13 +68,23 @@ const moderateScale = (size: number, factor = 0.5) =>
 const H_PAD = isTablet ? scale(32) : isSmallDevice ? scale(14) : scale(20);
 
 const Inventory: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { canViewProfit } = usePermissions();
   const router = useRouter();
   const { focusProductId } = useLocalSearchParams();
   const [products, setProducts] = useState<UIProduct[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<UIProduct[]>([]);
+  const [variantsOf, setVariantsOf] = useState<Record<string, UIProduct[]>>(
+    {},
+  );
   const [activeFilter, setActiveFilter] = useState<FilterType>("all");
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [showAddProduct, setShowAddProduct] = useState<boolean>(false);
+  const [showScanner, setShowScanner] = useState<boolean>(false);
+  const [scannedBarcode, setScannedBarcode] = useState<string | undefined>(
+    undefined,
+  );
   const [filterCounts, setFilterCounts] = useState<FilterCounts>({
     all: 0,
     inStock: 0,
@@ -95,6 +123,8 @@ const Inventory: React.FC = () => {
       profitPerUnit: sellingPrice - costPrice,
       costPrice,
       sellingPrice,
+      ...mapPackaging(p),
+      ...mapVariant(p),
       lowStockThreshold: p.low_stock_threshold ?? 0,
       expiryDate: p.expiry_date || "",
       supplier: { name: p.supplier_name || "", phone: p.supplier_phone || "" },
@@ -124,7 +154,8 @@ const Inventory: React.FC = () => {
     setFilterCounts(counts);
   };
 
-  // Map and set products when user inventory data changes
+  // Map and set products when user inventory data changes. Variants are
+  // folded into their parent's card, which shows their combined stock.
   useEffect(() => {
     if (userInventoryData && userInventoryData.results) {
       const mapped: UIProduct[] = userInventoryData.results
@@ -133,8 +164,18 @@ const Inventory: React.FC = () => {
           (a: UIProduct, b: UIProduct) =>
             new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime(),
         );
-      setProducts(mapped);
-      calculateFilterCounts(mapped);
+      const groups = groupVariants(mapped);
+      const grouped = groups.products.map((p) =>
+        groups.variantsOf[p.id]
+          ? {
+              ...p,
+              unitsInStock: getAggregateStock(p, groups.variantsOf[p.id]),
+            }
+          : p,
+      );
+      setProducts(grouped);
+      setVariantsOf(groups.variantsOf);
+      calculateFilterCounts(grouped);
     }
   }, [userInventoryData]);
 
@@ -171,6 +212,51 @@ const Inventory: React.FC = () => {
   const handleSearchChange = (text: string): void => setSearchQuery(text);
   const clearSearch = (): void => setSearchQuery("");
 
+  const openProductDetails = (productId: string): void => {
+    router.push({
+      pathname: "/(Routes)/ProductDetails" as any,
+      params: { productId },
+    });
+  };
+
+  // Jump straight to the scanned product, or offer to create it
+  const handleBarcodeScanned = async (code: string): Promise<void> => {
+    let match = products.find((p) => p.barcode === code);
+    if (!match) {
+      try {
+        const item = await findInventoryItemByBarcode(code);
+        if (item) match = mapApiProductToUI(item);
+      } catch (error) {
+        console.error("Barcode lookup failed:", error);
+      }
+    }
+
+    if (match) {
+      openProductDetails(match.id);
+      return;
+    }
+
+    Alert.alert(
+      "Product not found",
+      `No product in your inventory has the barcode ${code}. Create it now?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Create product",
+          onPress: () => {
+            setScannedBarcode(code);
+            setShowAddProduct(true);
+          },
+        },
+      ],
+    );
+  };
+
+  const closeAddProduct = (): void => {
+    setShowAddProduct(false);
+    setScannedBarcode(undefined);
+  };
+
   const handleAddProduct = async (): Promise<void> => {
     Alert.alert("Success", "Product added to inventory!");
   };
@@ -222,22 +308,27 @@ const Inventory: React.FC = () => {
   const cardWidth = isTablet ? (width - H_PAD * 2 - scale(16)) / 2 : "100%";
 
   const renderProductCard = (product: UIProduct): React.ReactElement => {
+    const variants = variantsOf[product.id] ?? [];
+    const priceRange = getPriceRange(variants);
+
     return (
       <TouchableOpacity
         key={product.id}
         style={[styles.productCard, { width: cardWidth as any }]}
-        onPress={() =>
-          router.push({
-            pathname: "/(Routes)/ProductDetails" as any,
-            params: { productId: product.id },
-          })
-        }
+        onPress={() => openProductDetails(product.id)}
         activeOpacity={0.8}
       >
         <View style={styles.cardContent}>
           <Text style={styles.productName} numberOfLines={2}>
-            {product.name}
+            {getVariantName(product)}
           </Text>
+          {variants.length > 0 && (
+            <View style={styles.variantTag}>
+              <Text style={styles.variantTagText}>
+                {variants.length} variants
+              </Text>
+            </View>
+          )}
 
           <View style={styles.imageAndInfoRow}>
             <Image
@@ -251,13 +342,17 @@ const Inventory: React.FC = () => {
 
             <View style={styles.infoBoxesContainer}>
               <View style={styles.unitPriceBox}>
-                <Text style={styles.boxLabel}>Unit Price</Text>
+                <Text style={styles.boxLabel}>
+                  {priceRange && priceRange.min < priceRange.max
+                    ? "Unit Price from"
+                    : "Unit Price"}
+                </Text>
                 <Text
                   style={styles.largePrice}
                   numberOfLines={1}
                   adjustsFontSizeToFit
                 >
-                  {formatCurrency(product.sellingPrice ?? 0)}
+                  {formatCurrency(priceRange?.min ?? product.sellingPrice ?? 0)}
                 </Text>
               </View>
 
@@ -265,19 +360,26 @@ const Inventory: React.FC = () => {
                 <View style={styles.smallInfoBox}>
                   <Text style={styles.boxLabel}>In Stock</Text>
                   <Text style={styles.infoBoxValue} numberOfLines={1}>
-                    {product.unitsInStock}
-                  </Text>
-                </View>
-                <View style={styles.smallInfoBox}>
-                  <Text style={styles.boxLabel}>Profit/Unit</Text>
-                  <Text
-                    style={styles.infoBoxValue}
-                    numberOfLines={1}
-                    adjustsFontSizeToFit
-                  >
-                    {formatCurrency(product?.profitPerUnit ?? 0)}
+                    {isCartonProduct(product)
+                      ? formatStockQuantity(
+                          product.unitsInStock,
+                          product.unitsPerCarton,
+                        )
+                      : product.unitsInStock}
                   </Text>
                 </View>
+                {canViewProfit && (
+                  <View style={styles.smallInfoBox}>
+                    <Text style={styles.boxLabel}>Profit/Unit</Text>
+                    <Text
+                      style={styles.infoBoxValue}
+                      numberOfLines={1}
+                      adjustsFontSizeToFit
+                    >
+                      {formatCurrency(product?.profitPerUnit ?? 0)}
+                    </Text>
+                  </View>
+                )}
               </View>
             </View>
           </View>
@@ -343,7 +445,7 @@ const Inventory: React.FC = () => {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#1155CC" />
+          <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>Loading inventory...</Text>
         </View>
       </SafeAreaView>
@@ -371,6 +473,13 @@ const Inventory: React.FC = () => {
             placeholderTextColor="#999"
           />
         </View>
+        <TouchableOpacity
+          style={styles.filterButton}
+          activeOpacity={0.7}
+          onPress={() => setShowScanner(true)}
+        >
+          <Ionicons name="scan-outline" size={moderateScale(20)} color="#333" />
+        </TouchableOpacity>
         <TouchableOpacity style={styles.filterButton} activeOpacity={0.7}>
           <Feather name="sliders" size={moderateScale(20)} color="#333" />
         </TouchableOpacity>
@@ -408,8 +517,16 @@ const Inventory: React.FC = () => {
 
       <AddProductFlow
         visible={showAddProduct}
-        onClose={() => setShowAddProduct(false)}
+        onClose={closeAddProduct}
         onSaveProduct={() => {}}
+        initialBarcode={scannedBarcode}
+      />
+
+      <BarcodeScanner
+        visible={showScanner}
+        title="Find product"
+        onClose={() => setShowScanner(false)}
+        onScanned={handleBarcodeScanned}
       />
     </SafeAreaView>
   );
@@ -1,10 +1,12 @@
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 import { useUnreadNotificationsCount } from "@/hooks/useNotifications";
+import { usePermissions } from "@/hooks/usePermissions";
 import { clearTokens, getProfile, logout } from "@/src/api";
 import { Ionicons } from "@expo/vector-icons";
 import { useQuery } from "@tanstack/react-query";
 import { router } from "expo-router";
 import React, { useState } from "react";
-import { styles } from "../../src/styles/More.styles";
+import { createStyles } from "../../src/styles/More.styles";
 
 import {
   ActivityIndicator,
@@ -25,6 +27,8 @@ type Option = {
   icon: keyof typeof Ionicons.glyphMap;
   action: () => void;
   badge?: number;
+  // Left out of the menu for roles that can't use the screen
+  hidden?: boolean;
 };
 
 type SectionConfig = {
@@ -35,10 +39,14 @@ type SectionConfig = {
 // ─── Component ────────────────────────────────────────────────────────────────
 
 const More = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [showLogoutModal, setShowLogoutModal] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const notificationCount = useUnreadNotificationsCount();
+  const { canViewCosts, canViewFinance, canManageStaff, canTransferStock } =
+    usePermissions();
 
   const { data: profile, isLoading } = useQuery({
     queryKey: ["profile"],
@@ -74,6 +82,80 @@ const More = () => {
       ],
     },
 
+    {
+      title: "BUSINESS",
+      options: [
+        {
+          title: "Cash Drawer",
+          icon: "cash-outline",
+          action: () => router.push("/(Routes)/CashDrawerScreen" as any),
+        },
+        {
+          title: "Customers",
+          icon: "people-outline",
+          action: () => router.push("/(Routes)/CustomersScreen" as any),
+        },
+        {
+          title: "Debtors",
+          icon: "wallet-outline",
+          action: () => router.push("/(Routes)/DebtorsScreen" as any),
+        },
+        {
+          title: "Suppliers",
+          icon: "cube-outline",
+          action: () => router.push("/(Routes)/SuppliersScreen" as any),
+          hidden: !canViewCosts,
+        },
+        {
+          title: "Recent Restocks",
+          icon: "time-outline",
+          action: () => router.push("/(Routes)/RecentRestocksScreen" as any),
+          hidden: !canViewCosts,
+        },
+        {
+          title: "Expiry Report",
+          icon: "hourglass-outline",
+          action: () => router.push("/(Routes)/ExpiryReportScreen" as any),
+        },
+        {
+          title: "Stock Take",
+          icon: "clipboard-outline",
+          action: () => router.push("/(Routes)/StockTakeScreen" as any),
+          hidden: !canViewCosts,
+        },
+        {
+          title: "Import Products",
+          icon: "cloud-upload-outline",
+          action: () => router.push("/(Routes)/ImportProductsScreen" as any),
+          hidden: !canViewCosts,
+        },
+        {
+          title: "Export Data",
+          icon: "download-outline",
+          action: () => router.push("/(Routes)/ExportDataScreen" as any),
+          hidden: !canViewCosts,
+        },
+        {
+          title: "Expenses",
+          icon: "receipt-outline",
+          action: () => router.push("/(Routes)/ExpensesScreen" as any),
+          hidden: !canViewFinance,
+        },
+        {
+          title: "Staff",
+          icon: "people-circle-outline",
+          action: () => router.push("/(Routes)/StaffScreen" as any),
+          hidden: !canManageStaff,
+        },
+        {
+          title: "Branches",
+          icon: "storefront-outline",
+          action: () => router.push("/(Routes)/BranchesScreen" as any),
+          hidden: !canTransferStock,
+        },
+      ],
+    },
+
     {
       title: "SUPPORT",
       options: [
@@ -134,7 +216,7 @@ const More = () => {
       activeOpacity={0.7}
     >
       <View style={styles.iconContainer}>
-        <Ionicons name={option.icon} size={20} color="#1155CC" />
+        <Ionicons name={option.icon} size={20} color={colors.primary} />
       </View>
       <Text style={styles.optionText}>{option.title}</Text>
 
@@ -154,7 +236,7 @@ const More = () => {
   if (isLoading) {
     return (
       <SafeAreaView style={[styles.safeArea, styles.centered]}>
-        <ActivityIndicator size="large" color="#1155CC" />
+        <ActivityIndicator size="large" color={colors.primary} />
       </SafeAreaView>
     );
   }
@@ -199,16 +281,19 @@ const More = () => {
         </TouchableOpacity>
 
         {/* Sections */}
-        {SECTIONS.map((section) => (
-          <View key={section.title} style={styles.section}>
-            <Text style={styles.sectionTitle}>{section.title}</Text>
-            <View style={styles.sectionCard}>
-              {section.options.map((option, i) =>
-                renderOption(option, i, section.options.length),
-              )}
+        {SECTIONS.map((section) => {
+          const options = section.options.filter((option) => !option.hidden);
+          return (
+            <View key={section.title} style={styles.section}>
+              <Text style={styles.sectionTitle}>{section.title}</Text>
+              <View style={styles.sectionCard}>
+                {options.map((option, i) =>
+                  renderOption(option, i, options.length),
+                )}
+              </View>
             </View>
-          </View>
-        ))}
+          );
+        })}
 
         {/* Logout */}
         <TouchableOpacity
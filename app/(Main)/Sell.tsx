@@ -1,14 +1,28 @@
+import BarcodeScanner from "@/components/BarcodeScanner";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
 import AllProducts from "@/components/sell/allProducts";
 import SalesHistory, { Sale } from "@/components/sell/saleHistory";
+import VariantPicker from "@/components/sell/variantPicker";
 import ConfirmModal from "@/components/ui/ConfirmModal";
+import { AddProductContext } from "@/context/AddProductContext";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 import { useSales } from "@/hooks/useSales";
-import { ApiUserInventoryItem, listUserInventory } from "@/src/api";
+import {
+  inventoryStockKey,
+  usePendingStockDeductions,
+} from "@/hooks/useSalesOutbox";
+import {
+  ApiUserInventoryItem,
+  findInventoryItemByBarcode,
+  listUserInventory,
+} from "@/src/api";
 import type { ApiSale } from "@/src/api/sales";
+import useCartStore, { getCartCount } from "@/stores/cartStore";
 import AntDesign from "@expo/vector-icons/AntDesign";
 import Feather from "@expo/vector-icons/Feather";
 import { useQuery } from "@tanstack/react-query";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useContext, useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   SafeAreaView,
@@ -17,8 +31,17 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
-import { styles } from "../../src/styles/Sell.styles";
+import { createStyles } from "../../src/styles/Sell.styles";
 import { moderateScale } from "../../utils/scaling";
+import { getSaleSeller } from "../../utils/staff";
+import { mapPackaging } from "../../utils/units";
+import {
+  getAggregateStock,
+  getVariantName,
+  groupVariants,
+  isVariant,
+  mapVariant,
+} from "../../utils/variants";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -37,6 +60,13 @@ export interface Product {
   unitsInStock: number;
   costPrice: number;
   sellingPrice: number;
+  // Carton packaging; prices above are per piece
+  unitsPerCarton?: number;
+  cartonCostPrice?: number;
+  cartonPrice?: number;
+  // Set on variants; the parent carries the shared name and category
+  parentId?: string;
+  variantAttributes?: Record<string, string>;
   lowStockThreshold: number;
   expiryDate: string;
   supplier: { name: string; phone: string };
@@ -44,17 +74,11 @@ export interface Product {
   userId: string;
 }
 
-export interface CartItem {
-  id: string;
-  quantity: number;
-  product?: Product;
-}
-
 type TabType = "all" | "history";
 
 // ─── Mappers ──────────────────────────────────────────────────────────────────
 
-const mapApiProduct = (p: ApiUserInventoryItem): Product => ({
+export const mapApiProduct = (p: ApiUserInventoryItem): Product => ({
   id: String(p.id),
   name: p.name,
   category: p.category || "",
@@ -64,6 +88,8 @@ const mapApiProduct = (p: ApiUserInventoryItem): Product => ({
   unitsInStock: Number(p.units_in_stock || 0),
   costPrice: Number(p.cost_price || 0),
   sellingPrice: Number(p.selling_price || 0),
+  ...mapPackaging(p),
+  ...mapVariant(p),
   lowStockThreshold: p.low_stock_threshold ?? 0,
   expiryDate: p.expiry_date || "",
   supplier: {
@@ -90,11 +116,14 @@ const mapApiSale = (sale: ApiSale): Sale => ({
   paymentMethod: sale.payment_method || "cash",
   date: sale.sale_date || sale.created_at || new Date().toISOString(),
   timestamp: sale.sale_date || sale.created_at || new Date().toISOString(),
+  ...getSaleSeller(sale),
 });
 
 // ─── Component ────────────────────────────────────────────────────────────────
 
 const Sell: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const params = useLocalSearchParams();
 
@@ -107,10 +136,20 @@ const Sell: React.FC = () => {
     page: 0,
     page_size: 25,
   });
-  const [cart, setCart] = useState<CartItem[]>([]);
+  const cart = useCartStore((s) => s.lines);
+  const parkedCount = useCartStore((s) => s.parked.length);
+  const addItem = useCartStore((s) => s.addItem);
+  const incrementItem = useCartStore((s) => s.increment);
+  const decrementItem = useCartStore((s) => s.decrement);
+  const syncStock = useCartStore((s) => s.syncStock);
   const [modalVisible, setModalVisible] = useState(false);
   const [modalTitle, setModalTitle] = useState("");
   const [modalSubtitle, setModalSubtitle] = useState("");
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanStatus, setScanStatus] = useState("");
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [variantParent, setVariantParent] = useState<Product | null>(null);
+  const { openAddProductWithBarcode } = useContext(AddProductContext);
 
   const showModal = (title: string, subtitle = "") => {
     setModalTitle(title);
@@ -133,8 +172,20 @@ const Sell: React.FC = () => {
       }),
   });
 
-  const products = useMemo<Product[]>(() => {
-    const results = (inventoryData?.results ?? []).map(mapApiProduct);
+  const pendingDeductions = usePendingStockDeductions();
+
+  const inventoryProducts = useMemo<Product[]>(() => {
+    // Sales waiting in the offline outbox have not reached the server yet, so
+    // take their units off locally to avoid overselling.
+    const results = (inventoryData?.results ?? [])
+      .map(mapApiProduct)
+      .map((p) => ({
+        ...p,
+        unitsInStock: Math.max(
+          0,
+          p.unitsInStock - (pendingDeductions[inventoryStockKey(p.id)] ?? 0),
+        ),
+      }));
     // Mirror the API ordering client-side so the list stays correct even when
     // results are served from cache or an unsorted source.
     if (sortOrder === "name") {
@@ -145,7 +196,29 @@ const Sell: React.FC = () => {
     return results.sort(
       (a, b) => new Date(b.dateAdded).getTime() - new Date(a.dateAdded).getTime(),
     );
-  }, [inventoryData, sortOrder]);
+  }, [inventoryData, sortOrder, pendingDeductions]);
+
+  // Variants sell on their own but are listed under one parent card showing
+  // the stock of every size or flavour together.
+  const { products, variantsOf } = useMemo(() => {
+    const groups = groupVariants(inventoryProducts);
+    return {
+      variantsOf: groups.variantsOf,
+      products: groups.products.map((p) =>
+        groups.variantsOf[p.id]
+          ? {
+              ...p,
+              unitsInStock: getAggregateStock(p, groups.variantsOf[p.id]),
+            }
+          : p,
+      ),
+    };
+  }, [inventoryProducts]);
+
+  // Keep stock in the persisted cart current so quantity checks stay honest
+  useEffect(() => {
+    if (inventoryProducts.length > 0) syncStock(inventoryProducts);
+  }, [inventoryProducts, syncStock]);
 
   const filteredProducts = useMemo(() => {
     const term = searchQuery.toLowerCase().trim();
@@ -159,6 +232,12 @@ const Sell: React.FC = () => {
 
   // ─── Cart handlers ───────────────────────────────────────────────────────
 
+  // The cart line carries the variant in its name, e.g. "Zobo (500ml)"
+  const toCartProduct = (product: Product): Product =>
+    isVariant(product)
+      ? { ...product, name: getVariantName(product) }
+      : product;
+
   const handleAddToCart = (id: string) => {
     const product = products.find((p) => p.id === id);
     if (!product) return;
@@ -166,52 +245,85 @@ const Sell: React.FC = () => {
       showModal("Out of Stock", "This product is currently out of stock.");
       return;
     }
-    setCart((prev) => {
-      if (prev.find((item) => item.id === id)) return prev;
-      return [...prev, { id, quantity: 1, product }];
-    });
+    if (variantsOf[id]?.length) {
+      setVariantParent(product);
+      return;
+    }
+    if (cart.some((item) => item.id === id)) return;
+    addItem(product);
+  };
+
+  const handleSelectVariant = (variant: Product) => {
+    setVariantParent(null);
+    const result = cart.some((item) => item.id === variant.id)
+      ? incrementItem(variant.id)
+      : addItem(toCartProduct(variant));
+    if (!result.ok) showModal("Stock Limit", result.reason);
   };
 
   const handleIncrement = (id: string) => {
-    const product = products.find((p) => p.id === id);
-    if (!product) return;
-    const cartItem = cart.find((item) => item.id === id);
-    if ((cartItem?.quantity ?? 0) >= product.unitsInStock) {
-      showModal(
-        "Stock Limit",
-        `Only ${product.unitsInStock} units available in stock.`,
-      );
+    const result = incrementItem(id);
+    if (!result.ok) showModal("Stock Limit", result.reason);
+  };
+
+  const handleDecrement = (id: string) => decrementItem(id);
+
+  // ─── Barcode scanning ────────────────────────────────────────────────────
+
+  const withPendingStock = (product: Product): Product => ({
+    ...product,
+    unitsInStock: Math.max(
+      0,
+      product.unitsInStock -
+        (pendingDeductions[inventoryStockKey(product.id)] ?? 0),
+    ),
+  });
+
+  // Each scan adds one unit, so a cashier can sweep items straight into the
+  // cart without leaving the camera.
+  const handleBarcodeScanned = async (code: string) => {
+    // Variants have their own barcodes, so look past the grouped list
+    let product = inventoryProducts.find((p) => p.barcode === code);
+    if (!product) {
+      try {
+        const item = await findInventoryItemByBarcode(code);
+        if (item) product = withPendingStock(mapApiProduct(item));
+      } catch (error: any) {
+        // Only a definite "no such product" should offer to create one;
+        // offline or a server error just means the lookup failed
+        if (error?.response?.status !== 404) {
+          console.error("Barcode lookup failed:", error);
+          setScanStatus("Couldn't look up this barcode. Scan again to retry.");
+          return;
+        }
+      }
+    }
+
+    if (!product) {
+      setShowScanner(false);
+      setUnknownBarcode(code);
       return;
     }
-    setCart((prev) =>
-      prev.map((item) =>
-        item.id === id ? { ...item, quantity: item.quantity + 1 } : item,
-      ),
+
+    const inCart = cart.find((item) => item.id === product.id)?.quantity ?? 0;
+    const cartProduct = toCartProduct(product);
+    const result = addItem(cartProduct);
+    setScanStatus(
+      result.ok
+        ? `Added ${cartProduct.name} (${inCart + 1} in cart)`
+        : result.reason,
     );
   };
 
-  const handleDecrement = (id: string) => {
-    setCart((prev) => {
-      const existing = prev.find((item) => item.id === id);
-      if (existing && existing.quantity > 1) {
-        return prev.map((item) =>
-          item.id === id ? { ...item, quantity: item.quantity - 1 } : item,
-        );
-      }
-      return prev.filter((item) => item.id !== id);
-    });
+  const openScanner = () => {
+    setScanStatus("");
+    setShowScanner(true);
   };
 
-  const totalCartItems = cart.reduce((t, item) => t + item.quantity, 0);
+  const totalCartItems = getCartCount(cart);
 
   const viewCart = () => {
-    router.push({
-      pathname: "/(Routes)/Cart" as any,
-      params: {
-        cartData: JSON.stringify(cart),
-        timestamp: Date.now().toString(),
-      },
-    });
+    router.push("/(Routes)/Cart" as any);
   };
 
   // ─── Loading ─────────────────────────────────────────────────────────────
@@ -220,7 +332,7 @@ const Sell: React.FC = () => {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#1155CC" />
+          <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>Loading...</Text>
         </View>
       </SafeAreaView>
@@ -233,15 +345,20 @@ const Sell: React.FC = () => {
     <SafeAreaView style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Sell</Text>
+        <View style={styles.headerTitleRow}>
+          <Text style={styles.headerTitle}>Sell</Text>
+          <PendingSyncBadge />
+        </View>
         <TouchableOpacity
           style={styles.cartPill}
           onPress={viewCart}
           activeOpacity={0.8}
         >
-          <Text style={styles.cartPillLabel}>Cart</Text>
+          <Text style={styles.cartPillLabel}>
+            {parkedCount > 0 ? `Cart · ${parkedCount} held` : "Cart"}
+          </Text>
           <View style={styles.cartIconWrap}>
-            <Feather name="shopping-cart" size={20} color="#1A1A1A" />
+            <Feather name="shopping-cart" size={20} color={colors.text} />
             {totalCartItems > 0 && (
               <View style={styles.cartBadge}>
                 <Text style={styles.cartBadgeText}>{totalCartItems}</Text>
@@ -254,11 +371,11 @@ const Sell: React.FC = () => {
       {/* Search + Filter */}
       <View style={styles.searchRow}>
         <View style={styles.searchInputContainer}>
-          <Feather name="search" size={16} color="#999" />
+          <Feather name="search" size={16} color={colors.textMuted} />
           <TextInput
             style={styles.searchInput}
             placeholder="Search by name, or category"
-            placeholderTextColor="#999"
+            placeholderTextColor={colors.textMuted}
             value={searchQuery}
             onChangeText={setSearchQuery}
             autoCapitalize="none"
@@ -267,6 +384,18 @@ const Sell: React.FC = () => {
           />
         </View>
 
+        <TouchableOpacity
+          style={styles.filterButton}
+          activeOpacity={0.7}
+          onPress={openScanner}
+        >
+          <AntDesign
+            name="scan"
+            size={moderateScale(20)}
+            color={colors.textSecondary}
+          />
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={styles.filterButton}
           activeOpacity={0.7}
@@ -277,7 +406,7 @@ const Sell: React.FC = () => {
           <AntDesign
             name={sortOrder === "name" ? "sort-ascending" : "sort-descending"}
             size={moderateScale(20)}
-            color="#333"
+            color={colors.textSecondary}
           />
         </TouchableOpacity>
       </View>
@@ -329,6 +458,7 @@ const Sell: React.FC = () => {
           products={products}
           filteredProducts={filteredProducts}
           cart={cart}
+          variantsOf={variantsOf}
           onAddToCart={handleAddToCart}
           onIncrement={handleIncrement}
           onDecrement={handleDecrement}
@@ -345,7 +475,7 @@ const Sell: React.FC = () => {
             onPress={viewCart}
             activeOpacity={0.8}
           >
-            <Feather name="shopping-cart" size={20} color="#fff" />
+            <Feather name="shopping-cart" size={20} color={colors.onPrimary} />
             <Text style={styles.viewCartButtonText}>
               Click to view cart ({totalCartItems})
             </Text>
@@ -353,6 +483,14 @@ const Sell: React.FC = () => {
         </View>
       )}
 
+      <VariantPicker
+        product={variantParent}
+        variants={variantParent ? (variantsOf[variantParent.id] ?? []) : []}
+        cart={cart}
+        onSelect={handleSelectVariant}
+        onClose={() => setVariantParent(null)}
+      />
+
       <ConfirmModal
         visible={modalVisible}
         title={modalTitle}
@@ -362,6 +500,30 @@ const Sell: React.FC = () => {
         onConfirm={() => setModalVisible(false)}
         onCancel={() => setModalVisible(false)}
       />
+
+      <BarcodeScanner
+        visible={showScanner}
+        continuous
+        title="Scan to sell"
+        statusMessage={scanStatus}
+        onClose={() => setShowScanner(false)}
+        onScanned={handleBarcodeScanned}
+      />
+
+      <ConfirmModal
+        visible={!!unknownBarcode}
+        title="Product not found"
+        subtitle={`No product in your inventory has the barcode ${unknownBarcode ?? ""}. Create it now?`}
+        iconName="barcode-outline"
+        iconColor={colors.primary}
+        confirmText="Create product"
+        cancelText="Cancel"
+        onCancel={() => setUnknownBarcode(null)}
+        onConfirm={() => {
+          if (unknownBarcode) openAddProductWithBarcode(unknownBarcode);
+          setUnknownBarcode(null);
+        }}
+      />
     </SafeAreaView>
   );
 };
@@ -1,3 +1,6 @@
+import { usePermissions } from "@/hooks/usePermissions";
+import { useSalesOutboxSync } from "@/hooks/useSalesOutbox";
+import { useTheme } from "@/hooks/useTheme";
 import { Ionicons } from "@expo/vector-icons";
 import { Tabs } from "expo-router";
 import React from "react";
@@ -5,19 +8,22 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 const MainLayout = () => {
   const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+  const { canViewFinance } = usePermissions();
+  useSalesOutboxSync();
 
   return (
     <Tabs
       screenOptions={{
-        tabBarActiveTintColor: "#1155CC",
-        tabBarInactiveTintColor: "#9CA3AF",
+        tabBarActiveTintColor: colors.tabIconSelected,
+        tabBarInactiveTintColor: colors.tabIconDefault,
         headerShown: false,
         tabBarHideOnKeyboard: true,
         tabBarShowLabel: true,
         tabBarStyle: {
-          backgroundColor: "#FFFFFF",
+          backgroundColor: colors.surface,
           borderTopWidth: 1,
-          borderTopColor: "#E5E7EB",
+          borderTopColor: colors.border,
           paddingBottom: insets.bottom > 0 ? insets.bottom : 8,
           paddingTop: 6,
           height: 64 + insets.bottom,
@@ -72,6 +78,8 @@ const MainLayout = () => {
         name="Finance"
         options={{
           title: "Finance",
+          // Cashiers don't see the tab at all
+          href: canViewFinance ? undefined : null,
           tabBarIcon: ({ color }) => (
             <Ionicons name="bar-chart-outline" size={24} color={color} />
           ),
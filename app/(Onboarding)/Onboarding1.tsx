@@ -2,6 +2,9 @@ import { router } from "expo-router";
 import React, { useEffect } from "react";
 import { Dimensions, Image, StyleSheet, Text, View } from "react-native";
 
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
+
 const { width, height } = Dimensions.get("window");
 
 // Responsive sizing functions
@@ -15,6 +18,8 @@ const moderateScale = (size: number, factor = 0.5) =>
   size + (scale(size) - size) * factor;
 
 const Onboarding1 = () => {
+  const styles = useThemedStyles(createStyles);
+
   useEffect(() => {
     const timer = setTimeout(() => {
       router.replace("/(Auth)/WelcomeScreen");
@@ -55,87 +60,88 @@ const Onboarding1 = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#1155CC",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingVertical: verticalScale(40),
-  },
-  centerContent: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-    width: "100%",
-    paddingHorizontal: scale(2),
-  },
-  title: {
-    fontSize: height * 0.08, // Responsive font size
-    color: "#fff",
-    fontFamily: "DMSans_700Bold",
-    textAlign: "center",
-    width: "100%",
-    includeFontPadding: false,
-  },
-  subtitle: {
-    fontSize: 14,
-    color: "#fff",
-    fontFamily: "DMSans_400Regular",
-    textAlign: "center",
-    width: "100%",
-    marginTop: verticalScale(10),
-    includeFontPadding: false,
-  },
-  logoContainer: {
-    alignItems: "center",
-    marginBottom: verticalScale(20),
-    width: "100%",
-    paddingHorizontal: scale(20),
-  },
-  fromText: {
-    color: "#fff",
-    fontSize: moderateScale(16),
-    marginBottom: verticalScale(2),
-    fontFamily: "DMSans_400Regular",
-  },
-  logoRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    marginBottom: verticalScale(4),
-    width: "100%",
-    justifyContent: "center",
-  },
-  logoIcon: {
-    width: scale(32),
-    height: verticalScale(32),
-    borderRadius: moderateScale(16),
-    backgroundColor: "#fff",
-    justifyContent: "center",
-    alignItems: "center",
-    marginRight: 8,
-  },
-  logoText: {
-    color: "#fff",
-    fontSize: moderateScale(24),
-    fontFamily: "DMSans_700Bold",
-    letterSpacing: 1,
-    flexShrink: 1,
-    includeFontPadding: false,
-  },
-  systemsText: {
-    color: "#fff",
-    fontSize: moderateScale(14),
-    letterSpacing: 4,
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingVertical: verticalScale(40),
+    },
+    centerContent: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      width: "100%",
+      paddingHorizontal: scale(2),
+    },
+    title: {
+      fontSize: height * 0.08, // Responsive font size
+      color: colors.onPrimary,
+      fontFamily: "DMSans_700Bold",
+      textAlign: "center",
+      width: "100%",
+      includeFontPadding: false,
+    },
+    subtitle: {
+      fontSize: 14,
+      color: colors.onPrimary,
+      fontFamily: "DMSans_400Regular",
+      textAlign: "center",
+      width: "100%",
+      marginTop: verticalScale(10),
+      includeFontPadding: false,
+    },
+    logoContainer: {
+      alignItems: "center",
+      marginBottom: verticalScale(20),
+      width: "100%",
+      paddingHorizontal: scale(20),
+    },
+    fromText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      marginBottom: verticalScale(2),
+      fontFamily: "DMSans_400Regular",
+    },
+    logoRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      marginBottom: verticalScale(4),
+      width: "100%",
+      justifyContent: "center",
+    },
+    logoIcon: {
+      width: scale(32),
+      height: verticalScale(32),
+      borderRadius: moderateScale(16),
+      backgroundColor: colors.onPrimary,
+      justifyContent: "center",
+      alignItems: "center",
+      marginRight: 8,
+    },
+    logoText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(24),
+      fontFamily: "DMSans_700Bold",
+      letterSpacing: 1,
+      flexShrink: 1,
+      includeFontPadding: false,
+    },
+    systemsText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(14),
+      letterSpacing: 4,
 
-    fontFamily: "DMSans_400Regular",
-    includeFontPadding: false,
-    marginLeft: 28,
-  },
-  image: {
-    height: verticalScale(28),
-    width: scale(28),
-  },
-});
+      fontFamily: "DMSans_400Regular",
+      includeFontPadding: false,
+      marginLeft: 28,
+    },
+    image: {
+      height: verticalScale(28),
+      width: scale(28),
+    },
+  });
 
 export default Onboarding1;
@@ -10,6 +10,8 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
 
 const { width, height } = Dimensions.get("window");
 const clamp = (value: number, min: number, max: number) =>
@@ -22,6 +24,7 @@ const moderateScale = (size: number, factor = 0.5) =>
   size + (scale(size) - size) * factor;
 
 const AccountScreen = () => {
+  const styles = useThemedStyles(createStyles);
   const router = useRouter(); // Use useRouter for Expo Router navigation
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
@@ -71,63 +74,64 @@ const AccountScreen = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    padding: scale(20),
-    backgroundColor: "#fff",
-  },
-  headerText: {
-    fontSize: moderateScale(22),
-    marginTop: verticalScale(42),
-    alignSelf: "center",
-  },
-  tagline: {
-    fontSize: moderateScale(15),
-    color: "#aaa",
-    marginBottom: verticalScale(32),
-    alignSelf: "center",
-  },
-  label: {
-    fontSize: moderateScale(15),
-    marginBottom: verticalScale(5),
-  },
-  input: {
-    borderWidth: 1,
-    borderColor: "#ccc",
-    borderRadius: moderateScale(8),
-    padding: moderateScale(14),
-    fontSize: moderateScale(15),
-    marginBottom: verticalScale(18),
-    backgroundColor: "#F6F7F9",
-  },
-  passwordContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    borderWidth: 1,
-    borderColor: "#ccc",
-    borderRadius: moderateScale(8),
-    padding: moderateScale(10),
-    marginBottom: verticalScale(18),
-  },
-  passwordInput: {
-    flex: 1,
-    fontSize: moderateScale(15),
-  },
-  signUpButton: {
-    backgroundColor: "#24A19C",
-    padding: moderateScale(14),
-    borderRadius: moderateScale(8),
-    width: "100%",
-    alignSelf: "center",
-    marginTop: "auto",
-    marginBottom: verticalScale(24),
-  },
-  signUpButtonText: {
-    color: "#fff",
-    fontSize: moderateScale(15),
-    textAlign: "center",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      padding: scale(20),
+      backgroundColor: colors.surface,
+    },
+    headerText: {
+      fontSize: moderateScale(22),
+      marginTop: verticalScale(42),
+      alignSelf: "center",
+    },
+    tagline: {
+      fontSize: moderateScale(15),
+      color: colors.textMuted,
+      marginBottom: verticalScale(32),
+      alignSelf: "center",
+    },
+    label: {
+      fontSize: moderateScale(15),
+      marginBottom: verticalScale(5),
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(8),
+      padding: moderateScale(14),
+      fontSize: moderateScale(15),
+      marginBottom: verticalScale(18),
+      backgroundColor: colors.surfaceMuted,
+    },
+    passwordContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(8),
+      padding: moderateScale(10),
+      marginBottom: verticalScale(18),
+    },
+    passwordInput: {
+      flex: 1,
+      fontSize: moderateScale(15),
+    },
+    signUpButton: {
+      backgroundColor: "#24A19C",
+      padding: moderateScale(14),
+      borderRadius: moderateScale(8),
+      width: "100%",
+      alignSelf: "center",
+      marginTop: "auto",
+      marginBottom: verticalScale(24),
+    },
+    signUpButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(15),
+      textAlign: "center",
+    },
+  });
 
 export default AccountScreen;
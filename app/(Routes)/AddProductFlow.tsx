@@ -1,6 +1,8 @@
 import { Product, useAddProductForm } from "@/hooks/useAddProductForm";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTheme } from "@/hooks/useTheme";
 import { useRouter } from "expo-router";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import SuccessModal from "../../components/ui/SuccessModal";
 import InitialChoiceSheet from "./components/InitialChoiceSheet";
 import ProductFormModal from "./components/ProductFormModal";
@@ -12,6 +14,8 @@ interface AddProductFlowProps {
   onSaveProduct?: (productData: Product) => void;
   initialProduct?: Product; // <-- add this
   startStep?: number;
+  // Prefill from a scanned code that matched no product
+  initialBarcode?: string;
 }
 
 const AddProductFlow: React.FC<AddProductFlowProps> = ({
@@ -20,12 +24,16 @@ const AddProductFlow: React.FC<AddProductFlowProps> = ({
   onSaveProduct = () => {},
   initialProduct,
   startStep = 0,
+  initialBarcode,
 }) => {
+  const { colors } = useTheme();
   const router = useRouter();
+  const { canViewCosts } = usePermissions();
   const [showInitialChoice, setShowInitialChoice] = useState(!initialProduct);
   const [showSearchModal, setShowSearchModal] = useState(false);
   const [showFormModal, setShowFormModal] = useState(!!initialProduct);
   const [hasPrefilled, setHasPrefilled] = useState(false);
+  const prefilledBarcodeRef = useRef<string | undefined>(undefined);
   const isRestockMode = !!initialProduct && startStep === 1;
   const isEditMode = !!initialProduct && !isRestockMode;
   const {
@@ -69,6 +77,19 @@ const AddProductFlow: React.FC<AddProductFlowProps> = ({
     }
   }, [initialProduct, visible, hasPrefilled, populateFromProduct]);
 
+  useEffect(() => {
+    if (!visible) {
+      prefilledBarcodeRef.current = undefined;
+      return;
+    }
+    if (!initialBarcode || initialProduct) return;
+    if (prefilledBarcodeRef.current === initialBarcode) return;
+    prefilledBarcodeRef.current = initialBarcode;
+    updateFormData("barcode", initialBarcode);
+    setShowInitialChoice(false);
+    setShowFormModal(true);
+  }, [visible, initialBarcode, initialProduct, updateFormData]);
+
   const handleAddManually = () => {
     setShowInitialChoice(false);
     setShowFormModal(true);
@@ -145,6 +166,8 @@ const AddProductFlow: React.FC<AddProductFlowProps> = ({
               : "New Product"
         }
         initialStep={startStep}
+        // A restock keeps the current cost price without showing it
+        hideCosts={isRestockMode && !canViewCosts}
       />
 
       <SuccessModal
@@ -164,7 +187,7 @@ const AddProductFlow: React.FC<AddProductFlowProps> = ({
               : "Your product has been successfully added."
         }
         iconName="checkmark-circle-outline"
-        iconColor="#1BC47D"
+        iconColor={colors.success}
         buttonText="Done"
         onClose={handleSuccessClose}
       />
@@ -0,0 +1,326 @@
+// app/(Routes)/BranchesScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+    ActivityIndicator,
+    Dimensions,
+    RefreshControl,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import BranchFormModal from "@/components/BranchFormModal";
+import { useBranches, useStockTransfers } from "@/hooks/useBranches";
+import { usePermissions } from "@/hooks/usePermissions";
+import type { ApiBranch } from "@/src/api/branches";
+import useBranchStore from "@/stores/branchStore";
+import { formatDateLabel } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const BranchesScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { canManageBranches } = usePermissions();
+  const activeBranchId = useBranchStore((state) => state.branchId);
+  const {
+    data: branches = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useBranches();
+  const { data: transfers = [], isLoading: loadingTransfers } =
+    useStockTransfers();
+  const [form, setForm] = useState<{ branch: ApiBranch | null } | null>(null);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Branches</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+          }
+        >
+          {branches.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Feather name="map-pin" size={48} color={colors.textMuted} />
+              <Text style={styles.emptyTitle}>One shop for now</Text>
+              <Text style={styles.emptyText}>
+                Add a branch for each shop you run. Every branch keeps its own
+                stock and sales, and Finance can add them all up.
+              </Text>
+            </View>
+          ) : (
+            branches.map((branch) => (
+              <TouchableOpacity
+                key={branch.id}
+                style={styles.branchCard}
+                activeOpacity={0.7}
+                disabled={!canManageBranches}
+                onPress={() => setForm({ branch })}
+              >
+                <View style={styles.avatar}>
+                  <Feather name="map-pin" size={18} color={colors.primary} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.branchName} numberOfLines={1}>
+                    {branch.name}
+                  </Text>
+                  <Text style={styles.branchMeta} numberOfLines={1}>
+                    {[branch.address, branch.phone]
+                      .filter(Boolean)
+                      .join(" · ") || "No address"}
+                  </Text>
+                </View>
+                {branch.id === activeBranchId ? (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>This phone</Text>
+                  </View>
+                ) : branch.is_main ? (
+                  <View style={styles.tag}>
+                    <Text style={styles.tagText}>Main</Text>
+                  </View>
+                ) : null}
+              </TouchableOpacity>
+            ))
+          )}
+
+          <Text style={styles.sectionTitle}>Recent transfers</Text>
+          {loadingTransfers ? (
+            <ActivityIndicator color={colors.primary} style={{ padding: 12 }} />
+          ) : transfers.length === 0 ? (
+            <Text style={styles.sectionEmpty}>
+              Move stock between branches from a product&apos;s details page.
+            </Text>
+          ) : (
+            transfers.map((transfer) => (
+              <View key={transfer.id} style={styles.transferRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.transferTitle} numberOfLines={1}>
+                    {transfer.product_name || "Product"}
+                  </Text>
+                  <Text style={styles.transferMeta} numberOfLines={1}>
+                    {transfer.from_branch_name || "Branch"} →{" "}
+                    {transfer.to_branch_name || "Branch"}
+                    {transfer.created_at
+                      ? ` · ${formatDateLabel(new Date(transfer.created_at))}`
+                      : ""}
+                  </Text>
+                </View>
+                <Text style={styles.transferQuantity}>
+                  {transfer.quantity}
+                </Text>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+
+      {canManageBranches && (
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={() => setForm({ branch: null })}
+          activeOpacity={0.85}
+        >
+          <Feather name="plus" size={moderateScale(28)} color="white" />
+        </TouchableOpacity>
+      )}
+
+      <BranchFormModal
+        visible={form !== null}
+        branch={form?.branch}
+        onClose={() => setForm(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(32),
+      paddingHorizontal: scale(20),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── Branches ────────────────────────────────────────────────────────────
+    content: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(110),
+      gap: verticalScale(10),
+    },
+    branchCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    avatar: {
+      width: scale(42),
+      height: scale(42),
+      borderRadius: scale(21),
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    branchName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    branchMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    tag: {
+      backgroundColor: colors.primarySoft,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(4),
+      paddingHorizontal: scale(10),
+    },
+    tagText: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.primary,
+    },
+
+    // ── Transfers ───────────────────────────────────────────────────────────
+    sectionTitle: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginTop: verticalScale(14),
+    },
+    sectionEmpty: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    transferRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(12),
+    },
+    transferTitle: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    transferMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    transferQuantity: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    fab: {
+      position: "absolute",
+      right: scale(20),
+      bottom: verticalScale(28),
+      width: moderateScale(60),
+      height: moderateScale(60),
+      borderRadius: moderateScale(30),
+      backgroundColor: colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+      shadowColor: colors.primary,
+      shadowOffset: { width: 0, height: 6 },
+      shadowOpacity: 0.35,
+      shadowRadius: 10,
+      elevation: 8,
+    },
+  });
+
+export default BranchesScreen;
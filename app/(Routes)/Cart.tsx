@@ -1,8 +1,7 @@
 import { Feather } from "@expo/vector-icons";
-import { useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import { useRouter } from "expo-router";
+import React from "react";
 import {
-    ActivityIndicator,
     Alert,
     Dimensions,
     Image,
@@ -13,192 +12,99 @@ import {
     View,
 } from "react-native";
 import { formatCurrency } from "@/utils/formatters";
-import { styles } from "./components/Cart.styles";
+import { UNIT_LABELS, getSaleUnits, type SaleUnit } from "@/utils/units";
+import { createStyles } from "./components/Cart.styles";
 
 // Manual dashed separator: RN's `borderStyle: "dashed"` renders solid on iOS
 // unless borderRadius > 0 (which curves the edges), so we draw the line from
 // small segments instead — always straight and dashed across platforms.
 const DASH_COUNT = Math.ceil(Dimensions.get("window").width / 10);
-const DashedSeparator: React.FC = () => (
-  <View style={styles.dashedSeparator}>
-    {Array.from({ length: DASH_COUNT }).map((_, i) => (
-      <View key={i} style={styles.dash} />
-    ))}
-  </View>
-);
+const DashedSeparator: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
 
-import { apiClient } from "@/src/api";
-import { PRODUCTS_ITEM } from "@/src/api/endpoints";
-import { scale, verticalScale } from "../../utils/scaling";
-
-const normalizeEndpoint = (endpoint: string) =>
-  endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
-
-// Types
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  barcode: string;
-  image?: {
-    uri: string;
-    type?: string;
-    fileName?: string;
-    fileSize?: number;
-  } | null;
-  quantityType: string;
-  unitsInStock: number;
-  costPrice: number;
-  sellingPrice: number;
-  lowStockThreshold: number;
-  expiryDate: string;
-  supplier: {
-    name: string;
-    phone: string;
-  };
-  dateAdded: string;
-  userId: string;
-}
+  return (
+    <View style={styles.dashedSeparator}>
+      {Array.from({ length: DASH_COUNT }).map((_, i) => (
+        <View key={i} style={styles.dash} />
+      ))}
+    </View>
+  );
+};
 
-interface CartItem {
-  id: string;
-  quantity: number;
-  product?: Product;
-}
+import useCartStore, {
+  getCartCount,
+  getCartTotal,
+  getLineUnit,
+  type CartLine,
+  type ParkedCart,
+} from "@/stores/cartStore";
+import { scale, verticalScale } from "../../utils/scaling";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const Cart: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
-  const params = useLocalSearchParams();
-  const [loading, setLoading] = useState<boolean>(true);
-  const [cart, setCart] = useState<CartItem[]>([]);
-
-  useEffect(() => {
-    let cartItems: CartItem[] = [];
-    if (params.cartData) {
-      try {
-        const parsed = JSON.parse(params.cartData as string) as Array<
-          CartItem & { productId?: string }
-        >;
-        cartItems = parsed
-          .map((item) => ({ ...item, id: item.id || item.productId || "" }))
-          .filter((item) => !!item.id);
-      } catch (parseError) {
-        Alert.alert("Error", "Failed to load cart data");
-        setCart([]);
-        setLoading(false);
-        return;
-      }
-    }
-    if (cartItems.length === 0) {
-      setCart([]);
-      setLoading(false);
-      return;
-    }
-    setLoading(true);
-    Promise.all(
-      cartItems.map(async (item) => {
-        if (item.product) {
-          return item;
-        }
-
-        try {
-          const { data: productData } = await apiClient.get(
-            normalizeEndpoint(PRODUCTS_ITEM(item.id)),
-          );
-          if (productData) {
-            return {
-              ...item,
-              product: {
-                id: String(productData.id),
-                name: productData.name,
-                category: productData.category_name || "",
-                barcode: productData.barcode || "",
-                image: productData.image ? { uri: productData.image } : null,
-                quantityType: productData.quantity_type || "Single Items",
-                unitsInStock: productData.quantity_left ?? productData.quantity,
-                costPrice: Number(productData.buying_price || 0),
-                sellingPrice: Number(productData.selling_price || 0),
-                lowStockThreshold: productData.low_stock_threshold ?? 0,
-                expiryDate: productData.expiry_date || "",
-                supplier: {
-                  name:
-                    productData.supplier_name ||
-                    productData.supplier_obj_name ||
-                    "",
-                  phone: productData.supplier_phone || "",
-                },
-                dateAdded: productData.created_at || new Date().toISOString(),
-                userId: "api-user",
-              } as Product,
-            };
-          }
-        } catch (error) {
-          // fallback: skip product
-        }
-        return item;
-      }),
-    ).then((cartWithProducts) => {
-      setCart(cartWithProducts);
-      setLoading(false);
-    });
-  }, [params.cartData, params.timestamp]);
-
-  const updateQuantity = (id: string, newQuantity: number): void => {
-    if (newQuantity < 1) {
-      removeFromCart(id);
-      return;
-    }
-
-    const updatedCart = cart.map((item) =>
-      item.id === id ? { ...item, quantity: newQuantity } : item,
-    );
-    setCart(updatedCart);
-  };
+  const cart = useCartStore((s) => s.lines);
+  const parked = useCartStore((s) => s.parked);
+  const increment = useCartStore((s) => s.increment);
+  const decrement = useCartStore((s) => s.decrement);
+  const removeItem = useCartStore((s) => s.removeItem);
+  const setUnit = useCartStore((s) => s.setUnit);
+  const parkCart = useCartStore((s) => s.parkCart);
+  const resumeCart = useCartStore((s) => s.resumeCart);
+  const discardParked = useCartStore((s) => s.discardParked);
 
   const incrementQuantity = (id: string): void => {
-    const item = cart.find((i) => i.id === id);
-    if (item && item.product) {
-      if (item.quantity >= item.product.unitsInStock) {
-        Alert.alert(
-          "Stock Limit",
-          `Only ${item.product.unitsInStock} units available in stock`,
-        );
-        return;
-      }
-      updateQuantity(id, item.quantity + 1);
-    }
+    const result = increment(id);
+    if (!result.ok) Alert.alert("Stock Limit", result.reason);
   };
 
   const decrementQuantity = (id: string): void => {
     const item = cart.find((i) => i.id === id);
-    if (item) {
-      updateQuantity(id, item.quantity - 1);
+    if (item && item.quantity <= 1) {
+      removeFromCart(id);
+      return;
     }
+    decrement(id);
+  };
+
+  const changeUnit = (id: string, unit: SaleUnit): void => {
+    const result = setUnit(id, unit);
+    if (!result.ok) Alert.alert("Stock Limit", result.reason);
   };
 
   const removeFromCart = (id: string): void => {
-    const updatedCart = cart.filter((item) => item.id !== id);
-    setCart(updatedCart);
+    removeItem(id);
 
     // If cart is empty after removal, go back
-    if (updatedCart.length === 0) {
+    if (cart.length === 1 && cart[0].id === id && parked.length === 0) {
       Alert.alert("Cart Empty", "Your cart is now empty", [
         { text: "OK", onPress: () => router.back() },
       ]);
     }
   };
 
-  const calculateTotal = (): number => {
-    return cart.reduce((total, item) => {
-      if (item.product) {
-        return total + item.product.sellingPrice * item.quantity;
-      }
-      return total;
-    }, 0);
+  const holdCart = (): void => {
+    const result = parkCart();
+    if (!result.ok) {
+      Alert.alert("Nothing to hold", result.reason);
+    }
   };
 
-  const getTotalItems = (): number => {
-    return cart.reduce((total, item) => total + item.quantity, 0);
+  const confirmDiscardParked = (held: ParkedCart): void => {
+    Alert.alert(
+      "Discard held cart?",
+      `${held.label}'s ${getCartCount(held.lines)} items will be removed.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => discardParked(held.id),
+        },
+      ],
+    );
   };
 
   const proceedToCheckout = (): void => {
@@ -206,22 +112,14 @@ const Cart: React.FC = () => {
       Alert.alert("Empty Cart", "Please add items to your cart first");
       return;
     }
-    router.push({
-      pathname: "/(Routes)/Checkout" as any,
-      params: { cartData: JSON.stringify(cart) },
-    });
+    router.push("/(Routes)/Checkout" as any);
   };
 
   const renderCartItem = (
-    item: CartItem,
+    item: CartLine,
     index: number,
-  ): React.ReactElement | null => {
-    if (!item.product) {
-      console.warn("Cart item missing product data:", item);
-      return null;
-    }
-
-    const itemTotal = item.product.sellingPrice * item.quantity;
+  ): React.ReactElement => {
+    const units = getSaleUnits(item.product);
 
     return (
       <View key={`${item.id}-${index}`} style={styles.cartItem}>
@@ -257,10 +155,41 @@ const Cart: React.FC = () => {
 
           <View style={styles.priceQuantityRow}>
             <Text style={styles.productPrice}>
-              {formatCurrency(item.product.sellingPrice ?? 0)}
+              {formatCurrency(item.unitPrice ?? 0)}
             </Text>
+            {getLineUnit(item) === "carton" && (
+              <Text style={styles.unitSuffix}>
+                / {UNIT_LABELS.carton.one}
+              </Text>
+            )}
           </View>
 
+          {units.length > 1 && (
+            <View style={styles.unitToggle}>
+              {units.map((unit) => {
+                const active = getLineUnit(item) === unit;
+                return (
+                  <TouchableOpacity
+                    key={unit}
+                    style={[styles.unitChip, active && styles.unitChipActive]}
+                    onPress={() => changeUnit(item.id, unit)}
+                  >
+                    <Text
+                      style={[
+                        styles.unitChipText,
+                        active && styles.unitChipTextActive,
+                      ]}
+                    >
+                      {unit === "carton"
+                        ? `Carton (${item.product.unitsPerCarton})`
+                        : "Piece"}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
           <View style={styles.bottomRow}>
             <View style={styles.quantityControl}>
               <TouchableOpacity
@@ -285,6 +214,52 @@ const Cart: React.FC = () => {
     );
   };
 
+  const renderParkedCarts = (): React.ReactElement | null => {
+    if (parked.length === 0) return null;
+
+    return (
+      <View style={styles.parkedContainer}>
+        <Text style={styles.parkedTitle}>Held carts</Text>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.parkedList}
+        >
+          {parked.map((held) => (
+            <View key={held.id} style={styles.parkedCard}>
+              <View style={styles.parkedHeader}>
+                <Text style={styles.parkedLabel} numberOfLines={1}>
+                  {held.label}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => confirmDiscardParked(held)}
+                  hitSlop={{
+                    top: verticalScale(8),
+                    bottom: verticalScale(8),
+                    left: scale(8),
+                    right: scale(8),
+                  }}
+                >
+                  <Feather name="trash-2" size={16} color="#EF4444" />
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.parkedMeta}>
+                {getCartCount(held.lines)} items ·{" "}
+                {formatCurrency(getCartTotal(held.lines))}
+              </Text>
+              <TouchableOpacity
+                style={styles.resumeButton}
+                onPress={() => resumeCart(held.id)}
+              >
+                <Text style={styles.resumeButtonText}>Resume</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      </View>
+    );
+  };
+
   const renderEmptyCart = (): React.ReactElement => (
     <View style={styles.emptyState}>
       <Feather name="shopping-cart" size={80} color="#E0E0E0" />
@@ -298,17 +273,6 @@ const Cart: React.FC = () => {
     </View>
   );
 
-  if (loading) {
-    return (
-      <SafeAreaView style={styles.container}>
-        <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#007AFF" />
-          <Text style={styles.loadingText}>Loading cart...</Text>
-        </View>
-      </SafeAreaView>
-    );
-  }
-
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -318,15 +282,17 @@ const Cart: React.FC = () => {
           onPress={() => router.back()}
           style={styles.backButton}
         >
-          <Feather name="arrow-left" size={24} color="#000" />
+          <Feather name="arrow-left" size={24} color={colors.text} />
         </TouchableOpacity>
         {/* <View style={styles.headerRight}>
           <Text style={styles.itemCount}>
-            {getTotalItems()} {getTotalItems() === 1 ? "item" : "items"}
+            {getCartCount(cart)} {getCartCount(cart) === 1 ? "item" : "items"}
           </Text>
         </View> */}
       </View>
 
+      {renderParkedCarts()}
+
       {cart.length === 0 ? (
         renderEmptyCart()
       ) : (
@@ -350,16 +316,25 @@ const Cart: React.FC = () => {
             <View style={styles.totalContainer}>
               <Text style={styles.totalLabel}>Total</Text>
               <Text style={styles.totalAmount}>
-                {formatCurrency(calculateTotal() ?? 0)}
+                {formatCurrency(getCartTotal(cart))}
               </Text>
             </View>
 
-            <TouchableOpacity
-              style={styles.checkoutButton}
-              onPress={proceedToCheckout}
-            >
-              <Text style={styles.checkoutButtonText}>Proceed to Checkout</Text>
-            </TouchableOpacity>
+            <View style={styles.footerActions}>
+              <TouchableOpacity style={styles.holdButton} onPress={holdCart}>
+                <Feather name="pause-circle" size={18} color={colors.primary} />
+                <Text style={styles.holdButtonText}>Hold</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.checkoutButton, styles.checkoutButtonFlex]}
+                onPress={proceedToCheckout}
+              >
+                <Text style={styles.checkoutButtonText}>
+                  Proceed to Checkout
+                </Text>
+              </TouchableOpacity>
+            </View>
           </View>
         </>
       )}
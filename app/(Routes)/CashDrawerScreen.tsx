@@ -0,0 +1,523 @@
+// app/(Routes)/CashDrawerScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    RefreshControl,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import CashPayoutModal from "@/components/CashPayoutModal";
+import CloseShiftModal from "@/components/CloseShiftModal";
+import {
+    useCurrentShift,
+    useOpenShift,
+    useShifts,
+    useZReport,
+} from "@/hooks/useShifts";
+import type { ApiShift } from "@/src/api/shifts";
+import { formatCurrency } from "@/utils/formatters";
+import { formatReceiptDate } from "@/utils/receipt";
+import {
+    getOverShortLabel,
+    getShiftReference,
+    getShiftTotals,
+} from "@/utils/shifts";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const CashDrawerScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const {
+    data: shift,
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useCurrentShift();
+  const { data: pastShifts = [], refetch: refetchPast } = useShifts();
+  const openShift = useOpenShift();
+  const { reportLoading, printZReport, shareZReportPdf } = useZReport();
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [showPayoutModal, setShowPayoutModal] = useState(false);
+  const [showCloseModal, setShowCloseModal] = useState(false);
+
+  const totals = shift ? getShiftTotals(shift) : null;
+
+  const handleOpen = async () => {
+    const value = parseFloat(openingFloat.replace(/,/g, ""));
+    if (!Number.isFinite(value) || value < 0) {
+      Alert.alert("Error", "Enter the cash in the drawer, or 0 if it's empty");
+      return;
+    }
+    try {
+      await openShift.mutateAsync({ opening_float: String(value) });
+      setOpeningFloat("");
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to open the shift. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  const showReportActions = (closed: ApiShift, title: string) => {
+    Alert.alert(title, `Z-report ${getShiftReference(closed)}`, [
+      { text: "Print", onPress: () => printZReport(closed) },
+      { text: "Share PDF", onPress: () => shareZReportPdf(closed) },
+      { text: "Done", style: "cancel" },
+    ]);
+  };
+
+  // Money leaving the drawer is shown as a deduction
+  const renderTotal = (
+    label: string,
+    value: number,
+    { deduct = false, strong = false } = {},
+  ) => (
+    <View style={styles.totalRow}>
+      <Text style={[styles.totalLabel, strong && styles.totalStrong]}>
+        {label}
+      </Text>
+      <Text style={[styles.totalValue, strong && styles.totalStrong]}>
+        {deduct && value > 0 ? "-" : ""}
+        {formatCurrency(value)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Cash Drawer</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.content}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefetching}
+              onRefresh={() => {
+                refetch();
+                refetchPast();
+              }}
+            />
+          }
+        >
+          {!shift || !totals ? (
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <View style={styles.avatar}>
+                  <Feather name="lock" size={18} color={colors.primary} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle}>Drawer is closed</Text>
+                  <Text style={styles.cardMeta}>
+                    Count the cash you&apos;re starting with to open a shift
+                  </Text>
+                </View>
+              </View>
+              <Text style={styles.label}>Opening float</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="0"
+                placeholderTextColor={colors.textMuted}
+                value={openingFloat}
+                onChangeText={(text) =>
+                  setOpeningFloat(text.replace(/[^0-9.]/g, ""))
+                }
+                keyboardType="decimal-pad"
+              />
+              <TouchableOpacity
+                style={[
+                  styles.primaryButton,
+                  openShift.isPending && styles.buttonDisabled,
+                ]}
+                onPress={handleOpen}
+                disabled={openShift.isPending}
+              >
+                {openShift.isPending ? (
+                  <ActivityIndicator color={colors.onPrimary} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Open shift</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <View style={styles.avatar}>
+                  <Feather name="unlock" size={18} color={colors.primary} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.cardTitle}>Shift open</Text>
+                  <Text style={styles.cardMeta} numberOfLines={1}>
+                    Since {formatReceiptDate(new Date(shift.opened_at))}
+                    {shift.opened_by_name ? ` · ${shift.opened_by_name}` : ""}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.totals}>
+                {renderTotal("Opening float", totals.openingFloat)}
+                {renderTotal("Cash sales", totals.cashSales)}
+                {renderTotal("Cash refunds", totals.cashRefunds, {
+                  deduct: true,
+                })}
+                {renderTotal("Payouts", totals.payouts, { deduct: true })}
+                {renderTotal("Expected in drawer", totals.expected, {
+                  strong: true,
+                })}
+              </View>
+              <Text style={styles.cardMeta}>
+                {shift.transactions ?? 0}{" "}
+                {shift.transactions === 1 ? "sale" : "sales"} ·{" "}
+                {formatCurrency(totals.nonCashSales)} by transfer or POS
+              </Text>
+
+              <View style={styles.actions}>
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={() => setShowPayoutModal(true)}
+                >
+                  <Feather name="minus-circle" size={16} color={colors.text} />
+                  <Text style={styles.secondaryButtonText}>Cash payout</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, styles.actionButton]}
+                  onPress={() => setShowCloseModal(true)}
+                >
+                  <Text style={styles.primaryButtonText}>Close shift</Text>
+                </TouchableOpacity>
+              </View>
+
+              {(shift.payouts ?? []).map((payout) => (
+                <View key={payout.id} style={styles.payoutRow}>
+                  <Text style={styles.payoutReason} numberOfLines={1}>
+                    {payout.reason}
+                  </Text>
+                  <Text style={styles.payoutAmount}>
+                    -{formatCurrency(payout.amount)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>Past shifts</Text>
+          {pastShifts.length === 0 ? (
+            <Text style={styles.sectionEmpty}>
+              Closed shifts and their Z-reports show up here.
+            </Text>
+          ) : (
+            pastShifts.map((past) => {
+              const { overShort } = getShiftTotals(past);
+              const difference = overShort ?? 0;
+              return (
+                <TouchableOpacity
+                  key={past.id}
+                  style={styles.shiftRow}
+                  activeOpacity={0.7}
+                  disabled={reportLoading}
+                  onPress={() => showReportActions(past, "Z-report")}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.shiftTitle} numberOfLines={1}>
+                      {getShiftReference(past)}
+                      {past.closed_by_name ? ` · ${past.closed_by_name}` : ""}
+                    </Text>
+                    <Text style={styles.shiftMeta} numberOfLines={1}>
+                      {formatReceiptDate(
+                        new Date(past.closed_at || past.opened_at),
+                      )}
+                    </Text>
+                  </View>
+                  <View style={{ alignItems: "flex-end" }}>
+                    <Text
+                      style={[
+                        styles.shiftDifference,
+                        difference < 0 && styles.short,
+                        difference > 0 && styles.over,
+                      ]}
+                    >
+                      {formatCurrency(Math.abs(difference))}
+                    </Text>
+                    <Text style={styles.shiftMeta}>
+                      {getOverShortLabel(difference)}
+                    </Text>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+      )}
+
+      {shift && totals && (
+        <>
+          <CashPayoutModal
+            visible={showPayoutModal}
+            shiftId={shift.id}
+            expectedCash={totals.expected}
+            onClose={() => setShowPayoutModal(false)}
+          />
+          <CloseShiftModal
+            visible={showCloseModal}
+            shift={shift}
+            onClose={() => setShowCloseModal(false)}
+            onClosed={(closed) => showReportActions(closed, "Shift closed")}
+          />
+        </>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── Current shift ───────────────────────────────────────────────────────
+    content: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(40),
+      gap: verticalScale(10),
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(16),
+      gap: verticalScale(10),
+    },
+    cardHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+    },
+    avatar: {
+      width: scale(42),
+      height: scale(42),
+      borderRadius: scale(21),
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    cardTitle: {
+      fontSize: moderateScale(17),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    cardMeta: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    label: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      padding: scale(14),
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    totals: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(10),
+      padding: scale(14),
+      gap: verticalScale(8),
+    },
+    totalRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+    },
+    totalLabel: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    totalValue: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    totalStrong: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    actions: {
+      flexDirection: "row",
+      gap: scale(10),
+    },
+    actionButton: {
+      flex: 1,
+    },
+    primaryButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(14),
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    primaryButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    secondaryButton: {
+      flex: 1,
+      flexDirection: "row",
+      gap: scale(6),
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(14),
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    secondaryButtonText: {
+      color: colors.text,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+    },
+    payoutRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      gap: scale(12),
+    },
+    payoutReason: {
+      flex: 1,
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    payoutAmount: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+
+    // ── Past shifts ─────────────────────────────────────────────────────────
+    sectionTitle: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginTop: verticalScale(14),
+    },
+    sectionEmpty: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    shiftRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(12),
+    },
+    shiftTitle: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    shiftMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    shiftDifference: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    short: {
+      color: colors.danger,
+    },
+    over: {
+      color: colors.success,
+    },
+  });
+
+export default CashDrawerScreen;
@@ -1,4 +1,5 @@
 import { Dimensions, StyleSheet } from "react-native";
+import type { ThemeColors } from "@/constants/theme";
 
 const { width, height } = Dimensions.get("window");
 
@@ -12,244 +13,342 @@ const verticalScale = (size: number) =>
 const moderateScale = (size: number, factor = 0.5) =>
   size + (scale(size) - size) * factor;
 
-export const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#E7EEFA",
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  loadingText: {
-    marginTop: verticalScale(10),
-    fontSize: moderateScale(16),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  header: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    paddingHorizontal: scale(20),
-    paddingTop: verticalScale(20),
-    paddingBottom: verticalScale(10),
-    backgroundColor: "#E7EEFA",
-  },
-  backButton: {
-    padding: scale(4),
-  },
-  headerTitle: {
-    fontSize: moderateScale(24),
-    fontFamily: "DMSans_700Bold",
-    color: "#000",
-  },
-  content: {
-    flex: 1,
-    paddingHorizontal: scale(20),
-  },
-  section: {
-    marginTop: verticalScale(16),
-  },
-  sectionTitle: {
-    fontSize: moderateScale(14),
-    fontFamily: "DMSans_400Regular",
-    color: "#666",
-    marginBottom: verticalScale(12),
-  },
-  paymentOptionsContainer: {
-    gap: scale(8),
-  },
-  paymentOption: {
-    backgroundColor: "#FFFFFF",
-    borderRadius: moderateScale(12),
-    padding: scale(16),
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    borderWidth: 2,
-    borderColor: "transparent",
-  },
-  paymentOptionSelected: {
-    borderColor: "#1155CC",
-  },
-  paymentOptionText: {
-    fontSize: moderateScale(15),
-    fontFamily: "DMSans_400Regular",
-    color: "#000",
-  },
-  radioButton: {
-    width: scale(22),
-    height: verticalScale(22),
-    borderRadius: moderateScale(11),
-    borderWidth: 2,
-    borderColor: "#D0D0D0",
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  radioButtonSelected: {
-    borderColor: "#1155CC",
-  },
-  radioButtonInner: {
-    width: scale(10),
-    height: verticalScale(10),
-    borderRadius: moderateScale(5),
-    backgroundColor: "#1155CC",
-  },
-  footer: {
-    backgroundColor: "#E7EEFA",
-    paddingHorizontal: scale(20),
-    paddingTop: verticalScale(16),
-    paddingBottom: verticalScale(20),
-  },
-  doneButton: {
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(12),
-    paddingVertical: verticalScale(16),
-    alignItems: "center",
-  },
-  doneButtonText: {
-    color: "white",
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-  },
-  bottomPadding: {
-    height: verticalScale(40),
-  },
-  // Modal Styles
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: "rgba(0, 0, 0, 0.5)",
-    justifyContent: "flex-end",
-  },
-  modalContent: {
-    backgroundColor: "#FFFFFF",
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    paddingHorizontal: scale(20),
-    paddingTop: verticalScale(20),
-    paddingBottom: verticalScale(30),
-    maxHeight: "90%",
-  },
-  modalHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: verticalScale(20),
-  },
-  modalTitle: {
-    fontSize: moderateScale(20),
-    fontFamily: "DMSans_700Bold",
-    color: "#000",
-  },
-  closeButton: {
-    padding: scale(4),
-  },
-  inputGroup: {
-    marginBottom: verticalScale(20),
-  },
-  inputLabel: {
-    fontSize: moderateScale(14),
-    fontFamily: "DMSans_400Regular",
-    color: "#000",
-    marginBottom: verticalScale(8),
-  },
-  required: {
-    color: "#FF3B30",
-  },
-  labelSubtext: {
-    color: "#999",
-    fontSize: moderateScale(13),
-  },
-  input: {
-    backgroundColor: "#F5F7FA",
-    borderRadius: moderateScale(8),
-    padding: scale(14),
-    fontSize: moderateScale(15),
-    fontFamily: "DMSans_400Regular",
-    color: "#000",
-  },
-  amountInputContainer: {
-    backgroundColor: "#F5F7FA",
-    borderRadius: moderateScale(8),
-    padding: scale(14),
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  currencySymbol: {
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_700Bold",
-    color: "#000",
-    marginRight: 8,
-  },
-  amountInput: {
-    flex: 1,
-    fontSize: moderateScale(15),
-    fontFamily: "DMSans_400Regular",
-    color: "#000",
-    padding: scale(0),
-  },
-  quickAmountsContainer: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    gap: scale(8),
-    marginTop: verticalScale(12),
-  },
-  quickAmountButton: {
-    backgroundColor: "#FFFFFF",
-    borderWidth: 1,
-    borderColor: "#D0D0D0",
-    borderRadius: moderateScale(8),
-    paddingVertical: verticalScale(8),
-    paddingHorizontal: scale(16),
-  },
-  quickAmountText: {
-    fontSize: moderateScale(14),
-    fontFamily: "DMSans_400Regular",
-    color: "#000",
-  },
-  textArea: {
-    minHeight: 100,
-    paddingTop: verticalScale(14),
-  },
-  saveDebtorButton: {
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(12),
-    paddingVertical: verticalScale(16),
-    alignItems: "center",
-    marginTop: verticalScale(10),
-  },
-  saveDebtorButtonText: {
-    color: "white",
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-  },
-  toastContainer: {
-    position: "absolute",
-    top: verticalScale(10),
-    left: scale(20),
-    right: scale(20),
-    borderRadius: moderateScale(14),
-    paddingVertical: verticalScale(13),
-    paddingHorizontal: scale(16),
-    elevation: 7,
-    shadowColor: "#000",
-    shadowOpacity: 0.22,
-    shadowRadius: 10,
-    shadowOffset: { width: 0, height: 4 },
-    zIndex: 999,
-  },
-  toastSuccess: {
-    backgroundColor: "#16A34A",
-  },
-  toastError: {
-    backgroundColor: "#DC2626",
-  },
-  toastText: {
-    color: "#FFFFFF",
-    fontFamily: "DMSans_600SemiBold",
-    fontSize: moderateScale(13),
-    textAlign: "center",
-  },
-});
+export const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    loadingText: {
+      marginTop: verticalScale(10),
+      fontSize: moderateScale(16),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(10),
+      backgroundColor: colors.background,
+    },
+    backButton: {
+      padding: scale(4),
+    },
+    headerTitle: {
+      fontSize: moderateScale(24),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    content: {
+      flex: 1,
+      paddingHorizontal: scale(20),
+    },
+    section: {
+      marginTop: verticalScale(16),
+    },
+    shiftBanner: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(10),
+      backgroundColor: colors.warningSoft,
+      borderRadius: moderateScale(10),
+      padding: scale(12),
+      marginTop: verticalScale(12),
+    },
+    shiftBannerText: {
+      flex: 1,
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.warning,
+    },
+    sectionTitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginBottom: verticalScale(12),
+    },
+    paymentOptionsContainer: {
+      gap: scale(8),
+    },
+    paymentOption: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(16),
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      borderWidth: 2,
+      borderColor: "transparent",
+    },
+    paymentOptionSelected: {
+      borderColor: colors.primary,
+    },
+    paymentOptionText: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    radioButton: {
+      width: scale(22),
+      height: verticalScale(22),
+      borderRadius: moderateScale(11),
+      borderWidth: 2,
+      borderColor: colors.border,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    radioButtonSelected: {
+      borderColor: colors.primary,
+    },
+    radioButtonInner: {
+      width: scale(10),
+      height: verticalScale(10),
+      borderRadius: moderateScale(5),
+      backgroundColor: colors.primary,
+    },
+    footer: {
+      backgroundColor: colors.background,
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(16),
+      paddingBottom: verticalScale(20),
+    },
+    doneButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(16),
+      alignItems: "center",
+    },
+    doneButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+    },
+    customerCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      paddingHorizontal: scale(14),
+    },
+    customerInput: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      paddingVertical: verticalScale(14),
+    },
+    customerDivider: {
+      height: 1,
+      backgroundColor: colors.surfaceMuted,
+    },
+    suggestionList: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginTop: verticalScale(8),
+    },
+    suggestionItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(10),
+      paddingHorizontal: scale(14),
+      paddingVertical: verticalScale(12),
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    suggestionName: {
+      flex: 1,
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    suggestionPhone: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    tenderInputContainer: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(14),
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    summaryCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(16),
+      gap: verticalScale(10),
+    },
+    summaryRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    summaryLabel: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    summaryValue: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    summaryOwed: {
+      color: "#DC2626",
+    },
+    summaryChange: {
+      color: "#16A34A",
+    },
+    helperText: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+    },
+    bottomPadding: {
+      height: verticalScale(40),
+    },
+    // Modal Styles
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(30),
+      maxHeight: "90%",
+    },
+    modalHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: verticalScale(20),
+    },
+    modalTitle: {
+      fontSize: moderateScale(20),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    closeButton: {
+      padding: scale(4),
+    },
+    inputGroup: {
+      marginBottom: verticalScale(20),
+    },
+    inputLabel: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      marginBottom: verticalScale(8),
+    },
+    required: {
+      color: "#FF3B30",
+    },
+    labelSubtext: {
+      color: colors.textMuted,
+      fontSize: moderateScale(13),
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      padding: scale(14),
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    amountInputContainer: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      padding: scale(14),
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    currencySymbol: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginRight: 8,
+    },
+    amountInput: {
+      flex: 1,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      padding: scale(0),
+    },
+    quickAmountsContainer: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: scale(8),
+      marginTop: verticalScale(12),
+    },
+    quickAmountButton: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(8),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(16),
+    },
+    quickAmountText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    textArea: {
+      minHeight: 100,
+      paddingTop: verticalScale(14),
+    },
+    saveDebtorButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(16),
+      alignItems: "center",
+      marginTop: verticalScale(10),
+    },
+    saveDebtorButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+    },
+    toastContainer: {
+      position: "absolute",
+      top: verticalScale(10),
+      left: scale(20),
+      right: scale(20),
+      borderRadius: moderateScale(14),
+      paddingVertical: verticalScale(13),
+      paddingHorizontal: scale(16),
+      elevation: 7,
+      shadowColor: "#000",
+      shadowOpacity: 0.22,
+      shadowRadius: 10,
+      shadowOffset: { width: 0, height: 4 },
+      zIndex: 999,
+    },
+    toastSuccess: {
+      backgroundColor: "#16A34A",
+    },
+    toastError: {
+      backgroundColor: "#DC2626",
+    },
+    toastText: {
+      color: colors.onPrimary,
+      fontFamily: "DMSans_600SemiBold",
+      fontSize: moderateScale(13),
+      textAlign: "center",
+    },
+  });
@@ -1,6 +1,6 @@
 import { Feather } from "@expo/vector-icons";
-import { useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import { useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
@@ -14,11 +14,34 @@ import {
     TouchableOpacity,
     View,
 } from "react-native";
-import { formatCurrency, formatNumber } from "@/utils/formatters";
-import { styles } from "./Checkout.styles";
-
-import { apiClient } from "@/src/api";
-import { PRODUCTS_ITEM, SALES, SALES_DEBTORS } from "@/src/api/endpoints";
+import ReceiptSheet from "@/components/ReceiptSheet";
+import {
+    formatCurrency,
+    formatNumber,
+    getCurrency,
+} from "@/utils/formatters";
+import { createStyles } from "./Checkout.styles";
+
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import { useBatches } from "@/hooks/useBatches";
+import { useCustomers } from "@/hooks/useCustomers";
+import { submitSale } from "@/hooks/useSalesOutbox";
+import { useCurrentShift } from "@/hooks/useShifts";
+import {
+    apiClient,
+    type ApiSale,
+    type CreateSalePayload,
+} from "@/src/api";
+import { SALES_DEBTORS } from "@/src/api/endpoints";
+import useCartStore, {
+    getCartTotal,
+    getLineBaseQuantity,
+    getLineUnit,
+    type CartLine,
+} from "@/stores/cartStore";
+import { getApiErrorMessage } from "@/utils/apiErrors";
+import { allocateFefo, type StockBatch } from "@/utils/batches";
+import { searchCustomers, type Customer } from "@/utils/customers";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 const normalizeEndpoint = (endpoint: string) =>
@@ -44,70 +67,133 @@ function useDebtors() {
   });
 }
 
-// Types
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  barcode: string;
-  image?: {
-    uri: string;
-    type?: string;
-    fileName?: string;
-    fileSize?: number;
-  } | null;
-  quantityType: string;
-  unitsInStock: number;
-  costPrice: number;
-  sellingPrice: number;
-  lowStockThreshold: number;
-  expiryDate: string;
-  supplier: {
-    name: string;
-    phone: string;
-  };
-  dateAdded: string;
-  userId: string;
-}
+type PaymentMethod = "Cash" | "Transfer" | "POS" | "Credit (Debtor)";
+type TenderMethod = Exclude<PaymentMethod, "Credit (Debtor)">;
 
-interface CartItem {
-  id: string;
-  quantity: number;
-  product?: Product;
+interface Tender {
+  method: TenderMethod;
+  amount: string;
 }
 
-type PaymentMethod = "Cash" | "Transfer" | "POS" | "Credit (Debtor)";
+const paymentMethodMap: Record<PaymentMethod, string> = {
+  Cash: "cash",
+  Transfer: "transfer",
+  POS: "pos",
+  "Credit (Debtor)": "credit",
+};
 
-interface SaleItemPayload {
-  inventory: number;
-  quantity: number;
-  unit_price: string;
-}
+const toAmount = (value: string): number => {
+  const parsed = parseFloat(value.replace(/,/g, ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
 
-interface CreateSalePayload {
-  payment_method: string;
-  notes: string;
-  customer_name: string;
-  customer_phone: string;
-  amount_owed: string;
-  amount_paid: string;
-  items: SaleItemPayload[];
-}
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+// Units come out of the batch that expires first
+const toBatchAllocations = (
+  batches: StockBatch[] | undefined,
+  quantity: number,
+): CreateSalePayload["items"][number]["batches"] => {
+  const allocations = allocateFefo(batches ?? [], quantity);
+  if (allocations.length === 0) return undefined;
+  return allocations.map(({ batch, quantity: taken }) => ({
+    restock: batch.restockId,
+    lot_number: batch.lotNumber || undefined,
+    quantity: taken,
+  }));
+};
+
+// Stock and profit are kept in pieces, so a carton line goes up as its piece
+// count at the per-piece price, with what the cashier rang up alongside.
+const toSaleItem = (
+  line: CartLine,
+  batches?: StockBatch[],
+): CreateSalePayload["items"][number] => {
+  const unit = getLineUnit(line);
+  const quantity = getLineBaseQuantity(line);
+  const allocations = toBatchAllocations(batches, quantity);
+  if (unit === "piece") {
+    return {
+      inventory: Number(line.id),
+      quantity,
+      unit_price: String(line.unitPrice),
+      batches: allocations,
+    };
+  }
+  return {
+    inventory: Number(line.id),
+    quantity,
+    unit_price: String(roundMoney((line.unitPrice * line.quantity) / quantity)),
+    sale_unit: unit,
+    sale_quantity: line.quantity,
+    sale_unit_price: String(line.unitPrice),
+    subtotal: String(roundMoney(line.unitPrice * line.quantity)),
+    batches: allocations,
+  };
+};
+
+// The server may echo back less than we sent; fill the gaps so the receipt
+// still shows item names, tenders and change.
+const withCheckoutDetails = (
+  sale: ApiSale,
+  payload: CreateSalePayload,
+  lines: CartLine[],
+): ApiSale => ({
+  ...sale,
+  payments: sale.payments?.length ? sale.payments : payload.payments,
+  change_given: sale.change_given ?? payload.change_given,
+  items: sale.items?.length
+    ? sale.items.map((item, index) => ({
+        ...item,
+        product_name: item.product_name || lines[index]?.product.name,
+      }))
+    : lines.map((line, index) => ({
+        ...payload.items[index],
+        product_name: line.product.name,
+        subtotal: line.unitPrice * line.quantity,
+      })),
+});
+
+// Only cash can be over-tendered: change comes out of the drawer, so transfer
+// and POS lines have to fit inside the total on their own.
+const summarizeTenders = (tenders: Tender[], total: number) => {
+  const cash = tenders
+    .filter((t) => t.method === "Cash")
+    .reduce((sum, t) => sum + toAmount(t.amount), 0);
+  const nonCash = tenders
+    .filter((t) => t.method !== "Cash")
+    .reduce((sum, t) => sum + toAmount(t.amount), 0);
+  const tendered = cash + nonCash;
+
+  return {
+    tendered: roundMoney(tendered),
+    nonCash: roundMoney(nonCash),
+    paid: roundMoney(Math.min(tendered, total)),
+    balance: roundMoney(Math.max(total - tendered, 0)),
+    change: roundMoney(Math.max(tendered - total, 0)),
+  };
+};
 
 const Checkout: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
-  const params = useLocalSearchParams();
-  const [selectedPayment, setSelectedPayment] = useState<PaymentMethod>("Cash");
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [leaveOnCredit, setLeaveOnCredit] = useState<boolean>(false);
   const [processing, setProcessing] = useState<boolean>(false);
   const [showDebtorModal, setShowDebtorModal] = useState<boolean>(false);
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
+  const cartItems = useCartStore((s) => s.lines);
+  const clearCart = useCartStore((s) => s.clearCart);
+  const total = getCartTotal(cartItems);
+  const summary = summarizeTenders(tenders, total);
 
   // Debtor form state
   const [customerName, setCustomerName] = useState<string>("");
   const [phoneNumber, setPhoneNumber] = useState<string>("");
-  const [amountOwed, setAmountOwed] = useState<string>("");
   const [notes, setNotes] = useState<string>("");
+  const [customerQuery, setCustomerQuery] = useState<string>("");
+  const [receiptSale, setReceiptSale] = useState<ApiSale | null>(null);
+  const { data: customers } = useCustomers();
   const [toastMessage, setToastMessage] = useState<string>("");
   const [toastType, setToastType] = useState<"success" | "error">("success");
   const [showToast, setShowToast] = useState<boolean>(false);
@@ -144,143 +230,149 @@ const Checkout: React.FC = () => {
     });
   };
 
-  // Fetch product details for cart items
+  // TanStack Query: sale creation mutation. Falls back to the offline outbox
+  // when the server is unreachable, so the sale is never lost.
+  const queryClient = useQueryClient();
+  const { batchesByProduct } = useBatches();
+  // Sales are booked to the open shift; without one the drawer can't be
+  // reconciled, so the cashier is nudged to open it
+  const { data: currentShift, isSuccess: shiftLoaded } = useCurrentShift();
+  const saleMutation = useMutation({
+    mutationFn: async ({
+      payload,
+      total,
+    }: {
+      payload: CreateSalePayload;
+      total: number;
+    }) => submitSale(payload, total),
+    onSuccess: (result) => {
+      if (result.status === "synced") {
+        queryClient.invalidateQueries({ queryKey: ["sales"] });
+      }
+    },
+  });
 
-  // TanStack Query: fetch product details for each cart item
-  useEffect(() => {
-    const cartData: CartItem[] = params.cartData
-      ? (
-          JSON.parse(params.cartData as string) as Array<
-            CartItem & { productId?: string }
-          >
-        )
-          .map((item) => ({ ...item, id: item.id || item.productId || "" }))
-          .filter((item) => !!item.id)
-      : [];
-    if (cartData.length === 0) {
-      setCartItems([]);
-      setLoading(false);
+  // Tapping a method adds a tender line for whatever is still outstanding;
+  // tapping it again takes the line away.
+  const toggleTender = (method: TenderMethod): void => {
+    if (tenders.some((t) => t.method === method)) {
+      setTenders(tenders.filter((t) => t.method !== method));
       return;
     }
-    setLoading(true);
-    Promise.all(
-      cartData.map(async (item) => {
-        if (item.product) {
-          return item;
-        }
+    const outstanding = summary.balance;
+    setTenders([
+      ...tenders,
+      { method, amount: outstanding > 0 ? String(outstanding) : "" },
+    ]);
+  };
 
-        try {
-          const { data: product } = await apiClient.get(
-            normalizeEndpoint(PRODUCTS_ITEM(item.id)),
-          );
-          if (product) {
-            return {
-              ...item,
-              product: {
-                id: String(product.id),
-                name: product.name,
-                category: product.category_name || "",
-                barcode: product.barcode || "",
-                image: product.image ? { uri: product.image } : null,
-                quantityType: product.quantity_type || "Single Items",
-                unitsInStock: product.quantity_left ?? product.quantity,
-                costPrice: Number(product.buying_price || 0),
-                sellingPrice: Number(product.selling_price || 0),
-                lowStockThreshold: product.low_stock_threshold ?? 0,
-                expiryDate: product.expiry_date || "",
-                supplier: {
-                  name:
-                    product.supplier_name || product.supplier_obj_name || "",
-                  phone: product.supplier_phone || "",
-                },
-                dateAdded: product.created_at || new Date().toISOString(),
-                userId: "api-user",
-              } as Product,
-            };
-          }
-        } catch (error) {
-          // fallback: skip product
-        }
-        return item;
-      }),
-    ).then((cartWithProducts) => {
-      setCartItems(cartWithProducts);
-      setLoading(false);
-    });
-  }, [params.cartData]);
+  const updateTenderAmount = (method: TenderMethod, amount: string): void => {
+    setTenders(tenders.map((t) => (t.method === method ? { ...t, amount } : t)));
+  };
 
-  const calculateTotal = (): number => {
-    return cartItems.reduce((total, item) => {
-      if (item.product) {
-        return total + item.product.sellingPrice * item.quantity;
-      }
-      return total;
-    }, 0);
+  const addCashAmount = (amount: number): void => {
+    const cash = tenders.find((t) => t.method === "Cash");
+    updateTenderAmount(
+      "Cash",
+      String(roundMoney(toAmount(cash?.amount ?? "") + amount)),
+    );
   };
 
-  // TanStack Query: sale creation mutation
-  const queryClient = useQueryClient();
-  const saleMutation = useMutation({
-    mutationFn: async (payload: CreateSalePayload) => {
-      return apiClient.post(normalizeEndpoint(SALES), payload);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["sales"] });
-    },
-  });
+  const toggleCredit = (): void => {
+    if (leaveOnCredit) {
+      setLeaveOnCredit(false);
+      return;
+    }
+    setLeaveOnCredit(true);
+    setShowDebtorModal(true);
+  };
 
   const handlePayment = async (): Promise<void> => {
-    if (!selectedPayment) {
+    if (cartItems.length === 0) {
+      Alert.alert("Error", "Cart is empty");
+      return;
+    }
+    if (tenders.length === 0 && !leaveOnCredit) {
       Alert.alert("Error", "Please select a payment method");
       return;
     }
-    if (cartItems.length === 0) {
-      Alert.alert("Error", "Cart is empty");
+    if (tenders.some((t) => toAmount(t.amount) <= 0)) {
+      Alert.alert("Error", "Enter an amount for each payment method");
+      return;
+    }
+    if (summary.nonCash > total) {
+      Alert.alert(
+        "Error",
+        "Transfer and POS payments can't be more than the total. Only cash can be given change.",
+      );
+      return;
+    }
+    const amountOwed = summary.balance;
+    if (amountOwed > 0 && !leaveOnCredit) {
+      Alert.alert(
+        "Balance not covered",
+        `${formatCurrency(amountOwed)} is still outstanding. Add another payment or leave the balance on credit.`,
+      );
       return;
     }
-    // Validate debtor details if Credit (Debtor) is selected
-    if (selectedPayment === "Credit (Debtor)") {
+    // Validate debtor details when part of the sale goes on credit
+    if (amountOwed > 0) {
       if (!customerName.trim()) {
+        setShowDebtorModal(true);
         Alert.alert("Error", "Please enter customer name");
         return;
       }
       if (!phoneNumber.trim()) {
+        setShowDebtorModal(true);
         Alert.alert("Error", "Please enter phone number");
         return;
       }
-      if (!amountOwed.trim() || parseFloat(amountOwed) <= 0) {
-        Alert.alert("Error", "Please enter a valid amount owed");
-        return;
-      }
     }
     setProcessing(true);
     try {
-      const paymentMethodMap: Record<PaymentMethod, string> = {
-        Cash: "cash",
-        Transfer: "transfer",
-        POS: "pos",
-        "Credit (Debtor)": "credit",
-      };
-      const total = calculateTotal();
-      const isCreditSale = selectedPayment === "Credit (Debtor)";
+      const isCreditSale = amountOwed > 0;
+      const methods = Array.from(new Set(tenders.map((t) => t.method)));
+      // Anything left owing goes on the debtor list, whatever was paid upfront
+      const paymentMethod = isCreditSale
+        ? paymentMethodMap["Credit (Debtor)"]
+        : methods.length === 1
+          ? paymentMethodMap[methods[0]]
+          : "mixed";
       const payload: CreateSalePayload = {
-        payment_method: paymentMethodMap[selectedPayment],
+        payment_method: paymentMethod,
         notes: notes.trim(),
-        customer_name: isCreditSale ? customerName.trim() : "",
-        customer_phone: isCreditSale ? phoneNumber.trim() : "",
-        amount_owed: isCreditSale ? String(parseFloat(amountOwed) || 0) : "0",
-        amount_paid: isCreditSale ? "0" : String(total),
-        items: cartItems.map((item) => ({
-          inventory: Number(item.id),
-          quantity: item.quantity,
-          unit_price: String(item.product?.sellingPrice ?? 0),
+        customer_name: customerName.trim(),
+        customer_phone: phoneNumber.trim(),
+        amount_owed: String(amountOwed),
+        amount_paid: String(summary.paid),
+        payments: tenders.map((t) => ({
+          method: paymentMethodMap[t.method],
+          amount: String(toAmount(t.amount)),
         })),
+        change_given: String(summary.change),
+        items: cartItems.map((line) =>
+          toSaleItem(line, batchesByProduct.get(Number(line.id))),
+        ),
       };
 
-      await saleMutation.mutateAsync(payload);
+      const result = await saleMutation.mutateAsync({ payload, total });
+      // Synced or queued, the sale is recorded — start the next one fresh
+      clearCart();
       setProcessing(false);
+      const changeNote =
+        summary.change > 0
+          ? ` · Give ${formatCurrency(summary.change)} change`
+          : "";
+      if (result.status === "synced") {
+        showAppToast(
+          `Checkout successful: ${formatCurrency(total)}${changeNote}`,
+          "success",
+        );
+        setReceiptSale(withCheckoutDetails(result.sale, payload, cartItems));
+        return;
+      }
       showAppToast(
-        `Checkout successful: ${formatCurrency(calculateTotal())} via ${selectedPayment}`,
+        `Saved offline: ${formatCurrency(total)} will sync when you're back online${changeNote}`,
         "success",
       );
       setTimeout(() => {
@@ -289,10 +381,13 @@ const Checkout: React.FC = () => {
     } catch (error) {
       console.error("Error processing sale:", error);
       setProcessing(false);
-      showAppToast("Failed to process sale. Please try again.", "error");
-      Alert.alert("Error", "Failed to process sale. Please try again.", [
-        { text: "OK" },
-      ]);
+      // Only rejections a retry won't fix get here, e.g. not enough stock
+      const message = getApiErrorMessage(
+        error,
+        "Failed to process sale. Please try again.",
+      );
+      showAppToast(message, "error");
+      Alert.alert("Error", message, [{ text: "OK" }]);
     }
   };
 
@@ -305,10 +400,6 @@ const Checkout: React.FC = () => {
       Alert.alert("Error", "Please enter phone number");
       return;
     }
-    if (!amountOwed.trim() || parseFloat(amountOwed) <= 0) {
-      Alert.alert("Error", "Please enter a valid amount owed");
-      return;
-    }
     setShowDebtorModal(false);
   };
 
@@ -321,8 +412,112 @@ const Checkout: React.FC = () => {
 
   const quickAmountButtons = [100, 200, 500, 800, 1000];
 
+  // Autocomplete against customers we've sold to before
+  const customerSuggestions = useMemo(
+    () =>
+      customerQuery.trim()
+        ? searchCustomers(customers ?? [], customerQuery, 4)
+        : [],
+    [customers, customerQuery],
+  );
+
+  const updateCustomerName = (name: string): void => {
+    setCustomerName(name);
+    setCustomerQuery(name);
+  };
+
+  const updatePhoneNumber = (phone: string): void => {
+    setPhoneNumber(phone);
+    setCustomerQuery(phone);
+  };
+
+  const selectCustomer = (customer: Customer): void => {
+    setCustomerName(customer.name);
+    setPhoneNumber(customer.phone);
+    setCustomerQuery("");
+  };
+
+  const renderCustomerSuggestions = (): React.ReactElement | null => {
+    if (customerSuggestions.length === 0) return null;
+    return (
+      <View style={styles.suggestionList}>
+        {customerSuggestions.map((customer) => (
+          <TouchableOpacity
+            key={customer.key}
+            style={styles.suggestionItem}
+            onPress={() => selectCustomer(customer)}
+          >
+            <Feather name="user" size={16} color={colors.primary} />
+            <Text style={styles.suggestionName} numberOfLines={1}>
+              {customer.name}
+            </Text>
+            <Text style={styles.suggestionPhone}>{customer.phone}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderTender = (tender: Tender): React.ReactElement => (
+    <View key={tender.method} style={styles.inputGroup}>
+      <Text style={styles.inputLabel}>
+        {tender.method === "Cash" ? "Cash received" : tender.method}
+      </Text>
+      <View style={styles.tenderInputContainer}>
+        <Text style={styles.currencySymbol}>{getCurrency().symbol.trim()}</Text>
+        <TextInput
+          style={styles.amountInput}
+          placeholder="0.00"
+          placeholderTextColor="#999"
+          value={tender.amount}
+          onChangeText={(amount) => updateTenderAmount(tender.method, amount)}
+          keyboardType="numeric"
+        />
+      </View>
+
+      {/* Quick Amount Buttons */}
+      {tender.method === "Cash" && (
+        <View style={styles.quickAmountsContainer}>
+          {quickAmountButtons.map((amount) => (
+            <TouchableOpacity
+              key={amount}
+              style={styles.quickAmountButton}
+              onPress={() => addCashAmount(amount)}
+            >
+              <Text style={styles.quickAmountText}>
+                +{formatCurrency(amount, 0)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderSummaryRow = (
+    label: string,
+    value: number,
+    highlight?: "owed" | "change",
+  ): React.ReactElement => (
+    <View style={styles.summaryRow}>
+      <Text style={styles.summaryLabel}>{label}</Text>
+      <Text
+        style={[
+          styles.summaryValue,
+          highlight === "owed" && styles.summaryOwed,
+          highlight === "change" && styles.summaryChange,
+        ]}
+      >
+        {formatCurrency(value)}
+      </Text>
+    </View>
+  );
+
   const renderPaymentOption = (method: PaymentMethod): React.ReactElement => {
-    const isSelected = selectedPayment === method;
+    const isCredit = method === "Credit (Debtor)";
+    const isSelected = isCredit
+      ? leaveOnCredit
+      : tenders.some((t) => t.method === method);
 
     return (
       <TouchableOpacity
@@ -331,12 +526,9 @@ const Checkout: React.FC = () => {
           styles.paymentOption,
           isSelected && styles.paymentOptionSelected,
         ]}
-        onPress={() => {
-          setSelectedPayment(method);
-          if (method === "Credit (Debtor)") {
-            setShowDebtorModal(true);
-          }
-        }}
+        onPress={() =>
+          isCredit ? toggleCredit() : toggleTender(method as TenderMethod)
+        }
       >
         <Text style={styles.paymentOptionText}>{method}</Text>
         <View
@@ -352,24 +544,13 @@ const Checkout: React.FC = () => {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#1155CC" />
+          <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>Processing sale...</Text>
         </View>
       </SafeAreaView>
     );
   }
 
-  if (loading) {
-    return (
-      <SafeAreaView style={styles.container}>
-        <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#1155CC" />
-          <Text style={styles.loadingText}>Loading cart...</Text>
-        </View>
-      </SafeAreaView>
-    );
-  }
-
   return (
     <SafeAreaView style={styles.container}>
       {/* Header */}
@@ -379,11 +560,49 @@ const Checkout: React.FC = () => {
           onPress={() => router.back()}
           style={styles.backButton}
         >
-          <Feather name="arrow-left" size={24} color="#000" />
+          <Feather name="arrow-left" size={24} color={colors.text} />
         </TouchableOpacity>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {shiftLoaded && !currentShift && (
+          <TouchableOpacity
+            style={styles.shiftBanner}
+            onPress={() => router.push("/(Routes)/CashDrawerScreen" as any)}
+            activeOpacity={0.8}
+          >
+            <Feather name="alert-circle" size={18} color={colors.warning} />
+            <Text style={styles.shiftBannerText}>
+              No shift is open, so this sale won&apos;t count towards a cash
+              drawer. Tap to open one.
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Customer Section — optional unless part of the sale is on credit */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Customer (optional)</Text>
+          <View style={styles.customerCard}>
+            <TextInput
+              style={styles.customerInput}
+              placeholder="Customer name"
+              placeholderTextColor="#999"
+              value={customerName}
+              onChangeText={updateCustomerName}
+            />
+            <View style={styles.customerDivider} />
+            <TextInput
+              style={styles.customerInput}
+              placeholder="Phone number"
+              placeholderTextColor="#999"
+              value={phoneNumber}
+              onChangeText={updatePhoneNumber}
+              keyboardType="phone-pad"
+            />
+          </View>
+          {!showDebtorModal && renderCustomerSuggestions()}
+        </View>
+
         {/* Payment Method Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Payment Method</Text>
@@ -393,6 +612,28 @@ const Checkout: React.FC = () => {
           </View>
         </View>
 
+        {tenders.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Amounts</Text>
+            {tenders.map(renderTender)}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <View style={styles.summaryCard}>
+            {renderSummaryRow("Total", total)}
+            {renderSummaryRow("Paid", summary.paid)}
+            {summary.balance > 0 &&
+              renderSummaryRow(
+                leaveOnCredit ? "Owed (credit)" : "Balance",
+                summary.balance,
+                "owed",
+              )}
+            {summary.change > 0 &&
+              renderSummaryRow("Change due", summary.change, "change")}
+          </View>
+        </View>
+
         <View style={styles.bottomPadding} />
       </ScrollView>
 
@@ -423,7 +664,7 @@ const Checkout: React.FC = () => {
                 onPress={() => setShowDebtorModal(false)}
                 style={styles.closeButton}
               >
-                <Feather name="x" size={24} color="#000" />
+                <Feather name="x" size={24} color={colors.text} />
               </TouchableOpacity>
             </View>
 
@@ -438,8 +679,9 @@ const Checkout: React.FC = () => {
                   placeholder="Type here..."
                   placeholderTextColor="#999"
                   value={customerName}
-                  onChangeText={setCustomerName}
+                  onChangeText={updateCustomerName}
                 />
+                {renderCustomerSuggestions()}
               </View>
 
               {/* Phone Number */}
@@ -452,7 +694,7 @@ const Checkout: React.FC = () => {
                   placeholder="Type here..."
                   placeholderTextColor="#999"
                   value={phoneNumber}
-                  onChangeText={setPhoneNumber}
+                  onChangeText={updatePhoneNumber}
                   keyboardType="phone-pad"
                 />
               </View>
@@ -462,35 +704,20 @@ const Checkout: React.FC = () => {
                 <Text style={styles.inputLabel}>
                   Amount Owed{" "}
                   <Text style={styles.labelSubtext}>
-                    (How much thm dey owe?)*
+                    (How much thm dey owe?)
                   </Text>
                 </Text>
                 <View style={styles.amountInputContainer}>
-                  <Text style={styles.currencySymbol}>₦</Text>
-                  <TextInput
-                    style={styles.amountInput}
-                    placeholder="0.00"
-                    placeholderTextColor="#999"
-                    value={amountOwed}
-                    onChangeText={setAmountOwed}
-                    keyboardType="numeric"
-                  />
-                </View>
-
-                {/* Quick Amount Buttons */}
-                <View style={styles.quickAmountsContainer}>
-                  {quickAmountButtons.map((amount) => (
-                    <TouchableOpacity
-                      key={amount}
-                      style={styles.quickAmountButton}
-                      onPress={() => setAmountOwed(amount.toString())}
-                    >
-                      <Text style={styles.quickAmountText}>
-                        ₦{formatNumber(amount)}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
+                  <Text style={styles.currencySymbol}>
+                    {getCurrency().symbol.trim()}
+                  </Text>
+                  <Text style={styles.amountInput}>
+                    {formatNumber(summary.balance)}
+                  </Text>
                 </View>
+                <Text style={styles.helperText}>
+                  Whatever isn&apos;t paid by cash, transfer or POS is owed.
+                </Text>
               </View>
 
               {/* Notes */}
@@ -520,6 +747,16 @@ const Checkout: React.FC = () => {
         </View>
       </Modal>
 
+      <ReceiptSheet
+        visible={!!receiptSale}
+        sale={receiptSale}
+        title="Sale complete"
+        onClose={() => {
+          setReceiptSale(null);
+          router.replace("/(Main)/Home" as any);
+        }}
+      />
+
       {showToast && (
         <Animated.View
           style={[
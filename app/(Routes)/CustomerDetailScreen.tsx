@@ -0,0 +1,351 @@
+// app/(Routes)/CustomerDetailScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    Linking,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCustomer } from "@/hooks/useCustomers";
+import type { ApiSale } from "@/src/api/sales";
+import { formatCurrency, formatDateLabel } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const capitalize = (s: string) =>
+  s ? s.charAt(0).toUpperCase() + s.slice(1).toLowerCase() : "";
+
+const CustomerDetailScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const params = useLocalSearchParams<{ key?: string }>();
+  const { customer, isLoading } = useCustomer(params.key);
+
+  const openSale = (sale: ApiSale) => {
+    router.push({
+      pathname: "/(Routes)/SalesDetailScreen" as any,
+      params: {
+        sale: JSON.stringify({
+          id: sale.id,
+          amount: Number(sale.total_amount || 0),
+          date: sale.sale_date || sale.created_at,
+          paymentMethod: sale.payment_method,
+          customerName: sale.customer_name,
+          customerPhone: sale.customer_phone,
+        }),
+      },
+    });
+  };
+
+  const handleCall = () => {
+    if (!customer?.phone) return;
+    Linking.openURL(`tel:${customer.phone}`).catch(() =>
+      Alert.alert("Error", "Unable to open the phone dialer."),
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerTitle} numberOfLines={1}>
+        {customer?.name || "Customer"}
+      </Text>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={styles.backButton}
+        activeOpacity={0.8}
+      >
+        <Feather name="arrow-left" size={22} color={colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading || !customer) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centerContainer}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <Text style={styles.emptyText}>Customer not found.</Text>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const averageBasket =
+    customer.salesCount > 0 ? customer.lifetimeValue / customer.salesCount : 0;
+
+  const stats = [
+    { label: "Lifetime value", value: formatCurrency(customer.lifetimeValue) },
+    { label: "Purchases", value: String(customer.salesCount) },
+    { label: "Average basket", value: formatCurrency(averageBasket) },
+    { label: "Owes", value: formatCurrency(customer.totalOwed) },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader()}
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {!!customer.phone && (
+          <Text style={styles.phoneText}>{customer.phone}</Text>
+        )}
+
+        <View style={styles.statsGrid}>
+          {stats.map((stat) => (
+            <View key={stat.label} style={styles.statCard}>
+              <Text style={styles.statLabel}>{stat.label}</Text>
+              <Text style={styles.statValue}>{stat.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.actionRow}>
+          {!!customer.phone && (
+            <TouchableOpacity style={styles.actionButton} onPress={handleCall}>
+              <Feather name="phone" size={16} color={colors.primary} />
+              <Text style={styles.actionText}>Call</Text>
+            </TouchableOpacity>
+          )}
+          {customer.totalOwed > 0 && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() =>
+                router.push({
+                  pathname: "/(Routes)/DebtorsScreen" as any,
+                  params: { phone: customer.phone },
+                })
+              }
+            >
+              <Feather name="book-open" size={16} color={colors.primary} />
+              <Text style={styles.actionText}>Debt ledger</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Purchase history</Text>
+        <View style={styles.historyCard}>
+          {customer.sales.map((sale, index) => {
+            const date = new Date(sale.sale_date || sale.created_at || "");
+            const owed = Number(sale.amount_owed || 0);
+            return (
+              <TouchableOpacity
+                key={sale.id}
+                style={[
+                  styles.saleRow,
+                  index === customer.sales.length - 1 && styles.saleRowLast,
+                ]}
+                activeOpacity={0.7}
+                onPress={() => openSale(sale)}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.saleTitle} numberOfLines={1}>
+                    {sale.items
+                      .map((item) => item.product_name)
+                      .filter(Boolean)
+                      .join(", ") ||
+                      sale.transaction_ref ||
+                      `Sale #${sale.id}`}
+                  </Text>
+                  <Text style={styles.saleMeta}>
+                    {isNaN(date.getTime()) ? "—" : formatDateLabel(date)} ·{" "}
+                    {capitalize(sale.payment_method)}
+                  </Text>
+                </View>
+                <View style={styles.saleRight}>
+                  <Text style={styles.saleAmount}>
+                    {formatCurrency(sale.total_amount)}
+                  </Text>
+                  {owed > 0 && (
+                    <Text style={styles.saleOwed}>
+                      owes {formatCurrency(owed)}
+                    </Text>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      gap: scale(12),
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyText: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    scrollContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(40),
+    },
+    phoneText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginBottom: verticalScale(12),
+    },
+
+    // ── Stats ───────────────────────────────────────────────────────────────
+    statsGrid: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: scale(10),
+    },
+    statCard: {
+      width: (width - scale(40) - scale(10)) / 2,
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(14),
+    },
+    statLabel: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+    },
+    statValue: {
+      fontSize: moderateScale(17),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginTop: verticalScale(4),
+    },
+    actionRow: {
+      flexDirection: "row",
+      gap: scale(10),
+      marginTop: verticalScale(14),
+    },
+    actionButton: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: scale(6),
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: moderateScale(10),
+      paddingVertical: verticalScale(10),
+    },
+    actionText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.primary,
+    },
+
+    // ── History ─────────────────────────────────────────────────────────────
+    sectionTitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(20),
+      marginBottom: verticalScale(10),
+    },
+    historyCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      paddingHorizontal: scale(14),
+    },
+    saleRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(10),
+      paddingVertical: verticalScale(12),
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    saleRowLast: {
+      borderBottomWidth: 0,
+    },
+    saleTitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    saleMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    saleRight: {
+      alignItems: "flex-end",
+    },
+    saleAmount: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    saleOwed: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_500Medium",
+      color: "#E74C3C",
+      marginTop: verticalScale(2),
+    },
+  });
+
+export default CustomerDetailScreen;
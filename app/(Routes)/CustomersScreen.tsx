@@ -0,0 +1,280 @@
+// app/(Routes)/CustomersScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Dimensions,
+    FlatList,
+    RefreshControl,
+    SafeAreaView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCustomers } from "@/hooks/useCustomers";
+import { searchCustomers, type Customer } from "@/utils/customers";
+import { formatCurrency, formatDateLabel } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0]?.toUpperCase())
+    .join("") || "?";
+
+const CustomersScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const [search, setSearch] = useState("");
+  const { data, isLoading, isRefetching, refetch } = useCustomers();
+
+  const customers = useMemo(
+    () => searchCustomers(data ?? [], search),
+    [data, search],
+  );
+
+  const renderCustomer = ({ item }: { item: Customer }) => {
+    const lastDate = new Date(item.lastPurchaseAt);
+    return (
+      <TouchableOpacity
+        style={styles.customerCard}
+        activeOpacity={0.7}
+        onPress={() =>
+          router.push({
+            pathname: "/(Routes)/CustomerDetailScreen" as any,
+            params: { key: item.key },
+          })
+        }
+      >
+        <View style={styles.avatar}>
+          <Text style={styles.avatarText}>{getInitials(item.name)}</Text>
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.customerName} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={styles.customerMeta} numberOfLines={1}>
+            {item.phone || "No phone"} · {item.salesCount}{" "}
+            {item.salesCount === 1 ? "purchase" : "purchases"}
+            {isNaN(lastDate.getTime())
+              ? ""
+              : ` · ${formatDateLabel(lastDate)}`}
+          </Text>
+        </View>
+        <View style={styles.customerRight}>
+          <Text style={styles.customerValue}>
+            {formatCurrency(item.lifetimeValue, 0)}
+          </Text>
+          {item.totalOwed > 0 && (
+            <Text style={styles.customerOwed}>
+              owes {formatCurrency(item.totalOwed, 0)}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Customers</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Feather name="search" size={18} color="#8E8E93" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search by name or phone"
+          placeholderTextColor={colors.textMuted}
+          value={search}
+          onChangeText={setSearch}
+        />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={customers}
+          keyExtractor={(item) => item.key}
+          renderItem={renderCustomer}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="users" size={48} color="#C0C0C0" />
+              <Text style={styles.emptyTitle}>
+                {search ? "No matching customers" : "No customers yet"}
+              </Text>
+              <Text style={styles.emptyText}>
+                Add a customer name or phone at checkout to start building
+                their purchase history.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    searchContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(8),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      marginHorizontal: scale(20),
+      marginBottom: verticalScale(12),
+      paddingHorizontal: scale(14),
+      paddingVertical: verticalScale(12),
+    },
+    searchInput: {
+      flex: 1,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      padding: 0,
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+      paddingHorizontal: scale(20),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── List ────────────────────────────────────────────────────────────────
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(40),
+      gap: verticalScale(10),
+    },
+    customerCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    avatar: {
+      width: scale(42),
+      height: scale(42),
+      borderRadius: scale(21),
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    avatarText: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.primary,
+    },
+    customerName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    customerMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    customerRight: {
+      alignItems: "flex-end",
+    },
+    customerValue: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    customerOwed: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_500Medium",
+      color: "#E74C3C",
+      marginTop: verticalScale(2),
+    },
+  });
+
+export default CustomersScreen;
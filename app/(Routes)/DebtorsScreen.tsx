@@ -0,0 +1,763 @@
+// app/(Routes)/DebtorsScreen.tsx
+import { Feather, Ionicons } from "@expo/vector-icons";
+import { useQuery } from "@tanstack/react-query";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    KeyboardAvoidingView,
+    Linking,
+    Modal,
+    Platform,
+    RefreshControl,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import {
+    useDebtors,
+    useRecordDebtPayment,
+    type Debtor,
+} from "@/hooks/useSales";
+import { getProfile } from "@/src/api";
+import { getApiErrorMessage } from "@/utils/apiErrors";
+import {
+    AGING_BUCKETS,
+    allocateRepayment,
+    buildReminderMessage,
+    getAgingBucket,
+    getDebtAgeDays,
+    getDebtDate,
+    getSmsUrl,
+    getWhatsAppUrl,
+    groupDebtorsByCustomer,
+    sumAgingBuckets,
+    type AgingBucket,
+    type DebtorAccount,
+} from "@/utils/debtors";
+import {
+    formatCurrency,
+    formatDateLabel,
+    getCurrency,
+} from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const getBucketColors = (colors: ThemeColors): Record<AgingBucket, string> => ({
+  "0-7": colors.success,
+  "8-30": colors.warning,
+  "30+": colors.danger,
+});
+
+const DebtorsScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const bucketColors = getBucketColors(colors);
+  const router = useRouter();
+  const params = useLocalSearchParams<{ phone?: string }>();
+  const { data, isLoading, isRefetching, refetch } = useDebtors();
+  const { data: profile } = useQuery({
+    queryKey: ["profile"],
+    queryFn: getProfile,
+  });
+  const recordPayment = useRecordDebtPayment();
+
+  const [expandedKey, setExpandedKey] = useState<string | null>(
+    params.phone ? String(params.phone).replace(/\D/g, "") : null,
+  );
+  // Looked up by key so a part-recorded payment shows the refreshed balance
+  const [payingKey, setPayingKey] = useState<string | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState("");
+
+  const accounts = useMemo(() => {
+    // The endpoint has answered both as a bare array and paginated
+    const debts: Debtor[] = Array.isArray(data)
+      ? data
+      : (data?.results ?? []);
+    return groupDebtorsByCustomer(debts);
+  }, [data]);
+
+  const payingAccount =
+    accounts.find((account) => account.key === payingKey) ?? null;
+
+  const bucketTotals = useMemo(() => sumAgingBuckets(accounts), [accounts]);
+  const totalOutstanding = accounts.reduce((sum, a) => sum + a.totalOwed, 0);
+
+  // ─── Actions ────────────────────────────────────────────────────────────
+
+  const openUrl = (url: string, failure: string) => {
+    Linking.openURL(url).catch(() => Alert.alert("Error", failure));
+  };
+
+  const handleCall = (account: DebtorAccount) => {
+    openUrl(`tel:${account.phone}`, "Unable to open the phone dialer.");
+  };
+
+  const handleSms = (account: DebtorAccount) => {
+    const message = buildReminderMessage(account, profile?.business_name);
+    openUrl(getSmsUrl(account.phone, message), "Unable to open messages.");
+  };
+
+  const handleWhatsApp = (account: DebtorAccount) => {
+    const message = buildReminderMessage(account, profile?.business_name);
+    openUrl(
+      getWhatsAppUrl(account.phone, message),
+      "Unable to open WhatsApp. Is it installed?",
+    );
+  };
+
+  const openPaymentForm = (account: DebtorAccount) => {
+    setPayingKey(account.key);
+    setPaymentAmount("");
+  };
+
+  const closePaymentForm = () => {
+    if (recordPayment.isPending) return;
+    setPayingKey(null);
+    setPaymentAmount("");
+  };
+
+  const submitPayment = async () => {
+    if (!payingAccount) return;
+    const amount = parseFloat(paymentAmount.replace(/,/g, ""));
+    if (!amount || amount <= 0) {
+      Alert.alert("Error", "Please enter a valid amount");
+      return;
+    }
+    if (amount > payingAccount.totalOwed) {
+      const owed = formatCurrency(payingAccount.totalOwed);
+      Alert.alert("Error", `${payingAccount.name} only owes ${owed}.`);
+      return;
+    }
+
+    const { recorded, error } = await recordPayment.mutateAsync(
+      allocateRepayment(payingAccount.sales, amount),
+    );
+    if (error) {
+      const message = getApiErrorMessage(
+        error,
+        "Failed to record payment. Please try again.",
+      );
+      if (recorded <= 0) {
+        Alert.alert("Error", message);
+        return;
+      }
+      // Leave only the unsaved part in the form, against the new balances
+      const rest = Math.round((amount - recorded) * 100) / 100;
+      await refetch();
+      setPaymentAmount(String(rest));
+      Alert.alert(
+        "Payment partly recorded",
+        `${formatCurrency(recorded)} of ${formatCurrency(amount)} was ` +
+          `recorded. ${message} Save again to record the remaining ` +
+          `${formatCurrency(rest)}.`,
+      );
+      return;
+    }
+
+    setPayingKey(null);
+    setPaymentAmount("");
+    Alert.alert(
+      "Payment recorded",
+      `${formatCurrency(amount)} received from ${payingAccount.name}.`,
+    );
+  };
+
+  // ─── Render helpers ─────────────────────────────────────────────────────
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerTitle}>Debtors</Text>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={styles.backButton}
+        activeOpacity={0.8}
+      >
+        <Feather name="arrow-left" size={22} color={colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSummary = () => (
+    <View style={styles.summaryCard}>
+      <Text style={styles.summaryLabel}>Total outstanding</Text>
+      <Text style={styles.summaryValue}>
+        {formatCurrency(totalOutstanding)}
+      </Text>
+      <View style={styles.bucketRow}>
+        {AGING_BUCKETS.map(({ key, label }) => (
+          <View key={key} style={styles.bucket}>
+            <View
+              style={[
+                styles.bucketDot,
+                { backgroundColor: bucketColors[key] },
+              ]}
+            />
+            <Text style={styles.bucketLabel}>{label}</Text>
+            <Text style={styles.bucketValue}>
+              {formatCurrency(bucketTotals[key], 0)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderSale = (sale: Debtor) => {
+    const days = getDebtAgeDays(sale);
+    const date = new Date(getDebtDate(sale));
+    return (
+      <TouchableOpacity
+        key={sale.id}
+        style={styles.saleRow}
+        activeOpacity={0.7}
+        onPress={() =>
+          router.push({
+            pathname: "/(Routes)/SalesDetailScreen" as any,
+            params: {
+              sale: JSON.stringify({
+                id: sale.id,
+                amount: Number(sale.total_amount ?? sale.amount_owed),
+                date: getDebtDate(sale),
+                customerName: sale.customer_name,
+                customerPhone: sale.customer_phone,
+              }),
+            },
+          })
+        }
+      >
+        <View style={{ flex: 1 }}>
+          <Text style={styles.saleRef}>
+            {sale.transaction_ref ||
+              `TXN-${String(sale.id).padStart(4, "0")}`}
+          </Text>
+          <Text style={styles.saleMeta}>
+            {isNaN(date.getTime()) ? "—" : formatDateLabel(date)} · {days}{" "}
+            {days === 1 ? "day" : "days"} ago
+          </Text>
+        </View>
+        <Text
+          style={[
+            styles.saleOwed,
+            { color: bucketColors[getAgingBucket(days)] },
+          ]}
+        >
+          {formatCurrency(sale.amount_owed)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderAccount = (account: DebtorAccount) => {
+    const expanded = expandedKey === account.key;
+    const bucket = getAgingBucket(account.oldestDays);
+
+    return (
+      <View key={account.key} style={styles.accountCard}>
+        <TouchableOpacity
+          style={styles.accountHeader}
+          activeOpacity={0.7}
+          onPress={() => setExpandedKey(expanded ? null : account.key)}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={styles.accountName} numberOfLines={1}>
+              {account.name}
+            </Text>
+            <Text style={styles.accountMeta}>
+              {account.phone || "No phone number"} · {account.sales.length}{" "}
+              {account.sales.length === 1 ? "sale" : "sales"}
+            </Text>
+          </View>
+          <View style={styles.accountRight}>
+            <Text style={styles.accountOwed}>
+              {formatCurrency(account.totalOwed)}
+            </Text>
+            <View
+              style={[
+                styles.ageChip,
+                { backgroundColor: `${bucketColors[bucket]}22` },
+              ]}
+            >
+              <Text
+                style={[styles.ageChipText, { color: bucketColors[bucket] }]}
+              >
+                {account.oldestDays}d oldest
+              </Text>
+            </View>
+          </View>
+        </TouchableOpacity>
+
+        {expanded && (
+          <View style={styles.accountBody}>
+            {account.sales.map(renderSale)}
+
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.primaryAction]}
+                onPress={() => openPaymentForm(account)}
+              >
+                <Feather
+                  name="plus-circle"
+                  size={16}
+                  color={colors.onPrimary}
+                />
+                <Text style={styles.primaryActionText}>Record payment</Text>
+              </TouchableOpacity>
+            </View>
+
+            {!!account.phone && (
+              <View style={styles.actionRow}>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleCall(account)}
+                >
+                  <Feather name="phone" size={16} color={colors.primary} />
+                  <Text style={styles.actionText}>Call</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleSms(account)}
+                >
+                  <Feather
+                    name="message-square"
+                    size={16}
+                    color={colors.primary}
+                  />
+                  <Text style={styles.actionText}>SMS</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => handleWhatsApp(account)}
+                >
+                  <Ionicons
+                    name="logo-whatsapp"
+                    size={16}
+                    color={colors.primary}
+                  />
+                  <Text style={styles.actionText}>WhatsApp</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader()}
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+        }
+      >
+        {renderSummary()}
+
+        {accounts.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Feather name="check-circle" size={48} color={colors.success} />
+            <Text style={styles.emptyTitle}>Nobody owes you</Text>
+            <Text style={styles.emptyText}>
+              Credit sales taken at checkout will show up here.
+            </Text>
+          </View>
+        ) : (
+          accounts.map(renderAccount)
+        )}
+      </ScrollView>
+
+      {/* Repayment form */}
+      <Modal
+        visible={!!payingAccount}
+        transparent
+        animationType="slide"
+        onRequestClose={closePaymentForm}
+      >
+        <KeyboardAvoidingView
+          style={styles.modalOverlay}
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Record payment</Text>
+              <TouchableOpacity onPress={closePaymentForm}>
+                <Feather name="x" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            {payingAccount && (
+              <Text style={styles.modalSubtitle}>
+                {payingAccount.name} owes{" "}
+                {formatCurrency(payingAccount.totalOwed)}. Payments clear the
+                oldest sale first.
+              </Text>
+            )}
+
+            <View style={styles.amountInputContainer}>
+              <Text style={styles.currencySymbol}>
+                {getCurrency().symbol.trim()}
+              </Text>
+              <TextInput
+                style={styles.amountInput}
+                placeholder="0.00"
+                placeholderTextColor={colors.textMuted}
+                value={paymentAmount}
+                onChangeText={setPaymentAmount}
+                keyboardType="numeric"
+                autoFocus
+              />
+            </View>
+
+            {payingAccount && (
+              <TouchableOpacity
+                style={styles.fullAmountButton}
+                onPress={() =>
+                  setPaymentAmount(String(payingAccount.totalOwed))
+                }
+              >
+                <Text style={styles.fullAmountText}>Paid in full</Text>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                recordPayment.isPending && styles.saveButtonDisabled,
+              ]}
+              onPress={submitPayment}
+              disabled={recordPayment.isPending}
+            >
+              {recordPayment.isPending ? (
+                <ActivityIndicator color={colors.onPrimary} />
+              ) : (
+                <Text style={styles.saveButtonText}>Save payment</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    scrollContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(40),
+      gap: verticalScale(12),
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── Summary ─────────────────────────────────────────────────────────────
+    summaryCard: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(16),
+      padding: scale(18),
+    },
+    summaryLabel: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: "rgba(255,255,255,0.8)",
+    },
+    summaryValue: {
+      fontSize: moderateScale(28),
+      fontFamily: "DMSans_700Bold",
+      color: colors.onPrimary,
+      marginTop: verticalScale(4),
+    },
+    bucketRow: {
+      flexDirection: "row",
+      marginTop: verticalScale(16),
+      gap: scale(8),
+    },
+    bucket: {
+      flex: 1,
+      backgroundColor: "rgba(255,255,255,0.12)",
+      borderRadius: moderateScale(10),
+      padding: scale(10),
+    },
+    bucketDot: {
+      width: scale(8),
+      height: scale(8),
+      borderRadius: scale(4),
+      marginBottom: verticalScale(6),
+    },
+    bucketLabel: {
+      fontSize: moderateScale(11),
+      fontFamily: "DMSans_400Regular",
+      color: "rgba(255,255,255,0.8)",
+    },
+    bucketValue: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.onPrimary,
+      marginTop: verticalScale(2),
+    },
+
+    // ── Accounts ────────────────────────────────────────────────────────────
+    accountCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      overflow: "hidden",
+    },
+    accountHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      padding: scale(16),
+      gap: scale(12),
+    },
+    accountName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    accountMeta: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(2),
+    },
+    accountRight: {
+      alignItems: "flex-end",
+    },
+    accountOwed: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    ageChip: {
+      borderRadius: moderateScale(8),
+      paddingHorizontal: scale(8),
+      paddingVertical: verticalScale(2),
+      marginTop: verticalScale(4),
+    },
+    ageChipText: {
+      fontSize: moderateScale(11),
+      fontFamily: "DMSans_500Medium",
+    },
+    accountBody: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingHorizontal: scale(16),
+      paddingBottom: verticalScale(14),
+    },
+    saleRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingVertical: verticalScale(10),
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    saleRef: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    saleMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    saleOwed: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+    },
+    actionRow: {
+      flexDirection: "row",
+      gap: scale(8),
+      marginTop: verticalScale(12),
+    },
+    actionButton: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: scale(6),
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: moderateScale(10),
+      paddingVertical: verticalScale(10),
+    },
+    actionText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.primary,
+    },
+    primaryAction: {
+      backgroundColor: colors.primary,
+    },
+    primaryActionText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.onPrimary,
+    },
+
+    // ── Repayment modal ─────────────────────────────────────────────────────
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(32),
+    },
+    modalHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    modalTitle: {
+      fontSize: moderateScale(20),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    modalSubtitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(8),
+      marginBottom: verticalScale(16),
+    },
+    amountInputContainer: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      padding: scale(14),
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    currencySymbol: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginRight: 8,
+    },
+    amountInput: {
+      flex: 1,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      padding: 0,
+    },
+    fullAmountButton: {
+      alignSelf: "flex-start",
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(8),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(16),
+      marginTop: verticalScale(12),
+    },
+    fullAmountText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(16),
+      alignItems: "center",
+      marginTop: verticalScale(20),
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default DebtorsScreen;
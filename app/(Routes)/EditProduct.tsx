@@ -4,7 +4,7 @@ import {
   listSuppliers,
   updateProductWithImage,
 } from "@/src/api";
-import { formatCurrency } from "@/utils/formatters";
+import { formatCurrency, getCurrency } from "@/utils/formatters";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React, { useEffect, useState } from "react";
@@ -31,6 +31,8 @@ import {
   launchImageLibrary,
   MediaType,
 } from "react-native-image-picker";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const { width, height } = Dimensions.get("window");
 
@@ -176,6 +178,8 @@ const parseProductToFormData = (product: Product): FormData => {
 // ------------------- MAIN COMPONENT -------------------
 
 const EditProduct: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const { productId } = useLocalSearchParams();
   const productIdString = Array.isArray(productId) ? productId[0] : productId;
@@ -531,13 +535,18 @@ const EditProduct: React.FC = () => {
             style={[
               styles.stepIndicator,
               // Simplified width logic for 3 main steps + summary step
-              { backgroundColor: index <= currentStep ? "#007AFF" : "#E0E0E0" },
+              {
+                backgroundColor:
+                  index <= currentStep ? colors.primary : colors.border,
+              },
             ]}
           />
           <Text
             style={[
               styles.stepText,
-              { color: index <= currentStep ? "#007AFF" : "#999" },
+              {
+                color: index <= currentStep ? colors.primary : colors.textMuted,
+              },
             ]}
           >
             {step}
@@ -578,7 +587,7 @@ const EditProduct: React.FC = () => {
             style={styles.scanButton}
             onPress={() => setShowScanner(true)}
           >
-            <Ionicons name="barcode" size={20} color="#007AFF" />
+            <Ionicons name="barcode" size={20} color={colors.primary} />
           </TouchableOpacity>
         </View>
       </View>
@@ -607,7 +616,7 @@ const EditProduct: React.FC = () => {
             <Ionicons
               name={showCategoryDropdown ? "chevron-up" : "chevron-down"}
               size={18}
-              color="#718096"
+              color={colors.textSecondary}
             />
           </View>
         </TouchableOpacity>
@@ -624,7 +633,7 @@ const EditProduct: React.FC = () => {
               >
                 <Text style={styles.dropdownItemText}>{category.name}</Text>
                 {formData.category === category.name && (
-                  <Ionicons name="checkmark" size={18} color="#007AFF" />
+                  <Ionicons name="checkmark" size={18} color={colors.primary} />
                 )}
               </TouchableOpacity>
             ))}
@@ -669,7 +678,7 @@ const EditProduct: React.FC = () => {
               <View style={styles.uploadingOverlay}>
                 {imageUploading && (
                   <View style={styles.uploadingOverlay}>
-                    <ActivityIndicator size="small" color="#fff" />
+                    <ActivityIndicator size="small" color={colors.onPrimary} />
                   </View>
                 )}
               </View>
@@ -702,7 +711,9 @@ const EditProduct: React.FC = () => {
                   styles.radioCircle,
                   {
                     backgroundColor:
-                      formData.quantityType === type ? "#007AFF" : "#FFF",
+                      formData.quantityType === type
+                        ? colors.primary
+                        : colors.surface,
                   },
                 ]}
               >
@@ -735,7 +746,7 @@ const EditProduct: React.FC = () => {
           <Text style={styles.required}>*</Text>
         </Text>
         <View style={styles.priceInput}>
-          <Text style={styles.currency}>₦</Text>
+          <Text style={styles.currency}>{getCurrency().symbol.trim()}</Text>
           <TextInput
             style={styles.priceTextInput}
             placeholder="0.00"
@@ -749,31 +760,41 @@ const EditProduct: React.FC = () => {
             style={styles.priceOption}
             onPress={() => updateFormData("costPrice", "100")}
           >
-            <Text style={styles.priceOptionText}>₦100</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(100, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("costPrice", "200")}
           >
-            <Text style={styles.priceOptionText}>₦200</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(200, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("costPrice", "500")}
           >
-            <Text style={styles.priceOptionText}>₦500</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(500, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("costPrice", "800")}
           >
-            <Text style={styles.priceOptionText}>₦800</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(800, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("costPrice", "1000")}
           >
-            <Text style={styles.priceOptionText}>₦1,000</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(1000, 0)}
+            </Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -784,7 +805,7 @@ const EditProduct: React.FC = () => {
           <Text style={styles.required}>*</Text>
         </Text>
         <View style={styles.priceInput}>
-          <Text style={styles.currency}>₦</Text>
+          <Text style={styles.currency}>{getCurrency().symbol.trim()}</Text>
           <TextInput
             style={styles.priceTextInput}
             placeholder="0.00"
@@ -798,31 +819,41 @@ const EditProduct: React.FC = () => {
             style={styles.priceOption}
             onPress={() => updateFormData("sellingPrice", "100")}
           >
-            <Text style={styles.priceOptionText}>₦100</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(100, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("sellingPrice", "200")}
           >
-            <Text style={styles.priceOptionText}>₦200</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(200, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("sellingPrice", "500")}
           >
-            <Text style={styles.priceOptionText}>₦500</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(500, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("sellingPrice", "800")}
           >
-            <Text style={styles.priceOptionText}>₦800</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(800, 0)}
+            </Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.priceOption}
             onPress={() => updateFormData("sellingPrice", "1000")}
           >
-            <Text style={styles.priceOptionText}>₦1,000</Text>
+            <Text style={styles.priceOptionText}>
+              {formatCurrency(1000, 0)}
+            </Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -995,7 +1026,7 @@ const EditProduct: React.FC = () => {
   if (initialLoading) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#007AFF" />
+        <ActivityIndicator size="large" color={colors.primary} />
         <Text style={styles.loadingText}>Loading product data...</Text>
       </SafeAreaView>
     );
@@ -1068,7 +1099,7 @@ const EditProduct: React.FC = () => {
             disabled={updating || imageUploading}
           >
             {updating ? (
-              <ActivityIndicator color="#FFFFFF" size="small" />
+              <ActivityIndicator color={colors.onPrimary} size="small" />
             ) : (
               <Text style={styles.saveProductButtonText}>Save Changes ✓</Text>
             )}
@@ -1097,7 +1128,7 @@ const EditProduct: React.FC = () => {
       {/* Loading Overlay */}
       {(updating || imageUploading) && (
         <View style={styles.loadingOverlay}>
-          <ActivityIndicator size="large" color="#1155CC" />
+          <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>
             {imageUploading ? "Uploading image..." : "Updating product..."}
           </Text>
@@ -1110,430 +1141,431 @@ const EditProduct: React.FC = () => {
 // ------------------- STYLESHEET (Re-used from AddProductFlow) -------------------
 
 // Styles
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#F5F7FA",
-  },
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: scale(20),
-    paddingVertical: verticalScale(15),
-    backgroundColor: "#FFF",
-    borderBottomWidth: 1,
-    borderBottomColor: "#E0E0E0",
-  },
-  headerTitle: {
-    fontSize: moderateScale(18),
-    color: "#000",
-  },
-  closeButton: {
-    padding: scale(5),
-    backgroundColor: "#F0F0F0",
-    borderRadius: moderateScale(8),
-    width: scale(32),
-    height: verticalScale(32),
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  closeButtonText: {
-    fontSize: moderateScale(16),
-    color: "#666",
-  },
-  progressContainer: {
-    flexDirection: "row",
-    paddingHorizontal: scale(20),
-    paddingVertical: verticalScale(15),
-    backgroundColor: "#FFF",
-    borderBottomWidth: 1,
-    borderBottomColor: "#E0E0E0",
-  },
-  stepContainer: {
-    flex: 1,
-    alignItems: "center",
-    paddingHorizontal: scale(5),
-  },
-  stepIndicator: {
-    height: verticalScale(4),
-    borderRadius: moderateScale(2),
-    marginBottom: verticalScale(8),
-    width: "100%", // Simplified width for consistency
-  },
-  progressFill: {
-    height: "100%",
-    backgroundColor: "#007AFF",
-    borderRadius: moderateScale(2),
-  },
-  stepText: {
-    fontSize: moderateScale(12),
-  },
-  stepContent: {
-    flex: 1,
-    padding: scale(20),
-  },
-  inputGroup: {
-    marginBottom: verticalScale(20),
-  },
-  label: {
-    fontSize: moderateScale(14),
-    color: "#000",
-    marginBottom: verticalScale(8),
-  },
-  required: {
-    color: "#FF3B30",
-  },
-  input: {
-    backgroundColor: "#F0F4F8",
-    borderRadius: moderateScale(8),
-    padding: scale(15),
-    fontSize: moderateScale(16),
-    color: "#000",
-  },
-  inputWithButton: {
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  scanButton: {
-    backgroundColor: "#FFF",
-    borderWidth: 1,
-    borderColor: "#007AFF",
-    borderRadius: moderateScale(8),
-    paddingHorizontal: scale(15),
-    paddingVertical: verticalScale(12),
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  dropdown: {
-    backgroundColor: "#F0F4F8",
-    borderRadius: moderateScale(8),
-    padding: scale(15),
-  },
-  dropdownRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-  },
-  dropdownMenu: {
-    marginTop: verticalScale(8),
-    borderWidth: 1,
-    borderColor: "#CBD5E0",
-    borderRadius: moderateScale(8),
-    backgroundColor: "#FFFFFF",
-  },
-  dropdownItem: {
-    paddingHorizontal: scale(12),
-    paddingVertical: verticalScale(12),
-    borderBottomWidth: 1,
-    borderBottomColor: "#EDF2F7",
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-  },
-  dropdownItemText: {
-    fontSize: moderateScale(15),
-    color: "#2D3748",
-  },
-  dropdownText: {
-    fontSize: moderateScale(16),
-    color: "#000",
-  },
-  dropdownPlaceholder: {
-    fontSize: moderateScale(16),
-    color: "#999",
-  },
-  imageUploadContainer: {
-    borderWidth: 2,
-    borderColor: "#E0E0E0",
-    borderStyle: "dashed",
-    borderRadius: moderateScale(8),
-    padding: scale(20),
-    alignItems: "center",
-  },
-  uploadedImageContainer: {
-    alignItems: "center",
-  },
-  uploadedImage: {
-    width: scale(150),
-    height: verticalScale(150),
-    borderRadius: moderateScale(8),
-    marginBottom: verticalScale(10),
-  },
-  removeButton: {
-    borderWidth: 1,
-    borderColor: "#FF3B30",
-    borderRadius: moderateScale(8),
-    paddingHorizontal: scale(20),
-    paddingVertical: verticalScale(8),
-  },
-  removeButtonText: {
-    color: "#FF3B30",
-    fontSize: moderateScale(14),
-  },
-  imageUploadArea: {
-    alignItems: "center",
-  },
-  imageUploadIcon: {
-    fontSize: moderateScale(40),
-    marginBottom: verticalScale(10),
-  },
-  imageUploadText: {
-    fontSize: moderateScale(14),
-    color: "#666",
-    textAlign: "center",
-    marginBottom: verticalScale(15),
-  },
-  imageUploadInfo: {
-    fontSize: moderateScale(12),
-    color: "#999",
-    marginBottom: verticalScale(5),
-  },
-  radioGroup: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-  },
-  radioOption: {
-    flexDirection: "row",
-    alignItems: "center",
-    marginRight: 20,
-    marginBottom: verticalScale(10),
-  },
-  radioCircle: {
-    width: scale(20),
-    height: verticalScale(20),
-    borderRadius: moderateScale(10),
-    borderWidth: 2,
-    borderColor: "#007AFF",
-    marginRight: 8,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  radioInner: {
-    width: scale(8),
-    height: verticalScale(8),
-    borderRadius: moderateScale(4),
-    backgroundColor: "#FFF",
-  },
-  radioText: {
-    fontSize: moderateScale(14),
-    color: "#000",
-  },
-  priceInput: {
-    flexDirection: "row",
-    backgroundColor: "#F0F4F8",
-    borderRadius: moderateScale(8),
-    alignItems: "center",
-    paddingLeft: 15,
-    marginBottom: verticalScale(15),
-  },
-  currency: {
-    fontSize: moderateScale(16),
-    color: "#666",
-    marginRight: 5,
-  },
-  priceTextInput: {
-    flex: 1,
-    padding: scale(15),
-    paddingLeft: 0,
-    fontSize: moderateScale(16),
-    color: "#000",
-  },
-  priceOptions: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    justifyContent: "space-between",
-  },
-  priceOption: {
-    backgroundColor: "#F0F4F8",
-    borderRadius: moderateScale(6),
-    paddingHorizontal: scale(12),
-    paddingVertical: verticalScale(8),
-    marginRight: 8,
-    marginBottom: verticalScale(8),
-  },
-  priceOptionText: {
-    fontSize: moderateScale(14),
-    color: "#007AFF",
-  },
-  dateInputs: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-  },
-  dateInput: {
-    backgroundColor: "#F0F4F8",
-    borderRadius: moderateScale(8),
-    padding: scale(15),
-    fontSize: moderateScale(16),
-    color: "#000",
-    flex: 1,
-    marginHorizontal: scale(5),
-    textAlign: "center",
-  },
-  supplierSection: {
-    backgroundColor: "#FFF",
-    borderRadius: moderateScale(12),
-    padding: scale(20),
-    marginTop: verticalScale(10),
-  },
-  navigationButtons: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    paddingHorizontal: scale(20),
-    paddingVertical: verticalScale(15),
-    backgroundColor: "#FFF",
-    borderTopWidth: 1,
-    borderTopColor: "#E0E0E0",
-  },
-  backButton: {
-    borderWidth: 1,
-    borderColor: "#E0E0E0",
-    borderRadius: moderateScale(8),
-    paddingHorizontal: scale(30),
-    paddingVertical: verticalScale(15),
-    flex: 1,
-    marginRight: 10,
-    alignItems: "center",
-  },
-  backButtonText: {
-    fontSize: moderateScale(16),
-    color: "#666",
-  },
-  nextButton: {
-    backgroundColor: "#007AFF",
-    borderRadius: moderateScale(8),
-    paddingHorizontal: scale(30),
-    paddingVertical: verticalScale(15),
-    flex: 1,
-    marginLeft: 10,
-    alignItems: "center",
-  },
-  nextButtonText: {
-    fontSize: moderateScale(16),
-    color: "#FFF",
-  },
-  summaryContent: {
-    flex: 1,
-    backgroundColor: "#F5F7FA",
-  },
-  summaryTitle: {
-    fontSize: moderateScale(24),
-    color: "#000",
-    padding: scale(20),
-    paddingBottom: verticalScale(10),
-  },
-  summaryImageContainer: {
-    alignItems: "center",
-    marginBottom: verticalScale(20),
-  },
-  summaryImage: {
-    width: scale(100),
-    height: verticalScale(100),
-    borderRadius: moderateScale(12),
-  },
-  summarySection: {
-    backgroundColor: "#FFF",
-    marginHorizontal: scale(20),
-    marginBottom: verticalScale(15),
-    borderRadius: moderateScale(12),
-    padding: scale(20),
-  },
-  summaryHeader: {
-    fontSize: moderateScale(14),
-    color: "#000",
-    marginBottom: verticalScale(15),
-    letterSpacing: 0.5,
-  },
-  summaryRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: verticalScale(12),
-  },
-  summaryLabel: {
-    fontSize: moderateScale(14),
-    color: "#666",
-    flex: 1,
-  },
-  summaryValue: {
-    fontSize: moderateScale(14),
-    color: "#000",
-    flex: 1,
-    textAlign: "right",
-  },
-  saveProductButton: {
-    backgroundColor: "#007AFF",
-    borderRadius: moderateScale(8), // Changed from 12 to 8 for consistency with nextButton
-    paddingHorizontal: scale(30),
-    paddingVertical: verticalScale(15),
-    flex: 1,
-    marginLeft: 10,
-    alignItems: "center",
-  },
-  saveProductButtonText: {
-    fontSize: moderateScale(16),
-    color: "#FFF",
-  },
-  imagePickerModal: {
-    flex: 1,
-    justifyContent: "flex-end",
-    backgroundColor: "rgba(0,0,0,0.5)",
-  },
-  imagePickerContent: {
-    backgroundColor: "#FFF",
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    padding: scale(20),
-  },
-  imagePickerTitle: {
-    fontSize: moderateScale(18),
-    textAlign: "center",
-    marginBottom: verticalScale(20),
-    color: "#000",
-  },
-  imagePickerOptionText: {
-    fontSize: moderateScale(16),
-    color: "#007AFF",
-    textAlign: "center",
-  },
-  imagePickerCancel: {
-    paddingVertical: verticalScale(15),
-    marginTop: verticalScale(10),
-  },
-  imagePickerCancelText: {
-    fontSize: moderateScale(16),
-    color: "#FF3B30",
-    textAlign: "center",
-  },
-  loadingOverlay: {
-    position: "absolute",
-    top: verticalScale(0),
-    left: scale(0),
-    right: scale(0),
-    bottom: verticalScale(0),
-    backgroundColor: "rgba(255, 255, 255, 0.9)",
-    justifyContent: "center",
-    alignItems: "center",
-    zIndex: 1000,
-  },
-  loadingText: {
-    marginTop: verticalScale(12),
-    fontSize: moderateScale(18),
-    color: "#1155CC",
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-    backgroundColor: "#F5F7FA",
-  },
-  uploadingOverlay: {
-    ...StyleSheet.absoluteFillObject,
-    backgroundColor: "rgba(0,0,0,0.5)",
-    borderRadius: moderateScale(8),
-    justifyContent: "center",
-    alignItems: "center",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surfaceMuted,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(15),
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    headerTitle: {
+      fontSize: moderateScale(18),
+      color: colors.text,
+    },
+    closeButton: {
+      padding: scale(5),
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      width: scale(32),
+      height: verticalScale(32),
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    closeButtonText: {
+      fontSize: moderateScale(16),
+      color: colors.textSecondary,
+    },
+    progressContainer: {
+      flexDirection: "row",
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(15),
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    stepContainer: {
+      flex: 1,
+      alignItems: "center",
+      paddingHorizontal: scale(5),
+    },
+    stepIndicator: {
+      height: verticalScale(4),
+      borderRadius: moderateScale(2),
+      marginBottom: verticalScale(8),
+      width: "100%", // Simplified width for consistency
+    },
+    progressFill: {
+      height: "100%",
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(2),
+    },
+    stepText: {
+      fontSize: moderateScale(12),
+    },
+    stepContent: {
+      flex: 1,
+      padding: scale(20),
+    },
+    inputGroup: {
+      marginBottom: verticalScale(20),
+    },
+    label: {
+      fontSize: moderateScale(14),
+      color: colors.text,
+      marginBottom: verticalScale(8),
+    },
+    required: {
+      color: colors.danger,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      padding: scale(15),
+      fontSize: moderateScale(16),
+      color: colors.text,
+    },
+    inputWithButton: {
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    scanButton: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: moderateScale(8),
+      paddingHorizontal: scale(15),
+      paddingVertical: verticalScale(12),
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    dropdown: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      padding: scale(15),
+    },
+    dropdownRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+    },
+    dropdownMenu: {
+      marginTop: verticalScale(8),
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(8),
+      backgroundColor: colors.surface,
+    },
+    dropdownItem: {
+      paddingHorizontal: scale(12),
+      paddingVertical: verticalScale(12),
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+    },
+    dropdownItemText: {
+      fontSize: moderateScale(15),
+      color: colors.text,
+    },
+    dropdownText: {
+      fontSize: moderateScale(16),
+      color: colors.text,
+    },
+    dropdownPlaceholder: {
+      fontSize: moderateScale(16),
+      color: colors.textMuted,
+    },
+    imageUploadContainer: {
+      borderWidth: 2,
+      borderColor: colors.border,
+      borderStyle: "dashed",
+      borderRadius: moderateScale(8),
+      padding: scale(20),
+      alignItems: "center",
+    },
+    uploadedImageContainer: {
+      alignItems: "center",
+    },
+    uploadedImage: {
+      width: scale(150),
+      height: verticalScale(150),
+      borderRadius: moderateScale(8),
+      marginBottom: verticalScale(10),
+    },
+    removeButton: {
+      borderWidth: 1,
+      borderColor: colors.danger,
+      borderRadius: moderateScale(8),
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(8),
+    },
+    removeButtonText: {
+      color: colors.danger,
+      fontSize: moderateScale(14),
+    },
+    imageUploadArea: {
+      alignItems: "center",
+    },
+    imageUploadIcon: {
+      fontSize: moderateScale(40),
+      marginBottom: verticalScale(10),
+    },
+    imageUploadText: {
+      fontSize: moderateScale(14),
+      color: colors.textSecondary,
+      textAlign: "center",
+      marginBottom: verticalScale(15),
+    },
+    imageUploadInfo: {
+      fontSize: moderateScale(12),
+      color: colors.textMuted,
+      marginBottom: verticalScale(5),
+    },
+    radioGroup: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+    },
+    radioOption: {
+      flexDirection: "row",
+      alignItems: "center",
+      marginRight: 20,
+      marginBottom: verticalScale(10),
+    },
+    radioCircle: {
+      width: scale(20),
+      height: verticalScale(20),
+      borderRadius: moderateScale(10),
+      borderWidth: 2,
+      borderColor: colors.primary,
+      marginRight: 8,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    radioInner: {
+      width: scale(8),
+      height: verticalScale(8),
+      borderRadius: moderateScale(4),
+      backgroundColor: colors.surface,
+    },
+    radioText: {
+      fontSize: moderateScale(14),
+      color: colors.text,
+    },
+    priceInput: {
+      flexDirection: "row",
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      alignItems: "center",
+      paddingLeft: 15,
+      marginBottom: verticalScale(15),
+    },
+    currency: {
+      fontSize: moderateScale(16),
+      color: colors.textSecondary,
+      marginRight: 5,
+    },
+    priceTextInput: {
+      flex: 1,
+      padding: scale(15),
+      paddingLeft: 0,
+      fontSize: moderateScale(16),
+      color: colors.text,
+    },
+    priceOptions: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      justifyContent: "space-between",
+    },
+    priceOption: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(6),
+      paddingHorizontal: scale(12),
+      paddingVertical: verticalScale(8),
+      marginRight: 8,
+      marginBottom: verticalScale(8),
+    },
+    priceOptionText: {
+      fontSize: moderateScale(14),
+      color: colors.primary,
+    },
+    dateInputs: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+    },
+    dateInput: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      padding: scale(15),
+      fontSize: moderateScale(16),
+      color: colors.text,
+      flex: 1,
+      marginHorizontal: scale(5),
+      textAlign: "center",
+    },
+    supplierSection: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(20),
+      marginTop: verticalScale(10),
+    },
+    navigationButtons: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(15),
+      backgroundColor: colors.surface,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    backButton: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(8),
+      paddingHorizontal: scale(30),
+      paddingVertical: verticalScale(15),
+      flex: 1,
+      marginRight: 10,
+      alignItems: "center",
+    },
+    backButtonText: {
+      fontSize: moderateScale(16),
+      color: colors.textSecondary,
+    },
+    nextButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(8),
+      paddingHorizontal: scale(30),
+      paddingVertical: verticalScale(15),
+      flex: 1,
+      marginLeft: 10,
+      alignItems: "center",
+    },
+    nextButtonText: {
+      fontSize: moderateScale(16),
+      color: colors.onPrimary,
+    },
+    summaryContent: {
+      flex: 1,
+      backgroundColor: colors.surfaceMuted,
+    },
+    summaryTitle: {
+      fontSize: moderateScale(24),
+      color: colors.text,
+      padding: scale(20),
+      paddingBottom: verticalScale(10),
+    },
+    summaryImageContainer: {
+      alignItems: "center",
+      marginBottom: verticalScale(20),
+    },
+    summaryImage: {
+      width: scale(100),
+      height: verticalScale(100),
+      borderRadius: moderateScale(12),
+    },
+    summarySection: {
+      backgroundColor: colors.surface,
+      marginHorizontal: scale(20),
+      marginBottom: verticalScale(15),
+      borderRadius: moderateScale(12),
+      padding: scale(20),
+    },
+    summaryHeader: {
+      fontSize: moderateScale(14),
+      color: colors.text,
+      marginBottom: verticalScale(15),
+      letterSpacing: 0.5,
+    },
+    summaryRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: verticalScale(12),
+    },
+    summaryLabel: {
+      fontSize: moderateScale(14),
+      color: colors.textSecondary,
+      flex: 1,
+    },
+    summaryValue: {
+      fontSize: moderateScale(14),
+      color: colors.text,
+      flex: 1,
+      textAlign: "right",
+    },
+    saveProductButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(8), // Changed from 12 to 8 for consistency with nextButton
+      paddingHorizontal: scale(30),
+      paddingVertical: verticalScale(15),
+      flex: 1,
+      marginLeft: 10,
+      alignItems: "center",
+    },
+    saveProductButtonText: {
+      fontSize: moderateScale(16),
+      color: colors.onPrimary,
+    },
+    imagePickerModal: {
+      flex: 1,
+      justifyContent: "flex-end",
+      backgroundColor: colors.overlay,
+    },
+    imagePickerContent: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      padding: scale(20),
+    },
+    imagePickerTitle: {
+      fontSize: moderateScale(18),
+      textAlign: "center",
+      marginBottom: verticalScale(20),
+      color: colors.text,
+    },
+    imagePickerOptionText: {
+      fontSize: moderateScale(16),
+      color: colors.primary,
+      textAlign: "center",
+    },
+    imagePickerCancel: {
+      paddingVertical: verticalScale(15),
+      marginTop: verticalScale(10),
+    },
+    imagePickerCancelText: {
+      fontSize: moderateScale(16),
+      color: colors.danger,
+      textAlign: "center",
+    },
+    loadingOverlay: {
+      position: "absolute",
+      top: verticalScale(0),
+      left: scale(0),
+      right: scale(0),
+      bottom: verticalScale(0),
+      backgroundColor: `${colors.background}E6`,
+      justifyContent: "center",
+      alignItems: "center",
+      zIndex: 1000,
+    },
+    loadingText: {
+      marginTop: verticalScale(12),
+      fontSize: moderateScale(18),
+      color: colors.primary,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      backgroundColor: colors.surfaceMuted,
+    },
+    uploadingOverlay: {
+      ...StyleSheet.absoluteFillObject,
+      backgroundColor: colors.overlay,
+      borderRadius: moderateScale(8),
+      justifyContent: "center",
+      alignItems: "center",
+    },
+  });
 
 export default EditProduct;
@@ -0,0 +1,557 @@
+// app/(Routes)/ExpensesScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    RefreshControl,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import ExpenseFormModal from "@/components/ExpenseFormModal";
+import { useDeleteExpense, useExpenses } from "@/hooks/useExpenses";
+import { usePermissions } from "@/hooks/usePermissions";
+import { EXPENSE_CATEGORIES, type ApiExpense } from "@/src/api/expenses";
+import {
+    getDueRecurringExpenses,
+    getFrequencyLabel,
+    parseApiDate,
+    sumExpenses,
+} from "@/utils/expenses";
+import { formatCurrency, formatDateLabel } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+type RangeFilter = "month" | "all";
+
+type FormState = {
+  expense: ApiExpense | null;
+  mode: "create" | "edit";
+  initialDate?: Date;
+};
+
+const isThisMonth = (date: Date, now = new Date()) =>
+  date.getFullYear() === now.getFullYear() &&
+  date.getMonth() === now.getMonth();
+
+const ExpensesScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { data: expenses = [], isLoading, isRefetching, refetch } =
+    useExpenses();
+  const deleteExpense = useDeleteExpense();
+  const { canDelete } = usePermissions();
+  const [range, setRange] = useState<RangeFilter>("month");
+  const [category, setCategory] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState | null>(null);
+
+  const dueExpenses = useMemo(
+    () => getDueRecurringExpenses(expenses),
+    [expenses],
+  );
+
+  const visibleExpenses = useMemo(
+    () =>
+      expenses
+        .filter(
+          (expense) =>
+            range === "all" || isThisMonth(parseApiDate(expense.date)),
+        )
+        .filter((expense) => !category || expense.category === category)
+        .sort(
+          (a, b) =>
+            parseApiDate(b.date).getTime() - parseApiDate(a.date).getTime(),
+        ),
+    [expenses, range, category],
+  );
+
+  // Spend per category for the selected range, largest first
+  const categoryTotals = useMemo(() => {
+    const totals = new Map<string, number>();
+    expenses
+      .filter(
+        (expense) =>
+          range === "all" || isThisMonth(parseApiDate(expense.date)),
+      )
+      .forEach((expense) =>
+        totals.set(
+          expense.category,
+          (totals.get(expense.category) ?? 0) + Number(expense.amount || 0),
+        ),
+      );
+    return Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+  }, [expenses, range]);
+
+  const confirmDelete = (expense: ApiExpense) => {
+    Alert.alert(
+      "Delete expense",
+      `Delete ${expense.category} expense of ${formatCurrency(expense.amount)}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () =>
+            deleteExpense.mutate(expense.id, {
+              onError: () =>
+                Alert.alert("Error", "Failed to delete expense."),
+            }),
+        },
+      ],
+    );
+  };
+
+  const renderExpense = (expense: ApiExpense) => (
+    <TouchableOpacity
+      key={expense.id}
+      style={styles.expenseCard}
+      activeOpacity={0.7}
+      onPress={() => setForm({ expense, mode: "edit" })}
+      onLongPress={canDelete ? () => confirmDelete(expense) : undefined}
+    >
+      <View style={styles.expenseIcon}>
+        <Feather
+          name={expense.receipt ? "paperclip" : "credit-card"}
+          size={18}
+          color={colors.primary}
+        />
+      </View>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.expenseTitle} numberOfLines={1}>
+          {expense.description || expense.category}
+        </Text>
+        <Text style={styles.expenseMeta} numberOfLines={1}>
+          {expense.category} · {formatDateLabel(parseApiDate(expense.date))}
+          {expense.is_recurring
+            ? ` · ${getFrequencyLabel(expense.frequency)}`
+            : ""}
+        </Text>
+      </View>
+      <Text style={styles.expenseAmount}>
+        -{formatCurrency(expense.amount)}
+      </Text>
+      {canDelete && (
+        <TouchableOpacity
+          style={styles.deleteButton}
+          onPress={() => confirmDelete(expense)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Feather name="trash-2" size={16} color={colors.danger} />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Expenses</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+          }
+        >
+          <View style={styles.rangeSelector}>
+            {(
+              [
+                { key: "month", label: "This month" },
+                { key: "all", label: "All time" },
+              ] as const
+            ).map((option) => (
+              <TouchableOpacity
+                key={option.key}
+                style={[
+                  styles.rangeButton,
+                  range === option.key && styles.rangeButtonActive,
+                ]}
+                onPress={() => setRange(option.key)}
+              >
+                <Text
+                  style={[
+                    styles.rangeText,
+                    range === option.key && styles.rangeTextActive,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.totalCard}>
+            <Text style={styles.totalLabel}>
+              {category ? `${category} spend` : "Total spend"}
+            </Text>
+            <Text style={styles.totalValue}>
+              {formatCurrency(sumExpenses(visibleExpenses))}
+            </Text>
+            {categoryTotals.slice(0, 3).map(([name, total]) => (
+              <View key={name} style={styles.breakdownRow}>
+                <Text style={styles.breakdownLabel}>{name}</Text>
+                <Text style={styles.breakdownValue}>
+                  {formatCurrency(total)}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {dueExpenses.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>Due recurring expenses</Text>
+              {dueExpenses.map(({ expense, dueDate }) => (
+                <View key={expense.id} style={styles.dueCard}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.expenseTitle} numberOfLines={1}>
+                      {expense.description || expense.category}
+                    </Text>
+                    <Text style={styles.dueMeta}>
+                      {formatCurrency(expense.amount)} · due{" "}
+                      {formatDateLabel(dueDate)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.logButton}
+                    onPress={() =>
+                      setForm({
+                        expense,
+                        mode: "create",
+                        initialDate: dueDate,
+                      })
+                    }
+                  >
+                    <Text style={styles.logButtonText}>Log</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </>
+          )}
+
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.categoryChips}
+          >
+            {[null, ...EXPENSE_CATEGORIES].map((value) => (
+              <TouchableOpacity
+                key={value ?? "all"}
+                style={[
+                  styles.categoryChip,
+                  category === value && styles.categoryChipActive,
+                ]}
+                onPress={() => setCategory(value)}
+              >
+                <Text
+                  style={[
+                    styles.categoryChipText,
+                    category === value && styles.categoryChipTextActive,
+                  ]}
+                >
+                  {value ?? "All"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          {visibleExpenses.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Feather name="file-text" size={48} color={colors.textMuted} />
+              <Text style={styles.emptyTitle}>No expenses yet</Text>
+              <Text style={styles.emptyText}>
+                Record rent, salaries and other running costs to see your real
+                profit in Finance.
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.list}>
+              {visibleExpenses.map(renderExpense)}
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={() => setForm({ expense: null, mode: "create" })}
+        activeOpacity={0.85}
+      >
+        <Feather name="plus" size={moderateScale(28)} color="white" />
+      </TouchableOpacity>
+
+      <ExpenseFormModal
+        visible={!!form}
+        expense={form?.expense}
+        mode={form?.mode}
+        initialDate={form?.initialDate}
+        onClose={() => setForm(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    scrollContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(110),
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(40),
+      paddingHorizontal: scale(20),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── Summary ─────────────────────────────────────────────────────────────
+    rangeSelector: {
+      flexDirection: "row",
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(4),
+      marginBottom: verticalScale(12),
+    },
+    rangeButton: {
+      flex: 1,
+      alignItems: "center",
+      paddingVertical: verticalScale(10),
+      borderRadius: moderateScale(10),
+    },
+    rangeButtonActive: {
+      backgroundColor: colors.primary,
+    },
+    rangeText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    rangeTextActive: {
+      color: colors.onPrimary,
+    },
+    totalCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(16),
+    },
+    totalLabel: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+    },
+    totalValue: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.danger,
+      marginTop: verticalScale(4),
+      marginBottom: verticalScale(8),
+    },
+    breakdownRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      marginTop: verticalScale(4),
+    },
+    breakdownLabel: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    breakdownValue: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+
+    // ── Recurring ───────────────────────────────────────────────────────────
+    sectionTitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(20),
+      marginBottom: verticalScale(10),
+    },
+    dueCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.warningSoft,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+      marginBottom: verticalScale(8),
+    },
+    dueMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.warning,
+      marginTop: verticalScale(2),
+    },
+    logButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(10),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(16),
+    },
+    logButtonText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.onPrimary,
+    },
+
+    // ── List ────────────────────────────────────────────────────────────────
+    categoryChips: {
+      gap: scale(8),
+      paddingVertical: verticalScale(16),
+    },
+    categoryChip: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(20),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(14),
+    },
+    categoryChipActive: {
+      backgroundColor: colors.primary,
+    },
+    categoryChipText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    categoryChipTextActive: {
+      color: colors.onPrimary,
+    },
+    list: {
+      gap: verticalScale(10),
+    },
+    expenseCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    expenseIcon: {
+      width: scale(40),
+      height: scale(40),
+      borderRadius: moderateScale(10),
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    expenseTitle: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    expenseMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    expenseAmount: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_700Bold",
+      color: colors.danger,
+    },
+    deleteButton: {
+      padding: scale(4),
+    },
+    fab: {
+      position: "absolute",
+      right: scale(20),
+      bottom: verticalScale(28),
+      width: moderateScale(60),
+      height: moderateScale(60),
+      borderRadius: moderateScale(30),
+      backgroundColor: colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+      shadowColor: colors.primary,
+      shadowOffset: { width: 0, height: 6 },
+      shadowOpacity: 0.35,
+      shadowRadius: 10,
+      elevation: 8,
+    },
+  });
+
+export default ExpensesScreen;
@@ -0,0 +1,332 @@
+// app/(Routes)/ExpiryReportScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Dimensions,
+    FlatList,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useBatches } from "@/hooks/useBatches";
+import useSettingsStore from "@/stores/settingsStore";
+import {
+    getBatchLabel,
+    getDatedBatches,
+    getDaysUntilExpiry,
+    getExpiryWindow,
+    type StockBatch,
+} from "@/utils/batches";
+import { formatDateLabel, formatNumber } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+// "expired", a window in days, or every batch with an expiry date
+type ExpiryFilter = "expired" | number | "all";
+
+const getDaysText = (daysLeft: number): string => {
+  if (daysLeft < 0) return `Expired ${Math.abs(daysLeft)}d ago`;
+  if (daysLeft === 0) return "Expires today";
+  return `${daysLeft}d left`;
+};
+
+const ExpiryReportScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const windows = useSettingsStore((state) => state.expiryWarningDays);
+  const { batchesByProduct, isLoading } = useBatches();
+  const sortedWindows = useMemo(
+    () => [...windows].sort((a, b) => a - b),
+    [windows],
+  );
+  const [filter, setFilter] = useState<ExpiryFilter>(
+    sortedWindows[sortedWindows.length - 1] ?? "all",
+  );
+
+  const batches = useMemo(
+    () =>
+      getDatedBatches(batchesByProduct).map((batch) => ({
+        batch,
+        daysLeft: getDaysUntilExpiry(batch.expiryDate as Date),
+      })),
+    [batchesByProduct],
+  );
+
+  const rows = useMemo(() => {
+    if (filter === "all") return batches;
+    if (filter === "expired") return batches.filter((row) => row.daysLeft < 0);
+    return batches.filter((row) => row.daysLeft <= filter);
+  }, [batches, filter]);
+
+  const filters: { key: ExpiryFilter; label: string; count: number }[] = [
+    {
+      key: "expired",
+      label: "Expired",
+      count: batches.filter((row) => row.daysLeft < 0).length,
+    },
+    ...sortedWindows.map((days) => ({
+      key: days,
+      label: `≤ ${days} days`,
+      count: batches.filter((row) => row.daysLeft <= days).length,
+    })),
+    { key: "all", label: "All batches", count: batches.length },
+  ];
+
+  const getBadgeStyle = (daysLeft: number) => {
+    if (daysLeft < 0) return styles.badgeExpired;
+    const window = getExpiryWindow(daysLeft, sortedWindows);
+    if (window === sortedWindows[0]) return styles.badgeUrgent;
+    return window != null ? styles.badgeSoon : styles.badgeLater;
+  };
+
+  const renderBatch = ({
+    item,
+  }: {
+    item: { batch: StockBatch; daysLeft: number };
+  }) => {
+    const { batch, daysLeft } = item;
+    return (
+      <TouchableOpacity
+        style={styles.batchCard}
+        activeOpacity={0.7}
+        onPress={() =>
+          router.push({
+            pathname: "/(Routes)/ProductDetails",
+            params: { productId: String(batch.inventoryId) },
+          })
+        }
+      >
+        <View style={{ flex: 1 }}>
+          <Text style={styles.productName} numberOfLines={1}>
+            {batch.productName}
+          </Text>
+          <Text style={styles.batchMeta} numberOfLines={1}>
+            {getBatchLabel(batch)} · Expires{" "}
+            {formatDateLabel(batch.expiryDate as Date)}
+          </Text>
+          <Text style={styles.batchMeta}>
+            {formatNumber(batch.remaining)} of {formatNumber(batch.received)}{" "}
+            left
+          </Text>
+        </View>
+        <View style={[styles.badge, getBadgeStyle(daysLeft)]}>
+          <Text style={styles.badgeText}>{getDaysText(daysLeft)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Expiry Report</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filterChips}
+        >
+          {filters.map((option) => (
+            <TouchableOpacity
+              key={String(option.key)}
+              style={[
+                styles.filterChip,
+                filter === option.key && styles.filterChipActive,
+              ]}
+              onPress={() => setFilter(option.key)}
+            >
+              <Text
+                style={[
+                  styles.filterChipText,
+                  filter === option.key && styles.filterChipTextActive,
+                ]}
+              >
+                {option.label} ({option.count})
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={rows}
+          keyExtractor={(item) => item.batch.key}
+          renderItem={renderBatch}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="calendar" size={48} color="#C0C0C0" />
+              <Text style={styles.emptyTitle}>Nothing expiring</Text>
+              <Text style={styles.emptyText}>
+                Batches with an expiry date will show here as they get close.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── Filters ─────────────────────────────────────────────────────────────
+    filterChips: {
+      gap: scale(8),
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(14),
+    },
+    filterChip: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(20),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(14),
+    },
+    filterChipActive: {
+      backgroundColor: colors.primary,
+    },
+    filterChipText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    filterChipTextActive: {
+      color: colors.onPrimary,
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+      paddingHorizontal: scale(20),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── List ────────────────────────────────────────────────────────────────
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(40),
+      gap: verticalScale(10),
+    },
+    batchCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    productName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    batchMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    badge: {
+      borderRadius: moderateScale(8),
+      paddingVertical: verticalScale(4),
+      paddingHorizontal: scale(8),
+    },
+    badgeExpired: {
+      backgroundColor: "#7F1D1D",
+    },
+    badgeUrgent: {
+      backgroundColor: "#E74C3C",
+    },
+    badgeSoon: {
+      backgroundColor: "#F39C12",
+    },
+    badgeLater: {
+      backgroundColor: "#27AE60",
+    },
+    badgeText: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.onPrimary,
+    },
+  });
+
+export default ExpiryReportScreen;
@@ -0,0 +1,306 @@
+// app/(Routes)/ExportDataScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+    ActivityIndicator,
+    Dimensions,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import DateTimePickerModal from "react-native-modal-datetime-picker";
+
+import { useDataExport } from "@/hooks/useDataExport";
+import {
+    EXPORT_DATASETS,
+    type ExportDataset,
+    type ExportFormat,
+} from "@/utils/dataExport";
+import {
+    DATE_RANGE_PRESETS,
+    getPresetRange,
+    type DateRange,
+    type DateRangePreset,
+} from "@/utils/dateRanges";
+import { formatDateLabel } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const FORMATS: { key: ExportFormat; label: string }[] = [
+  { key: "xlsx", label: "Excel (.xlsx)" },
+  { key: "csv", label: "CSV" },
+];
+
+const ExportDataScreen = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { exporting, exportData } = useDataExport();
+
+  const [dataset, setDataset] = useState<ExportDataset>("sales");
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [preset, setPreset] = useState<DateRangePreset | null>("this_month");
+  const [range, setRange] = useState<DateRange>(() =>
+    getPresetRange("this_month"),
+  );
+  const [editing, setEditing] = useState<keyof DateRange | null>(null);
+
+  const choosePreset = (key: DateRangePreset) => {
+    setPreset(key);
+    setRange(getPresetRange(key));
+  };
+
+  const renderChips = <T extends string>(
+    options: { key: T; label: string }[],
+    selected: T | null,
+    onSelect: (key: T) => void,
+  ) => (
+    <View style={styles.chips}>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.key}
+          style={[styles.chip, selected === option.key && styles.chipActive]}
+          onPress={() => onSelect(option.key)}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              selected === option.key && styles.chipTextActive,
+            ]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Export Data</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>What to export</Text>
+        {renderChips(EXPORT_DATASETS, dataset, setDataset)}
+
+        <Text style={styles.sectionTitle}>Date range</Text>
+        {dataset === "inventory" ? (
+          <Text style={styles.hint}>
+            Inventory is exported as it stands today, with stock value at cost.
+          </Text>
+        ) : (
+          <>
+            {renderChips(DATE_RANGE_PRESETS, preset, choosePreset)}
+            <View style={styles.rangeRow}>
+              {(["from", "to"] as (keyof DateRange)[]).map((key) => (
+                <TouchableOpacity
+                  key={key}
+                  style={styles.dateButton}
+                  onPress={() => setEditing(key)}
+                >
+                  <Text style={styles.dateLabel}>
+                    {key === "from" ? "From" : "To"}
+                  </Text>
+                  <Text style={styles.dateValue}>
+                    {formatDateLabel(range[key])}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {dataset === "sales" && (
+              <Text style={styles.hint}>
+                One row per item sold, with the sale&apos;s date, payment and
+                customer repeated on each row.
+              </Text>
+            )}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Format</Text>
+        {renderChips(FORMATS, format, setFormat)}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, exporting && styles.buttonDisabled]}
+          onPress={() => exportData(dataset, format, range)}
+          disabled={exporting}
+          activeOpacity={0.8}
+        >
+          {exporting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Export and share</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <DateTimePickerModal
+        isVisible={editing !== null}
+        mode="date"
+        date={editing ? range[editing] : new Date()}
+        onConfirm={(picked) => {
+          if (editing) {
+            setRange((prev) => {
+              const next = { ...prev, [editing]: picked };
+              // Keep the range the right way round
+              return next.from > next.to
+                ? { from: next.to, to: next.from }
+                : next;
+            });
+            setPreset(null);
+          }
+          setEditing(null);
+        }}
+        onCancel={() => setEditing(null)}
+        maximumDate={new Date()}
+        themeVariant={isDark ? "dark" : "light"}
+        accentColor={colors.primary}
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── Options ─────────────────────────────────────────────────────────────
+    content: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(120),
+    },
+    sectionTitle: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.textSecondary,
+      marginTop: verticalScale(18),
+      marginBottom: verticalScale(10),
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: scale(8),
+    },
+    chip: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(20),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(14),
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    rangeRow: {
+      flexDirection: "row",
+      gap: scale(10),
+      marginTop: verticalScale(12),
+    },
+    dateButton: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(14),
+    },
+    dateLabel: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+    },
+    dateValue: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(2),
+    },
+    hint: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(10),
+    },
+
+    // ── Footer ──────────────────────────────────────────────────────────────
+    footer: {
+      position: "absolute",
+      left: scale(20),
+      right: scale(20),
+      bottom: verticalScale(24),
+    },
+    primaryButton: {
+      alignSelf: "stretch",
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(16),
+      alignItems: "center",
+    },
+    primaryButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
+
+export default ExportDataScreen;
@@ -13,6 +13,8 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
 
 interface HelpTopic {
   id: string;
@@ -32,6 +34,7 @@ const iconByType: Record<string, any> = {
 };
 
 const HelpCenterScreen = () => {
+  const styles = useThemedStyles(createStyles);
   const [topics, setTopics] = useState<HelpTopic[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchText, setSearchText] = useState("");
@@ -142,104 +145,105 @@ const HelpCenterScreen = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  safeArea: {
-    flex: 1,
-    backgroundColor: "#F9F9F9",
-  },
-  container: {
-    flex: 1,
-    padding: 20,
-  },
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: 20,
-  },
-  headerTitle: {
-    fontSize: 20,
-    color: "#333",
-    paddingTop: 30,
-  },
-  searchBarContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "white",
-    borderRadius: 10,
-    paddingHorizontal: 15,
-    marginBottom: 20,
-    borderWidth: 1,
-    borderColor: "#E0E0E0",
-  },
-  searchIcon: {
-    marginRight: 10,
-  },
-  searchInput: {
-    flex: 1,
-    fontSize: 16,
-    color: "#333",
-    paddingVertical: 12,
-  },
-  topicsGrid: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    justifyContent: "space-between",
-  },
-  loadingWrap: {
-    width: "100%",
-    paddingVertical: 20,
-    alignItems: "center",
-  },
-  emptyText: {
-    width: "100%",
-    textAlign: "center",
-    color: "#777",
-    paddingVertical: 20,
-  },
-  topicCard: {
-    width: "48%", // Roughly two cards per row with some spacing
-    backgroundColor: "white",
-    borderRadius: 10,
-    padding: 15,
-    marginBottom: 15,
-    alignItems: "center",
-    justifyContent: "center",
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 2,
-  },
-  topicIconContainer: {
-    backgroundColor: "#F0F0F0",
-    borderRadius: 30,
-    width: 60,
-    height: 60,
-    justifyContent: "center",
-    alignItems: "center",
-    marginBottom: 10,
-  },
-  topicIcon: {
-    width: 40,
-    height: 40,
-  },
-  topicTitle: {
-    fontSize: 14,
-    color: "#333",
-    textAlign: "center",
-  },
-  moreTopicsButton: {
-    backgroundColor: "#24A19C",
-    paddingVertical: 15,
-    borderRadius: 10,
-    alignItems: "center",
-    marginTop: 20,
-  },
-  moreTopicsButtonText: {
-    color: "white",
-    fontSize: 16,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    safeArea: {
+      flex: 1,
+      backgroundColor: colors.surfaceMuted,
+    },
+    container: {
+      flex: 1,
+      padding: 20,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 20,
+    },
+    headerTitle: {
+      fontSize: 20,
+      color: colors.text,
+      paddingTop: 30,
+    },
+    searchBarContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surface,
+      borderRadius: 10,
+      paddingHorizontal: 15,
+      marginBottom: 20,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    searchIcon: {
+      marginRight: 10,
+    },
+    searchInput: {
+      flex: 1,
+      fontSize: 16,
+      color: colors.text,
+      paddingVertical: 12,
+    },
+    topicsGrid: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      justifyContent: "space-between",
+    },
+    loadingWrap: {
+      width: "100%",
+      paddingVertical: 20,
+      alignItems: "center",
+    },
+    emptyText: {
+      width: "100%",
+      textAlign: "center",
+      color: colors.textSecondary,
+      paddingVertical: 20,
+    },
+    topicCard: {
+      width: "48%", // Roughly two cards per row with some spacing
+      backgroundColor: colors.surface,
+      borderRadius: 10,
+      padding: 15,
+      marginBottom: 15,
+      alignItems: "center",
+      justifyContent: "center",
+      shadowColor: "#000",
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 4,
+      elevation: 2,
+    },
+    topicIconContainer: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 30,
+      width: 60,
+      height: 60,
+      justifyContent: "center",
+      alignItems: "center",
+      marginBottom: 10,
+    },
+    topicIcon: {
+      width: 40,
+      height: 40,
+    },
+    topicTitle: {
+      fontSize: 14,
+      color: colors.text,
+      textAlign: "center",
+    },
+    moreTopicsButton: {
+      backgroundColor: "#24A19C",
+      paddingVertical: 15,
+      borderRadius: 10,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    moreTopicsButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+    },
+  });
 
 export default HelpCenterScreen;
@@ -0,0 +1,653 @@
+// app/(Routes)/ImportProductsScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import { useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    FlatList,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useProductImport } from "@/hooks/useProductImport";
+import { useAllInventory } from "@/hooks/useSuppliers";
+import { formatCurrency, formatNumber } from "@/utils/formatters";
+import {
+    guessMapping,
+    IMPORT_FIELDS,
+    readSpreadsheet,
+    validateRows,
+    type ColumnMapping,
+    type ImportField,
+    type ImportRow,
+    type ImportSheet,
+} from "@/utils/productImport";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const FILE_TYPES = [
+  "text/csv",
+  "text/comma-separated-values",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+];
+
+type Step = "map" | "review";
+
+const ImportProductsScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { data: inventory = [] } = useAllInventory();
+  const { job, startJob, clearJob, run, isRunning } = useProductImport();
+
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [step, setStep] = useState<Step>("map");
+  const [reading, setReading] = useState(false);
+
+  const existingBarcodes = useMemo(
+    () =>
+      new Set(
+        inventory.map((item) => (item.barcode || "").trim()).filter(Boolean),
+      ),
+    [inventory],
+  );
+
+  const rows = useMemo<ImportRow[]>(
+    () =>
+      sheet && mapping ? validateRows(sheet, mapping, existingBarcodes) : [],
+    [sheet, mapping, existingBarcodes],
+  );
+  const validRows = rows.filter((row) => row.payload);
+  const invalidRows = rows.filter((row) => !row.payload);
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(
+        (field) => field.required && mapping[field.key] == null,
+      )
+    : [];
+
+  const handlePickFile = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: FILE_TYPES,
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || !result.assets?.[0]) return;
+
+    const asset = result.assets[0];
+    setReading(true);
+    try {
+      const picked = await readSpreadsheet(asset.uri, asset.name);
+      setSheet(picked);
+      setMapping(guessMapping(picked.headers));
+      setStep("map");
+    } catch (error: any) {
+      Alert.alert(
+        "Couldn't read file",
+        error?.message || "Save the sheet as CSV or XLSX and try again.",
+      );
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const setColumn = (field: ImportField, column: number | null) =>
+    setMapping((prev) => (prev ? { ...prev, [field]: column } : prev));
+
+  const runImport = async () => {
+    const { created, stopped } = await run();
+    if (stopped) {
+      Alert.alert(
+        "Import paused",
+        `${formatNumber(created)} product${created === 1 ? "" : "s"} added before the connection dropped. Resume when you're back online.`,
+      );
+    }
+  };
+
+  const handleStartImport = async () => {
+    if (!sheet) return;
+    startJob(
+      sheet.fileName,
+      validRows.map((row) => ({
+        rowNumber: row.rowNumber,
+        payload: row.payload!,
+      })),
+    );
+    setSheet(null);
+    setMapping(null);
+    await runImport();
+  };
+
+  const handleFinish = () => {
+    const remaining = job ? job.rows.length - job.created.length : 0;
+    if (remaining === 0) {
+      clearJob();
+      return;
+    }
+    Alert.alert(
+      "Stop this import?",
+      `${formatNumber(remaining)} row${remaining === 1 ? "" : "s"} haven't been added yet and will be dropped.`,
+      [
+        { text: "Keep", style: "cancel" },
+        { text: "Stop import", style: "destructive", onPress: clearJob },
+      ],
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerTitle}>Import Products</Text>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={styles.backButton}
+        activeOpacity={0.8}
+      >
+        <Feather name="arrow-left" size={22} color={colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderErrorRow = (row: ImportRow) => (
+    <View key={row.rowNumber} style={styles.rowCard}>
+      <Text style={styles.rowNumber}>Row {row.rowNumber}</Text>
+      {row.errors.map((message) => (
+        <Text key={message} style={styles.errorText}>
+          {message}
+        </Text>
+      ))}
+    </View>
+  );
+
+  // ── Import in progress (or paused) ───────────────────────────────────────
+  if (job) {
+    const total = job.rows.length;
+    const createdCount = job.created.length;
+    const remaining = total - createdCount;
+    const failedRows = Object.entries(job.failed);
+
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <ScrollView contentContainerStyle={styles.listContent}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle} numberOfLines={1}>
+              {job.fileName}
+            </Text>
+            <Text style={styles.cardMeta}>
+              {formatNumber(createdCount)} of {formatNumber(total)} products
+              added
+            </Text>
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${total ? (createdCount / total) * 100 : 0}%` },
+                ]}
+              />
+            </View>
+          </View>
+
+          {failedRows.length > 0 && (
+            <>
+              <Text style={styles.sectionTitle}>
+                Not added ({formatNumber(failedRows.length)})
+              </Text>
+              {failedRows.map(([rowNumber, message]) => (
+                <View key={rowNumber} style={styles.rowCard}>
+                  <Text style={styles.rowNumber}>Row {rowNumber}</Text>
+                  <Text style={styles.errorText}>{message}</Text>
+                </View>
+              ))}
+            </>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          {remaining > 0 && (
+            <TouchableOpacity
+              style={[styles.primaryButton, isRunning && styles.buttonDisabled]}
+              onPress={runImport}
+              disabled={isRunning}
+              activeOpacity={0.8}
+            >
+              {isRunning ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {failedRows.length > 0 ? "Retry" : "Resume"} (
+                  {formatNumber(remaining)} left)
+                </Text>
+              )}
+            </TouchableOpacity>
+          )}
+          {!isRunning && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={handleFinish}
+            >
+              <Text style={styles.secondaryButtonText}>
+                {remaining === 0 ? "Done" : "Stop import"}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // ── Pick a file ──────────────────────────────────────────────────────────
+  if (!sheet || !mapping) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyState}>
+          <Feather name="upload" size={48} color={colors.primary} />
+          <Text style={styles.emptyTitle}>Add products from a spreadsheet</Text>
+          <Text style={styles.emptyText}>
+            Pick a CSV or Excel file with one product per row and a header row.
+            Name and selling price are required; cost, quantity, category,
+            barcode, expiry and supplier are picked up when present.
+          </Text>
+          <TouchableOpacity
+            style={[styles.primaryButton, reading && styles.buttonDisabled]}
+            onPress={handlePickFile}
+            disabled={reading}
+            activeOpacity={0.8}
+          >
+            {reading ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.primaryButtonText}>Choose file</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // ── Map columns ──────────────────────────────────────────────────────────
+  if (step === "map") {
+    const sample = sheet.rows[0] ?? [];
+
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <Text style={styles.stepText}>
+          {sheet.fileName} · {formatNumber(sheet.rows.length)} rows. Match each
+          field to a column in your file.
+        </Text>
+        <FlatList
+          data={IMPORT_FIELDS}
+          keyExtractor={(field) => field.key}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item: field }) => {
+            const column = mapping[field.key];
+            return (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  {field.label}
+                  {field.required ? " *" : ""}
+                </Text>
+                <Text style={styles.cardMeta} numberOfLines={1}>
+                  {column == null
+                    ? "Not imported"
+                    : `e.g. ${sample[column] || "(blank)"}`}
+                </Text>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.chips}
+                >
+                  {[null, ...sheet.headers.map((_, index) => index)].map(
+                    (index) => (
+                      <TouchableOpacity
+                        key={index ?? "skip"}
+                        style={[
+                          styles.chip,
+                          column === index && styles.chipActive,
+                        ]}
+                        onPress={() => setColumn(field.key, index)}
+                      >
+                        <Text
+                          style={[
+                            styles.chipText,
+                            column === index && styles.chipTextActive,
+                          ]}
+                        >
+                          {index == null
+                            ? "Skip"
+                            : sheet.headers[index] || `Column ${index + 1}`}
+                        </Text>
+                      </TouchableOpacity>
+                    ),
+                  )}
+                </ScrollView>
+              </View>
+            );
+          }}
+        />
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              missingRequired.length > 0 && styles.buttonDisabled,
+            ]}
+            onPress={() => setStep("review")}
+            disabled={missingRequired.length > 0}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.primaryButtonText}>
+              {missingRequired.length > 0
+                ? `Choose a column for ${missingRequired.map((field) => field.label).join(" and ")}`
+                : "Check rows"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // ── Review ───────────────────────────────────────────────────────────────
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader()}
+      <View style={styles.summaryBar}>
+        <Text style={styles.readyText}>
+          {formatNumber(validRows.length)} ready
+        </Text>
+        <Text style={styles.invalidText}>
+          {formatNumber(invalidRows.length)} with errors
+        </Text>
+        <TouchableOpacity onPress={() => setStep("map")}>
+          <Text style={styles.linkText}>Edit columns</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.listContent}>
+        {invalidRows.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>
+              Fix these in your file or they&apos;ll be skipped
+            </Text>
+            {invalidRows.map(renderErrorRow)}
+          </>
+        )}
+
+        {validRows.length > 0 && (
+          <Text style={styles.sectionTitle}>Preview</Text>
+        )}
+        {validRows.slice(0, 20).map((row) => (
+          <View key={row.rowNumber} style={styles.rowCard}>
+            <View style={styles.previewRow}>
+              <Text style={styles.cardTitle} numberOfLines={1}>
+                {row.payload!.name}
+              </Text>
+              <Text style={styles.cardTitle}>
+                {formatCurrency(row.payload!.selling_price)}
+              </Text>
+            </View>
+            <Text style={styles.cardMeta}>
+              Row {row.rowNumber} · {formatNumber(row.payload!.units_in_stock)}{" "}
+              in stock
+              {row.payload!.category ? ` · ${row.payload!.category}` : ""}
+            </Text>
+          </View>
+        ))}
+        {validRows.length > 20 && (
+          <Text style={styles.listEmpty}>
+            and {formatNumber(validRows.length - 20)} more
+          </Text>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[
+            styles.primaryButton,
+            validRows.length === 0 && styles.buttonDisabled,
+          ]}
+          onPress={handleStartImport}
+          disabled={validRows.length === 0}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.primaryButtonText}>
+            Import {formatNumber(validRows.length)} product
+            {validRows.length === 1 ? "" : "s"}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+      paddingHorizontal: scale(28),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      marginBottom: verticalScale(24),
+      textAlign: "center",
+    },
+    listEmpty: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      textAlign: "center",
+      paddingVertical: verticalScale(12),
+    },
+    stepText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      paddingHorizontal: scale(20),
+      marginBottom: verticalScale(12),
+    },
+
+    // ── Cards ───────────────────────────────────────────────────────────────
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(160),
+      gap: verticalScale(10),
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    cardTitle: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    cardMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    chips: {
+      gap: scale(8),
+      paddingTop: verticalScale(10),
+    },
+    chip: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(20),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(14),
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    progressTrack: {
+      height: verticalScale(8),
+      borderRadius: moderateScale(4),
+      backgroundColor: colors.background,
+      marginTop: verticalScale(12),
+      overflow: "hidden",
+    },
+    progressFill: {
+      height: "100%",
+      backgroundColor: colors.primary,
+    },
+
+    // ── Review ──────────────────────────────────────────────────────────────
+    summaryBar: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      paddingHorizontal: scale(20),
+      marginBottom: verticalScale(12),
+    },
+    readyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: "#27AE60",
+    },
+    invalidText: {
+      flex: 1,
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: "#E74C3C",
+    },
+    linkText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.primary,
+    },
+    sectionTitle: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.textSecondary,
+      marginTop: verticalScale(4),
+    },
+    rowCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+      gap: verticalScale(2),
+    },
+    rowNumber: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    errorText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: "#E74C3C",
+    },
+    previewRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      gap: scale(12),
+    },
+
+    // ── Footer ──────────────────────────────────────────────────────────────
+    footer: {
+      position: "absolute",
+      left: scale(20),
+      right: scale(20),
+      bottom: verticalScale(24),
+      gap: verticalScale(8),
+    },
+    primaryButton: {
+      alignSelf: "stretch",
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(16),
+      paddingHorizontal: scale(16),
+      alignItems: "center",
+    },
+    primaryButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      textAlign: "center",
+    },
+    secondaryButton: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(14),
+      alignItems: "center",
+    },
+    secondaryButtonText: {
+      color: colors.textSecondary,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
+
+export default ImportProductsScreen;
@@ -5,13 +5,19 @@ import {
   FlatList,
   KeyboardAvoidingView,
   Platform,
+  StyleSheet,
   Text,
   TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
 
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
 const MessagesScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [messages, setMessages] = useState<{ id: string; text: string }[]>([]);
   const [input, setInput] = useState("");
 
@@ -26,31 +32,15 @@ const MessagesScreen = () => {
 
   return (
     <KeyboardAvoidingView
-      style={{ flex: 1 }}
+      style={styles.flex}
       behavior={Platform.OS === "ios" ? "padding" : "height"}
       keyboardVerticalOffset={Platform.OS === "ios" ? 90 : 0}
     >
-      <View
-        style={{ flex: 1, backgroundColor: "#fff", padding: 10, marginTop: 30 }}
-      >
+      <View style={styles.container}>
         {/* Header */}
-        <View
-          style={{
-            flexDirection: "row",
-            alignItems: "center",
-            paddingVertical: 10,
-          }}
-        >
-          <Ionicons name="chatbubbles-outline" size={24} color="#333" />
-          <Text
-            style={{
-              fontSize: 18,
-              fontFamily: "DMSans_700Bold",
-              marginLeft: 10,
-            }}
-          >
-            Messages
-          </Text>
+        <View style={styles.header}>
+          <Ionicons name="chatbubbles-outline" size={24} color={colors.text} />
+          <Text style={styles.headerTitle}>Messages</Text>
         </View>
 
         {/* Messages List */}
@@ -58,48 +48,24 @@ const MessagesScreen = () => {
           data={messages}
           keyExtractor={(item) => item.id}
           renderItem={({ item }) => (
-            <View
-              style={{
-                padding: 10,
-                backgroundColor: "#f1f1f1",
-                borderRadius: 8,
-                marginBottom: 8,
-                alignSelf: "flex-start",
-              }}
-            >
-              <Text>{item.text}</Text>
+            <View style={styles.bubble}>
+              <Text style={styles.bubbleText}>{item.text}</Text>
             </View>
           )}
-          contentContainerStyle={{ flexGrow: 1 }}
+          contentContainerStyle={styles.list}
         />
 
         {/* Input Box */}
-        <View
-          style={{
-            flexDirection: "row",
-            alignItems: "center",
-            padding: 8,
-            borderTopWidth: 1,
-            borderColor: "#ddd",
-          }}
-        >
+        <View style={styles.inputRow}>
           <TextInput
             value={input}
             onChangeText={setInput}
             placeholder="Type a message..."
-            style={{
-              flex: 1,
-              borderWidth: 1,
-              borderColor: "#ccc",
-              borderRadius: 20,
-              paddingHorizontal: 15,
-              paddingVertical: 8,
-              marginRight: 8,
-              fontFamily: "DMSans_400Regular",
-            }}
+            placeholderTextColor={colors.textMuted}
+            style={styles.input}
           />
           <TouchableOpacity onPress={sendMessage}>
-            <Ionicons name="send" size={24} color="#007AFF" />
+            <Ionicons name="send" size={24} color={colors.primary} />
           </TouchableOpacity>
         </View>
       </View>
@@ -107,4 +73,59 @@ const MessagesScreen = () => {
   );
 };
 
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    flex: {
+      flex: 1,
+    },
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      padding: 10,
+      marginTop: 30,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingVertical: 10,
+    },
+    headerTitle: {
+      fontSize: 18,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginLeft: 10,
+    },
+    list: {
+      flexGrow: 1,
+    },
+    bubble: {
+      padding: 10,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      marginBottom: 8,
+      alignSelf: "flex-start",
+    },
+    bubbleText: {
+      color: colors.text,
+    },
+    inputRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      padding: 8,
+      borderTopWidth: 1,
+      borderColor: colors.border,
+    },
+    input: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 20,
+      paddingHorizontal: 15,
+      paddingVertical: 8,
+      marginRight: 8,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+  });
+
 export default MessagesScreen;
@@ -16,6 +16,8 @@ import {
 import { useMarkNotificationRead } from "@/hooks/useNotifications";
 import { listNotifications } from "@/src/api";
 import { getFontSize } from "../../utils/scaling";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const { width, height } = Dimensions.get("window");
 
@@ -86,6 +88,8 @@ const groupNotificationsByDate = (notifications: Notification[]) => {
 };
 
 const NotificationsScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -99,6 +103,10 @@ const NotificationsScreen = () => {
         prev.map((n) => (n.id === item.id ? { ...n, isRead: true } : n)),
       );
     }
+    if (item.type === "expense") {
+      router.push("/(Routes)/ExpensesScreen" as any);
+      return;
+    }
     router.push({
       pathname: "/(Routes)/RestockDetails",
       params: { notificationId: item.id },
@@ -161,7 +169,7 @@ const NotificationsScreen = () => {
           <Ionicons
             name="folder-open-outline"
             size={moderateScale(28)}
-            color="#1155CC"
+            color={colors.primary}
           />
         );
       case "high_selling":
@@ -171,7 +179,7 @@ const NotificationsScreen = () => {
           <Ionicons
             name="cart-outline"
             size={moderateScale(28)}
-            color="#1155CC"
+            color={colors.primary}
           />
         );
       case "daily_summary":
@@ -181,7 +189,7 @@ const NotificationsScreen = () => {
           <Ionicons
             name="bar-chart-outline"
             size={moderateScale(28)}
-            color="#1155CC"
+            color={colors.primary}
           />
         );
       default:
@@ -189,7 +197,7 @@ const NotificationsScreen = () => {
           <Ionicons
             name="notifications-outline"
             size={moderateScale(28)}
-            color="#1155CC"
+            color={colors.primary}
           />
         );
     }
@@ -312,7 +320,7 @@ const NotificationsScreen = () => {
           </View>
           <TouchableOpacity onPress={() => router.back()}>
             <View style={styles.closeButton}>
-              <Feather name="x" size={24} color="#000" />
+              <Feather name="x" size={24} color={colors.text} />
             </View>
           </TouchableOpacity>
         </View>
@@ -337,7 +345,7 @@ const NotificationsScreen = () => {
         </View>
         <TouchableOpacity onPress={() => router.back()}>
           <View style={styles.closeButton}>
-            <Feather name="x" size={24} color="#000" />
+            <Feather name="x" size={24} color={colors.text} />
           </View>
         </TouchableOpacity>
       </View>
@@ -364,212 +372,213 @@ const NotificationsScreen = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#E7EEFA",
-  },
-
-  // Header
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: scale(20),
-    paddingVertical: verticalScale(16),
-    backgroundColor: "#E7EEFA",
-  },
-  headerLeft: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: scale(10),
-  },
-  headerTitle: {
-    fontSize: getFontSize(moderateScale(24)),
-    fontFamily: "DMSans_700Bold",
-    color: "#1C1C1C",
-  },
-  closeButton: {
-    backgroundColor: "#fff",
-    padding: scale(10),
-    borderRadius: moderateScale(10),
-  },
-
-  // List
-  listContent: {
-    paddingHorizontal: scale(16),
-    paddingBottom: verticalScale(24),
-  },
-  section: {
-    marginBottom: verticalScale(8),
-  },
-  sectionHeader: {
-    fontSize: getFontSize(moderateScale(13)),
-    color: "#888",
-    fontFamily: "DMSans_400Regular",
-    marginTop: verticalScale(16),
-    marginBottom: verticalScale(8),
-  },
-
-  // Notification card — matches the UI screenshot
-  notificationCard: {
-    flexDirection: "row",
-    alignItems: "flex-start",
-    backgroundColor: "#FFFFFF",
-    borderRadius: moderateScale(14),
-    padding: scale(14),
-    marginBottom: verticalScale(10),
-    gap: scale(12),
-  },
-  iconBox: {
-    borderRadius: moderateScale(10),
-    justifyContent: "center",
-    alignItems: "center",
-    display: "flex",
-    width: scale(40),
-    height: scale(40),
-  },
-  cardContent: {
-    flex: 1,
-    gap: verticalScale(3),
-  },
-  cardTopRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-  },
-  cardTitle: {
-    fontSize: getFontSize(moderateScale(12)),
-    color: "#888",
-    fontFamily: "DMSans_400Regular",
-    flex: 1,
-  },
-  cardTime: {
-    fontSize: getFontSize(moderateScale(11)),
-    color: "#888",
-    fontFamily: "DMSans_400Regular",
-    marginLeft: scale(8),
-  },
-  cardMessage: {
-    fontSize: getFontSize(moderateScale(15)),
-    fontFamily: "DMSans_700Bold",
-    color: "#1C1C1C",
-    lineHeight: getFontSize(moderateScale(22)),
-  },
-  cardActionRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    marginTop: verticalScale(2),
-  },
-  actionLinks: {
-    flexDirection: "row",
-    alignItems: "center",
-    flex: 1,
-    flexWrap: "wrap",
-  },
-  actionLink: {
-    fontSize: getFontSize(moderateScale(12)),
-    color: "#1155CC",
-    fontFamily: "DMSans_400Regular",
-  },
-  actionSeparator: {
-    fontSize: getFontSize(moderateScale(12)),
-    color: "#1155CC",
-    marginHorizontal: scale(2),
-  },
-  newBadge: {
-    backgroundColor: "#fff",
-    borderRadius: moderateScale(24),
-    paddingHorizontal: scale(10),
-    paddingVertical: scale(3),
-    borderWidth: 1,
-    borderColor: "#FACC15",
-  },
-  newBadgeText: {
-    fontSize: getFontSize(moderateScale(10)),
-    color: "#FACC15",
-    fontFamily: "DMSans_700Bold",
-  },
-
-  // Empty state
-  emptyContainer: {
-    flex: 1,
-    alignItems: "center",
-    justifyContent: "center",
-    paddingHorizontal: scale(32),
-    paddingTop: verticalScale(60),
-  },
-  bellCircle: {
-    width: scale(160),
-    height: scale(160),
-    borderRadius: scale(80),
-    backgroundColor: "#DDE6F5",
-    justifyContent: "flex-end",
-    alignItems: "center",
-    paddingBottom: scale(20),
-    marginBottom: verticalScale(24),
-    overflow: "hidden",
-  },
-  zText: {
-    fontSize: getFontSize(moderateScale(20)),
-    fontFamily: "DMSans_700Bold",
-    color: "#111",
-    lineHeight: getFontSize(moderateScale(24)),
-  },
-  emptyTitle: {
-    fontSize: getFontSize(moderateScale(20)),
-    fontFamily: "DMSans_700Bold",
-    color: "#111",
-    marginBottom: verticalScale(8),
-  },
-  emptySubtitle: {
-    fontSize: getFontSize(moderateScale(14)),
-    fontFamily: "DMSans_400Regular",
-    color: "#555",
-    textAlign: "center",
-    marginBottom: verticalScale(12),
-  },
-  emptyTip: {
-    fontSize: getFontSize(moderateScale(14)),
-    fontFamily: "DMSans_700Bold",
-    color: "#111",
-    marginBottom: verticalScale(6),
-  },
-  emptyTipText: {
-    fontSize: getFontSize(moderateScale(13)),
-    fontFamily: "DMSans_400Regular",
-    color: "#555",
-    textAlign: "center",
-    lineHeight: getFontSize(moderateScale(20)),
-  },
-
-  // Loading
-  loadingContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  loadingText: {
-    marginTop: verticalScale(12),
-    fontSize: getFontSize(moderateScale(16)),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-
-  // Retry
-  retryButton: {
-    marginTop: verticalScale(20),
-    paddingVertical: verticalScale(12),
-    paddingHorizontal: scale(32),
-    backgroundColor: "#0056D2",
-    borderRadius: moderateScale(8),
-  },
-  retryButtonText: {
-    color: "#fff",
-    fontSize: getFontSize(moderateScale(16)),
-    fontFamily: "DMSans_700Bold",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // Header
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(16),
+      backgroundColor: colors.background,
+    },
+    headerLeft: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(10),
+    },
+    headerTitle: {
+      fontSize: getFontSize(moderateScale(24)),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    closeButton: {
+      backgroundColor: colors.surface,
+      padding: scale(10),
+      borderRadius: moderateScale(10),
+    },
+
+    // List
+    listContent: {
+      paddingHorizontal: scale(16),
+      paddingBottom: verticalScale(24),
+    },
+    section: {
+      marginBottom: verticalScale(8),
+    },
+    sectionHeader: {
+      fontSize: getFontSize(moderateScale(13)),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+      marginTop: verticalScale(16),
+      marginBottom: verticalScale(8),
+    },
+
+    // Notification card — matches the UI screenshot
+    notificationCard: {
+      flexDirection: "row",
+      alignItems: "flex-start",
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+      marginBottom: verticalScale(10),
+      gap: scale(12),
+    },
+    iconBox: {
+      borderRadius: moderateScale(10),
+      justifyContent: "center",
+      alignItems: "center",
+      display: "flex",
+      width: scale(40),
+      height: scale(40),
+    },
+    cardContent: {
+      flex: 1,
+      gap: verticalScale(3),
+    },
+    cardTopRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    cardTitle: {
+      fontSize: getFontSize(moderateScale(12)),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+      flex: 1,
+    },
+    cardTime: {
+      fontSize: getFontSize(moderateScale(11)),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+      marginLeft: scale(8),
+    },
+    cardMessage: {
+      fontSize: getFontSize(moderateScale(15)),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      lineHeight: getFontSize(moderateScale(22)),
+    },
+    cardActionRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      marginTop: verticalScale(2),
+    },
+    actionLinks: {
+      flexDirection: "row",
+      alignItems: "center",
+      flex: 1,
+      flexWrap: "wrap",
+    },
+    actionLink: {
+      fontSize: getFontSize(moderateScale(12)),
+      color: colors.primary,
+      fontFamily: "DMSans_400Regular",
+    },
+    actionSeparator: {
+      fontSize: getFontSize(moderateScale(12)),
+      color: colors.primary,
+      marginHorizontal: scale(2),
+    },
+    newBadge: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(24),
+      paddingHorizontal: scale(10),
+      paddingVertical: scale(3),
+      borderWidth: 1,
+      borderColor: "#FACC15",
+    },
+    newBadgeText: {
+      fontSize: getFontSize(moderateScale(10)),
+      color: "#FACC15",
+      fontFamily: "DMSans_700Bold",
+    },
+
+    // Empty state
+    emptyContainer: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      paddingHorizontal: scale(32),
+      paddingTop: verticalScale(60),
+    },
+    bellCircle: {
+      width: scale(160),
+      height: scale(160),
+      borderRadius: scale(80),
+      backgroundColor: colors.surfaceMuted,
+      justifyContent: "flex-end",
+      alignItems: "center",
+      paddingBottom: scale(20),
+      marginBottom: verticalScale(24),
+      overflow: "hidden",
+    },
+    zText: {
+      fontSize: getFontSize(moderateScale(20)),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      lineHeight: getFontSize(moderateScale(24)),
+    },
+    emptyTitle: {
+      fontSize: getFontSize(moderateScale(20)),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginBottom: verticalScale(8),
+    },
+    emptySubtitle: {
+      fontSize: getFontSize(moderateScale(14)),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      textAlign: "center",
+      marginBottom: verticalScale(12),
+    },
+    emptyTip: {
+      fontSize: getFontSize(moderateScale(14)),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginBottom: verticalScale(6),
+    },
+    emptyTipText: {
+      fontSize: getFontSize(moderateScale(13)),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      textAlign: "center",
+      lineHeight: getFontSize(moderateScale(20)),
+    },
+
+    // Loading
+    loadingContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    loadingText: {
+      marginTop: verticalScale(12),
+      fontSize: getFontSize(moderateScale(16)),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+
+    // Retry
+    retryButton: {
+      marginTop: verticalScale(20),
+      paddingVertical: verticalScale(12),
+      paddingHorizontal: scale(32),
+      backgroundColor: "#0056D2",
+      borderRadius: moderateScale(8),
+    },
+    retryButtonText: {
+      color: colors.onPrimary,
+      fontSize: getFontSize(moderateScale(16)),
+      fontFamily: "DMSans_700Bold",
+    },
+  });
 
 export default NotificationsScreen;
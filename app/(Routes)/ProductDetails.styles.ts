@@ -1,181 +1,208 @@
 import { StyleSheet } from "react-native";
+import type { ThemeColors } from "@/constants/theme";
 
-export const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#FFF",
-  },
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-    backgroundColor: "#FFF",
-  },
-  headerTitle: {
-    fontSize: 24,
-    fontFamily: "DMSans_700Bold",
-    color: "#1C1C1C",
-  },
-  closeButton: {
-    padding: 4,
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  loadingText: {
-    marginTop: 10,
-    fontSize: 16,
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  errorContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  errorText: {
-    fontSize: 18,
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  content: {
-    flex: 1,
-  },
-  imageContainer: {
-    alignItems: "center",
-    paddingVertical: 20,
-    backgroundColor: "#FFF",
-  },
-  productImage: {
-    width: 180,
-    height: 150,
-    resizeMode: "contain",
-    backgroundColor: "#FFF",
-  },
-  section: {
-    paddingHorizontal: 20,
-    paddingTop: 20,
-    paddingBottom: 4,
-    backgroundColor: "#FFF",
-  },
-  sectionTitle: {
-    fontSize: 14,
-    fontFamily: "DMSans_400Regular",
-    color: "#000000",
-    letterSpacing: 1,
-    textTransform: "uppercase",
-    marginBottom: 8,
-  },
-  row: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingVertical: 14,
-    borderBottomWidth: 1,
-    borderBottomColor: "#F0F0F0",
-  },
-  rowLabel: {
-    fontSize: 14,
-    fontFamily: "DMSans_400Regular",
-    color: "#6E6E6E",
-  },
-  rowValue: {
-    fontSize: 14,
-    fontFamily: "DMSans_400Regular",
-    color: "#1C1C1C",
-    textAlign: "right",
-    flex: 1,
-    marginLeft: 16,
-  },
-  bottomContainer: {
-    padding: 20,
-    paddingBottom: 32,
-    backgroundColor: "#FFF",
-  },
-  editButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    backgroundColor: "#1155CC",
-    borderRadius: 14,
-    paddingVertical: 16,
-    gap: 10,
-  },
-  editButtonText: {
-    fontSize: 16,
-    fontFamily: "DMSans_400Regular",
-    color: "#F2F2F2",
-  },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: "rgba(0, 0, 0, 0.5)",
-    justifyContent: "center",
-    alignItems: "center",
-    paddingHorizontal: 20,
-  },
-  deleteModal: {
-    backgroundColor: "#FFF",
-    borderRadius: 16,
-    padding: 24,
-    width: "100%",
-    maxWidth: 400,
-  },
-  deleteModalHeader: {
-    alignItems: "center",
-    marginBottom: 16,
-  },
-  deleteModalTitle: {
-    fontSize: 20,
-    fontFamily: "DMSans_700Bold",
-    color: "#000",
-    marginTop: 8,
-  },
-  deleteModalMessage: {
-    fontSize: 16,
-    fontFamily: "DMSans_400Regular",
-    color: "#666",
-    textAlign: "center",
-    lineHeight: 24,
-    marginBottom: 24,
-  },
-  deleteModalButtons: {
-    flexDirection: "row",
-    gap: 12,
-  },
-  cancelButton: {
-    flex: 1,
-    backgroundColor: "#F8F9FA",
-    borderRadius: 12,
-    paddingVertical: 14,
-    alignItems: "center",
-    borderWidth: 1,
-    borderColor: "#E0E0E0",
-  },
-  cancelButtonText: {
-    fontSize: 16,
-    fontFamily: "DMSans_400Regular",
-    color: "#666",
-  },
-  deleteButton: {
-    flex: 1,
-    backgroundColor: "#FF6B6B",
-    borderRadius: 12,
-    paddingVertical: 14,
-    alignItems: "center",
-    flexDirection: "row",
-    justifyContent: "center",
-    gap: 6,
-  },
-  deleteButtonText: {
-    fontSize: 16,
-    fontFamily: "DMSans_400Regular",
-    color: "#FFF",
-  },
-  disabledButton: {
-    opacity: 0.7,
-  },
-});
+export const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surface,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: 20,
+      paddingVertical: 16,
+      backgroundColor: colors.surface,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    loadingText: {
+      marginTop: 10,
+      fontSize: 16,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    errorContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    errorText: {
+      fontSize: 18,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    content: {
+      flex: 1,
+    },
+    imageContainer: {
+      alignItems: "center",
+      paddingVertical: 20,
+      backgroundColor: colors.surface,
+    },
+    productImage: {
+      width: 180,
+      height: 150,
+      resizeMode: "contain",
+      backgroundColor: colors.surface,
+    },
+    section: {
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 4,
+      backgroundColor: colors.surface,
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      letterSpacing: 1,
+      textTransform: "uppercase",
+      marginBottom: 8,
+    },
+    sectionHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "baseline",
+    },
+    sectionLink: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.primary,
+    },
+    sectionEmpty: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      paddingBottom: 12,
+    },
+    row: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingVertical: 14,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    rowLabel: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    rowValue: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      textAlign: "right",
+      flex: 1,
+      marginLeft: 16,
+    },
+    adjustmentNote: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    adjustmentLoss: {
+      color: "#EF4444",
+    },
+    bottomContainer: {
+      padding: 20,
+      paddingBottom: 32,
+      backgroundColor: colors.surface,
+    },
+    editButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: colors.primary,
+      borderRadius: 14,
+      paddingVertical: 16,
+      gap: 10,
+    },
+    editButtonText: {
+      fontSize: 16,
+      fontFamily: "DMSans_400Regular",
+      color: "#F2F2F2",
+    },
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "center",
+      alignItems: "center",
+      paddingHorizontal: 20,
+    },
+    deleteModal: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: "100%",
+      maxWidth: 400,
+    },
+    deleteModalHeader: {
+      alignItems: "center",
+      marginBottom: 16,
+    },
+    deleteModalTitle: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginTop: 8,
+    },
+    deleteModalMessage: {
+      fontSize: 16,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      textAlign: "center",
+      lineHeight: 24,
+      marginBottom: 24,
+    },
+    deleteModalButtons: {
+      flexDirection: "row",
+      gap: 12,
+    },
+    cancelButton: {
+      flex: 1,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    cancelButtonText: {
+      fontSize: 16,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    deleteButton: {
+      flex: 1,
+      backgroundColor: "#FF6B6B",
+      borderRadius: 12,
+      paddingVertical: 14,
+      alignItems: "center",
+      flexDirection: "row",
+      justifyContent: "center",
+      gap: 6,
+    },
+    deleteButtonText: {
+      fontSize: 16,
+      fontFamily: "DMSans_400Regular",
+      color: colors.onPrimary,
+    },
+    disabledButton: {
+      opacity: 0.7,
+    },
+  });
@@ -1,9 +1,20 @@
+import RestockTimeline from "@/components/RestockTimeline";
+import StockAdjustmentModal from "@/components/StockAdjustmentModal";
+import StockTransferModal from "@/components/StockTransferModal";
+import VariantFormModal from "@/components/VariantFormModal";
+import { useActiveBranch } from "@/hooks/useBranches";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import { useProductRestocks } from "@/hooks/useRestocks";
+import { useProductAdjustments } from "@/hooks/useStockAdjustments";
+import { useVariants } from "@/hooks/useVariants";
+import type { ApiBranchStock, ApiStockTransfer } from "@/src/api/branches";
 import { apiClient } from "@/src/api/client";
 import { Product } from "@/src/api/dummyData/dummyProducts";
 import { PRODUCTS_USER_INVENTORY_ITEM } from "@/src/api/endpoints";
 import { Feather, MaterialIcons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
@@ -15,10 +26,27 @@ import {
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { formatCurrency } from "@/utils/formatters";
+import { getStockByBranch } from "@/utils/branches";
+import {
+    formatCurrency,
+    formatDateLabel,
+    getFormatLocale,
+} from "@/utils/formatters";
+import {
+    getAdjustmentDifference,
+    getAdjustmentReasonLabel,
+    getAdjustmentValue,
+} from "@/utils/stockAdjustments";
+import {
+    formatStockQuantity,
+    getUnitPrice,
+    isCartonProduct,
+    mapPackaging,
+} from "@/utils/units";
+import { getVariantLabel, isVariant, mapVariant } from "@/utils/variants";
 import AddProductFlow from "./AddProductFlow";
 import ProductSummaryView from "./components/ProductSummaryView";
-import { styles } from "./ProductDetails.styles";
+import { createStyles } from "./ProductDetails.styles";
 
 const normalizeEndpoint = (endpoint: string) =>
   endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
@@ -29,7 +57,10 @@ const formatExpiryDate = (dateString: string): string => {
   if (!dateString) return "Not specified";
   const date = new Date(dateString);
   if (isNaN(date.getTime())) return "Not specified";
-  return date.toLocaleDateString("en-US", { month: "short", year: "numeric" });
+  return date.toLocaleDateString(getFormatLocale(), {
+    month: "short",
+    year: "numeric",
+  });
 };
 
 // ─── Delete modal ─────────────────────────────────────────────────────────────
@@ -48,55 +79,63 @@ const DeleteModal: React.FC<DeleteModalProps> = ({
   deleting,
   onCancel,
   onConfirm,
-}) => (
-  <Modal
-    visible={visible}
-    transparent
-    animationType="fade"
-    onRequestClose={onCancel}
-  >
-    <View style={styles.modalOverlay}>
-      <View style={styles.deleteModal}>
-        <View style={styles.deleteModalHeader}>
-          <MaterialIcons name="warning" size={32} color="#FF6B6B" />
-          <Text style={styles.deleteModalTitle}>Delete Product</Text>
-        </View>
-        <Text style={styles.deleteModalMessage}>
-          Are you sure you want to delete "{productName}"? This action cannot be
-          undone.
-        </Text>
-        <View style={styles.deleteModalButtons}>
-          <TouchableOpacity
-            style={styles.cancelButton}
-            onPress={onCancel}
-            disabled={deleting}
-          >
-            <Text style={styles.cancelButtonText}>Cancel</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.deleteButton, deleting && styles.disabledButton]}
-            onPress={onConfirm}
-            disabled={deleting}
-          >
-            {deleting ? (
-              <ActivityIndicator size="small" color="#FFF" />
-            ) : (
-              <>
-                <MaterialIcons name="delete" size={16} color="#FFF" />
-                <Text style={styles.deleteButtonText}>Delete</Text>
-              </>
-            )}
-          </TouchableOpacity>
+}) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onCancel}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.deleteModal}>
+          <View style={styles.deleteModalHeader}>
+            <MaterialIcons name="warning" size={32} color="#FF6B6B" />
+            <Text style={styles.deleteModalTitle}>Delete Product</Text>
+          </View>
+          <Text style={styles.deleteModalMessage}>
+            Are you sure you want to delete "{productName}"? This action cannot
+            be undone.
+          </Text>
+          <View style={styles.deleteModalButtons}>
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={onCancel}
+              disabled={deleting}
+            >
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.deleteButton, deleting && styles.disabledButton]}
+              onPress={onConfirm}
+              disabled={deleting}
+            >
+              {deleting ? (
+                <ActivityIndicator size="small" color="#FFF" />
+              ) : (
+                <>
+                  <MaterialIcons name="delete" size={16} color="#FFF" />
+                  <Text style={styles.deleteButtonText}>Delete</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
         </View>
       </View>
-    </View>
-  </Modal>
-);
+    </Modal>
+  );
+};
 
 // ─── Main screen ──────────────────────────────────────────────────────────────
 
 const ProductDetails: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
+  const { canViewCosts, canTransferStock } = usePermissions();
+  const { branches, activeBranch } = useActiveBranch();
 
   /**
    * BUG 4 (was): useLocalSearchParams<{ productId: string }> returns ALL
@@ -126,6 +165,16 @@ const ProductDetails: React.FC = () => {
   const [deleting, setDeleting] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showVariantModal, setShowVariantModal] = useState(false);
+  const [showAdjustModal, setShowAdjustModal] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [branchStock, setBranchStock] = useState<ApiBranchStock[]>();
+  const { data: restocks = [], isLoading: loadingRestocks } =
+    useProductRestocks(productId);
+  const { data: variants = [], isLoading: loadingVariants } =
+    useVariants(productId);
+  const { data: adjustments = [], isLoading: loadingAdjustments } =
+    useProductAdjustments(productId);
 
   useEffect(() => {
     if (!productId) {
@@ -163,6 +212,8 @@ const ProductDetails: React.FC = () => {
           profitPerUnit: sellingPrice - costPrice,
           costPrice,
           sellingPrice,
+          ...mapPackaging(data),
+          ...mapVariant(data),
           lowStockThreshold: data.low_stock_threshold ?? 0,
           expiryDate: data.expiry_date || "",
           supplier: {
@@ -175,6 +226,7 @@ const ProductDetails: React.FC = () => {
         };
 
         setProduct(mappedProduct);
+        setBranchStock(data.branch_stock);
       } catch (error) {
         console.warn(
           `[ProductDetails] Failed to fetch user inventory item id="${productId}"`,
@@ -208,6 +260,42 @@ const ProductDetails: React.FC = () => {
     }
   };
 
+  const stockByBranch = useMemo(
+    () =>
+      getStockByBranch(
+        branches,
+        branchStock,
+        activeBranch?.id ?? null,
+        product?.unitsInStock ?? 0,
+      ),
+    [branches, branchStock, activeBranch?.id, product?.unitsInStock],
+  );
+
+  const applyTransfer = (transfer: ApiStockTransfer) => {
+    const moved = (branchId: number) =>
+      branchId === transfer.from_branch
+        ? -transfer.quantity
+        : branchId === transfer.to_branch
+          ? transfer.quantity
+          : 0;
+
+    setBranchStock(
+      branches.map((branch) => ({
+        branch: branch.id,
+        branch_name: branch.name,
+        units_in_stock:
+          (stockByBranch.get(branch.id) ?? 0) + moved(branch.id),
+      })),
+    );
+    // The header count is this branch's stock, so follow it if it moved
+    const here = activeBranch ? moved(activeBranch.id) : 0;
+    if (here !== 0) {
+      setProduct((prev) =>
+        prev ? { ...prev, unitsInStock: prev.unitsInStock + here } : prev,
+      );
+    }
+  };
+
   // ─── Loading / error states ────────────────────────────────────────────────
 
   if (loading) {
@@ -231,7 +319,9 @@ const ProductDetails: React.FC = () => {
               : "No product ID was provided"}
           </Text>
           <TouchableOpacity onPress={() => router.back()}>
-            <Text style={{ color: "#1155CC", marginTop: 12 }}>Go back</Text>
+            <Text style={{ color: colors.primary, marginTop: 12 }}>
+              Go back
+            </Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -249,7 +339,7 @@ const ProductDetails: React.FC = () => {
           style={styles.closeButton}
           onPress={() => router.back()}
         >
-          <MaterialIcons name="close" size={24} color="#000" />
+          <MaterialIcons name="close" size={24} color={colors.text} />
         </TouchableOpacity>
       </View>
 
@@ -265,6 +355,14 @@ const ProductDetails: React.FC = () => {
               title: "Product Info",
               rows: [
                 { label: "Name:", value: product.name },
+                ...(isVariant(product)
+                  ? [
+                      {
+                        label: "Variant:",
+                        value: getVariantLabel(product.variantAttributes),
+                      },
+                    ]
+                  : []),
                 { label: "Category:", value: product.category },
                 { label: "Barcode:", value: product.barcode },
               ],
@@ -274,17 +372,40 @@ const ProductDetails: React.FC = () => {
               rows: [
                 {
                   label: "Units in Stock:",
-                  value: String(product.unitsInStock),
+                  value: isCartonProduct(product)
+                    ? formatStockQuantity(
+                        product.unitsInStock,
+                        product.unitsPerCarton,
+                      )
+                    : String(product.unitsInStock),
                 },
                 { label: "Unit Type:", value: product.quantityType },
-                {
-                  label: "Cost Price:",
-                  value: formatCurrency(product.costPrice ?? 0),
-                },
+                ...(canViewCosts
+                  ? [
+                      {
+                        label: "Cost Price:",
+                        value: formatCurrency(product.costPrice ?? 0),
+                      },
+                    ]
+                  : []),
                 {
                   label: "Selling Price:",
                   value: formatCurrency(product.sellingPrice ?? 0),
                 },
+                ...(isCartonProduct(product)
+                  ? [
+                      {
+                        label: "Units per Carton:",
+                        value: String(product.unitsPerCarton),
+                      },
+                      {
+                        label: "Carton Price:",
+                        value: formatCurrency(
+                          getUnitPrice(product, "carton"),
+                        ),
+                      },
+                    ]
+                  : []),
               ],
             },
             {
@@ -309,15 +430,150 @@ const ProductDetails: React.FC = () => {
             },
           ]}
           footer={
-            <TouchableOpacity
-              style={styles.editButton}
-              onPress={() => setShowEditModal(true)}
-            >
-              <Feather name="edit-2" size={18} color="#1155CC" />
-              <Text style={styles.editButtonText}>Edit Product</Text>
-            </TouchableOpacity>
+            // The edit form shows the cost price, so cashiers don't get it
+            canViewCosts ? (
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() => setShowEditModal(true)}
+              >
+                <Feather name="edit-2" size={18} color={colors.primary} />
+                <Text style={styles.editButtonText}>Edit Product</Text>
+              </TouchableOpacity>
+            ) : undefined
           }
         />
+
+        {!isVariant(product) && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Variants</Text>
+              {/* The variant form starts from the parent's cost price */}
+              {canViewCosts && (
+                <TouchableOpacity onPress={() => setShowVariantModal(true)}>
+                  <Text style={styles.sectionLink}>Add variant</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {loadingVariants ? (
+              <ActivityIndicator
+                color={colors.primary}
+                style={{ padding: 12 }}
+              />
+            ) : variants.length === 0 ? (
+              <Text style={styles.sectionEmpty}>
+                Add sizes, colours or flavours that share this product&apos;s
+                name but have their own barcode, price and stock.
+              </Text>
+            ) : (
+              variants.map((variant) => (
+                <TouchableOpacity
+                  key={variant.id}
+                  style={styles.row}
+                  onPress={() =>
+                    router.push({
+                      pathname: "/(Routes)/ProductDetails" as any,
+                      params: { productId: String(variant.id) },
+                    })
+                  }
+                >
+                  <Text style={styles.rowLabel}>
+                    {getVariantLabel(variant.variant_attributes) ||
+                      variant.name}
+                  </Text>
+                  <Text style={styles.rowValue}>
+                    {formatCurrency(variant.selling_price)} ·{" "}
+                    {Number(variant.units_in_stock || 0)} in stock
+                  </Text>
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        )}
+
+        {branches.length > 1 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Branch Stock</Text>
+              {canTransferStock && (
+                <TouchableOpacity onPress={() => setShowTransferModal(true)}>
+                  <Text style={styles.sectionLink}>Transfer</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {branches.map((branch) => (
+              <View key={branch.id} style={styles.row}>
+                <Text style={styles.rowLabel}>
+                  {branch.name}
+                  {branch.id === activeBranch?.id ? " (here)" : ""}
+                </Text>
+                <Text style={styles.rowValue}>
+                  {stockByBranch.get(branch.id) ?? 0} in stock
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Stock Adjustments</Text>
+            <TouchableOpacity onPress={() => setShowAdjustModal(true)}>
+              <Text style={styles.sectionLink}>Adjust stock</Text>
+            </TouchableOpacity>
+          </View>
+          {loadingAdjustments ? (
+            <ActivityIndicator
+              color={colors.primary}
+              style={{ padding: 12 }}
+            />
+          ) : adjustments.length === 0 ? (
+            <Text style={styles.sectionEmpty}>
+              Write off damaged, expired or given-away stock here so it shows
+              up as a loss rather than going missing.
+            </Text>
+          ) : (
+            adjustments.map((adjustment) => {
+              const difference = getAdjustmentDifference(adjustment);
+              return (
+                <View key={adjustment.id} style={styles.row}>
+                  <View>
+                    <Text style={styles.rowLabel}>
+                      {getAdjustmentReasonLabel(adjustment.reason)}
+                      {adjustment.created_at
+                        ? ` · ${formatDateLabel(new Date(adjustment.created_at))}`
+                        : ""}
+                    </Text>
+                    {!!adjustment.notes && (
+                      <Text style={styles.adjustmentNote} numberOfLines={2}>
+                        {adjustment.notes}
+                      </Text>
+                    )}
+                  </View>
+                  <Text
+                    style={[
+                      styles.rowValue,
+                      difference < 0 && styles.adjustmentLoss,
+                    ]}
+                  >
+                    {difference > 0 ? "+" : ""}
+                    {difference}
+                    {canViewCosts &&
+                      ` · ${formatCurrency(
+                        Math.abs(getAdjustmentValue(adjustment)),
+                      )}`}
+                  </Text>
+                </View>
+              );
+            })
+          )}
+        </View>
+
+        {canViewCosts && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Restock History</Text>
+            <RestockTimeline restocks={restocks} loading={loadingRestocks} />
+          </View>
+        )}
       </ScrollView>
 
       <DeleteModal
@@ -328,6 +584,38 @@ const ProductDetails: React.FC = () => {
         onConfirm={handleDeleteProduct}
       />
 
+      <VariantFormModal
+        visible={showVariantModal}
+        parent={product}
+        onClose={() => setShowVariantModal(false)}
+        onSaved={() => Alert.alert("Success", "Variant added!")}
+      />
+
+      <StockAdjustmentModal
+        visible={showAdjustModal}
+        product={product}
+        onClose={() => setShowAdjustModal(false)}
+        onSaved={(_adjustment, newQuantity) => {
+          setProduct((prev) =>
+            prev ? { ...prev, unitsInStock: newQuantity } : prev,
+          );
+          Alert.alert("Success", "Stock adjusted!");
+        }}
+      />
+
+      <StockTransferModal
+        visible={showTransferModal}
+        product={product}
+        stockByBranch={stockByBranch}
+        branches={branches}
+        defaultFromId={activeBranch?.id}
+        onClose={() => setShowTransferModal(false)}
+        onSaved={(transfer) => {
+          applyTransfer(transfer);
+          Alert.alert("Success", "Stock transferred!");
+        }}
+      />
+
       <AddProductFlow
         visible={showEditModal}
         onClose={() => setShowEditModal(false)}
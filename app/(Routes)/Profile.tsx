@@ -19,8 +19,13 @@ import {
     TouchableOpacity,
     View,
 } from "react-native";
+import { CURRENCIES, LOCALES } from "@/constants/currencies";
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
+import useLocaleStore from "@/stores/localeStore";
 
 const Profile = () => {
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const queryClient = useQueryClient();
   const [profileImage, setProfileImage] = useState(""); // remote URL from backend
@@ -28,6 +33,11 @@ const Profile = () => {
   const [businessName, setBusinessName] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [businessType, setBusinessType] = useState("");
+  const setFormat = useLocaleStore((state) => state.setFormat);
+  const [currency, setCurrency] = useState(
+    () => useLocaleStore.getState().currency,
+  );
+  const [locale, setLocale] = useState(() => useLocaleStore.getState().locale);
   const [hasInitializedForm, setHasInitializedForm] = useState(false);
 
   // Holds the picked image asset until Save is pressed
@@ -48,6 +58,8 @@ const Profile = () => {
     setPhoneNumber(profile.phone || "");
     setBusinessType(profile.business_type || "");
     setProfileImage(profile.profile_image || "");
+    if (profile.currency) setCurrency(profile.currency);
+    if (profile.locale) setLocale(profile.locale);
     setHasInitializedForm(true);
   }, [profile, hasInitializedForm]);
 
@@ -71,12 +83,24 @@ const Profile = () => {
           name,
           business_name: name,
           business_type: type || undefined,
+          currency,
+          locale,
         },
         image,
       ),
     onSuccess: (updated) => {
+      const formatChanged =
+        currency !== useLocaleStore.getState().currency ||
+        locale !== useLocaleStore.getState().locale;
+      setFormat({
+        currency: updated.currency || currency,
+        locale: updated.locale || locale,
+      });
       queryClient.setQueryData(["profile"], updated);
-      queryClient.invalidateQueries({ queryKey: ["profile"] });
+      // Amounts and dates are formatted at render time, so refetching
+      // everything redraws open screens in the new currency
+      if (formatChanged) queryClient.invalidateQueries();
+      else queryClient.invalidateQueries({ queryKey: ["profile"] });
 
       setBusinessName(updated.name || updated.business_name || "");
       setPhoneNumber(updated.phone || "");
@@ -270,6 +294,61 @@ const Profile = () => {
           </View>
         )}
 
+        {/* Currency */}
+        <View style={styles.formSection}>
+          <Text style={styles.label}>Currency</Text>
+          <View style={styles.chips}>
+            {CURRENCIES.map((option) => (
+              <TouchableOpacity
+                key={option.code}
+                style={[
+                  styles.chip,
+                  currency === option.code && styles.chipActive,
+                ]}
+                onPress={() => setCurrency(option.code)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    currency === option.code && styles.chipTextActive,
+                  ]}
+                >
+                  {option.code} ({option.symbol.trim()})
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Number and date format */}
+        <View style={styles.formSection}>
+          <Text style={styles.label}>Number & date format</Text>
+          <View style={styles.chips}>
+            {LOCALES.map((option) => (
+              <TouchableOpacity
+                key={option.code}
+                style={[
+                  styles.chip,
+                  locale === option.code && styles.chipActive,
+                ]}
+                onPress={() => setLocale(option.code)}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    locale === option.code && styles.chipTextActive,
+                  ]}
+                >
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.helpText}>
+            Used for prices, receipts, reports and notifications
+          </Text>
+        </View>
+
         {/* Save Button */}
         <TouchableOpacity
           style={[styles.saveButton, loading && styles.disabled]}
@@ -287,94 +366,117 @@ const Profile = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: { flex: 1, backgroundColor: "#F4F7FC" },
-  scrollContent: { paddingBottom: 40 },
-  header: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingHorizontal: 20,
-    paddingTop: 20,
-    paddingBottom: 16,
-    backgroundColor: "#F4F7FC",
-    marginBottom: 20,
-  },
-  backButton: { marginRight: 10, padding: 5 },
-  headerTitle: {
-    fontSize: 20,
-    color: "#111827",
-    fontFamily: "DMSans_700Bold",
-  },
-  profileSection: { alignItems: "center", marginBottom: 30 },
-  profileImageContainer: {
-    width: 150,
-    height: 150,
-    borderRadius: 75,
-    backgroundColor: "#E0E0E0",
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  profileImage: { width: 150, height: 150, borderRadius: 75 },
-  cameraIconContainer: {
-    position: "absolute",
-    bottom: 0,
-    right: 0,
-    backgroundColor: "#1155CC",
-    padding: 10,
-    borderRadius: 20,
-    borderWidth: 2,
-    borderColor: "#F4F7FC",
-  },
-  imageTip: {
-    marginTop: 10,
-    fontSize: 14,
-    color: "#6B7280",
-    fontFamily: "DMSans_400Regular",
-  },
-  formSection: { paddingHorizontal: 20, marginBottom: 20 },
-  label: {
-    fontSize: 16,
-    color: "#111827",
-    marginBottom: 8,
-    fontFamily: "DMSans_700Bold",
-  },
-  input: {
-    backgroundColor: "#FFFFFF",
-    borderRadius: 12,
-    paddingHorizontal: 16,
-    paddingVertical: 14,
-    fontSize: 16,
-    color: "#111827",
-    borderWidth: 1,
-    borderColor: "#E5E7EB",
-    fontFamily: "DMSans_400Regular",
-  },
-  readOnlyInput: {
-    backgroundColor: "#F9FAFB",
-    color: "#6B7280",
-  },
-  helpText: {
-    fontSize: 12,
-    color: "#6B7280",
-    marginTop: 4,
-    fontFamily: "DMSans_400Regular",
-  },
-  saveButton: {
-    backgroundColor: "#1155CC",
-    marginHorizontal: 20,
-    borderRadius: 12,
-    paddingVertical: 16,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  saveButtonText: {
-    fontSize: 18,
-    color: "#FFFFFF",
-    fontFamily: "DMSans_700Bold",
-  },
-  disabled: {
-    opacity: 0.6,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: { flex: 1, backgroundColor: "#F4F7FC" },
+    scrollContent: { paddingBottom: 40 },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 16,
+      backgroundColor: colors.surfaceMuted,
+      marginBottom: 20,
+    },
+    backButton: { marginRight: 10, padding: 5 },
+    headerTitle: {
+      fontSize: 20,
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    profileSection: { alignItems: "center", marginBottom: 30 },
+    profileImageContainer: {
+      width: 150,
+      height: 150,
+      borderRadius: 75,
+      backgroundColor: colors.surfaceMuted,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    profileImage: { width: 150, height: 150, borderRadius: 75 },
+    cameraIconContainer: {
+      position: "absolute",
+      bottom: 0,
+      right: 0,
+      backgroundColor: colors.primary,
+      padding: 10,
+      borderRadius: 20,
+      borderWidth: 2,
+      borderColor: colors.border,
+    },
+    imageTip: {
+      marginTop: 10,
+      fontSize: 14,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    formSection: { paddingHorizontal: 20, marginBottom: 20 },
+    label: {
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: 8,
+      fontFamily: "DMSans_700Bold",
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 14,
+      fontSize: 16,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      fontFamily: "DMSans_400Regular",
+    },
+    readOnlyInput: {
+      backgroundColor: colors.surfaceMuted,
+      color: colors.textSecondary,
+    },
+    helpText: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 4,
+      fontFamily: "DMSans_400Regular",
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      marginHorizontal: 20,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    saveButtonText: {
+      fontSize: 18,
+      color: colors.onPrimary,
+      fontFamily: "DMSans_700Bold",
+    },
+    disabled: {
+      opacity: 0.6,
+    },
+  });
 
 export default Profile;
@@ -0,0 +1,497 @@
+// app/(Routes)/PurchaseOrderScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useQuery } from "@tanstack/react-query";
+import * as Print from "expo-print";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import * as Sharing from "expo-sharing";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    Linking,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useAllInventory, useSuppliers } from "@/hooks/useSuppliers";
+import { getProfile } from "@/src/api";
+import { getWhatsAppUrl } from "@/utils/debtors";
+import { formatCurrency } from "@/utils/formatters";
+import {
+    getOrderTotal,
+    getPurchaseOrderReference,
+    getSupplierItems,
+    isLowStock,
+    renderPurchaseOrderHtml,
+    renderPurchaseOrderText,
+    toOrderLine,
+    type PurchaseOrder,
+    type PurchaseOrderLine,
+} from "@/utils/suppliers";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const PurchaseOrderScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const { data: suppliers = [], isLoading: loadingSuppliers } = useSuppliers();
+  const { data: inventory = [], isLoading: loadingInventory } =
+    useAllInventory();
+  const { data: profile } = useQuery({
+    queryKey: ["profile"],
+    queryFn: getProfile,
+  });
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [notes, setNotes] = useState("");
+  const [prefilled, setPrefilled] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const supplier = suppliers.find((s) => String(s.id) === params.id);
+  const supplierItems = useMemo(
+    () => (supplier ? getSupplierItems(supplier, inventory) : []),
+    [supplier, inventory],
+  );
+
+  // Start the order with everything from this supplier that's running low
+  useEffect(() => {
+    if (prefilled || !supplier || loadingInventory) return;
+    setLines(supplierItems.filter(isLowStock).map((item) => toOrderLine(item)));
+    setPrefilled(true);
+  }, [prefilled, supplier, supplierItems, loadingInventory]);
+
+  const availableItems = supplierItems.filter(
+    (item) => !lines.some((line) => line.inventoryId === item.id),
+  );
+
+  const updateQuantity = (inventoryId: number, text: string) => {
+    const quantity = Math.max(parseInt(text.replace(/\D/g, ""), 10) || 0, 0);
+    setLines((prev) =>
+      prev.map((line) =>
+        line.inventoryId === inventoryId ? { ...line, quantity } : line,
+      ),
+    );
+  };
+
+  const removeLine = (inventoryId: number) =>
+    setLines((prev) => prev.filter((line) => line.inventoryId !== inventoryId));
+
+  const buildOrder = (): PurchaseOrder | null => {
+    if (!supplier) return null;
+    const orderLines = lines.filter((line) => line.quantity > 0);
+    if (orderLines.length === 0) {
+      Alert.alert("Error", "Add at least one item with a quantity");
+      return null;
+    }
+    return {
+      reference: getPurchaseOrderReference(),
+      date: new Date(),
+      businessName:
+        profile?.business_name?.trim() || profile?.name?.trim() || "Inventra",
+      businessPhone: profile?.phone || undefined,
+      supplier,
+      lines: orderLines,
+      notes: notes.trim() || undefined,
+    };
+  };
+
+  const handleSharePdf = async () => {
+    const order = buildOrder();
+    if (!order || exporting) return;
+    try {
+      setExporting(true);
+      const { uri } = await Print.printToFileAsync({
+        html: renderPurchaseOrderHtml(order),
+      });
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: "application/pdf",
+          dialogTitle: `Purchase order ${order.reference}`,
+          UTI: "com.adobe.pdf",
+        });
+      } else {
+        Alert.alert("Success", "Purchase order generated successfully!");
+      }
+    } catch {
+      Alert.alert("Error", "Failed to generate purchase order.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleWhatsApp = () => {
+    const order = buildOrder();
+    if (!order) return;
+    if (!supplier?.phone) {
+      Alert.alert("No phone number", "Add a phone number for this supplier.");
+      return;
+    }
+    Linking.openURL(
+      getWhatsAppUrl(supplier.phone, renderPurchaseOrderText(order)),
+    ).catch(() => Alert.alert("Error", "Unable to open WhatsApp."));
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerTitle} numberOfLines={1}>
+        Purchase order
+      </Text>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={styles.backButton}
+        activeOpacity={0.8}
+      >
+        <Feather name="arrow-left" size={22} color={colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (loadingSuppliers || loadingInventory || !supplier) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centerContainer}>
+          {loadingSuppliers || loadingInventory ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <Text style={styles.emptyText}>Supplier not found.</Text>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader()}
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.subtitle}>To {supplier.name}</Text>
+
+        <View style={styles.listCard}>
+          {lines.length === 0 ? (
+            <Text style={styles.emptyRow}>
+              Nothing from this supplier is low on stock. Add items below.
+            </Text>
+          ) : (
+            lines.map((line, index) => (
+              <View
+                key={line.inventoryId}
+                style={[
+                  styles.lineRow,
+                  index === lines.length - 1 && styles.lineRowLast,
+                ]}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.lineName} numberOfLines={1}>
+                    {line.name}
+                  </Text>
+                  <Text style={styles.lineMeta}>
+                    {line.inStock} in stock · {formatCurrency(line.unitCost)}{" "}
+                    each
+                  </Text>
+                </View>
+                <TextInput
+                  style={styles.quantityInput}
+                  value={String(line.quantity)}
+                  onChangeText={(text) =>
+                    updateQuantity(line.inventoryId, text)
+                  }
+                  keyboardType="number-pad"
+                  selectTextOnFocus
+                />
+                <TouchableOpacity
+                  onPress={() => removeLine(line.inventoryId)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Feather name="x" size={18} color="#8E8E93" />
+                </TouchableOpacity>
+              </View>
+            ))
+          )}
+        </View>
+
+        {availableItems.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Add from this supplier</Text>
+            <View style={styles.chips}>
+              {availableItems.map((item) => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={styles.chip}
+                  onPress={() =>
+                    setLines((prev) => [...prev, toOrderLine(item)])
+                  }
+                >
+                  <Feather name="plus" size={14} color={colors.primary} />
+                  <Text style={styles.chipText} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Notes (optional)</Text>
+        <TextInput
+          style={styles.notesInput}
+          placeholder="Delivery date, payment terms…"
+          placeholderTextColor={colors.textMuted}
+          value={notes}
+          onChangeText={setNotes}
+          multiline
+        />
+
+        <View style={styles.totalCard}>
+          <Text style={styles.totalLabel}>Estimated total</Text>
+          <Text style={styles.totalValue}>
+            {formatCurrency(getOrderTotal(lines))}
+          </Text>
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.footerButton, styles.pdfButton]}
+          onPress={handleSharePdf}
+          disabled={exporting}
+          activeOpacity={0.85}
+        >
+          {exporting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Text style={styles.footerButtonText}>Share PDF</Text>
+              <Feather name="file-text" size={18} color="#fff" />
+            </>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.footerButton, styles.whatsAppButton]}
+          onPress={handleWhatsApp}
+          activeOpacity={0.85}
+        >
+          <Text style={styles.footerButtonText}>WhatsApp</Text>
+          <Feather name="send" size={18} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      gap: scale(12),
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyText: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    scrollContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(120),
+    },
+    subtitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginBottom: verticalScale(12),
+    },
+
+    // ── Lines ───────────────────────────────────────────────────────────────
+    listCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      paddingHorizontal: scale(14),
+    },
+    emptyRow: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      paddingVertical: verticalScale(14),
+    },
+    lineRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(10),
+      paddingVertical: verticalScale(12),
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    lineRowLast: {
+      borderBottomWidth: 0,
+    },
+    lineName: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    lineMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    quantityInput: {
+      width: scale(64),
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: moderateScale(8),
+      paddingVertical: verticalScale(8),
+      textAlign: "center",
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    sectionTitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(20),
+      marginBottom: verticalScale(10),
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: scale(8),
+    },
+    chip: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(4),
+      maxWidth: "100%",
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(20),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(12),
+    },
+    chipText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.primary,
+    },
+    notesInput: {
+      minHeight: verticalScale(70),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(14),
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      textAlignVertical: "top",
+    },
+    totalCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(18),
+      paddingHorizontal: scale(18),
+      marginTop: verticalScale(16),
+    },
+    totalLabel: {
+      flex: 1,
+      fontSize: moderateScale(17),
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    totalValue: {
+      fontSize: moderateScale(20),
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+
+    // ── Footer buttons ──────────────────────────────────────────────────────
+    footer: {
+      position: "absolute",
+      left: 0,
+      right: 0,
+      bottom: 0,
+      flexDirection: "row",
+      gap: scale(12),
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(12),
+      paddingBottom: verticalScale(24),
+      backgroundColor: colors.background,
+    },
+    footerButton: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: scale(8),
+      paddingVertical: verticalScale(18),
+      borderRadius: moderateScale(14),
+    },
+    pdfButton: {
+      backgroundColor: "#0A1F44",
+    },
+    whatsAppButton: {
+      backgroundColor: "#25D366",
+    },
+    footerButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_500Medium",
+    },
+  });
+
+export default PurchaseOrderScreen;
@@ -1,8 +1,14 @@
 // screens/QuickSellScreen.tsx
-import { createSale, listProducts } from "@/src/api";
+import PendingSyncBadge from "@/components/PendingSyncBadge";
+import {
+  productStockKey,
+  submitSale,
+  usePendingStockDeductions,
+} from "@/hooks/useSalesOutbox";
+import { listProducts } from "@/src/api";
 import { Feather, Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   Alert,
   FlatList,
@@ -21,6 +27,9 @@ import {
   checkLowStock,
   notifySaleCompleted,
 } from "../../utils/notificationHelpers";
+import type { ThemeColors } from "@/constants/theme";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 interface Product {
   id: string;
@@ -42,9 +51,12 @@ interface CartItem extends Product {
 }
 
 const QuickSellScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
+  const { canViewProfit } = usePermissions();
   const [searchQuery, setSearchQuery] = useState("");
-  const [products, setProducts] = useState<Product[]>([]);
+  const [loadedProducts, setLoadedProducts] = useState<Product[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [showProductList, setShowProductList] = useState(false);
@@ -67,8 +79,7 @@ const QuickSellScreen = () => {
           barcode: p.barcode || p.code || "",
         }));
 
-        setProducts(fetchedProducts);
-        setFilteredProducts(fetchedProducts);
+        setLoadedProducts(fetchedProducts);
       } catch (error) {
         console.error("Error fetching products:", error);
       }
@@ -77,6 +88,20 @@ const QuickSellScreen = () => {
     fetchProducts();
   }, []);
 
+  // Hold back stock already sold in sales still waiting to sync
+  const pendingDeductions = usePendingStockDeductions();
+  const products = useMemo(
+    () =>
+      loadedProducts.map((p) => ({
+        ...p,
+        unitsInStock: Math.max(
+          0,
+          p.unitsInStock - (pendingDeductions[productStockKey(p.id)] ?? 0),
+        ),
+      })),
+    [loadedProducts, pendingDeductions],
+  );
+
   // Filter products based on search
   useEffect(() => {
     if (searchQuery.trim() === "") {
@@ -189,14 +214,28 @@ const QuickSellScreen = () => {
         totalProfit += profit;
       }
 
-      await createSale({
-        payment_method: "cash",
-        amount_paid: String(totalAmount),
-        items: cartItems.map((item) => ({
-          product: Number(item.id),
-          quantity: item.quantity,
-        })),
-      });
+      const result = await submitSale(
+        {
+          payment_method: "cash",
+          amount_paid: String(totalAmount),
+          items: cartItems.map((item) => ({
+            product: Number(item.id),
+            quantity: item.quantity,
+          })),
+        },
+        totalAmount,
+      );
+
+      if (result.status === "queued") {
+        setCartItems([]);
+        setIsProcessing(false);
+        Alert.alert(
+          "Saved offline",
+          `No connection right now. This sale of ${formatCurrency(totalAmount)} is saved on this device and will sync automatically.`,
+          [{ text: "OK", onPress: () => router.back() }],
+        );
+        return;
+      }
 
       for (const item of cartItems) {
         const updatedStock = Math.max(0, item.unitsInStock - item.quantity);
@@ -218,7 +257,8 @@ const QuickSellScreen = () => {
 
       Alert.alert(
         "Success! x}0",
-        `Sale completed!\nTotal: ${formatCurrency(totalAmount)}\nProfit: ${formatCurrency(totalProfit)}`,
+        `Sale completed!\nTotal: ${formatCurrency(totalAmount)}` +
+          (canViewProfit ? `\nProfit: ${formatCurrency(totalProfit)}` : ""),
         [
           {
             text: "OK",
@@ -254,21 +294,21 @@ const QuickSellScreen = () => {
           style={styles.quantityButton}
           onPress={() => updateQuantity(item.id, item.quantity - 1)}
         >
-          <Feather name="minus" size={18} color="#666" />
+          <Feather name="minus" size={18} color={colors.textSecondary} />
         </TouchableOpacity>
         <Text style={styles.quantityText}>{item.quantity}</Text>
         <TouchableOpacity
           style={styles.quantityButton}
           onPress={() => updateQuantity(item.id, item.quantity + 1)}
         >
-          <Feather name="plus" size={18} color="#666" />
+          <Feather name="plus" size={18} color={colors.textSecondary} />
         </TouchableOpacity>
       </View>
       <TouchableOpacity
         style={styles.removeButton}
         onPress={() => removeFromCart(item.id)}
       >
-        <Feather name="trash-2" size={20} color="#EF4444" />
+        <Feather name="trash-2" size={20} color={colors.danger} />
       </TouchableOpacity>
     </View>
   );
@@ -302,26 +342,28 @@ const QuickSellScreen = () => {
           onPress={() => router.back()}
           style={styles.backButton}
         >
-          <Ionicons name="arrow-back" size={24} color="#111827" />
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Quick Sell</Text>
-        <View style={{ width: 40 }} />
+        <View style={styles.headerRight}>
+          <PendingSyncBadge />
+        </View>
       </View>
 
       <ScrollView showsVerticalScrollIndicator={false}>
         {/* Search Bar */}
         <View style={styles.searchContainer}>
-          <Feather name="search" size={20} color="#9CA3AF" />
+          <Feather name="search" size={20} color={colors.textMuted} />
           <TextInput
             style={styles.searchInput}
             placeholder="Search products..."
             value={searchQuery}
             onChangeText={setSearchQuery}
-            placeholderTextColor="#9CA3AF"
+            placeholderTextColor={colors.textMuted}
           />
           {searchQuery.length > 0 && (
             <TouchableOpacity onPress={() => setSearchQuery("")}>
-              <Feather name="x" size={20} color="#9CA3AF" />
+              <Feather name="x" size={20} color={colors.textMuted} />
             </TouchableOpacity>
           )}
         </View>
@@ -350,7 +392,7 @@ const QuickSellScreen = () => {
 
           {cartItems.length === 0 ? (
             <View style={styles.emptyCart}>
-              <Feather name="shopping-cart" size={60} color="#E0E0E0" />
+              <Feather name="shopping-cart" size={60} color={colors.border} />
               <Text style={styles.emptyCartText}>Your cart is empty</Text>
               <Text style={styles.emptyCartSubtext}>
                 Search and add products to sell
@@ -376,12 +418,14 @@ const QuickSellScreen = () => {
               {formatCurrency(calculateTotal())}
             </Text>
           </View>
-          <View style={styles.summaryRow}>
-            <Text style={styles.summaryLabel}>Profit</Text>
-            <Text style={[styles.summaryValue, styles.profitText]}>
-              {formatCurrency(calculateProfit())}
-            </Text>
-          </View>
+          {canViewProfit && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Profit</Text>
+              <Text style={[styles.summaryValue, styles.profitText]}>
+                {formatCurrency(calculateProfit())}
+              </Text>
+            </View>
+          )}
           <View style={styles.divider} />
           <View style={styles.summaryRow}>
             <Text style={styles.totalLabel}>Total</Text>
@@ -400,7 +444,11 @@ const QuickSellScreen = () => {
             <Text style={styles.completeButtonText}>
               {isProcessing ? "Processing..." : "Complete Sale"}
             </Text>
-            <Ionicons name="checkmark-circle" size={24} color="#fff" />
+            <Ionicons
+              name="checkmark-circle"
+              size={24}
+              color={colors.onPrimary}
+            />
           </TouchableOpacity>
         </View>
       )}
@@ -408,244 +456,249 @@ const QuickSellScreen = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#E7EEFA",
-    paddingTop: 10,
-  },
-  header: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    paddingHorizontal: 20,
-    paddingVertical: 16,
-  },
-  backButton: {
-    padding: 8,
-  },
-  headerTitle: {
-    fontSize: 24,
-    color: "#111827",
-    fontFamily: "DMSans_700Bold",
-  },
-  searchContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "#fff",
-    marginHorizontal: 20,
-    marginTop: 10,
-    marginBottom: 16,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderRadius: 12,
-  },
-  searchInput: {
-    flex: 1,
-    marginLeft: 12,
-    fontSize: 16,
-    color: "#111827",
-    fontFamily: "DMSans_400Regular",
-  },
-  productListContainer: {
-    backgroundColor: "#fff",
-    marginHorizontal: 20,
-    marginBottom: 16,
-    borderRadius: 12,
-    maxHeight: 300,
-    elevation: 2,
-  },
-  productItem: {
-    flexDirection: "row",
-    alignItems: "center",
-    padding: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: "#F3F4F6",
-  },
-  productImage: {
-    width: 50,
-    height: 50,
-    borderRadius: 8,
-    backgroundColor: "#F3F4F6",
-  },
-  productInfo: {
-    flex: 1,
-    marginLeft: 12,
-  },
-  productName: {
-    fontSize: 15,
-    color: "#111827",
-    fontFamily: "DMSans_400Regular",
-  },
-  productStock: {
-    fontSize: 13,
-    color: "#6B7280",
-    marginTop: 2,
-    fontFamily: "DMSans_400Regular",
-  },
-  productPrice: {
-    fontSize: 15,
-    color: "#1155CC",
-    fontFamily: "DMSans_400Regular",
-  },
-  cartContainer: {
-    backgroundColor: "#fff",
-    marginHorizontal: 20,
-    marginBottom: 20,
-    borderRadius: 12,
-    padding: 16,
-    elevation: 2,
-  },
-  cartHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: 16,
-  },
-  cartTitle: {
-    fontSize: 18,
-    color: "#111827",
-    fontFamily: "DMSans_700Bold",
-  },
-  cartCount: {
-    fontSize: 14,
-    color: "#6B7280",
-    fontFamily: "DMSans_400Regular",
-  },
-  emptyCart: {
-    alignItems: "center",
-    paddingVertical: 40,
-  },
-  emptyCartText: {
-    fontSize: 16,
-    color: "#6B7280",
-    marginTop: 16,
-    fontFamily: "DMSans_400Regular",
-  },
-  emptyCartSubtext: {
-    fontSize: 14,
-    color: "#9CA3AF",
-    marginTop: 4,
-    fontFamily: "DMSans_400Regular",
-  },
-  cartItem: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: "#F3F4F6",
-  },
-  cartItemImage: {
-    width: 60,
-    height: 60,
-    borderRadius: 8,
-    backgroundColor: "#F3F4F6",
-  },
-  cartItemInfo: {
-    flex: 1,
-    marginLeft: 12,
-  },
-  cartItemName: {
-    fontSize: 15,
-    color: "#111827",
-    fontFamily: "DMSans_400Regular",
-  },
-  cartItemPrice: {
-    fontSize: 14,
-    color: "#6B7280",
-    marginTop: 4,
-    fontFamily: "DMSans_400Regular",
-  },
-  quantityControls: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "#F3F4F6",
-    borderRadius: 8,
-    padding: 4,
-    marginRight: 12,
-  },
-  quantityButton: {
-    padding: 6,
-  },
-  quantityText: {
-    fontSize: 16,
-    color: "#111827",
-    marginHorizontal: 12,
-    fontFamily: "DMSans_400Regular",
-    minWidth: 24,
-    textAlign: "center",
-  },
-  removeButton: {
-    padding: 8,
-  },
-  emptyText: {
-    textAlign: "center",
-    padding: 20,
-    color: "#9CA3AF",
-    fontFamily: "DMSans_400Regular",
-  },
-  bottomContainer: {
-    backgroundColor: "#fff",
-    padding: 20,
-    borderTopLeftRadius: 24,
-    borderTopRightRadius: 24,
-    elevation: 8,
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: -2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 8,
-  },
-  summaryRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    marginBottom: 12,
-  },
-  summaryLabel: {
-    fontSize: 15,
-    color: "#6B7280",
-    fontFamily: "DMSans_400Regular",
-  },
-  summaryValue: {
-    fontSize: 15,
-    color: "#111827",
-    fontFamily: "DMSans_400Regular",
-  },
-  profitText: {
-    color: "#10B981",
-  },
-  divider: {
-    height: 1,
-    backgroundColor: "#E5E7EB",
-    marginVertical: 12,
-  },
-  totalLabel: {
-    fontSize: 18,
-    color: "#111827",
-    fontFamily: "DMSans_700Bold",
-  },
-  totalValue: {
-    fontSize: 22,
-    color: "#1155CC",
-    fontFamily: "DMSans_700Bold",
-  },
-  completeButton: {
-    backgroundColor: "#1155CC",
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    paddingVertical: 16,
-    borderRadius: 12,
-    marginTop: 16,
-    gap: 8,
-  },
-  completeButtonDisabled: {
-    backgroundColor: "#9CA3AF",
-  },
-  completeButtonText: {
-    color: "#fff",
-    fontSize: 18,
-    fontFamily: "DMSans_700Bold",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+      paddingTop: 10,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: 20,
+      paddingVertical: 16,
+    },
+    backButton: {
+      padding: 8,
+    },
+    headerTitle: {
+      fontSize: 24,
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    headerRight: {
+      minWidth: 40,
+      alignItems: "flex-end",
+    },
+    searchContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surface,
+      marginHorizontal: 20,
+      marginTop: 10,
+      marginBottom: 16,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderRadius: 12,
+    },
+    searchInput: {
+      flex: 1,
+      marginLeft: 12,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+    productListContainer: {
+      backgroundColor: colors.surface,
+      marginHorizontal: 20,
+      marginBottom: 16,
+      borderRadius: 12,
+      maxHeight: 300,
+      elevation: 2,
+    },
+    productItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      padding: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    productImage: {
+      width: 50,
+      height: 50,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceMuted,
+    },
+    productInfo: {
+      flex: 1,
+      marginLeft: 12,
+    },
+    productName: {
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+    productStock: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 2,
+      fontFamily: "DMSans_400Regular",
+    },
+    productPrice: {
+      fontSize: 15,
+      color: colors.primary,
+      fontFamily: "DMSans_400Regular",
+    },
+    cartContainer: {
+      backgroundColor: colors.surface,
+      marginHorizontal: 20,
+      marginBottom: 20,
+      borderRadius: 12,
+      padding: 16,
+      elevation: 2,
+    },
+    cartHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 16,
+    },
+    cartTitle: {
+      fontSize: 18,
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    cartCount: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    emptyCart: {
+      alignItems: "center",
+      paddingVertical: 40,
+    },
+    emptyCartText: {
+      fontSize: 16,
+      color: colors.textSecondary,
+      marginTop: 16,
+      fontFamily: "DMSans_400Regular",
+    },
+    emptyCartSubtext: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginTop: 4,
+      fontFamily: "DMSans_400Regular",
+    },
+    cartItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    cartItemImage: {
+      width: 60,
+      height: 60,
+      borderRadius: 8,
+      backgroundColor: colors.surfaceMuted,
+    },
+    cartItemInfo: {
+      flex: 1,
+      marginLeft: 12,
+    },
+    cartItemName: {
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+    cartItemPrice: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginTop: 4,
+      fontFamily: "DMSans_400Regular",
+    },
+    quantityControls: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 4,
+      marginRight: 12,
+    },
+    quantityButton: {
+      padding: 6,
+    },
+    quantityText: {
+      fontSize: 16,
+      color: colors.text,
+      marginHorizontal: 12,
+      fontFamily: "DMSans_400Regular",
+      minWidth: 24,
+      textAlign: "center",
+    },
+    removeButton: {
+      padding: 8,
+    },
+    emptyText: {
+      textAlign: "center",
+      padding: 20,
+      color: colors.textMuted,
+      fontFamily: "DMSans_400Regular",
+    },
+    bottomContainer: {
+      backgroundColor: colors.surface,
+      padding: 20,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      elevation: 8,
+      shadowColor: "#000",
+      shadowOffset: { width: 0, height: -2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 8,
+    },
+    summaryRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      marginBottom: 12,
+    },
+    summaryLabel: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    summaryValue: {
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+    profitText: {
+      color: colors.success,
+    },
+    divider: {
+      height: 1,
+      backgroundColor: colors.surfaceMuted,
+      marginVertical: 12,
+    },
+    totalLabel: {
+      fontSize: 18,
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    totalValue: {
+      fontSize: 22,
+      color: colors.primary,
+      fontFamily: "DMSans_700Bold",
+    },
+    completeButton: {
+      backgroundColor: colors.primary,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      paddingVertical: 16,
+      borderRadius: 12,
+      marginTop: 16,
+      gap: 8,
+    },
+    completeButtonDisabled: {
+      backgroundColor: colors.surfaceMuted,
+    },
+    completeButtonText: {
+      color: colors.onPrimary,
+      fontSize: 18,
+      fontFamily: "DMSans_700Bold",
+    },
+  });
 
 export default QuickSellScreen;
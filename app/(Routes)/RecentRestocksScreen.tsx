@@ -0,0 +1,267 @@
+// app/(Routes)/RecentRestocksScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useMemo } from "react";
+import {
+    ActivityIndicator,
+    Dimensions,
+    FlatList,
+    RefreshControl,
+    SafeAreaView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useRecentRestocks } from "@/hooks/useRestocks";
+import type { ApiRestock } from "@/src/api/products";
+import {
+    formatCurrency,
+    formatDateLabel,
+    formatNumber,
+} from "@/utils/formatters";
+import {
+    getRestockDate,
+    getRestockSupplierName,
+    sortRestocksNewestFirst,
+} from "@/utils/restocks";
+import { getRestockCost } from "@/utils/suppliers";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const RecentRestocksScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const {
+    data: restocks = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useRecentRestocks();
+
+  const rows = useMemo(() => sortRestocksNewestFirst(restocks), [restocks]);
+
+  const openProduct = (restock: ApiRestock) => {
+    if (restock.inventory == null) return;
+    router.push({
+      pathname: "/(Routes)/ProductDetails",
+      params: { productId: String(restock.inventory) },
+    });
+  };
+
+  const renderRestock = ({ item }: { item: ApiRestock }) => {
+    const date = getRestockDate(item);
+    const supplier = getRestockSupplierName(item);
+
+    return (
+      <TouchableOpacity
+        style={styles.restockCard}
+        activeOpacity={0.7}
+        onPress={() => openProduct(item)}
+        disabled={item.inventory == null}
+      >
+        <View style={styles.avatar}>
+          <Feather name="package" size={18} color={colors.primary} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.productName} numberOfLines={1}>
+            {item.product_name || "Product"}
+          </Text>
+          <Text style={styles.restockMeta} numberOfLines={1}>
+            {date ? formatDateLabel(date) : "Unknown date"}
+            {supplier ? ` · ${supplier}` : ""}
+          </Text>
+          {!!item.notes && (
+            <Text style={styles.restockNotes} numberOfLines={1}>
+              {item.notes}
+            </Text>
+          )}
+        </View>
+        <View style={styles.restockRight}>
+          <Text style={styles.quantityText}>
+            +{formatNumber(item.quantity_added)}
+          </Text>
+          <Text style={styles.costText}>
+            @ {formatCurrency(item.buying_price, 0)}
+          </Text>
+          <Text style={styles.totalText}>
+            {formatCurrency(getRestockCost(item), 0)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Recent Restocks</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={rows}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderRestock}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="package" size={48} color="#C0C0C0" />
+              <Text style={styles.emptyTitle}>No restocks yet</Text>
+              <Text style={styles.emptyText}>
+                Deliveries you record with Restock Now will appear here.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+      paddingHorizontal: scale(20),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── List ────────────────────────────────────────────────────────────────
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(40),
+      gap: verticalScale(10),
+    },
+    restockCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    avatar: {
+      width: scale(42),
+      height: scale(42),
+      borderRadius: scale(21),
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    productName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    restockMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    restockNotes: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      fontStyle: "italic",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    restockRight: {
+      alignItems: "flex-end",
+    },
+    quantityText: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_700Bold",
+      color: "#27AE60",
+    },
+    costText: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    totalText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(2),
+    },
+  });
+
+export default RecentRestocksScreen;
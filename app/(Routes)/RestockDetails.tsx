@@ -1,3 +1,7 @@
+import RestockTimeline from "@/components/RestockTimeline";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import { useProductRestocks } from "@/hooks/useRestocks";
 import { getNotification, getUserInventoryItem } from "@/src/api";
 import { Product as AddProductModel } from "@/hooks/useAddProductForm";
 import { Feather, Ionicons } from "@expo/vector-icons";
@@ -15,8 +19,10 @@ import {
     View,
 } from "react-native";
 import { moderateScale } from "../../utils/scaling";
+import { getFormatLocale } from "../../utils/formatters";
+import { mapPackaging } from "../../utils/units";
 import AddProductFlow from "./AddProductFlow";
-import { styles } from "./RestockDetails.styles";
+import { createStyles } from "./RestockDetails.styles";
 
 // Friendly label shown above the product name in the blue card.
 const TYPE_LABELS: Record<string, string> = {
@@ -51,7 +57,7 @@ const formatDate = (dateString?: string | null) => {
   if (!dateString) return "N/A";
   const date = new Date(dateString);
   if (isNaN(date.getTime())) return "N/A";
-  return date.toLocaleDateString("en-US", {
+  return date.toLocaleDateString(getFormatLocale(), {
     month: "short",
     day: "numeric",
     year: "numeric",
@@ -62,7 +68,7 @@ const formatTime = (dateString?: string | null) => {
   if (!dateString) return "N/A";
   const date = new Date(dateString);
   if (isNaN(date.getTime())) return "N/A";
-  return date.toLocaleString("en-US", {
+  return date.toLocaleString(getFormatLocale(), {
     hour: "numeric",
     minute: "2-digit",
     hour12: true,
@@ -72,7 +78,10 @@ const formatTime = (dateString?: string | null) => {
 };
 
 const RestockDetails: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
+  const { canViewCosts } = usePermissions();
   // Primary param is the notification id; productId kept for backwards links.
   const { notificationId, productId } = useLocalSearchParams<{
     notificationId?: string;
@@ -104,6 +113,8 @@ const RestockDetails: React.FC = () => {
     queryFn: () => getUserInventoryItem(inventoryId as string),
     enabled: !!inventoryId,
   });
+  const { data: restocks = [], isLoading: loadingRestocks } =
+    useProductRestocks(inventoryId);
 
   const loading =
     (!!notificationId && loadingNotification) ||
@@ -116,7 +127,7 @@ const RestockDetails: React.FC = () => {
         <View
           style={{ flex: 1, justifyContent: "center", alignItems: "center" }}
         >
-          <ActivityIndicator size="large" color="#1155CC" />
+          <ActivityIndicator size="large" color={colors.primary} />
         </View>
       </SafeAreaView>
     );
@@ -137,7 +148,7 @@ const RestockDetails: React.FC = () => {
             onPress={() => router.back()}
             style={styles.backButton}
           >
-            <Text style={{ color: "#1155CC", fontSize: 16 }}>Go Back</Text>
+            <Text style={{ color: colors.primary, fontSize: 16 }}>Go Back</Text>
           </TouchableOpacity>
         </View>
       </SafeAreaView>
@@ -182,6 +193,7 @@ const RestockDetails: React.FC = () => {
         unitsInStock: Number(inventoryItem.units_in_stock || 0),
         costPrice: Number(inventoryItem.cost_price || 0),
         sellingPrice: Number(inventoryItem.selling_price || 0),
+        ...mapPackaging(inventoryItem),
         lowStockThreshold: Number(inventoryItem.low_stock_threshold || 0),
         expiryDate: inventoryItem.expiry_date || "",
         supplier: {
@@ -299,6 +311,25 @@ const RestockDetails: React.FC = () => {
           </View>
         </View>
 
+        {/* Restock History, with each delivery's cost price */}
+        {!!inventoryId && canViewCosts && (
+          <View style={styles.detailsSection}>
+            <View style={styles.historyHeader}>
+              <Text style={styles.detailsTitle}>Restock History</Text>
+              <TouchableOpacity
+                onPress={() =>
+                  router.push("/(Routes)/RecentRestocksScreen" as any)
+                }
+              >
+                <Text style={styles.historyLink}>Recent restocks</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.detailsCard}>
+              <RestockTimeline restocks={restocks} loading={loadingRestocks} />
+            </View>
+          </View>
+        )}
+
         {/* Tip Card */}
         <View style={styles.tipCard}>
           <Text style={styles.tipTitle}>Tip</Text>
@@ -16,8 +16,18 @@ import {
     View,
 } from "react-native";
 
-import { getSale } from "@/src/api";
-import { formatNumber } from "@/utils/formatters";
+import { mapApiProduct } from "@/app/(Main)/Sell";
+import ReceiptSheet from "@/components/ReceiptSheet";
+import RefundModal from "@/components/RefundModal";
+import { getSale, getUserInventoryItem, type ApiSale } from "@/src/api";
+import useCartStore from "@/stores/cartStore";
+import {
+    formatCurrency,
+    formatDateLabel,
+    getFormatLocale,
+} from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const { width, height } = Dimensions.get("window");
 
@@ -67,8 +77,8 @@ const formatSaleMeta = (dateString: string): string => {
   try {
     const d = new Date(dateString);
     const day = d.getDate();
-    const month = d.toLocaleDateString("en-US", { month: "long" });
-    const time = d.toLocaleTimeString("en-US", {
+    const month = d.toLocaleDateString(getFormatLocale(), { month: "long" });
+    const time = d.toLocaleTimeString(getFormatLocale(), {
       hour: "2-digit",
       minute: "2-digit",
       second: "2-digit",
@@ -80,8 +90,6 @@ const formatSaleMeta = (dateString: string): string => {
   }
 };
 
-const formatCurrency = (amount: number) => `₦${formatNumber(amount)}`;
-
 const mapItems = (rawItems: any[], fallback: SaleLineItem[]): SaleLineItem[] => {
   if (Array.isArray(rawItems) && rawItems.length > 0) {
     return rawItems.map((it) => ({
@@ -124,9 +132,16 @@ const normalizeFromSaleData = (saleData: any): SaleDetail => ({
 });
 
 const SalesDetailScreen = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const params = useLocalSearchParams();
+  const addToCart = useCartStore((s) => s.addItem);
   const [sale, setSale] = useState<SaleDetail | null>(null);
+  // The full record from the server, kept for reprinting the receipt
+  const [fullSale, setFullSale] = useState<ApiSale | null>(null);
+  const [showReceipt, setShowReceipt] = useState(false);
+  const [showRefund, setShowRefund] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -145,6 +160,7 @@ const SalesDetailScreen = () => {
           try {
             const apiSale = await getSale(saleData.id);
             if (apiSale) {
+              setFullSale(apiSale);
               setSale({
                 id: String(apiSale.id),
                 transactionId:
@@ -190,49 +206,86 @@ const SalesDetailScreen = () => {
   };
 
   const handleContactDebtor = () => {
-    if (sale?.customerPhone) {
-      Linking.openURL(`tel:${sale.customerPhone}`).catch(() =>
-        Alert.alert("Error", "Unable to open the phone dialer."),
-      );
-    } else {
+    if (!sale?.customerPhone) {
       Alert.alert(
         "No Contact",
         "No customer phone number is attached to this sale.",
       );
+      return;
     }
+
+    const phone = sale.customerPhone;
+    Alert.alert(sale.customerName || "Contact Debtor", phone, [
+      {
+        text: "Call",
+        onPress: () =>
+          Linking.openURL(`tel:${phone}`).catch(() =>
+            Alert.alert("Error", "Unable to open the phone dialer."),
+          ),
+      },
+      {
+        text: "Ledger & reminders",
+        onPress: () =>
+          router.push({
+            pathname: "/(Routes)/DebtorsScreen" as any,
+            params: { phone },
+          }),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
   };
 
-  const handleSellAgain = () => {
+  const handleSellAgain = async () => {
     if (!sale) return;
-    const cartData = sale.items
-      .filter((i) => i.productId)
-      .map((i) => ({ id: i.productId, quantity: i.quantity }));
+    const lines = sale.items.filter((i) => i.productId);
 
-    if (cartData.length === 0) {
+    if (lines.length === 0) {
       router.push("/(Main)/Sell" as any);
       return;
     }
 
-    router.push({
-      pathname: "/(Routes)/Cart" as any,
-      params: {
-        cartData: JSON.stringify(cartData),
-        timestamp: Date.now().toString(),
-      },
-    });
+    // Re-read each product so the cart gets today's price and stock
+    const problems: string[] = [];
+    await Promise.all(
+      lines.map(async (line) => {
+        try {
+          const item = await getUserInventoryItem(line.productId as string);
+          const result = addToCart(mapApiProduct(item), line.quantity);
+          if (!result.ok) problems.push(result.reason);
+        } catch {
+          problems.push(`${line.name} is no longer in your inventory.`);
+        }
+      }),
+    );
+
+    if (problems.length > 0) {
+      Alert.alert("Some items were not added", problems.join("\n"));
+    }
+    router.push("/(Routes)/Cart" as any);
   };
 
   // ─── Header (shared) ──────────────────────────────────────────────────────
   const renderHeader = () => (
     <View style={styles.header}>
       <Text style={styles.headerTitle}>Sales Details</Text>
-      <TouchableOpacity
-        onPress={() => router.back()}
-        style={styles.backButton}
-        activeOpacity={0.8}
-      >
-        <Feather name="arrow-left" size={22} color="#0A0A0A" />
-      </TouchableOpacity>
+      <View style={styles.headerActions}>
+        {fullSale && (
+          <TouchableOpacity
+            onPress={() => setShowReceipt(true)}
+            style={styles.backButton}
+            activeOpacity={0.8}
+          >
+            <Feather name="printer" size={20} color={colors.text} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
     </View>
   );
 
@@ -252,7 +305,11 @@ const SalesDetailScreen = () => {
       <SafeAreaView style={styles.container}>
         {renderHeader()}
         <View style={styles.centerContainer}>
-          <Feather name="alert-circle" size={48} color="#666" />
+          <Feather
+            name="alert-circle"
+            size={48}
+            color={colors.textSecondary}
+          />
           <Text style={styles.errorText}>Sale details not found</Text>
           <TouchableOpacity style={styles.retryButton} onPress={loadSaleDetail}>
             <Text style={styles.retryButtonText}>Retry</Text>
@@ -270,10 +327,18 @@ const SalesDetailScreen = () => {
   ]
     .filter(Boolean)
     .join("   |   ");
+  const refunds = fullSale?.refunds ?? [];
+  const refundedTotal = refunds.reduce(
+    (sum, refund) => sum + Number(refund.amount || 0),
+    0,
+  );
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar backgroundColor="#E7EEFA" barStyle="dark-content" />
+      <StatusBar
+        backgroundColor={colors.background}
+        barStyle={isDark ? "light-content" : "dark-content"}
+      />
 
       {renderHeader()}
 
@@ -346,6 +411,62 @@ const SalesDetailScreen = () => {
             {formatCurrency(sale.total)}
           </Text>
         </View>
+
+        {/* Returns recorded against this sale */}
+        {refunds.length > 0 && (
+          <>
+            <Text style={styles.sectionLabel}>Returns</Text>
+            <View style={styles.detailsCard}>
+              {refunds.map((refund, index) => (
+                <View
+                  key={refund.id}
+                  style={[
+                    styles.refundRow,
+                    index === refunds.length - 1 && styles.itemRowLast,
+                  ]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {refund.items
+                        .map(
+                          (item) =>
+                            `${item.product_name || "Item"} X${item.quantity}`,
+                        )
+                        .join(", ")}
+                    </Text>
+                    <Text style={styles.refundMeta} numberOfLines={1}>
+                      {refund.created_at
+                        ? `${formatDateLabel(new Date(refund.created_at))} · `
+                        : ""}
+                      {refund.reason}
+                      {refund.restock ? " · restocked" : ""}
+                    </Text>
+                  </View>
+                  <Text style={styles.refundAmount}>
+                    -{formatCurrency(Number(refund.amount || 0))}
+                  </Text>
+                </View>
+              ))}
+            </View>
+            <View style={styles.netTotalRow}>
+              <Text style={styles.netTotalLabel}>Net after returns</Text>
+              <Text style={styles.netTotalValue}>
+                {formatCurrency(sale.total - refundedTotal)}
+              </Text>
+            </View>
+          </>
+        )}
+
+        {fullSale && refundedTotal < sale.total && (
+          <TouchableOpacity
+            style={styles.returnButton}
+            onPress={() => setShowRefund(true)}
+            activeOpacity={0.85}
+          >
+            <Feather name="corner-up-left" size={18} color={colors.danger} />
+            <Text style={styles.returnButtonText}>Return items</Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* Bottom action buttons */}
@@ -355,8 +476,10 @@ const SalesDetailScreen = () => {
           onPress={handleContactDebtor}
           activeOpacity={0.85}
         >
-          <Text style={styles.footerButtonText}>Contact Debtor</Text>
-          <Feather name="phone" size={18} color="#fff" />
+          <Text style={[styles.footerButtonText, styles.contactButtonText]}>
+            Contact Debtor
+          </Text>
+          <Feather name="phone" size={18} color={colors.text} />
         </TouchableOpacity>
 
         <TouchableOpacity
@@ -365,243 +488,318 @@ const SalesDetailScreen = () => {
           activeOpacity={0.85}
         >
           <Text style={styles.footerButtonText}>Sell Again</Text>
-          <Feather name="shopping-cart" size={18} color="#fff" />
+          <Feather name="shopping-cart" size={18} color={colors.onPrimary} />
         </TouchableOpacity>
       </View>
+
+      <ReceiptSheet
+        visible={showReceipt}
+        sale={fullSale}
+        onClose={() => setShowReceipt(false)}
+      />
+
+      <RefundModal
+        visible={showRefund}
+        sale={fullSale}
+        onClose={() => setShowRefund(false)}
+        onRefunded={loadSaleDetail}
+      />
     </SafeAreaView>
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#E7EEFA",
-  },
-
-  // ── Header ──────────────────────────────────────────────────────────────
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: scale(20),
-    paddingTop: verticalScale(20),
-    paddingBottom: verticalScale(14),
-  },
-  headerTitle: {
-    fontSize: moderateScale(26),
-    fontFamily: "DMSans_700Bold",
-    color: "#0A0A0A",
-  },
-  backButton: {
-    width: scale(46),
-    height: scale(46),
-    borderRadius: moderateScale(12),
-    backgroundColor: "#fff",
-    justifyContent: "center",
-    alignItems: "center",
-  },
-
-  // ── States ──────────────────────────────────────────────────────────────
-  centerContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-    padding: scale(20),
-  },
-  mutedText: {
-    fontSize: moderateScale(15),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  errorText: {
-    fontSize: moderateScale(16),
-    color: "#666",
-    marginTop: verticalScale(12),
-    marginBottom: verticalScale(20),
-    fontFamily: "DMSans_400Regular",
-  },
-  retryButton: {
-    backgroundColor: "#1155CC",
-    paddingHorizontal: scale(24),
-    paddingVertical: verticalScale(12),
-    borderRadius: moderateScale(8),
-  },
-  retryButtonText: {
-    color: "#fff",
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-  },
-
-  // ── Content ─────────────────────────────────────────────────────────────
-  content: {
-    flex: 1,
-  },
-  contentContainer: {
-    paddingHorizontal: scale(20),
-    paddingTop: verticalScale(6),
-    paddingBottom: verticalScale(140),
-  },
-
-  // ── Blue summary card ───────────────────────────────────────────────────
-  summaryCard: {
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(16),
-    padding: scale(14),
-    flexDirection: "row",
-    alignItems: "center",
-    gap: scale(14),
-  },
-  summaryImageWrap: {
-    width: scale(56),
-    height: scale(56),
-    borderRadius: moderateScale(12),
-    backgroundColor: "#fff",
-    justifyContent: "center",
-    alignItems: "center",
-    padding: scale(6),
-    overflow: "hidden",
-  },
-  summaryImage: {
-    width: "100%",
-    height: "100%",
-  },
-  summaryTextWrap: {
-    flex: 1,
-  },
-  summaryMeta: {
-    fontSize: moderateScale(12),
-    color: "rgba(255,255,255,0.82)",
-    fontFamily: "DMSans_500Medium",
-    marginBottom: verticalScale(6),
-  },
-  summaryTitle: {
-    fontSize: moderateScale(20),
-    color: "#fff",
-    fontFamily: "DMSans_700Bold",
-  },
-  summaryQty: {
-    color: "#F59E0B",
-    fontFamily: "DMSans_700Bold",
-  },
-
-  // ── Section label ───────────────────────────────────────────────────────
-  sectionLabel: {
-    fontSize: moderateScale(13),
-    color: "#5A6573",
-    fontFamily: "DMSans_400Regular",
-    marginTop: verticalScale(18),
-    marginBottom: verticalScale(8),
-  },
-
-  // ── Details card ────────────────────────────────────────────────────────
-  detailsCard: {
-    backgroundColor: "#fff",
-    borderRadius: moderateScale(16),
-    paddingHorizontal: scale(18),
-    paddingVertical: verticalScale(18),
-  },
-  detailsHeaderRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    marginBottom: verticalScale(16),
-  },
-  detailsHeaderText: {
-    fontSize: moderateScale(15),
-    color: "#9AA0A6",
-    fontFamily: "DMSans_400Regular",
-  },
-  itemRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: verticalScale(16),
-  },
-  itemRowLast: {
-    marginBottom: 0,
-  },
-  itemName: {
-    flex: 1,
-    fontSize: moderateScale(15),
-    color: "#3C4043",
-    fontFamily: "DMSans_400Regular",
-    marginRight: scale(12),
-  },
-  itemQty: {
-    color: "#F59E0B",
-    fontFamily: "DMSans_600SemiBold",
-  },
-  itemPrice: {
-    fontSize: moderateScale(15),
-    color: "#1C1C1C",
-    fontFamily: "DMSans_700Bold",
-  },
-
-  // ── Grand total ─────────────────────────────────────────────────────────
-  grandTotalCard: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "#fff",
-    borderRadius: moderateScale(12),
-    paddingVertical: verticalScale(18),
-    paddingHorizontal: scale(18),
-    marginTop: verticalScale(16),
-    overflow: "hidden",
-  },
-  grandTotalAccent: {
-    position: "absolute",
-    left: 0,
-    top: "22%",
-    bottom: "22%",
-    width: scale(5),
-    borderTopRightRadius: moderateScale(4),
-    borderBottomRightRadius: moderateScale(4),
-    backgroundColor: "#F5A623",
-  },
-  grandTotalLabel: {
-    flex: 1,
-    fontSize: moderateScale(17),
-    color: "#0A0A0A",
-    fontFamily: "DMSans_700Bold",
-  },
-  grandTotalValue: {
-    fontSize: moderateScale(20),
-    color: "#0A0A0A",
-    fontFamily: "DMSans_700Bold",
-  },
-
-  // ── Footer buttons ──────────────────────────────────────────────────────
-  footer: {
-    position: "absolute",
-    left: 0,
-    right: 0,
-    bottom: 0,
-    flexDirection: "row",
-    gap: scale(12),
-    paddingHorizontal: scale(20),
-    paddingTop: verticalScale(12),
-    paddingBottom: verticalScale(24),
-    backgroundColor: "#E7EEFA",
-  },
-  footerButton: {
-    flex: 1,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: scale(8),
-    paddingVertical: verticalScale(18),
-    borderRadius: moderateScale(14),
-  },
-  contactButton: {
-    backgroundColor: "#0A1F44",
-  },
-  sellAgainButton: {
-    backgroundColor: "#1155CC",
-  },
-  footerButtonText: {
-    color: "#fff",
-    fontSize: moderateScale(15),
-    fontFamily: "DMSans_500Medium",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    headerActions: {
+      flexDirection: "row",
+      gap: scale(10),
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      padding: scale(20),
+    },
+    mutedText: {
+      fontSize: moderateScale(15),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    errorText: {
+      fontSize: moderateScale(16),
+      color: colors.textSecondary,
+      marginTop: verticalScale(12),
+      marginBottom: verticalScale(20),
+      fontFamily: "DMSans_400Regular",
+    },
+    retryButton: {
+      backgroundColor: colors.primary,
+      paddingHorizontal: scale(24),
+      paddingVertical: verticalScale(12),
+      borderRadius: moderateScale(8),
+    },
+    retryButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+    },
+
+    // ── Content ─────────────────────────────────────────────────────────────
+    content: {
+      flex: 1,
+    },
+    contentContainer: {
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(6),
+      paddingBottom: verticalScale(140),
+    },
+
+    // ── Blue summary card ───────────────────────────────────────────────────
+    summaryCard: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(16),
+      padding: scale(14),
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(14),
+    },
+    summaryImageWrap: {
+      width: scale(56),
+      height: scale(56),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+      padding: scale(6),
+      overflow: "hidden",
+    },
+    summaryImage: {
+      width: "100%",
+      height: "100%",
+    },
+    summaryTextWrap: {
+      flex: 1,
+    },
+    summaryMeta: {
+      fontSize: moderateScale(12),
+      color: "rgba(255,255,255,0.82)",
+      fontFamily: "DMSans_500Medium",
+      marginBottom: verticalScale(6),
+    },
+    summaryTitle: {
+      fontSize: moderateScale(20),
+      color: colors.onPrimary,
+      fontFamily: "DMSans_700Bold",
+    },
+    summaryQty: {
+      color: "#F59E0B",
+      fontFamily: "DMSans_700Bold",
+    },
+
+    // ── Section label ───────────────────────────────────────────────────────
+    sectionLabel: {
+      fontSize: moderateScale(13),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+      marginTop: verticalScale(18),
+      marginBottom: verticalScale(8),
+    },
+
+    // ── Details card ────────────────────────────────────────────────────────
+    detailsCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(16),
+      paddingHorizontal: scale(18),
+      paddingVertical: verticalScale(18),
+    },
+    detailsHeaderRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      marginBottom: verticalScale(16),
+    },
+    detailsHeaderText: {
+      fontSize: moderateScale(15),
+      color: colors.textMuted,
+      fontFamily: "DMSans_400Regular",
+    },
+    itemRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: verticalScale(16),
+    },
+    itemRowLast: {
+      marginBottom: 0,
+    },
+    itemName: {
+      flex: 1,
+      fontSize: moderateScale(15),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+      marginRight: scale(12),
+    },
+    itemQty: {
+      color: colors.warning,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    itemPrice: {
+      fontSize: moderateScale(15),
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+
+    // ── Grand total ─────────────────────────────────────────────────────────
+    grandTotalCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(18),
+      paddingHorizontal: scale(18),
+      marginTop: verticalScale(16),
+      overflow: "hidden",
+    },
+    grandTotalAccent: {
+      position: "absolute",
+      left: 0,
+      top: "22%",
+      bottom: "22%",
+      width: scale(5),
+      borderTopRightRadius: moderateScale(4),
+      borderBottomRightRadius: moderateScale(4),
+      backgroundColor: colors.warning,
+    },
+    grandTotalLabel: {
+      flex: 1,
+      fontSize: moderateScale(17),
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    grandTotalValue: {
+      fontSize: moderateScale(20),
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+
+    // ── Returns ─────────────────────────────────────────────────────────────
+    refundRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      marginBottom: verticalScale(16),
+    },
+    refundMeta: {
+      fontSize: moderateScale(12),
+      color: colors.textMuted,
+      fontFamily: "DMSans_400Regular",
+      marginTop: verticalScale(2),
+      marginRight: scale(12),
+    },
+    refundAmount: {
+      fontSize: moderateScale(15),
+      color: colors.danger,
+      fontFamily: "DMSans_700Bold",
+    },
+    netTotalRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(18),
+      marginTop: verticalScale(12),
+    },
+    netTotalLabel: {
+      fontSize: moderateScale(15),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+    },
+    netTotalValue: {
+      fontSize: moderateScale(17),
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    returnButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: scale(8),
+      borderWidth: 1,
+      borderColor: colors.danger,
+      borderRadius: moderateScale(14),
+      paddingVertical: verticalScale(14),
+      marginTop: verticalScale(16),
+    },
+    returnButtonText: {
+      color: colors.danger,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_500Medium",
+    },
+
+    // ── Footer buttons ──────────────────────────────────────────────────────
+    footer: {
+      position: "absolute",
+      left: 0,
+      right: 0,
+      bottom: 0,
+      flexDirection: "row",
+      gap: scale(12),
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(12),
+      paddingBottom: verticalScale(24),
+      backgroundColor: colors.background,
+    },
+    footerButton: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: scale(8),
+      paddingVertical: verticalScale(18),
+      borderRadius: moderateScale(14),
+    },
+    contactButton: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    contactButtonText: {
+      color: colors.text,
+    },
+    sellAgainButton: {
+      backgroundColor: colors.primary,
+    },
+    footerButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_500Medium",
+    },
+  });
 
 export default SalesDetailScreen;
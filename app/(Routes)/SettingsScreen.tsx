@@ -12,12 +12,22 @@ import {
     ScrollView,
     StatusBar,
     StyleSheet,
-    Switch,
     Text,
     TouchableOpacity,
     View,
 } from "react-native";
-import useThemeStore from "../../stores/themeStore";
+import { ACCENT_COLORS, type ThemeColors } from "../../constants/theme";
+import { useTheme, useThemedStyles } from "../../hooks/useTheme";
+import useSettingsStore from "../../stores/settingsStore";
+import useThemeStore, {
+    getThemeModeLabel,
+    THEME_MODES,
+} from "../../stores/themeStore";
+import {
+    EXPIRY_WINDOW_PRESETS,
+    formatExpiryWindows,
+} from "../../utils/batches";
+import { COSTING_METHODS, getCostingMethodLabel } from "../../utils/costing";
 
 const { width, height } = Dimensions.get("window");
 const clamp = (value: number, min: number, max: number) =>
@@ -51,6 +61,9 @@ const SettingItem: React.FC<SettingItemProps> = ({
   hasArrow = true,
   color = "#6366f1",
 }) => {
+  const { colors } = useTheme();
+  const itemStyles = useThemedStyles(createItemStyles);
+
   return (
     <TouchableOpacity
       style={itemStyles.container}
@@ -66,50 +79,111 @@ const SettingItem: React.FC<SettingItemProps> = ({
         <Text style={itemStyles.text}>{text}</Text>
       </View>
       {hasArrow && (
-        <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+        <Ionicons name="chevron-forward" size={20} color={colors.textMuted} />
       )}
     </TouchableOpacity>
   );
 };
 
-const itemStyles = StyleSheet.create({
-  container: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingVertical: verticalScale(14),
-    paddingHorizontal: scale(16),
-    backgroundColor: "#fff",
-    borderRadius: moderateScale(16),
-    marginBottom: verticalScale(10),
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.05,
-    shadowRadius: 8,
-    elevation: 2,
-  },
-  leftContent: {
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  iconContainer: {
-    width: scale(42),
-    height: scale(42),
-    borderRadius: moderateScale(12),
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  text: {
-    fontSize: moderateScale(15),
-    marginLeft: scale(14),
-    color: "#1f2937",
-  },
-});
+const createItemStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingVertical: verticalScale(14),
+      paddingHorizontal: scale(16),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(16),
+      marginBottom: verticalScale(10),
+      shadowColor: "#000",
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.05,
+      shadowRadius: 8,
+      elevation: 2,
+    },
+    leftContent: {
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    iconContainer: {
+      width: scale(42),
+      height: scale(42),
+      borderRadius: moderateScale(12),
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    text: {
+      fontSize: moderateScale(15),
+      marginLeft: scale(14),
+      color: colors.text,
+    },
+  });
 
 const SettingsScreen = () => {
-  const { themeColor, isDarkMode, toggleTheme } = useThemeStore();
+  const { themeColor, mode, setMode, setThemeColor } = useThemeStore();
+  const { isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const {
+    costingMethod,
+    setCostingMethod,
+    expiryWarningDays,
+    setExpiryWarningDays,
+  } = useSettingsStore();
   const [profile, setProfile] = useState<UserProfile | null>(null);
 
+  const handleChooseCostingMethod = () => {
+    Alert.alert(
+      "Cost of goods",
+      "How should profit be worked out when cost prices change between restocks?",
+      [
+        ...COSTING_METHODS.map((option) => ({
+          text: option.label,
+          onPress: () => setCostingMethod(option.value),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const handleChooseAppearance = () => {
+    Alert.alert("Appearance", "Choose how Inventra looks", [
+      ...THEME_MODES.map((option) => ({
+        text: option.label,
+        onPress: () => setMode(option.value),
+      })),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  const handleChooseAccent = () => {
+    Alert.alert(
+      "Accent colour",
+      "Used for buttons, tabs and highlights",
+      [
+        ...ACCENT_COLORS.map((option) => ({
+          text: option.label,
+          onPress: () => setThemeColor(option.value),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
+  const handleChooseExpiryWindows = () => {
+    Alert.alert(
+      "Expiry warnings",
+      "How many days before a batch expires should you be warned?",
+      [
+        ...EXPIRY_WINDOW_PRESETS.map((windows) => ({
+          text: formatExpiryWindows(windows),
+          onPress: () => setExpiryWarningDays(windows),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ],
+    );
+  };
+
   // Handle user logout
   const proceedLogout = async () => {
     try {
@@ -178,7 +252,7 @@ const SettingsScreen = () => {
       >
         {/* Header with Gradient */}
         <LinearGradient
-          colors={[themeColor || "#6366f1", "#8b5cf6"]}
+          colors={[themeColor, "#8b5cf6"]}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
           style={styles.headerGradient}
@@ -191,13 +265,15 @@ const SettingsScreen = () => {
           <View style={styles.profileSection}>
             <View style={styles.avatarContainer}>
               <LinearGradient
-                colors={["#fff", "#f3f4f6"]}
+                colors={
+                  isDark ? ["#1F2937", "#111827"] : ["#fff", "#f3f4f6"]
+                }
                 style={styles.avatarGradient}
               >
                 <Ionicons
                   name="person"
                   size={48}
-                  color={themeColor || "#6366f1"}
+                  color={themeColor}
                 />
               </LinearGradient>
             </View>
@@ -232,38 +308,36 @@ const SettingsScreen = () => {
           {/* Preferences Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>PREFERENCES</Text>
+            <SettingItem
+              icon={isDark ? "moon" : "sunny"}
+              text={`Appearance: ${getThemeModeLabel(mode)}`}
+              onPress={handleChooseAppearance}
+              color="#f59e0b"
+            />
+
             <SettingItem
               icon="color-palette-outline"
-              text="Theme"
-              onPress={() => router.push("../../ThemeSelectionScreen" as any)}
-              color="#ec4899"
+              text={`Accent colour: ${
+                ACCENT_COLORS.find((option) => option.value === themeColor)
+                  ?.label ?? "Custom"
+              }`}
+              onPress={handleChooseAccent}
+              color={themeColor}
             />
 
-            <View style={[itemStyles.container, { marginBottom: 12 }]}>
-              <View style={itemStyles.leftContent}>
-                <View
-                  style={[
-                    itemStyles.iconContainer,
-                    { backgroundColor: "#f59e0b15" },
-                  ]}
-                >
-                  <Ionicons
-                    name={isDarkMode ? "moon" : "sunny"}
-                    size={22}
-                    color="#f59e0b"
-                  />
-                </View>
-                <Text style={itemStyles.text}>Dark Mode</Text>
-              </View>
-              <Switch
-                trackColor={{ false: "#e5e7eb", true: themeColor || "#6366f1" }}
-                thumbColor="#fff"
-                ios_backgroundColor="#e5e7eb"
-                onValueChange={toggleTheme}
-                value={isDarkMode}
-                style={styles.switch}
-              />
-            </View>
+            <SettingItem
+              icon="calculator-outline"
+              text={`Cost of goods: ${getCostingMethodLabel(costingMethod)}`}
+              onPress={handleChooseCostingMethod}
+              color="#0ea5e9"
+            />
+
+            <SettingItem
+              icon="hourglass-outline"
+              text={`Expiry warnings: ${formatExpiryWindows(expiryWarningDays)}`}
+              onPress={handleChooseExpiryWindows}
+              color="#f97316"
+            />
 
             <SettingItem
               icon="notifications-outline"
@@ -316,93 +390,91 @@ const SettingsScreen = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  safeArea: {
-    flex: 1,
-    backgroundColor: "#f9fafb",
-  },
-  container: {
-    flex: 1,
-  },
-  scrollContent: {
-    paddingBottom: verticalScale(32),
-  },
-  headerGradient: {
-    borderBottomLeftRadius: moderateScale(32),
-    borderBottomRightRadius: moderateScale(32),
-    paddingBottom: verticalScale(32),
-  },
-  header: {
-    paddingHorizontal: scale(24),
-    paddingTop: Platform.OS === "ios" ? verticalScale(18) : verticalScale(34),
-    paddingBottom: verticalScale(16),
-  },
-  title: {
-    fontSize: moderateScale(28),
-    color: "#fff",
-  },
-  profileSection: {
-    alignItems: "center",
-    paddingHorizontal: scale(24),
-  },
-  avatarContainer: {
-    marginBottom: verticalScale(14),
-  },
-  avatarGradient: {
-    width: scale(92),
-    height: scale(92),
-    borderRadius: moderateScale(50),
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  name: {
-    fontSize: moderateScale(22),
-    color: "#fff",
-    marginBottom: verticalScale(4),
-  },
-  username: {
-    fontSize: moderateScale(14),
-    color: "#fff",
-    opacity: 0.85,
-  },
-  sectionsContainer: {
-    paddingHorizontal: scale(20),
-    marginTop: -verticalScale(18),
-  },
-  section: {
-    marginBottom: verticalScale(20),
-  },
-  sectionTitle: {
-    fontSize: moderateScale(11),
-    color: "#9ca3af",
-    marginBottom: verticalScale(10),
-    marginLeft: scale(4),
-    letterSpacing: 1,
-  },
-  switch: {
-    transform: [{ scaleX: 0.9 }, { scaleY: 0.9 }],
-  },
-  logoutButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    backgroundColor: "#fff",
-    paddingVertical: verticalScale(14),
-    borderRadius: moderateScale(16),
-    borderWidth: 1.5,
-    borderColor: "#fee2e2",
-  },
-  logoutText: {
-    fontSize: moderateScale(15),
-    color: "#ef4444",
-    marginLeft: scale(8),
-  },
-  version: {
-    textAlign: "center",
-    fontSize: moderateScale(12),
-    color: "#9ca3af",
-    marginTop: verticalScale(14),
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    safeArea: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      paddingBottom: verticalScale(32),
+    },
+    headerGradient: {
+      borderBottomLeftRadius: moderateScale(32),
+      borderBottomRightRadius: moderateScale(32),
+      paddingBottom: verticalScale(32),
+    },
+    header: {
+      paddingHorizontal: scale(24),
+      paddingTop: Platform.OS === "ios" ? verticalScale(18) : verticalScale(34),
+      paddingBottom: verticalScale(16),
+    },
+    title: {
+      fontSize: moderateScale(28),
+      color: "#fff",
+    },
+    profileSection: {
+      alignItems: "center",
+      paddingHorizontal: scale(24),
+    },
+    avatarContainer: {
+      marginBottom: verticalScale(14),
+    },
+    avatarGradient: {
+      width: scale(92),
+      height: scale(92),
+      borderRadius: moderateScale(50),
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    name: {
+      fontSize: moderateScale(22),
+      color: "#fff",
+      marginBottom: verticalScale(4),
+    },
+    username: {
+      fontSize: moderateScale(14),
+      color: "#fff",
+      opacity: 0.85,
+    },
+    sectionsContainer: {
+      paddingHorizontal: scale(20),
+      marginTop: -verticalScale(18),
+    },
+    section: {
+      marginBottom: verticalScale(20),
+    },
+    sectionTitle: {
+      fontSize: moderateScale(11),
+      color: colors.textMuted,
+      marginBottom: verticalScale(10),
+      marginLeft: scale(4),
+      letterSpacing: 1,
+    },
+    logoutButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: colors.surface,
+      paddingVertical: verticalScale(14),
+      borderRadius: moderateScale(16),
+      borderWidth: 1.5,
+      borderColor: colors.dangerSoft,
+    },
+    logoutText: {
+      fontSize: moderateScale(15),
+      color: "#ef4444",
+      marginLeft: scale(8),
+    },
+    version: {
+      textAlign: "center",
+      fontSize: moderateScale(12),
+      color: colors.textMuted,
+      marginTop: verticalScale(14),
+    },
+  });
 
 export default SettingsScreen;
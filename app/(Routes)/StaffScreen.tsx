@@ -0,0 +1,283 @@
+// app/(Routes)/StaffScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useQuery } from "@tanstack/react-query";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+    ActivityIndicator,
+    Dimensions,
+    FlatList,
+    RefreshControl,
+    SafeAreaView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import StaffFormModal from "@/components/StaffFormModal";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useStaff } from "@/hooks/useStaff";
+import { getProfile } from "@/src/api";
+import type { ApiStaffMember } from "@/src/api/staff";
+import { getRoleLabel } from "@/utils/permissions";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const StaffScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { canManageStaff } = usePermissions();
+  const { data: profile } = useQuery({
+    queryKey: ["profile"],
+    queryFn: getProfile,
+  });
+  const {
+    data: staff = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useStaff(canManageStaff);
+  const [form, setForm] = useState<{ member: ApiStaffMember | null } | null>(
+    null,
+  );
+
+  const renderMember = ({ item }: { item: ApiStaffMember }) => {
+    // Owners can't demote or remove themselves from here
+    const isSelf = item.user != null && item.user === profile?.id;
+    return (
+      <TouchableOpacity
+        style={styles.memberCard}
+        activeOpacity={0.7}
+        disabled={isSelf}
+        onPress={() => setForm({ member: item })}
+      >
+        <View style={styles.avatar}>
+          <Feather name="user" size={18} color={colors.primary} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.memberName} numberOfLines={1}>
+            {item.name || item.phone}
+            {isSelf ? " (you)" : ""}
+          </Text>
+          <Text style={styles.memberMeta} numberOfLines={1}>
+            {item.phone}
+            {item.is_active === false ? " · Invite pending" : ""}
+          </Text>
+        </View>
+        <View style={styles.rolePill}>
+          <Text style={styles.rolePillText}>{getRoleLabel(item.role)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Staff</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {!canManageStaff ? (
+        <View style={styles.emptyState}>
+          <Feather name="lock" size={48} color={colors.textMuted} />
+          <Text style={styles.emptyTitle}>Owners only</Text>
+          <Text style={styles.emptyText}>
+            Ask the business owner to add or change staff accounts.
+          </Text>
+        </View>
+      ) : isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={staff}
+          keyExtractor={(item) => String(item.id)}
+          renderItem={renderMember}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+          }
+          ListHeaderComponent={
+            <Text style={styles.hint}>
+              Cashiers can sell and check stock but don&apos;t see cost prices,
+              profit or Finance, and can&apos;t delete anything.
+            </Text>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="users" size={48} color={colors.textMuted} />
+              <Text style={styles.emptyTitle}>No staff yet</Text>
+              <Text style={styles.emptyText}>
+                Invite the people who sell for you. Each one signs in with
+                their own phone, so every sale shows who made it.
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      {canManageStaff && (
+        <TouchableOpacity
+          style={styles.fab}
+          onPress={() => setForm({ member: null })}
+          activeOpacity={0.85}
+        >
+          <Feather name="user-plus" size={moderateScale(26)} color="white" />
+        </TouchableOpacity>
+      )}
+
+      <StaffFormModal
+        visible={form !== null}
+        member={form?.member}
+        onClose={() => setForm(null)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+      paddingHorizontal: scale(20),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── List ────────────────────────────────────────────────────────────────
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(110),
+      gap: verticalScale(10),
+    },
+    hint: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginBottom: verticalScale(4),
+    },
+    memberCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    avatar: {
+      width: scale(42),
+      height: scale(42),
+      borderRadius: scale(21),
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    memberName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    memberMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    rolePill: {
+      backgroundColor: colors.primarySoft,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(4),
+      paddingHorizontal: scale(10),
+    },
+    rolePillText: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.primary,
+    },
+    fab: {
+      position: "absolute",
+      right: scale(20),
+      bottom: verticalScale(28),
+      width: moderateScale(60),
+      height: moderateScale(60),
+      borderRadius: moderateScale(30),
+      backgroundColor: colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+      shadowColor: colors.primary,
+      shadowOffset: { width: 0, height: 6 },
+      shadowOpacity: 0.35,
+      shadowRadius: 10,
+      elevation: 8,
+    },
+  });
+
+export default StaffScreen;
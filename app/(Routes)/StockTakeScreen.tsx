@@ -0,0 +1,859 @@
+// app/(Routes)/StockTakeScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    FlatList,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import BarcodeScanner from "@/components/BarcodeScanner";
+import { useCommitStockAdjustments } from "@/hooks/useStockAdjustments";
+import { useAllInventory } from "@/hooks/useSuppliers";
+import type {
+    ApiUserInventoryItem,
+    StockAdjustmentReason,
+} from "@/src/api/products";
+import useStockTakeStore from "@/stores/stockTakeStore";
+import { getApiErrorMessage } from "@/utils/apiErrors";
+import {
+    formatCurrency,
+    formatDateLabel,
+    formatNumber,
+} from "@/utils/formatters";
+import {
+    computeVariances,
+    STOCK_TAKE_REASONS,
+    sumVariances,
+    type StockVariance,
+} from "@/utils/stockTake";
+import { getVariantLabel } from "@/utils/variants";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+type ViewMode = "count" | "review";
+
+const getItemName = (item: ApiUserInventoryItem): string => {
+  const label = getVariantLabel(item.variant_attributes);
+  return label ? `${item.name} (${label})` : item.name;
+};
+
+const formatDifference = (difference: number): string =>
+  `${difference > 0 ? "+" : ""}${formatNumber(difference)}`;
+
+const StockTakeScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const { data: inventory = [], isLoading } = useAllInventory();
+  const { session, start, setCount, addToCount, clearCount, discard } =
+    useStockTakeStore();
+  const commitAdjustments = useCommitStockAdjustments();
+
+  const [mode, setMode] = useState<ViewMode>("count");
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState<string | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
+  const [scanStatus, setScanStatus] = useState("");
+  const [showCommit, setShowCommit] = useState(false);
+  const [reason, setReason] = useState<StockAdjustmentReason | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const counts = useMemo(() => session?.counts ?? {}, [session]);
+  const expected = useMemo(() => session?.expected ?? {}, [session]);
+
+  const categories = useMemo(
+    () =>
+      Array.from(
+        new Set(inventory.map((item) => item.category).filter(Boolean)),
+      ).sort((a, b) => a.localeCompare(b)),
+    [inventory],
+  );
+
+  const visibleItems = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return inventory
+      .filter((item) => !category || item.category === category)
+      .filter(
+        (item) =>
+          !term ||
+          getItemName(item).toLowerCase().includes(term) ||
+          (item.barcode || "").includes(term),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [inventory, category, search]);
+
+  const variances = useMemo(
+    () => computeVariances(counts, inventory, expected),
+    [counts, inventory, expected],
+  );
+  const countedTotal = Object.keys(counts).length;
+  const totals = useMemo(
+    () => sumVariances(variances, countedTotal),
+    [variances, countedTotal],
+  );
+
+  const handleBarcodeScanned = (code: string) => {
+    const item = inventory.find(
+      (entry) => (entry.barcode || "").trim() === code.trim(),
+    );
+    if (!item) {
+      setScanStatus(`No product has the barcode ${code}`);
+      return;
+    }
+    const id = String(item.id);
+    addToCount(id, 1, Number(item.units_in_stock || 0));
+    setScanStatus(`Counted ${getItemName(item)} (${(counts[id] ?? 0) + 1})`);
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      "Discard stock-take?",
+      "Every count entered in this session will be lost.",
+      [
+        { text: "Keep counting", style: "cancel" },
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => {
+            discard();
+            setMode("count");
+          },
+        },
+      ],
+    );
+  };
+
+  const handleCommit = async () => {
+    if (!reason) {
+      Alert.alert("Error", "Please choose a reason for the adjustments");
+      return;
+    }
+
+    try {
+      await commitAdjustments.mutateAsync({
+        reason,
+        notes: notes.trim() || undefined,
+        source: "stock_take",
+        adjustments: variances.map((row) => ({
+          inventory: row.item.id,
+          difference: row.difference,
+          unit_cost: String(row.unitCost),
+        })),
+      });
+      setShowCommit(false);
+      setReason(null);
+      setNotes("");
+      discard();
+      setMode("count");
+      Alert.alert(
+        "Stock updated",
+        `${variances.length} product${variances.length === 1 ? "" : "s"} adjusted by the counted difference.`,
+      );
+    } catch (error) {
+      Alert.alert(
+        "Error",
+        getApiErrorMessage(
+          error,
+          "Failed to save the stock-take. Please try again.",
+        ),
+      );
+    }
+  };
+
+  const renderCountRow = ({ item }: { item: ApiUserInventoryItem }) => {
+    const id = String(item.id);
+    const counted = counts[id];
+    const onRecord = Number(item.units_in_stock || 0);
+    const difference =
+      counted != null ? counted - (expected[id] ?? onRecord) : 0;
+
+    return (
+      <View style={styles.countCard}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.productName} numberOfLines={1}>
+            {getItemName(item)}
+          </Text>
+          <Text style={styles.productMeta}>
+            On record: {formatNumber(item.units_in_stock)}
+            {counted != null && difference !== 0 && (
+              <Text
+                style={difference < 0 ? styles.shortText : styles.overText}
+              >
+                {"  "}
+                {formatDifference(difference)}
+              </Text>
+            )}
+          </Text>
+        </View>
+        <TextInput
+          style={[styles.countInput, counted != null && styles.countInputDone]}
+          value={counted != null ? String(counted) : ""}
+          onChangeText={(value) => {
+            const digits = value.replace(/[^0-9]/g, "");
+            if (digits === "") clearCount(id);
+            else setCount(id, parseInt(digits, 10), onRecord);
+          }}
+          placeholder="Count"
+          placeholderTextColor={colors.textMuted}
+          keyboardType="number-pad"
+        />
+      </View>
+    );
+  };
+
+  const renderVarianceRow = ({ item }: { item: StockVariance }) => (
+    <View style={styles.countCard}>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.productName} numberOfLines={1}>
+          {getItemName(item.item)}
+        </Text>
+        <Text style={styles.productMeta}>
+          {formatNumber(item.expected)} on record → {formatNumber(item.counted)}{" "}
+          counted
+        </Text>
+      </View>
+      <View style={styles.varianceRight}>
+        <Text style={item.difference < 0 ? styles.shortText : styles.overText}>
+          {formatDifference(item.difference)}
+        </Text>
+        <Text style={styles.productMeta}>
+          {formatCurrency(item.costValue, 0)}
+        </Text>
+      </View>
+    </View>
+  );
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerTitle}>Stock Take</Text>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={styles.backButton}
+        activeOpacity={0.8}
+      >
+        <Feather name="arrow-left" size={22} color={colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!session) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyState}>
+          <Feather name="clipboard" size={48} color={colors.primary} />
+          <Text style={styles.emptyTitle}>Count what&apos;s on the shelf</Text>
+          <Text style={styles.emptyText}>
+            Walk through a category or scan barcodes and enter what you count.
+            Differences from your records are shown with their cost before
+            anything is changed.
+          </Text>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={start}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.primaryButtonText}>Start stock-take</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader()}
+
+      <View style={styles.sessionBar}>
+        <Text style={styles.sessionText}>
+          {formatNumber(countedTotal)} of {formatNumber(inventory.length)}{" "}
+          counted · started {formatDateLabel(new Date(session.startedAt))}
+        </Text>
+        <TouchableOpacity onPress={handleDiscard}>
+          <Text style={styles.discardText}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.modeTabs}>
+        {(["count", "review"] as ViewMode[]).map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.modeTab, mode === value && styles.modeTabActive]}
+            onPress={() => setMode(value)}
+          >
+            <Text
+              style={[
+                styles.modeTabText,
+                mode === value && styles.modeTabTextActive,
+              ]}
+            >
+              {value === "count"
+                ? "Count"
+                : `Variances (${formatNumber(variances.length)})`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === "count" ? (
+        <>
+          <View style={styles.searchRow}>
+            <View style={styles.searchInputContainer}>
+              <Feather name="search" size={16} color={colors.textMuted} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search name or barcode"
+                placeholderTextColor={colors.textMuted}
+                value={search}
+                onChangeText={setSearch}
+                autoCorrect={false}
+              />
+            </View>
+            <TouchableOpacity
+              style={styles.scanButton}
+              onPress={() => {
+                setScanStatus("");
+                setShowScanner(true);
+              }}
+            >
+              <Feather name="maximize" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <View>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.categoryChips}
+            >
+              {[null, ...categories].map((value) => (
+                <TouchableOpacity
+                  key={value ?? "all"}
+                  style={[
+                    styles.categoryChip,
+                    category === value && styles.categoryChipActive,
+                  ]}
+                  onPress={() => setCategory(value)}
+                >
+                  <Text
+                    style={[
+                      styles.categoryChipText,
+                      category === value && styles.categoryChipTextActive,
+                    ]}
+                  >
+                    {value ?? "All"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
+          <FlatList
+            data={visibleItems}
+            keyExtractor={(item) => String(item.id)}
+            renderItem={renderCountRow}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={styles.listEmpty}>No products match.</Text>
+            }
+          />
+        </>
+      ) : (
+        <FlatList
+          data={variances}
+          keyExtractor={(item) => String(item.item.id)}
+          renderItem={renderVarianceRow}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            <View style={styles.totalsCard}>
+              <View style={styles.totalsRow}>
+                <Text style={styles.totalsLabel}>Missing</Text>
+                <Text style={styles.shortText}>
+                  {formatNumber(totals.short)} units ·{" "}
+                  {formatCurrency(totals.shortValue, 0)}
+                </Text>
+              </View>
+              <View style={styles.totalsRow}>
+                <Text style={styles.totalsLabel}>Extra</Text>
+                <Text style={styles.overText}>
+                  {formatNumber(totals.over)} units ·{" "}
+                  {formatCurrency(totals.overValue, 0)}
+                </Text>
+              </View>
+              <View style={[styles.totalsRow, styles.totalsNet]}>
+                <Text style={styles.totalsNetLabel}>Net at cost</Text>
+                <Text style={styles.totalsNetLabel}>
+                  {formatCurrency(totals.netValue, 0)}
+                </Text>
+              </View>
+            </View>
+          }
+          ListEmptyComponent={
+            <Text style={styles.listEmpty}>
+              {countedTotal === 0
+                ? "Nothing counted yet."
+                : "Every counted product matches your records."}
+            </Text>
+          }
+        />
+      )}
+
+      {mode === "review" && variances.length > 0 && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={styles.primaryButton}
+            onPress={() => setShowCommit(true)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.primaryButtonText}>
+              Adjust {formatNumber(variances.length)} product
+              {variances.length === 1 ? "" : "s"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <BarcodeScanner
+        visible={showScanner}
+        continuous
+        title="Scan to count"
+        statusMessage={scanStatus}
+        onClose={() => setShowScanner(false)}
+        onScanned={handleBarcodeScanned}
+      />
+
+      <Modal
+        visible={showCommit}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowCommit(false)}
+      >
+        <KeyboardAvoidingView
+          style={styles.overlay}
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+        >
+          <View style={styles.sheet}>
+            <View style={styles.sheetHeader}>
+              <Text style={styles.sheetTitle}>Commit stock-take</Text>
+              <TouchableOpacity onPress={() => setShowCommit(false)}>
+                <Feather name="x" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.sheetText}>
+              {formatNumber(variances.length)} products will be set to their
+              counted quantity ({formatCurrency(totals.netValue, 0)} at cost).
+            </Text>
+
+            <Text style={styles.sheetLabel}>Reason</Text>
+            <View style={styles.reasonChips}>
+              {STOCK_TAKE_REASONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.categoryChip,
+                    styles.reasonChip,
+                    reason === option.value && styles.categoryChipActive,
+                  ]}
+                  onPress={() => setReason(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.categoryChipText,
+                      reason === option.value && styles.categoryChipTextActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sheetLabel}>Notes (optional)</Text>
+            <TextInput
+              style={styles.notesInput}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Who counted, anything unusual…"
+              placeholderTextColor={colors.textMuted}
+              multiline
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                commitAdjustments.isPending && styles.buttonDisabled,
+              ]}
+              onPress={handleCommit}
+              disabled={commitAdjustments.isPending}
+            >
+              {commitAdjustments.isPending ? (
+                <ActivityIndicator color={colors.onPrimary} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Save adjustments</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+      paddingHorizontal: scale(28),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      marginBottom: verticalScale(24),
+      textAlign: "center",
+    },
+    listEmpty: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      textAlign: "center",
+      paddingVertical: verticalScale(24),
+    },
+
+    // ── Session ─────────────────────────────────────────────────────────────
+    sessionBar: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      marginBottom: verticalScale(10),
+    },
+    sessionText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    discardText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.danger,
+    },
+    modeTabs: {
+      flexDirection: "row",
+      marginHorizontal: scale(20),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(4),
+      marginBottom: verticalScale(12),
+    },
+    modeTab: {
+      flex: 1,
+      alignItems: "center",
+      paddingVertical: verticalScale(10),
+      borderRadius: moderateScale(10),
+    },
+    modeTabActive: {
+      backgroundColor: colors.primary,
+    },
+    modeTabText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.textSecondary,
+    },
+    modeTabTextActive: {
+      color: colors.onPrimary,
+    },
+
+    // ── Count ───────────────────────────────────────────────────────────────
+    searchRow: {
+      flexDirection: "row",
+      gap: scale(10),
+      paddingHorizontal: scale(20),
+    },
+    searchInputContainer: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(8),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      paddingHorizontal: scale(12),
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: verticalScale(12),
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    scanButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    categoryChips: {
+      gap: scale(8),
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(12),
+    },
+    categoryChip: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(20),
+      paddingVertical: verticalScale(8),
+      paddingHorizontal: scale(14),
+    },
+    categoryChipActive: {
+      backgroundColor: colors.primary,
+    },
+    categoryChipText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    categoryChipTextActive: {
+      color: colors.onPrimary,
+    },
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(120),
+      gap: verticalScale(10),
+    },
+    countCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    productName: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    productMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    countInput: {
+      width: scale(80),
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: moderateScale(10),
+      paddingVertical: verticalScale(8),
+      textAlign: "center",
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    countInputDone: {
+      borderColor: colors.primary,
+      backgroundColor: colors.background,
+    },
+    shortText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.danger,
+    },
+    overText: {
+      fontSize: moderateScale(13),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.success,
+    },
+
+    // ── Review ──────────────────────────────────────────────────────────────
+    varianceRight: {
+      alignItems: "flex-end",
+    },
+    totalsCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(16),
+      gap: verticalScale(8),
+    },
+    totalsRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    totalsLabel: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    totalsNet: {
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      paddingTop: verticalScale(8),
+    },
+    totalsNetLabel: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    footer: {
+      position: "absolute",
+      left: scale(20),
+      right: scale(20),
+      bottom: verticalScale(24),
+    },
+    primaryButton: {
+      alignSelf: "stretch",
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingVertical: verticalScale(16),
+      alignItems: "center",
+    },
+    primaryButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+
+    // ── Commit sheet ────────────────────────────────────────────────────────
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    sheetHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    sheetTitle: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    sheetText: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: 8,
+    },
+    sheetLabel: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    reasonChips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    reasonChip: {
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    notesInput: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      minHeight: 70,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      textAlignVertical: "top",
+      marginBottom: 20,
+    },
+  });
+
+export default StockTakeScreen;
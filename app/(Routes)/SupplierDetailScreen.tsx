@@ -0,0 +1,476 @@
+// app/(Routes)/SupplierDetailScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Dimensions,
+    Linking,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import SupplierFormModal from "@/components/SupplierFormModal";
+import {
+    useAllInventory,
+    useDeleteSupplier,
+    useRestockHistory,
+    useSuppliers,
+} from "@/hooks/useSuppliers";
+import {
+    formatCurrency,
+    formatDateLabel,
+    formatNumber,
+} from "@/utils/formatters";
+import {
+    getRestockCost,
+    getSupplierItems,
+    getSupplierRestocks,
+    isLowStock,
+    sumRestockSpend,
+} from "@/utils/suppliers";
+import type { ThemeColors } from "@/constants/theme";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const RECENT_DELIVERIES = 10;
+
+const SupplierDetailScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { canDelete } = usePermissions();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const { data: suppliers = [], isLoading } = useSuppliers();
+  const { data: inventory = [] } = useAllInventory();
+  const { data: restocks = [] } = useRestockHistory();
+  const deleteSupplier = useDeleteSupplier();
+  const [showForm, setShowForm] = useState(false);
+
+  const supplier = suppliers.find((s) => String(s.id) === params.id);
+
+  const items = useMemo(
+    () => (supplier ? getSupplierItems(supplier, inventory) : []),
+    [supplier, inventory],
+  );
+  const deliveries = useMemo(
+    () =>
+      supplier
+        ? getSupplierRestocks(supplier, restocks).sort(
+            (a, b) =>
+              new Date(b.date_arrived || b.created_at || 0).getTime() -
+              new Date(a.date_arrived || a.created_at || 0).getTime(),
+          )
+        : [],
+    [supplier, restocks],
+  );
+
+  const openUrl = (url: string, failure: string) => {
+    Linking.openURL(url).catch(() => Alert.alert("Error", failure));
+  };
+
+  const confirmDelete = () => {
+    if (!supplier) return;
+    Alert.alert(
+      "Delete supplier",
+      `Remove ${supplier.name}? Products keep their supplier details.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () =>
+            deleteSupplier.mutate(supplier.id, {
+              onSuccess: () => router.back(),
+              onError: () =>
+                Alert.alert("Error", "Failed to delete supplier."),
+            }),
+        },
+      ],
+    );
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.headerTitle} numberOfLines={1}>
+        {supplier?.name || "Supplier"}
+      </Text>
+      <TouchableOpacity
+        onPress={() => router.back()}
+        style={styles.backButton}
+        activeOpacity={0.8}
+      >
+        <Feather name="arrow-left" size={22} color={colors.text} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (isLoading || !supplier) {
+    return (
+      <SafeAreaView style={styles.container}>
+        {renderHeader()}
+        <View style={styles.centerContainer}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color={colors.primary} />
+          ) : (
+            <Text style={styles.emptyText}>Supplier not found.</Text>
+          )}
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const lowStockCount = items.filter(isLowStock).length;
+  const recentDeliveries = deliveries.slice(0, RECENT_DELIVERIES);
+  const stats = [
+    { label: "Products", value: String(items.length) },
+    { label: "Low stock", value: String(lowStockCount) },
+    {
+      label: "Total spend",
+      value: formatCurrency(sumRestockSpend(deliveries)),
+    },
+    { label: "Deliveries", value: String(deliveries.length) },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {renderHeader()}
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {!!(supplier.phone || supplier.address) && (
+          <Text style={styles.contactText}>
+            {[supplier.phone, supplier.address].filter(Boolean).join(" · ")}
+          </Text>
+        )}
+
+        <View style={styles.statsGrid}>
+          {stats.map((stat) => (
+            <View key={stat.label} style={styles.statCard}>
+              <Text style={styles.statLabel}>{stat.label}</Text>
+              <Text style={styles.statValue}>{stat.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.actionRow}>
+          {!!supplier.phone && (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() =>
+                openUrl(`tel:${supplier.phone}`, "Unable to open the dialer.")
+              }
+            >
+              <Feather name="phone" size={16} color={colors.primary} />
+              <Text style={styles.actionText}>Call</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setShowForm(true)}
+          >
+            <Feather name="edit-2" size={16} color={colors.primary} />
+            <Text style={styles.actionText}>Edit</Text>
+          </TouchableOpacity>
+          {canDelete && (
+            <TouchableOpacity
+              style={[styles.actionButton, styles.deleteButton]}
+              onPress={confirmDelete}
+            >
+              <Feather name="trash-2" size={16} color="#E74C3C" />
+              <Text style={[styles.actionText, styles.deleteText]}>
+                Delete
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <TouchableOpacity
+          style={styles.orderButton}
+          activeOpacity={0.85}
+          onPress={() =>
+            router.push({
+              pathname: "/(Routes)/PurchaseOrderScreen" as any,
+              params: { id: String(supplier.id) },
+            })
+          }
+        >
+          <Feather name="clipboard" size={18} color="#fff" />
+          <Text style={styles.orderButtonText}>
+            Create purchase order
+            {lowStockCount > 0 ? ` (${lowStockCount} low)` : ""}
+          </Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>Products</Text>
+        <View style={styles.listCard}>
+          {items.length === 0 ? (
+            <Text style={styles.emptyRow}>
+              No products list this supplier yet.
+            </Text>
+          ) : (
+            items.map((item, index) => (
+              <View
+                key={item.id}
+                style={[
+                  styles.row,
+                  index === items.length - 1 && styles.rowLast,
+                ]}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rowTitle} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                  <Text style={styles.rowMeta}>
+                    Cost {formatCurrency(item.cost_price)}
+                  </Text>
+                </View>
+                <Text
+                  style={[
+                    styles.rowValue,
+                    isLowStock(item) && styles.lowStockValue,
+                  ]}
+                >
+                  {formatNumber(item.units_in_stock)} left
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Recent deliveries</Text>
+        <View style={styles.listCard}>
+          {deliveries.length === 0 ? (
+            <Text style={styles.emptyRow}>No restocks recorded yet.</Text>
+          ) : (
+            recentDeliveries.map((restock, index) => {
+              const date = new Date(
+                restock.date_arrived || restock.created_at || "",
+              );
+              return (
+                <View
+                  key={restock.id}
+                  style={[
+                    styles.row,
+                    index === recentDeliveries.length - 1 && styles.rowLast,
+                  ]}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.rowTitle} numberOfLines={1}>
+                      {restock.product_name || "Restock"} X
+                      {formatNumber(restock.quantity_added)}
+                    </Text>
+                    <Text style={styles.rowMeta}>
+                      {isNaN(date.getTime()) ? "—" : formatDateLabel(date)}
+                    </Text>
+                  </View>
+                  <Text style={styles.rowValue}>
+                    {formatCurrency(getRestockCost(restock))}
+                  </Text>
+                </View>
+              );
+            })
+          )}
+        </View>
+      </ScrollView>
+
+      <SupplierFormModal
+        visible={showForm}
+        supplier={supplier}
+        onClose={() => setShowForm(false)}
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      gap: scale(12),
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyText: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    scrollContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(40),
+    },
+    contactText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginBottom: verticalScale(12),
+    },
+
+    // ── Stats ───────────────────────────────────────────────────────────────
+    statsGrid: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: scale(10),
+    },
+    statCard: {
+      width: (width - scale(40) - scale(10)) / 2,
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(14),
+    },
+    statLabel: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+    },
+    statValue: {
+      fontSize: moderateScale(17),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginTop: verticalScale(4),
+    },
+    actionRow: {
+      flexDirection: "row",
+      gap: scale(10),
+      marginTop: verticalScale(14),
+    },
+    actionButton: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: scale(6),
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: moderateScale(10),
+      paddingVertical: verticalScale(10),
+    },
+    actionText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.primary,
+    },
+    deleteButton: {
+      borderColor: "#E74C3C",
+    },
+    deleteText: {
+      color: "#E74C3C",
+    },
+    orderButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: scale(8),
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(14),
+      paddingVertical: verticalScale(16),
+      marginTop: verticalScale(14),
+    },
+    orderButtonText: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.onPrimary,
+    },
+
+    // ── Lists ───────────────────────────────────────────────────────────────
+    sectionTitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(20),
+      marginBottom: verticalScale(10),
+    },
+    listCard: {
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      paddingHorizontal: scale(14),
+    },
+    emptyRow: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      paddingVertical: verticalScale(14),
+    },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(10),
+      paddingVertical: verticalScale(12),
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    rowLast: {
+      borderBottomWidth: 0,
+    },
+    rowTitle: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    rowMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    rowValue: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    lowStockValue: {
+      color: "#E74C3C",
+    },
+  });
+
+export default SupplierDetailScreen;
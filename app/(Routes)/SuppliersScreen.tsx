@@ -0,0 +1,325 @@
+// app/(Routes)/SuppliersScreen.tsx
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Dimensions,
+    FlatList,
+    RefreshControl,
+    SafeAreaView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import SupplierFormModal from "@/components/SupplierFormModal";
+import {
+    useAllInventory,
+    useRestockHistory,
+    useSuppliers,
+} from "@/hooks/useSuppliers";
+import type { ApiSupplier } from "@/src/api/products";
+import { formatCurrency } from "@/utils/formatters";
+import {
+    getSupplierItems,
+    getSupplierRestocks,
+    isLowStock,
+    sumRestockSpend,
+} from "@/utils/suppliers";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const { width, height } = Dimensions.get("window");
+
+// Responsive sizing functions
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+const scale = (size: number) =>
+  clamp((width / 375) * size, size * 0.76, size * 1.3);
+const verticalScale = (size: number) =>
+  clamp((height / 812) * size, size * 0.62, size * 1.2);
+const moderateScale = (size: number, factor = 0.5) =>
+  size + (scale(size) - size) * factor;
+
+const SuppliersScreen = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const {
+    data: suppliers = [],
+    isLoading,
+    isRefetching,
+    refetch,
+  } = useSuppliers();
+  const { data: inventory = [] } = useAllInventory();
+  const { data: restocks = [] } = useRestockHistory();
+  const [search, setSearch] = useState("");
+  const [showForm, setShowForm] = useState(false);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return suppliers
+      .filter(
+        (supplier) =>
+          !query ||
+          supplier.name.toLowerCase().includes(query) ||
+          (supplier.phone || "").includes(query),
+      )
+      .map((supplier) => {
+        const items = getSupplierItems(supplier, inventory);
+        return {
+          supplier,
+          productCount: items.length,
+          lowStockCount: items.filter(isLowStock).length,
+          spend: sumRestockSpend(getSupplierRestocks(supplier, restocks)),
+        };
+      })
+      .sort((a, b) => b.spend - a.spend);
+  }, [suppliers, inventory, restocks, search]);
+
+  const openSupplier = (supplier: ApiSupplier) =>
+    router.push({
+      pathname: "/(Routes)/SupplierDetailScreen" as any,
+      params: { id: String(supplier.id) },
+    });
+
+  const renderSupplier = ({ item }: { item: (typeof rows)[number] }) => (
+    <TouchableOpacity
+      style={styles.supplierCard}
+      activeOpacity={0.7}
+      onPress={() => openSupplier(item.supplier)}
+    >
+      <View style={styles.avatar}>
+        <Feather name="truck" size={18} color={colors.primary} />
+      </View>
+      <View style={{ flex: 1 }}>
+        <Text style={styles.supplierName} numberOfLines={1}>
+          {item.supplier.name}
+        </Text>
+        <Text style={styles.supplierMeta} numberOfLines={1}>
+          {item.supplier.phone || "No phone"} · {item.productCount}{" "}
+          {item.productCount === 1 ? "product" : "products"}
+        </Text>
+      </View>
+      <View style={styles.supplierRight}>
+        <Text style={styles.supplierSpend}>
+          {formatCurrency(item.spend, 0)}
+        </Text>
+        {item.lowStockCount > 0 && (
+          <Text style={styles.lowStockText}>{item.lowStockCount} low</Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Suppliers</Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.backButton}
+          activeOpacity={0.8}
+        >
+          <Feather name="arrow-left" size={22} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Feather name="search" size={18} color="#8E8E93" />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search by name or phone"
+          placeholderTextColor={colors.textMuted}
+          value={search}
+          onChangeText={setSearch}
+        />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={rows}
+          keyExtractor={(item) => String(item.supplier.id)}
+          renderItem={renderSupplier}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="truck" size={48} color="#C0C0C0" />
+              <Text style={styles.emptyTitle}>
+                {search ? "No matching suppliers" : "No suppliers yet"}
+              </Text>
+              <Text style={styles.emptyText}>
+                Save the people you buy from to track spend and send purchase
+                orders.
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      <TouchableOpacity
+        style={styles.fab}
+        onPress={() => setShowForm(true)}
+        activeOpacity={0.85}
+      >
+        <Feather name="plus" size={moderateScale(28)} color="white" />
+      </TouchableOpacity>
+
+      <SupplierFormModal
+        visible={showForm}
+        onClose={() => setShowForm(false)}
+        onSaved={openSupplier}
+      />
+    </SafeAreaView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+
+    // ── Header ──────────────────────────────────────────────────────────────
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(14),
+    },
+    headerTitle: {
+      fontSize: moderateScale(26),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    backButton: {
+      width: scale(46),
+      height: scale(46),
+      borderRadius: moderateScale(12),
+      backgroundColor: colors.surface,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    searchContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(8),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      marginHorizontal: scale(20),
+      marginBottom: verticalScale(12),
+      paddingHorizontal: scale(14),
+      paddingVertical: verticalScale(12),
+    },
+    searchInput: {
+      flex: 1,
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      padding: 0,
+    },
+
+    // ── States ──────────────────────────────────────────────────────────────
+    centerContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    emptyState: {
+      alignItems: "center",
+      paddingVertical: verticalScale(48),
+      paddingHorizontal: scale(20),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      marginTop: verticalScale(12),
+    },
+    emptyText: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: verticalScale(6),
+      textAlign: "center",
+    },
+
+    // ── List ────────────────────────────────────────────────────────────────
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(110),
+      gap: verticalScale(10),
+    },
+    supplierCard: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(14),
+      padding: scale(14),
+    },
+    avatar: {
+      width: scale(42),
+      height: scale(42),
+      borderRadius: scale(21),
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    supplierName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    supplierMeta: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: verticalScale(2),
+    },
+    supplierRight: {
+      alignItems: "flex-end",
+    },
+    supplierSpend: {
+      fontSize: moderateScale(15),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    lowStockText: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_500Medium",
+      color: "#E74C3C",
+      marginTop: verticalScale(2),
+    },
+    fab: {
+      position: "absolute",
+      right: scale(20),
+      bottom: verticalScale(28),
+      width: moderateScale(60),
+      height: moderateScale(60),
+      borderRadius: moderateScale(30),
+      backgroundColor: colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+      shadowColor: "#1155CC",
+      shadowOffset: { width: 0, height: 6 },
+      shadowOpacity: 0.35,
+      shadowRadius: 10,
+      elevation: 8,
+    },
+  });
+
+export default SuppliersScreen;
@@ -1,7 +1,7 @@
 // app/(Routes)/TotalSummaryScreen.tsx
 import { Feather, Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   ActivityIndicator,
   Dimensions,
@@ -15,8 +15,15 @@ import {
   View,
 } from "react-native";
 
-import { listSales } from "@/src/api";
-import { formatNumber } from "@/utils/formatters";
+import StaffFilter from "@/components/StaffFilter";
+import { useCostOfGoods } from "@/hooks/useCostOfGoods";
+import { usePermissions } from "@/hooks/usePermissions";
+import { listRefunds, listSales, type ApiRefundItem } from "@/src/api";
+import { getSaleLineKey } from "@/utils/costing";
+import { formatCurrency, getFormatLocale } from "@/utils/formatters";
+import { getSaleSeller, getSellers, type SellerFields } from "@/utils/staff";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const { width, height } = Dimensions.get("window");
 
@@ -30,7 +37,7 @@ const verticalScale = (size: number) =>
 const moderateScale = (size: number, factor = 0.5) =>
   size + (scale(size) - size) * factor;
 
-interface SalesSummaryItem {
+interface SalesSummaryItem extends SellerFields {
   id: string;
   image?: string;
   name: string;
@@ -39,26 +46,62 @@ interface SalesSummaryItem {
   amount: number;
   profit: number;
   productId?: string;
+  // Looks up the line's cost of goods from restock lots
+  lineKey?: string;
+  // Returns show up as negative lines against the original sale
+  isReturn?: boolean;
+  saleId?: string;
 }
 
 const TotalSummaryScreen = () => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const { date } = useLocalSearchParams();
   const selectedDate = date ? new Date(date as string) : null;
-  const [sales, setSales] = useState<SalesSummaryItem[]>([]);
+  const [rows, setRows] = useState<SalesSummaryItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [totalSales, setTotalSales] = useState(0);
-  const [totalProfit, setTotalProfit] = useState(0);
-  const [totalTransactions, setTotalTransactions] = useState(0);
+  const [sellerId, setSellerId] = useState<string | null>(null);
+  const { lineCosts } = useCostOfGoods();
+  const { canViewProfit } = usePermissions();
+  const sellers = useMemo(() => getSellers(rows), [rows]);
+
+  // Profit uses the lot cost when the line has been costed, otherwise the
+  // figure the server recorded at the time of sale
+  const costedRows = useMemo(
+    () =>
+      rows.map((row) => {
+        const cost = row.lineKey ? lineCosts.get(row.lineKey) : undefined;
+        return cost === undefined ? row : { ...row, profit: row.amount - cost };
+      }),
+    [rows, lineCosts],
+  );
+  const activeSellerId = sellers.some((seller) => seller.id === sellerId)
+    ? sellerId
+    : null;
+  const visibleRows = activeSellerId
+    ? costedRows.filter((row) => row.soldById === activeSellerId)
+    : costedRows;
+  const sales = visibleRows.slice(0, 3);
+  const totalSales = visibleRows.reduce((sum, i) => sum + i.amount, 0);
+  const totalProfit = visibleRows.reduce((sum, i) => sum + i.profit, 0);
+  const totalTransactions = new Set(
+    visibleRows.filter((i) => !i.isReturn).map((i) => i.id.split("-")[0]),
+  ).size;
 
   useEffect(() => {
     const loadSales = async () => {
       try {
-        const response = await listSales();
+        const [response, refunds] = await Promise.all([
+          listSales(),
+          listRefunds().catch(() => []),
+        ]);
 
-        let salesTotal = 0;
-        let profitTotal = 0;
         const salesData: SalesSummaryItem[] = [];
+        // Returns count against whoever made the original sale
+        const sellerBySale = new Map(
+          response.map((sale) => [String(sale.id), getSaleSeller(sale)]),
+        );
 
         response.forEach((sale) => {
           const items = Array.isArray(sale.items) ? sale.items : [];
@@ -74,10 +117,8 @@ const TotalSummaryScreen = () => {
               amount: Number(sale.total_amount || 0),
               profit: Number(sale.total_profit || 0),
               productId: undefined,
+              ...getSaleSeller(sale),
             });
-
-            salesTotal += Number(sale.total_amount || 0);
-            profitTotal += Number(sale.total_profit || 0);
             return;
           }
 
@@ -95,10 +136,41 @@ const TotalSummaryScreen = () => {
               amount,
               profit,
               productId: String(item.product),
+              lineKey: getSaleLineKey(sale.id, index),
+              ...getSaleSeller(sale),
             });
+          });
+        });
 
-            salesTotal += amount;
-            profitTotal += profit;
+        refunds.forEach((refund) => {
+          const refundItems: ApiRefundItem[] =
+            refund.items.length > 0
+              ? refund.items
+              : [
+                  {
+                    product_name: "Items",
+                    quantity: 1,
+                    amount: refund.amount,
+                    profit: refund.profit,
+                  },
+                ];
+          refundItems.forEach((item, index) => {
+            const amount = Number(item.amount || 0);
+            const profit = Number(item.profit || 0);
+
+            salesData.push({
+              id: `return-${refund.id}-${index}`,
+              image: undefined,
+              name: `Return: ${item.product_name || "Unknown Product"}`,
+              quantity: Number(item.quantity || 1),
+              date: refund.created_at || new Date().toISOString(),
+              amount: -amount,
+              profit: -profit,
+              productId: item.product ? String(item.product) : undefined,
+              isReturn: true,
+              saleId: String(refund.sale),
+              ...sellerBySale.get(String(refund.sale)),
+            });
           });
         });
 
@@ -118,16 +190,7 @@ const TotalSummaryScreen = () => {
             })
           : salesData;
 
-        const topThreeData = filteredData.slice(0, 3);
-
-        setSales(topThreeData);
-        setTotalSales(filteredData.reduce((sum, i) => sum + i.amount, 0));
-        setTotalProfit(filteredData.reduce((sum, i) => sum + i.profit, 0));
-        setTotalTransactions(
-          selectedDate
-            ? new Set(filteredData.map((i) => i.id.split("-")[0])).size
-            : response.length,
-        );
+        setRows(filteredData);
       } catch (error) {
         console.error("Error loading sales summary:", error);
       } finally {
@@ -144,14 +207,10 @@ const TotalSummaryScreen = () => {
     return () => clearInterval(interval);
   }, [router]);
 
-  const formatCurrency = (value: number) => {
-    return `₦${formatNumber(value, 2)}`;
-  };
-
   const formatDate = (dateString: string) => {
     try {
       const date = new Date(dateString);
-      return date.toLocaleDateString("en-US", {
+      return date.toLocaleDateString(getFormatLocale(), {
         month: "short",
         day: "numeric",
         hour: "2-digit",
@@ -168,7 +227,11 @@ const TotalSummaryScreen = () => {
       onPress={() =>
         router.push({
           pathname: "/(Routes)/SalesDetailScreen",
-          params: { sale: JSON.stringify(item) },
+          params: {
+            sale: JSON.stringify(
+              item.isReturn ? { ...item, id: item.saleId } : item,
+            ),
+          },
         })
       }
     >
@@ -176,7 +239,7 @@ const TotalSummaryScreen = () => {
         <Image source={{ uri: item.image }} style={styles.image} />
       ) : (
         <View style={[styles.image, styles.imageFallback]}>
-          <Feather name="image" size={18} color="#94A3B8" />
+          <Feather name="image" size={18} color={colors.textMuted} />
         </View>
       )}
       <View style={styles.itemInfo}>
@@ -186,8 +249,27 @@ const TotalSummaryScreen = () => {
         <Text style={styles.date}>{formatDate(item.date)}</Text>
       </View>
       <View style={styles.amountContainer}>
-        <Text style={styles.amount}>{formatCurrency(item.amount)}</Text>
-        <Text style={styles.profit}>+{formatCurrency(item.profit)}</Text>
+        {item.isReturn ? (
+          <>
+            <Text style={[styles.amount, styles.returnAmount]}>
+              -{formatCurrency(Math.abs(item.amount))}
+            </Text>
+            {canViewProfit && (
+              <Text style={[styles.profit, styles.returnAmount]}>
+                -{formatCurrency(Math.abs(item.profit))}
+              </Text>
+            )}
+          </>
+        ) : (
+          <>
+            <Text style={styles.amount}>{formatCurrency(item.amount)}</Text>
+            {canViewProfit && (
+              <Text style={styles.profit}>
+                +{formatCurrency(item.profit)}
+              </Text>
+            )}
+          </>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -200,13 +282,13 @@ const TotalSummaryScreen = () => {
             onPress={() => router.back()}
             style={styles.backButton}
           >
-            <Ionicons name="arrow-back" size={24} color="#333" />
+            <Ionicons name="arrow-back" size={24} color={colors.text} />
           </TouchableOpacity>
           <Text style={styles.headerTitle}>Sales Summary</Text>
           <View style={styles.placeholder} />
         </View>
         <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color="#0056D2" />
+          <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>Loading sales data...</Text>
         </View>
       </SafeAreaView>
@@ -215,7 +297,10 @@ const TotalSummaryScreen = () => {
 
   return (
     <SafeAreaView style={styles.container}>
-      <StatusBar backgroundColor="#E7EEFA" barStyle="dark-content" />
+      <StatusBar
+        backgroundColor={colors.background}
+        barStyle={isDark ? "light-content" : "dark-content"}
+      />
 
       {/* Header */}
       <View style={styles.header}>
@@ -223,11 +308,11 @@ const TotalSummaryScreen = () => {
           onPress={() => router.back()}
           style={styles.backButton}
         >
-          <Ionicons name="arrow-back" size={24} color="#333" />
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>
           {selectedDate
-            ? selectedDate.toLocaleDateString("en-US", {
+            ? selectedDate.toLocaleDateString(getFormatLocale(), {
                 month: "short",
                 day: "numeric",
                 year: "numeric",
@@ -240,30 +325,41 @@ const TotalSummaryScreen = () => {
       {/* Summary Cards */}
       <View style={styles.summaryContainer}>
         <View style={styles.summaryCard}>
-          <View style={[styles.iconContainer, { backgroundColor: "#E3F2FD" }]}>
-            <Feather name="dollar-sign" size={20} color="#0056D2" />
+          <View style={[styles.iconContainer, styles.salesIcon]}>
+            <Feather name="dollar-sign" size={20} color={colors.primary} />
           </View>
           <Text style={styles.summaryValue}>{formatCurrency(totalSales)}</Text>
           <Text style={styles.summaryLabel}>Total Sales</Text>
         </View>
 
-        <View style={styles.summaryCard}>
-          <View style={[styles.iconContainer, { backgroundColor: "#E8F5E8" }]}>
-            <Feather name="trending-up" size={20} color="#22C55E" />
+        {canViewProfit && (
+          <View style={styles.summaryCard}>
+            <View style={[styles.iconContainer, styles.profitIcon]}>
+              <Feather name="trending-up" size={20} color={colors.success} />
+            </View>
+            <Text style={styles.summaryValue}>
+              {formatCurrency(totalProfit)}
+            </Text>
+            <Text style={styles.summaryLabel}>Total Profit</Text>
           </View>
-          <Text style={styles.summaryValue}>{formatCurrency(totalProfit)}</Text>
-          <Text style={styles.summaryLabel}>Total Profit</Text>
-        </View>
+        )}
 
         <View style={styles.summaryCard}>
-          <View style={[styles.iconContainer, { backgroundColor: "#F3E5F5" }]}>
-            <Feather name="shopping-bag" size={20} color="#8B5CF6" />
+          <View style={[styles.iconContainer, styles.transactionsIcon]}>
+            <Feather name="shopping-bag" size={20} color={colors.warning} />
           </View>
           <Text style={styles.summaryValue}>{totalTransactions}</Text>
           <Text style={styles.summaryLabel}>Transactions</Text>
         </View>
       </View>
 
+      <StaffFilter
+        sellers={sellers}
+        selected={activeSellerId}
+        onSelect={setSellerId}
+        style={styles.staffFilter}
+      />
+
       {/* Sales List Header */}
       <View style={styles.listHeader}>
         <Text style={styles.listHeaderTitle}>Recent Sales</Text>
@@ -278,7 +374,7 @@ const TotalSummaryScreen = () => {
         contentContainerStyle={styles.listContent}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            <Feather name="shopping-bag" size={64} color="#E0E0E0" />
+            <Feather name="shopping-bag" size={64} color={colors.border} />
             <Text style={styles.emptyText}>No sales recorded yet</Text>
             <Text style={styles.emptySubtext}>
               Your sales will appear here once you start making transactions
@@ -297,175 +393,191 @@ const TotalSummaryScreen = () => {
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#E7EEFA",
-  },
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: scale(20),
-    paddingVertical: verticalScale(16),
-    backgroundColor: "#E7EEFA",
-    borderBottomWidth: 1,
-    borderBottomColor: "#E5E7EB",
-  },
-  backButton: {
-    padding: scale(4),
-  },
-  headerTitle: {
-    fontSize: moderateScale(20),
-    fontFamily: "DMSans_700Bold",
-    color: "#333",
-  },
-  placeholder: {
-    width: scale(24),
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  loadingText: {
-    marginTop: verticalScale(12),
-    fontSize: moderateScale(16),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  summaryContainer: {
-    flexDirection: "row",
-    paddingHorizontal: scale(20),
-    marginVertical: verticalScale(20),
-  },
-  summaryCard: {
-    flex: 1,
-    backgroundColor: "#fff",
-    borderRadius: moderateScale(12),
-    padding: scale(16),
-    marginHorizontal: scale(4),
-    alignItems: "center",
-  },
-  iconContainer: {
-    width: scale(40),
-    height: verticalScale(40),
-    borderRadius: moderateScale(20),
-    justifyContent: "center",
-    alignItems: "center",
-    marginBottom: verticalScale(8),
-  },
-  summaryValue: {
-    fontSize: moderateScale(14),
-    fontFamily: "DMSans_700Bold",
-    color: "#333",
-    marginBottom: verticalScale(4),
-  },
-  summaryLabel: {
-    fontSize: moderateScale(12),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  listHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: scale(20),
-    marginBottom: verticalScale(16),
-  },
-  listHeaderTitle: {
-    fontSize: moderateScale(18),
-    fontFamily: "DMSans_700Bold",
-    color: "#333",
-  },
-  listHeaderCount: {
-    fontSize: moderateScale(14),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  listContent: {
-    paddingHorizontal: scale(20),
-    paddingBottom: verticalScale(20),
-  },
-  saleItem: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "#fff",
-    borderRadius: moderateScale(12),
-    padding: scale(16),
-    marginBottom: verticalScale(12),
-  },
-  image: {
-    width: scale(48),
-    height: verticalScale(48),
-    borderRadius: moderateScale(8),
-    backgroundColor: "#f0f0f0",
-  },
-  imageFallback: {
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  itemInfo: {
-    flex: 1,
-    marginLeft: 12,
-  },
-  name: {
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-    color: "#333",
-    marginBottom: verticalScale(4),
-  },
-  date: {
-    fontSize: moderateScale(12),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  amountContainer: {
-    alignItems: "flex-end",
-  },
-  amount: {
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_700Bold",
-    color: "#0056D2",
-    marginBottom: verticalScale(2),
-  },
-  profit: {
-    fontSize: moderateScale(12),
-    color: "#22C55E",
-    fontFamily: "DMSans_400Regular",
-  },
-  emptyContainer: {
-    alignItems: "center",
-    justifyContent: "center",
-    paddingVertical: verticalScale(60),
-    paddingHorizontal: scale(40),
-  },
-  emptyText: {
-    fontSize: moderateScale(18),
-    color: "#666",
-    marginTop: verticalScale(16),
-    marginBottom: verticalScale(8),
-    fontFamily: "DMSans_700Bold",
-  },
-  emptySubtext: {
-    fontSize: moderateScale(14),
-    color: "#999",
-    textAlign: "center",
-    fontFamily: "DMSans_400Regular",
-    lineHeight: 20,
-    marginBottom: verticalScale(24),
-  },
-  quickSellButton: {
-    backgroundColor: "#0056D2",
-    paddingHorizontal: scale(24),
-    paddingVertical: verticalScale(12),
-    borderRadius: moderateScale(8),
-  },
-  quickSellText: {
-    color: "#fff",
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(16),
+      backgroundColor: colors.background,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    backButton: {
+      padding: scale(4),
+    },
+    headerTitle: {
+      fontSize: moderateScale(20),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    placeholder: {
+      width: scale(24),
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    loadingText: {
+      marginTop: verticalScale(12),
+      fontSize: moderateScale(16),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    summaryContainer: {
+      flexDirection: "row",
+      paddingHorizontal: scale(20),
+      marginVertical: verticalScale(20),
+    },
+    summaryCard: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(16),
+      marginHorizontal: scale(4),
+      alignItems: "center",
+    },
+    iconContainer: {
+      width: scale(40),
+      height: verticalScale(40),
+      borderRadius: moderateScale(20),
+      justifyContent: "center",
+      alignItems: "center",
+      marginBottom: verticalScale(8),
+    },
+    salesIcon: {
+      backgroundColor: colors.primarySoft,
+    },
+    profitIcon: {
+      backgroundColor: colors.successSoft,
+    },
+    transactionsIcon: {
+      backgroundColor: colors.warningSoft,
+    },
+    summaryValue: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginBottom: verticalScale(4),
+    },
+    summaryLabel: {
+      fontSize: moderateScale(12),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    staffFilter: {
+      paddingHorizontal: scale(20),
+    },
+    listHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: scale(20),
+      marginBottom: verticalScale(16),
+    },
+    listHeaderTitle: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    listHeaderCount: {
+      fontSize: moderateScale(14),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    listContent: {
+      paddingHorizontal: scale(20),
+      paddingBottom: verticalScale(20),
+    },
+    saleItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(16),
+      marginBottom: verticalScale(12),
+    },
+    image: {
+      width: scale(48),
+      height: verticalScale(48),
+      borderRadius: moderateScale(8),
+      backgroundColor: colors.surfaceMuted,
+    },
+    imageFallback: {
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    itemInfo: {
+      flex: 1,
+      marginLeft: 12,
+    },
+    name: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      marginBottom: verticalScale(4),
+    },
+    date: {
+      fontSize: moderateScale(12),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    amountContainer: {
+      alignItems: "flex-end",
+    },
+    amount: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.primary,
+      marginBottom: verticalScale(2),
+    },
+    profit: {
+      fontSize: moderateScale(12),
+      color: colors.success,
+      fontFamily: "DMSans_400Regular",
+    },
+    returnAmount: {
+      color: colors.danger,
+    },
+    emptyContainer: {
+      alignItems: "center",
+      justifyContent: "center",
+      paddingVertical: verticalScale(60),
+      paddingHorizontal: scale(40),
+    },
+    emptyText: {
+      fontSize: moderateScale(18),
+      color: colors.textSecondary,
+      marginTop: verticalScale(16),
+      marginBottom: verticalScale(8),
+      fontFamily: "DMSans_700Bold",
+    },
+    emptySubtext: {
+      fontSize: moderateScale(14),
+      color: colors.textMuted,
+      textAlign: "center",
+      fontFamily: "DMSans_400Regular",
+      lineHeight: 20,
+      marginBottom: verticalScale(24),
+    },
+    quickSellButton: {
+      backgroundColor: colors.primary,
+      paddingHorizontal: scale(24),
+      paddingVertical: verticalScale(12),
+      borderRadius: moderateScale(8),
+    },
+    quickSellText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+    },
+  });
 
 export default TotalSummaryScreen;
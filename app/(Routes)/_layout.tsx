@@ -2,9 +2,18 @@
 import { Stack } from "expo-router";
 import React from "react";
 
+import { useTheme } from "@/hooks/useTheme";
+
 export default function RoutesLayout() {
+  const { colors } = useTheme();
+
   return (
-    <Stack screenOptions={{ headerShown: false }}>
+    <Stack
+      screenOptions={{
+        headerShown: false,
+        contentStyle: { backgroundColor: colors.background },
+      }}
+    >
       <Stack.Screen
         name="Profile"
         options={{
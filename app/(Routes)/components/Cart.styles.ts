@@ -1,4 +1,5 @@
 import { Dimensions, StyleSheet } from "react-native";
+import type { ThemeColors } from "@/constants/theme";
 
 const { width, height } = Dimensions.get("window");
 
@@ -12,220 +13,324 @@ const verticalScale = (size: number) =>
 const moderateScale = (size: number, factor = 0.5) =>
   size + (scale(size) - size) * factor;
 
-export const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    paddingTop: verticalScale(30),
-    backgroundColor: "#E7EEFA",
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  loadingText: {
-    marginTop: verticalScale(10),
-    fontSize: moderateScale(16),
-    color: "#666",
-    fontFamily: "DMSans_400Regular",
-  },
-  header: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    paddingHorizontal: scale(20),
-    paddingTop: verticalScale(20),
-    paddingBottom: verticalScale(15),
-    backgroundColor: "#E7EEFA",
-  },
-  headerTitle: {
-    fontSize: moderateScale(24),
-    fontFamily: "DMSans_700Bold",
-    color: "#000",
-    textAlign: "center",
-  },
-  backButton: {
-    padding: scale(8),
-    backgroundColor: "#fff",
-    borderRadius: moderateScale(8),
-  },
-  headerRight: {
-    padding: scale(8),
-  },
-  itemCount: {
-    fontSize: moderateScale(14),
-    fontFamily: "DMSans_400Regular",
-    color: "#666",
-  },
-  cartContainer: {
-    flex: 1,
-    padding: scale(10),
-  },
-  // cartContentContainer: {
-  //   paddingHorizontal: scale(20),
-  //   paddingTop: verticalScale(10),
-  //   paddingBottom: verticalScale(20),
-  //   backgroundColor: "#1a4591",
-  // },
-  cartItem: {
-    padding: scale(8),
-    flexDirection: "row",
-  },
-  // Straight dashed separator built from small segments (see DashedSeparator).
-  dashedSeparator: {
-    flexDirection: "row",
-    overflow: "hidden",
-    marginBottom: verticalScale(12),
-  },
-  dash: {
-    width: scale(6),
-    height: 1,
-    marginRight: scale(4),
-    backgroundColor: "#000000",
-  },
-  productImageContainer: {
-    padding: scale(4),
-    width: "35%",
-    height: scale(120),
-    borderRadius: moderateScale(8),
-    backgroundColor: "#F5F5F5",
-    marginRight: 12,
-  },
+export const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      paddingTop: verticalScale(30),
+      backgroundColor: colors.background,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    loadingText: {
+      marginTop: verticalScale(10),
+      fontSize: moderateScale(16),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: scale(20),
+      paddingTop: verticalScale(20),
+      paddingBottom: verticalScale(15),
+      backgroundColor: colors.background,
+    },
+    headerTitle: {
+      fontSize: moderateScale(24),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      textAlign: "center",
+    },
+    backButton: {
+      padding: scale(8),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(8),
+    },
+    headerRight: {
+      padding: scale(8),
+    },
+    itemCount: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    cartContainer: {
+      flex: 1,
+      padding: scale(10),
+    },
+    // cartContentContainer: {
+    //   paddingHorizontal: scale(20),
+    //   paddingTop: verticalScale(10),
+    //   paddingBottom: verticalScale(20),
+    //   backgroundColor: "#1a4591",
+    // },
+    cartItem: {
+      padding: scale(8),
+      flexDirection: "row",
+    },
+    // Straight dashed separator built from small segments (see DashedSeparator).
+    dashedSeparator: {
+      flexDirection: "row",
+      overflow: "hidden",
+      marginBottom: verticalScale(12),
+    },
+    dash: {
+      width: scale(6),
+      height: 1,
+      marginRight: scale(4),
+      backgroundColor: colors.text,
+    },
+    productImageContainer: {
+      padding: scale(4),
+      width: "35%",
+      height: scale(120),
+      borderRadius: moderateScale(8),
+      backgroundColor: colors.surfaceMuted,
+      marginRight: 12,
+    },
 
-  productImage: {
-    width: "100%",
-    height: "100%",
-  },
-  productInfo: {
-    flex: 1,
-    justifyContent: "space-between",
-    gap: verticalScale(8),
-  },
-  productHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: verticalScale(4),
-  },
-  productName: {
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_600SemiBold",
-    color: "#1C1C1C",
-    flex: 1,
-    marginRight: 8,
-  },
-  removeButton: {
-    padding: scale(2),
-  },
-  priceQuantityRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: scale(8),
-    marginBottom: verticalScale(8),
-  },
-  productPrice: {
-    fontSize: moderateScale(20),
-    fontFamily: "DMSans_400Regular",
-    color: "#1C1C1C",
-  },
+    productImage: {
+      width: "100%",
+      height: "100%",
+    },
+    productInfo: {
+      flex: 1,
+      justifyContent: "space-between",
+      gap: verticalScale(8),
+    },
+    productHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: verticalScale(4),
+    },
+    productName: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+      flex: 1,
+      marginRight: 8,
+    },
+    removeButton: {
+      padding: scale(2),
+    },
+    priceQuantityRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(8),
+      marginBottom: verticalScale(8),
+    },
+    productPrice: {
+      fontSize: moderateScale(20),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    unitSuffix: {
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    unitToggle: {
+      flexDirection: "row",
+      gap: scale(6),
+      marginBottom: verticalScale(8),
+    },
+    unitChip: {
+      paddingHorizontal: scale(10),
+      paddingVertical: verticalScale(4),
+      borderRadius: moderateScale(14),
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    unitChipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.background,
+    },
+    unitChipText: {
+      fontSize: moderateScale(12),
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    unitChipTextActive: {
+      color: colors.primary,
+    },
 
-  bottomRow: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-  },
-  quantityControl: {
-    flexDirection: "row",
-    backgroundColor: "#ffffff",
-    alignItems: "center",
-    padding: scale(6),
-    borderRadius: moderateScale(8),
-    alignSelf: "flex-start",
-  },
-  quantityButton: {
-    width: scale(28),
-    height: verticalScale(28),
-    justifyContent: "center",
-    alignItems: "center",
-  },
-  quantityButtonText: {
-    fontSize: moderateScale(18),
-    fontFamily: "DMSans_400Regular",
-    color: "#000",
-    lineHeight: 20,
-  },
-  quantityText: {
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_700Bold",
-    color: "#000",
-    marginHorizontal: scale(16),
-    minWidth: 20,
-    textAlign: "center",
-  },
+    bottomRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    quantityControl: {
+      flexDirection: "row",
+      backgroundColor: colors.surface,
+      alignItems: "center",
+      padding: scale(6),
+      borderRadius: moderateScale(8),
+      alignSelf: "flex-start",
+    },
+    quantityButton: {
+      width: scale(28),
+      height: verticalScale(28),
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    quantityButtonText: {
+      fontSize: moderateScale(18),
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      lineHeight: 20,
+    },
+    quantityText: {
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginHorizontal: scale(16),
+      minWidth: 20,
+      textAlign: "center",
+    },
 
-  footer: {
-    backgroundColor: "#ffffff",
-    paddingHorizontal: scale(20),
-    paddingVertical: verticalScale(22),
-  },
-  totalContainer: {
-    flexDirection: "row",
-    display: "flex",
-    gap: scale(16),
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: verticalScale(16),
-  },
-  totalLabel: {
-    fontSize: moderateScale(24),
-    fontFamily: "DMSans_700Regular",
-    color: "#000",
-  },
-  totalAmount: {
-    fontSize: moderateScale(32),
-    fontFamily: "DMSans_700Bold",
-    color: "#000",
-  },
-  checkoutButton: {
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(10),
-    paddingVertical: verticalScale(18),
-    alignItems: "center",
-  },
-  checkoutButtonText: {
-    color: "white",
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-  },
-  emptyState: {
-    flex: 1,
-    justifyContent: "center",
-    alignItems: "center",
-    paddingHorizontal: scale(40),
-  },
-  emptyTitle: {
-    fontSize: moderateScale(20),
-    color: "#666",
-    marginTop: verticalScale(16),
-    marginBottom: verticalScale(8),
-    fontFamily: "DMSans_400Regular",
-  },
-  emptyDescription: {
-    fontSize: moderateScale(14),
-    color: "#999",
-    textAlign: "center",
-    marginBottom: verticalScale(24),
-    fontFamily: "DMSans_400Regular",
-  },
-  shopButton: {
-    backgroundColor: "#1155CC",
-    borderRadius: moderateScale(12),
-    paddingHorizontal: scale(24),
-    paddingVertical: verticalScale(12),
-  },
-  shopButtonText: {
-    color: "#FFF",
-    fontSize: moderateScale(16),
-    fontFamily: "DMSans_400Regular",
-  },
-});
+    footer: {
+      backgroundColor: colors.surface,
+      paddingHorizontal: scale(20),
+      paddingVertical: verticalScale(22),
+    },
+    totalContainer: {
+      flexDirection: "row",
+      display: "flex",
+      gap: scale(16),
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: verticalScale(16),
+    },
+    totalLabel: {
+      fontSize: moderateScale(24),
+      fontFamily: "DMSans_700Regular",
+      color: colors.text,
+    },
+    totalAmount: {
+      fontSize: moderateScale(32),
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    checkoutButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(10),
+      paddingVertical: verticalScale(18),
+      alignItems: "center",
+    },
+    checkoutButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+    },
+    checkoutButtonFlex: {
+      flex: 1,
+    },
+    footerActions: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(12),
+    },
+    holdButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: scale(6),
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: moderateScale(10),
+      paddingVertical: verticalScale(17),
+      paddingHorizontal: scale(16),
+    },
+    holdButtonText: {
+      color: colors.primary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_500Medium",
+    },
+    parkedContainer: {
+      paddingTop: verticalScale(12),
+    },
+    parkedTitle: {
+      fontSize: moderateScale(14),
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+      paddingHorizontal: scale(20),
+      marginBottom: verticalScale(8),
+    },
+    parkedList: {
+      paddingHorizontal: scale(20),
+      gap: scale(10),
+    },
+    parkedCard: {
+      width: scale(170),
+      backgroundColor: colors.surface,
+      borderRadius: moderateScale(12),
+      padding: scale(12),
+    },
+    parkedHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      gap: scale(8),
+    },
+    parkedLabel: {
+      flex: 1,
+      fontSize: moderateScale(15),
+      color: colors.text,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    parkedMeta: {
+      fontSize: moderateScale(13),
+      color: colors.textSecondary,
+      marginTop: verticalScale(4),
+      fontFamily: "DMSans_400Regular",
+    },
+    resumeButton: {
+      marginTop: verticalScale(10),
+      backgroundColor: colors.background,
+      borderRadius: moderateScale(8),
+      paddingVertical: verticalScale(8),
+      alignItems: "center",
+    },
+    resumeButtonText: {
+      color: colors.primary,
+      fontSize: moderateScale(14),
+      fontFamily: "DMSans_600SemiBold",
+    },
+    emptyState: {
+      flex: 1,
+      justifyContent: "center",
+      alignItems: "center",
+      paddingHorizontal: scale(40),
+    },
+    emptyTitle: {
+      fontSize: moderateScale(20),
+      color: colors.textSecondary,
+      marginTop: verticalScale(16),
+      marginBottom: verticalScale(8),
+      fontFamily: "DMSans_400Regular",
+    },
+    emptyDescription: {
+      fontSize: moderateScale(14),
+      color: colors.textMuted,
+      textAlign: "center",
+      marginBottom: verticalScale(24),
+      fontFamily: "DMSans_400Regular",
+    },
+    shopButton: {
+      backgroundColor: colors.primary,
+      borderRadius: moderateScale(12),
+      paddingHorizontal: scale(24),
+      paddingVertical: verticalScale(12),
+    },
+    shopButtonText: {
+      color: colors.onPrimary,
+      fontSize: moderateScale(16),
+      fontFamily: "DMSans_400Regular",
+    },
+  });
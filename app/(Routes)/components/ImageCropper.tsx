@@ -13,6 +13,8 @@ import {
   View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 import { PickedImage, RawImage } from "./useImagePicker";
 
 interface Rect {
@@ -36,6 +38,8 @@ const clamp = (v: number, min: number, max: number) =>
   Math.max(min, Math.min(max, v));
 
 const ImageCropper: React.FC<Props> = ({ visible, image, onDone, onCancel }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [processing, setProcessing] = useState(false);
 
@@ -317,10 +321,10 @@ const ImageCropper: React.FC<Props> = ({ visible, image, onDone, onCancel }) =>
             activeOpacity={0.85}
           >
             {processing ? (
-              <ActivityIndicator color="#FFFFFF" />
+              <ActivityIndicator color={colors.onPrimary} />
             ) : (
               <>
-                <Ionicons name="crop" size={18} color="#FFFFFF" />
+                <Ionicons name="crop" size={18} color={colors.onPrimary} />
                 <Text style={styles.doneBtnText}>Crop &amp; Use</Text>
               </>
             )}
@@ -331,110 +335,112 @@ const ImageCropper: React.FC<Props> = ({ visible, image, onDone, onCancel }) =>
   );
 };
 
+// The stage stays dark in both schemes so the photo's colours read true
 const BORDER = "#FFFFFF";
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#000",
-  },
-  header: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    paddingHorizontal: 16,
-    paddingBottom: 12,
-  },
-  headerTitle: {
-    color: "#FFFFFF",
-    fontSize: 17,
-    fontFamily: "DMSans_600SemiBold",
-  },
-  stage: {
-    flex: 1,
-    overflow: "hidden",
-  },
-  dim: {
-    position: "absolute",
-    backgroundColor: "rgba(0,0,0,0.55)",
-  },
-  cropBox: {
-    position: "absolute",
-    borderWidth: 1.5,
-    borderColor: BORDER,
-  },
-  gridLine: {
-    position: "absolute",
-    backgroundColor: "rgba(255,255,255,0.4)",
-  },
-  gridV: {
-    top: 0,
-    bottom: 0,
-    width: StyleSheet.hairlineWidth,
-  },
-  gridH: {
-    left: 0,
-    right: 0,
-    height: StyleSheet.hairlineWidth,
-  },
-  handleTouch: {
-    position: "absolute",
-    width: HANDLE,
-    height: HANDLE,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  corner: {
-    width: 20,
-    height: 20,
-    borderColor: "#1155CC",
-  },
-  cornerTL: {
-    borderLeftWidth: 4,
-    borderTopWidth: 4,
-    borderTopLeftRadius: 4,
-  },
-  cornerTR: {
-    borderRightWidth: 4,
-    borderTopWidth: 4,
-    borderTopRightRadius: 4,
-  },
-  cornerBL: {
-    borderLeftWidth: 4,
-    borderBottomWidth: 4,
-    borderBottomLeftRadius: 4,
-  },
-  cornerBR: {
-    borderRightWidth: 4,
-    borderBottomWidth: 4,
-    borderBottomRightRadius: 4,
-  },
-  footer: {
-    paddingHorizontal: 16,
-    paddingTop: 12,
-    backgroundColor: "#000",
-  },
-  hint: {
-    color: "#A0AEC0",
-    fontSize: 13,
-    textAlign: "center",
-    marginBottom: 12,
-    fontFamily: "DMSans_400Regular",
-  },
-  doneBtn: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 8,
-    backgroundColor: "#1155CC",
-    borderRadius: 10,
-    paddingVertical: 14,
-  },
-  doneBtnText: {
-    color: "#FFFFFF",
-    fontSize: 16,
-    fontFamily: "DMSans_600SemiBold",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: "#000",
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: 16,
+      paddingBottom: 12,
+    },
+    headerTitle: {
+      color: "#FFFFFF",
+      fontSize: 17,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    stage: {
+      flex: 1,
+      overflow: "hidden",
+    },
+    dim: {
+      position: "absolute",
+      backgroundColor: "rgba(0,0,0,0.55)",
+    },
+    cropBox: {
+      position: "absolute",
+      borderWidth: 1.5,
+      borderColor: BORDER,
+    },
+    gridLine: {
+      position: "absolute",
+      backgroundColor: "rgba(255,255,255,0.4)",
+    },
+    gridV: {
+      top: 0,
+      bottom: 0,
+      width: StyleSheet.hairlineWidth,
+    },
+    gridH: {
+      left: 0,
+      right: 0,
+      height: StyleSheet.hairlineWidth,
+    },
+    handleTouch: {
+      position: "absolute",
+      width: HANDLE,
+      height: HANDLE,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    corner: {
+      width: 20,
+      height: 20,
+      borderColor: colors.primary,
+    },
+    cornerTL: {
+      borderLeftWidth: 4,
+      borderTopWidth: 4,
+      borderTopLeftRadius: 4,
+    },
+    cornerTR: {
+      borderRightWidth: 4,
+      borderTopWidth: 4,
+      borderTopRightRadius: 4,
+    },
+    cornerBL: {
+      borderLeftWidth: 4,
+      borderBottomWidth: 4,
+      borderBottomLeftRadius: 4,
+    },
+    cornerBR: {
+      borderRightWidth: 4,
+      borderBottomWidth: 4,
+      borderBottomRightRadius: 4,
+    },
+    footer: {
+      paddingHorizontal: 16,
+      paddingTop: 12,
+      backgroundColor: "#000",
+    },
+    hint: {
+      color: "#A0AEC0",
+      fontSize: 13,
+      textAlign: "center",
+      marginBottom: 12,
+      fontFamily: "DMSans_400Regular",
+    },
+    doneBtn: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: 14,
+    },
+    doneBtnText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
 
 export default ImageCropper;
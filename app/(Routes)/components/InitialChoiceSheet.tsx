@@ -9,6 +9,8 @@ import {
     View,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
 
 const { width, height } = Dimensions.get("screen"); // use "screen" not "window"
 const isSmall = width < 360;
@@ -26,6 +28,7 @@ const InitialChoiceSheet: React.FC<Props> = ({
   onSearchClick,
   onAddManually,
 }) => {
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
 
   return (
@@ -94,84 +97,85 @@ const InitialChoiceSheet: React.FC<Props> = ({
   );
 };
 
-const styles = StyleSheet.create({
-  modalBackdrop: {
-    flex: 1,
-    height: height, // force full screen height
-    backgroundColor: "rgba(0, 0, 0, 0.5)",
-    justifyContent: "flex-end",
-  },
-  bottomSheetContainer: {
-    justifyContent: "flex-end",
-  },
-  bottomSheetContent: {
-    backgroundColor: "#FFF",
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    paddingHorizontal: isSmall ? 16 : 24,
-    paddingTop: 8,
-  },
-  handleBar: {
-    width: 60,
-    height: 4,
-    backgroundColor: "#1155CC",
-    borderRadius: 2,
-    alignSelf: "center",
-    marginBottom: 16,
-  },
-  bottomSheetHeader: {
-    fontSize: isSmall ? 13 : 15,
-    color: "#1155CC",
-    textAlign: "center",
-    marginBottom: 16,
-    fontFamily: "DMSans_600SemiBold",
-  },
-  initialChoiceTitle: {
-    fontSize: isSmall ? 16 : 19,
-    color: "#1A202C",
-    textAlign: "center",
-    marginBottom: 8,
-    fontFamily: "DMSans_600SemiBold",
-  },
-  initialChoiceSubtitle: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#718096",
-    textAlign: "center",
-    marginBottom: isSmall ? 20 : 28,
-    lineHeight: 19,
-    fontFamily: "DMSans_400Regular",
-  },
-  searchButtonInitial: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    width: "100%",
-    backgroundColor: "#fff",
-    borderRadius: 50,
-    paddingVertical: isSmall ? 11 : 13,
-    marginBottom: 10,
-    borderWidth: 1,
-    borderColor: "#1155CC",
-  },
-  searchButtonInitialText: {
-    fontSize: isSmall ? 13 : 14,
-    color: "#1C1C1C",
-    fontFamily: "DMSans_500Medium",
-  },
-  addManuallyButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    width: "100%",
-    backgroundColor: "#1155CC",
-    borderRadius: 50,
-    paddingVertical: isSmall ? 11 : 13,
-  },
-  addManuallyButtonText: {
-    fontSize: isSmall ? 13 : 14,
-    color: "#FFF",
-    fontFamily: "DMSans_600SemiBold",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    modalBackdrop: {
+      flex: 1,
+      height: height, // force full screen height
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    bottomSheetContainer: {
+      justifyContent: "flex-end",
+    },
+    bottomSheetContent: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: isSmall ? 16 : 24,
+      paddingTop: 8,
+    },
+    handleBar: {
+      width: 60,
+      height: 4,
+      backgroundColor: colors.primary,
+      borderRadius: 2,
+      alignSelf: "center",
+      marginBottom: 16,
+    },
+    bottomSheetHeader: {
+      fontSize: isSmall ? 13 : 15,
+      color: colors.primary,
+      textAlign: "center",
+      marginBottom: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    initialChoiceTitle: {
+      fontSize: isSmall ? 16 : 19,
+      color: colors.text,
+      textAlign: "center",
+      marginBottom: 8,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    initialChoiceSubtitle: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.textSecondary,
+      textAlign: "center",
+      marginBottom: isSmall ? 20 : 28,
+      lineHeight: 19,
+      fontFamily: "DMSans_400Regular",
+    },
+    searchButtonInitial: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      width: "100%",
+      backgroundColor: colors.surface,
+      borderRadius: 50,
+      paddingVertical: isSmall ? 11 : 13,
+      marginBottom: 10,
+      borderWidth: 1,
+      borderColor: colors.primary,
+    },
+    searchButtonInitialText: {
+      fontSize: isSmall ? 13 : 14,
+      color: colors.text,
+      fontFamily: "DMSans_500Medium",
+    },
+    addManuallyButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      width: "100%",
+      backgroundColor: colors.primary,
+      borderRadius: 50,
+      paddingVertical: isSmall ? 11 : 13,
+    },
+    addManuallyButtonText: {
+      fontSize: isSmall ? 13 : 14,
+      color: colors.onPrimary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
 
 export default InitialChoiceSheet;
@@ -1,3 +1,4 @@
+import BarcodeScanner from "@/components/BarcodeScanner";
 import { FormData } from "@/hooks/useAddProductForm";
 import { useProductsData } from "@/hooks/useProductsData";
 import { Ionicons } from "@expo/vector-icons";
@@ -21,6 +22,8 @@ import {
 } from "./ProductFormSteps";
 import ImageCropper from "./ImageCropper";
 import { useImagePicker } from "./useImagePicker";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const { width } = Dimensions.get("window");
 const isSmall = width < 360;
@@ -37,6 +40,8 @@ interface Props {
   onScanBarcode?: () => void;
   title?: string;
   initialStep?: number;
+  // Leaves cost prices off the form for roles that can't view costs
+  hideCosts?: boolean;
 }
 
 const ProductFormModal: React.FC<Props> = ({
@@ -49,7 +54,10 @@ const ProductFormModal: React.FC<Props> = ({
   onScanBarcode,
   title,
   initialStep = 0,
+  hideCosts = false,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [currentStep, setCurrentStep] = useState(0);
   // Bumped once the modal finishes its open animation so the step's ScrollView
@@ -66,6 +74,7 @@ const ProductFormModal: React.FC<Props> = ({
     name: c.name,
   }));
   const [showCategoryDropdown, setShowCategoryDropdown] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
 
   const { pickImage, pendingImage, handleCropComplete, handleCropCancel } =
     useImagePicker((image) => updateFormData("productImage", image));
@@ -85,7 +94,7 @@ const ProductFormModal: React.FC<Props> = ({
       if (formData.quantityType === "Single Items") {
         return !!(
           formData.numberOfItems &&
-          formData.costPrice &&
+          (hideCosts || formData.costPrice) &&
           formData.sellingPrice
         );
       }
@@ -93,7 +102,7 @@ const ProductFormModal: React.FC<Props> = ({
         return !!(
           formData.unitsPerCarton &&
           formData.numberOfCartons &&
-          formData.costPricePerCarton &&
+          (hideCosts || formData.costPricePerCarton) &&
           formData.sellingPricePerCarton
         );
       }
@@ -101,7 +110,7 @@ const ProductFormModal: React.FC<Props> = ({
         return !!(
           formData.unitsPerCarton &&
           formData.numberOfCartons &&
-          formData.costPricePerCarton &&
+          (hideCosts || formData.costPricePerCarton) &&
           formData.sellingPricePerCarton &&
           formData.sellingPricePerUnit
         );
@@ -181,11 +190,15 @@ const ProductFormModal: React.FC<Props> = ({
             setShowCategoryDropdown={setShowCategoryDropdown}
             imageUploading={imageUploading}
             onPickImage={pickImage}
-            onScanBarcode={onScanBarcode}
+            onScanBarcode={onScanBarcode ?? (() => setShowScanner(true))}
           />
         )}
         {currentStep === 1 && (
-          <PricingStep formData={formData} updateFormData={updateFormData} />
+          <PricingStep
+            formData={formData}
+            updateFormData={updateFormData}
+            hideCosts={hideCosts}
+          />
         )}
         {currentStep === 2 && (
           <StockExtrasStep
@@ -228,7 +241,7 @@ const ProductFormModal: React.FC<Props> = ({
 
         {(saving || imageUploading) && (
           <View style={styles.loadingOverlay}>
-            <ActivityIndicator size="large" color="#1155CC" />
+            <ActivityIndicator size="large" color={colors.primary} />
             <Text style={styles.loadingText}>
               {imageUploading ? "Uploading image..." : "Saving product..."}
             </Text>
@@ -237,6 +250,12 @@ const ProductFormModal: React.FC<Props> = ({
       </SafeAreaView>
     </Modal>
 
+      <BarcodeScanner
+        visible={showScanner}
+        onClose={() => setShowScanner(false)}
+        onScanned={(code) => updateFormData("barcode", code)}
+      />
+
       <ImageCropper
         visible={!!pendingImage}
         image={pendingImage}
@@ -249,6 +268,7 @@ const ProductFormModal: React.FC<Props> = ({
         formData={formData}
         saving={saving}
         imageUploading={imageUploading}
+        hideCosts={hideCosts}
         onConfirm={onSave}
         onClose={prevStep}
       />
@@ -256,152 +276,153 @@ const ProductFormModal: React.FC<Props> = ({
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#E7EEFA",
-  },
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: isSmall ? 14 : 20,
-    paddingVertical: isSmall ? 10 : 16,
-    backgroundColor: "#E7EEFA",
-    borderBottomWidth: 1,
-    borderBottomColor: "#E2E8F0",
-  },
-  headerTitle: {
-    fontSize: isSmall ? 16 : 20,
-    color: "#1A202C",
-    fontFamily: "DMSans_600SemiBold",
-  },
-  closeBtn: {
-    width: 36,
-    height: 36,
-    borderRadius: 8,
-    backgroundColor: "#fff",
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  progressBarWrapper: {
-    backgroundColor: "#FFF",
-    borderBottomWidth: 1,
-    borderBottomColor: "#E2E8F0",
-    marginHorizontal: isSmall ? 12 : 20,
-    marginVertical: isSmall ? 8 : 14,
-    paddingHorizontal: isSmall ? 10 : 20,
-    paddingVertical: isSmall ? 10 : 14,
-    borderRadius: 8,
-  },
-  progressContainer: {
-    flexDirection: "row",
-    alignItems: "flex-start",
-    gap: isSmall ? 6 : 10,
-  },
-  stepItem: {
-    flex: 1,
-    alignItems: "flex-start",
-  },
-  stepText: {
-    fontSize: isSmall ? 9 : 12,
-    fontFamily: "DMSans_500Medium",
-    marginBottom: 5,
-    textAlign: "left",
-  },
-  stepTextActive: { color: "#1155CC" },
-  stepTextInactive: { color: "#A0AEC0" },
-  progressBar: {
-    height: isSmall ? 5 : 8,
-    borderRadius: 4,
-  },
-  progressBarActive: { backgroundColor: "#1155CC" },
-  progressBarInactive: { backgroundColor: "#E2E8F0" },
-  navigationButtons: {
-    flexDirection: "row",
-    gap: isSmall ? 8 : 10,
-    paddingHorizontal: isSmall ? 12 : 20,
-    paddingVertical: isSmall ? 10 : 14,
-    backgroundColor: "#FFF",
-    borderTopWidth: 1,
-    borderTopColor: "#E2E8F0",
-  },
-  backBtn: {
-    flex: 1,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 5,
-    backgroundColor: "#FFF",
-    borderWidth: 1,
-    borderColor: "#E2E8F0",
-    borderRadius: 8,
-    paddingVertical: isSmall ? 10 : 12,
-  },
-  backBtnText: {
-    fontSize: isSmall ? 12 : 14,
-    color: "#4A5568",
-    fontFamily: "DMSans_500Medium",
-  },
-  nextBtn: {
-    flex: 1,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 5,
-    backgroundColor: "#1155CC",
-    borderRadius: 8,
-    paddingVertical: isSmall ? 10 : 12,
-  },
-  nextBtnText: {
-    fontSize: isSmall ? 12 : 14,
-    color: "#FFF",
-    fontFamily: "DMSans_600SemiBold",
-  },
-  loadingOverlay: {
-    position: "absolute",
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    backgroundColor: "rgba(255, 255, 255, 0.95)",
-    justifyContent: "center",
-    alignItems: "center",
-    zIndex: 1000,
-  },
-  loadingText: {
-    marginTop: 10,
-    fontSize: isSmall ? 12 : 14,
-    color: "#1155CC",
-    fontFamily: "DMSans_500Medium",
-  },
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: isSmall ? 14 : 20,
+      paddingVertical: isSmall ? 10 : 16,
+      backgroundColor: colors.background,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    headerTitle: {
+      fontSize: isSmall ? 16 : 20,
+      color: colors.text,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    closeBtn: {
+      width: 36,
+      height: 36,
+      borderRadius: 8,
+      backgroundColor: colors.surface,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    progressBarWrapper: {
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      marginHorizontal: isSmall ? 12 : 20,
+      marginVertical: isSmall ? 8 : 14,
+      paddingHorizontal: isSmall ? 10 : 20,
+      paddingVertical: isSmall ? 10 : 14,
+      borderRadius: 8,
+    },
+    progressContainer: {
+      flexDirection: "row",
+      alignItems: "flex-start",
+      gap: isSmall ? 6 : 10,
+    },
+    stepItem: {
+      flex: 1,
+      alignItems: "flex-start",
+    },
+    stepText: {
+      fontSize: isSmall ? 9 : 12,
+      fontFamily: "DMSans_500Medium",
+      marginBottom: 5,
+      textAlign: "left",
+    },
+    stepTextActive: { color: "#1155CC" },
+    stepTextInactive: { color: "#A0AEC0" },
+    progressBar: {
+      height: isSmall ? 5 : 8,
+      borderRadius: 4,
+    },
+    progressBarActive: { backgroundColor: "#1155CC" },
+    progressBarInactive: { backgroundColor: "#E2E8F0" },
+    navigationButtons: {
+      flexDirection: "row",
+      gap: isSmall ? 8 : 10,
+      paddingHorizontal: isSmall ? 12 : 20,
+      paddingVertical: isSmall ? 10 : 14,
+      backgroundColor: colors.surface,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    backBtn: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 5,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingVertical: isSmall ? 10 : 12,
+    },
+    backBtnText: {
+      fontSize: isSmall ? 12 : 14,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+    },
+    nextBtn: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 5,
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: isSmall ? 10 : 12,
+    },
+    nextBtnText: {
+      fontSize: isSmall ? 12 : 14,
+      color: colors.onPrimary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    loadingOverlay: {
+      position: "absolute",
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: "rgba(255, 255, 255, 0.95)",
+      justifyContent: "center",
+      alignItems: "center",
+      zIndex: 1000,
+    },
+    loadingText: {
+      marginTop: 10,
+      fontSize: isSmall ? 12 : 14,
+      color: colors.primary,
+      fontFamily: "DMSans_500Medium",
+    },
 
-  progressLineBackground: {
-    height: 4,
-    backgroundColor: "#E2E8F0",
-    borderRadius: 2,
-    marginTop: 6,
-    marginHorizontal: 8,
-    overflow: "hidden",
-  },
-  progressLineFill: {
-    height: 4,
-    backgroundColor: "#1155CC",
-    borderRadius: 2,
-  },
+    progressLineBackground: {
+      height: 4,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 2,
+      marginTop: 6,
+      marginHorizontal: 8,
+      overflow: "hidden",
+    },
+    progressLineFill: {
+      height: 4,
+      backgroundColor: colors.primary,
+      borderRadius: 2,
+    },
 
-  stepBar: {
-    height: 4,
-    width: "100%", // or adjust as needed for your design
-    borderRadius: 2,
-    marginTop: 4,
-  },
-  stepBarActive: {
-    backgroundColor: "#1155CC",
-  },
-  stepBarInactive: {
-    backgroundColor: "#E2E8F0",
-  },
-});
+    stepBar: {
+      height: 4,
+      width: "100%", // or adjust as needed for your design
+      borderRadius: 2,
+      marginTop: 4,
+    },
+    stepBarActive: {
+      backgroundColor: colors.primary,
+    },
+    stepBarInactive: {
+      backgroundColor: colors.surfaceMuted,
+    },
+  });
 
 export default ProductFormModal;
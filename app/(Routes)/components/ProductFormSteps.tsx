@@ -1,5 +1,10 @@
 import { FormData } from "@/hooks/useAddProductForm";
-import { formatCurrency, formatNumber } from "@/utils/formatters";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import {
+    formatCurrency,
+    formatNumber,
+    getCurrency,
+} from "@/utils/formatters";
 import { Ionicons } from "@expo/vector-icons";
 import React, { useState } from "react";
 import {
@@ -19,6 +24,8 @@ import ProductSummaryView, {
   SummaryRowData,
   SummarySection,
 } from "./ProductSummaryView";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const { width } = Dimensions.get("window");
 const isSmall = width < 360;
@@ -33,6 +40,7 @@ const FieldLabel: React.FC<{ label: string; required?: boolean }> = ({
   label,
   required,
 }) => {
+  const styles = useThemedStyles(createStyles);
   const hintIndex = label.indexOf("(");
   const mainLabel =
     hintIndex >= 0 ? label.slice(0, hintIndex).trimEnd() : label;
@@ -50,54 +58,66 @@ const PriceField: React.FC<{
   label: string;
   value: string;
   onChange: (v: string) => void;
-}> = ({ label, value, onChange }) => (
-  <View style={styles.fieldGroup}>
-    <FieldLabel label={label} required />
-    <View style={styles.priceInputRow}>
-      <View style={styles.currencyBox}>
-        <Text style={styles.currency}>₦</Text>
+}> = ({ label, value, onChange }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.fieldGroup}>
+      <FieldLabel label={label} required />
+      <View style={styles.priceInputRow}>
+        <View style={styles.currencyBox}>
+          <Text style={styles.currency}>{getCurrency().symbol.trim()}</Text>
+        </View>
+        <TextInput
+          style={styles.priceInput}
+          placeholder="0.00"
+          placeholderTextColor={colors.textMuted}
+          value={value}
+          onChangeText={onChange}
+          keyboardType="numeric"
+        />
+      </View>
+      <View style={styles.priceOptionsRow}>
+        {PRICE_CHIPS.map((price) => (
+          <TouchableOpacity
+            key={price}
+            style={styles.priceChip}
+            onPress={() => onChange(price)}
+          >
+            <Text style={styles.priceChipText}>
+              {formatCurrency(price, 0)}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
-      <TextInput
-        style={styles.priceInput}
-        placeholder="0.00"
-        placeholderTextColor="#CBD5E0"
-        value={value}
-        onChangeText={onChange}
-        keyboardType="numeric"
-      />
-    </View>
-    <View style={styles.priceOptionsRow}>
-      {PRICE_CHIPS.map((price) => (
-        <TouchableOpacity
-          key={price}
-          style={styles.priceChip}
-          onPress={() => onChange(price)}
-        >
-          <Text style={styles.priceChipText}>₦{formatNumber(price)}</Text>
-        </TouchableOpacity>
-      ))}
     </View>
-  </View>
-);
+  );
+};
 
 const NumericField: React.FC<{
   label: string;
   placeholder: string;
   value: string;
   onChange: (v: string) => void;
-}> = ({ label, placeholder, value, onChange }) => (
-  <View style={styles.fieldGroup}>
-    <FieldLabel label={label} required />
-    <TextInput
-      style={styles.input}
-      placeholder={placeholder}
-      placeholderTextColor="#CBD5E0"
-      value={value}
-      onChangeText={onChange}
-      keyboardType="numeric"
-    />
-  </View>
-);
+}> = ({ label, placeholder, value, onChange }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.fieldGroup}>
+      <FieldLabel label={label} required />
+      <TextInput
+        style={styles.input}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textMuted}
+        value={value}
+        onChangeText={onChange}
+        keyboardType="numeric"
+      />
+    </View>
+  );
+};
 
 // ─── Step 1: Product Info ─────────────────────────────────────────────────────
 
@@ -124,6 +144,8 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
   onPickImage,
   onScanBarcode,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
 
   return (
@@ -144,30 +166,39 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
           <TextInput
             style={styles.input}
             placeholder="Type here..."
-            placeholderTextColor="#CBD5E0"
+            placeholderTextColor={colors.textMuted}
             value={formData.productName}
             onChangeText={(v) => updateFormData("productName", v)}
           />
         </View>
 
         {/* SKU / Barcode */}
-        {/* <View style={styles.fieldGroup}>
-        <FieldLabel label="SKU / Barcode" required />
-        <View style={styles.skuRow}>
-          <TextInput
-            style={[styles.input, styles.skuInput]}
-            placeholder="Type 8 – 13 digits here..."
-            placeholderTextColor="#CBD5E0"
-            value={formData.barcode}
-            onChangeText={(v) => updateFormData("barcode", v)}
-            keyboardType="numeric"
-          />
-          <TouchableOpacity style={styles.scanButton} onPress={onScanBarcode}>
-            <Ionicons name="camera-outline" size={18} color="#1155CC" />
-            <Text style={styles.scanButtonText}>Scan</Text>
-          </TouchableOpacity>
+        <View style={styles.fieldGroup}>
+          <FieldLabel label="SKU / Barcode" />
+          <View style={styles.skuRow}>
+            <TextInput
+              style={[styles.input, styles.skuInput]}
+              placeholder="Type 8 – 13 digits here..."
+              placeholderTextColor={colors.textMuted}
+              value={formData.barcode}
+              onChangeText={(v) => updateFormData("barcode", v)}
+              keyboardType="numeric"
+            />
+            {onScanBarcode && (
+              <TouchableOpacity
+                style={styles.scanButton}
+                onPress={onScanBarcode}
+              >
+                <Ionicons
+                  name="camera-outline"
+                  size={18}
+                  color={colors.primary}
+                />
+                <Text style={styles.scanButtonText}>Scan</Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
-      </View> */}
 
         {/* Product Category */}
         <View style={[styles.fieldGroup, { marginBottom: 0 }]}>
@@ -194,7 +225,7 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
             <Ionicons
               name={showCategoryDropdown ? "chevron-up" : "chevron-down"}
               size={18}
-              color="#718096"
+              color={colors.textSecondary}
             />
           </TouchableOpacity>
 
@@ -211,7 +242,11 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
                 >
                   <Text style={styles.dropdownItemText}>{category.name}</Text>
                   {formData.category === category.name && (
-                    <Ionicons name="checkmark" size={18} color="#1155CC" />
+                    <Ionicons
+                      name="checkmark"
+                      size={18}
+                      color={colors.primary}
+                    />
                   )}
                 </TouchableOpacity>
               ))}
@@ -248,7 +283,11 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
                   onPress={() => onPickImage(false)}
                   disabled={imageUploading}
                 >
-                  <Ionicons name="crop-outline" size={16} color="#1155CC" />
+                  <Ionicons
+                    name="crop-outline"
+                    size={16}
+                    color={colors.primary}
+                  />
                   <Text style={styles.changeImageBtnText}>Change / Crop</Text>
                 </TouchableOpacity>
                 <TouchableOpacity
@@ -256,7 +295,11 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
                   onPress={() => updateFormData("productImage", null)}
                   disabled={imageUploading}
                 >
-                  <Ionicons name="trash-outline" size={16} color="#E53E3E" />
+                  <Ionicons
+                    name="trash-outline"
+                    size={16}
+                    color={colors.danger}
+                  />
                   <Text style={styles.removeImageBtnText}>Remove</Text>
                 </TouchableOpacity>
               </View>
@@ -268,7 +311,7 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
               <Ionicons
                 name="image-outline"
                 size={40}
-                color="#1155CC"
+                color={colors.primary}
                 style={styles.imageIcon}
               />
 
@@ -305,7 +348,7 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
               {imageUploading && (
                 <ActivityIndicator
                   size="small"
-                  color="#1155CC"
+                  color={colors.primary}
                   style={{ marginTop: 8 }}
                 />
               )}
@@ -314,7 +357,11 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
 
               {/* Search online inside the dashed box */}
               <View style={styles.searchOnlineInner}>
-                <Ionicons name="search-outline" size={16} color="#718096" />
+                <Ionicons
+                  name="search-outline"
+                  size={16}
+                  color={colors.textSecondary}
+                />
                 <Text style={styles.searchOnlineInnerText}>Search online</Text>
               </View>
             </View>
@@ -330,12 +377,15 @@ export const ProductInfoStep: React.FC<ProductInfoStepProps> = ({
 interface PricingStepProps {
   formData: FormData;
   updateFormData: (field: string, value: any) => void;
+  hideCosts?: boolean;
 }
 
 export const PricingStep: React.FC<PricingStepProps> = ({
   formData,
   updateFormData,
+  hideCosts = false,
 }) => {
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
 
   return (
@@ -381,11 +431,13 @@ export const PricingStep: React.FC<PricingStepProps> = ({
               value={formData.numberOfItems}
               onChange={(v) => updateFormData("numberOfItems", v)}
             />
-            <PriceField
-              label="Cost Price (How much you buy am?)"
-              value={formData.costPrice}
-              onChange={(v) => updateFormData("costPrice", v)}
-            />
+            {!hideCosts && (
+              <PriceField
+                label="Cost Price (How much you buy am?)"
+                value={formData.costPrice}
+                onChange={(v) => updateFormData("costPrice", v)}
+              />
+            )}
             <PriceField
               label="Selling Price (How much you won sell am?)"
               value={formData.sellingPrice}
@@ -409,11 +461,13 @@ export const PricingStep: React.FC<PricingStepProps> = ({
               value={formData.numberOfCartons}
               onChange={(v) => updateFormData("numberOfCartons", v)}
             />
-            <PriceField
-              label="Cost Price (How much you buy 1 carton?)"
-              value={formData.costPricePerCarton}
-              onChange={(v) => updateFormData("costPricePerCarton", v)}
-            />
+            {!hideCosts && (
+              <PriceField
+                label="Cost Price (How much you buy 1 carton?)"
+                value={formData.costPricePerCarton}
+                onChange={(v) => updateFormData("costPricePerCarton", v)}
+              />
+            )}
             <PriceField
               label={
                 formData.quantityType === "Both"
@@ -449,7 +503,10 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
   formData,
   updateFormData,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
+  const { data: suppliers = [] } = useSuppliers();
   const [showThresholdDropdown, setShowThresholdDropdown] = useState(false);
 
   return (
@@ -481,7 +538,7 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
             <Ionicons
               name={showThresholdDropdown ? "chevron-up" : "chevron-down"}
               size={18}
-              color="#718096"
+              color={colors.textSecondary}
             />
           </TouchableOpacity>
 
@@ -498,7 +555,11 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
                 >
                   <Text style={styles.dropdownItemText}>{option}</Text>
                   {formData.lowStockThreshold === option && (
-                    <Ionicons name="checkmark" size={18} color="#1155CC" />
+                    <Ionicons
+                      name="checkmark"
+                      size={18}
+                      color={colors.primary}
+                    />
                   )}
                 </TouchableOpacity>
               ))}
@@ -512,7 +573,7 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
             <TextInput
               style={styles.dateBox}
               placeholder="DD"
-              placeholderTextColor="#CBD5E0"
+              placeholderTextColor={colors.textMuted}
               value={formData.expiryDate.day}
               onChangeText={(v) => updateFormData("expiryDate.day", v)}
               keyboardType="numeric"
@@ -521,7 +582,7 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
             <TextInput
               style={styles.dateBox}
               placeholder="MM"
-              placeholderTextColor="#CBD5E0"
+              placeholderTextColor={colors.textMuted}
               value={formData.expiryDate.month}
               onChangeText={(v) => updateFormData("expiryDate.month", v)}
               keyboardType="numeric"
@@ -530,7 +591,7 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
             <TextInput
               style={styles.dateBox}
               placeholder="YYYY"
-              placeholderTextColor="#CBD5E0"
+              placeholderTextColor={colors.textMuted}
               value={formData.expiryDate.year}
               onChangeText={(v) => updateFormData("expiryDate.year", v)}
               keyboardType="numeric"
@@ -538,16 +599,64 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
             />
           </View>
         </View>
+
+        <View style={[styles.fieldGroup, { marginTop: 16, marginBottom: 0 }]}>
+          <Text style={styles.label}>Lot / Batch Number</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. B2406-17"
+            placeholderTextColor={colors.textMuted}
+            value={formData.lotNumber}
+            onChangeText={(v) => updateFormData("lotNumber", v)}
+            autoCapitalize="characters"
+          />
+        </View>
       </View>
 
       {/* Card 2: Supplier info — separate card as per UI */}
       <View style={styles.card}>
+        {suppliers.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.supplierChips}
+          >
+            {suppliers.map((supplier) => {
+              const selected =
+                formData.supplier.name.trim().toLowerCase() ===
+                supplier.name.trim().toLowerCase();
+              return (
+                <TouchableOpacity
+                  key={supplier.id}
+                  style={[
+                    styles.supplierChip,
+                    selected && styles.supplierChipActive,
+                  ]}
+                  onPress={() => {
+                    updateFormData("supplier.name", supplier.name);
+                    updateFormData("supplier.phone", supplier.phone || "");
+                  }}
+                >
+                  <Text
+                    style={[
+                      styles.supplierChipText,
+                      selected && styles.supplierChipTextActive,
+                    ]}
+                  >
+                    {supplier.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
         <View style={styles.fieldGroup}>
           <Text style={styles.label}>Supplier</Text>
           <TextInput
             style={styles.input}
             placeholder="Full Name..."
-            placeholderTextColor="#CBD5E0"
+            placeholderTextColor={colors.textMuted}
             value={formData.supplier.name}
             onChangeText={(v) => updateFormData("supplier.name", v)}
           />
@@ -558,7 +667,7 @@ export const StockExtrasStep: React.FC<StockExtrasStepProps> = ({
           <TextInput
             style={styles.input}
             placeholder="Type here..."
-            placeholderTextColor="#CBD5E0"
+            placeholderTextColor={colors.textMuted}
             value={formData.supplier.phone}
             onChangeText={(v) => updateFormData("supplier.phone", v)}
             keyboardType="phone-pad"
@@ -577,6 +686,7 @@ interface ProductSummaryProps {
   saving: boolean;
   imageUploading: boolean;
   barcodeScanning?: boolean;
+  hideCosts?: boolean;
   onConfirm: () => void;
   onClose: () => void;
 }
@@ -587,9 +697,12 @@ export const ProductSummary: React.FC<ProductSummaryProps> = ({
   saving,
   imageUploading,
   barcodeScanning,
+  hideCosts = false,
   onConfirm,
   onClose,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const totalUnits =
     (parseInt(formData.unitsPerCarton) || 0) *
@@ -615,7 +728,14 @@ export const ProductSummary: React.FC<ProductSummaryProps> = ({
     pricingRows.push(
       { label: "Units in Stock:", value: formatNumber(formData.numberOfItems) },
       { label: "Unit Type:", value: "Single" },
-      { label: "Cost Price:", value: formatCurrency(formData.costPrice) },
+      ...(hideCosts
+        ? []
+        : [
+            {
+              label: "Cost Price:",
+              value: formatCurrency(formData.costPrice),
+            },
+          ]),
       {
         label: "Selling Price:",
         value: formatCurrency(formData.sellingPrice),
@@ -637,10 +757,14 @@ export const ProductSummary: React.FC<ProductSummaryProps> = ({
       },
       { label: "Total Units:", value: formatNumber(totalUnits) },
       { label: "Unit Type:", value: "Carton" },
-      {
-        label: "Cost Price (per carton):",
-        value: formatCurrency(formData.costPricePerCarton),
-      },
+      ...(hideCosts
+        ? []
+        : [
+            {
+              label: "Cost Price (per carton):",
+              value: formatCurrency(formData.costPricePerCarton),
+            },
+          ]),
       {
         label: "Selling Price (per carton):",
         value: formatCurrency(formData.sellingPricePerCarton),
@@ -665,6 +789,9 @@ export const ProductSummary: React.FC<ProductSummaryProps> = ({
           value: formData.lowStockThreshold || "10",
         },
         { label: "Expiry Date:", value: expiryDisplay },
+        ...(formData.lotNumber.trim()
+          ? [{ label: "Lot Number:", value: formData.lotNumber.trim() }]
+          : []),
       ],
     },
     {
@@ -697,7 +824,7 @@ export const ProductSummary: React.FC<ProductSummaryProps> = ({
               onPress={onClose}
               hitSlop={10}
             >
-              <Ionicons name="close" size={24} color="#1A202C" />
+              <Ionicons name="close" size={24} color={colors.text} />
             </TouchableOpacity>
           </View>
 
@@ -719,11 +846,15 @@ export const ProductSummary: React.FC<ProductSummaryProps> = ({
                   disabled={saving || imageUploading}
                 >
                   {saving || imageUploading ? (
-                    <ActivityIndicator color="#FFFFFF" size="small" />
+                    <ActivityIndicator color={colors.onPrimary} size="small" />
                   ) : (
                     <>
                       <Text style={styles.confirmBtnText}>Save Product</Text>
-                      <Ionicons name="checkmark" size={20} color="#FFF" />
+                      <Ionicons
+                        name="checkmark"
+                        size={20}
+                        color={colors.onPrimary}
+                      />
                     </>
                   )}
                 </TouchableOpacity>
@@ -761,416 +892,440 @@ function getMonthName(month: string): string {
 
 // ─── Shared styles ────────────────────────────────────────────────────────────
 
-const styles = StyleSheet.create({
-  stepContent: {
-    flex: 1,
-    paddingHorizontal: isSmall ? 10 : 16,
-    paddingTop: isSmall ? 10 : 16,
-  },
-  // Review/summary step renders the shared ProductSummaryView (white sections),
-  // so it uses a plain white scroll surface like the ProductDetails screen.
-  summaryScroll: {
-    flex: 1,
-    backgroundColor: "#FFF",
-  },
-  // Summary bottom-sheet modal
-  summaryOverlay: {
-    flex: 1,
-    backgroundColor: "rgba(0,0,0,0.45)",
-    justifyContent: "flex-end",
-  },
-  summarySheet: {
-    backgroundColor: "#FFF",
-    borderTopLeftRadius: 24,
-    borderTopRightRadius: 24,
-    overflow: "hidden",
-  },
-  summaryGrabber: {
-    width: 40,
-    height: 5,
-    borderRadius: 3,
-    backgroundColor: "#CBD5E0",
-    alignSelf: "center",
-    marginTop: 8,
-    marginBottom: 4,
-  },
-  summarySheetHeader: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-  },
-  summarySheetTitle: {
-    fontSize: 24,
-    color: "#1C1C1C",
-    fontFamily: "DMSans_700Bold",
-  },
-  summaryCloseBtn: {
-    padding: 4,
-  },
-  stepContentContainer: {
-    paddingBottom: 20,
-  },
-  card: {
-    backgroundColor: "#FFF",
-    borderRadius: 12,
-    padding: isSmall ? 12 : 16,
-    marginBottom: isSmall ? 10 : 16,
-  },
-  fieldGroup: {
-    marginBottom: isSmall ? 10 : 16,
-    display: "flex",
-    flexDirection: "column",
-    gap: isSmall ? 6 : 8,
-  },
-  label: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#2D3748",
-    marginBottom: 5,
-    fontFamily: "DMSans_600SemiBold",
-  },
-  labelHint: {
-    color: "#718096",
-    fontFamily: "DMSans_400Regular",
-  },
-  required: {
-    color: "#E53E3E",
-  },
-  input: {
-    backgroundColor: "#EDF2F7",
-    borderRadius: 6,
-    paddingVertical: isSmall ? 8 : 12,
-    paddingHorizontal: isSmall ? 10 : 12,
-    fontSize: isSmall ? 11 : 13,
-    color: "#2D3748",
-    fontFamily: "DMSans_400Regular",
-  },
-
-  // SKU row
-  skuRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    gap: isSmall ? 6 : 10,
-  },
-  skuInput: {
-    flex: 1,
-  },
-  scanButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 5,
-    borderWidth: 1.5,
-    borderColor: "#1155CC",
-    borderRadius: 8,
-    paddingHorizontal: isSmall ? 10 : 14,
-    paddingVertical: isSmall ? 8 : 12,
-    backgroundColor: "#FFF",
-  },
-  scanButtonText: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#1155CC",
-    fontFamily: "DMSans_600SemiBold",
-  },
-
-  // Dropdown
-  dropdown: {
-    backgroundColor: "#EDF2F7",
-    borderRadius: 6,
-    paddingVertical: isSmall ? 8 : 12,
-    paddingHorizontal: isSmall ? 10 : 12,
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-  },
-  dropdownText: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#2D3748",
-    fontFamily: "DMSans_400Regular",
-    flex: 1,
-  },
-  dropdownPlaceholder: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#CBD5E0",
-    fontFamily: "DMSans_400Regular",
-    flex: 1,
-  },
-  dropdownMenu: {
-    backgroundColor: "#FFF",
-    borderRadius: 6,
-    marginTop: 6,
-    borderWidth: 1,
-    borderColor: "#E2E8F0",
-    overflow: "hidden",
-  },
-  dropdownItem: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingVertical: isSmall ? 8 : 12,
-    paddingHorizontal: isSmall ? 10 : 12,
-    borderBottomWidth: 1,
-    borderBottomColor: "#F7FAFC",
-  },
-  dropdownItemText: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#2D3748",
-    fontFamily: "DMSans_400Regular",
-  },
-
-  // Image upload box — dashed border
-  imageUploadBox: {
-    borderWidth: 1.5,
-    borderColor: "#CBD5E0",
-    borderStyle: "dashed",
-    borderRadius: 8,
-    paddingVertical: isSmall ? 16 : 24,
-    paddingHorizontal: isSmall ? 12 : 16,
-    alignItems: "center",
-  },
-  imageIcon: {
-    marginBottom: isSmall ? 8 : 12,
-  },
-  imageUploadTitle: {
-    fontSize: isSmall ? 12 : 14,
-    color: "#94A3B8",
-    marginBottom: isSmall ? 14 : 18,
-    textAlign: "center",
-    lineHeight: 22,
-    fontFamily: "DMSans_400Regular",
-  },
-  // "Take Picture" — single outlined button, centered
-  takePictureBtn: {
-    alignSelf: "center",
-    backgroundColor: "#FFF",
-    borderWidth: 1,
-    borderColor: "#1155CC",
-    borderRadius: 8,
-    paddingVertical: isSmall ? 10 : 12,
-    paddingHorizontal: isSmall ? 32 : 48,
-    marginBottom: isSmall ? 12 : 16,
-  },
-  takePictureBtnText: {
-    fontSize: isSmall ? 13 : 15,
-    color: "#1155CC",
-    fontFamily: "DMSans_500Medium",
-    textAlign: "center",
-  },
-  // "Select from gallery" — underlined text link
-  galleryLinkText: {
-    fontSize: isSmall ? 12 : 14,
-    color: "#1155CC",
-    fontFamily: "DMSans_500Medium",
-    textDecorationLine: "underline",
-    marginBottom: isSmall ? 14 : 18,
-  },
-  imageUploadInfo: {
-    fontSize: isSmall ? 9 : 11,
-    color: "#94A3B8",
-    textAlign: "center",
-    fontFamily: "DMSans_400Regular",
-    lineHeight: 16,
-    marginBottom: isSmall ? 6 : 8,
-  },
-  imageUploadInfoBold: {
-    color: "#4A5568",
-    fontFamily: "DMSans_600SemiBold",
-  },
-  orSeparator: {
-    fontSize: isSmall ? 10 : 12,
-    color: "#A0AEC0",
-    fontFamily: "DMSans_400Regular",
-    marginVertical: isSmall ? 6 : 8,
-  },
-  // "Search online" pill inside dashed box
-  searchOnlineInner: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 6,
-    backgroundColor: "#EDF2F7",
-    borderRadius: 10,
-    paddingHorizontal: isSmall ? 16 : 24,
-    paddingVertical: isSmall ? 8 : 10,
-  },
-  searchOnlineInnerText: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#718096",
-    fontFamily: "DMSans_500Medium",
-  },
-
-  // Uploaded image state
-  uploadedImageWrap: {
-    width: "100%",
-    aspectRatio: 1,
-    borderRadius: 12,
-    overflow: "hidden",
-    backgroundColor: "#F1F5F9",
-    borderWidth: 1,
-    borderColor: "#E2E8F0",
-  },
-  uploadedImage: {
-    width: "100%",
-    height: "100%",
-  },
-  imageActionsRow: {
-    flexDirection: "row",
-    width: "100%",
-    gap: isSmall ? 8 : 12,
-    marginTop: isSmall ? 10 : 12,
-    marginBottom: isSmall ? 10 : 12,
-  },
-  changeImageBtn: {
-    flex: 1,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 6,
-    borderWidth: 1,
-    borderColor: "#1155CC",
-    borderRadius: 8,
-    paddingVertical: isSmall ? 9 : 11,
-  },
-  changeImageBtnText: {
-    fontSize: isSmall ? 12 : 14,
-    color: "#1155CC",
-    fontFamily: "DMSans_500Medium",
-  },
-  removeImageBtn: {
-    flex: 1,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 6,
-    borderWidth: 1,
-    borderColor: "#E53E3E",
-    borderRadius: 8,
-    paddingVertical: isSmall ? 9 : 11,
-  },
-  removeImageBtnText: {
-    fontSize: isSmall ? 12 : 14,
-    color: "#E53E3E",
-    fontFamily: "DMSans_500Medium",
-  },
-
-  // Radio
-  radioGroup: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    gap: isSmall ? 8 : 14,
-  },
-  radioOption: {
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  radioCircle: {
-    width: 18,
-    height: 18,
-    borderRadius: 9,
-    borderWidth: 2,
-    borderColor: "#CBD5E0",
-    marginRight: 5,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  radioCircleActive: {
-    borderColor: "#1155CC",
-  },
-  radioInner: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-    backgroundColor: "#1155CC",
-  },
-  radioText: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#2D3748",
-    fontFamily: "DMSans_400Regular",
-  },
-
-  // Price fields
-  priceInputRow: {
-    flexDirection: "row",
-    alignItems: "stretch",
-    gap: isSmall ? 6 : 10,
-    marginBottom: isSmall ? 10 : 12,
-  },
-  currencyBox: {
-    width: isSmall ? 44 : 56,
-    backgroundColor: "#EDF2F7",
-    borderRadius: 6,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  currency: {
-    fontSize: isSmall ? 13 : 15,
-    color: "#4A5568",
-    fontFamily: "DMSans_500Medium",
-  },
-  priceInput: {
-    flex: 1,
-    backgroundColor: "#EDF2F7",
-    borderRadius: 6,
-    paddingVertical: isSmall ? 10 : 14,
-    paddingHorizontal: isSmall ? 12 : 14,
-    fontSize: isSmall ? 12 : 14,
-    color: "#2D3748",
-    fontFamily: "DMSans_400Regular",
-  },
-  priceOptionsRow: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    justifyContent: "space-between",
-    rowGap: isSmall ? 8 : 12,
-  },
-  priceChip: {
-    width: "31.5%",
-    backgroundColor: "#EDF2F7",
-    borderRadius: 6,
-    paddingVertical: isSmall ? 10 : 14,
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  priceChipText: {
-    fontSize: isSmall ? 11 : 13,
-    color: "#4A5568",
-    fontFamily: "DMSans_500Medium",
-  },
-
-  // Date fields
-  dateRow: {
-    flexDirection: "row",
-    gap: isSmall ? 5 : 10,
-  },
-  dateBox: {
-    backgroundColor: "#EDF2F7",
-    borderRadius: 6,
-    paddingVertical: isSmall ? 8 : 12,
-    paddingHorizontal: isSmall ? 2 : 8,
-    fontSize: isSmall ? 11 : 13,
-    color: "#2D3748",
-    flex: 1,
-    textAlign: "center",
-    fontFamily: "DMSans_400Regular",
-    minWidth: 0,
-  },
-
-  // Summary
-  confirmBtn: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 8,
-    backgroundColor: "#1155CC",
-    borderRadius: 10,
-    paddingVertical: isSmall ? 14 : 16,
-    marginTop: 4,
-    marginBottom: 8,
-  },
-  confirmBtnText: {
-    fontSize: isSmall ? 13 : 15,
-    color: "#FFF",
-    fontFamily: "DMSans_600SemiBold",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    stepContent: {
+      flex: 1,
+      paddingHorizontal: isSmall ? 10 : 16,
+      paddingTop: isSmall ? 10 : 16,
+    },
+    // Review/summary step renders the shared ProductSummaryView (white sections),
+    // so it uses a plain white scroll surface like the ProductDetails screen.
+    summaryScroll: {
+      flex: 1,
+      backgroundColor: colors.surface,
+    },
+    // Summary bottom-sheet modal
+    summaryOverlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    summarySheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 24,
+      borderTopRightRadius: 24,
+      overflow: "hidden",
+    },
+    summaryGrabber: {
+      width: 40,
+      height: 5,
+      borderRadius: 3,
+      backgroundColor: colors.border,
+      alignSelf: "center",
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    summarySheetHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: 20,
+      paddingVertical: 12,
+    },
+    summarySheetTitle: {
+      fontSize: 24,
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    summaryCloseBtn: {
+      padding: 4,
+    },
+    stepContentContainer: {
+      paddingBottom: 20,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: isSmall ? 12 : 16,
+      marginBottom: isSmall ? 10 : 16,
+    },
+    fieldGroup: {
+      marginBottom: isSmall ? 10 : 16,
+      display: "flex",
+      flexDirection: "column",
+      gap: isSmall ? 6 : 8,
+    },
+    label: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.text,
+      marginBottom: 5,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    labelHint: {
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+    },
+    required: {
+      color: colors.danger,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 6,
+      paddingVertical: isSmall ? 8 : 12,
+      paddingHorizontal: isSmall ? 10 : 12,
+      fontSize: isSmall ? 11 : 13,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+
+    // SKU row
+    skuRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: isSmall ? 6 : 10,
+    },
+    skuInput: {
+      flex: 1,
+    },
+    scanButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 5,
+      borderWidth: 1.5,
+      borderColor: colors.primary,
+      borderRadius: 8,
+      paddingHorizontal: isSmall ? 10 : 14,
+      paddingVertical: isSmall ? 8 : 12,
+      backgroundColor: colors.surface,
+    },
+    scanButtonText: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.primary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+
+    // Dropdown
+    dropdown: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 6,
+      paddingVertical: isSmall ? 8 : 12,
+      paddingHorizontal: isSmall ? 10 : 12,
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    dropdownText: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+      flex: 1,
+    },
+    dropdownPlaceholder: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.textMuted,
+      fontFamily: "DMSans_400Regular",
+      flex: 1,
+    },
+    dropdownMenu: {
+      backgroundColor: colors.surface,
+      borderRadius: 6,
+      marginTop: 6,
+      borderWidth: 1,
+      borderColor: colors.border,
+      overflow: "hidden",
+    },
+    dropdownItem: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingVertical: isSmall ? 8 : 12,
+      paddingHorizontal: isSmall ? 10 : 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    dropdownItemText: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+
+    // Image upload box — dashed border
+    imageUploadBox: {
+      borderWidth: 1.5,
+      borderColor: colors.border,
+      borderStyle: "dashed",
+      borderRadius: 8,
+      paddingVertical: isSmall ? 16 : 24,
+      paddingHorizontal: isSmall ? 12 : 16,
+      alignItems: "center",
+    },
+    imageIcon: {
+      marginBottom: isSmall ? 8 : 12,
+    },
+    imageUploadTitle: {
+      fontSize: isSmall ? 12 : 14,
+      color: colors.textMuted,
+      marginBottom: isSmall ? 14 : 18,
+      textAlign: "center",
+      lineHeight: 22,
+      fontFamily: "DMSans_400Regular",
+    },
+    // "Take Picture" — single outlined button, centered
+    takePictureBtn: {
+      alignSelf: "center",
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: isSmall ? 10 : 12,
+      paddingHorizontal: isSmall ? 32 : 48,
+      marginBottom: isSmall ? 12 : 16,
+    },
+    takePictureBtnText: {
+      fontSize: isSmall ? 13 : 15,
+      color: colors.primary,
+      fontFamily: "DMSans_500Medium",
+      textAlign: "center",
+    },
+    // "Select from gallery" — underlined text link
+    galleryLinkText: {
+      fontSize: isSmall ? 12 : 14,
+      color: colors.primary,
+      fontFamily: "DMSans_500Medium",
+      textDecorationLine: "underline",
+      marginBottom: isSmall ? 14 : 18,
+    },
+    imageUploadInfo: {
+      fontSize: isSmall ? 9 : 11,
+      color: colors.textMuted,
+      textAlign: "center",
+      fontFamily: "DMSans_400Regular",
+      lineHeight: 16,
+      marginBottom: isSmall ? 6 : 8,
+    },
+    imageUploadInfoBold: {
+      color: colors.textSecondary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    orSeparator: {
+      fontSize: isSmall ? 10 : 12,
+      color: colors.textMuted,
+      fontFamily: "DMSans_400Regular",
+      marginVertical: isSmall ? 6 : 8,
+    },
+    // "Search online" pill inside dashed box
+    searchOnlineInner: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 6,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 10,
+      paddingHorizontal: isSmall ? 16 : 24,
+      paddingVertical: isSmall ? 8 : 10,
+    },
+    searchOnlineInnerText: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+    },
+
+    // Uploaded image state
+    uploadedImageWrap: {
+      width: "100%",
+      aspectRatio: 1,
+      borderRadius: 12,
+      overflow: "hidden",
+      backgroundColor: colors.surfaceMuted,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    uploadedImage: {
+      width: "100%",
+      height: "100%",
+    },
+    imageActionsRow: {
+      flexDirection: "row",
+      width: "100%",
+      gap: isSmall ? 8 : 12,
+      marginTop: isSmall ? 10 : 12,
+      marginBottom: isSmall ? 10 : 12,
+    },
+    changeImageBtn: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 6,
+      borderWidth: 1,
+      borderColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: isSmall ? 9 : 11,
+    },
+    changeImageBtnText: {
+      fontSize: isSmall ? 12 : 14,
+      color: colors.primary,
+      fontFamily: "DMSans_500Medium",
+    },
+    removeImageBtn: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 6,
+      borderWidth: 1,
+      borderColor: colors.danger,
+      borderRadius: 8,
+      paddingVertical: isSmall ? 9 : 11,
+    },
+    removeImageBtnText: {
+      fontSize: isSmall ? 12 : 14,
+      color: colors.danger,
+      fontFamily: "DMSans_500Medium",
+    },
+
+    // Radio
+    radioGroup: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: isSmall ? 8 : 14,
+    },
+    radioOption: {
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    radioCircle: {
+      width: 18,
+      height: 18,
+      borderRadius: 9,
+      borderWidth: 2,
+      borderColor: colors.border,
+      marginRight: 5,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    radioCircleActive: {
+      borderColor: colors.primary,
+    },
+    radioInner: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.primary,
+    },
+    radioText: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+
+    // Price fields
+    priceInputRow: {
+      flexDirection: "row",
+      alignItems: "stretch",
+      gap: isSmall ? 6 : 10,
+      marginBottom: isSmall ? 10 : 12,
+    },
+    currencyBox: {
+      width: isSmall ? 44 : 56,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 6,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    currency: {
+      fontSize: isSmall ? 13 : 15,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+    },
+    priceInput: {
+      flex: 1,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 6,
+      paddingVertical: isSmall ? 10 : 14,
+      paddingHorizontal: isSmall ? 12 : 14,
+      fontSize: isSmall ? 12 : 14,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+    priceOptionsRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      justifyContent: "space-between",
+      rowGap: isSmall ? 8 : 12,
+    },
+    priceChip: {
+      width: "31.5%",
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 6,
+      paddingVertical: isSmall ? 10 : 14,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    priceChipText: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+    },
+
+    // Saved suppliers
+    supplierChips: {
+      gap: 8,
+      paddingBottom: isSmall ? 10 : 14,
+    },
+    supplierChip: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 16,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+    },
+    supplierChipActive: {
+      backgroundColor: colors.primary,
+    },
+    supplierChipText: {
+      fontSize: isSmall ? 11 : 13,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+    },
+    supplierChipTextActive: {
+      color: colors.onPrimary,
+    },
+
+    // Date fields
+    dateRow: {
+      flexDirection: "row",
+      gap: isSmall ? 5 : 10,
+    },
+    dateBox: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 6,
+      paddingVertical: isSmall ? 8 : 12,
+      paddingHorizontal: isSmall ? 2 : 8,
+      fontSize: isSmall ? 11 : 13,
+      color: colors.text,
+      flex: 1,
+      textAlign: "center",
+      fontFamily: "DMSans_400Regular",
+      minWidth: 0,
+    },
+
+    // Summary
+    confirmBtn: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      backgroundColor: colors.primary,
+      borderRadius: 10,
+      paddingVertical: isSmall ? 14 : 16,
+      marginTop: 4,
+      marginBottom: 8,
+    },
+    confirmBtnText: {
+      fontSize: isSmall ? 13 : 15,
+      color: colors.onPrimary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
@@ -1,6 +1,7 @@
 import React from "react";
 import { Image, Text, View } from "react-native";
-import { styles } from "../ProductDetails.styles";
+import { useThemedStyles } from "@/hooks/useTheme";
+import { createStyles } from "../ProductDetails.styles";
 
 export interface SummaryRowData {
   label: string;
@@ -25,40 +26,48 @@ interface Props {
  * stays consistent everywhere. It only renders content — callers provide the
  * scroll container and any header.
  */
-const ProductSummaryView: React.FC<Props> = ({ imageUri, sections, footer }) => (
-  <>
-    {/* Product image */}
-    <View style={styles.imageContainer}>
-      <Image
-        source={
-          imageUri
-            ? { uri: imageUri }
-            : require("../../../assets/images/noImg.jpg")
-        }
-        style={styles.productImage}
-      />
-    </View>
+const ProductSummaryView: React.FC<Props> = ({
+  imageUri,
+  sections,
+  footer,
+}) => {
+  const styles = useThemedStyles(createStyles);
 
-    {sections.map((section) => (
-      <View key={section.title} style={styles.section}>
-        <Text style={styles.sectionTitle}>{section.title}</Text>
-        {section.rows.map((row, index) => (
-          <View
-            key={row.label}
-            style={[
-              styles.row,
-              index === section.rows.length - 1 && { borderBottomWidth: 0 },
-            ]}
-          >
-            <Text style={styles.rowLabel}>{row.label}</Text>
-            <Text style={styles.rowValue}>{row.value}</Text>
-          </View>
-        ))}
+  return (
+    <>
+      {/* Product image */}
+      <View style={styles.imageContainer}>
+        <Image
+          source={
+            imageUri
+              ? { uri: imageUri }
+              : require("../../../assets/images/noImg.jpg")
+          }
+          style={styles.productImage}
+        />
       </View>
-    ))}
 
-    {footer ? <View style={styles.bottomContainer}>{footer}</View> : null}
-  </>
-);
+      {sections.map((section) => (
+        <View key={section.title} style={styles.section}>
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+          {section.rows.map((row, index) => (
+            <View
+              key={row.label}
+              style={[
+                styles.row,
+                index === section.rows.length - 1 && { borderBottomWidth: 0 },
+              ]}
+            >
+              <Text style={styles.rowLabel}>{row.label}</Text>
+              <Text style={styles.rowValue}>{row.value}</Text>
+            </View>
+          ))}
+        </View>
+      ))}
+
+      {footer ? <View style={styles.bottomContainer}>{footer}</View> : null}
+    </>
+  );
+};
 
 export default ProductSummaryView;
@@ -14,6 +14,8 @@ import {
     TouchableOpacity,
     View,
 } from "react-native";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 const { width } = Dimensions.get("window");
 const isSmall = width < 360;
@@ -29,6 +31,8 @@ const SearchProductModal: React.FC<Props> = ({
   onClose,
   onSelectProduct,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<Product[]>([]);
   const [recentSearches] = useState<string[]>([]);
@@ -68,7 +72,7 @@ const SearchProductModal: React.FC<Props> = ({
         <View style={styles.header}>
           <Text style={styles.headerTitle}>Search Product</Text>
           <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
-            <Ionicons name="close" size={24} color="#000" />
+            <Ionicons name="close" size={24} color={colors.text} />
           </TouchableOpacity>
         </View>
 
@@ -125,7 +129,7 @@ const SearchProductModal: React.FC<Props> = ({
 
               {isSearching ? (
                 <View style={styles.loadingContainer}>
-                  <ActivityIndicator size="large" color="#1155CC" />
+                  <ActivityIndicator size="large" color={colors.primary} />
                 </View>
               ) : searchResults.length > 0 ? (
                 searchResults.map((product) => (
@@ -165,153 +169,154 @@ const SearchProductModal: React.FC<Props> = ({
   );
 };
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: "#F7FAFC",
-  },
-  header: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingHorizontal: isSmall ? 14 : 20,
-    paddingVertical: 14,
-    backgroundColor: "#FFF",
-    borderBottomWidth: 1,
-    borderBottomColor: "#E2E8F0",
-  },
-  headerTitle: {
-    fontSize: isSmall ? 15 : 17,
-    color: "#1A202C",
-    fontFamily: "DMSans_600SemiBold",
-  },
-  closeButton: {
-    padding: 4,
-  },
-  searchInputContainer: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "#FFF",
-    marginHorizontal: isSmall ? 10 : 16,
-    marginVertical: 12,
-    borderRadius: 8,
-    paddingHorizontal: 12,
-    paddingVertical: 10,
-    borderWidth: 1,
-    borderColor: "#E2E8F0",
-  },
-  searchIcon: {
-    marginRight: 8,
-  },
-  searchInput: {
-    flex: 1,
-    fontSize: isSmall ? 13 : 14,
-    color: "#2D3748",
-    fontFamily: "DMSans_400Regular",
-  },
-  clearButton: {
-    padding: 4,
-  },
-  content: {
-    flex: 1,
-  },
-  recentSection: {
-    backgroundColor: "#FFF",
-    paddingVertical: 8,
-  },
-  recentHeader: {
-    fontSize: 11,
-    color: "#1155CC",
-    paddingHorizontal: 20,
-    paddingVertical: 8,
-    textTransform: "uppercase",
-    letterSpacing: 0.5,
-    fontFamily: "DMSans_600SemiBold",
-  },
-  recentItem: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: "#F7FAFC",
-  },
-  recentText: {
-    fontSize: isSmall ? 12 : 13,
-    color: "#2D3748",
-    marginLeft: 10,
-    fontFamily: "DMSans_400Regular",
-  },
-  resultsSection: {
-    flex: 1,
-  },
-  resultsHeader: {
-    fontSize: isSmall ? 11 : 12,
-    color: "#718096",
-    paddingHorizontal: 20,
-    paddingVertical: 12,
-    backgroundColor: "#F7FAFC",
-    fontFamily: "DMSans_400Regular",
-  },
-  queryText: {
-    color: "#1155CC",
-    fontFamily: "DMSans_600SemiBold",
-  },
-  loadingContainer: {
-    padding: 36,
-    alignItems: "center",
-  },
-  resultItem: {
-    flexDirection: "row",
-    alignItems: "center",
-    backgroundColor: "#FFF",
-    paddingHorizontal: isSmall ? 14 : 20,
-    paddingVertical: 12,
-    borderBottomWidth: 1,
-    borderBottomColor: "#F7FAFC",
-  },
-  resultImage: {
-    width: 46,
-    height: 46,
-    borderRadius: 6,
-    marginRight: 12,
-  },
-  resultImagePlaceholder: {
-    width: 46,
-    height: 46,
-    borderRadius: 6,
-    backgroundColor: "#EDF2F7",
-    alignItems: "center",
-    justifyContent: "center",
-    marginRight: 12,
-  },
-  resultInfo: {
-    flex: 1,
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-  },
-  resultName: {
-    fontSize: isSmall ? 12 : 13,
-    color: "#2D3748",
-    flex: 1,
-    fontFamily: "DMSans_500Medium",
-  },
-  resultAction: {
-    fontSize: isSmall ? 11 : 12,
-    color: "#1155CC",
-    fontFamily: "DMSans_500Medium",
-  },
-  noResultsContainer: {
-    padding: 36,
-    alignItems: "center",
-  },
-  noResultsText: {
-    fontSize: isSmall ? 12 : 13,
-    color: "#718096",
-    textAlign: "center",
-    fontFamily: "DMSans_400Regular",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.surfaceMuted,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingHorizontal: isSmall ? 14 : 20,
+      paddingVertical: 14,
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    headerTitle: {
+      fontSize: isSmall ? 15 : 17,
+      color: colors.text,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    closeButton: {
+      padding: 4,
+    },
+    searchInputContainer: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surface,
+      marginHorizontal: isSmall ? 10 : 16,
+      marginVertical: 12,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    searchIcon: {
+      marginRight: 8,
+    },
+    searchInput: {
+      flex: 1,
+      fontSize: isSmall ? 13 : 14,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+    clearButton: {
+      padding: 4,
+    },
+    content: {
+      flex: 1,
+    },
+    recentSection: {
+      backgroundColor: colors.surface,
+      paddingVertical: 8,
+    },
+    recentHeader: {
+      fontSize: 11,
+      color: colors.primary,
+      paddingHorizontal: 20,
+      paddingVertical: 8,
+      textTransform: "uppercase",
+      letterSpacing: 0.5,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    recentItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingHorizontal: 20,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    recentText: {
+      fontSize: isSmall ? 12 : 13,
+      color: colors.text,
+      marginLeft: 10,
+      fontFamily: "DMSans_400Regular",
+    },
+    resultsSection: {
+      flex: 1,
+    },
+    resultsHeader: {
+      fontSize: isSmall ? 11 : 12,
+      color: colors.textSecondary,
+      paddingHorizontal: 20,
+      paddingVertical: 12,
+      backgroundColor: colors.surfaceMuted,
+      fontFamily: "DMSans_400Regular",
+    },
+    queryText: {
+      color: colors.primary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    loadingContainer: {
+      padding: 36,
+      alignItems: "center",
+    },
+    resultItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      backgroundColor: colors.surface,
+      paddingHorizontal: isSmall ? 14 : 20,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    resultImage: {
+      width: 46,
+      height: 46,
+      borderRadius: 6,
+      marginRight: 12,
+    },
+    resultImagePlaceholder: {
+      width: 46,
+      height: 46,
+      borderRadius: 6,
+      backgroundColor: colors.surfaceMuted,
+      alignItems: "center",
+      justifyContent: "center",
+      marginRight: 12,
+    },
+    resultInfo: {
+      flex: 1,
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    resultName: {
+      fontSize: isSmall ? 12 : 13,
+      color: colors.text,
+      flex: 1,
+      fontFamily: "DMSans_500Medium",
+    },
+    resultAction: {
+      fontSize: isSmall ? 11 : 12,
+      color: colors.primary,
+      fontFamily: "DMSans_500Medium",
+    },
+    noResultsContainer: {
+      padding: 36,
+      alignItems: "center",
+    },
+    noResultsText: {
+      fontSize: isSmall ? 12 : 13,
+      color: colors.textSecondary,
+      textAlign: "center",
+      fontFamily: "DMSans_400Regular",
+    },
+  });
 
 export default SearchProductModal;
@@ -3,7 +3,7 @@ import { useFonts } from "expo-font";
 import { Stack, useRouter, useSegments } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
 import { useCallback, useEffect, useRef, useState } from "react";
-import { Platform, Text, TextInput } from "react-native";
+import { Platform, StatusBar, Text, TextInput } from "react-native";
 import {
     SafeAreaProvider,
     useSafeAreaInsets,
@@ -11,7 +11,9 @@ import {
 
 import { AddProductContext } from "@/context/AddProductContext";
 import type { Product as AddProductModel } from "@/hooks/useAddProductForm";
+import { useTheme } from "@/hooks/useTheme";
 import { clearTokens, getAccessToken, getProfile } from "@/src/api";
+import useLocaleStore from "@/stores/localeStore";
 import { FONT_ASSETS } from "../constants/fonts";
 import AddProductFlow from "./(Routes)/AddProductFlow";
 
@@ -33,9 +35,13 @@ function AppContent() {
     AddProductModel | undefined
   >(undefined);
   const [addProductStartStep, setAddProductStartStep] = useState(0);
+  const [addProductBarcode, setAddProductBarcode] = useState<
+    string | undefined
+  >(undefined);
   const router = useRouter();
   const segments = useSegments();
   const insets = useSafeAreaInsets();
+  const { colors, isDark } = useTheme();
   const navigationHandled = useRef(false);
 
   const [fontsLoaded, fontError] = useFonts(FONT_ASSETS);
@@ -68,7 +74,10 @@ function AppContent() {
           if (!cancelled) setIsAuthenticated(false);
           return;
         }
-        await getProfile();
+        const profile = await getProfile();
+        useLocaleStore.getState().setFormat(profile);
+        // Seed the cache so role-gated screens know who this is on first paint
+        queryClient.setQueryData(["profile"], profile);
         if (!cancelled) setIsAuthenticated(true);
       } catch {
         await clearTokens();
@@ -81,7 +90,7 @@ function AppContent() {
     return () => {
       cancelled = true;
     };
-  }, []);
+  }, [queryClient]);
 
   // --- Handle navigation based on auth state ---
   const handleNavigation = useCallback(() => {
@@ -130,12 +139,21 @@ function AppContent() {
   const openAddProduct = () => {
     setAddProductInitialProduct(undefined);
     setAddProductStartStep(0);
+    setAddProductBarcode(undefined);
+    setShowAddProduct(true);
+  };
+
+  const openAddProductWithBarcode = (barcode: string) => {
+    setAddProductInitialProduct(undefined);
+    setAddProductStartStep(0);
+    setAddProductBarcode(barcode);
     setShowAddProduct(true);
   };
 
   const openRestockProduct = (product: AddProductModel) => {
     setAddProductInitialProduct(product);
     setAddProductStartStep(1);
+    setAddProductBarcode(undefined);
     setShowAddProduct(true);
   };
 
@@ -143,19 +161,25 @@ function AppContent() {
     setShowAddProduct(false);
     setAddProductInitialProduct(undefined);
     setAddProductStartStep(0);
+    setAddProductBarcode(undefined);
   };
 
   return (
     <QueryClientProvider client={queryClient}>
       <AddProductContext.Provider
-        value={{ openAddProduct, openRestockProduct }}
+        value={{
+          openAddProduct,
+          openAddProductWithBarcode,
+          openRestockProduct,
+        }}
       >
+        <StatusBar barStyle={isDark ? "light-content" : "dark-content"} />
         <Stack
           screenOptions={{
             headerShown: false,
             contentStyle: {
               paddingTop: Platform.OS === "android" ? insets.top : 0,
-              backgroundColor: "#E7EEFA",
+              backgroundColor: colors.background,
             },
           }}
         >
@@ -171,6 +195,7 @@ function AppContent() {
           onSaveProduct={closeAddProduct}
           initialProduct={addProductInitialProduct}
           startStep={addProductStartStep}
+          initialBarcode={addProductBarcode}
         />
       </AddProductContext.Provider>
     </QueryClientProvider>
@@ -1,3 +1,5 @@
+import type { CostingMethod } from "@/stores/settingsStore";
+
 export interface FinancialSummary {
   totalSales: number;
   totalCost: number;
@@ -5,6 +7,24 @@ export interface FinancialSummary {
   totalSalesChange: number;
   totalCostChange: number;
   totalProfitChange: number;
+  // Money handed back on returns in the period, shown as negative lines
+  totalRefunds?: number;
+  refundedProfit?: number;
+  // Running costs for the period and what's left after them
+  totalExpenses?: number;
+  // Cost of stock written off (damaged, expired, given away...), not a sale
+  stockLoss?: number;
+  netProfit?: number;
+  // Set when cost and profit were recomputed from restock lots
+  costingMethod?: CostingMethod;
+  // The reported range and the one the *Change percentages compare with
+  rangeLabel?: string;
+  comparison?: {
+    label: string;
+    totalSales: number;
+    totalCost: number;
+    totalProfit: number;
+  };
 }
 
 export interface DailySummary {
@@ -64,4 +84,4 @@ export interface ChartData {
   }[];
 }
 
-export type Period = "Today" | "Week" | "Month";
+export type Period = "Today" | "Week" | "Month" | "Custom";
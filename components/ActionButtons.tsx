@@ -4,13 +4,16 @@ import { useRouter } from "expo-router";
 import React from "react";
 import { Text, TouchableOpacity, View } from "react-native";
 
-import { moderateScale, homeStyles as styles } from "./homeStyles";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import { createHomeStyles, moderateScale } from "./homeStyles";
 
 interface ActionButtonsProps {
   onAddProduct: () => void;
 }
 
 const ActionButtons: React.FC<ActionButtonsProps> = ({ onAddProduct }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createHomeStyles);
   const router = useRouter();
 
   return (
@@ -33,7 +36,7 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({ onAddProduct }) => {
       <TouchableOpacity
         style={[
           styles.actionBox,
-          { backgroundColor: "#1155CC", cursor: "pointer" },
+          { backgroundColor: colors.primary, cursor: "pointer" },
         ]}
         onPress={() => router.push("/(Main)/Sell")}
         activeOpacity={0.8}
@@ -0,0 +1,256 @@
+import { Ionicons } from "@expo/vector-icons";
+import {
+    BarcodeScanningResult,
+    BarcodeType,
+    CameraView,
+    useCameraPermissions,
+} from "expo-camera";
+import * as Haptics from "expo-haptics";
+import React, { useRef } from "react";
+import {
+    ActivityIndicator,
+    Modal,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+// Retail product codes plus QR for shelf labels we print ourselves.
+const BARCODE_TYPES: BarcodeType[] = [
+  "ean13",
+  "ean8",
+  "upc_a",
+  "upc_e",
+  "code128",
+  "code39",
+  "itf14",
+  "qr",
+];
+
+// The camera reports the same code many times a second; ignore repeats of the
+// last code inside this window so one sweep adds one item.
+const REPEAT_SCAN_MS = 1500;
+
+interface BarcodeScannerProps {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (code: string) => void;
+  // Keep the camera open after each scan (rapid checkout).
+  continuous?: boolean;
+  title?: string;
+  // Feedback line under the viewfinder, e.g. "Added Peak Milk".
+  statusMessage?: string;
+}
+
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
+  visible,
+  onClose,
+  onScanned,
+  continuous = false,
+  title = "Scan barcode",
+  statusMessage,
+}) => {
+  const insets = useSafeAreaInsets();
+  const [permission, requestPermission] = useCameraPermissions();
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    const code = data?.trim();
+    if (!code) return;
+
+    const now = Date.now();
+    const last = lastScanRef.current;
+    if (last && last.code === code && now - last.at < REPEAT_SCAN_MS) return;
+    lastScanRef.current = { code, at: now };
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onScanned(code);
+    if (!continuous) onClose();
+  };
+
+  const renderBody = () => {
+    if (!permission) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#fff" />
+        </View>
+      );
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="camera-outline" size={56} color="#fff" />
+          <Text style={styles.permissionText}>
+            Inventra needs camera access to scan barcodes.
+          </Text>
+          <TouchableOpacity
+            style={styles.permissionButton}
+            onPress={requestPermission}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.permissionButtonText}>Allow camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: BARCODE_TYPES }}
+          onBarcodeScanned={visible ? handleBarcodeScanned : undefined}
+        />
+        <View style={styles.viewfinderWrap} pointerEvents="none">
+          <View style={styles.viewfinder} />
+          <Text style={styles.hint}>
+            {continuous
+              ? "Keep scanning — each code is added automatically"
+              : "Point the camera at a barcode"}
+          </Text>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      onRequestClose={onClose}
+      statusBarTranslucent
+    >
+      <View style={styles.container}>
+        {renderBody()}
+
+        <View style={[styles.header, { paddingTop: insets.top + 12 }]}>
+          <Text style={styles.headerTitle}>{title}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Ionicons name="close" size={24} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        {!!statusMessage && (
+          <View
+            style={[styles.statusBar, { paddingBottom: insets.bottom + 16 }]}
+          >
+            <Text style={styles.statusText} numberOfLines={2}>
+              {statusMessage}
+            </Text>
+            {continuous && (
+              <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+                <Text style={styles.doneButtonText}>Done</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#000",
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    paddingHorizontal: 32,
+  },
+  permissionText: {
+    color: "#fff",
+    fontSize: 16,
+    textAlign: "center",
+    marginTop: 16,
+    fontFamily: "DMSans_400Regular",
+  },
+  permissionButton: {
+    marginTop: 20,
+    backgroundColor: "#1155CC",
+    borderRadius: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  permissionButtonText: {
+    color: "#fff",
+    fontSize: 16,
+    fontFamily: "DMSans_600SemiBold",
+  },
+  header: {
+    position: "absolute",
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: "rgba(0,0,0,0.4)",
+  },
+  headerTitle: {
+    color: "#fff",
+    fontSize: 18,
+    fontFamily: "DMSans_700Bold",
+  },
+  closeButton: {
+    padding: 6,
+  },
+  viewfinderWrap: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  viewfinder: {
+    width: "75%",
+    aspectRatio: 1.6,
+    borderWidth: 3,
+    borderColor: "#FBBF24",
+    borderRadius: 16,
+  },
+  hint: {
+    color: "#fff",
+    fontSize: 14,
+    marginTop: 16,
+    textAlign: "center",
+    fontFamily: "DMSans_400Regular",
+  },
+  statusBar: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    bottom: 0,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    backgroundColor: "rgba(0,0,0,0.7)",
+  },
+  statusText: {
+    flex: 1,
+    color: "#fff",
+    fontSize: 15,
+    fontFamily: "DMSans_500Medium",
+  },
+  doneButton: {
+    backgroundColor: "#1155CC",
+    borderRadius: 10,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+  },
+  doneButtonText: {
+    color: "#fff",
+    fontSize: 15,
+    fontFamily: "DMSans_600SemiBold",
+  },
+});
+
+export default BarcodeScanner;
@@ -0,0 +1,223 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useSaveBranch } from "@/hooks/useBranches";
+import type { ApiBranch } from "@/src/api/branches";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface BranchFormModalProps {
+  visible: boolean;
+  branch?: ApiBranch | null;
+  onClose: () => void;
+}
+
+const FIELDS = [
+  { key: "name", label: "Name", placeholder: "e.g. Yaba shop" },
+  { key: "address", label: "Address (optional)", placeholder: "Street, area" },
+  {
+    key: "phone",
+    label: "Phone (optional)",
+    placeholder: "080…",
+    keyboardType: "phone-pad",
+  },
+] as const;
+
+type BranchForm = Record<(typeof FIELDS)[number]["key"], string>;
+
+const BranchFormModal: React.FC<BranchFormModalProps> = ({
+  visible,
+  branch,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const saveBranch = useSaveBranch();
+  const [form, setForm] = useState<BranchForm>({
+    name: "",
+    address: "",
+    phone: "",
+  });
+
+  useEffect(() => {
+    if (!visible) return;
+    setForm({
+      name: branch?.name || "",
+      address: branch?.address || "",
+      phone: branch?.phone || "",
+    });
+  }, [visible, branch]);
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      Alert.alert("Error", "Please enter the branch name");
+      return;
+    }
+
+    try {
+      await saveBranch.mutateAsync({
+        id: branch?.id,
+        payload: {
+          name: form.name.trim(),
+          address: form.address.trim() || null,
+          phone: form.phone.trim() || null,
+        },
+      });
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to save branch. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {branch ? "Edit branch" : "New branch"}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {FIELDS.map((field) => (
+              <View key={field.key}>
+                <Text style={styles.label}>{field.label}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={field.placeholder}
+                  placeholderTextColor={colors.textMuted}
+                  value={form[field.key]}
+                  onChangeText={(value) =>
+                    setForm((prev) => ({ ...prev, [field.key]: value }))
+                  }
+                  keyboardType={
+                    "keyboardType" in field ? field.keyboardType : "default"
+                  }
+                />
+              </View>
+            ))}
+            {!branch && (
+              <Text style={styles.hint}>
+                New branches start with no stock. Transfer stock in from
+                another branch or restock it there.
+              </Text>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              saveBranch.isPending && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={saveBranch.isPending}
+          >
+            {saveBranch.isPending ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <Text style={styles.saveButtonText}>Save branch</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    hint: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 12,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default BranchFormModal;
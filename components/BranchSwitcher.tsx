@@ -0,0 +1,202 @@
+import { Feather } from "@expo/vector-icons";
+import { useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import type { ThemeColors } from "@/constants/theme";
+import { useActiveBranch } from "@/hooks/useBranches";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+/**
+ * The active branch as a small pill under the greeting. Tapping it lists the
+ * business's branches to switch between. Nothing shows until there is more
+ * than one branch.
+ */
+const BranchSwitcher: React.FC = () => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { branches, activeBranch, switchBranch } = useActiveBranch();
+  const { canManageBranches } = usePermissions();
+  const [open, setOpen] = useState(false);
+
+  if (branches.length < 2 || !activeBranch) return null;
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.pill}
+        onPress={() => setOpen(true)}
+        activeOpacity={0.7}
+      >
+        <Feather name="map-pin" size={12} color={colors.primary} />
+        <Text style={styles.pillText} numberOfLines={1}>
+          {activeBranch.name}
+        </Text>
+        <Feather name="chevron-down" size={14} color={colors.primary} />
+      </TouchableOpacity>
+
+      <Modal
+        visible={open}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setOpen(false)}
+      >
+        <TouchableOpacity
+          style={styles.overlay}
+          activeOpacity={1}
+          onPress={() => setOpen(false)}
+        >
+          <View
+            style={[styles.sheet, { paddingBottom: insets.bottom + 24 }]}
+            onStartShouldSetResponder={() => true}
+          >
+            <Text style={styles.title}>Switch branch</Text>
+            <Text style={styles.subtitle}>
+              Stock and sales on this phone follow the branch you pick.
+            </Text>
+
+            <ScrollView style={styles.list}>
+              {branches.map((branch) => {
+                const active = branch.id === activeBranch.id;
+                return (
+                  <TouchableOpacity
+                    key={branch.id}
+                    style={[styles.row, active && styles.rowActive]}
+                    onPress={() => {
+                      setOpen(false);
+                      if (!active) switchBranch(branch);
+                    }}
+                  >
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.rowTitle}>{branch.name}</Text>
+                      {!!branch.address && (
+                        <Text style={styles.rowMeta} numberOfLines={1}>
+                          {branch.address}
+                        </Text>
+                      )}
+                    </View>
+                    {active && (
+                      <Feather name="check" size={20} color={colors.primary} />
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            {canManageBranches && (
+              <TouchableOpacity
+                style={styles.manageButton}
+                onPress={() => {
+                  setOpen(false);
+                  router.push("/(Routes)/BranchesScreen" as any);
+                }}
+              >
+                <Feather name="settings" size={16} color={colors.primary} />
+                <Text style={styles.manageText}>Manage branches</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    pill: {
+      flexDirection: "row",
+      alignItems: "center",
+      alignSelf: "flex-start",
+      gap: 4,
+      backgroundColor: colors.primarySoft,
+      borderRadius: 12,
+      paddingVertical: 3,
+      paddingHorizontal: 8,
+      marginTop: 6,
+      maxWidth: 200,
+    },
+    pillText: {
+      fontSize: 12,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.primary,
+      flexShrink: 1,
+    },
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "75%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: 4,
+      marginBottom: 12,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      borderRadius: 10,
+      paddingVertical: 12,
+      paddingHorizontal: 12,
+      marginBottom: 4,
+    },
+    rowActive: {
+      backgroundColor: colors.primarySoft,
+    },
+    rowTitle: {
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    rowMeta: {
+      fontSize: 12,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    manageButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      paddingVertical: 14,
+      marginTop: 8,
+    },
+    manageText: {
+      fontSize: 15,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.primary,
+    },
+  });
+
+export default BranchSwitcher;
@@ -0,0 +1,259 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCreateCashPayout } from "@/hooks/useShifts";
+import { formatCurrency } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const PAYOUT_REASONS = ["Delivery", "Supplier", "Transport", "Bank deposit"];
+
+interface CashPayoutModalProps {
+  visible: boolean;
+  shiftId: number;
+  // Cash the drawer should hold right now, so a payout can't overdraw it
+  expectedCash: number;
+  onClose: () => void;
+}
+
+const CashPayoutModal: React.FC<CashPayoutModalProps> = ({
+  visible,
+  shiftId,
+  expectedCash,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const createPayout = useCreateCashPayout();
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmount("");
+    setReason("");
+  }, [visible]);
+
+  const value = parseFloat(amount.replace(/,/g, "")) || 0;
+
+  const handleSave = async () => {
+    if (value <= 0) {
+      Alert.alert("Error", "Please enter an amount");
+      return;
+    }
+    if (value > expectedCash) {
+      Alert.alert(
+        "Error",
+        `The drawer should only hold ${formatCurrency(expectedCash)}`,
+      );
+      return;
+    }
+    if (!reason.trim()) {
+      Alert.alert("Error", "Please say what the cash was for");
+      return;
+    }
+
+    try {
+      await createPayout.mutateAsync({
+        shiftId,
+        payload: { amount: String(value), reason: reason.trim() },
+      });
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to record the payout. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Cash payout</Text>
+              <Text style={styles.subtitle}>
+                {formatCurrency(expectedCash)} in the drawer
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Amount</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor={colors.textMuted}
+              value={amount}
+              onChangeText={(text) => setAmount(text.replace(/[^0-9.]/g, ""))}
+              keyboardType="decimal-pad"
+            />
+
+            <Text style={styles.label}>What for</Text>
+            <View style={styles.chips}>
+              {PAYOUT_REASONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, reason === option && styles.chipActive]}
+                  onPress={() => setReason(option)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      reason === option && styles.chipTextActive,
+                    ]}
+                  >
+                    {option}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.input, styles.reasonInput]}
+              placeholder="Or type a reason"
+              placeholderTextColor={colors.textMuted}
+              value={reason}
+              onChangeText={setReason}
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              createPayout.isPending && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={createPayout.isPending}
+          >
+            {createPayout.isPending ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <Text style={styles.saveButtonText}>Take out cash</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    reasonInput: {
+      marginTop: 10,
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 20,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default CashPayoutModal;
@@ -0,0 +1,366 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCloseShift } from "@/hooks/useShifts";
+import type { ApiShift, DenominationCount } from "@/src/api/shifts";
+import useSalesOutboxStore from "@/stores/salesOutboxStore";
+import { formatCurrency } from "@/utils/formatters";
+import {
+    formatDenomination,
+    getDenominations,
+    getOverShortLabel,
+    getShiftTotals,
+    sumDenominations,
+} from "@/utils/shifts";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface CloseShiftModalProps {
+  visible: boolean;
+  shift: ApiShift;
+  onClose: () => void;
+  onClosed?: (shift: ApiShift) => void;
+}
+
+const CloseShiftModal: React.FC<CloseShiftModalProps> = ({
+  visible,
+  shift,
+  onClose,
+  onClosed,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const closeShift = useCloseShift();
+  const unsynced = useSalesOutboxStore(
+    (state) => state.queue.filter((sale) => sale.status === "pending").length,
+  );
+  const [counts, setCounts] = useState<Record<number, string>>({});
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+    setCounts({});
+    setNotes("");
+  }, [visible]);
+
+  const denominations: DenominationCount[] = useMemo(
+    () =>
+      getDenominations().map((value) => ({
+        value,
+        count: parseInt(counts[value] ?? "", 10) || 0,
+      })),
+    [counts],
+  );
+  const counted = sumDenominations(denominations);
+  const { expected, overShort } = getShiftTotals(shift, counted);
+  const difference = overShort ?? 0;
+
+  const submit = async () => {
+    try {
+      const closed = await closeShift.mutateAsync({
+        id: shift.id,
+        payload: {
+          counted_cash: String(counted),
+          denominations: denominations.filter((d) => d.count > 0),
+          notes: notes.trim() || undefined,
+        },
+      });
+      onClose();
+      onClosed?.({ ...closed, payouts: closed.payouts ?? shift.payouts });
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to close the shift. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  const handleSave = () => {
+    if (difference === 0) {
+      submit();
+      return;
+    }
+    Alert.alert(
+      `Drawer is ${getOverShortLabel(difference).toLowerCase()}`,
+      `The count is ${formatCurrency(Math.abs(difference))} ${
+        difference > 0 ? "more" : "less"
+      } than expected. Close the shift anyway?`,
+      [
+        { text: "Recount", style: "cancel" },
+        { text: "Close shift", style: "destructive", onPress: submit },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Close shift</Text>
+              <Text style={styles.subtitle}>
+                Count the notes and coins in the drawer
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {denominations.map((denomination) => (
+              <View key={denomination.value} style={styles.countRow}>
+                <Text style={styles.countLabel}>
+                  {formatDenomination(denomination.value)}
+                </Text>
+                <Text style={styles.countTimes}>×</Text>
+                <TextInput
+                  style={styles.countInput}
+                  placeholder="0"
+                  placeholderTextColor={colors.textMuted}
+                  value={counts[denomination.value] ?? ""}
+                  onChangeText={(text) =>
+                    setCounts((prev) => ({
+                      ...prev,
+                      [denomination.value]: text.replace(/[^0-9]/g, ""),
+                    }))
+                  }
+                  keyboardType="number-pad"
+                />
+                <Text style={styles.countSubtotal} numberOfLines={1}>
+                  {formatCurrency(denomination.value * denomination.count)}
+                </Text>
+              </View>
+            ))}
+
+            <View style={styles.totals}>
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Expected</Text>
+                <Text style={styles.totalValue}>
+                  {formatCurrency(expected)}
+                </Text>
+              </View>
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>Counted</Text>
+                <Text style={styles.totalValue}>{formatCurrency(counted)}</Text>
+              </View>
+              <View style={styles.totalRow}>
+                <Text style={styles.totalLabel}>
+                  {getOverShortLabel(difference)}
+                </Text>
+                <Text
+                  style={[
+                    styles.totalValue,
+                    difference < 0 && styles.short,
+                    difference > 0 && styles.over,
+                  ]}
+                >
+                  {formatCurrency(Math.abs(difference))}
+                </Text>
+              </View>
+            </View>
+
+            {unsynced > 0 && (
+              <Text style={styles.warning}>
+                {unsynced === 1
+                  ? "1 sale hasn't"
+                  : `${unsynced} sales haven't`}{" "}
+                synced yet, so expected cash may be low until they do.
+              </Text>
+            )}
+
+            <Text style={styles.label}>Note (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="e.g. Counted with the manager"
+              placeholderTextColor={colors.textMuted}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              closeShift.isPending && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={closeShift.isPending}
+          >
+            {closeShift.isPending ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <Text style={styles.saveButtonText}>Close shift</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    countRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      paddingVertical: 6,
+    },
+    countLabel: {
+      width: 90,
+      fontSize: 15,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    countTimes: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+    },
+    countInput: {
+      width: 70,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      paddingVertical: 8,
+      paddingHorizontal: 10,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      textAlign: "center",
+    },
+    countSubtotal: {
+      flex: 1,
+      textAlign: "right",
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    totals: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 10,
+      padding: 14,
+      marginTop: 12,
+      gap: 8,
+    },
+    totalRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+    },
+    totalLabel: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    totalValue: {
+      fontSize: 15,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    short: {
+      color: colors.danger,
+    },
+    over: {
+      color: colors.success,
+    },
+    warning: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.warning,
+      marginTop: 10,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    notesInput: {
+      minHeight: 72,
+      textAlignVertical: "top",
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default CloseShiftModal;
@@ -0,0 +1,472 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Image,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+import DateTimePickerModal from "react-native-modal-datetime-picker";
+
+import ImageCropper from "@/app/(Routes)/components/ImageCropper";
+import {
+    useImagePicker,
+    type PickedImage,
+} from "@/app/(Routes)/components/useImagePicker";
+import { useSaveExpense } from "@/hooks/useExpenses";
+import {
+    EXPENSE_CATEGORIES,
+    type ApiExpense,
+    type ExpenseFrequency,
+} from "@/src/api/expenses";
+import {
+    EXPENSE_FREQUENCIES,
+    parseApiDate,
+    toApiDate,
+} from "@/utils/expenses";
+import { formatDateLabel, getCurrency } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface ExpenseFormModalProps {
+  visible: boolean;
+  // Existing expense to edit, or a template to prefill a new entry from
+  expense?: ApiExpense | null;
+  mode?: "create" | "edit";
+  initialDate?: Date;
+  onClose: () => void;
+}
+
+const ExpenseFormModal: React.FC<ExpenseFormModalProps> = ({
+  visible,
+  expense,
+  mode = "create",
+  initialDate,
+  onClose,
+}) => {
+  const { colors, isDark } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const saveExpense = useSaveExpense();
+  const [amount, setAmount] = useState("");
+  const [category, setCategory] = useState<string>(EXPENSE_CATEGORIES[0]);
+  const [description, setDescription] = useState("");
+  const [date, setDate] = useState(new Date());
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [frequency, setFrequency] = useState<ExpenseFrequency>("monthly");
+  const [receipt, setReceipt] = useState<PickedImage | null>(null);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const { pickImage, pendingImage, handleCropComplete, handleCropCancel } =
+    useImagePicker(setReceipt);
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmount(expense ? String(Number(expense.amount || 0)) : "");
+    setCategory(expense?.category || EXPENSE_CATEGORIES[0]);
+    setDescription(expense?.description || "");
+    setDate(
+      initialDate ??
+        (expense && mode === "edit" ? parseApiDate(expense.date) : new Date()),
+    );
+    setIsRecurring(!!expense?.is_recurring);
+    setFrequency(expense?.frequency || "monthly");
+    setReceipt(
+      expense?.receipt && mode === "edit" ? { uri: expense.receipt } : null,
+    );
+  }, [visible, expense, mode, initialDate]);
+
+  const handleAttachReceipt = () => {
+    Alert.alert("Receipt photo", undefined, [
+      { text: "Take photo", onPress: () => pickImage(true) },
+      { text: "Choose from library", onPress: () => pickImage(false) },
+      ...(receipt
+        ? [
+            {
+              text: "Remove",
+              style: "destructive" as const,
+              onPress: () => setReceipt(null),
+            },
+          ]
+        : []),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const value = parseFloat(amount);
+    if (!amount.trim() || isNaN(value) || value <= 0) {
+      Alert.alert("Error", "Please enter a valid amount");
+      return;
+    }
+
+    try {
+      await saveExpense.mutateAsync({
+        id: mode === "edit" ? expense?.id : undefined,
+        payload: {
+          category,
+          description: description.trim(),
+          amount: value,
+          date: toApiDate(date),
+          is_recurring: isRecurring,
+          frequency: isRecurring ? frequency : null,
+        },
+        receipt,
+      });
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to save expense. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <>
+      <Modal
+        visible={visible}
+        transparent
+        animationType="slide"
+        onRequestClose={onClose}
+      >
+        <KeyboardAvoidingView
+          style={styles.overlay}
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+        >
+          <View style={styles.sheet}>
+            <View style={styles.header}>
+              <Text style={styles.title}>
+                {mode === "edit" ? "Edit expense" : "New expense"}
+              </Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Feather name="x" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              showsVerticalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled"
+            >
+              <Text style={styles.label}>Amount</Text>
+              <View style={styles.amountInputContainer}>
+                <Text style={styles.currencySymbol}>
+                  {getCurrency().symbol.trim()}
+                </Text>
+                <TextInput
+                  style={styles.amountInput}
+                  placeholder="0.00"
+                  placeholderTextColor={colors.textMuted}
+                  value={amount}
+                  onChangeText={setAmount}
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <Text style={styles.label}>Category</Text>
+              <View style={styles.chips}>
+                {EXPENSE_CATEGORIES.map((value) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.chip,
+                      category === value && styles.chipActive,
+                    ]}
+                    onPress={() => setCategory(value)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        category === value && styles.chipTextActive,
+                      ]}
+                    >
+                      {value}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Description (optional)</Text>
+              <TextInput
+                style={styles.input}
+                placeholder="e.g. Shop rent, generator fuel"
+                placeholderTextColor={colors.textMuted}
+                value={description}
+                onChangeText={setDescription}
+              />
+
+              <Text style={styles.label}>Date</Text>
+              <TouchableOpacity
+                style={styles.dateButton}
+                onPress={() => setShowDatePicker(true)}
+              >
+                <Feather name="calendar" size={16} color={colors.primary} />
+                <Text style={styles.dateText}>{formatDateLabel(date)}</Text>
+              </TouchableOpacity>
+
+              <View style={styles.switchRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.switchTitle}>Recurring expense</Text>
+                  <Text style={styles.switchHint}>
+                    Get reminded when rent or salaries are due again
+                  </Text>
+                </View>
+                <Switch
+                  value={isRecurring}
+                  onValueChange={setIsRecurring}
+                  trackColor={{ true: "#1155CC", false: "#D0D0D0" }}
+                />
+              </View>
+              {isRecurring && (
+                <View style={[styles.chips, { marginTop: 10 }]}>
+                  {EXPENSE_FREQUENCIES.map((option) => (
+                    <TouchableOpacity
+                      key={option.key}
+                      style={[
+                        styles.chip,
+                        frequency === option.key && styles.chipActive,
+                      ]}
+                      onPress={() => setFrequency(option.key)}
+                    >
+                      <Text
+                        style={[
+                          styles.chipText,
+                          frequency === option.key && styles.chipTextActive,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
+              <Text style={styles.label}>Receipt (optional)</Text>
+              <TouchableOpacity
+                style={styles.receiptButton}
+                onPress={handleAttachReceipt}
+              >
+                {receipt ? (
+                  <Image
+                    source={{ uri: receipt.uri }}
+                    style={styles.receiptImage}
+                  />
+                ) : (
+                  <>
+                    <Feather name="camera" size={20} color={colors.primary} />
+                    <Text style={styles.receiptText}>Attach a photo</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+
+            <TouchableOpacity
+              style={[
+                styles.saveButton,
+                saveExpense.isPending && styles.saveButtonDisabled,
+              ]}
+              onPress={handleSave}
+              disabled={saveExpense.isPending}
+            >
+              {saveExpense.isPending ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save expense</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      <DateTimePickerModal
+        isVisible={showDatePicker}
+        mode="date"
+        date={date}
+        onConfirm={(picked) => {
+          setDate(picked);
+          setShowDatePicker(false);
+        }}
+        onCancel={() => setShowDatePicker(false)}
+        maximumDate={new Date()}
+        themeVariant={isDark ? "dark" : "light"}
+        accentColor={colors.primary}
+      />
+
+      <ImageCropper
+        visible={!!pendingImage}
+        image={pendingImage}
+        onDone={handleCropComplete}
+        onCancel={handleCropCancel}
+      />
+    </>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "92%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 4,
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    amountInputContainer: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      flexDirection: "row",
+      alignItems: "center",
+    },
+    currencySymbol: {
+      fontSize: 16,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+      marginRight: 8,
+    },
+    amountInput: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+      padding: 0,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 20,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.background,
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: colors.primary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    dateButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+    },
+    dateText: {
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    switchRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      marginTop: 18,
+    },
+    switchTitle: {
+      fontSize: 15,
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    switchHint: {
+      fontSize: 12,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    receiptButton: {
+      height: 110,
+      borderWidth: 1,
+      borderStyle: "dashed",
+      borderColor: colors.primary,
+      borderRadius: 12,
+      justifyContent: "center",
+      alignItems: "center",
+      gap: 6,
+      overflow: "hidden",
+    },
+    receiptImage: {
+      width: "100%",
+      height: "100%",
+      resizeMode: "cover",
+    },
+    receiptText: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.primary,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default ExpenseFormModal;
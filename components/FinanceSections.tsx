@@ -4,6 +4,7 @@ import React from "react";
 import {
   ActivityIndicator,
   Image,
+  ScrollView,
   Text,
   TouchableOpacity,
   View,
@@ -19,166 +20,363 @@ import {
   StockRecommendation,
   TopProduct,
 } from "../app/types/finance.types";
-import { styles } from "../src/styles/FinanceSections.styles";
+import type { ApiBranch, BranchScope } from "../src/api/branches";
+import { createStyles } from "../src/styles/FinanceSections.styles";
+import type { BranchTotals } from "../utils/branches";
+import { getCostingMethodLabel } from "../utils/costing";
+import {
+  DATE_RANGE_PRESETS,
+  type DateRange,
+  type DateRangePreset,
+} from "../utils/dateRanges";
 import { formatCurrency, formatDateLabel } from "../utils/formatters";
 import { H_PAD, moderateScale, scale, screenWidth } from "../utils/scaling";
 // import { getFontSize } from "./scaling";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+// ─── Custom Range ─────────────────────────────────────────────────────────────
+
+interface DateRangePanelProps {
+  range: DateRange;
+  preset: DateRangePreset | null;
+  onSelectPreset: (preset: DateRangePreset) => void;
+  onEditDate: (field: keyof DateRange) => void;
+}
+
+export const DateRangePanel: React.FC<DateRangePanelProps> = ({
+  range,
+  preset,
+  onSelectPreset,
+  onEditDate,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.rangePanel}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.rangePresets}
+      >
+        {DATE_RANGE_PRESETS.map((option) => (
+          <TouchableOpacity
+            key={option.key}
+            style={[
+              styles.rangePreset,
+              preset === option.key && styles.rangePresetActive,
+            ]}
+            onPress={() => onSelectPreset(option.key)}
+          >
+            <Text
+              style={[
+                styles.rangePresetText,
+                preset === option.key && styles.rangePresetTextActive,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+      <View style={styles.rangeDates}>
+        {(["from", "to"] as (keyof DateRange)[]).map((field) => (
+          <TouchableOpacity
+            key={field}
+            style={styles.rangeDate}
+            onPress={() => onEditDate(field)}
+          >
+            <Ionicons
+              name="calendar-outline"
+              size={moderateScale(15)}
+              color={colors.primary}
+            />
+            <Text style={styles.rangeDateText}>
+              {field === "from" ? "From " : "To "}
+              {formatDateLabel(range[field])}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+// ─── Branch Scope ─────────────────────────────────────────────────────────────
+
+interface BranchScopeSelectorProps {
+  branches: ApiBranch[];
+  scope: BranchScope;
+  onSelect: (scope: BranchScope) => void;
+}
+
+export const BranchScopeSelector: React.FC<BranchScopeSelectorProps> = ({
+  branches,
+  scope,
+  onSelect,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  if (branches.length < 2) return null;
+
+  const options: { key: BranchScope; label: string }[] = [
+    { key: "all", label: "All branches" },
+    ...branches.map((branch) => ({ key: branch.id, label: branch.name })),
+  ];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.branchScope}
+      contentContainerStyle={styles.rangePresets}
+    >
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.key}
+          style={[
+            styles.rangePreset,
+            scope === option.key && styles.rangePresetActive,
+          ]}
+          onPress={() => onSelect(option.key)}
+        >
+          <Text
+            style={[
+              styles.rangePresetText,
+              scope === option.key && styles.rangePresetTextActive,
+            ]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+};
 
 // ─── Summary Cards ────────────────────────────────────────────────────────────
 
 interface SummaryCardsProps {
   financialSummary: FinancialSummary;
+  onOpenExpenses?: () => void;
 }
 
 export const SummaryCards: React.FC<SummaryCardsProps> = ({
   financialSummary,
-}) => (
-  <View style={styles.summaryContainer}>
-    <View style={styles.summaryRow}>
-      <View style={[styles.summaryCard, styles.profitCard]}>
-        <Text style={styles.summaryLabel}>Total Sales</Text>
-        <Text
-          style={styles.summaryValue}
-          numberOfLines={1}
-          adjustsFontSizeToFit
-        >
-          {formatCurrency(financialSummary.totalSales)}
-        </Text>
-        <View
-          style={[
-            styles.changeIndicator,
-            {
-              backgroundColor: "#DCFCE7",
-              paddingVertical: moderateScale(2),
-              borderRadius: moderateScale(10),
-              width: moderateScale(60),
-            },
-          ]}
-        >
-          <Ionicons
-            name={
-              financialSummary.totalSalesChange >= 0
-                ? "trending-up"
-                : "trending-down"
-            }
-            size={moderateScale(11)}
-            color={
-              financialSummary.totalSalesChange >= 0 ? "#10B981" : "#EF4444"
-            }
-          />
+  onOpenExpenses,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const changeColor = (change: number) =>
+    change >= 0 ? colors.success : colors.danger;
+
+  return (
+    <View style={styles.summaryContainer}>
+      <View style={styles.summaryRow}>
+        <View style={[styles.summaryCard, styles.profitCard]}>
+          <Text style={styles.summaryLabel}>Total Sales</Text>
           <Text
+            style={styles.summaryValue}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+          >
+            {formatCurrency(financialSummary.totalSales)}
+          </Text>
+          <View
             style={[
-              styles.changeText,
+              styles.changeIndicator,
               {
-                color:
-                  financialSummary.totalSalesChange >= 0
-                    ? "#10B981"
-                    : "#EF4444",
+                backgroundColor: colors.successSoft,
+                paddingVertical: moderateScale(2),
+                borderRadius: moderateScale(10),
+                width: moderateScale(60),
               },
             ]}
           >
-            {financialSummary.totalSalesChange >= 0 ? "+" : ""}
-            {financialSummary.totalSalesChange}%
-          </Text>
+            <Ionicons
+              name={
+                financialSummary.totalSalesChange >= 0
+                  ? "trending-up"
+                  : "trending-down"
+              }
+              size={moderateScale(11)}
+              color={changeColor(financialSummary.totalSalesChange)}
+            />
+            <Text
+              style={[
+                styles.changeText,
+                { color: changeColor(financialSummary.totalSalesChange) },
+              ]}
+            >
+              {financialSummary.totalSalesChange >= 0 ? "+" : ""}
+              {financialSummary.totalSalesChange}%
+            </Text>
+          </View>
         </View>
-      </View>
 
-      <View style={[styles.summaryCard, styles.revenueCard]}>
-        <Text style={styles.summaryLabel}>Total Cost</Text>
-        <Text
-          style={styles.summaryValue}
-          numberOfLines={1}
-          adjustsFontSizeToFit
-        >
-          {formatCurrency(financialSummary.totalCost)}
-        </Text>
-        <View
-          style={[
-            styles.changeIndicator,
-            {
-              backgroundColor: "#FFEDD4",
-              paddingVertical: moderateScale(2),
-              borderRadius: moderateScale(10),
-              width: moderateScale(50),
-            },
-          ]}
-        >
-          <Ionicons
-            name={
-              financialSummary.totalCostChange >= 0
-                ? "trending-up"
-                : "trending-down"
-            }
-            size={moderateScale(11)}
-            color={
-              financialSummary.totalCostChange >= 0 ? "#10B981" : "#EF4444"
-            }
-          />
+        <View style={[styles.summaryCard, styles.revenueCard]}>
+          <Text style={styles.summaryLabel}>Total Cost</Text>
           <Text
+            style={styles.summaryValue}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+          >
+            {formatCurrency(financialSummary.totalCost)}
+          </Text>
+          <View
             style={[
-              styles.changeText,
+              styles.changeIndicator,
               {
-                color:
-                  financialSummary.totalCostChange >= 0 ? "#10B981" : "#EF4444",
+                backgroundColor: colors.warningSoft,
+                paddingVertical: moderateScale(2),
+                borderRadius: moderateScale(10),
+                width: moderateScale(50),
               },
             ]}
           >
-            {financialSummary.totalCostChange >= 0 ? "+" : ""}
-            {financialSummary.totalCostChange}%
-          </Text>
+            <Ionicons
+              name={
+                financialSummary.totalCostChange >= 0
+                  ? "trending-up"
+                  : "trending-down"
+              }
+              size={moderateScale(11)}
+              color={changeColor(financialSummary.totalCostChange)}
+            />
+            <Text
+              style={[
+                styles.changeText,
+                { color: changeColor(financialSummary.totalCostChange) },
+              ]}
+            >
+              {financialSummary.totalCostChange >= 0 ? "+" : ""}
+              {financialSummary.totalCostChange}%
+            </Text>
+          </View>
         </View>
-      </View>
 
-      <View style={[styles.summaryCard, styles.expenseCard]}>
-        <Text style={styles.summaryLabel}>Total Profit</Text>
-        <Text
-          style={styles.summaryValue}
-          numberOfLines={1}
-          adjustsFontSizeToFit
-        >
-          {formatCurrency(financialSummary.totalProfit)}
-        </Text>
-        <View
-          style={[
-            styles.changeIndicator,
-            {
-              backgroundColor: "#DCFCE7",
-              paddingVertical: moderateScale(2),
-              borderRadius: moderateScale(10),
-              width: moderateScale(50),
-            },
-          ]}
-        >
-          <Ionicons
-            name={
-              financialSummary.totalProfitChange >= 0
-                ? "trending-up"
-                : "trending-down"
-            }
-            size={moderateScale(11)}
-            color={
-              financialSummary.totalProfitChange >= 0 ? "#10B981" : "#EF4444"
-            }
-          />
+        <View style={[styles.summaryCard, styles.expenseCard]}>
+          <Text style={styles.summaryLabel}>Total Profit</Text>
           <Text
+            style={styles.summaryValue}
+            numberOfLines={1}
+            adjustsFontSizeToFit
+          >
+            {formatCurrency(financialSummary.totalProfit)}
+          </Text>
+          <View
             style={[
-              styles.changeText,
+              styles.changeIndicator,
               {
-                color:
-                  financialSummary.totalProfitChange >= 0
-                    ? "#10B981"
-                    : "#EF4444",
+                backgroundColor: colors.successSoft,
+                paddingVertical: moderateScale(2),
+                borderRadius: moderateScale(10),
+                width: moderateScale(50),
               },
             ]}
           >
-            {financialSummary.totalProfitChange >= 0 ? "+" : ""}
-            {financialSummary.totalProfitChange}%
-          </Text>
+            <Ionicons
+              name={
+                financialSummary.totalProfitChange >= 0
+                  ? "trending-up"
+                  : "trending-down"
+              }
+              size={moderateScale(11)}
+              color={changeColor(financialSummary.totalProfitChange)}
+            />
+            <Text
+              style={[
+                styles.changeText,
+                { color: changeColor(financialSummary.totalProfitChange) },
+              ]}
+            >
+              {financialSummary.totalProfitChange >= 0 ? "+" : ""}
+              {financialSummary.totalProfitChange}%
+            </Text>
+          </View>
         </View>
       </View>
+
+      {financialSummary.rangeLabel && (
+        <Text style={styles.costingNote}>
+          {financialSummary.rangeLabel}
+          {financialSummary.comparison
+            ? ` · compared with ${financialSummary.comparison.label}`
+            : ""}
+        </Text>
+      )}
+
+      {financialSummary.costingMethod && (
+        <Text style={styles.costingNote}>
+          Cost of goods by{" "}
+          {getCostingMethodLabel(financialSummary.costingMethod)}
+        </Text>
+      )}
+
+      {!!financialSummary.totalRefunds && financialSummary.totalRefunds > 0 && (
+        <View style={styles.refundsRow}>
+          <Text style={styles.refundsLabel}>
+            Returns{" "}
+            <Text style={styles.refundsValue}>
+              -{formatCurrency(financialSummary.totalRefunds)}
+            </Text>
+          </Text>
+          <Text style={styles.refundsLabel}>
+            Net sales{" "}
+            <Text style={styles.refundsNet}>
+              {formatCurrency(
+                financialSummary.totalSales - financialSummary.totalRefunds,
+              )}
+            </Text>
+          </Text>
+        </View>
+      )}
+
+      {financialSummary.netProfit !== undefined && (
+        <TouchableOpacity
+          style={styles.netProfitCard}
+          onPress={onOpenExpenses}
+          disabled={!onOpenExpenses}
+          activeOpacity={0.8}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={styles.summaryLabel}>Net Profit</Text>
+            <Text
+              style={[
+                styles.netProfitValue,
+                financialSummary.netProfit < 0 && styles.refundsValue,
+              ]}
+              numberOfLines={1}
+              adjustsFontSizeToFit
+            >
+              {formatCurrency(financialSummary.netProfit)}
+            </Text>
+          </View>
+          <View style={styles.netProfitExpenses}>
+            <Text style={styles.refundsLabel}>Expenses</Text>
+            <Text style={[styles.refundsLabel, styles.refundsValue]}>
+              -{formatCurrency(financialSummary.totalExpenses ?? 0)}
+            </Text>
+            {!!financialSummary.stockLoss && (
+              <>
+                <Text style={styles.refundsLabel}>Stock losses</Text>
+                <Text style={[styles.refundsLabel, styles.refundsValue]}>
+                  -{formatCurrency(financialSummary.stockLoss)}
+                </Text>
+              </>
+            )}
+          </View>
+          {onOpenExpenses && (
+            <Ionicons
+              name="chevron-forward"
+              size={18}
+              color={colors.textMuted}
+            />
+          )}
+        </TouchableOpacity>
+      )}
     </View>
-  </View>
-);
+  );
+};
 
 // ─── Daily Summary ────────────────────────────────────────────────────────────
 
@@ -192,68 +390,127 @@ export const DailySummaryCard: React.FC<DailySummaryCardProps> = ({
   dailySummary,
   selectedDate,
   onOpenDatePicker,
-}) => (
-  <View style={styles.section}>
-    <View style={styles.dailySummaryHeader}>
-      <Text style={styles.sectionTitle}>Daily Summary</Text>
-      <TouchableOpacity
-        style={styles.dateSelector}
-        onPress={onOpenDatePicker}
-        activeOpacity={0.7}
-        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-      >
-        <Ionicons
-          name="calendar-outline"
-          size={moderateScale(13)}
-          color="#1155CC"
-        />
-        <Text style={styles.dateText}>{formatDateLabel(selectedDate)}</Text>
-        <Ionicons
-          name="chevron-down"
-          size={moderateScale(13)}
-          color="#1155CC"
-        />
-      </TouchableOpacity>
-    </View>
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
 
-    <View style={styles.dailySummaryCard}>
-      <View style={styles.dailySummaryRow}>
-        <View style={styles.dailySummaryItem}>
-          <Text style={styles.dailySummaryLabel}>Sales Amount</Text>
-          <Text
-            style={{ ...styles.dailySummaryValue, color: "#1155CC" }}
-            numberOfLines={1}
-            adjustsFontSizeToFit
-          >
-            {formatCurrency(dailySummary.salesAmount)}
-          </Text>
-        </View>
-        <View style={styles.dailySummaryItem2}>
-          <Text style={styles.dailySummaryLabel}>Profit</Text>
-          <Text
-            style={styles.dailySummaryValue}
-            numberOfLines={1}
-            adjustsFontSizeToFit
-          >
-            {formatCurrency(dailySummary.profit)}
-          </Text>
-        </View>
+  return (
+    <View style={styles.section}>
+      <View style={styles.dailySummaryHeader}>
+        <Text style={styles.sectionTitle}>Daily Summary</Text>
+        <TouchableOpacity
+          style={styles.dateSelector}
+          onPress={onOpenDatePicker}
+          activeOpacity={0.7}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons
+            name="calendar-outline"
+            size={moderateScale(13)}
+            color={colors.primary}
+          />
+          <Text style={styles.dateText}>{formatDateLabel(selectedDate)}</Text>
+          <Ionicons
+            name="chevron-down"
+            size={moderateScale(13)}
+            color={colors.primary}
+          />
+        </TouchableOpacity>
       </View>
-      <View style={styles.dailySummaryRow}>
-        <View style={styles.dailySummaryItem3}>
-          <Text style={styles.dailySummaryLabel}>Transactions</Text>
-          <Text style={styles.dailySummaryValue}>
-            {dailySummary.transactions}
-          </Text>
+
+      <View style={styles.dailySummaryCard}>
+        <View style={styles.dailySummaryRow}>
+          <View style={styles.dailySummaryItem}>
+            <Text style={styles.dailySummaryLabel}>Sales Amount</Text>
+            <Text
+              style={{ ...styles.dailySummaryValue, color: colors.primary }}
+              numberOfLines={1}
+              adjustsFontSizeToFit
+            >
+              {formatCurrency(dailySummary.salesAmount)}
+            </Text>
+          </View>
+          <View style={styles.dailySummaryItem2}>
+            <Text style={styles.dailySummaryLabel}>Profit</Text>
+            <Text
+              style={styles.dailySummaryValue}
+              numberOfLines={1}
+              adjustsFontSizeToFit
+            >
+              {formatCurrency(dailySummary.profit)}
+            </Text>
+          </View>
         </View>
-        <View style={styles.dailySummaryItem3}>
-          <Text style={styles.dailySummaryLabel}>Items Sold</Text>
-          <Text style={styles.dailySummaryValue}>{dailySummary.itemsSold}</Text>
+        <View style={styles.dailySummaryRow}>
+          <View style={styles.dailySummaryItem3}>
+            <Text style={styles.dailySummaryLabel}>Transactions</Text>
+            <Text style={styles.dailySummaryValue}>
+              {dailySummary.transactions}
+            </Text>
+          </View>
+          <View style={styles.dailySummaryItem3}>
+            <Text style={styles.dailySummaryLabel}>Items Sold</Text>
+            <Text style={styles.dailySummaryValue}>
+              {dailySummary.itemsSold}
+            </Text>
+          </View>
         </View>
       </View>
     </View>
-  </View>
-);
+  );
+};
+
+// ─── By Branch ────────────────────────────────────────────────────────────────
+
+interface BranchBreakdownProps {
+  branchTotals: BranchTotals[];
+}
+
+export const BranchBreakdownSection: React.FC<BranchBreakdownProps> = ({
+  branchTotals,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  if (branchTotals.length === 0) return null;
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>By Branch</Text>
+      <View style={styles.listContainer}>
+        {branchTotals.map((totals) => (
+          <View key={totals.branch.id} style={styles.productCard}>
+            <View style={styles.productIcon}>
+              <Ionicons
+                name="storefront-outline"
+                size={moderateScale(20)}
+                color={colors.primary}
+              />
+            </View>
+            <View style={styles.productInfo}>
+              <Text style={styles.productName} numberOfLines={1}>
+                {totals.branch.name}
+              </Text>
+              <Text style={styles.productQuantity}>
+                {formatCurrency(totals.revenue)} sales ·{" "}
+                {totals.transactions}{" "}
+                {totals.transactions === 1 ? "sale" : "sales"}
+              </Text>
+            </View>
+            <View style={styles.productRevenue}>
+              <Text
+                style={styles.productRevenueText}
+                numberOfLines={1}
+                adjustsFontSizeToFit
+              >
+                {formatCurrency(totals.profit)}
+              </Text>
+              <Text style={styles.productRevenueLabel}>Profit</Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
 
 // ─── Top Products ─────────────────────────────────────────────────────────────
 
@@ -264,6 +521,8 @@ interface TopProductsProps {
 export const TopProductsSection: React.FC<TopProductsProps> = ({
   topProducts,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   if (topProducts.length === 0) return null;
   return (
     <View style={styles.section}>
@@ -282,7 +541,7 @@ export const TopProductsSection: React.FC<TopProductsProps> = ({
                 <Ionicons
                   name="cube-outline"
                   size={moderateScale(20)}
-                  color="#6B7280"
+                  color={colors.textSecondary}
                 />
               )}
             </View>
@@ -320,6 +579,8 @@ interface SlowMovingStockProps {
 export const SlowMovingStockSection: React.FC<SlowMovingStockProps> = ({
   slowMovingStock,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   if (slowMovingStock.length === 0) return null;
   return (
     <View style={styles.section}>
@@ -340,7 +601,7 @@ export const SlowMovingStockSection: React.FC<SlowMovingStockProps> = ({
                     <Ionicons
                       name="time-outline"
                       size={moderateScale(18)}
-                      color="#FF6900"
+                      color={colors.warning}
                     />
                   </View>
                 )}
@@ -375,6 +636,8 @@ interface StockRecommendationsProps {
 export const StockRecommendationsSection: React.FC<
   StockRecommendationsProps
 > = ({ stockRecommendations }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   if (stockRecommendations.length === 0) return null;
   return (
     <View style={styles.section}>
@@ -384,16 +647,16 @@ export const StockRecommendationsSection: React.FC<
           <View key={index} style={styles.recommendationCard}>
             <View style={styles.recommendationIcon}>
               {rec.icon === "restock" && (
-                <Octicons name="package" size={20} color="#FFB800" />
+                <Octicons name="package" size={20} color={colors.warning} />
               )}
               {rec.icon === "insight" && (
-                <Octicons name="graph" size={20} color="#FFB800" />
+                <Octicons name="graph" size={20} color={colors.warning} />
               )}
               {rec.icon === "trend" && (
-                <Octicons name="flame" size={20} color="#FFB800" />
+                <Octicons name="flame" size={20} color={colors.warning} />
               )}
               {!rec.icon && (
-                <Octicons name="light-bulb" size={20} color="#FFB800" />
+                <Octicons name="light-bulb" size={20} color={colors.warning} />
               )}
             </View>
             <View style={styles.recommendationContent}>
@@ -417,44 +680,51 @@ interface SalesTrendChartProps {
 
 export const SalesTrendChart: React.FC<SalesTrendChartProps> = ({
   chartData,
-}) => (
-  <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Sales & Profit Trends</Text>
-    <View style={styles.chartCard}>
-      <View style={styles.chartLegend}>
-        <View style={styles.legendItem}>
-          <View style={[styles.legendDot, { backgroundColor: "#1155CC" }]} />
-          <Text style={styles.legendText}>Sales</Text>
-        </View>
-        <View style={styles.legendItem}>
-          <View style={[styles.legendDot, { backgroundColor: "#FBBF24" }]} />
-          <Text style={styles.legendText}>Profit</Text>
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Sales & Profit Trends</Text>
+      <View style={styles.chartCard}>
+        <View style={styles.chartLegend}>
+          <View style={styles.legendItem}>
+            <View
+              style={[styles.legendDot, { backgroundColor: colors.primary }]}
+            />
+            <Text style={styles.legendText}>Sales</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: "#FBBF24" }]} />
+            <Text style={styles.legendText}>Profit</Text>
+          </View>
         </View>
+        <LineChart
+          data={chartData}
+          width={screenWidth - H_PAD * 2 - scale(32)}
+          height={220}
+          chartConfig={{
+            backgroundColor: colors.surface,
+            backgroundGradientFrom: colors.surface,
+            backgroundGradientTo: colors.surface,
+            decimalPlaces: 0,
+            color: (opacity = 1) => `rgba(32, 70, 174, ${opacity})`,
+            labelColor: () => colors.textSecondary,
+            style: { borderRadius: moderateScale(16) },
+            propsForDots: { r: "5", strokeWidth: "2", stroke: colors.surface },
+          }}
+          bezier
+          style={styles.chart}
+          withInnerLines
+          withOuterLines
+          withVerticalLines={false}
+          withHorizontalLines
+        />
       </View>
-      <LineChart
-        data={chartData}
-        width={screenWidth - H_PAD * 2 - scale(32)}
-        height={220}
-        chartConfig={{
-          backgroundColor: "#ffffff",
-          backgroundGradientFrom: "#ffffff",
-          backgroundGradientTo: "#ffffff",
-          decimalPlaces: 0,
-          color: (opacity = 1) => `rgba(32, 70, 174, ${opacity})`,
-          labelColor: (opacity = 1) => `rgba(107, 114, 128, ${opacity})`,
-          style: { borderRadius: moderateScale(16) },
-          propsForDots: { r: "5", strokeWidth: "2", stroke: "#fff" },
-        }}
-        bezier
-        style={styles.chart}
-        withInnerLines
-        withOuterLines
-        withVerticalLines={false}
-        withHorizontalLines
-      />
     </View>
-  </View>
-);
+  );
+};
 
 // ─── Seasonal Insights ────────────────────────────────────────────────────────
 
@@ -465,6 +735,7 @@ interface SeasonalInsightsProps {
 export const SeasonalInsightsSection: React.FC<SeasonalInsightsProps> = ({
   seasonalInsights,
 }) => {
+  const styles = useThemedStyles(createStyles);
   if (seasonalInsights.length === 0) return null;
   return (
     <View style={styles.section}>
@@ -495,63 +766,84 @@ interface MonthlyReportCardProps {
   monthlyReport: MonthlyReport;
   pdfLoading: boolean;
   onDownload: () => void;
+  onExportData?: () => void;
 }
 
 export const MonthlyReportCard: React.FC<MonthlyReportCardProps> = ({
   monthlyReport,
   pdfLoading,
   onDownload,
-}) => (
-  <View style={styles.section}>
-    <Text style={styles.sectionTitle}>Monthly Report</Text>
-    <View style={styles.monthlyReportCard}>
-      <View style={styles.monthlyReportHeader}>
-        <Text style={styles.monthlyReportMonth} numberOfLines={1}>
-          {monthlyReport.month}
+  onExportData,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Monthly Report</Text>
+      <View style={styles.monthlyReportCard}>
+        <View style={styles.monthlyReportHeader}>
+          <Text style={styles.monthlyReportMonth} numberOfLines={1}>
+            {monthlyReport.month}
+          </Text>
+          <View style={styles.readyBadge}>
+            <Text style={styles.readyBadgeText}>Ready</Text>
+          </View>
+        </View>
+        <Text style={styles.monthlyReportSubtitle}>
+          Your monthly financial report is ready
         </Text>
-        <View style={styles.readyBadge}>
-          <Text style={styles.readyBadgeText}>Ready</Text>
+        <View style={styles.monthlyReportStats}>
+          {[
+            { label: "Total Sales", value: monthlyReport.totalSales },
+            { label: "Total Cost", value: monthlyReport.totalCost },
+            { label: "Total Profit", value: monthlyReport.totalProfit },
+          ].map((row) => (
+            <View key={row.label} style={styles.monthlyReportStat}>
+              <Text style={styles.monthlyReportStatLabel}>{row.label}</Text>
+              <Text
+                style={styles.monthlyReportStatValue}
+                numberOfLines={1}
+                adjustsFontSizeToFit
+              >
+                {formatCurrency(row.value)}
+              </Text>
+            </View>
+          ))}
         </View>
-      </View>
-      <Text style={styles.monthlyReportSubtitle}>
-        Your monthly financial report is ready
-      </Text>
-      <View style={styles.monthlyReportStats}>
-        {[
-          { label: "Total Sales", value: monthlyReport.totalSales },
-          { label: "Total Cost", value: monthlyReport.totalCost },
-          { label: "Total Profit", value: monthlyReport.totalProfit },
-        ].map((row) => (
-          <View key={row.label} style={styles.monthlyReportStat}>
-            <Text style={styles.monthlyReportStatLabel}>{row.label}</Text>
-            <Text
-              style={styles.monthlyReportStatValue}
-              numberOfLines={1}
-              adjustsFontSizeToFit
-            >
-              {formatCurrency(row.value)}
-            </Text>
-          </View>
-        ))}
-      </View>
-      <TouchableOpacity
-        style={styles.downloadButton}
-        onPress={onDownload}
-        disabled={pdfLoading}
-      >
-        {pdfLoading ? (
-          <ActivityIndicator size="small" color="#FFFFFF" />
-        ) : (
-          <>
+        <TouchableOpacity
+          style={styles.downloadButton}
+          onPress={onDownload}
+          disabled={pdfLoading}
+        >
+          {pdfLoading ? (
+            <ActivityIndicator size="small" color={colors.onPrimary} />
+          ) : (
+            <>
+              <Ionicons
+                name="download-outline"
+                size={moderateScale(17)}
+                color={colors.onPrimary}
+              />
+              <Text style={styles.downloadButtonText}>
+                Download Report (PDF)
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+        {onExportData && (
+          <TouchableOpacity style={styles.exportButton} onPress={onExportData}>
             <Ionicons
-              name="download-outline"
+              name="grid-outline"
               size={moderateScale(17)}
-              color="#FFFFFF"
+              color={colors.primary}
             />
-            <Text style={styles.downloadButtonText}>Download Report (PDF)</Text>
-          </>
+            <Text style={styles.exportButtonText}>
+              Export raw data (CSV/XLSX)
+            </Text>
+          </TouchableOpacity>
         )}
-      </TouchableOpacity>
+      </View>
     </View>
-  </View>
-);
+  );
+};
@@ -1,10 +1,12 @@
+import { useThemedStyles } from "@/hooks/useTheme";
 import { useUnreadNotificationsCount } from "@/hooks/useNotifications";
 import { useRouter } from "expo-router";
 import { Bell, MessageCircleQuestionMark } from "lucide-react-native";
 import React, { useState } from "react";
 import { Image, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import BranchSwitcher from "./BranchSwitcher";
 import ProfileSheet from "./ProfileSheet";
-import { moderateScale, scale, homeStyles as styles } from "./homeStyles";
+import { createHomeStyles, moderateScale, scale } from "./homeStyles";
 
 interface HomeHeaderProps {
   name: string;
@@ -12,6 +14,7 @@ interface HomeHeaderProps {
 }
 
 const HomeHeader: React.FC<HomeHeaderProps> = ({ name, profileImage }) => {
+  const styles = useThemedStyles(createHomeStyles);
   const router = useRouter();
   const [showProfileSheet, setShowProfileSheet] = useState(false);
   const unreadCount = useUnreadNotificationsCount();
@@ -34,6 +37,7 @@ const HomeHeader: React.FC<HomeHeaderProps> = ({ name, profileImage }) => {
             {" "}
             {name}{" "}
           </Text>
+          <BranchSwitcher />
         </View>
 
         <View style={styles.headerIcons}>
@@ -1,3 +1,4 @@
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 import { useMarkNotificationRead } from "@/hooks/useNotifications";
 import { Feather, Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
@@ -10,7 +11,7 @@ import {
   TouchableOpacity,
   View,
 } from "react-native";
-import { moderateScale, scale, homeStyles as styles } from "./homeStyles";
+import { createHomeStyles, moderateScale, scale } from "./homeStyles";
 import { Notification, Product } from "./homeTypes";
 
 // ─── Dummy data ───────────────────────────────────────────────────────────────
@@ -64,7 +65,7 @@ export const DUMMY_NOTIFICATIONS: Notification[] = [
 
 // ─── Icon resolver ────────────────────────────────────────────────────────────
 
-const getNotificationIcon = (type: Notification["type"]) => {
+const getNotificationIcon = (type: Notification["type"], color: string) => {
   switch (type) {
     case "low_stock":
     case "out_of_stock":
@@ -72,7 +73,7 @@ const getNotificationIcon = (type: Notification["type"]) => {
         <Ionicons
           name="folder-open-outline"
           size={moderateScale(24)}
-          color="#1155CC"
+          color={color}
         />
       );
     case "daily_summary":
@@ -81,23 +82,23 @@ const getNotificationIcon = (type: Notification["type"]) => {
         <Ionicons
           name="bar-chart-outline"
           size={moderateScale(24)}
-          color="#1155CC"
+          color={color}
         />
       );
     case "high_selling":
       return (
-        <Feather name="trending-up" size={moderateScale(24)} color="#1155CC" />
+        <Feather name="trending-up" size={moderateScale(24)} color={color} />
       );
     case "expiry":
       return (
-        <Feather name="calendar" size={moderateScale(24)} color="#1155CC" />
+        <Feather name="calendar" size={moderateScale(24)} color={color} />
       );
     default:
       return (
         <Ionicons
           name="notifications-outline"
           size={moderateScale(24)}
-          color="#1155CC"
+          color={color}
         />
       );
   }
@@ -118,6 +119,8 @@ const NotificationFeed: React.FC<NotificationFeedProps> = ({
   onRestockProduct,
   onRestockById,
 }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createHomeStyles);
   const router = useRouter();
   const markRead = useMarkNotificationRead();
 
@@ -171,7 +174,7 @@ const NotificationFeed: React.FC<NotificationFeedProps> = ({
     }
   };
 
-  // ─── Item renderer ──────────────────────────────────────────────────────────
+  // ─── Item renderer ─────────────────────────────────────────────────────────
 
   const renderItem = ({ item }: { item: Notification }) => (
     <TouchableOpacity
@@ -181,7 +184,7 @@ const NotificationFeed: React.FC<NotificationFeedProps> = ({
     >
       <View style={styles.notifLeftSection}>
         <View style={styles.notifIconBox}>
-          {getNotificationIcon(item.type)}
+          {getNotificationIcon(item.type, colors.primary)}
         </View>
 
         <View style={styles.notifContent}>
@@ -212,7 +215,7 @@ const NotificationFeed: React.FC<NotificationFeedProps> = ({
                     borderRadius: 24,
                   }}
                 >
-                  <Text style={{ color: "#1155CC", fontSize: 12 }}>
+                  <Text style={{ color: colors.primary, fontSize: 12 }}>
                     {action.label}
                   </Text>
                 </Pressable>
@@ -224,7 +227,7 @@ const NotificationFeed: React.FC<NotificationFeedProps> = ({
     </TouchableOpacity>
   );
 
-  // ─── Render ─────────────────────────────────────────────────────────────────
+  // ─── Render ────────────────────────────────────────────────────────────────
 
   return (
     <View style={styles.notificationSection}>
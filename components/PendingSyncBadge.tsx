@@ -0,0 +1,116 @@
+import { usePermissions } from "@/hooks/usePermissions";
+import { useSalesOutbox } from "@/hooks/useSalesOutbox";
+import { formatCurrency } from "@/utils/formatters";
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+} from "react-native";
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
+
+/**
+ * Small pill shown while sales are waiting in the offline outbox. Tapping it
+ * forces a sync, or lets the cashier retry/discard sales the server rejected.
+ */
+const PendingSyncBadge: React.FC = () => {
+  const styles = useThemedStyles(createStyles);
+  const { queue, pendingCount, conflicts, isSyncing, syncNow, discard, retry } =
+    useSalesOutbox();
+  const { canDelete } = usePermissions();
+
+  if (queue.length === 0) return null;
+
+  const hasConflicts = conflicts.length > 0;
+
+  const handlePress = () => {
+    if (!hasConflicts) {
+      Alert.alert(
+        "Pending sync",
+        `${pendingCount} ${pendingCount === 1 ? "sale is" : "sales are"} saved on this device and will be sent when you are back online.`,
+        [
+          { text: "Close", style: "cancel" },
+          { text: "Sync now", onPress: syncNow },
+        ],
+      );
+      return;
+    }
+
+    Alert.alert(
+      "Sales not synced",
+      conflicts
+        .map((sale) => `${formatCurrency(sale.total)} — ${sale.error}`)
+        .join("\n"),
+      [
+        { text: "Close", style: "cancel" },
+        // Throwing a sale away is a delete, so cashiers can only retry
+        ...(canDelete
+          ? [
+              {
+                text: "Discard",
+                style: "destructive" as const,
+                onPress: () => conflicts.forEach((sale) => discard(sale.id)),
+              },
+            ]
+          : []),
+        {
+          text: "Retry",
+          onPress: () => {
+            conflicts.forEach((sale) => retry(sale.id));
+            syncNow();
+          },
+        },
+      ],
+    );
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.badge, hasConflicts && styles.badgeConflict]}
+      onPress={handlePress}
+      activeOpacity={0.8}
+    >
+      {isSyncing ? (
+        <ActivityIndicator size="small" color="#fff" />
+      ) : (
+        <Ionicons
+          name={hasConflicts ? "alert-circle-outline" : "cloud-upload-outline"}
+          size={14}
+          color="#fff"
+        />
+      )}
+      <Text style={styles.badgeText}>
+        {hasConflicts
+          ? `${conflicts.length} failed`
+          : `${pendingCount} pending sync`}
+      </Text>
+    </TouchableOpacity>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    badge: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+      backgroundColor: "#F59E0B",
+      borderRadius: 12,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    badgeConflict: {
+      backgroundColor: "#EF4444",
+    },
+    badgeText: {
+      color: colors.onPrimary,
+      fontSize: 12,
+      fontFamily: "DMSans_500Medium",
+    },
+  });
+
+export default PendingSyncBadge;
@@ -15,6 +15,8 @@ import {
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import ConfirmModal from "./ui/ConfirmModal";
 import SuccessModal from "./ui/SuccessModal";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 interface ProfileSheetProps {
   visible: boolean;
@@ -34,6 +36,8 @@ type Section = {
 };
 
 const ProfileSheet: React.FC<ProfileSheetProps> = ({ visible, onClose }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [showLogoutModal, setShowLogoutModal] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
@@ -202,7 +206,7 @@ const ProfileSheet: React.FC<ProfileSheetProps> = ({ visible, onClose }) => {
                         <Ionicons
                           name={row.icon}
                           size={22}
-                          color="#1155CC"
+                          color={colors.primary}
                           style={styles.rowIcon}
                         />
                         <Text style={styles.rowText}>{row.title}</Text>
@@ -260,120 +264,121 @@ const ProfileSheet: React.FC<ProfileSheetProps> = ({ visible, onClose }) => {
   );
 };
 
-const styles = StyleSheet.create({
-  overlay: {
-    flex: 1,
-    backgroundColor: "rgba(0,0,0,0.45)",
-    justifyContent: "flex-end",
-  },
-  sheet: {
-    backgroundColor: "#FFFFFF",
-    borderTopLeftRadius: 28,
-    borderTopRightRadius: 28,
-    maxHeight: "92%",
-    paddingTop: 10,
-  },
-  grabber: {
-    width: 44,
-    height: 5,
-    borderRadius: 3,
-    backgroundColor: "#1C1C1C",
-    alignSelf: "center",
-    marginBottom: 12,
-  },
-  profileRow: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingHorizontal: 20,
-    paddingBottom: 16,
-    gap: 14,
-  },
-  avatar: {
-    width: 64,
-    height: 64,
-    borderRadius: 32,
-    backgroundColor: "#eee",
-  },
-  profileInfo: {
-    flex: 1,
-  },
-  profileName: {
-    fontSize: 22,
-    color: "#1C1C1C",
-    fontFamily: "DMSans_700Bold",
-  },
-  profilePhone: {
-    fontSize: 15,
-    color: "#8A8A8E",
-    fontFamily: "DMSans_400Regular",
-    marginTop: 2,
-  },
-  headerDivider: {
-    height: 1,
-    backgroundColor: "#EEEEEE",
-  },
-  scrollContent: {
-    paddingBottom: 8,
-  },
-  section: {
-    paddingHorizontal: 20,
-    marginTop: 22,
-  },
-  sectionTitle: {
-    fontSize: 12,
-    letterSpacing: 1,
-    color: "#9CA3AF",
-    fontFamily: "DMSans_500Medium",
-    marginBottom: 10,
-  },
-  card: {
-    borderWidth: 1,
-    borderColor: "#ECECEC",
-    borderRadius: 14,
-    overflow: "hidden",
-  },
-  row: {
-    flexDirection: "row",
-    alignItems: "center",
-    paddingVertical: 18,
-    paddingHorizontal: 16,
-  },
-  rowDivider: {
-    borderBottomWidth: 1,
-    borderBottomColor: "#F0F0F0",
-  },
-  rowIcon: {
-    marginRight: 14,
-  },
-  rowText: {
-    flex: 1,
-    fontSize: 16,
-    color: "#1C1C1C",
-    fontFamily: "DMSans_400Regular",
-  },
-  rowValue: {
-    fontSize: 15,
-    color: "#6E6E6E",
-    fontFamily: "DMSans_500Medium",
-    marginRight: 10,
-  },
-  logoutButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    gap: 10,
-    marginHorizontal: 20,
-    marginTop: 28,
-    borderWidth: 1,
-    borderColor: "#EF4444",
-    borderRadius: 16,
-    paddingVertical: 16,
-  },
-  logoutText: {
-    fontSize: 16,
-    color: "#EF4444",
-    fontFamily: "DMSans_700Bold",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: "rgba(0,0,0,0.45)",
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 28,
+      borderTopRightRadius: 28,
+      maxHeight: "92%",
+      paddingTop: 10,
+    },
+    grabber: {
+      width: 44,
+      height: 5,
+      borderRadius: 3,
+      backgroundColor: "#1C1C1C",
+      alignSelf: "center",
+      marginBottom: 12,
+    },
+    profileRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingHorizontal: 20,
+      paddingBottom: 16,
+      gap: 14,
+    },
+    avatar: {
+      width: 64,
+      height: 64,
+      borderRadius: 32,
+      backgroundColor: colors.surfaceMuted,
+    },
+    profileInfo: {
+      flex: 1,
+    },
+    profileName: {
+      fontSize: 22,
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+    },
+    profilePhone: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+      marginTop: 2,
+    },
+    headerDivider: {
+      height: 1,
+      backgroundColor: colors.surfaceMuted,
+    },
+    scrollContent: {
+      paddingBottom: 8,
+    },
+    section: {
+      paddingHorizontal: 20,
+      marginTop: 22,
+    },
+    sectionTitle: {
+      fontSize: 12,
+      letterSpacing: 1,
+      color: colors.textMuted,
+      fontFamily: "DMSans_500Medium",
+      marginBottom: 10,
+    },
+    card: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 14,
+      overflow: "hidden",
+    },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingVertical: 18,
+      paddingHorizontal: 16,
+    },
+    rowDivider: {
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    rowIcon: {
+      marginRight: 14,
+    },
+    rowText: {
+      flex: 1,
+      fontSize: 16,
+      color: colors.text,
+      fontFamily: "DMSans_400Regular",
+    },
+    rowValue: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_500Medium",
+      marginRight: 10,
+    },
+    logoutButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 10,
+      marginHorizontal: 20,
+      marginTop: 28,
+      borderWidth: 1,
+      borderColor: "#EF4444",
+      borderRadius: 16,
+      paddingVertical: 16,
+    },
+    logoutText: {
+      fontSize: 16,
+      color: "#EF4444",
+      fontFamily: "DMSans_700Bold",
+    },
+  });
 
 export default ProfileSheet;
@@ -0,0 +1,190 @@
+import { Feather } from "@expo/vector-icons";
+import React from "react";
+import {
+    ActivityIndicator,
+    Modal,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useReceipt } from "@/hooks/useReceipt";
+import type { ApiSale } from "@/src/api/sales";
+import { getReceiptReference } from "@/utils/receipt";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface ReceiptSheetProps {
+  visible: boolean;
+  sale: ApiSale | null;
+  onClose: () => void;
+  title?: string;
+}
+
+type ReceiptAction = {
+  label: string;
+  icon: keyof typeof Feather.glyphMap;
+  onPress: (sale: ApiSale) => Promise<void>;
+};
+
+const ReceiptSheet: React.FC<ReceiptSheetProps> = ({
+  visible,
+  sale,
+  onClose,
+  title = "Receipt",
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const {
+    receiptLoading,
+    printReceipt,
+    shareReceiptPdf,
+    shareReceiptText,
+    shareReceiptEscPos,
+  } = useReceipt();
+
+  const actions: ReceiptAction[] = [
+    { label: "Print", icon: "printer", onPress: printReceipt },
+    { label: "Share PDF", icon: "file-text", onPress: shareReceiptPdf },
+    {
+      label: "Share as text",
+      icon: "message-square",
+      onPress: shareReceiptText,
+    },
+    {
+      label: "Thermal printer (58mm)",
+      icon: "bluetooth",
+      onPress: shareReceiptEscPos,
+    },
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>{title}</Text>
+              {sale && (
+                <Text style={styles.subtitle}>{getReceiptReference(sale)}</Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {actions.map((action) => (
+            <TouchableOpacity
+              key={action.label}
+              style={styles.action}
+              activeOpacity={0.7}
+              disabled={!sale || receiptLoading}
+              onPress={() => sale && action.onPress(sale)}
+            >
+              <View style={styles.actionIcon}>
+                <Feather name={action.icon} size={18} color={colors.primary} />
+              </View>
+              <Text style={styles.actionText}>{action.label}</Text>
+              <Feather name="chevron-right" size={18} color="#C0C0C0" />
+            </TouchableOpacity>
+          ))}
+
+          {receiptLoading && (
+            <ActivityIndicator
+              style={styles.loader}
+              size="small"
+              color={colors.primary}
+            />
+          )}
+
+          <TouchableOpacity style={styles.doneButton} onPress={onClose}>
+            <Text style={styles.doneButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "flex-start",
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    action: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      paddingVertical: 14,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    actionIcon: {
+      width: 36,
+      height: 36,
+      borderRadius: 10,
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    actionText: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    loader: {
+      marginTop: 12,
+    },
+    doneButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    doneButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default ReceiptSheet;
@@ -0,0 +1,455 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    ScrollView,
+    StyleSheet,
+    Switch,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCreateRefund } from "@/hooks/useSales";
+import type { ApiSale, ApiSaleItem } from "@/src/api/sales";
+import { formatCurrency } from "@/utils/formatters";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+const REASONS = [
+  "Customer changed mind",
+  "Damaged",
+  "Wrong item",
+  "Expired",
+  "Other",
+] as const;
+
+const REFUND_METHODS = [
+  { label: "Cash", value: "cash" },
+  { label: "Transfer", value: "transfer" },
+  { label: "POS", value: "pos" },
+] as const;
+
+// Damaged or expired goods shouldn't go back on the shelf by default
+const NO_RESTOCK_REASONS = ["Damaged", "Expired"];
+
+interface RefundModalProps {
+  visible: boolean;
+  sale: ApiSale | null;
+  onClose: () => void;
+  onRefunded?: () => void;
+}
+
+const itemKey = (item: ApiSaleItem, index: number) =>
+  String(item.id ?? item.inventory ?? item.product ?? index);
+
+// Units of each sale line already returned by earlier refunds
+const getReturnedQuantities = (sale: ApiSale): Record<string, number> => {
+  const returned: Record<string, number> = {};
+  (sale.refunds || []).forEach((refund) =>
+    refund.items.forEach((item) => {
+      const key = String(item.sale_item ?? item.inventory ?? item.product);
+      returned[key] = (returned[key] ?? 0) + Number(item.quantity || 0);
+    }),
+  );
+  return returned;
+};
+
+const RefundModal: React.FC<RefundModalProps> = ({
+  visible,
+  sale,
+  onClose,
+  onRefunded,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const createRefund = useCreateRefund();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState<(typeof REASONS)[number]>(REASONS[0]);
+  const [otherReason, setOtherReason] = useState("");
+  const [method, setMethod] = useState<string>("cash");
+  const [restock, setRestock] = useState(true);
+
+  // Start from a clean form every time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setQuantities({});
+    setReason(REASONS[0]);
+    setOtherReason("");
+    setMethod("cash");
+    setRestock(true);
+  }, [visible]);
+
+  const returned = useMemo(
+    () => (sale ? getReturnedQuantities(sale) : {}),
+    [sale],
+  );
+
+  const lines = useMemo(
+    () =>
+      (sale?.items || []).map((item, index) => {
+        const key = itemKey(item, index);
+        const sold = Number(item.quantity || 0);
+        const unitPrice = Number(
+          item.unit_price ?? Number(item.subtotal || 0) / (sold || 1),
+        );
+        return {
+          key,
+          item,
+          unitPrice,
+          returnable: Math.max(sold - (returned[key] ?? 0), 0),
+        };
+      }),
+    [sale, returned],
+  );
+
+  const refundTotal = lines.reduce(
+    (sum, line) => sum + (quantities[line.key] ?? 0) * line.unitPrice,
+    0,
+  );
+
+  const changeQuantity = (key: string, delta: number, max: number) => {
+    setQuantities((prev) => ({
+      ...prev,
+      [key]: Math.min(Math.max((prev[key] ?? 0) + delta, 0), max),
+    }));
+  };
+
+  const selectReason = (value: (typeof REASONS)[number]) => {
+    setReason(value);
+    setRestock(!NO_RESTOCK_REASONS.includes(value));
+  };
+
+  const handleSubmit = async () => {
+    if (!sale) return;
+    const items = lines
+      .filter((line) => (quantities[line.key] ?? 0) > 0)
+      .map((line) => ({
+        sale_item: line.item.id,
+        inventory: line.item.inventory ?? line.item.product,
+        quantity: quantities[line.key],
+      }));
+
+    if (items.length === 0) {
+      Alert.alert("Error", "Choose at least one item to return");
+      return;
+    }
+    const finalReason = reason === "Other" ? otherReason.trim() : reason;
+    if (!finalReason) {
+      Alert.alert("Error", "Please enter a reason for the return");
+      return;
+    }
+
+    try {
+      await createRefund.mutateAsync({
+        saleId: sale.id,
+        payload: {
+          items,
+          reason: finalReason,
+          refund_method: method,
+          restock,
+        },
+      });
+      Alert.alert(
+        "Refund recorded",
+        `${formatCurrency(refundTotal)} refunded${restock ? " and items restocked" : ""}.`,
+      );
+      onRefunded?.();
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to record refund. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Return items</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            {lines.map((line) => {
+              const selected = quantities[line.key] ?? 0;
+              return (
+                <View key={line.key} style={styles.itemRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {line.item.product_name || "Item"}
+                    </Text>
+                    <Text style={styles.itemMeta}>
+                      {line.returnable > 0
+                        ? `${line.returnable} returnable · ${formatCurrency(line.unitPrice)} each`
+                        : "Already returned"}
+                    </Text>
+                  </View>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity
+                      style={styles.stepButton}
+                      disabled={selected === 0}
+                      onPress={() =>
+                        changeQuantity(line.key, -1, line.returnable)
+                      }
+                    >
+                      <Feather name="minus" size={16} color={colors.primary} />
+                    </TouchableOpacity>
+                    <Text style={styles.stepValue}>{selected}</Text>
+                    <TouchableOpacity
+                      style={styles.stepButton}
+                      disabled={selected >= line.returnable}
+                      onPress={() =>
+                        changeQuantity(line.key, 1, line.returnable)
+                      }
+                    >
+                      <Feather name="plus" size={16} color={colors.primary} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+
+            <Text style={styles.label}>Reason</Text>
+            <View style={styles.chips}>
+              {REASONS.map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, reason === value && styles.chipActive]}
+                  onPress={() => selectReason(value)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      reason === value && styles.chipTextActive,
+                    ]}
+                  >
+                    {value}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {reason === "Other" && (
+              <TextInput
+                style={styles.input}
+                placeholder="Describe the reason"
+                placeholderTextColor={colors.textMuted}
+                value={otherReason}
+                onChangeText={setOtherReason}
+              />
+            )}
+
+            <Text style={styles.label}>Refund method</Text>
+            <View style={styles.chips}>
+              {REFUND_METHODS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    method === option.value && styles.chipActive,
+                  ]}
+                  onPress={() => setMethod(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      method === option.value && styles.chipTextActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.restockRow}>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.restockTitle}>Put items back in stock</Text>
+                <Text style={styles.itemMeta}>
+                  Turn off for damaged or expired goods
+                </Text>
+              </View>
+              <Switch
+                value={restock}
+                onValueChange={setRestock}
+                trackColor={{ true: "#1155CC", false: "#D0D0D0" }}
+              />
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              (refundTotal <= 0 || createRefund.isPending) &&
+                styles.submitButtonDisabled,
+            ]}
+            onPress={handleSubmit}
+            disabled={refundTotal <= 0 || createRefund.isPending}
+          >
+            {createRefund.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.submitButtonText}>
+                Refund {formatCurrency(refundTotal)}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    itemRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    itemName: {
+      fontSize: 15,
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    itemMeta: {
+      fontSize: 12,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    stepper: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+    },
+    stepButton: {
+      width: 32,
+      height: 32,
+      borderRadius: 8,
+      backgroundColor: colors.background,
+      justifyContent: "center",
+      alignItems: "center",
+    },
+    stepValue: {
+      minWidth: 20,
+      textAlign: "center",
+      fontSize: 15,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 18,
+      marginBottom: 8,
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 20,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+    },
+    chipActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.background,
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: colors.primary,
+      fontFamily: "DMSans_600SemiBold",
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      marginTop: 10,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    restockRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      marginTop: 18,
+    },
+    restockTitle: {
+      fontSize: 15,
+      fontFamily: "DMSans_500Medium",
+      color: colors.text,
+    },
+    submitButton: {
+      backgroundColor: "#E74C3C",
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    submitButtonDisabled: {
+      opacity: 0.5,
+    },
+    submitButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default RefundModal;
@@ -0,0 +1,255 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useMemo } from "react";
+import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
+
+import type { ApiRestock } from "@/src/api/products";
+import {
+    formatCurrency,
+    formatDateLabel,
+    formatNumber,
+} from "@/utils/formatters";
+import {
+    getCostChange,
+    getRestockDate,
+    getRestockSupplierName,
+    sortRestocksNewestFirst,
+} from "@/utils/restocks";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface RestockTimelineProps {
+  restocks: ApiRestock[];
+  loading?: boolean;
+}
+
+const formatPercent = (percent: number) =>
+  `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+
+/**
+ * Every delivery of one product, newest first, with how the cost price moved
+ * against the delivery before it.
+ */
+const RestockTimeline: React.FC<RestockTimelineProps> = ({
+  restocks,
+  loading,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const sorted = useMemo(() => sortRestocksNewestFirst(restocks), [restocks]);
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (sorted.length === 0) {
+    return <Text style={styles.emptyText}>No restocks recorded yet.</Text>;
+  }
+
+  const latest = sorted[0];
+  const oldest = sorted[sorted.length - 1];
+  const lastSupplier = sorted.map(getRestockSupplierName).find(Boolean);
+  const overallChange =
+    sorted.length > 1 ? getCostChange(latest, oldest) : null;
+
+  return (
+    <View>
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>
+          Last bought from{" "}
+          <Text style={styles.summaryStrong}>
+            {lastSupplier || "an unknown supplier"}
+          </Text>
+        </Text>
+        {overallChange && (
+          <Text style={styles.summaryText}>
+            Cost {formatCurrency(oldest.buying_price)} →{" "}
+            {formatCurrency(latest.buying_price)}{" "}
+            <Text
+              style={
+                overallChange.amount > 0 ? styles.costUp : styles.costDown
+              }
+            >
+              ({formatPercent(overallChange.percent)})
+            </Text>
+          </Text>
+        )}
+      </View>
+
+      {sorted.map((restock, index) => {
+        const date = getRestockDate(restock);
+        const change = getCostChange(restock, sorted[index + 1]);
+        const supplier = getRestockSupplierName(restock);
+        const isLast = index === sorted.length - 1;
+
+        return (
+          <View key={restock.id} style={styles.entry}>
+            <View style={styles.rail}>
+              <View style={[styles.dot, index === 0 && styles.dotLatest]} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+
+            <View style={[styles.body, !isLast && styles.bodySpacing]}>
+              <View style={styles.entryHeader}>
+                <Text style={styles.entryDate}>
+                  {date ? formatDateLabel(date) : "Unknown date"}
+                </Text>
+                <Text style={styles.entryQuantity}>
+                  +{formatNumber(restock.quantity_added)} units
+                </Text>
+              </View>
+
+              <View style={styles.entryRow}>
+                <Text style={styles.entryMeta}>
+                  Cost {formatCurrency(restock.buying_price)}
+                </Text>
+                {change && change.amount !== 0 && (
+                  <View style={styles.changeBadge}>
+                    <Feather
+                      name={change.amount > 0 ? "arrow-up" : "arrow-down"}
+                      size={12}
+                      color={change.amount > 0 ? "#E74C3C" : "#27AE60"}
+                    />
+                    <Text
+                      style={
+                        change.amount > 0 ? styles.costUp : styles.costDown
+                      }
+                    >
+                      {formatCurrency(Math.abs(change.amount))}
+                    </Text>
+                  </View>
+                )}
+              </View>
+
+              {!!supplier && (
+                <Text style={styles.entryMeta}>
+                  {supplier}
+                  {restock.supplier_phone ? ` · ${restock.supplier_phone}` : ""}
+                </Text>
+              )}
+              {!!restock.notes && (
+                <Text style={styles.entryNotes}>{restock.notes}</Text>
+              )}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    center: {
+      paddingVertical: 20,
+      alignItems: "center",
+    },
+    emptyText: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      paddingVertical: 12,
+    },
+
+    // ── Summary ─────────────────────────────────────────────────────────────
+    summary: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 10,
+      padding: 12,
+      marginBottom: 16,
+      gap: 4,
+    },
+    summaryText: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    summaryStrong: {
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+
+    // ── Entries ─────────────────────────────────────────────────────────────
+    entry: {
+      flexDirection: "row",
+    },
+    rail: {
+      width: 20,
+      alignItems: "center",
+    },
+    dot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      backgroundColor: colors.surfaceMuted,
+      marginTop: 5,
+    },
+    dotLatest: {
+      backgroundColor: colors.primary,
+    },
+    line: {
+      flex: 1,
+      width: 2,
+      backgroundColor: colors.surfaceMuted,
+      marginTop: 4,
+    },
+    body: {
+      flex: 1,
+      marginLeft: 8,
+      gap: 3,
+    },
+    bodySpacing: {
+      paddingBottom: 18,
+    },
+    entryHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    entryDate: {
+      fontSize: 14,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    entryQuantity: {
+      fontSize: 14,
+      fontFamily: "DMSans_700Bold",
+      color: "#27AE60",
+    },
+    entryRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+    },
+    entryMeta: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+    },
+    entryNotes: {
+      fontSize: 12,
+      fontFamily: "DMSans_400Regular",
+      fontStyle: "italic",
+      color: colors.textMuted,
+    },
+    changeBadge: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 2,
+    },
+    costUp: {
+      fontSize: 12,
+      fontFamily: "DMSans_500Medium",
+      color: "#E74C3C",
+    },
+    costDown: {
+      fontSize: 12,
+      fontFamily: "DMSans_500Medium",
+      color: "#27AE60",
+    },
+  });
+
+export default RestockTimeline;
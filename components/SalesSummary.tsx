@@ -4,12 +4,10 @@ import { useRouter } from "expo-router";
 import React from "react";
 import { FlatList, Image, Text, TouchableOpacity, View } from "react-native";
 
-import {
-  formatCurrency,
-  moderateScale,
-  homeStyles as styles,
-} from "./homeStyles";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+import { createHomeStyles, formatCurrency, moderateScale } from "./homeStyles";
 import { SalesSummaryItem } from "./homeTypes";
+import { getFormatLocale } from "../utils/formatters";
 
 interface SalesSummaryProps {
   salesSummary: SalesSummaryItem[];
@@ -18,7 +16,7 @@ interface SalesSummaryProps {
 const formatSalesDate = (dateString: string) => {
   try {
     const date = new Date(dateString);
-    return date.toLocaleDateString("en-US", {
+    return date.toLocaleDateString(getFormatLocale(), {
       month: "short",
       day: "numeric",
       hour: "2-digit",
@@ -30,6 +28,8 @@ const formatSalesDate = (dateString: string) => {
 };
 
 const SalesSummary: React.FC<SalesSummaryProps> = ({ salesSummary }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createHomeStyles);
   const router = useRouter();
 
   return (
@@ -37,7 +37,11 @@ const SalesSummary: React.FC<SalesSummaryProps> = ({ salesSummary }) => {
       <View style={styles.salesSummaryHeader}>
         <View style={styles.salesSummaryHeaderLeft}>
           <View style={styles.dollarIconCircle}>
-            <Feather name="dollar-sign" size={moderateScale(20)} color="#000" />
+            <Feather
+              name="dollar-sign"
+              size={moderateScale(20)}
+              color={colors.text}
+            />
           </View>
           <View style={styles.salesSummaryHeaderTextContainer}>
             <Text style={styles.salesSummaryHeaderTitle}>Sales Summary</Text>
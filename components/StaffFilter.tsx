@@ -0,0 +1,93 @@
+import React from "react";
+import {
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    type StyleProp,
+    type ViewStyle,
+} from "react-native";
+
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
+import type { SellerOption } from "@/utils/staff";
+
+interface StaffFilterProps {
+  sellers: SellerOption[];
+  // Seller id, or null for everyone
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Chips for narrowing sales down to one staff member. Hidden when only one
+ * person has sold anything, since there is nothing to choose between.
+ */
+const StaffFilter: React.FC<StaffFilterProps> = ({
+  sellers,
+  selected,
+  onSelect,
+  style,
+}) => {
+  const styles = useThemedStyles(createStyles);
+  if (sellers.length < 2) return null;
+
+  const options = [{ id: null, name: "Everyone" }, ...sellers];
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={[styles.chips, style]}
+    >
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.id ?? "everyone"}
+          style={[styles.chip, selected === option.id && styles.chipActive]}
+          onPress={() => onSelect(option.id)}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              selected === option.id && styles.chipTextActive,
+            ]}
+          >
+            {option.name}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexGrow: 0,
+    },
+    chips: {
+      gap: 8,
+      paddingBottom: 12,
+    },
+    chip: {
+      backgroundColor: colors.surface,
+      borderRadius: 20,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+  });
+
+export default StaffFilter;
@@ -0,0 +1,337 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import {
+    useInviteStaff,
+    useRemoveStaff,
+    useUpdateStaffRole,
+} from "@/hooks/useStaff";
+import type { ApiStaffMember } from "@/src/api/staff";
+import type { StaffRole } from "@/src/api/types";
+import {
+    formatPhoneNumber,
+    getDialCode,
+    isValidPhoneNumber,
+} from "@/utils/formatters";
+import { STAFF_ROLES } from "@/utils/permissions";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface StaffFormModalProps {
+  visible: boolean;
+  // Edit this member's role; invite someone new when left out
+  member?: ApiStaffMember | null;
+  onClose: () => void;
+}
+
+const StaffFormModal: React.FC<StaffFormModalProps> = ({
+  visible,
+  member,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const inviteStaff = useInviteStaff();
+  const updateRole = useUpdateStaffRole();
+  const removeStaff = useRemoveStaff();
+  const [phone, setPhone] = useState("");
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<StaffRole>("cashier");
+
+  useEffect(() => {
+    if (!visible) return;
+    setPhone(member?.phone || "");
+    setName(member?.name || "");
+    setRole(member?.role || "cashier");
+  }, [visible, member]);
+
+  const saving = inviteStaff.isPending || updateRole.isPending;
+
+  const showError = (error: any, fallback: string) => {
+    const message =
+      error?.response?.data?.error ||
+      error?.response?.data?.detail ||
+      fallback;
+    Alert.alert("Error", message);
+  };
+
+  const handleSave = async () => {
+    if (member) {
+      try {
+        await updateRole.mutateAsync({ id: member.id, role });
+        onClose();
+      } catch (error: any) {
+        showError(error, "Failed to change the role. Please try again.");
+      }
+      return;
+    }
+
+    const formattedPhone = formatPhoneNumber(phone);
+    if (!isValidPhoneNumber(formattedPhone)) {
+      Alert.alert(
+        "Error",
+        "Please enter a valid phone number with country code",
+      );
+      return;
+    }
+
+    try {
+      await inviteStaff.mutateAsync({
+        phone: formattedPhone,
+        name: name.trim() || undefined,
+        role,
+      });
+      Alert.alert(
+        "Invite sent",
+        `${name.trim() || formattedPhone} can now sign in with the code sent to ${formattedPhone}.`,
+      );
+      onClose();
+    } catch (error: any) {
+      showError(error, "Failed to send the invite. Please try again.");
+    }
+  };
+
+  const confirmRemove = () => {
+    if (!member) return;
+    Alert.alert(
+      "Remove staff member",
+      `${member.name || member.phone} will no longer be able to sign in to this business.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: () =>
+            removeStaff.mutate(member.id, {
+              onSuccess: onClose,
+              onError: (error) =>
+                showError(error, "Failed to remove staff member."),
+            }),
+        },
+      ],
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>
+                {member ? member.name || member.phone : "Invite staff"}
+              </Text>
+              {member && <Text style={styles.subtitle}>{member.phone}</Text>}
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {!member && (
+              <>
+                <Text style={styles.label}>Phone number</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={`+${getDialCode()}…`}
+                  placeholderTextColor={colors.textMuted}
+                  value={phone}
+                  onChangeText={setPhone}
+                  keyboardType="phone-pad"
+                />
+                <Text style={styles.label}>Name (optional)</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Amaka"
+                  placeholderTextColor={colors.textMuted}
+                  value={name}
+                  onChangeText={setName}
+                />
+              </>
+            )}
+
+            <Text style={styles.label}>Role</Text>
+            {STAFF_ROLES.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.roleOption,
+                  role === option.value && styles.roleOptionActive,
+                ]}
+                onPress={() => setRole(option.value)}
+              >
+                <Feather
+                  name={role === option.value ? "check-circle" : "circle"}
+                  size={20}
+                  color={
+                    role === option.value ? colors.primary : colors.textMuted
+                  }
+                />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.roleLabel}>{option.label}</Text>
+                  <Text style={styles.roleDescription}>
+                    {option.description}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+
+            {member && (
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={confirmRemove}
+                disabled={removeStaff.isPending}
+              >
+                <Feather name="user-x" size={16} color={colors.danger} />
+                <Text style={styles.removeText}>Remove from business</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.saveButton, saving && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {member ? "Save role" : "Send invite"}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    roleOption: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 10,
+      padding: 12,
+      marginBottom: 8,
+    },
+    roleOptionActive: {
+      borderColor: colors.primary,
+      backgroundColor: colors.primarySoft,
+    },
+    roleLabel: {
+      fontSize: 15,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    roleDescription: {
+      fontSize: 12,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    removeButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 8,
+      paddingVertical: 12,
+      marginTop: 8,
+    },
+    removeText: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.danger,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default StaffFormModal;
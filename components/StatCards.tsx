@@ -2,7 +2,9 @@ import { LinearGradient } from "expo-linear-gradient";
 import React from "react";
 import { Text, View } from "react-native";
 
-import { formatCurrency, homeStyles as styles } from "./homeStyles";
+import { usePermissions } from "@/hooks/usePermissions";
+import { useThemedStyles } from "@/hooks/useTheme";
+import { createHomeStyles, formatCurrency } from "./homeStyles";
 
 interface StatCardsProps {
   todaySales: number;
@@ -38,6 +40,8 @@ const StatCards: React.FC<StatCardsProps> = ({
   dailyPercentageIncrease,
   dailyTransactionPercentage,
 }) => {
+  const styles = useThemedStyles(createHomeStyles);
+  const { canViewProfit } = usePermissions();
   const salesPct = buildPercent(dailyPercentageIncrease);
   const transactionPct = buildPercent(dailyTransactionPercentage);
 
@@ -64,12 +68,14 @@ const StatCards: React.FC<StatCardsProps> = ({
         <Text style={styles.salesAmount} numberOfLines={1} adjustsFontSizeToFit>
           {formatCurrency(todaySales)}
         </Text>
-        <View style={styles.profitRow}>
-          <Text style={styles.profitLabel}>Profit</Text>
-          <Text style={styles.profitAmount} numberOfLines={1}>
-            {formatCurrency(profit)}
-          </Text>
-        </View>
+        {canViewProfit && (
+          <View style={styles.profitRow}>
+            <Text style={styles.profitLabel}>Profit</Text>
+            <Text style={styles.profitAmount} numberOfLines={1}>
+              {formatCurrency(profit)}
+            </Text>
+          </View>
+        )}
       </LinearGradient>
 
       {/* Transactions & Stock Row */}
@@ -0,0 +1,342 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCreateStockAdjustment } from "@/hooks/useStockAdjustments";
+import type {
+    ApiStockAdjustment,
+    StockAdjustmentReason,
+} from "@/src/api/products";
+import { MANUAL_ADJUSTMENT_REASONS } from "@/utils/stockAdjustments";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface StockAdjustmentModalProps {
+  visible: boolean;
+  product: {
+    id: string;
+    name: string;
+    unitsInStock: number;
+    costPrice: number;
+  };
+  onClose: () => void;
+  onSaved?: (adjustment: ApiStockAdjustment, newQuantity: number) => void;
+}
+
+type Direction = "remove" | "add";
+
+const StockAdjustmentModal: React.FC<StockAdjustmentModalProps> = ({
+  visible,
+  product,
+  onClose,
+  onSaved,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const createAdjustment = useCreateStockAdjustment();
+  const [direction, setDirection] = useState<Direction>("remove");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState<StockAdjustmentReason | null>(null);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+    setDirection("remove");
+    setQuantity("");
+    setReason(null);
+    setNotes("");
+  }, [visible]);
+
+  const pieces = parseInt(quantity, 10) || 0;
+  const difference = direction === "remove" ? -pieces : pieces;
+  const newQuantity = product.unitsInStock + difference;
+
+  const handleSave = async () => {
+    if (pieces <= 0) {
+      Alert.alert("Error", "Please enter a quantity");
+      return;
+    }
+    if (newQuantity < 0) {
+      Alert.alert(
+        "Error",
+        `Only ${product.unitsInStock} in stock, so you can't remove ${pieces}`,
+      );
+      return;
+    }
+    if (!reason) {
+      Alert.alert("Error", "Please choose a reason for the adjustment");
+      return;
+    }
+
+    try {
+      const saved = await createAdjustment.mutateAsync({
+        inventory: Number(product.id),
+        difference,
+        reason,
+        notes: notes.trim() || undefined,
+        unit_cost: String(product.costPrice || 0),
+        source: "manual",
+      });
+      onSaved?.(saved, newQuantity);
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to save the adjustment. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Adjust stock</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {product.name} · {product.unitsInStock} in stock
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={styles.toggle}>
+              {(["remove", "add"] as Direction[]).map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[
+                    styles.toggleOption,
+                    direction === value && styles.toggleOptionActive,
+                  ]}
+                  onPress={() => setDirection(value)}
+                >
+                  <Text
+                    style={[
+                      styles.toggleText,
+                      direction === value && styles.toggleTextActive,
+                    ]}
+                  >
+                    {value === "remove" ? "Remove stock" : "Add stock"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Quantity</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor={colors.textMuted}
+              value={quantity}
+              onChangeText={(value) => setQuantity(value.replace(/[^0-9]/g, ""))}
+              keyboardType="number-pad"
+            />
+            {pieces > 0 && (
+              <Text style={styles.hint}>
+                Stock goes from {product.unitsInStock} to {newQuantity}
+              </Text>
+            )}
+
+            <Text style={styles.label}>Reason</Text>
+            <View style={styles.chips}>
+              {MANUAL_ADJUSTMENT_REASONS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.chip,
+                    reason === option.value && styles.chipActive,
+                  ]}
+                  onPress={() => setReason(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      reason === option.value && styles.chipTextActive,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Note (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="e.g. Dropped during delivery"
+              placeholderTextColor={colors.textMuted}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              createAdjustment.isPending && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={createAdjustment.isPending}
+          >
+            {createAdjustment.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save adjustment</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    toggle: {
+      flexDirection: "row",
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 10,
+      padding: 4,
+      marginTop: 16,
+    },
+    toggleOption: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 8,
+      alignItems: "center",
+    },
+    toggleOptionActive: {
+      backgroundColor: colors.primary,
+    },
+    toggleText: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    toggleTextActive: {
+      color: colors.onPrimary,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    notesInput: {
+      minHeight: 72,
+      textAlignVertical: "top",
+    },
+    hint: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 6,
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 20,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default StockAdjustmentModal;
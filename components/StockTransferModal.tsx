@@ -0,0 +1,307 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCreateStockTransfer } from "@/hooks/useBranches";
+import type { ApiBranch, ApiStockTransfer } from "@/src/api/branches";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface StockTransferModalProps {
+  visible: boolean;
+  product: { id: string; name: string };
+  // Units on hand at each branch, keyed by branch id
+  stockByBranch: Map<number, number>;
+  branches: ApiBranch[];
+  // Branch to move stock out of when the modal opens
+  defaultFromId?: number;
+  onClose: () => void;
+  onSaved?: (transfer: ApiStockTransfer) => void;
+}
+
+const StockTransferModal: React.FC<StockTransferModalProps> = ({
+  visible,
+  product,
+  stockByBranch,
+  branches,
+  defaultFromId,
+  onClose,
+  onSaved,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const createTransfer = useCreateStockTransfer();
+  const [fromId, setFromId] = useState<number | null>(null);
+  const [toId, setToId] = useState<number | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!visible) return;
+    setFromId(defaultFromId ?? branches[0]?.id ?? null);
+    setToId(null);
+    setQuantity("");
+    setNotes("");
+  }, [visible, defaultFromId, branches]);
+
+  const pieces = parseInt(quantity, 10) || 0;
+  const available = fromId != null ? (stockByBranch.get(fromId) ?? 0) : 0;
+
+  const chooseFrom = (id: number) => {
+    setFromId(id);
+    if (toId === id) setToId(null);
+  };
+
+  const handleSave = async () => {
+    if (fromId == null || toId == null) {
+      Alert.alert("Error", "Please choose where the stock goes");
+      return;
+    }
+    if (pieces <= 0) {
+      Alert.alert("Error", "Please enter a quantity");
+      return;
+    }
+    if (pieces > available) {
+      Alert.alert(
+        "Error",
+        `Only ${available} in stock there, so you can't move ${pieces}`,
+      );
+      return;
+    }
+
+    try {
+      const saved = await createTransfer.mutateAsync({
+        inventory: Number(product.id),
+        from_branch: fromId,
+        to_branch: toId,
+        quantity: pieces,
+        notes: notes.trim() || undefined,
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to transfer stock. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  const renderBranchChips = (
+    selected: number | null,
+    onSelect: (id: number) => void,
+    excludeId?: number | null,
+  ) => (
+    <View style={styles.chips}>
+      {branches
+        .filter((branch) => branch.id !== excludeId)
+        .map((branch) => (
+          <TouchableOpacity
+            key={branch.id}
+            style={[styles.chip, selected === branch.id && styles.chipActive]}
+            onPress={() => onSelect(branch.id)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                selected === branch.id && styles.chipTextActive,
+              ]}
+            >
+              {branch.name} · {stockByBranch.get(branch.id) ?? 0}
+            </Text>
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Transfer stock</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {product.name}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>From</Text>
+            {renderBranchChips(fromId, chooseFrom)}
+
+            <Text style={styles.label}>To</Text>
+            {renderBranchChips(toId, setToId, fromId)}
+
+            <Text style={styles.label}>Quantity</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0"
+              placeholderTextColor={colors.textMuted}
+              value={quantity}
+              onChangeText={(value) => setQuantity(value.replace(/[^0-9]/g, ""))}
+              keyboardType="number-pad"
+            />
+            {pieces > 0 && fromId != null && (
+              <Text style={styles.hint}>
+                Leaves {available - pieces} at{" "}
+                {branches.find((branch) => branch.id === fromId)?.name}
+              </Text>
+            )}
+
+            <Text style={styles.label}>Note (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="e.g. Sent with Monday's delivery"
+              placeholderTextColor={colors.textMuted}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              createTransfer.isPending && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={createTransfer.isPending}
+          >
+            {createTransfer.isPending ? (
+              <ActivityIndicator color={colors.onPrimary} />
+            ) : (
+              <Text style={styles.saveButtonText}>Transfer</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    notesInput: {
+      minHeight: 72,
+      textAlignVertical: "top",
+    },
+    hint: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 6,
+    },
+    chips: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: 8,
+    },
+    chip: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 20,
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default StockTransferModal;
@@ -0,0 +1,230 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useSaveSupplier } from "@/hooks/useSuppliers";
+import type { ApiSupplier } from "@/src/api/products";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface SupplierFormModalProps {
+  visible: boolean;
+  supplier?: ApiSupplier | null;
+  onClose: () => void;
+  onSaved?: (supplier: ApiSupplier) => void;
+}
+
+const FIELDS = [
+  { key: "name", label: "Name", placeholder: "Supplier or company name" },
+  {
+    key: "phone",
+    label: "Phone number",
+    placeholder: "080…",
+    keyboardType: "phone-pad",
+  },
+  {
+    key: "email",
+    label: "Email (optional)",
+    placeholder: "orders@example.com",
+    keyboardType: "email-address",
+  },
+  { key: "address", label: "Address (optional)", placeholder: "Market, shop" },
+  { key: "notes", label: "Notes (optional)", placeholder: "Delivery days…" },
+] as const;
+
+type SupplierForm = Record<(typeof FIELDS)[number]["key"], string>;
+
+const emptyForm: SupplierForm = {
+  name: "",
+  phone: "",
+  email: "",
+  address: "",
+  notes: "",
+};
+
+const SupplierFormModal: React.FC<SupplierFormModalProps> = ({
+  visible,
+  supplier,
+  onClose,
+  onSaved,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const saveSupplier = useSaveSupplier();
+  const [form, setForm] = useState<SupplierForm>(emptyForm);
+
+  useEffect(() => {
+    if (!visible) return;
+    setForm({
+      name: supplier?.name || "",
+      phone: supplier?.phone || "",
+      email: supplier?.email || "",
+      address: supplier?.address || "",
+      notes: supplier?.notes || "",
+    });
+  }, [visible, supplier]);
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      Alert.alert("Error", "Please enter the supplier's name");
+      return;
+    }
+
+    try {
+      const saved = await saveSupplier.mutateAsync({
+        id: supplier?.id,
+        payload: {
+          name: form.name.trim(),
+          phone: form.phone.trim() || null,
+          email: form.email.trim() || null,
+          address: form.address.trim() || null,
+          notes: form.notes.trim() || null,
+        },
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to save supplier. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>
+              {supplier ? "Edit supplier" : "New supplier"}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {FIELDS.map((field) => (
+              <View key={field.key}>
+                <Text style={styles.label}>{field.label}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={field.placeholder}
+                  placeholderTextColor={colors.textMuted}
+                  value={form[field.key]}
+                  onChangeText={(value) =>
+                    setForm((prev) => ({ ...prev, [field.key]: value }))
+                  }
+                  keyboardType={
+                    "keyboardType" in field ? field.keyboardType : "default"
+                  }
+                  autoCapitalize={field.key === "email" ? "none" : "sentences"}
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              saveSupplier.isPending && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={saveSupplier.isPending}
+          >
+            {saveSupplier.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save supplier</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default SupplierFormModal;
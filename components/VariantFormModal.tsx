@@ -0,0 +1,283 @@
+import { Feather } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+import { useCreateVariant } from "@/hooks/useVariants";
+import type { ApiUserInventoryItem } from "@/src/api/products";
+import { VARIANT_ATTRIBUTES } from "@/utils/variants";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface VariantFormModalProps {
+  visible: boolean;
+  parent: {
+    id: string;
+    name: string;
+    costPrice: number;
+    sellingPrice: number;
+    lowStockThreshold: number;
+  };
+  onClose: () => void;
+  onSaved?: (variant: ApiUserInventoryItem) => void;
+}
+
+const FIELDS = [
+  { key: "barcode", label: "Barcode (optional)", placeholder: "Scan or type" },
+  {
+    key: "costPrice",
+    label: "Cost price",
+    placeholder: "0",
+    keyboardType: "numeric",
+  },
+  {
+    key: "sellingPrice",
+    label: "Selling price",
+    placeholder: "0",
+    keyboardType: "numeric",
+  },
+  {
+    key: "unitsInStock",
+    label: "Units in stock",
+    placeholder: "0",
+    keyboardType: "numeric",
+  },
+] as const;
+
+type VariantForm = Record<(typeof FIELDS)[number]["key"], string>;
+
+const VariantFormModal: React.FC<VariantFormModalProps> = ({
+  visible,
+  parent,
+  onClose,
+  onSaved,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const createVariant = useCreateVariant();
+  const [attributes, setAttributes] = useState<Record<string, string>>({});
+  const [form, setForm] = useState<VariantForm>({
+    barcode: "",
+    costPrice: "",
+    sellingPrice: "",
+    unitsInStock: "",
+  });
+
+  // Start from the parent's prices; most variants only differ slightly
+  useEffect(() => {
+    if (!visible) return;
+    setAttributes({});
+    setForm({
+      barcode: "",
+      costPrice: parent.costPrice ? String(parent.costPrice) : "",
+      sellingPrice: parent.sellingPrice ? String(parent.sellingPrice) : "",
+      unitsInStock: "",
+    });
+  }, [visible, parent.costPrice, parent.sellingPrice]);
+
+  const handleSave = async () => {
+    const variantAttributes = Object.fromEntries(
+      Object.entries(attributes)
+        .map(([key, value]) => [key, value.trim()])
+        .filter(([, value]) => value),
+    );
+    if (Object.keys(variantAttributes).length === 0) {
+      Alert.alert("Error", "Enter a size, colour or flavour for the variant");
+      return;
+    }
+    if (!(Number(form.sellingPrice) > 0)) {
+      Alert.alert("Error", "Please enter a selling price");
+      return;
+    }
+
+    try {
+      const saved = await createVariant.mutateAsync({
+        parentId: parent.id,
+        payload: {
+          variant_attributes: variantAttributes,
+          barcode: form.barcode.trim() || undefined,
+          cost_price: String(Number(form.costPrice) || 0),
+          selling_price: String(Number(form.sellingPrice)),
+          units_in_stock: parseInt(form.unitsInStock, 10) || 0,
+          low_stock_threshold: parent.lowStockThreshold,
+        },
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (error: any) {
+      const message =
+        error?.response?.data?.error ||
+        error?.response?.data?.detail ||
+        "Failed to save variant. Please try again.";
+      Alert.alert("Error", message);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+      >
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>New variant</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {parent.name}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={styles.attributeRow}>
+              {VARIANT_ATTRIBUTES.map((attribute) => (
+                <View key={attribute} style={styles.attributeField}>
+                  <Text style={styles.label}>{attribute}</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="—"
+                    placeholderTextColor={colors.textMuted}
+                    value={attributes[attribute] ?? ""}
+                    onChangeText={(value) =>
+                      setAttributes((prev) => ({ ...prev, [attribute]: value }))
+                    }
+                  />
+                </View>
+              ))}
+            </View>
+
+            {FIELDS.map((field) => (
+              <View key={field.key}>
+                <Text style={styles.label}>{field.label}</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder={field.placeholder}
+                  placeholderTextColor={colors.textMuted}
+                  value={form[field.key]}
+                  onChangeText={(value) =>
+                    setForm((prev) => ({ ...prev, [field.key]: value }))
+                  }
+                  keyboardType={
+                    "keyboardType" in field ? field.keyboardType : "default"
+                  }
+                  autoCapitalize="none"
+                />
+              </View>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              createVariant.isPending && styles.saveButtonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={createVariant.isPending}
+          >
+            {createVariant.isPending ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.saveButtonText}>Save variant</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "90%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    attributeRow: {
+      flexDirection: "row",
+      gap: 10,
+    },
+    attributeField: {
+      flex: 1,
+    },
+    label: {
+      fontSize: 14,
+      fontFamily: "DMSans_500Medium",
+      color: colors.textSecondary,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surfaceMuted,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 15,
+      fontFamily: "DMSans_400Regular",
+      color: colors.text,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 12,
+      paddingVertical: 16,
+      alignItems: "center",
+      marginTop: 20,
+    },
+    saveButtonDisabled: {
+      opacity: 0.6,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
+
+export default VariantFormModal;
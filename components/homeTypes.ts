@@ -40,6 +40,10 @@ export interface Product {
   unitsInStock: number;
   costPrice: number;
   sellingPrice: number;
+  // Carton packaging; prices above are per piece
+  unitsPerCarton?: number;
+  cartonCostPrice?: number;
+  cartonPrice?: number;
   lowStockThreshold: number;
   expiryDate: string;
   supplier: {
@@ -1,9 +1,12 @@
 import { Product } from "@/app/(Main)/Sell";
-import { styles } from "@/src/styles/Sell.styles";
+import { createStyles } from "@/src/styles/Sell.styles";
 import { formatCurrency } from "@/utils/formatters";
+import { getDefaultSaleUnit, getUnitPrice } from "@/utils/units";
+import { getPriceRange, getVariantName } from "@/utils/variants";
 import Feather from "@expo/vector-icons/Feather";
 import React from "react";
 import { Image, ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { useThemedStyles } from "@/hooks/useTheme";
 
 interface CartItem {
   id: string;
@@ -14,6 +17,8 @@ interface AllProductsProps {
   products: Product[];
   filteredProducts: Product[];
   cart: CartItem[];
+  // Variants keyed by parent id; a parent opens the variant picker
+  variantsOf?: Record<string, Product[]>;
   onAddToCart: (productId: string) => void;
   onIncrement: (productId: string) => void;
   onDecrement: (productId: string) => void;
@@ -23,10 +28,12 @@ const AllProducts: React.FC<AllProductsProps> = ({
   products,
   filteredProducts,
   cart,
+  variantsOf = {},
   onAddToCart,
   onIncrement,
   onDecrement,
 }) => {
+  const styles = useThemedStyles(createStyles);
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Feather name="package" size={64} color="#E0E0E0" />
@@ -41,8 +48,10 @@ const AllProducts: React.FC<AllProductsProps> = ({
     if (!product?.id) return null;
 
     const isOutOfStock = product.unitsInStock <= 0;
+    const variants = variantsOf[product.id] ?? [];
+    const priceRange = getPriceRange(variants);
     const cartItem = cart.find((item) => item.id === product.id);
-    const isInCart = !!cartItem;
+    const isInCart = !!cartItem && variants.length === 0;
 
     const source =
       product.image?.uri?.startsWith("http") ||
@@ -55,8 +64,13 @@ const AllProducts: React.FC<AllProductsProps> = ({
         <Image source={source} style={styles.productImage} resizeMode="cover" />
         <View style={styles.productDetails}>
           <Text style={styles.productName} numberOfLines={2}>
-            {product.name}
+            {getVariantName(product)}
           </Text>
+          {variants.length > 0 && (
+            <Text style={styles.variantCount}>
+              {variants.length} options · {product.unitsInStock} in stock
+            </Text>
+          )}
 
           <View style={styles.priceRow}>
             {!isInCart && (
@@ -65,11 +79,20 @@ const AllProducts: React.FC<AllProductsProps> = ({
                 numberOfLines={1}
                 adjustsFontSizeToFit
               >
-                {formatCurrency(product.sellingPrice ?? 0)}
+                {priceRange ? (
+                  `${priceRange.min < priceRange.max ? "from " : ""}${formatCurrency(priceRange.min)}`
+                ) : (
+                  <>
+                    {formatCurrency(
+                      getUnitPrice(product, getDefaultSaleUnit(product)),
+                    )}
+                    {getDefaultSaleUnit(product) === "carton" ? " / ctn" : ""}
+                  </>
+                )}
               </Text>
             )}
 
-            {isInCart ? (
+            {isInCart && cartItem ? (
               <View style={styles.quantityControls}>
                 <TouchableOpacity
                   style={styles.quantityButton}
@@ -1,9 +1,12 @@
-import { styles } from "@/src/styles/Sell.styles";
-import { formatCurrency } from "@/utils/formatters";
+import { createStyles } from "@/src/styles/Sell.styles";
+import { formatCurrency, getFormatLocale } from "@/utils/formatters";
 import Feather from "@expo/vector-icons/Feather";
 import { useRouter } from "expo-router";
-import React from "react";
+import StaffFilter from "@/components/StaffFilter";
+import { getSellers, type SellerFields } from "@/utils/staff";
+import React, { useMemo, useState } from "react";
 import { Image, ScrollView, Text, TouchableOpacity, View } from "react-native";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -16,7 +19,7 @@ export interface SaleItem {
   productImage?: string | null;
 }
 
-export interface Sale {
+export interface Sale extends SellerFields {
   id: string;
   transactionId?: string;
   items: SaleItem[];
@@ -60,7 +63,7 @@ const getDateHeader = (dateString: string): string => {
   if (isSameDay(date, today)) return "Today";
   if (isSameDay(date, yesterday)) return "Yesterday";
 
-  return date.toLocaleDateString("en-GB", {
+  return date.toLocaleDateString(getFormatLocale(), {
     weekday: "long",
     day: "numeric",
     month: "long",
@@ -84,8 +87,8 @@ const formatSaleTime = (dateString: string): string => {
         : day % 10 === 3 && day !== 13
           ? "rd"
           : "th";
-  const month = date.toLocaleDateString("en-US", { month: "long" });
-  const time = date.toLocaleTimeString("en-US", {
+  const month = date.toLocaleDateString(getFormatLocale(), { month: "long" });
+  const time = date.toLocaleTimeString(getFormatLocale(), {
     hour: "2-digit",
     minute: "2-digit",
     hour12: false,
@@ -96,6 +99,8 @@ const formatSaleTime = (dateString: string): string => {
 // ─── Sub-components ───────────────────────────────────────────────────────────
 
 const SaleCard: React.FC<{ sale: Sale }> = ({ sale }) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
   const router = useRouter();
   const paymentColor = getPaymentColor(sale.paymentMethod);
   const firstItem = sale.items[0];
@@ -141,7 +146,10 @@ const SaleCard: React.FC<{ sale: Sale }> = ({ sale }) => {
         />
       ) : (
         <View
-          style={[styles.saleThumbPlaceholder, { backgroundColor: "#1155CC" }]}
+          style={[
+            styles.saleThumbPlaceholder,
+            { backgroundColor: colors.primary },
+          ]}
         >
           <Text style={styles.saleThumbInitial}>{initial}</Text>
         </View>
@@ -186,8 +194,20 @@ const SaleCard: React.FC<{ sale: Sale }> = ({ sale }) => {
 
 // ─── Main Component ───────────────────────────────────────────────────────────
 
-const SalesHistory: React.FC<SalesHistoryProps> = ({ sales }) => {
-  if (sales.length === 0) {
+const SalesHistory: React.FC<SalesHistoryProps> = ({ sales: allSales }) => {
+  const styles = useThemedStyles(createStyles);
+  const [sellerId, setSellerId] = useState<string | null>(null);
+  const sellers = useMemo(() => getSellers(allSales), [allSales]);
+  // A search can drop the chosen seller's sales; fall back to everyone then
+  const activeSellerId =
+    sellers.length > 1 && sellers.some((seller) => seller.id === sellerId)
+      ? sellerId
+      : null;
+  const sales = activeSellerId
+    ? allSales.filter((sale) => sale.soldById === activeSellerId)
+    : allSales;
+
+  if (allSales.length === 0) {
     return (
       <ScrollView
         style={styles.productsContainer}
@@ -225,6 +245,11 @@ const SalesHistory: React.FC<SalesHistoryProps> = ({ sales }) => {
       contentContainerStyle={styles.scrollContent}
     >
       <View style={styles.historyContainer}>
+        <StaffFilter
+          sellers={sellers}
+          selected={activeSellerId}
+          onSelect={setSellerId}
+        />
         {Array.from(groupMap.values()).map(
           ({ header, sales: salesForDate }) => (
             <View key={header} style={styles.dateGroup}>
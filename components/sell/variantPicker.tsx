@@ -0,0 +1,169 @@
+import { Product } from "@/app/(Main)/Sell";
+import { formatCurrency } from "@/utils/formatters";
+import { getVariantLabel } from "@/utils/variants";
+import Feather from "@expo/vector-icons/Feather";
+import React from "react";
+import {
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import type { ThemeColors } from "@/constants/theme";
+import { useTheme, useThemedStyles } from "@/hooks/useTheme";
+
+interface CartItem {
+  id: string;
+  quantity: number;
+}
+
+interface VariantPickerProps {
+  product: Product | null;
+  variants: Product[];
+  cart: CartItem[];
+  onSelect: (variant: Product) => void;
+  onClose: () => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({
+  product,
+  variants,
+  cart,
+  onSelect,
+  onClose,
+}) => {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <Modal
+      visible={!!product}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.overlay}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+          <View style={styles.header}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.title}>Choose an option</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {product?.name}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Feather name="x" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {variants.map((variant) => {
+              const isOutOfStock = variant.unitsInStock <= 0;
+              const inCart =
+                cart.find((item) => item.id === variant.id)?.quantity ?? 0;
+
+              return (
+                <TouchableOpacity
+                  key={variant.id}
+                  style={[styles.option, isOutOfStock && styles.optionDisabled]}
+                  onPress={() => onSelect(variant)}
+                  disabled={isOutOfStock}
+                  activeOpacity={0.7}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.optionLabel}>
+                      {getVariantLabel(variant.variantAttributes) ||
+                        variant.name}
+                    </Text>
+                    <Text style={styles.optionMeta}>
+                      {isOutOfStock
+                        ? "Out of stock"
+                        : `${variant.unitsInStock} in stock`}
+                      {inCart > 0 ? ` · ${inCart} in cart` : ""}
+                    </Text>
+                  </View>
+                  <Text style={styles.optionPrice}>
+                    {formatCurrency(variant.sellingPrice)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "flex-end",
+    },
+    sheet: {
+      maxHeight: "70%",
+      backgroundColor: colors.surface,
+      borderTopLeftRadius: 20,
+      borderTopRightRadius: 20,
+      paddingHorizontal: 20,
+      paddingTop: 20,
+      paddingBottom: 32,
+    },
+    header: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 20,
+      fontFamily: "DMSans_700Bold",
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    closeButton: {
+      padding: 4,
+    },
+    option: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      paddingVertical: 14,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    optionDisabled: {
+      opacity: 0.5,
+    },
+    optionLabel: {
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+      color: colors.text,
+    },
+    optionMeta: {
+      fontSize: 13,
+      fontFamily: "DMSans_400Regular",
+      color: colors.textMuted,
+      marginTop: 2,
+    },
+    optionPrice: {
+      fontSize: 16,
+      fontFamily: "DMSans_700Bold",
+      color: colors.primary,
+    },
+  });
+
+export default VariantPicker;
@@ -1,6 +1,8 @@
 import { Ionicons } from "@expo/vector-icons";
 import React from "react";
 import { Modal, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import type { ThemeColors } from "@/constants/theme";
+import { useThemedStyles } from "@/hooks/useTheme";
 
 interface SuccessModalProps {
   visible: boolean;
@@ -20,82 +22,87 @@ const SuccessModal: React.FC<SuccessModalProps> = ({
   iconColor = "#1BC47D",
   buttonText = "OK",
   onClose,
-}) => (
-  <Modal
-    visible={visible}
-    transparent
-    animationType="fade"
-    onRequestClose={onClose}
-  >
-    <View style={styles.overlay}>
-      <View style={styles.card}>
-        <View style={styles.iconWrap}>
-          <Ionicons name={iconName} size={36} color={iconColor} />
+}) => {
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.card}>
+          <View style={styles.iconWrap}>
+            <Ionicons name={iconName} size={36} color={iconColor} />
+          </View>
+          <Text style={styles.title}>{title}</Text>
+          {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+          <TouchableOpacity style={styles.button} onPress={onClose}>
+            <Text style={styles.buttonText}>{buttonText}</Text>
+          </TouchableOpacity>
         </View>
-        <Text style={styles.title}>{title}</Text>
-        {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
-        <TouchableOpacity style={styles.button} onPress={onClose}>
-          <Text style={styles.buttonText}>{buttonText}</Text>
-        </TouchableOpacity>
       </View>
-    </View>
-  </Modal>
-);
+    </Modal>
+  );
+};
 
-const styles = StyleSheet.create({
-  overlay: {
-    flex: 1,
-    backgroundColor: "rgba(13, 30, 66, 0.45)",
-    justifyContent: "center",
-    paddingHorizontal: 24,
-  },
-  card: {
-    backgroundColor: "#FFFFFF",
-    borderRadius: 18,
-    paddingHorizontal: 20,
-    paddingVertical: 24,
-    borderWidth: 1,
-    borderColor: "#E4EAF7",
-    alignItems: "center",
-  },
-  iconWrap: {
-    width: 60,
-    height: 60,
-    borderRadius: 30,
-    backgroundColor: "#E6F9F2",
-    alignItems: "center",
-    justifyContent: "center",
-    marginBottom: 16,
-  },
-  title: {
-    fontSize: 20,
-    color: "#1A1A1A",
-    fontFamily: "DMSans_700Bold",
-    textAlign: "center",
-    marginBottom: 8,
-  },
-  subtitle: {
-    fontSize: 15,
-    color: "#5F6778",
-    fontFamily: "DMSans_400Regular",
-    textAlign: "center",
-    lineHeight: 22,
-    marginBottom: 20,
-  },
-  button: {
-    backgroundColor: "#1BC47D",
-    borderRadius: 12,
-    paddingVertical: 13,
-    paddingHorizontal: 32,
-    alignItems: "center",
-    justifyContent: "center",
-    marginTop: 8,
-  },
-  buttonText: {
-    color: "#FFFFFF",
-    fontSize: 16,
-    fontFamily: "DMSans_600SemiBold",
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: colors.overlay,
+      justifyContent: "center",
+      paddingHorizontal: 24,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 18,
+      paddingHorizontal: 20,
+      paddingVertical: 24,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: "center",
+    },
+    iconWrap: {
+      width: 60,
+      height: 60,
+      borderRadius: 30,
+      backgroundColor: colors.successSoft,
+      alignItems: "center",
+      justifyContent: "center",
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 20,
+      color: colors.text,
+      fontFamily: "DMSans_700Bold",
+      textAlign: "center",
+      marginBottom: 8,
+    },
+    subtitle: {
+      fontSize: 15,
+      color: colors.textSecondary,
+      fontFamily: "DMSans_400Regular",
+      textAlign: "center",
+      lineHeight: 22,
+      marginBottom: 20,
+    },
+    button: {
+      backgroundColor: "#1BC47D",
+      borderRadius: 12,
+      paddingVertical: 13,
+      paddingHorizontal: 32,
+      alignItems: "center",
+      justifyContent: "center",
+      marginTop: 8,
+    },
+    buttonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontFamily: "DMSans_600SemiBold",
+    },
+  });
 
 export default SuccessModal;
@@ -7,6 +7,7 @@ import {
 } from "react-native";
 
 import { AppFontWeight, FONT_FAMILY } from "@/constants/fonts";
+import { useTheme } from "@/hooks/useTheme";
 
 interface TextProps extends RNTextProps {
   fontWeight?: AppFontWeight;
@@ -17,10 +18,14 @@ export const Text: React.FC<TextProps> = ({
   fontWeight = "regular",
   ...props
 }) => {
+  const { colors } = useTheme();
   const fontFamily = FONT_FAMILY[fontWeight];
 
   return (
-    <RNText style={StyleSheet.flatten([{ fontFamily }, style])} {...props} />
+    <RNText
+      style={StyleSheet.flatten([{ fontFamily, color: colors.text }, style])}
+      {...props}
+    />
   );
 };
 
@@ -7,6 +7,7 @@ import {
 } from "react-native";
 
 import { AppFontWeight, FONT_FAMILY } from "@/constants/fonts";
+import { useTheme } from "@/hooks/useTheme";
 
 interface TextInputProps extends RNTextInputProps {
   fontWeight?: AppFontWeight;
@@ -17,11 +18,13 @@ export const TextInput: React.FC<TextInputProps> = ({
   fontWeight = "regular",
   ...props
 }) => {
+  const { colors } = useTheme();
   const fontFamily = FONT_FAMILY[fontWeight];
 
   return (
     <RNTextInput
-      style={StyleSheet.flatten([{ fontFamily }, style])}
+      style={StyleSheet.flatten([{ fontFamily, color: colors.text }, style])}
+      placeholderTextColor={colors.textMuted}
       {...props}
     />
   );
@@ -0,0 +1,158 @@
+export interface CurrencyOption {
+  code: string;
+  label: string;
+  symbol: string;
+  // Stand-in for receipt printers that only print ASCII
+  asciiSymbol: string;
+  // Minor units shown after the decimal point (ISO 4217)
+  decimals: number;
+  // Calling code of the one country using it; absent for shared currencies
+  dialCode?: string;
+}
+
+export interface LocaleOption {
+  code: string;
+  label: string;
+  groupSeparator: string;
+  decimalSeparator: string;
+  // Calling code of the locale's country, e.g. "234" for Nigeria
+  dialCode: string;
+}
+
+export const CURRENCIES: CurrencyOption[] = [
+  {
+    code: "NGN",
+    label: "Nigerian naira",
+    symbol: "₦",
+    asciiSymbol: "N",
+    decimals: 2,
+    dialCode: "234",
+  },
+  {
+    code: "GHS",
+    label: "Ghanaian cedi",
+    symbol: "GH₵",
+    asciiSymbol: "GHS ",
+    decimals: 2,
+    dialCode: "233",
+  },
+  {
+    code: "KES",
+    label: "Kenyan shilling",
+    symbol: "KSh ",
+    asciiSymbol: "KSh ",
+    decimals: 2,
+    dialCode: "254",
+  },
+  {
+    code: "UGX",
+    label: "Ugandan shilling",
+    symbol: "USh ",
+    asciiSymbol: "USh ",
+    decimals: 0,
+    dialCode: "256",
+  },
+  {
+    code: "TZS",
+    label: "Tanzanian shilling",
+    symbol: "TSh ",
+    asciiSymbol: "TSh ",
+    decimals: 2,
+    dialCode: "255",
+  },
+  {
+    code: "RWF",
+    label: "Rwandan franc",
+    symbol: "FRw ",
+    asciiSymbol: "FRw ",
+    decimals: 0,
+    dialCode: "250",
+  },
+  {
+    code: "XOF",
+    label: "West African CFA franc",
+    symbol: "CFA ",
+    asciiSymbol: "CFA ",
+    decimals: 0,
+  },
+  {
+    code: "ZAR",
+    label: "South African rand",
+    symbol: "R",
+    asciiSymbol: "R",
+    decimals: 2,
+    dialCode: "27",
+  },
+  {
+    code: "USD",
+    label: "US dollar",
+    symbol: "$",
+    asciiSymbol: "$",
+    decimals: 2,
+  },
+  {
+    code: "GBP",
+    label: "British pound",
+    symbol: "£",
+    asciiSymbol: "GBP ",
+    decimals: 2,
+    dialCode: "44",
+  },
+  { code: "EUR", label: "Euro", symbol: "€", asciiSymbol: "EUR ", decimals: 2 },
+];
+
+export const LOCALES: LocaleOption[] = [
+  {
+    code: "en-NG",
+    label: "English (Nigeria)",
+    groupSeparator: ",",
+    decimalSeparator: ".",
+    dialCode: "234",
+  },
+  {
+    code: "en-GH",
+    label: "English (Ghana)",
+    groupSeparator: ",",
+    decimalSeparator: ".",
+    dialCode: "233",
+  },
+  {
+    code: "en-KE",
+    label: "English (Kenya)",
+    groupSeparator: ",",
+    decimalSeparator: ".",
+    dialCode: "254",
+  },
+  {
+    code: "en-US",
+    label: "English (US)",
+    groupSeparator: ",",
+    decimalSeparator: ".",
+    dialCode: "1",
+  },
+  {
+    code: "en-GB",
+    label: "English (UK)",
+    groupSeparator: ",",
+    decimalSeparator: ".",
+    dialCode: "44",
+  },
+  {
+    code: "fr-SN",
+    label: "Français (Sénégal)",
+    groupSeparator: " ",
+    decimalSeparator: ",",
+    dialCode: "221",
+  },
+];
+
+export const DEFAULT_CURRENCY = "NGN";
+export const DEFAULT_LOCALE = "en-NG";
+
+export const getCurrencyOption = (code?: string | null): CurrencyOption =>
+  CURRENCIES.find((option) => option.code === code) ??
+  CURRENCIES.find((option) => option.code === DEFAULT_CURRENCY)!;
+
+export const getLocaleOption = (code?: string | null): LocaleOption =>
+  LOCALES.find((option) => option.code === code) ??
+  LOCALES.find((option) => option.code === DEFAULT_LOCALE)!;
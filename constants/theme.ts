@@ -1,30 +1,86 @@
 /**
- * Below are the colors that are used in the app. The colors are defined in the light and dark mode.
- * There are many other ways to style your app. For example, [Nativewind](https://www.nativewind.dev/), [Tamagui](https://tamagui.dev/), [unistyles](https://reactnativeunistyles.vercel.app), etc.
+ * Colour tokens for the light and dark themes. Screens read these through
+ * `useTheme()` / `useThemedStyles()` rather than hard-coding hex values, so
+ * the scheme and the accent colour chosen in Settings apply everywhere.
  */
 
-const tintColorLight = "#0a7ea4";
-const tintColorDark = "#fff";
+export const DEFAULT_ACCENT = "#1155CC";
+
+// Accent colours offered in Settings
+export const ACCENT_COLORS: { label: string; value: string }[] = [
+  { label: "Blue", value: DEFAULT_ACCENT },
+  { label: "Purple", value: "#6D28D9" },
+  { label: "Green", value: "#0F9D58" },
+  { label: "Orange", value: "#E8590C" },
+  { label: "Pink", value: "#D6336C" },
+];
 
 export const Colors = {
   light: {
-    text: "#11181C",
-    background: "#fff",
-    tint: tintColorLight,
+    text: "#0A0A0A",
+    textSecondary: "#6B7280",
+    textMuted: "#8E8E93",
+    background: "#E7EEFA",
+    surface: "#FFFFFF",
+    surfaceMuted: "#F5F7FA",
+    border: "#E5E7EB",
+    overlay: "rgba(0, 0, 0, 0.5)",
+    successSoft: "#D1FAE5",
+    dangerSoft: "#FDEBE9",
+    warningSoft: "#FFEDD4",
+    // Status text and icons: losses, gains and things needing attention
+    danger: "#E74C3C",
+    success: "#27AE60",
+    warning: "#D97706",
+    onPrimary: "#FFFFFF",
+    tint: DEFAULT_ACCENT,
     icon: "#687076",
-    tabIconDefault: "#687076",
-    tabIconSelected: tintColorLight,
+    tabIconDefault: "#9CA3AF",
+    tabIconSelected: DEFAULT_ACCENT,
   },
   dark: {
-    text: "#ECEDEE",
-    background: "#151718",
-    tint: tintColorDark,
+    text: "#F3F4F6",
+    textSecondary: "#9CA3AF",
+    textMuted: "#6B7280",
+    background: "#0B1220",
+    surface: "#161E2E",
+    surfaceMuted: "#1F2937",
+    border: "#2A3445",
+    overlay: "rgba(0, 0, 0, 0.7)",
+    successSoft: "#0F2E24",
+    dangerSoft: "#3A1A1A",
+    warningSoft: "#3A2A12",
+    danger: "#F87171",
+    success: "#34D399",
+    warning: "#FBBF24",
+    onPrimary: "#FFFFFF",
+    tint: DEFAULT_ACCENT,
     icon: "#9BA1A6",
-    tabIconDefault: "#9BA1A6",
-    tabIconSelected: tintColorDark,
+    tabIconDefault: "#6B7280",
+    tabIconSelected: DEFAULT_ACCENT,
   },
 };
 
+export type ColorScheme = keyof typeof Colors;
+
+export type ThemeColors = (typeof Colors)["light"] & {
+  primary: string;
+  // Accent at low opacity, for selected rows and tinted icon badges
+  primarySoft: string;
+};
+
+/** Palette for a scheme with the user's accent colour swapped in. */
+export const getThemeColors = (
+  scheme: ColorScheme,
+  accent: string = DEFAULT_ACCENT,
+): ThemeColors => ({
+  ...Colors[scheme],
+  tint: accent,
+  tabIconSelected: accent,
+  primary: accent,
+  primarySoft: `${accent}${scheme === "dark" ? "33" : "1A"}`,
+});
+
 export const Fonts = {
   sans: "DMSans_400Regular",
   serif: "DMSans_400Regular",
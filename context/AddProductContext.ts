@@ -3,10 +3,13 @@ import React from "react";
 
 interface AddProductContextType {
   openAddProduct: () => void;
+  // Skip the search/manual choice and open the form with the barcode filled in
+  openAddProductWithBarcode: (barcode: string) => void;
   openRestockProduct: (product: Product) => void;
 }
 
 export const AddProductContext = React.createContext<AddProductContextType>({
   openAddProduct: () => {},
+  openAddProductWithBarcode: () => {},
   openRestockProduct: () => {},
 });
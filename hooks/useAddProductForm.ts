@@ -4,7 +4,9 @@ import {
     PRODUCTS_USER_INVENTORY_ITEM,
 } from "@/src/api/endpoints";
 import { MULTIPART_CONFIG, readImage, toFormData } from "@/src/api/formData";
-import { createRestock } from "@/src/api/products";
+import { createRestock, createStockAdjustment } from "@/src/api/products";
+import { mapPackaging, splitCartons } from "@/utils/units";
+import { mapVariant } from "@/utils/variants";
 import { useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
 import { Alert } from "react-native";
@@ -27,6 +29,13 @@ export interface Product {
   unitsInStock: number;
   costPrice: number;
   sellingPrice: number;
+  // Carton packaging; prices above are per piece
+  unitsPerCarton?: number;
+  cartonCostPrice?: number;
+  cartonPrice?: number;
+  // Set on variants; the parent carries the shared name and category
+  parentId?: string;
+  variantAttributes?: Record<string, string>;
   lowStockThreshold: number;
   expiryDate: string;
   supplier: {
@@ -57,6 +66,8 @@ export interface FormData {
     month: string;
     year: string;
   };
+  // Batch or lot printed on the delivery, tracked per restock
+  lotNumber: string;
   supplier: {
     name: string;
     phone: string;
@@ -66,6 +77,8 @@ export interface FormData {
   costPricePerCarton: string;
   sellingPricePerCarton: string;
   sellingPricePerUnit: string;
+  // Pieces left over from a broken carton when editing a carton product
+  loosePieces: string;
 }
 
 export interface ImageAsset {
@@ -89,12 +102,50 @@ const INITIAL_FORM: FormData = {
   sellingPrice: "",
   lowStockThreshold: "",
   expiryDate: { day: "", month: "", year: "" },
+  lotNumber: "",
   supplier: { name: "", phone: "" },
   unitsPerCarton: "",
   numberOfCartons: "",
   costPricePerCarton: "",
   sellingPricePerCarton: "",
   sellingPricePerUnit: "",
+  loosePieces: "",
+};
+
+const toPrice = (value: number) => String(Math.round(value * 100) / 100);
+
+/** Pieces entered on the pricing step: loose items, or cartons × size. */
+const getEnteredUnits = (formData: FormData): number =>
+  formData.quantityType === "Single Items"
+    ? parseInt(formData.numberOfItems) || 0
+    : (parseInt(formData.numberOfCartons) || 0) *
+      (parseInt(formData.unitsPerCarton) || 1);
+
+/**
+ * Stock is stored in pieces, so carton products send per-piece prices and
+ * keep the carton figures alongside for checkout to honour.
+ */
+const getPiecePricing = (formData: FormData) => {
+  if (formData.quantityType === "Single Items") {
+    return {
+      cost_price: formData.costPrice || "0",
+      selling_price: formData.sellingPrice || "0",
+    };
+  }
+  const unitsPerCarton = parseInt(formData.unitsPerCarton) || 1;
+  const cartonCost = parseFloat(formData.costPricePerCarton) || 0;
+  const cartonPrice = parseFloat(formData.sellingPricePerCarton) || 0;
+  const piecePrice =
+    formData.quantityType === "Both"
+      ? parseFloat(formData.sellingPricePerUnit) || 0
+      : cartonPrice / unitsPerCarton;
+  return {
+    cost_price: toPrice(cartonCost / unitsPerCarton),
+    selling_price: toPrice(piecePrice),
+    units_per_carton: unitsPerCarton,
+    carton_cost_price: toPrice(cartonCost),
+    carton_selling_price: toPrice(cartonPrice),
+  };
 };
 
 interface AddProductFormOptions {
@@ -112,9 +163,13 @@ export function useAddProductForm(
   const [formData, setFormData] = useState<FormData>(INITIAL_FORM);
   const [saving, setSaving] = useState(false);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
+  // Stock when editing began; a changed count is logged as a correction
+  const [originalUnits, setOriginalUnits] = useState<number | null>(null);
 
   const invalidateInventoryQueries = async () => {
     await queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+    await queryClient.invalidateQueries({ queryKey: ["restocks"] });
+    await queryClient.invalidateQueries({ queryKey: ["stock-adjustments"] });
   };
 
   const updateFormData = (field: string, value: string | ImageAsset | null) => {
@@ -138,7 +193,10 @@ export function useAddProductForm(
   };
 
   const populateFromProduct = (product: Product) => {
+    const unitsPerCarton = product.unitsPerCarton ?? 0;
+    const split = splitCartons(product.unitsInStock, unitsPerCarton);
     const rawExpiry = product.expiryDate || "";
+    setOriginalUnits(product.unitsInStock);
     let day = "";
     let month = "";
     let year = "";
@@ -167,12 +225,30 @@ export function useAddProductForm(
       sellingPrice: product.sellingPrice.toString(),
       lowStockThreshold: product.lowStockThreshold.toString(),
       expiryDate: { day, month, year },
+      // Each delivery is its own batch, so the lot is never carried over
+      lotNumber: "",
       supplier: product.supplier,
-      unitsPerCarton: "",
-      numberOfCartons: "",
-      costPricePerCarton: "",
-      sellingPricePerCarton: "",
-      sellingPricePerUnit: "",
+      ...(unitsPerCarton > 1
+        ? {
+            unitsPerCarton: String(unitsPerCarton),
+            numberOfCartons: String(split.cartons),
+            costPricePerCarton: String(
+              product.cartonCostPrice ?? product.costPrice * unitsPerCarton,
+            ),
+            sellingPricePerCarton: String(
+              product.cartonPrice ?? product.sellingPrice * unitsPerCarton,
+            ),
+            sellingPricePerUnit: product.sellingPrice.toString(),
+            loosePieces: String(split.pieces),
+          }
+        : {
+            unitsPerCarton: "",
+            numberOfCartons: "",
+            costPricePerCarton: "",
+            sellingPricePerCarton: "",
+            sellingPricePerUnit: "",
+            loosePieces: "",
+          }),
     });
   };
 
@@ -246,31 +322,21 @@ export function useAddProductForm(
               ).padStart(2, "0")}`
             : undefined;
 
-        const quantityAdded =
-          parseInt(formData.numberOfItems) ||
-          parseInt(formData.numberOfCartons) ||
-          0;
-        const buyingPrice =
-          formData.costPrice || formData.costPricePerCarton || "0";
-        const sellingPrice =
-          formData.sellingPrice ||
-          formData.sellingPricePerCarton ||
-          formData.sellingPricePerUnit ||
-          "0";
+        const pricing = getPiecePricing(formData);
 
         await createRestock({
+          ...pricing,
           inventoryId: Number(options.restockInventoryId),
-          quantity_added: quantityAdded,
-          buying_price: buyingPrice,
+          quantity_added: getEnteredUnits(formData),
+          buying_price: pricing.cost_price,
           supplier: 0,
           supplier_name: formData.supplier.name || "",
           quantity_type: formData.quantityType || "Single Items",
-          cost_price: buyingPrice,
-          selling_price: sellingPrice,
           low_stock_threshold: parseInt(formData.lowStockThreshold) || 0,
           supplier_phone: formData.supplier.phone || "",
           date_arrived: today,
           expiry_date: expiryDate,
+          lot_number: formData.lotNumber.trim() || undefined,
           notes: "Restocked via app",
         });
 
@@ -289,20 +355,31 @@ export function useAddProductForm(
               ).padStart(2, "0")}`
             : undefined;
 
+        const pricing = getPiecePricing(formData);
+        const unitsInStock =
+          getEnteredUnits(formData) +
+          (formData.quantityType === "Single Items"
+            ? 0
+            : parseInt(formData.loosePieces) || 0);
+
         const editPayload: Record<string, any> = {
+          ...pricing,
           name: formData.productName,
           category: formData.category,
           barcode: formData.barcode || formData.sku || "",
-          units_in_stock: parseInt(formData.numberOfItems) || 0,
           unit_type: formData.quantityType || "Single Items",
-          cost_price: formData.costPrice || "0",
-          selling_price: formData.sellingPrice || "0",
           low_stock_threshold: parseInt(formData.lowStockThreshold) || 0,
           expiry_date: expiryDate,
           supplier_name: formData.supplier.name || "",
           supplier_phone: formData.supplier.phone || "",
         };
 
+        // Stock changes go through the adjustment log rather than a silent
+        // overwrite, so the difference is explained and costed
+        const stockDifference =
+          originalUnits == null ? 0 : unitsInStock - originalUnits;
+        if (originalUnits == null) editPayload.units_in_stock = unitsInStock;
+
         const editEndpoint = normalizeApiPath(
           PRODUCTS_USER_INVENTORY_ITEM(options.editInventoryId),
         );
@@ -335,6 +412,21 @@ export function useAddProductForm(
           updated = data;
         }
 
+        if (stockDifference !== 0) {
+          const adjustment = await createStockAdjustment({
+            inventory: Number(options.editInventoryId),
+            difference: stockDifference,
+            reason: "correction",
+            notes: "Stock edited on the product",
+            unit_cost: String(pricing.cost_price),
+            source: "manual",
+          });
+          updated = {
+            ...updated,
+            units_in_stock: adjustment.new_quantity ?? unitsInStock,
+          };
+        }
+
         await invalidateInventoryQueries();
 
         onSaveProduct({
@@ -350,13 +442,11 @@ export function useAddProductForm(
             updated?.unit_type ||
             formData.quantityType ||
             "Single Items",
-          unitsInStock: Number(
-            updated?.units_in_stock ?? formData.numberOfItems ?? 0,
-          ),
-          costPrice: Number(updated?.cost_price ?? formData.costPrice ?? 0),
-          sellingPrice: Number(
-            updated?.selling_price ?? formData.sellingPrice ?? 0,
-          ),
+          unitsInStock: Number(updated?.units_in_stock ?? unitsInStock),
+          costPrice: Number(updated?.cost_price ?? pricing.cost_price),
+          sellingPrice: Number(updated?.selling_price ?? pricing.selling_price),
+          ...mapPackaging({ ...editPayload, ...updated }),
+          ...mapVariant(updated ?? {}),
           lowStockThreshold: Number(
             updated?.low_stock_threshold ?? formData.lowStockThreshold ?? 0,
           ),
@@ -385,27 +475,19 @@ export function useAddProductForm(
             ).padStart(2, "0")}`
           : undefined;
 
-      const buyingPrice = formData.costPrice || formData.costPricePerCarton || "0";
-      const sellingPrice =
-        formData.sellingPrice ||
-        formData.sellingPricePerCarton ||
-        formData.sellingPricePerUnit ||
-        "0";
-      const unitsInStock =
-        parseInt(formData.numberOfItems) ||
-        (parseInt(formData.numberOfCartons) || 0) *
-          (parseInt(formData.unitsPerCarton) || 1);
+      const pricing = getPiecePricing(formData);
+      const buyingPrice = pricing.cost_price;
 
       const payload: Record<string, any> = {
+        ...pricing,
         name: formData.productName,
         category: formData.category,
         barcode: formData.barcode || formData.sku || "",
-        units_in_stock: unitsInStock,
+        units_in_stock: getEnteredUnits(formData),
         unit_type: formData.quantityType || "Single Items",
-        cost_price: buyingPrice,
-        selling_price: sellingPrice,
         low_stock_threshold: parseInt(formData.lowStockThreshold) || 0,
         expiry_date: expiry,
+        lot_number: formData.lotNumber.trim() || undefined,
         supplier_name: formData.supplier.name || "",
         supplier_phone: formData.supplier.phone || "",
       };
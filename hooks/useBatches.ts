@@ -0,0 +1,34 @@
+import { listAllSales, type ApiSale } from "@/src/api/sales";
+import { computeBatches } from "@/utils/batches";
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { useRefundHistory } from "./useSales";
+import { useAllInventory, useRestockHistory } from "./useSuppliers";
+
+/**
+ * What is left of every delivery, per product, after sales have drawn down
+ * the batches that expire first and restocked returns have gone back.
+ */
+export function useBatches() {
+  const { data: sales = [], isLoading: loadingSales } = useQuery<ApiSale[]>({
+    queryKey: ["sales", "all"],
+    queryFn: () => listAllSales(),
+    staleTime: 60 * 1000,
+  });
+  const { data: restocks = [], isLoading: loadingRestocks } =
+    useRestockHistory();
+  const { data: inventory = [], isLoading: loadingInventory } =
+    useAllInventory();
+  const { data: refunds = [], isLoading: loadingRefunds } = useRefundHistory();
+
+  const batchesByProduct = useMemo(
+    () => computeBatches(restocks, sales, inventory, refunds),
+    [restocks, sales, inventory, refunds],
+  );
+
+  return {
+    batchesByProduct,
+    isLoading:
+      loadingSales || loadingRestocks || loadingInventory || loadingRefunds,
+  };
+}
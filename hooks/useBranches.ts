@@ -0,0 +1,87 @@
+import {
+    createBranch,
+    createStockTransfer,
+    listBranches,
+    listStockTransfers,
+    updateBranch,
+    type ApiBranch,
+    type BranchPayload,
+    type StockTransferPayload,
+} from "@/src/api/branches";
+import useBranchStore from "@/stores/branchStore";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect } from "react";
+
+export function useBranches() {
+  return useQuery<ApiBranch[]>({
+    queryKey: ["branches"],
+    queryFn: listBranches,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * The branch this device works in, and a way to switch. Keeps the stored
+ * choice valid: it falls back to the main branch when nothing is chosen yet
+ * or the chosen branch has been removed.
+ */
+export function useActiveBranch() {
+  const queryClient = useQueryClient();
+  const { data: branches = [], isSuccess } = useBranches();
+  const branchId = useBranchStore((state) => state.branchId);
+  const setBranch = useBranchStore((state) => state.setBranch);
+  const activeBranch = branches.find((branch) => branch.id === branchId);
+
+  const switchBranch = useCallback(
+    (branch: ApiBranch | null) => {
+      if ((branch?.id ?? null) === useBranchStore.getState().branchId) return;
+      setBranch(branch);
+      // Stock, sales and lists all belong to the old branch now
+      queryClient.invalidateQueries();
+    },
+    [setBranch, queryClient],
+  );
+
+  useEffect(() => {
+    if (!isSuccess || activeBranch) return;
+    const fallback =
+      branches.find((branch) => branch.is_main) ?? branches[0] ?? null;
+    if ((fallback?.id ?? null) !== branchId) switchBranch(fallback);
+  }, [isSuccess, activeBranch, branches, branchId, switchBranch]);
+
+  return { branches, activeBranch, switchBranch };
+}
+
+export function useSaveBranch() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: { id?: number; payload: BranchPayload }) =>
+      id ? updateBranch(id, payload) : createBranch(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["branches"] });
+    },
+  });
+}
+
+export function useStockTransfers(inventoryId?: number) {
+  return useQuery({
+    queryKey: ["stock-transfers", inventoryId ?? "all"],
+    queryFn: () =>
+      listStockTransfers(
+        inventoryId ? { inventory: inventoryId } : { page_size: 50 },
+      ),
+  });
+}
+
+// Both branches' stock changes, so every inventory view is refreshed
+export function useCreateStockTransfer() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: StockTransferPayload) => createStockTransfer(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stock-transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
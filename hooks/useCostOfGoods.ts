@@ -0,0 +1,44 @@
+import type { BranchScope } from "@/src/api/branches";
+import { listAllSales, type ApiSale } from "@/src/api/sales";
+import useSettingsStore from "@/stores/settingsStore";
+import { computeSaleLineCosts } from "@/utils/costing";
+import { useQuery } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { useRefundHistory } from "./useSales";
+import { useAllInventory, useRestockHistory } from "./useSuppliers";
+
+/**
+ * Every sale line costed from restock lots using the method chosen in
+ * Settings, so profit doesn't move when a later restock changes cost_price.
+ * Restocked returns go back into the lots they were sold from.
+ * `branch` widens or narrows the figures; the active branch when left out.
+ */
+export function useCostOfGoods(branch?: BranchScope) {
+  const costingMethod = useSettingsStore((state) => state.costingMethod);
+  const { data: sales = [], isLoading: loadingSales } = useQuery<ApiSale[]>({
+    queryKey: ["sales", "all", branch],
+    queryFn: () => listAllSales({ branch }),
+    staleTime: 60 * 1000,
+  });
+  const { data: restocks = [], isLoading: loadingRestocks } =
+    useRestockHistory(branch);
+  const { data: inventory = [], isLoading: loadingInventory } =
+    useAllInventory(branch);
+  const { data: refunds = [], isLoading: loadingRefunds } =
+    useRefundHistory(branch);
+
+  const lineCosts = useMemo(
+    () =>
+      computeSaleLineCosts(sales, restocks, costingMethod, inventory, refunds),
+    [sales, restocks, costingMethod, inventory, refunds],
+  );
+
+  return {
+    costingMethod,
+    sales,
+    refunds,
+    lineCosts,
+    isLoading:
+      loadingSales || loadingRestocks || loadingInventory || loadingRefunds,
+  };
+}
@@ -0,0 +1,24 @@
+import { listAllSales } from "@/src/api/sales";
+import { buildCustomerDirectory, type Customer } from "@/utils/customers";
+import { useQuery } from "@tanstack/react-query";
+
+/**
+ * Customer directory derived from every sale that carries a customer name or
+ * phone. Keyed under "sales" so a new sale refreshes it.
+ */
+export function useCustomers() {
+  return useQuery<Customer[]>({
+    queryKey: ["sales", "customers"],
+    queryFn: async () => buildCustomerDirectory(await listAllSales()),
+    staleTime: 60 * 1000,
+  });
+}
+
+/** One customer from the directory, looked up by key. */
+export function useCustomer(key?: string) {
+  const query = useCustomers();
+  return {
+    ...query,
+    customer: query.data?.find((c) => c.key === key),
+  };
+}
@@ -0,0 +1,90 @@
+import { listAllExpenses } from "@/src/api/expenses";
+import { listAllUserInventory } from "@/src/api/products";
+import { listAllSales } from "@/src/api/sales";
+import {
+    buildExpensesTable,
+    buildInventoryTable,
+    buildSalesTable,
+    writeExportFile,
+    type ExportDataset,
+    type ExportFormat,
+    type ExportTable,
+} from "@/utils/dataExport";
+import { isWithinRange, toDateKey, type DateRange } from "@/utils/dateRanges";
+import * as Sharing from "expo-sharing";
+import { useCallback, useState } from "react";
+import { Alert } from "react-native";
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+const UTIS: Record<ExportFormat, string> = {
+  csv: "public.comma-separated-values-text",
+  xlsx: "org.openxmlformats.spreadsheetml.sheet",
+};
+
+// Inventory is a snapshot of today; sales and expenses are limited to the range
+const loadTable = async (
+  dataset: ExportDataset,
+  range: DateRange,
+): Promise<ExportTable> => {
+  if (dataset === "inventory") {
+    return buildInventoryTable(await listAllUserInventory());
+  }
+  if (dataset === "sales") {
+    const sales = await listAllSales();
+    return buildSalesTable(
+      sales.filter((sale) =>
+        isWithinRange(sale.sale_date || sale.created_at, range),
+      ),
+    );
+  }
+  const expenses = await listAllExpenses();
+  return buildExpensesTable(
+    expenses.filter((expense) => isWithinRange(expense.date, range)),
+  );
+};
+
+/** Download a dataset as CSV or XLSX and hand it to the share sheet. */
+export const useDataExport = () => {
+  const [exporting, setExporting] = useState(false);
+
+  const exportData = useCallback(
+    async (dataset: ExportDataset, format: ExportFormat, range: DateRange) => {
+      if (exporting) return;
+      try {
+        setExporting(true);
+        const table = await loadTable(dataset, range);
+        if (table.length <= 1) {
+          Alert.alert("Nothing to export", "No records match this range.");
+          return;
+        }
+
+        const baseName =
+          dataset === "inventory"
+            ? `inventory-${toDateKey(new Date())}`
+            : `${dataset}-${toDateKey(range.from)}-to-${toDateKey(range.to)}`;
+        const uri = writeExportFile(table, baseName, format, dataset);
+
+        if (!(await Sharing.isAvailableAsync())) {
+          Alert.alert("Error", "Sharing is not available on this device.");
+          return;
+        }
+        await Sharing.shareAsync(uri, {
+          mimeType: MIME_TYPES[format],
+          dialogTitle: `Export ${dataset}`,
+          UTI: UTIS[format],
+        });
+      } catch {
+        Alert.alert("Error", "Failed to export data. Please try again.");
+      } finally {
+        setExporting(false);
+      }
+    },
+    [exporting],
+  );
+
+  return { exporting, exportData };
+};
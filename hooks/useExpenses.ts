@@ -0,0 +1,53 @@
+import {
+    createExpense,
+    deleteExpense,
+    listExpenses,
+    updateExpense,
+    type ApiExpense,
+    type ExpensePayload,
+} from "@/src/api/expenses";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+type ReceiptImage = { uri: string; type?: string; fileName?: string } | null;
+
+export function useExpenses(period?: string) {
+  return useQuery<ApiExpense[]>({
+    queryKey: ["expenses", period ?? "all"],
+    queryFn: () => listExpenses(period ? { period } : undefined),
+  });
+}
+
+// Create when there is no id, otherwise update. Finance figures depend on
+// expenses, so those queries are refreshed too.
+export function useSaveExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      id,
+      payload,
+      receipt,
+    }: {
+      id?: number;
+      payload: ExpensePayload;
+      receipt?: ReceiptImage;
+    }) =>
+      id
+        ? updateExpense(id, payload, receipt)
+        : createExpense(payload, receipt),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["finance-summary"] });
+    },
+  });
+}
+
+export function useDeleteExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => deleteExpense(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["finance-summary"] });
+    },
+  });
+}
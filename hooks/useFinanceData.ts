@@ -1,8 +1,24 @@
+import type { BranchScope } from "@/src/api/branches";
 import { apiClient } from "@/src/api/client";
 import * as endpoints from "@/src/api/endpoints";
+import { listExpenses } from "@/src/api/expenses";
+import { listStockAdjustments } from "@/src/api/products";
+import { listRefunds } from "@/src/api/sales";
+import { sumSalesByBranch } from "@/utils/branches";
+import { sumCostOfGoods, sumRefunds } from "@/utils/costing";
+import {
+    formatRangeLabel,
+    getPreviousRange,
+    toRangeParams,
+    type DateRange,
+    type DateRangePreset,
+} from "@/utils/dateRanges";
+import { sumStockLosses } from "@/utils/stockAdjustments";
 import { useQuery } from "@tanstack/react-query";
 import { useMemo } from "react";
-import { ChartData, Period } from "../app/types/finance.types";
+import { ChartData } from "../app/types/finance.types";
+import { useBranches } from "./useBranches";
+import { useCostOfGoods } from "./useCostOfGoods";
 
 const DEFAULT_CHART_DATA: ChartData = {
   labels: ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"],
@@ -20,23 +36,58 @@ const DEFAULT_CHART_DATA: ChartData = {
   ],
 };
 
-export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
-  // Map UI period to API period
-  const period = useMemo(() => {
-    if (selectedPeriod === "Today") return "today";
-    if (selectedPeriod === "Week") return "week";
-    return "month";
-  }, [selectedPeriod]);
+// Percentage change against the previous range, to one decimal place
+const percentChange = (current: number, previous: number): number =>
+  previous
+    ? Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10
+    : 0;
+
+const fetchSummary = async (params: Record<string, string>) => {
+  const res = await apiClient.get(endpoints.PRODUCTS_FINANCE_SUMMARY, {
+    params,
+  });
+  return res.data;
+};
+
+// Scope a request to one branch or all of them; the active branch otherwise
+const withBranch = <T extends object>(params: T, branch?: BranchScope) =>
+  branch != null ? { ...params, branch: String(branch) } : params;
+
+/**
+ * Everything the Finance tab shows for `range`, compared with the range just
+ * before it. `preset` picks the comparison for calendar presets (this month
+ * against the same days last month rather than the previous N days).
+ * `branch` reports on one branch, or every branch added up with "all".
+ */
+export const useFinanceData = (
+  range: DateRange,
+  selectedDate: Date,
+  preset?: DateRangePreset | null,
+  branch?: BranchScope,
+) => {
+  // Every finance endpoint takes the same inclusive start_date/end_date
+  const rangeParams = useMemo(
+    () => withBranch(toRangeParams(range), branch),
+    [range, branch],
+  );
+  const previousRange = useMemo(
+    () => getPreviousRange(range, preset),
+    [range, preset],
+  );
+  const previousParams = useMemo(
+    () => withBranch(toRangeParams(previousRange), branch),
+    [previousRange, branch],
+  );
 
   // Daily summary (with ?date=YYYY-MM-DD)
 
   const { data: dailySummaryRaw, isLoading: loadingDaily } = useQuery({
-    queryKey: ["finance-daily-summary", selectedDate],
+    queryKey: ["finance-daily-summary", selectedDate, branch],
     queryFn: async () => {
       const dateStr = selectedDate.toISOString().split("T")[0];
       const res = await apiClient.get(
         endpoints.PRODUCTS_FINANCE_DAILY_SUMMARY,
-        { params: { date: dateStr } },
+        { params: withBranch({ date: dateStr }, branch) },
       );
       return res.data;
     },
@@ -57,30 +108,154 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
         itemsSold: 0,
       };
 
-  // Finance summary (with ?period=)
+  // Finance summary for the range and the one before it
 
   const { data: financialSummaryRaw, isLoading: loadingSummary } = useQuery({
-    queryKey: ["finance-summary", period],
-    queryFn: async () => {
-      const res = await apiClient.get(endpoints.PRODUCTS_FINANCE_SUMMARY, {
-        params: { period },
-      });
-      return res.data;
-    },
+    queryKey: ["finance-summary", rangeParams],
+    queryFn: () => fetchSummary(rangeParams),
+  });
+
+  const { data: previousSummaryRaw } = useQuery({
+    queryKey: ["finance-summary", previousParams],
+    queryFn: () => fetchSummary(previousParams),
+  });
+
+  // Returns in the same range
+  const { data: refunds, isLoading: loadingRefunds } = useQuery({
+    queryKey: ["finance-refunds", rangeParams],
+    queryFn: () => listRefunds(rangeParams),
   });
 
+  const totalRefunds = (refunds ?? []).reduce(
+    (sum, refund) => sum + Number(refund.amount || 0),
+    0,
+  );
+  const serverRefundedProfit = (refunds ?? []).reduce(
+    (sum, refund) => sum + Number(refund.profit || 0),
+    0,
+  );
+
+  // Expenses in the same range, deducted from profit
+  const { data: expenses, isLoading: loadingExpenses } = useQuery({
+    queryKey: ["expenses", rangeParams],
+    queryFn: () => listExpenses(rangeParams),
+  });
+
+  const totalExpenses = (expenses ?? []).reduce(
+    (sum, expense) => sum + Number(expense.amount || 0),
+    0,
+  );
+
+  // Stock adjustments never count as sales; write-offs come off profit at cost
+  const { data: adjustments, isLoading: loadingAdjustments } = useQuery({
+    queryKey: ["stock-adjustments", rangeParams],
+    queryFn: () => listStockAdjustments(rangeParams),
+  });
+
+  const stockLoss = sumStockLosses(adjustments ?? []);
+
+  // Cost of goods from restock lots, replacing the server's figures (which use
+  // today's cost_price) once sales and restocks have loaded
+  const {
+    costingMethod,
+    sales,
+    refunds: allRefunds,
+    lineCosts,
+    isLoading: loadingCosts,
+  } = useCostOfGoods(branch);
+  const costOfGoods = useMemo(
+    () =>
+      loadingCosts || sales.length === 0
+        ? null
+        : sumCostOfGoods(sales, lineCosts, range),
+    [loadingCosts, sales, lineCosts, range],
+  );
+  const previousCostOfGoods = useMemo(
+    () =>
+      loadingCosts || sales.length === 0
+        ? null
+        : sumCostOfGoods(sales, lineCosts, previousRange),
+    [loadingCosts, sales, lineCosts, previousRange],
+  );
+
+  // Refunds take back their revenue less whatever restocked units are worth
+  // at the cost they were sold at
+  const refundedProfit = useMemo(
+    () =>
+      costOfGoods
+        ? sumRefunds(allRefunds, sales, lineCosts, range).profit
+        : serverRefundedProfit,
+    [costOfGoods, allRefunds, sales, lineCosts, range, serverRefundedProfit],
+  );
+
+  // Each branch's share of the range when every branch is added up
+  const { data: branches = [] } = useBranches();
+  const branchTotals = useMemo(
+    () =>
+      branch !== "all" || branches.length < 2 || loadingCosts
+        ? []
+        : sumSalesByBranch(branches, sales, lineCosts, range),
+    [branch, branches, loadingCosts, sales, lineCosts, range],
+  );
+
+  const totalProfit =
+    costOfGoods?.profit ?? financialSummaryRaw?.summary?.total_profit ?? 0;
+
+  // Changes are worked out here so custom ranges get them too; the server's
+  // own *_change fields are only a fallback until the previous range loads
+  const previousSummary = previousSummaryRaw?.summary;
+  const previousSales = Number(previousSummary?.total_sales ?? 0);
+  const previousCost = Number(
+    previousCostOfGoods?.cost ?? previousSummary?.total_cost ?? 0,
+  );
+  const previousProfit = Number(
+    previousCostOfGoods?.profit ?? previousSummary?.total_profit ?? 0,
+  );
+
   // The API returns { period, summary: { ... } }
   const financialSummary =
     financialSummaryRaw && financialSummaryRaw.summary
       ? {
           totalSales: financialSummaryRaw.summary.total_sales ?? 1,
-          totalCost: financialSummaryRaw.summary.total_cost ?? 1,
-          totalProfit: financialSummaryRaw.summary.total_profit ?? 1,
-          totalSalesChange:
-            financialSummaryRaw.summary.total_sales_change ?? 900,
-          totalCostChange: financialSummaryRaw.summary.total_cost_change ?? 0,
-          totalProfitChange:
-            financialSummaryRaw.summary.total_profit_change ?? 0,
+          totalCost:
+            costOfGoods?.cost ?? financialSummaryRaw.summary.total_cost ?? 1,
+          totalProfit: costOfGoods
+            ? totalProfit
+            : (financialSummaryRaw.summary.total_profit ?? 1),
+          totalSalesChange: previousSummary
+            ? percentChange(
+                Number(financialSummaryRaw.summary.total_sales ?? 0),
+                previousSales,
+              )
+            : (financialSummaryRaw.summary.total_sales_change ?? 0),
+          totalCostChange: previousSummary
+            ? percentChange(
+                Number(
+                  costOfGoods?.cost ??
+                    financialSummaryRaw.summary.total_cost ??
+                    0,
+                ),
+                previousCost,
+              )
+            : (financialSummaryRaw.summary.total_cost_change ?? 0),
+          totalProfitChange: previousSummary
+            ? percentChange(Number(totalProfit), previousProfit)
+            : (financialSummaryRaw.summary.total_profit_change ?? 0),
+          rangeLabel: formatRangeLabel(range),
+          comparison: previousSummary
+            ? {
+                label: formatRangeLabel(previousRange),
+                totalSales: previousSales,
+                totalCost: previousCost,
+                totalProfit: previousProfit,
+              }
+            : undefined,
+          totalRefunds,
+          refundedProfit,
+          totalExpenses,
+          stockLoss,
+          netProfit: totalProfit - refundedProfit - totalExpenses - stockLoss,
+          costingMethod: costOfGoods ? costingMethod : undefined,
         }
       : {
           totalSales: 0,
@@ -93,10 +268,10 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
 
   // Top products
   const { data: topProductsRaw, isLoading: loadingTop } = useQuery({
-    queryKey: ["finance-top-products", period],
+    queryKey: ["finance-top-products", rangeParams],
     queryFn: async () => {
       const res = await apiClient.get(endpoints.PRODUCTS_FINANCE_TOP_PRODUCTS, {
-        params: { period },
+        params: rangeParams,
       });
       return res.data;
     },
@@ -110,11 +285,11 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
   // Slow moving stock
 
   const { data: slowMovingStockRaw, isLoading: loadingSlow } = useQuery({
-    queryKey: ["finance-slow-moving", period],
+    queryKey: ["finance-slow-moving", rangeParams],
     queryFn: async () => {
       const res = await apiClient.get(
         endpoints.PRODUCTS_FINANCE_SLOW_MOVING_STOCK,
-        { params: { period } },
+        { params: rangeParams },
       );
       return res.data;
     },
@@ -127,11 +302,11 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
 
   // Stock recommendations
   const { data: stockRecommendationsRaw, isLoading: loadingRecs } = useQuery({
-    queryKey: ["finance-stock-recommendations", period],
+    queryKey: ["finance-stock-recommendations", rangeParams],
     queryFn: async () => {
       const res = await apiClient.get(
         endpoints.PRODUCTS_FINANCE_STOCK_RECOMMENDATIONS,
-        { params: { period } },
+        { params: rangeParams },
       );
       return res.data;
     },
@@ -147,11 +322,11 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
   // Seasonal insights
 
   const { data: seasonalInsightsRaw, isLoading: loadingInsights } = useQuery({
-    queryKey: ["finance-seasonal-insights", period],
+    queryKey: ["finance-seasonal-insights", rangeParams],
     queryFn: async () => {
       const res = await apiClient.get(
         endpoints.PRODUCTS_FINANCE_SEASONAL_INSIGHTS,
-        { params: { period } },
+        { params: rangeParams },
       );
       return res.data;
     },
@@ -165,10 +340,10 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
   // Trends (for chart)
 
   const { data: chartDataRaw, isLoading: loadingTrends } = useQuery({
-    queryKey: ["finance-trends", period],
+    queryKey: ["finance-trends", rangeParams],
     queryFn: async () => {
       const res = await apiClient.get(endpoints.PRODUCTS_FINANCE_TRENDS, {
-        params: { period },
+        params: rangeParams,
       });
       return res.data;
     },
@@ -214,10 +389,11 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
   // Monthly report
 
   const { data: monthlyReportRaw, isLoading: loadingMonthly } = useQuery({
-    queryKey: ["finance-monthly-report"],
+    queryKey: ["finance-monthly-report", branch],
     queryFn: async () => {
       const res = await apiClient.get(
         endpoints.PRODUCTS_FINANCE_MONTHLY_REPORT,
+        { params: withBranch({}, branch) },
       );
       return res.data;
     },
@@ -246,6 +422,9 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
   const dataLoading =
     loadingDaily ||
     loadingSummary ||
+    loadingRefunds ||
+    loadingExpenses ||
+    loadingAdjustments ||
     loadingTop ||
     loadingSlow ||
     loadingRecs ||
@@ -263,5 +442,6 @@ export const useFinanceData = (selectedPeriod: Period, selectedDate: Date) => {
     seasonalInsights,
     chartData,
     monthlyReport,
+    branchTotals,
   };
 };
@@ -1,5 +1,8 @@
 import { getUnreadNotificationsCount, markNotificationRead } from "@/src/api";
+import useSettingsStore from "@/stores/settingsStore";
+import { checkExpiringProducts } from "@/utils/notificationHelpers";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
 
 export const UNREAD_COUNT_KEY = ["notifications-unread-count"];
 
@@ -28,3 +31,19 @@ export function useMarkNotificationRead() {
     },
   });
 }
+
+/**
+ * Raise expiry alerts for batches entering a warning window. Runs when the
+ * screen mounts and whenever the windows change in Settings.
+ */
+export function useExpiryAlerts() {
+  const queryClient = useQueryClient();
+  const windows = useSettingsStore((state) => state.expiryWarningDays);
+
+  useEffect(() => {
+    checkExpiringProducts("api-user", windows).then(() => {
+      queryClient.invalidateQueries({ queryKey: UNREAD_COUNT_KEY });
+      queryClient.invalidateQueries({ queryKey: ["home-notifications"] });
+    });
+  }, [windows, queryClient]);
+}
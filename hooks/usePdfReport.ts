@@ -9,7 +9,10 @@ import {
     StockRecommendation,
     TopProduct,
 } from "../app/types/finance.types";
-import { formatCurrency } from "../utils/formatters";
+import { formatCurrency, getFormatLocale } from "../utils/formatters";
+import { escapeHtml } from "../utils/receipt";
+
+const formatChange = (change: number) => `${change >= 0 ? "+" : ""}${change}%`;
 
 interface UsePdfReportParams {
   monthlyReport: MonthlyReport;
@@ -32,6 +35,7 @@ export const usePdfReport = ({
     if (pdfLoading) return;
     try {
       setPdfLoading(true);
+      const { comparison } = financialSummary;
 
       const html = `<!DOCTYPE html><html><head><style>
         body{font-family:'Helvetica','Arial',sans-serif;padding:40px;color:#1F2937}
@@ -44,6 +48,7 @@ export const usePdfReport = ({
         .stat-card{background:#F3F4F6;padding:20px;border-radius:8px;text-align:center}
         .stat-label{color:#6B7280;font-size:14px;margin-bottom:8px}
         .stat-value{color:#1F2937;font-size:24px;font-weight:bold}
+        .stat-change{color:#6B7280;font-size:12px;margin-top:6px}
         .products-table{width:100%;border-collapse:collapse;margin-top:15px}
         .products-table th{background:#1155CC;color:white;padding:12px;text-align:left;font-size:14px}
         .products-table td{padding:12px;border-bottom:1px solid #E5E7EB;font-size:14px}
@@ -52,41 +57,54 @@ export const usePdfReport = ({
         .highlight{background:#DBEAFE;padding:20px;border-radius:8px;margin:20px 0}
       </style></head><body>
         <div class="header">
-          <h1>Monthly Financial Report</h1>
-          <p>${monthlyReport.month}</p>
-          <p>Generated on ${new Date().toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })}</p>
+          <h1>Financial Report</h1>
+          <p>${financialSummary.rangeLabel ?? monthlyReport.month}</p>
+          <p>Generated on ${new Date().toLocaleDateString(getFormatLocale(), { year: "numeric", month: "long", day: "numeric" })}</p>
         </div>
         <div class="highlight"><div class="stats-grid">
-          <div class="stat-card"><div class="stat-label">Total Sales</div><div class="stat-value">${formatCurrency(monthlyReport.totalSales)}</div></div>
-          <div class="stat-card"><div class="stat-label">Total Cost</div><div class="stat-value">${formatCurrency(monthlyReport.totalCost)}</div></div>
-          <div class="stat-card"><div class="stat-label">Total Profit</div><div class="stat-value">${formatCurrency(monthlyReport.totalProfit)}</div></div>
+          ${[
+            ["Total Sales", financialSummary.totalSales, financialSummary.totalSalesChange],
+            ["Total Cost", financialSummary.totalCost, financialSummary.totalCostChange],
+            ["Total Profit", financialSummary.totalProfit, financialSummary.totalProfitChange],
+          ]
+            .map(
+              ([label, value, change]) =>
+                `<div class="stat-card"><div class="stat-label">${label}</div><div class="stat-value">${formatCurrency(value)}</div>${comparison ? `<div class="stat-change">${formatChange(Number(change))} vs previous</div>` : ""}</div>`,
+            )
+            .join("")}
         </div></div>
         <div class="section"><div class="section-title">Financial Summary</div>
           <table class="products-table">
-            <tr><td><strong>Total Revenue</strong></td><td>${formatCurrency(financialSummary.totalRevenue)}</td></tr>
-            <tr><td><strong>Total Expenses</strong></td><td>${formatCurrency(financialSummary.totalExpenses)}</td></tr>
-            <tr><td><strong>Net Profit</strong></td><td><strong>${formatCurrency(financialSummary.totalProfit)}</strong></td></tr>
+            ${comparison ? `<thead><tr><th></th><th>${financialSummary.rangeLabel}</th><th>${comparison.label}</th></tr></thead>` : ""}
+            <tr><td><strong>Total Sales</strong></td><td>${formatCurrency(financialSummary.totalSales)}</td>${comparison ? `<td>${formatCurrency(comparison.totalSales)}</td>` : ""}</tr>
+            <tr><td><strong>Total Cost</strong></td><td>${formatCurrency(financialSummary.totalCost)}</td>${comparison ? `<td>${formatCurrency(comparison.totalCost)}</td>` : ""}</tr>
+            <tr><td><strong>Total Profit</strong></td><td>${formatCurrency(financialSummary.totalProfit)}</td>${comparison ? `<td>${formatCurrency(comparison.totalProfit)}</td>` : ""}</tr>
+            <tr><td><strong>Refunds</strong></td><td>${formatCurrency(financialSummary.totalRefunds ?? 0)}</td>${comparison ? "<td></td>" : ""}</tr>
+            <tr><td><strong>Profit Lost to Refunds</strong></td><td>${formatCurrency(financialSummary.refundedProfit ?? 0)}</td>${comparison ? "<td></td>" : ""}</tr>
+            <tr><td><strong>Total Expenses</strong></td><td>${formatCurrency(financialSummary.totalExpenses ?? 0)}</td>${comparison ? "<td></td>" : ""}</tr>
+            <tr><td><strong>Stock Losses</strong></td><td>${formatCurrency(financialSummary.stockLoss ?? 0)}</td>${comparison ? "<td></td>" : ""}</tr>
+            <tr><td><strong>Net Profit</strong></td><td><strong>${formatCurrency(financialSummary.netProfit ?? financialSummary.totalProfit)}</strong></td>${comparison ? "<td></td>" : ""}</tr>
           </table>
         </div>
         <div class="section"><div class="section-title">Top Performing Products</div>
           <table class="products-table">
-            <thead><tr><th>Product</th><th>Units</th><th>Revenue</th><th>Profit</th></tr></thead>
-            <tbody>${topProducts.map((p) => `<tr><td>${p.name}</td><td>${p.quantity}</td><td>${formatCurrency(p.revenue)}</td><td>${formatCurrency(p.profit)}</td></tr>`).join("")}</tbody>
+            <thead><tr><th>Product</th><th>Units Sold</th><th>Profit</th></tr></thead>
+            <tbody>${topProducts.map((p) => `<tr><td>${escapeHtml(p.product_name)}</td><td>${p.units_sold}</td><td>${formatCurrency(p.profit)}</td></tr>`).join("")}</tbody>
           </table>
         </div>
         ${
           slowMovingStock.length > 0
             ? `<div class="section"><div class="section-title">Slow Moving Stock</div>
           <table class="products-table">
-            <thead><tr><th>Product</th><th>Days in Stock</th><th>Quantity</th></tr></thead>
-            <tbody>${slowMovingStock.map((i) => `<tr><td>${i.name}</td><td>${i.daysInStock} days</td><td>${i.quantity} units</td></tr>`).join("")}</tbody>
+            <thead><tr><th>Product</th><th>Days in Stock</th><th>Units Sold</th></tr></thead>
+            <tbody>${slowMovingStock.map((i) => `<tr><td>${escapeHtml(i.product_name)}</td><td>${i.days_in_stock} days</td><td>${i.units_sold} units</td></tr>`).join("")}</tbody>
           </table></div>`
             : ""
         }
         ${
           stockRecommendations.length > 0
             ? `<div class="section"><div class="section-title">Stock Recommendations</div>
-          ${stockRecommendations.map((r) => `<div style="background:#F9FAFB;padding:15px;margin-bottom:10px;border-radius:8px;border-left:4px solid #1155CC;"><strong>${r.message}</strong><br><span style="color:#6B7280;font-size:14px;">${r.detail}</span></div>`).join("")}
+          ${stockRecommendations.map((r) => `<div style="background:#F9FAFB;padding:15px;margin-bottom:10px;border-radius:8px;border-left:4px solid #1155CC;"><strong>${escapeHtml(r.message)}</strong><br><span style="color:#6B7280;font-size:14px;">${escapeHtml(r.detail)}</span></div>`).join("")}
         </div>`
             : ""
         }
@@ -102,7 +120,7 @@ export const usePdfReport = ({
       if (isAvailable) {
         await Sharing.shareAsync(uri, {
           mimeType: "application/pdf",
-          dialogTitle: "Monthly Financial Report",
+          dialogTitle: "Financial Report",
           UTI: "com.adobe.pdf",
         });
       } else {
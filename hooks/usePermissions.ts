@@ -0,0 +1,18 @@
+import { getProfile } from "@/src/api";
+import type { StaffRole } from "@/src/api/types";
+import { getRolePermissions, type Permissions } from "@/utils/permissions";
+import { useQuery } from "@tanstack/react-query";
+
+/**
+ * What the signed-in user may see and do. Accounts from before staff roles
+ * have no role and are treated as owners; until the profile has loaded we
+ * assume the least access so costs never flash up for a cashier.
+ */
+export function usePermissions(): Permissions & { role: StaffRole } {
+  const { data: profile } = useQuery({
+    queryKey: ["profile"],
+    queryFn: getProfile,
+  });
+  const role: StaffRole = profile ? (profile.role ?? "owner") : "cashier";
+  return { role, ...getRolePermissions(role) };
+}
@@ -0,0 +1,77 @@
+import { addInventoryItem } from "@/src/api/products";
+import useProductImportStore from "@/stores/productImportStore";
+import { getApiErrorMessage, isRetryableError } from "@/utils/apiErrors";
+import { useQueryClient } from "@tanstack/react-query";
+import { useCallback, useState } from "react";
+
+// Rows posted side by side; small enough not to trip the API's rate limit
+const IMPORT_BATCH_SIZE = 5;
+
+/**
+ * Create the job's remaining rows in batches. Rows the server rejects are
+ * recorded and skipped; a network failure stops the run so it can be resumed
+ * from the same place.
+ */
+export async function runProductImport(): Promise<{
+  created: number;
+  stopped: boolean;
+}> {
+  const store = useProductImportStore.getState();
+  const job = store.job;
+  if (!job) return { created: 0, stopped: false };
+
+  const done = new Set(job.created);
+  const pending = job.rows.filter((row) => !done.has(row.rowNumber));
+  let created = 0;
+
+  for (let i = 0; i < pending.length; i += IMPORT_BATCH_SIZE) {
+    const batch = pending.slice(i, i + IMPORT_BATCH_SIZE);
+    const results = await Promise.allSettled(
+      batch.map((row) => addInventoryItem(row.payload)),
+    );
+
+    const succeeded: number[] = [];
+    const failed: Record<string, string> = {};
+    let offline = false;
+    results.forEach((result, index) => {
+      const { rowNumber } = batch[index];
+      if (result.status === "fulfilled") {
+        succeeded.push(rowNumber);
+      } else {
+        failed[rowNumber] = getApiErrorMessage(
+          result.reason,
+          result.reason?.message || "Could not be created",
+        );
+        if (isRetryableError(result.reason)) offline = true;
+      }
+    });
+
+    store.markCreated(succeeded);
+    store.markFailed(failed);
+    created += succeeded.length;
+    if (offline) return { created, stopped: true };
+  }
+
+  return { created, stopped: false };
+}
+
+/** The saved import job plus a runner that refreshes inventory afterwards. */
+export function useProductImport() {
+  const queryClient = useQueryClient();
+  const job = useProductImportStore((s) => s.job);
+  const startJob = useProductImportStore((s) => s.startJob);
+  const clearJob = useProductImportStore((s) => s.clearJob);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const run = useCallback(async () => {
+    setIsRunning(true);
+    try {
+      return await runProductImport();
+    } finally {
+      setIsRunning(false);
+      queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+    }
+  }, [queryClient]);
+
+  return { job, startJob, clearJob, run, isRunning };
+}
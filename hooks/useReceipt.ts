@@ -0,0 +1,116 @@
+import { getProfile } from "@/src/api";
+import type { ApiSale } from "@/src/api/sales";
+import {
+    buildReceiptData,
+    encodeEscPos,
+    renderReceiptHtml,
+    renderReceiptText,
+} from "@/utils/receipt";
+import { useQuery } from "@tanstack/react-query";
+import { File, Paths } from "expo-file-system";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { useCallback, useState } from "react";
+import { Alert, Share } from "react-native";
+
+/**
+ * Print, share or export the receipt for a sale. Business details come from
+ * the signed-in user's profile.
+ */
+export const useReceipt = () => {
+  const [receiptLoading, setReceiptLoading] = useState(false);
+  const { data: profile } = useQuery({
+    queryKey: ["profile"],
+    queryFn: getProfile,
+  });
+
+  const getReceipt = useCallback(
+    (sale: ApiSale) =>
+      buildReceiptData(sale, {
+        name: profile?.business_name || profile?.name,
+        phone: profile?.phone,
+      }),
+    [profile],
+  );
+
+  // Wrap each action so a double tap can't start two exports at once
+  const run = useCallback(
+    async (action: () => Promise<void>, failure: string) => {
+      if (receiptLoading) return;
+      try {
+        setReceiptLoading(true);
+        await action();
+      } catch {
+        Alert.alert("Error", failure);
+      } finally {
+        setReceiptLoading(false);
+      }
+    },
+    [receiptLoading],
+  );
+
+  const printReceipt = useCallback(
+    (sale: ApiSale) =>
+      run(async () => {
+        await Print.printAsync({ html: renderReceiptHtml(getReceipt(sale)) });
+      }, "Failed to print receipt. Please try again."),
+    [run, getReceipt],
+  );
+
+  const shareReceiptPdf = useCallback(
+    (sale: ApiSale) =>
+      run(async () => {
+        const receipt = getReceipt(sale);
+        const { uri } = await Print.printToFileAsync({
+          html: renderReceiptHtml(receipt),
+          width: 226, // 58mm paper at 72dpi
+        });
+        if (await Sharing.isAvailableAsync()) {
+          await Sharing.shareAsync(uri, {
+            mimeType: "application/pdf",
+            dialogTitle: `Receipt ${receipt.reference}`,
+            UTI: "com.adobe.pdf",
+          });
+        } else {
+          Alert.alert("Success", "Receipt generated successfully!");
+        }
+      }, "Failed to generate receipt. Please try again."),
+    [run, getReceipt],
+  );
+
+  const shareReceiptText = useCallback(
+    (sale: ApiSale) =>
+      run(async () => {
+        await Share.share({ message: renderReceiptText(getReceipt(sale)) });
+      }, "Failed to share receipt. Please try again."),
+    [run, getReceipt],
+  );
+
+  // Raw ESC/POS bytes, for Bluetooth printer apps that accept a .bin file
+  const shareReceiptEscPos = useCallback(
+    (sale: ApiSale) =>
+      run(async () => {
+        const receipt = getReceipt(sale);
+        const file = new File(Paths.cache, `receipt-${receipt.reference}.bin`);
+        file.create({ overwrite: true });
+        file.write(encodeEscPos(renderReceiptText(receipt)));
+        if (!(await Sharing.isAvailableAsync())) {
+          Alert.alert("Error", "Sharing is not available on this device.");
+          return;
+        }
+        await Sharing.shareAsync(file.uri, {
+          mimeType: "application/octet-stream",
+          dialogTitle: "Send to thermal printer",
+        });
+      }, "Failed to export receipt for the printer."),
+    [run, getReceipt],
+  );
+
+  return {
+    receiptLoading,
+    printReceipt,
+    shareReceiptPdf,
+    shareReceiptText,
+    shareReceiptEscPos,
+  };
+};
@@ -0,0 +1,21 @@
+import {
+    listRecentRestocks,
+    listRestocksByProduct,
+    type ApiRestock,
+} from "@/src/api/products";
+import { useQuery } from "@tanstack/react-query";
+
+export function useProductRestocks(inventoryId?: string | number | null) {
+  return useQuery<ApiRestock[]>({
+    queryKey: ["restocks", "product", String(inventoryId)],
+    queryFn: () => listRestocksByProduct(inventoryId as string | number),
+    enabled: inventoryId != null && inventoryId !== "",
+  });
+}
+
+export function useRecentRestocks() {
+  return useQuery<ApiRestock[]>({
+    queryKey: ["restocks", "recent"],
+    queryFn: () => listRecentRestocks(),
+  });
+}
@@ -1,3 +1,4 @@
+import type { BranchScope } from "@/src/api/branches";
 import { apiClient } from "@/src/api/client";
 import {
     SALES_DEBTORS,
@@ -5,12 +6,17 @@ import {
     SALES_TODAY
 } from "@/src/api/endpoints";
 import {
+    createRefund,
     getSale,
+    listAllRefunds,
     listSalesPaginated,
+    recordSalePayment,
+    type CreateRefundPayload,
     type PaginatedResponse,
     type ApiSale as Sale,
 } from "@/src/api/sales";
-import { useQuery } from "@tanstack/react-query";
+import useShiftStore from "@/stores/shiftStore";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 const normalizeEndpoint = (endpoint: string) =>
   endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
@@ -23,11 +29,16 @@ export interface SalesQueryParams {
   page_size?: number;
 }
 
+// One outstanding credit sale. `id` is the sale id.
 export interface Debtor {
   id: number;
   customer_name: string;
   customer_phone?: string;
   amount_owed: number;
+  amount_paid?: number | string;
+  total_amount?: number | string;
+  sale_date?: string;
+  created_at?: string;
   due_date?: string;
   transaction_ref?: string;
 }
@@ -99,3 +110,68 @@ export function useDebtors() {
     },
   });
 }
+
+// Record a repayment against one or more credit sales, oldest first
+// Records a repayment spread over several sales, one sale at a time. Stops at
+// the first failure and reports how much was already saved, so a retry only
+// sends the rest.
+export function useRecordDebtPayment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (
+      payments: { saleId: number; amount: number }[],
+    ): Promise<{ recorded: number; error?: unknown }> => {
+      let recorded = 0;
+      for (const { saleId, amount } of payments) {
+        try {
+          await recordSalePayment(saleId, amount);
+        } catch (error) {
+          return { recorded, error };
+        }
+        recorded = Math.round((recorded + amount) * 100) / 100;
+      }
+      return { recorded };
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["sales-debtors"] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+    },
+  });
+}
+
+// Every refund, for putting restocked returns back into costing and batches
+export function useRefundHistory(branch?: BranchScope) {
+  return useQuery({
+    queryKey: ["refunds", "all", branch],
+    queryFn: () => listAllRefunds({ branch }),
+    staleTime: 60 * 1000,
+  });
+}
+
+// Return items from a sale; restocked units show up in inventory again
+export function useCreateRefund() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      saleId,
+      payload,
+    }: {
+      saleId: number | string;
+      payload: CreateRefundPayload;
+    }) => {
+      const { shiftId } = useShiftStore.getState();
+      return createRefund(
+        saleId,
+        shiftId != null ? { ...payload, shift: shiftId } : payload,
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["refunds"] });
+      queryClient.invalidateQueries({ queryKey: ["finance-refunds"] });
+      queryClient.invalidateQueries({ queryKey: ["shift"] });
+      queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+    },
+  });
+}
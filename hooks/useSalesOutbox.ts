@@ -0,0 +1,207 @@
+import {
+    createSale,
+    type ApiSale,
+    type CreateSalePayload,
+} from "@/src/api/sales";
+import useBranchStore from "@/stores/branchStore";
+import useSalesOutboxStore, {
+    createIdempotencyKey,
+    type QueuedSale,
+} from "@/stores/salesOutboxStore";
+import useShiftStore from "@/stores/shiftStore";
+import { getApiErrorMessage, isRetryableError } from "@/utils/apiErrors";
+import { QueryClient, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useEffect, useMemo } from "react";
+import { Alert, AppState } from "react-native";
+
+const SYNC_INTERVAL_MS = 30000;
+
+export type SubmitSaleResult =
+  | { status: "synced"; sale: ApiSale }
+  | { status: "queued"; id: string };
+
+const invalidateSalesQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: ["sales"] });
+  queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+  queryClient.invalidateQueries({ queryKey: ["products"] });
+  queryClient.invalidateQueries({ queryKey: ["shift"] });
+};
+
+/**
+ * Post a sale, falling back to the offline outbox when the server cannot be
+ * reached. Validation errors are still thrown so the cashier sees them now.
+ */
+export async function submitSale(
+  payload: CreateSalePayload,
+  total: number,
+): Promise<SubmitSaleResult> {
+  const id = createIdempotencyKey();
+  const { branchId } = useBranchStore.getState();
+  const { shiftId } = useShiftStore.getState();
+  const pinned = {
+    ...payload,
+    ...(branchId != null && { branch: branchId }),
+    ...(shiftId != null && { shift: shiftId }),
+  };
+
+  try {
+    const sale = await createSale(pinned, { idempotencyKey: id });
+    return { status: "synced", sale };
+  } catch (error) {
+    if (!isRetryableError(error)) throw error;
+
+    useSalesOutboxStore.getState().enqueue({
+      id,
+      payload: pinned,
+      total,
+      createdAt: new Date().toISOString(),
+      status: "pending",
+      attempts: 1,
+    });
+    return { status: "queued", id };
+  }
+}
+
+/**
+ * Replay pending sales in the order they were taken. Stops at the first
+ * network failure so later sales never overtake earlier ones.
+ */
+export async function flushSalesOutbox(): Promise<{
+  synced: number;
+  conflicts: QueuedSale[];
+}> {
+  const store = useSalesOutboxStore.getState();
+  if (store.isSyncing) return { synced: 0, conflicts: [] };
+
+  const pending = store.queue.filter((s) => s.status === "pending");
+  if (pending.length === 0) return { synced: 0, conflicts: [] };
+
+  store.setSyncing(true);
+  let synced = 0;
+  const conflicts: QueuedSale[] = [];
+
+  try {
+    for (const sale of pending) {
+      store.markAttempted(sale.id);
+      try {
+        await createSale(sale.payload, { idempotencyKey: sale.id });
+        store.remove(sale.id);
+        synced += 1;
+      } catch (error) {
+        if (isRetryableError(error)) break;
+        const message = getApiErrorMessage(
+          error,
+          "The server rejected this sale.",
+        );
+        store.markConflict(sale.id, message);
+        conflicts.push({ ...sale, status: "conflict", error: message });
+      }
+    }
+  } finally {
+    store.setSyncing(false);
+    if (synced > 0) store.setLastSyncedAt(new Date().toISOString());
+  }
+
+  return { synced, conflicts };
+}
+
+/** Queue contents plus the actions the pending-sync badge needs. */
+export function useSalesOutbox() {
+  const queryClient = useQueryClient();
+  const queue = useSalesOutboxStore((s) => s.queue);
+  const isSyncing = useSalesOutboxStore((s) => s.isSyncing);
+  const remove = useSalesOutboxStore((s) => s.remove);
+  const retry = useSalesOutboxStore((s) => s.retry);
+
+  const pendingCount = queue.filter((s) => s.status === "pending").length;
+  const conflicts = queue.filter((s) => s.status === "conflict");
+
+  const syncNow = useCallback(async () => {
+    const result = await flushSalesOutbox();
+    if (result.synced > 0) invalidateSalesQueries(queryClient);
+    return result;
+  }, [queryClient]);
+
+  return {
+    queue,
+    pendingCount,
+    conflicts,
+    isSyncing,
+    syncNow,
+    discard: remove,
+    retry,
+  };
+}
+
+// Inventory items and catalogue products have separate id spaces, so a
+// deduction is keyed by which one the sale line names.
+export const inventoryStockKey = (id: string | number) => `inv:${id}`;
+export const productStockKey = (id: string | number) => `prod:${id}`;
+
+/**
+ * Units held by sales that have not reached the server yet, keyed with
+ * `inventoryStockKey` / `productStockKey`, so screens can show stock as the
+ * cashier sees it.
+ */
+export function usePendingStockDeductions(): Record<string, number> {
+  const queue = useSalesOutboxStore((s) => s.queue);
+
+  return useMemo(() => {
+    const deductions: Record<string, number> = {};
+    queue.forEach((sale) => {
+      sale.payload.items.forEach((item) => {
+        const key =
+          item.inventory != null
+            ? inventoryStockKey(item.inventory)
+            : item.product != null
+              ? productStockKey(item.product)
+              : "";
+        if (!key) return;
+        deductions[key] = (deductions[key] ?? 0) + Number(item.quantity || 0);
+      });
+    });
+    return deductions;
+  }, [queue]);
+}
+
+/**
+ * Keeps the outbox draining in the background: on mount, whenever the app
+ * returns to the foreground, and on an interval while sales are waiting.
+ */
+export function useSalesOutboxSync() {
+  const queryClient = useQueryClient();
+  const pendingCount = useSalesOutboxStore(
+    (s) => s.queue.filter((sale) => sale.status === "pending").length,
+  );
+
+  const sync = useCallback(async () => {
+    const { synced, conflicts } = await flushSalesOutbox();
+    if (synced > 0) invalidateSalesQueries(queryClient);
+    if (conflicts.length > 0) {
+      Alert.alert(
+        "Sale could not sync",
+        conflicts
+          .map(
+            (sale) =>
+              `${new Date(sale.createdAt).toLocaleString()}: ${sale.error}`,
+          )
+          .join("\n"),
+      );
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+
+    sync();
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") sync();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [pendingCount, sync]);
+}
@@ -0,0 +1,148 @@
+import { getProfile } from "@/src/api";
+import {
+    closeShift,
+    createCashPayout,
+    getCurrentShift,
+    listShifts,
+    openShift,
+    type ApiShift,
+    type CashPayoutPayload,
+    type CloseShiftPayload,
+    type OpenShiftPayload,
+} from "@/src/api/shifts";
+import useShiftStore from "@/stores/shiftStore";
+import { getShiftReference, renderZReportHtml } from "@/utils/shifts";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+import { useCallback, useEffect, useState } from "react";
+import { Alert } from "react-native";
+
+/**
+ * The shift open on this branch. Mirrors it into the shift store so sales
+ * (including ones queued offline) are booked to it.
+ */
+export function useCurrentShift() {
+  const setShift = useShiftStore((state) => state.setShift);
+  const query = useQuery<ApiShift | null>({
+    queryKey: ["shift", "current"],
+    queryFn: getCurrentShift,
+  });
+
+  useEffect(() => {
+    if (query.isSuccess) setShift(query.data);
+  }, [query.isSuccess, query.data, setShift]);
+
+  return query;
+}
+
+export function useShifts() {
+  return useQuery<ApiShift[]>({
+    queryKey: ["shifts"],
+    queryFn: () => listShifts({ status: "closed", page_size: 30 }),
+  });
+}
+
+export function useOpenShift() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: OpenShiftPayload) => openShift(payload),
+    onSuccess: (shift) => {
+      useShiftStore.getState().setShift(shift);
+      queryClient.setQueryData(["shift", "current"], shift);
+    },
+  });
+}
+
+export function useCloseShift() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: number; payload: CloseShiftPayload }) =>
+      closeShift(id, payload),
+    onSuccess: () => {
+      useShiftStore.getState().setShift(null);
+      queryClient.setQueryData(["shift", "current"], null);
+      queryClient.invalidateQueries({ queryKey: ["shifts"] });
+    },
+  });
+}
+
+export function useCreateCashPayout() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      shiftId,
+      payload,
+    }: {
+      shiftId: number;
+      payload: CashPayoutPayload;
+    }) => createCashPayout(shiftId, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shift", "current"] });
+    },
+  });
+}
+
+/** Print or share the Z-report for a closed shift. */
+export const useZReport = () => {
+  const [reportLoading, setReportLoading] = useState(false);
+  const { data: profile } = useQuery({
+    queryKey: ["profile"],
+    queryFn: getProfile,
+  });
+
+  const render = useCallback(
+    (shift: ApiShift) =>
+      renderZReportHtml(shift, {
+        name: profile?.business_name || profile?.name,
+        phone: profile?.phone,
+      }),
+    [profile],
+  );
+
+  // Wrap each action so a double tap can't start two exports at once
+  const run = useCallback(
+    async (action: () => Promise<void>, failure: string) => {
+      if (reportLoading) return;
+      try {
+        setReportLoading(true);
+        await action();
+      } catch {
+        Alert.alert("Error", failure);
+      } finally {
+        setReportLoading(false);
+      }
+    },
+    [reportLoading],
+  );
+
+  const printZReport = useCallback(
+    (shift: ApiShift) =>
+      run(async () => {
+        await Print.printAsync({ html: render(shift) });
+      }, "Failed to print the Z-report. Please try again."),
+    [run, render],
+  );
+
+  const shareZReportPdf = useCallback(
+    (shift: ApiShift) =>
+      run(async () => {
+        const { uri } = await Print.printToFileAsync({
+          html: render(shift),
+          width: 226, // 58mm paper at 72dpi
+        });
+        if (await Sharing.isAvailableAsync()) {
+          await Sharing.shareAsync(uri, {
+            mimeType: "application/pdf",
+            dialogTitle: `Z-report ${getShiftReference(shift)}`,
+            UTI: "com.adobe.pdf",
+          });
+        } else {
+          Alert.alert("Success", "Z-report generated successfully!");
+        }
+      }, "Failed to generate the Z-report. Please try again."),
+    [run, render],
+  );
+
+  return { reportLoading, printZReport, shareZReportPdf };
+};
@@ -0,0 +1,49 @@
+import {
+    inviteStaff,
+    listStaff,
+    removeStaff,
+    updateStaffRole,
+    type ApiStaffMember,
+    type InviteStaffPayload,
+} from "@/src/api/staff";
+import type { StaffRole } from "@/src/api/types";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export function useStaff(enabled = true) {
+  return useQuery<ApiStaffMember[]>({
+    queryKey: ["staff"],
+    queryFn: listStaff,
+    enabled,
+  });
+}
+
+export function useInviteStaff() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: InviteStaffPayload) => inviteStaff(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff"] });
+    },
+  });
+}
+
+export function useUpdateStaffRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, role }: { id: number; role: StaffRole }) =>
+      updateStaffRole(id, role),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff"] });
+    },
+  });
+}
+
+export function useRemoveStaff() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => removeStaff(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["staff"] });
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import {
+    createStockAdjustment,
+    createStockAdjustments,
+    listStockAdjustments,
+    type ApiStockAdjustment,
+    type StockAdjustmentBatchPayload,
+    type StockAdjustmentPayload,
+} from "@/src/api/products";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export function useProductAdjustments(inventoryId?: string | number | null) {
+  return useQuery<ApiStockAdjustment[]>({
+    queryKey: ["stock-adjustments", "product", String(inventoryId)],
+    queryFn: () =>
+      listStockAdjustments({
+        inventory: Number(inventoryId),
+        page_size: 100,
+      }),
+    enabled: inventoryId != null && inventoryId !== "",
+  });
+}
+
+export function useCreateStockAdjustment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: StockAdjustmentPayload) =>
+      createStockAdjustment(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-adjustments"] });
+    },
+  });
+}
+
+export function useCommitStockAdjustments() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: StockAdjustmentBatchPayload) =>
+      createStockAdjustments(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-adjustments"] });
+    },
+  });
+}
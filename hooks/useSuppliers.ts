@@ -0,0 +1,59 @@
+import type { BranchScope } from "@/src/api/branches";
+import {
+    createSupplier,
+    deleteSupplier,
+    listAllRestocks,
+    listAllUserInventory,
+    listSuppliers,
+    updateSupplier,
+    type ApiSupplier,
+    type SupplierPayload,
+} from "@/src/api/products";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export function useSuppliers() {
+  return useQuery<ApiSupplier[]>({
+    queryKey: ["suppliers"],
+    queryFn: async () => {
+      const data = await listSuppliers();
+      return (Array.isArray(data) ? data : data.results || []) as ApiSupplier[];
+    },
+  });
+}
+
+/** Every inventory item, for grouping products under their supplier. */
+export function useAllInventory(branch?: BranchScope) {
+  return useQuery({
+    queryKey: ["user-inventory", "all", branch],
+    queryFn: () => listAllUserInventory({ branch }),
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useRestockHistory(branch?: BranchScope) {
+  return useQuery({
+    queryKey: ["restocks", branch],
+    queryFn: () => listAllRestocks({ branch }),
+  });
+}
+
+export function useSaveSupplier() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: { id?: number; payload: SupplierPayload }) =>
+      id ? updateSupplier(id, payload) : createSupplier(payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+    },
+  });
+}
+
+export function useDeleteSupplier() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => deleteSupplier(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import { useColorScheme } from "react-native";
+
+import { getThemeColors, type ThemeColors } from "@/constants/theme";
+import useThemeStore from "@/stores/themeStore";
+
+/** Resolves the stored mode against the system scheme into a palette. */
+export function useTheme() {
+  const mode = useThemeStore((state) => state.mode);
+  const themeColor = useThemeStore((state) => state.themeColor);
+  const systemScheme = useColorScheme();
+
+  const scheme =
+    mode === "system" ? (systemScheme === "dark" ? "dark" : "light") : mode;
+
+  const colors = useMemo(
+    () => getThemeColors(scheme, themeColor),
+    [scheme, themeColor],
+  );
+
+  return { colors, isDark: scheme === "dark", scheme, mode };
+}
+
+/**
+ * Builds a screen's StyleSheet from the current palette, rebuilding only when
+ * the theme changes. `factory` should be a module-level function.
+ */
+export function useThemedStyles<T>(factory: (colors: ThemeColors) => T): T {
+  const { colors } = useTheme();
+  return useMemo(() => factory(colors), [factory, colors]);
+}
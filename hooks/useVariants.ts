@@ -0,0 +1,31 @@
+import {
+    createVariant,
+    listVariants,
+    type ApiUserInventoryItem,
+    type VariantPayload,
+} from "@/src/api/products";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+export function useVariants(parentId?: string | number | null) {
+  return useQuery<ApiUserInventoryItem[]>({
+    queryKey: ["user-inventory", "variants", String(parentId)],
+    queryFn: () => listVariants(parentId as string | number),
+    enabled: parentId != null && parentId !== "",
+  });
+}
+
+export function useCreateVariant() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      parentId,
+      payload,
+    }: {
+      parentId: string | number;
+      payload: VariantPayload;
+    }) => createVariant(parentId, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["user-inventory"] });
+    },
+  });
+}
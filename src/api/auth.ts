@@ -50,6 +50,8 @@ export interface UpdateProfilePayload {
   name?: string;
   business_name?: string;
   business_type?: string;
+  currency?: string;
+  locale?: string;
   // NOTE: profile_image must NEVER be added here as a string.
   // Images are always uploaded via the second argument as a file.
 }
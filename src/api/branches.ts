@@ -0,0 +1,111 @@
+import { apiClient } from "./client";
+import { BRANCH, BRANCHES, STOCK_TRANSFERS } from "./endpoints";
+import type { PaginatedResponse } from "./sales";
+
+const normalizeEndpoint = (endpoint: string) =>
+  endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
+
+// A branch id, or "all" for figures across every branch of the business
+export type BranchScope = number | "all";
+
+export interface ApiBranch {
+  id: number;
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+  // The branch stock and sales belonged to before the business had branches
+  is_main?: boolean;
+  created_at?: string;
+}
+
+export interface BranchPayload {
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+}
+
+export interface ApiBranchStock {
+  branch: number;
+  branch_name?: string | null;
+  units_in_stock: number;
+}
+
+export interface ApiStockTransfer {
+  id: number;
+  inventory: number;
+  product_name?: string | null;
+  from_branch: number;
+  from_branch_name?: string | null;
+  to_branch: number;
+  to_branch_name?: string | null;
+  quantity: number;
+  notes?: string | null;
+  created_by_name?: string | null;
+  created_at?: string;
+}
+
+export interface StockTransferPayload {
+  inventory: number;
+  from_branch: number;
+  to_branch: number;
+  quantity: number;
+  notes?: string;
+}
+
+const toResults = <T>(data: PaginatedResponse<T> | T[]): T[] =>
+  Array.isArray(data) ? data : data.results || [];
+
+// Every branch, whichever is active, so they are always sent with "all"
+export async function listBranches(): Promise<ApiBranch[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiBranch> | ApiBranch[]
+  >(normalizeEndpoint(BRANCHES), { params: { branch: "all" } });
+  return toResults(response.data);
+}
+
+export async function createBranch(payload: BranchPayload): Promise<ApiBranch> {
+  const response = await apiClient.post<ApiBranch>(
+    normalizeEndpoint(BRANCHES),
+    payload,
+  );
+  return response.data;
+}
+
+export async function updateBranch(
+  id: string | number,
+  payload: Partial<BranchPayload>,
+): Promise<ApiBranch> {
+  const response = await apiClient.patch<ApiBranch>(
+    normalizeEndpoint(BRANCH(id)),
+    payload,
+  );
+  return response.data;
+}
+
+export async function listStockTransfers(params?: {
+  inventory?: number;
+  page_size?: number;
+}): Promise<ApiStockTransfer[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiStockTransfer> | ApiStockTransfer[]
+  >(normalizeEndpoint(STOCK_TRANSFERS), {
+    params: { ...params, branch: "all" },
+  });
+  return toResults(response.data);
+}
+
+/**
+ * Moves stock of one product between branches. The server takes the units
+ * off `from_branch` and adds them to `to_branch` in a single step, so stock
+ * never goes missing in between.
+ */
+export async function createStockTransfer(
+  payload: StockTransferPayload,
+): Promise<ApiStockTransfer> {
+  const response = await apiClient.post<ApiStockTransfer>(
+    normalizeEndpoint(STOCK_TRANSFERS),
+    payload,
+    { params: { branch: "all" } },
+  );
+  return response.data;
+}
@@ -4,6 +4,8 @@ import axios, {
     InternalAxiosRequestConfig,
 } from "axios";
 
+import useBranchStore from "@/stores/branchStore";
+
 import { API_BASE_URL, API_PREFIX } from "./constants";
 import {
     clearTokens,
@@ -44,6 +46,19 @@ apiClient.interceptors.request.use(async (config) => {
     config.headers = headers;
   }
 
+  // Scope the request to the active branch unless the caller already chose
+  // one, either as a `branch` param or in the body (e.g. a queued sale)
+  const { branchId } = useBranchStore.getState();
+  const body = config.data;
+  const bodyHasBranch =
+    !!body &&
+    typeof body === "object" &&
+    !(body instanceof FormData) &&
+    "branch" in body;
+  if (branchId != null && config.params?.branch == null && !bodyHasBranch) {
+    config.params = { ...config.params, branch: branchId };
+  }
+
   return config;
 });
 
@@ -9,6 +9,13 @@ export interface Product {
   profitPerUnit?: number;
   costPrice: number;
   sellingPrice: number;
+  // Carton packaging; prices above are per piece
+  unitsPerCarton?: number;
+  cartonCostPrice?: number;
+  cartonPrice?: number;
+  // Set on variants; the parent carries the shared name and category
+  parentId?: string;
+  variantAttributes?: Record<string, string>;
   lowStockThreshold: number;
   expiryDate: string;
   supplier: {
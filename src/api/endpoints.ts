@@ -10,6 +10,11 @@ export const AUTH_VERIFY_OTP = "/api/auth/verify-otp/";
 export const AUTH_TOKEN = "/api/token/";
 export const AUTH_TOKEN_REFRESH = "/api/token/refresh/";
 
+// STAFF
+export const STAFF = "/api/auth/staff/";
+export const STAFF_MEMBER = (id: string | number) =>
+  `/api/auth/staff/${id}/`;
+
 // PRODUCTS
 export const PRODUCTS_CATEGORIES = "/products/categories/";
 export const PRODUCTS_CATEGORY = (id: string | number) =>
@@ -37,16 +42,28 @@ export const PRODUCTS_USER_INVENTORY = "/products/user-inventory/";
 export const PRODUCTS_USER_INVENTORY_ITEM = (id: string | number) =>
   `/api/products/user-inventory/${id}/`;
 export const PRODUCTS_USER_INVENTORY_ADD = "/products/user-inventory/add/";
+export const PRODUCTS_USER_INVENTORY_VARIANTS = (id: string | number) =>
+  `/api/products/user-inventory/${id}/variants/`;
 
 // SALES
 export const SALES = "/api/products/sales/";
 export const SALE = (id: string | number) => `/api/products/sales/${id}/`;
 export const SALE_RECORD_PAYMENT = (id: string | number) =>
   `/api/products/sales/${id}/record_payment/`;
+export const SALE_REFUND = (id: string | number) =>
+  `/api/products/sales/${id}/refund/`;
 export const SALES_DEBTORS = "/api/products/sales/debtors/";
 export const SALES_THIS_WEEK = "/api/products/sales/this_week/";
 export const SALES_TODAY = "/api/products/sales/today/";
 
+// EXPENSES
+export const EXPENSES = "/api/products/expenses/";
+export const EXPENSE = (id: string | number) =>
+  `/api/products/expenses/${id}/`;
+
+// REFUNDS
+export const REFUNDS = "/api/products/refunds/";
+
 // RESTOCKS
 export const RESTOCKS = "/api/products/restocks/";
 export const RESTOCK = (id: string | number) => `/api/products/restocks/${id}/`;
@@ -54,6 +71,25 @@ export const RESTOCK_BY_PRODUCT = (id: string | number) =>
   `/api/products/restocks/${id}/by_product/`;
 export const RESTOCKS_RECENT = "/api/products/restocks/recent/";
 
+// BRANCHES
+export const BRANCHES = "/api/products/branches/";
+export const BRANCH = (id: string | number) =>
+  `/api/products/branches/${id}/`;
+export const STOCK_TRANSFERS = "/api/products/stock-transfers/";
+
+// SHIFTS
+export const SHIFTS = "/api/products/shifts/";
+export const SHIFT = (id: string | number) => `/api/products/shifts/${id}/`;
+export const SHIFT_CURRENT = "/api/products/shifts/current/";
+export const SHIFT_CLOSE = (id: string | number) =>
+  `/api/products/shifts/${id}/close/`;
+export const SHIFT_PAYOUTS = (id: string | number) =>
+  `/api/products/shifts/${id}/payouts/`;
+
+// STOCK ADJUSTMENTS
+export const STOCK_ADJUSTMENTS = "/api/products/stock-adjustments/";
+export const STOCK_ADJUSTMENTS_BULK = "/api/products/stock-adjustments/bulk/";
+
 // NOTIFICATIONS
 export const NOTIFICATIONS = "/api/products/notifications/"; // /api/products/notifications?page=0&page_size=3
 export const NOTIFICATION = (id: string | number) =>
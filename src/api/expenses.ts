@@ -1,4 +1,24 @@
 import { apiClient } from "./client";
+import { EXPENSE, EXPENSES } from "./endpoints";
+import { MULTIPART_CONFIG, readImage, toFormData } from "./formData";
+import type { PaginatedResponse } from "./sales";
+
+const normalizeEndpoint = (endpoint: string) =>
+  endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
+
+export const EXPENSE_CATEGORIES = [
+  "Rent",
+  "Salaries",
+  "Utilities",
+  "Transport",
+  "Supplies",
+  "Maintenance",
+  "Marketing",
+  "Taxes & fees",
+  "Other",
+] as const;
+
+export type ExpenseFrequency = "weekly" | "monthly" | "yearly";
 
 export interface ApiExpense {
   id: number;
@@ -6,10 +26,102 @@ export interface ApiExpense {
   description?: string | null;
   amount: string;
   date: string;
+  // Recurring expenses (rent, salaries) repeat on this schedule
+  is_recurring?: boolean;
+  frequency?: ExpenseFrequency | null;
+  receipt?: string | null;
   created_at?: string;
 }
 
-export async function listExpenses(): Promise<ApiExpense[]> {
-  const response = await apiClient.get<ApiExpense[]>("/products/expenses/");
+export interface ExpensePayload {
+  category: string;
+  description?: string;
+  amount: number;
+  date: string;
+  is_recurring: boolean;
+  frequency?: ExpenseFrequency | null;
+}
+
+export async function listExpenses(params?: {
+  period?: string;
+  start_date?: string;
+  end_date?: string;
+  category?: string;
+  page?: number;
+  page_size?: number;
+}): Promise<ApiExpense[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiExpense> | ApiExpense[]
+  >(normalizeEndpoint(EXPENSES), { params });
+  return Array.isArray(response.data)
+    ? response.data
+    : response.data.results || [];
+}
+
+// Walk every page of expenses, zero-based like the other list calls and
+// capped the same way.
+export async function listAllExpenses(params?: {
+  page_size?: number;
+  maxPages?: number;
+}): Promise<ApiExpense[]> {
+  const { maxPages = 50, page_size = 100 } = params ?? {};
+  const expenses: ApiExpense[] = [];
+
+  for (let page = 0; page < maxPages; page += 1) {
+    const response = await apiClient.get<
+      PaginatedResponse<ApiExpense> | ApiExpense[]
+    >(normalizeEndpoint(EXPENSES), { params: { page, page_size } });
+    if (Array.isArray(response.data)) {
+      expenses.push(...response.data);
+      break;
+    }
+    expenses.push(...(response.data.results || []));
+    if (!response.data.next || !response.data.results?.length) break;
+  }
+
+  return expenses;
+}
+
+// Attach the receipt photo as a multipart upload when there is a new one
+const buildBody = (
+  payload: Partial<ExpensePayload>,
+  receipt?: { uri: string; type?: string; fileName?: string } | null,
+) => {
+  const image = readImage(receipt);
+  if (!image) return { body: payload as unknown, config: undefined };
+  return {
+    body: toFormData({ ...payload, receipt: image }) as unknown,
+    config: MULTIPART_CONFIG,
+  };
+};
+
+export async function createExpense(
+  payload: ExpensePayload,
+  receipt?: { uri: string; type?: string; fileName?: string } | null,
+): Promise<ApiExpense> {
+  const { body, config } = buildBody(payload, receipt);
+  const response = await apiClient.post<ApiExpense>(
+    normalizeEndpoint(EXPENSES),
+    body,
+    config,
+  );
   return response.data;
 }
+
+export async function updateExpense(
+  id: string | number,
+  payload: Partial<ExpensePayload>,
+  receipt?: { uri: string; type?: string; fileName?: string } | null,
+): Promise<ApiExpense> {
+  const { body, config } = buildBody(payload, receipt);
+  const response = await apiClient.patch<ApiExpense>(
+    normalizeEndpoint(EXPENSE(id)),
+    body,
+    config,
+  );
+  return response.data;
+}
+
+export async function deleteExpense(id: string | number): Promise<void> {
+  await apiClient.delete(normalizeEndpoint(EXPENSE(id)));
+}
@@ -1,4 +1,5 @@
 export * from "./auth";
+export * from "./branches";
 export * from "./client";
 export * from "./constants";
 export * from "./dashboard";
@@ -6,6 +7,8 @@ export * from "./expenses";
 export * from "./notifications";
 export * from "./products";
 export * from "./sales";
+export * from "./shifts";
+export * from "./staff";
 export * from "./tokenStorage";
 export * from "./types";
 
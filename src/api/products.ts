@@ -1,10 +1,19 @@
+import type { ApiBranchStock, BranchScope } from "./branches";
 import { apiClient } from "./client";
 import {
     PRODUCTS_ITEM,
     PRODUCTS_ITEMS,
+    PRODUCTS_SUPPLIER,
+    PRODUCTS_SUPPLIERS,
     PRODUCTS_USER_INVENTORY,
+    PRODUCTS_USER_INVENTORY_ADD,
     PRODUCTS_USER_INVENTORY_ITEM,
+    PRODUCTS_USER_INVENTORY_VARIANTS,
+    RESTOCK_BY_PRODUCT,
     RESTOCKS,
+    RESTOCKS_RECENT,
+    STOCK_ADJUSTMENTS,
+    STOCK_ADJUSTMENTS_BULK,
 } from "./endpoints";
 import { MULTIPART_CONFIG, readImage, toFormData } from "./formData";
 
@@ -60,11 +69,22 @@ export interface ApiUserInventoryItem {
   quantity_type?: string;
   cost_price: string;
   selling_price: string;
+  // Carton packaging; cost and selling price above are per piece
+  units_per_carton?: number | null;
+  carton_cost_price?: string | null;
+  carton_selling_price?: string | null;
+  // Variants (a size, colour or flavour) point at their parent product
+  parent?: number | null;
+  variant_attributes?: Record<string, string> | null;
   low_stock_threshold?: number;
   expiry_date?: string | null;
+  // Batch of the stock the product was first added with
+  lot_number?: string | null;
   supplier_name?: string | null;
   supplier_phone?: string | null;
   image_url?: string | null;
+  // Stock held at each branch; units_in_stock is the active branch's share
+  branch_stock?: ApiBranchStock[];
   added_at?: string;
   updated_at?: string;
 }
@@ -95,13 +115,120 @@ export interface RestockPayload {
   quantity_type: string;
   cost_price: string;
   selling_price: string;
+  units_per_carton?: number;
+  carton_cost_price?: string;
+  carton_selling_price?: string;
   low_stock_threshold: number;
   supplier_phone: string;
   date_arrived: string;
   expiry_date?: string;
+  lot_number?: string;
   notes?: string;
 }
 
+// What the add-product form sends for a new item in the user's inventory
+export interface InventoryItemPayload {
+  name: string;
+  category: string;
+  barcode?: string;
+  cost_price: string;
+  selling_price: string;
+  units_in_stock: number;
+  unit_type?: string;
+  low_stock_threshold?: number;
+  expiry_date?: string;
+  lot_number?: string;
+  supplier_name?: string;
+  supplier_phone?: string;
+}
+
+// A variant inherits its parent's name, category and supplier; only what
+// differs between sizes or flavours is sent.
+export interface VariantPayload {
+  variant_attributes: Record<string, string>;
+  barcode?: string;
+  cost_price: string;
+  selling_price: string;
+  units_in_stock: number;
+  low_stock_threshold?: number;
+}
+
+export interface ApiRestock {
+  id: number;
+  inventory?: number;
+  product_name?: string;
+  quantity_added: number;
+  buying_price: string;
+  selling_price?: string;
+  supplier?: number | null;
+  supplier_name?: string | null;
+  supplier_phone?: string | null;
+  date_arrived?: string | null;
+  expiry_date?: string | null;
+  lot_number?: string | null;
+  notes?: string | null;
+  created_at?: string;
+}
+
+// Why stock changed outside a sale or restock, kept for audit
+export type StockAdjustmentReason =
+  | "damaged"
+  | "expired"
+  | "personal_use"
+  | "gift"
+  | "correction"
+  | "theft"
+  | "count_error";
+
+export interface ApiStockAdjustment {
+  id: number;
+  inventory: number;
+  product_name?: string;
+  previous_quantity: number;
+  new_quantity: number;
+  difference: number;
+  unit_cost?: string | null;
+  reason: StockAdjustmentReason;
+  notes?: string | null;
+  source?: "stock_take" | "manual";
+  created_by_name?: string | null;
+  created_at?: string;
+}
+
+export interface StockAdjustmentPayload {
+  inventory: number;
+  // Pieces added (positive) or taken off (negative)
+  difference: number;
+  reason: StockAdjustmentReason;
+  notes?: string;
+  unit_cost: string;
+  source: "stock_take" | "manual";
+}
+
+export interface StockAdjustmentBatchPayload {
+  reason: StockAdjustmentReason;
+  notes?: string;
+  source: "stock_take" | "manual";
+  // Differences rather than new totals, so stock sold while a count ran
+  // isn't put back
+  adjustments: {
+    inventory: number;
+    difference: number;
+    unit_cost: string;
+  }[];
+}
+
+export interface ApiSupplier {
+  id: number;
+  name: string;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  notes?: string | null;
+}
+
+export type SupplierPayload = Omit<ApiSupplier, "id">;
+
 export async function listProducts(params?: {
   search?: string;
   filter?: "inStock" | "outOfStock" | "expiring";
@@ -124,6 +251,8 @@ export async function listUserInventory(params?: {
   page_size?: number;
   category?: number;
   sort?: "recent" | "name" | "name_desc";
+  parent?: number;
+  branch?: BranchScope;
 }): Promise<PaginatedResponse<ApiUserInventoryItem>> {
   const response = await apiClient.get<
     PaginatedResponse<ApiUserInventoryItem> | ApiUserInventoryItem[]
@@ -143,6 +272,36 @@ export async function listUserInventory(params?: {
   return response.data;
 }
 
+// Walk every page of the inventory, for screens that group or total it.
+export async function listAllUserInventory(params?: {
+  page_size?: number;
+  maxPages?: number;
+  branch?: BranchScope;
+}): Promise<ApiUserInventoryItem[]> {
+  const { maxPages = 50, page_size = 100, branch } = params ?? {};
+  const items: ApiUserInventoryItem[] = [];
+
+  for (let page = 0; page < maxPages; page += 1) {
+    const response = await listUserInventory({ page, page_size, branch });
+    items.push(...response.results);
+    if (!response.next || response.results.length === 0) break;
+  }
+
+  return items;
+}
+
+// Look a scanned code up in the user's inventory. The list endpoint only does
+// a fuzzy search, so keep the exact barcode match (or null when none).
+export async function findInventoryItemByBarcode(
+  barcode: string,
+): Promise<ApiUserInventoryItem | null> {
+  const code = barcode.trim();
+  if (!code) return null;
+
+  const { results } = await listUserInventory({ search: code, page_size: 20 });
+  return results.find((item) => (item.barcode || "").trim() === code) ?? null;
+}
+
 export async function getProduct(id: string | number): Promise<ApiProduct> {
   const response = await apiClient.get<ApiProduct>(
     normalizeEndpoint(PRODUCTS_ITEM(id)),
@@ -159,6 +318,95 @@ export async function getUserInventoryItem(
   return response.data;
 }
 
+export async function addInventoryItem(
+  payload: InventoryItemPayload,
+): Promise<ApiUserInventoryItem> {
+  const response = await apiClient.post<ApiUserInventoryItem>(
+    normalizeEndpoint(PRODUCTS_USER_INVENTORY_ADD),
+    payload,
+  );
+  return response.data;
+}
+
+export async function listVariants(
+  parentId: string | number,
+): Promise<ApiUserInventoryItem[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiUserInventoryItem> | ApiUserInventoryItem[]
+  >(normalizeEndpoint(PRODUCTS_USER_INVENTORY_VARIANTS(parentId)));
+  return toResultArray(response.data);
+}
+
+export async function createVariant(
+  parentId: string | number,
+  payload: VariantPayload,
+): Promise<ApiUserInventoryItem> {
+  const response = await apiClient.post<ApiUserInventoryItem>(
+    normalizeEndpoint(PRODUCTS_USER_INVENTORY_VARIANTS(parentId)),
+    payload,
+  );
+  return response.data;
+}
+
+export async function listRestocks(params?: {
+  supplier?: number;
+  inventory?: number;
+  page?: number;
+  page_size?: number;
+  branch?: BranchScope;
+}): Promise<ApiRestock[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiRestock> | ApiRestock[]
+  >(normalizeEndpoint(RESTOCKS), { params });
+  return toResultArray(response.data);
+}
+
+// Walk every page of restock history, for costing and batch tracking that
+// need each delivery rather than the most recent few hundred.
+export async function listAllRestocks(params?: {
+  supplier?: number;
+  page_size?: number;
+  maxPages?: number;
+  branch?: BranchScope;
+}): Promise<ApiRestock[]> {
+  const { maxPages = 50, page_size = 100, ...filters } = params ?? {};
+  const restocks: ApiRestock[] = [];
+
+  for (let page = 0; page < maxPages; page += 1) {
+    const response = await apiClient.get<
+      PaginatedResponse<ApiRestock> | ApiRestock[]
+    >(normalizeEndpoint(RESTOCKS), {
+      params: { ...filters, page, page_size },
+    });
+    if (Array.isArray(response.data)) {
+      restocks.push(...response.data);
+      break;
+    }
+    restocks.push(...response.data.results);
+    if (!response.data.next || response.data.results.length === 0) break;
+  }
+
+  return restocks;
+}
+
+export async function listRestocksByProduct(
+  inventoryId: string | number,
+): Promise<ApiRestock[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiRestock> | ApiRestock[]
+  >(normalizeEndpoint(RESTOCK_BY_PRODUCT(inventoryId)));
+  return toResultArray(response.data);
+}
+
+export async function listRecentRestocks(params?: {
+  limit?: number;
+}): Promise<ApiRestock[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiRestock> | ApiRestock[]
+  >(normalizeEndpoint(RESTOCKS_RECENT), { params });
+  return toResultArray(response.data);
+}
+
 export async function createRestock(payload: RestockPayload): Promise<any> {
   const response = await apiClient.post<any>(
     normalizeEndpoint(RESTOCKS),
@@ -167,6 +415,40 @@ export async function createRestock(payload: RestockPayload): Promise<any> {
   return response.data;
 }
 
+export async function listStockAdjustments(params?: {
+  inventory?: number;
+  period?: string;
+  start_date?: string;
+  end_date?: string;
+  page?: number;
+  page_size?: number;
+}): Promise<ApiStockAdjustment[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiStockAdjustment> | ApiStockAdjustment[]
+  >(normalizeEndpoint(STOCK_ADJUSTMENTS), { params });
+  return toResultArray(response.data);
+}
+
+export async function createStockAdjustment(
+  payload: StockAdjustmentPayload,
+): Promise<ApiStockAdjustment> {
+  const response = await apiClient.post<ApiStockAdjustment>(
+    normalizeEndpoint(STOCK_ADJUSTMENTS),
+    payload,
+  );
+  return response.data;
+}
+
+// Applies every adjustment together so a stock-take lands all or nothing.
+export async function createStockAdjustments(
+  payload: StockAdjustmentBatchPayload,
+): Promise<ApiStockAdjustment[]> {
+  const response = await apiClient.post<
+    PaginatedResponse<ApiStockAdjustment> | ApiStockAdjustment[]
+  >(normalizeEndpoint(STOCK_ADJUSTMENTS_BULK), payload);
+  return toResultArray(response.data);
+}
+
 export async function createProduct(
   payload: ProductPayload,
 ): Promise<ApiProduct> {
@@ -255,3 +537,28 @@ export async function listSuppliers(): Promise<
   const response = await apiClient.get("/products/suppliers/");
   return response.data;
 }
+
+export async function createSupplier(
+  payload: SupplierPayload,
+): Promise<ApiSupplier> {
+  const response = await apiClient.post<ApiSupplier>(
+    normalizeEndpoint(PRODUCTS_SUPPLIERS),
+    payload,
+  );
+  return response.data;
+}
+
+export async function updateSupplier(
+  id: string | number,
+  payload: Partial<SupplierPayload>,
+): Promise<ApiSupplier> {
+  const response = await apiClient.patch<ApiSupplier>(
+    normalizeEndpoint(PRODUCTS_SUPPLIER(id)),
+    payload,
+  );
+  return response.data;
+}
+
+export async function deleteSupplier(id: string | number): Promise<void> {
+  await apiClient.delete(normalizeEndpoint(PRODUCTS_SUPPLIER(id)));
+}
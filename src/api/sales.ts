@@ -1,5 +1,12 @@
+import type { BranchScope } from "./branches";
 import { apiClient } from "./client";
-import { SALE, SALES, SALE_RECORD_PAYMENT } from "./endpoints";
+import {
+    REFUNDS,
+    SALE,
+    SALES,
+    SALE_RECORD_PAYMENT,
+    SALE_REFUND,
+} from "./endpoints";
 
 const normalizeEndpoint = (endpoint: string) =>
   endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
@@ -24,6 +31,47 @@ export interface ApiSaleItem {
   subtotal?: string | number;
   profit?: string | number;
   product_image?: string | null;
+  sale_unit?: "piece" | "carton";
+  sale_quantity?: number;
+  sale_unit_price?: string | number;
+}
+
+// One tender line of a sale, e.g. part cash and part transfer.
+export interface SalePayment {
+  method: string;
+  amount: string;
+}
+
+// Units returned from a sale. Negative money flows in reports.
+export interface ApiRefundItem {
+  sale_item?: number;
+  inventory?: number;
+  product?: number;
+  product_name?: string;
+  quantity: number;
+  amount?: string | number;
+  profit?: string | number;
+}
+
+export interface ApiRefund {
+  id: number;
+  sale: number;
+  reason: string;
+  refund_method: string;
+  restock: boolean;
+  amount: string | number;
+  profit?: string | number;
+  items: ApiRefundItem[];
+  created_at?: string;
+}
+
+export interface CreateRefundPayload {
+  items: { sale_item?: number; inventory?: number; quantity: number }[];
+  reason: string;
+  refund_method: string;
+  restock: boolean;
+  // Cash refunds come out of the drawer of the shift that was open
+  shift?: number;
 }
 
 export interface ApiSale {
@@ -39,25 +87,58 @@ export interface ApiSale {
   total_profit?: string | number;
   sold_by?: number;
   sold_by_name?: string;
+  branch?: number | null;
+  branch_name?: string | null;
   success_message?: string;
   transaction_ref?: string;
+  payments?: SalePayment[];
+  change_given?: string | null;
+  refunds?: ApiRefund[];
+  refunded_amount?: string | number | null;
   items: ApiSaleItem[];
   created_at?: string;
 }
 
 export interface CreateSalePayload {
+  // Pinned when the sale is made, so a queued sale isn't booked to whichever
+  // branch is active when the outbox finally syncs
+  branch?: number;
+  // Pinned the same way, so the sale counts towards that shift's drawer
+  shift?: number;
   payment_method: string;
   notes?: string;
   customer_name?: string;
   customer_phone?: string;
   amount_owed?: string;
   amount_paid?: string;
+  payments?: SalePayment[];
+  change_given?: string;
   items: Array<{
-    product: number;
+    product?: number;
+    inventory?: number;
     quantity: number;
+    unit_price?: string;
+    // Set when sold by the carton; quantity and unit_price stay per piece
+    sale_unit?: "piece" | "carton";
+    sale_quantity?: number;
+    sale_unit_price?: string;
+    // The line's total as charged. A carton's per-piece unit_price is
+    // rounded (1000 / 12), so the total is sent rather than multiplied back
+    subtotal?: string;
+    // Batches the units came out of, first expiry first out
+    batches?: {
+      restock?: number;
+      lot_number?: string;
+      quantity: number;
+    }[];
   }>;
 }
 
+export interface CreateSaleOptions {
+  // Sent as the Idempotency-Key header so a replayed sale is only recorded once.
+  idempotencyKey?: string;
+}
+
 const normalizeSales = (sales: ApiSale[]): ApiSale[] =>
   sales.map((sale) => ({
     ...sale,
@@ -74,6 +155,7 @@ export async function listSalesPaginated(params?: {
   search?: string;
   page?: number;
   page_size?: number;
+  branch?: BranchScope;
 }): Promise<PaginatedResponse<ApiSale>> {
   const response = await apiClient.get<PaginatedResponse<ApiSale> | ApiSale[]>(
     normalizeEndpoint(SALES),
@@ -105,15 +187,46 @@ export async function listSales(params?: {
   return response.results;
 }
 
+// Walk every page of sales (pages are zero-based, like the rest of the app's
+// list calls). Capped so a misbehaving `next` link can't loop forever.
+export async function listAllSales(params?: {
+  search?: string;
+  page_size?: number;
+  maxPages?: number;
+  branch?: BranchScope;
+}): Promise<ApiSale[]> {
+  const { maxPages = 50, page_size = 100, search, branch } = params ?? {};
+  const sales: ApiSale[] = [];
+
+  for (let page = 0; page < maxPages; page += 1) {
+    const response = await listSalesPaginated({
+      search,
+      page,
+      page_size,
+      branch,
+    });
+    sales.push(...response.results);
+    if (!response.next || response.results.length === 0) break;
+  }
+
+  return sales;
+}
+
 export async function getSale(id: string | number): Promise<ApiSale> {
   const response = await apiClient.get<ApiSale>(normalizeEndpoint(SALE(id)));
   return response.data;
 }
 
-export async function createSale(payload: CreateSalePayload): Promise<ApiSale> {
+export async function createSale(
+  payload: CreateSalePayload,
+  options?: CreateSaleOptions,
+): Promise<ApiSale> {
   const response = await apiClient.post<ApiSale>(
     normalizeEndpoint(SALES),
     payload,
+    options?.idempotencyKey
+      ? { headers: { "Idempotency-Key": options.idempotencyKey } }
+      : undefined,
   );
   return response.data;
 }
@@ -122,6 +235,61 @@ export async function deleteSale(id: string | number): Promise<void> {
   await apiClient.delete(normalizeEndpoint(SALE(id)));
 }
 
+// Return some or all of a sale's items; the sale itself stays on record.
+export async function createRefund(
+  saleId: string | number,
+  payload: CreateRefundPayload,
+): Promise<ApiRefund> {
+  const response = await apiClient.post<ApiRefund>(
+    normalizeEndpoint(SALE_REFUND(saleId)),
+    payload,
+  );
+  return response.data;
+}
+
+export async function listRefunds(params?: {
+  period?: string;
+  start_date?: string;
+  end_date?: string;
+  sale?: number;
+  page?: number;
+  page_size?: number;
+}): Promise<ApiRefund[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiRefund> | ApiRefund[]
+  >(normalizeEndpoint(REFUNDS), { params });
+  return Array.isArray(response.data)
+    ? response.data
+    : response.data.results || [];
+}
+
+// Walk every page of refunds, so costing and batch tracking can put restocked
+// returns back on the shelf.
+export async function listAllRefunds(params?: {
+  page_size?: number;
+  maxPages?: number;
+  branch?: BranchScope;
+}): Promise<ApiRefund[]> {
+  const { maxPages = 50, page_size = 100, ...filters } = params ?? {};
+  const refunds: ApiRefund[] = [];
+
+  for (let page = 0; page < maxPages; page += 1) {
+    const response = await apiClient.get<
+      PaginatedResponse<ApiRefund> | ApiRefund[]
+    >(normalizeEndpoint(REFUNDS), {
+      params: { ...filters, page, page_size },
+    });
+    if (Array.isArray(response.data)) {
+      refunds.push(...response.data);
+      break;
+    }
+    refunds.push(...response.data.results);
+    if (!response.data.next || response.data.results.length === 0) break;
+  }
+
+  return refunds;
+}
+
 export async function recordSalePayment(
   id: string | number,
   amount: number,
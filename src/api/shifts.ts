@@ -0,0 +1,135 @@
+import { apiClient } from "./client";
+import {
+    SHIFT,
+    SHIFT_CLOSE,
+    SHIFT_CURRENT,
+    SHIFT_PAYOUTS,
+    SHIFTS,
+} from "./endpoints";
+import type { PaginatedResponse } from "./sales";
+
+const normalizeEndpoint = (endpoint: string) =>
+  endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
+
+export type ShiftStatus = "open" | "closed";
+
+// How many notes or coins of one value were counted into the drawer
+export interface DenominationCount {
+  value: number;
+  count: number;
+}
+
+export interface ApiCashPayout {
+  id: number;
+  shift: number;
+  amount: string;
+  reason: string;
+  created_by_name?: string | null;
+  created_at?: string;
+}
+
+export interface ApiShift {
+  id: number;
+  status: ShiftStatus;
+  branch?: number | null;
+  branch_name?: string | null;
+  opened_by_name?: string | null;
+  opened_at: string;
+  opening_float: string;
+  // Running totals for sales and refunds booked to this shift
+  transactions?: number;
+  cash_sales?: string | number | null;
+  non_cash_sales?: string | number | null;
+  cash_refunds?: string | number | null;
+  payouts_total?: string | number | null;
+  payouts?: ApiCashPayout[];
+  // Filled in once the drawer has been counted
+  expected_cash?: string | number | null;
+  counted_cash?: string | number | null;
+  over_short?: string | number | null;
+  denominations?: DenominationCount[] | null;
+  closed_by_name?: string | null;
+  closed_at?: string | null;
+  notes?: string | null;
+}
+
+export interface OpenShiftPayload {
+  opening_float: string;
+  notes?: string;
+}
+
+export interface CloseShiftPayload {
+  counted_cash: string;
+  denominations: DenominationCount[];
+  notes?: string;
+}
+
+export interface CashPayoutPayload {
+  amount: string;
+  reason: string;
+}
+
+// The shift open on this branch, or null when the drawer is closed
+export async function getCurrentShift(): Promise<ApiShift | null> {
+  try {
+    const response = await apiClient.get<ApiShift | null>(
+      normalizeEndpoint(SHIFT_CURRENT),
+    );
+    return response.data?.id ? response.data : null;
+  } catch (error: any) {
+    if (error?.response?.status === 404) return null;
+    throw error;
+  }
+}
+
+export async function listShifts(params?: {
+  status?: ShiftStatus;
+  page_size?: number;
+}): Promise<ApiShift[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiShift> | ApiShift[]
+  >(normalizeEndpoint(SHIFTS), { params });
+  return Array.isArray(response.data)
+    ? response.data
+    : response.data.results || [];
+}
+
+export async function getShift(id: string | number): Promise<ApiShift> {
+  const response = await apiClient.get<ApiShift>(normalizeEndpoint(SHIFT(id)));
+  return response.data;
+}
+
+export async function openShift(payload: OpenShiftPayload): Promise<ApiShift> {
+  const response = await apiClient.post<ApiShift>(
+    normalizeEndpoint(SHIFTS),
+    payload,
+  );
+  return response.data;
+}
+
+/**
+ * Counts the drawer and closes the shift. The server works out expected cash
+ * and the over/short from the sales, refunds and payouts booked to it.
+ */
+export async function closeShift(
+  id: string | number,
+  payload: CloseShiftPayload,
+): Promise<ApiShift> {
+  const response = await apiClient.post<ApiShift>(
+    normalizeEndpoint(SHIFT_CLOSE(id)),
+    payload,
+  );
+  return response.data;
+}
+
+// Cash taken out of the drawer mid-shift, e.g. to pay a delivery
+export async function createCashPayout(
+  shiftId: string | number,
+  payload: CashPayoutPayload,
+): Promise<ApiCashPayout> {
+  const response = await apiClient.post<ApiCashPayout>(
+    normalizeEndpoint(SHIFT_PAYOUTS(shiftId)),
+    payload,
+  );
+  return response.data;
+}
@@ -0,0 +1,66 @@
+import { requestOtp } from "./auth";
+import { apiClient } from "./client";
+import { STAFF, STAFF_MEMBER } from "./endpoints";
+import type { PaginatedResponse } from "./sales";
+import type { StaffRole } from "./types";
+
+const normalizeEndpoint = (endpoint: string) =>
+  endpoint.startsWith("/api/") ? endpoint.replace(/^\/api/, "") : endpoint;
+
+export interface ApiStaffMember {
+  id: number;
+  // The staff member's user id, matching `sold_by` on their sales
+  user?: number | null;
+  phone: string;
+  name?: string | null;
+  role: StaffRole;
+  // False until the invited phone number has signed in with its code
+  is_active?: boolean;
+  invited_at?: string | null;
+  last_login?: string | null;
+}
+
+export interface InviteStaffPayload {
+  phone: string;
+  name?: string;
+  role: StaffRole;
+}
+
+export async function listStaff(): Promise<ApiStaffMember[]> {
+  const response = await apiClient.get<
+    PaginatedResponse<ApiStaffMember> | ApiStaffMember[]
+  >(normalizeEndpoint(STAFF));
+  return Array.isArray(response.data)
+    ? response.data
+    : response.data.results || [];
+}
+
+/**
+ * Adds the phone number to the business, then sends it a sign-in code so
+ * the new staff member can log in from their own phone straight away.
+ */
+export async function inviteStaff(
+  payload: InviteStaffPayload,
+): Promise<ApiStaffMember> {
+  const response = await apiClient.post<ApiStaffMember>(
+    normalizeEndpoint(STAFF),
+    payload,
+  );
+  await requestOtp(payload.phone);
+  return response.data;
+}
+
+export async function updateStaffRole(
+  id: string | number,
+  role: StaffRole,
+): Promise<ApiStaffMember> {
+  const response = await apiClient.patch<ApiStaffMember>(
+    normalizeEndpoint(STAFF_MEMBER(id)),
+    { role },
+  );
+  return response.data;
+}
+
+export async function removeStaff(id: string | number): Promise<void> {
+  await apiClient.delete(normalizeEndpoint(STAFF_MEMBER(id)));
+}
@@ -3,6 +3,8 @@ export interface TokenPair {
   refresh: string;
 }
 
+export type StaffRole = "owner" | "manager" | "cashier";
+
 export interface UserProfile {
   id: number;
   phone: string;
@@ -10,6 +12,11 @@ export interface UserProfile {
   business_name?: string | null;
   business_type?: string | null;
   profile_image?: string | null;
+  // ISO 4217 code and BCP 47 locale for money and dates, e.g. "GHS", "en-GH"
+  currency?: string | null;
+  locale?: string | null;
+  // Missing for accounts created before staff roles, which are all owners
+  role?: StaffRole | null;
 }
 
 export interface RegisterRequest {
@@ -0,0 +1,31 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+// The branch this device is working in. The API client scopes stock, sales
+// and lists to it; both stay null for a business without branches.
+interface BranchState {
+  branchId: number | null;
+  branchName: string | null;
+  setBranch: (branch: { id: number; name: string } | null) => void;
+}
+
+const useBranchStore = create<BranchState>()(
+  persist(
+    (set) => ({
+      branchId: null,
+      branchName: null,
+      setBranch: (branch) =>
+        set({
+          branchId: branch?.id ?? null,
+          branchName: branch?.name ?? null,
+        }),
+    }),
+    {
+      name: "inventra_branch",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useBranchStore;
@@ -0,0 +1,265 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+import type { Product } from "@/components/homeTypes";
+import {
+    formatStockQuantity,
+    getDefaultSaleUnit,
+    getUnitLabel,
+    getUnitPrice,
+    getUnitSize,
+    toBaseUnits,
+    type SaleUnit,
+} from "@/utils/units";
+
+// One product in the cart. unitPrice is snapshotted when the item is added so
+// a price edit mid-sale does not change what the customer was quoted.
+// quantity and unitPrice are in the line's unit (a piece or a whole carton).
+export interface CartLine {
+  id: string; // inventory id
+  quantity: number;
+  unitPrice: number;
+  unit?: SaleUnit; // missing on carts saved before carton selling: pieces
+  product: Product;
+  addedAt: string;
+}
+
+// A cart set aside so the cashier can serve someone else in the meantime.
+export interface ParkedCart {
+  id: string;
+  label: string;
+  lines: CartLine[];
+  parkedAt: string;
+}
+
+export type CartResult = { ok: true } | { ok: false; reason: string };
+
+interface CartState {
+  lines: CartLine[];
+  parked: ParkedCart[];
+  addItem: (
+    product: Product,
+    quantity?: number,
+    unit?: SaleUnit,
+  ) => CartResult;
+  setQuantity: (id: string, quantity: number) => CartResult;
+  setUnit: (id: string, unit: SaleUnit) => CartResult;
+  increment: (id: string) => CartResult;
+  decrement: (id: string) => void;
+  removeItem: (id: string) => void;
+  clearCart: () => void;
+  syncStock: (products: Product[]) => void;
+  parkCart: (label?: string) => CartResult;
+  resumeCart: (id: string) => void;
+  discardParked: (id: string) => void;
+}
+
+const OK: CartResult = { ok: true };
+
+const stockLimit = (
+  product: Product,
+  quantity: number,
+  unit: SaleUnit = "piece",
+): CartResult => {
+  if (product.unitsInStock <= 0) {
+    return { ok: false, reason: `${product.name} is out of stock.` };
+  }
+  if (toBaseUnits(quantity, product, unit) > product.unitsInStock) {
+    const available =
+      unit === "carton"
+        ? formatStockQuantity(product.unitsInStock, getUnitSize(product, unit))
+        : `${product.unitsInStock} units`;
+    return {
+      ok: false,
+      reason: `Only ${available} of ${product.name} available in stock.`,
+    };
+  }
+  return OK;
+};
+
+export const getLineUnit = (line: CartLine): SaleUnit => line.unit ?? "piece";
+
+/** Pieces the line takes out of stock. */
+export const getLineBaseQuantity = (line: CartLine): number =>
+  toBaseUnits(line.quantity, line.product, getLineUnit(line));
+
+/** e.g. "2 cartons" or "3 pcs", for showing a line's quantity. */
+export const formatLineQuantity = (line: CartLine): string =>
+  `${line.quantity} ${getUnitLabel(getLineUnit(line), line.quantity)}`;
+
+export const getCartTotal = (lines: CartLine[]): number =>
+  lines.reduce((total, line) => total + line.unitPrice * line.quantity, 0);
+
+export const getCartCount = (lines: CartLine[]): number =>
+  lines.reduce((total, line) => total + line.quantity, 0);
+
+// Lines asking for more than is (now) in stock, e.g. after another sale.
+export const getStockProblems = (lines: CartLine[]): string[] =>
+  lines
+    .map((line) => stockLimit(line.product, line.quantity, getLineUnit(line)))
+    .flatMap((result) => (result.ok ? [] : [result.reason]));
+
+const useCartStore = create<CartState>()(
+  persist(
+    (set, get) => ({
+      lines: [],
+      parked: [],
+
+      addItem: (product, quantity = 1, unit) => {
+        const existing = get().lines.find((line) => line.id === product.id);
+        const lineUnit = existing
+          ? getLineUnit(existing)
+          : (unit ?? getDefaultSaleUnit(product));
+        const nextQuantity = (existing?.quantity ?? 0) + quantity;
+        const result = stockLimit(product, nextQuantity, lineUnit);
+        if (!result.ok) return result;
+
+        set((state) => ({
+          lines: existing
+            ? state.lines.map((line) =>
+                line.id === product.id
+                  ? { ...line, quantity: nextQuantity, product }
+                  : line,
+              )
+            : [
+                ...state.lines,
+                {
+                  id: product.id,
+                  quantity,
+                  unitPrice: getUnitPrice(product, lineUnit),
+                  unit: lineUnit,
+                  product,
+                  addedAt: new Date().toISOString(),
+                },
+              ],
+        }));
+        return OK;
+      },
+
+      setQuantity: (id, quantity) => {
+        const line = get().lines.find((l) => l.id === id);
+        if (!line) return OK;
+        if (quantity < 1) {
+          get().removeItem(id);
+          return OK;
+        }
+        const result = stockLimit(line.product, quantity, getLineUnit(line));
+        if (!result.ok) return result;
+
+        set((state) => ({
+          lines: state.lines.map((l) => (l.id === id ? { ...l, quantity } : l)),
+        }));
+        return OK;
+      },
+
+      // Switch a line between pieces and cartons, keeping the count and
+      // re-pricing it at the new unit's price
+      setUnit: (id, unit) => {
+        const line = get().lines.find((l) => l.id === id);
+        if (!line || getLineUnit(line) === unit) return OK;
+        const result = stockLimit(line.product, line.quantity, unit);
+        if (!result.ok) return result;
+
+        set((state) => ({
+          lines: state.lines.map((l) =>
+            l.id === id
+              ? { ...l, unit, unitPrice: getUnitPrice(l.product, unit) }
+              : l,
+          ),
+        }));
+        return OK;
+      },
+
+      increment: (id) => {
+        const line = get().lines.find((l) => l.id === id);
+        return line ? get().setQuantity(id, line.quantity + 1) : OK;
+      },
+
+      decrement: (id) => {
+        const line = get().lines.find((l) => l.id === id);
+        if (line) get().setQuantity(id, line.quantity - 1);
+      },
+
+      removeItem: (id) =>
+        set((state) => ({ lines: state.lines.filter((l) => l.id !== id) })),
+
+      clearCart: () => set(() => ({ lines: [] })),
+
+      // Refresh stock figures from a fresh inventory fetch; prices stay as
+      // they were when each item was added.
+      syncStock: (products) =>
+        set((state) => {
+          const byId = new Map(products.map((p) => [p.id, p]));
+          if (!state.lines.some((line) => byId.has(line.id))) return state;
+          return {
+            lines: state.lines.map((line) => {
+              const fresh = byId.get(line.id);
+              return fresh
+                ? {
+                    ...line,
+                    product: {
+                      ...line.product,
+                      unitsInStock: fresh.unitsInStock,
+                    },
+                  }
+                : line;
+            }),
+          };
+        }),
+
+      parkCart: (label) => {
+        const { lines, parked } = get();
+        if (lines.length === 0) {
+          return { ok: false, reason: "There is nothing in the cart to hold." };
+        }
+        const parkedAt = new Date().toISOString();
+        set(() => ({
+          lines: [],
+          parked: [
+            ...parked,
+            {
+              id: `cart-${Date.now().toString(36)}`,
+              label: label?.trim() || `Customer ${parked.length + 1}`,
+              lines,
+              parkedAt,
+            },
+          ],
+        }));
+        return OK;
+      },
+
+      // Bring a held cart back; whatever is in the cart now gets held instead
+      resumeCart: (id) =>
+        set((state) => {
+          const target = state.parked.find((c) => c.id === id);
+          if (!target) return state;
+          const others = state.parked.filter((c) => c.id !== id);
+          return {
+            lines: target.lines,
+            parked:
+              state.lines.length > 0
+                ? [
+                    ...others,
+                    {
+                      id: `cart-${Date.now().toString(36)}`,
+                      label: `Customer ${others.length + 1}`,
+                      lines: state.lines,
+                      parkedAt: new Date().toISOString(),
+                    },
+                  ]
+                : others,
+          };
+        }),
+
+      discardParked: (id) =>
+        set((state) => ({ parked: state.parked.filter((c) => c.id !== id) })),
+    }),
+    {
+      name: "inventra_cart",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useCartStore;
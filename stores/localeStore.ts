@@ -0,0 +1,36 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE } from "@/constants/currencies";
+
+// The business's money and date format. It belongs to the profile on the
+// server; this copy lets formatters read it synchronously and offline.
+interface LocaleState {
+  currency: string;
+  locale: string;
+  setFormat: (format: {
+    currency?: string | null;
+    locale?: string | null;
+  }) => void;
+}
+
+const useLocaleStore = create<LocaleState>()(
+  persist(
+    (set) => ({
+      currency: DEFAULT_CURRENCY,
+      locale: DEFAULT_LOCALE,
+      setFormat: ({ currency, locale }) =>
+        set((state) => ({
+          currency: currency || state.currency,
+          locale: locale || state.locale,
+        })),
+    }),
+    {
+      name: "inventra_locale",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useLocaleStore;
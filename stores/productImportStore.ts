@@ -0,0 +1,82 @@
+import type { InventoryItemPayload } from "@/src/api/products";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+export interface ImportJobRow {
+  rowNumber: number;
+  payload: InventoryItemPayload;
+}
+
+// A bulk import in progress. Kept on the device so a dropped connection or an
+// app restart resumes with the rows that weren't created yet.
+export interface ProductImportJob {
+  fileName: string;
+  startedAt: string;
+  rows: ImportJobRow[];
+  // Row numbers already created on the server
+  created: number[];
+  // Last error per row number, cleared once the row goes through
+  failed: Record<string, string>;
+}
+
+interface ProductImportState {
+  job: ProductImportJob | null;
+  startJob: (fileName: string, rows: ImportJobRow[]) => void;
+  markCreated: (rowNumbers: number[]) => void;
+  markFailed: (errors: Record<string, string>) => void;
+  clearJob: () => void;
+}
+
+const useProductImportStore = create<ProductImportState>()(
+  persist(
+    (set) => ({
+      job: null,
+
+      startJob: (fileName, rows) =>
+        set(() => ({
+          job: {
+            fileName,
+            startedAt: new Date().toISOString(),
+            rows,
+            created: [],
+            failed: {},
+          },
+        })),
+
+      markCreated: (rowNumbers) =>
+        set((state) => {
+          if (!state.job) return state;
+          const failed = { ...state.job.failed };
+          rowNumbers.forEach((rowNumber) => delete failed[rowNumber]);
+          return {
+            job: {
+              ...state.job,
+              created: [...state.job.created, ...rowNumbers],
+              failed,
+            },
+          };
+        }),
+
+      markFailed: (errors) =>
+        set((state) =>
+          state.job
+            ? {
+                job: {
+                  ...state.job,
+                  failed: { ...state.job.failed, ...errors },
+                },
+              }
+            : state,
+        ),
+
+      clearJob: () => set(() => ({ job: null })),
+    }),
+    {
+      name: "inventra_product_import",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useProductImportStore;
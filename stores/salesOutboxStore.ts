@@ -0,0 +1,86 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+import type { CreateSalePayload } from "@/src/api/sales";
+
+// A sale that was taken while the server could not be reached.
+// "pending" entries are replayed in order; "conflict" entries were rejected by
+// the server (e.g. insufficient stock) and wait for the cashier to resolve them.
+export interface QueuedSale {
+  id: string; // doubles as the Idempotency-Key sent with the sale
+  payload: CreateSalePayload;
+  total: number;
+  createdAt: string;
+  status: "pending" | "conflict";
+  attempts: number;
+  error?: string;
+}
+
+interface SalesOutboxState {
+  queue: QueuedSale[];
+  isSyncing: boolean;
+  lastSyncedAt: string | null;
+  enqueue: (sale: QueuedSale) => void;
+  remove: (id: string) => void;
+  markAttempted: (id: string) => void;
+  markConflict: (id: string, error: string) => void;
+  retry: (id: string) => void;
+  setSyncing: (isSyncing: boolean) => void;
+  setLastSyncedAt: (date: string) => void;
+}
+
+export const createIdempotencyKey = (): string =>
+  `sale-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const useSalesOutboxStore = create<SalesOutboxState>()(
+  persist(
+    (set) => ({
+      queue: [],
+      isSyncing: false,
+      lastSyncedAt: null,
+
+      // Append at the end so replay keeps the order sales were taken in
+      enqueue: (sale) => set((state) => ({ queue: [...state.queue, sale] })),
+
+      remove: (id) =>
+        set((state) => ({ queue: state.queue.filter((s) => s.id !== id) })),
+
+      markAttempted: (id) =>
+        set((state) => ({
+          queue: state.queue.map((s) =>
+            s.id === id ? { ...s, attempts: s.attempts + 1 } : s,
+          ),
+        })),
+
+      markConflict: (id, error) =>
+        set((state) => ({
+          queue: state.queue.map((s) =>
+            s.id === id ? { ...s, status: "conflict", error } : s,
+          ),
+        })),
+
+      // Put a conflicted sale back in line, keeping its idempotency key
+      retry: (id) =>
+        set((state) => ({
+          queue: state.queue.map((s) =>
+            s.id === id ? { ...s, status: "pending", error: undefined } : s,
+          ),
+        })),
+
+      setSyncing: (isSyncing) => set(() => ({ isSyncing })),
+      setLastSyncedAt: (date) => set(() => ({ lastSyncedAt: date })),
+    }),
+    {
+      name: "inventra_sales_outbox",
+      storage: createJSONStorage(() => AsyncStorage),
+      // isSyncing is runtime-only; a sync never survives an app restart
+      partialize: (state) => ({
+        queue: state.queue,
+        lastSyncedAt: state.lastSyncedAt,
+      }),
+    },
+  ),
+);
+
+export default useSalesOutboxStore;
@@ -0,0 +1,33 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+// How cost of goods sold is worked out from restock lots.
+// "fifo" uses the oldest delivery's price first; "average" blends every
+// delivery still on the shelf into one running cost per unit.
+export type CostingMethod = "fifo" | "average";
+
+interface SettingsState {
+  costingMethod: CostingMethod;
+  // Days before a batch expires that it is flagged, e.g. [30, 14, 3]
+  expiryWarningDays: number[];
+  setCostingMethod: (method: CostingMethod) => void;
+  setExpiryWarningDays: (days: number[]) => void;
+}
+
+const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      costingMethod: "fifo",
+      expiryWarningDays: [30, 14, 3],
+      setCostingMethod: (costingMethod) => set({ costingMethod }),
+      setExpiryWarningDays: (expiryWarningDays) => set({ expiryWarningDays }),
+    }),
+    {
+      name: "inventra_settings",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useSettingsStore;
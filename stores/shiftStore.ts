@@ -0,0 +1,31 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+// The cash drawer shift open on this device. Kept offline so sales taken
+// without a connection are still booked to it.
+interface ShiftState {
+  shiftId: number | null;
+  openedAt: string | null;
+  setShift: (shift: { id: number; opened_at: string } | null) => void;
+}
+
+const useShiftStore = create<ShiftState>()(
+  persist(
+    (set) => ({
+      shiftId: null,
+      openedAt: null,
+      setShift: (shift) =>
+        set({
+          shiftId: shift?.id ?? null,
+          openedAt: shift?.opened_at ?? null,
+        }),
+    }),
+    {
+      name: "inventra_shift",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useShiftStore;
@@ -0,0 +1,98 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+// A physical count in progress. Kept on the device so a count spread over a
+// few hours (or an app restart) carries on where it left off.
+export interface StockTakeSession {
+  startedAt: string;
+  // Counted pieces keyed by inventory id; products not yet counted are absent
+  counts: Record<string, number>;
+  // Stock on record when each product was first counted, so sales made while
+  // the count runs aren't undone when it is committed. Absent on counts
+  // started before this was kept.
+  expected?: Record<string, number>;
+}
+
+interface StockTakeState {
+  session: StockTakeSession | null;
+  start: () => void;
+  setCount: (id: string, count: number, onRecord: number) => void;
+  addToCount: (id: string, quantity: number, onRecord: number) => void;
+  clearCount: (id: string) => void;
+  discard: () => void;
+}
+
+// Keeps the first figure on record; recounting a product doesn't move it
+const withExpected = (
+  session: StockTakeSession,
+  id: string,
+  onRecord: number,
+): Record<string, number> => ({
+  [id]: onRecord,
+  ...session.expected,
+});
+
+const useStockTakeStore = create<StockTakeState>()(
+  persist(
+    (set) => ({
+      session: null,
+
+      start: () =>
+        set(() => ({
+          session: {
+            startedAt: new Date().toISOString(),
+            counts: {},
+            expected: {},
+          },
+        })),
+
+      setCount: (id, count, onRecord) =>
+        set((state) =>
+          state.session
+            ? {
+                session: {
+                  ...state.session,
+                  counts: { ...state.session.counts, [id]: Math.max(0, count) },
+                  expected: withExpected(state.session, id, onRecord),
+                },
+              }
+            : state,
+        ),
+
+      // Each scan of a barcode counts one more on the shelf
+      addToCount: (id, quantity, onRecord) =>
+        set((state) =>
+          state.session
+            ? {
+                session: {
+                  ...state.session,
+                  counts: {
+                    ...state.session.counts,
+                    [id]: (state.session.counts[id] ?? 0) + quantity,
+                  },
+                  expected: withExpected(state.session, id, onRecord),
+                },
+              }
+            : state,
+        ),
+
+      clearCount: (id) =>
+        set((state) => {
+          if (!state.session) return state;
+          const { [id]: _removed, ...counts } = state.session.counts;
+          const { [id]: _expected, ...expected } =
+            state.session.expected ?? {};
+          return { session: { ...state.session, counts, expected } };
+        }),
+
+      discard: () => set(() => ({ session: null })),
+    }),
+    {
+      name: "inventra_stock_take",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
+
+export default useStockTakeStore;
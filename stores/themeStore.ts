@@ -1,24 +1,43 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+import { DEFAULT_ACCENT } from "@/constants/theme";
+
+// "system" follows the phone's light/dark setting
+export type ThemeMode = "system" | "light" | "dark";
+
+export const THEME_MODES: { value: ThemeMode; label: string }[] = [
+  { value: "system", label: "Match system" },
+  { value: "light", label: "Light" },
+  { value: "dark", label: "Dark" },
+];
 
 // Interface for the theme state
 interface ThemeState {
-  isDarkMode: boolean;
+  mode: ThemeMode;
   themeColor: string;
-  toggleTheme: () => void;
+  setMode: (mode: ThemeMode) => void;
   setThemeColor: (color: string) => void;
 }
 
 // Create the theme store using zustand
-const useThemeStore = create<ThemeState>((set) => ({
-  // Initial state values
-  isDarkMode: false,
-  themeColor: "#007AFF", // Default blue color
-
-  // Action to toggle dark mode
-  toggleTheme: () => set((state) => ({ isDarkMode: !state.isDarkMode })),
+const useThemeStore = create<ThemeState>()(
+  persist(
+    (set) => ({
+      mode: "system",
+      themeColor: DEFAULT_ACCENT,
+      setMode: (mode) => set({ mode }),
+      setThemeColor: (themeColor) => set({ themeColor }),
+    }),
+    {
+      name: "inventra_theme",
+      storage: createJSONStorage(() => AsyncStorage),
+    },
+  ),
+);
 
-  // Action to set a new theme color
-  setThemeColor: (color: string) => set(() => ({ themeColor: color })),
-}));
+export const getThemeModeLabel = (mode: ThemeMode): string =>
+  THEME_MODES.find((option) => option.value === mode)?.label ?? mode;
 
 export default useThemeStore;
@@ -0,0 +1,26 @@
+// Offline, timed out or a server hiccup — worth trying again later.
+// Anything else (400/409 for insufficient stock, etc.) is a real rejection.
+export const isRetryableError = (error: any): boolean => {
+  const status: number | undefined = error?.response?.status;
+  if (!status) return true;
+  return status >= 500 || status === 408 || status === 429;
+};
+
+/**
+ * The server's reason for rejecting a request, or `fallback` when it gave
+ * none. A field error is prefixed with its field, e.g. "barcode: already used".
+ */
+export const getApiErrorMessage = (error: any, fallback: string): string => {
+  const data = error?.response?.data;
+  if (typeof data === "string" && data.trim()) return data;
+  if (data?.error) return String(data.error);
+  if (data?.detail) return String(data.detail);
+  if (data && typeof data === "object") {
+    const [field, value] = Object.entries(data)[0] ?? [];
+    const message = Array.isArray(value) ? value[0] : value;
+    if (typeof message === "string" && message) {
+      return field === "non_field_errors" ? message : `${field}: ${message}`;
+    }
+  }
+  return fallback;
+};
@@ -0,0 +1,268 @@
+import type { ApiRestock, ApiUserInventoryItem } from "@/src/api/products";
+import type { ApiRefund, ApiSale } from "@/src/api/sales";
+import { getRefundedLines, getRefundTime } from "./refunds";
+import { getRestockDate } from "./restocks";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days ahead a batch's expiry is flagged, largest first.
+export const DEFAULT_EXPIRY_WINDOWS = [30, 14, 3];
+
+export const EXPIRY_WINDOW_PRESETS: number[][] = [
+  [30, 14, 3],
+  [60, 30, 7],
+  [14, 7, 1],
+  [7, 3, 1],
+];
+
+export const formatExpiryWindows = (windows: number[]): string =>
+  `${[...windows].sort((a, b) => b - a).join(" / ")} days`;
+
+/**
+ * One delivery of a product still being tracked on the shelf. Stock that was
+ * there before the first recorded restock is kept as an "opening" batch.
+ */
+export interface StockBatch {
+  key: string;
+  inventoryId: number;
+  productName: string;
+  restockId?: number;
+  lotNumber: string;
+  expiryDate: Date | null;
+  received: number;
+  remaining: number;
+  receivedAt: number;
+}
+
+export interface BatchAllocation {
+  batch: StockBatch;
+  quantity: number;
+}
+
+const toDate = (value?: string | null): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const getSaleTime = (sale: ApiSale): number =>
+  new Date(sale.sale_date || sale.created_at || 0).getTime() || 0;
+
+/** Soonest expiry first; batches without a date go last, oldest first. */
+export const compareFefo = (a: StockBatch, b: StockBatch): number => {
+  if (a.expiryDate && b.expiryDate) {
+    const diff = a.expiryDate.getTime() - b.expiryDate.getTime();
+    if (diff !== 0) return diff;
+  } else if (a.expiryDate || b.expiryDate) {
+    return a.expiryDate ? -1 : 1;
+  }
+  return a.receivedAt - b.receivedAt;
+};
+
+/**
+ * Takes `quantity` units out of the batches, first expiry first out. Units
+ * beyond what the batches hold are left unallocated.
+ */
+export const allocateFefo = (
+  batches: StockBatch[],
+  quantity: number,
+): BatchAllocation[] => {
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  [...batches]
+    .filter((batch) => batch.remaining > 0)
+    .sort(compareFefo)
+    .forEach((batch) => {
+      if (remaining <= 0) return;
+      const taken = Math.min(remaining, batch.remaining);
+      allocations.push({ batch, quantity: taken });
+      remaining -= taken;
+    });
+
+  return allocations;
+};
+
+const deplete = (batches: StockBatch[], quantity: number) => {
+  allocateFefo(batches, quantity).forEach(({ batch, quantity: taken }) => {
+    batch.remaining -= taken;
+  });
+};
+
+// Puts returned units back, latest expiry first: the batches a sale drew
+// from last are the ones it left partly sold
+const restore = (batches: StockBatch[], quantity: number) => {
+  let remaining = quantity;
+  [...batches]
+    .sort((a, b) => compareFefo(b, a))
+    .forEach((batch) => {
+      if (remaining <= 0) return;
+      const added = Math.min(remaining, batch.received - batch.remaining);
+      if (added <= 0) return;
+      batch.remaining += added;
+      remaining -= added;
+    });
+};
+
+/**
+ * Batches per product with what is left of each, keyed by inventory id.
+ *
+ * Deliveries and sales are replayed in date order and every sale draws from
+ * the batch that expires first. Refunds marked for restock put their units
+ * back into the batch they most likely came from. Anything on the books beyond
+ * today's stock (write-offs, returns not put back) comes off the same way.
+ */
+export const computeBatches = (
+  restocks: ApiRestock[],
+  sales: ApiSale[],
+  inventory: ApiUserInventoryItem[],
+  refunds: ApiRefund[] = [],
+): Map<number, StockBatch[]> => {
+  const names = new Map(inventory.map((item) => [item.id, item.name]));
+  const totals = new Map<number, { sold: number; added: number }>();
+  const getTotals = (inventoryId: number) => {
+    const total = totals.get(inventoryId) ?? { sold: 0, added: 0 };
+    totals.set(inventoryId, total);
+    return total;
+  };
+
+  const events: (
+    | { kind: "restock"; time: number; batch: StockBatch }
+    | {
+        kind: "sale" | "return";
+        time: number;
+        inventoryId: number;
+        quantity: number;
+      }
+  )[] = [];
+
+  restocks.forEach((restock) => {
+    if (restock.inventory == null) return;
+    const received = Number(restock.quantity_added || 0);
+    const time = getRestockDate(restock)?.getTime() ?? 0;
+    getTotals(restock.inventory).added += received;
+    events.push({
+      kind: "restock",
+      time,
+      batch: {
+        key: String(restock.id),
+        inventoryId: restock.inventory,
+        productName:
+          restock.product_name || names.get(restock.inventory) || "Product",
+        restockId: restock.id,
+        lotNumber: restock.lot_number?.trim() || "",
+        expiryDate: toDate(restock.expiry_date),
+        received,
+        remaining: received,
+        receivedAt: time,
+      },
+    });
+  });
+
+  sales.forEach((sale) => {
+    (sale.items ?? []).forEach((item) => {
+      const inventoryId = item.inventory ?? item.product;
+      if (inventoryId == null) return;
+      const quantity = Number(item.quantity || 0);
+      getTotals(inventoryId).sold += quantity;
+      events.push({ kind: "sale", time: getSaleTime(sale), inventoryId, quantity });
+    });
+  });
+
+  const salesById = new Map(sales.map((sale) => [sale.id, sale]));
+  refunds.forEach((refund) => {
+    if (!refund.restock) return;
+    const sale = salesById.get(refund.sale);
+    getRefundedLines(refund, sale).forEach(({ inventoryId, quantity }) => {
+      getTotals(inventoryId).added += quantity;
+      events.push({
+        kind: "return",
+        time: getRefundTime(refund, sale),
+        inventoryId,
+        quantity,
+      });
+    });
+  });
+
+  // Deliveries land before sales made at the same moment, and returns after
+  const order = { restock: 0, sale: 1, return: 2 };
+  events.sort((a, b) => a.time - b.time || order[a.kind] - order[b.kind]);
+
+  const batches = new Map<number, StockBatch[]>();
+  const getBatches = (inventoryId: number) => {
+    const list = batches.get(inventoryId) ?? [];
+    batches.set(inventoryId, list);
+    return list;
+  };
+
+  inventory.forEach((item) => {
+    const total = totals.get(item.id) ?? { sold: 0, added: 0 };
+    const opening = Number(item.units_in_stock || 0) + total.sold - total.added;
+    if (opening <= 0) return;
+    getBatches(item.id).push({
+      key: `opening-${item.id}`,
+      inventoryId: item.id,
+      productName: item.name,
+      lotNumber: item.lot_number?.trim() || "",
+      expiryDate: toDate(item.expiry_date),
+      received: opening,
+      remaining: opening,
+      receivedAt: 0,
+    });
+  });
+
+  events.forEach((event) => {
+    if (event.kind === "restock") {
+      getBatches(event.batch.inventoryId).push(event.batch);
+    } else if (event.kind === "return") {
+      restore(getBatches(event.inventoryId), event.quantity);
+    } else {
+      deplete(getBatches(event.inventoryId), event.quantity);
+    }
+  });
+
+  inventory.forEach((item) => {
+    const list = batches.get(item.id);
+    if (!list) return;
+    const onBooks = list.reduce((sum, batch) => sum + batch.remaining, 0);
+    const excess = onBooks - Number(item.units_in_stock || 0);
+    if (excess > 0) deplete(list, excess);
+  });
+
+  return batches;
+};
+
+/** Whole days from today until `date`; negative once it has passed. */
+export const getDaysUntilExpiry = (date: Date, now = new Date()): number => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+};
+
+/**
+ * The tightest warning window `daysLeft` falls in, e.g. 10 days left with
+ * windows 30/14/3 is the 14-day window. Null when outside every window.
+ */
+export const getExpiryWindow = (
+  daysLeft: number,
+  windows: number[],
+): number | null => {
+  const inside = windows.filter((window) => daysLeft <= window);
+  return inside.length ? Math.min(...inside) : null;
+};
+
+/** Batches still on the shelf with an expiry date, soonest first. */
+export const getDatedBatches = (
+  batchesByProduct: Map<number, StockBatch[]>,
+): StockBatch[] =>
+  Array.from(batchesByProduct.values())
+    .flat()
+    .filter((batch) => batch.remaining > 0 && batch.expiryDate)
+    .sort(compareFefo);
+
+export const getBatchLabel = (batch: StockBatch): string =>
+  batch.lotNumber
+    ? `Lot ${batch.lotNumber}`
+    : batch.restockId
+      ? "Unnumbered lot"
+      : "Opening stock";
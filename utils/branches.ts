@@ -0,0 +1,56 @@
+import type { ApiBranch, ApiBranchStock } from "@/src/api/branches";
+import type { ApiSale } from "@/src/api/sales";
+import { sumCostOfGoods, type CogsTotals } from "./costing";
+import { isWithinRange, type DateRange } from "./dateRanges";
+
+export interface BranchTotals extends CogsTotals {
+  branch: ApiBranch;
+  transactions: number;
+}
+
+/**
+ * Units on hand at every branch. Falls back to the active branch's own count
+ * when the server hasn't sent a per-branch breakdown for the product.
+ */
+export const getStockByBranch = (
+  branches: ApiBranch[],
+  branchStock: ApiBranchStock[] | undefined,
+  activeBranchId: number | null,
+  activeUnits: number,
+): Map<number, number> =>
+  new Map(
+    branches.map((branch) => {
+      const row = branchStock?.find((stock) => stock.branch === branch.id);
+      const units =
+        row?.units_in_stock ?? (branch.id === activeBranchId ? activeUnits : 0);
+      return [branch.id, Number(units || 0)];
+    }),
+  );
+
+/** Revenue, cost, profit and sale count per branch, busiest first. */
+export const sumSalesByBranch = (
+  branches: ApiBranch[],
+  sales: ApiSale[],
+  lineCosts: Map<string, number>,
+  range?: DateRange,
+): BranchTotals[] => {
+  const inRange = range
+    ? sales.filter((sale) =>
+        isWithinRange(sale.sale_date || sale.created_at, range),
+      )
+    : sales;
+
+  return branches
+    .map((branch) => {
+      // Sales from before branches existed belong to the main branch
+      const branchSales = inRange.filter((sale) =>
+        sale.branch != null ? sale.branch === branch.id : !!branch.is_main,
+      );
+      return {
+        branch,
+        transactions: branchSales.length,
+        ...sumCostOfGoods(branchSales, lineCosts),
+      };
+    })
+    .sort((a, b) => b.revenue - a.revenue);
+};
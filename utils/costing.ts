@@ -0,0 +1,312 @@
+import type { ApiRestock, ApiUserInventoryItem } from "@/src/api/products";
+import type { ApiRefund, ApiSale, ApiSaleItem } from "@/src/api/sales";
+import type { CostingMethod } from "@/stores/settingsStore";
+import { isWithinRange, type DateRange } from "./dateRanges";
+import { getRefundedLines, getRefundTime, type RefundedLine } from "./refunds";
+import { getRestockDate } from "./restocks";
+
+export const COSTING_METHODS: { value: CostingMethod; label: string }[] = [
+  { value: "fifo", label: "FIFO (first in, first out)" },
+  { value: "average", label: "Weighted average" },
+];
+
+export const getCostingMethodLabel = (method: CostingMethod): string =>
+  COSTING_METHODS.find((option) => option.value === method)?.label ?? method;
+
+export interface CogsTotals {
+  revenue: number;
+  cost: number;
+  profit: number;
+}
+
+interface StockLot {
+  quantity: number;
+  unitCost: number;
+}
+
+type CostingEvent =
+  | { kind: "restock"; time: number; inventoryId: number; lot: StockLot }
+  | {
+      kind: "sale";
+      time: number;
+      inventoryId: number;
+      key: string;
+      quantity: number;
+      fallbackCost: number;
+    }
+  | {
+      kind: "return";
+      time: number;
+      inventoryId: number;
+      sale?: ApiSale;
+      line: RefundedLine;
+    };
+
+// Deliveries land before sales made at the same moment, and returns after
+const EVENT_ORDER: Record<CostingEvent["kind"], number> = {
+  restock: 0,
+  sale: 1,
+  return: 2,
+};
+
+export const getSaleLineKey = (saleId: number | string, index: number) =>
+  `${saleId}-${index}`;
+
+const getSaleTime = (sale: ApiSale): number =>
+  new Date(sale.sale_date || sale.created_at || 0).getTime() || 0;
+
+const getItemInventoryId = (item: ApiSaleItem): number | undefined =>
+  item.inventory ?? item.product;
+
+/**
+ * The unit cost recorded on the sale line when it was made, used once the
+ * known lots run out. Older lines only carry subtotal and profit.
+ */
+const getSnapshotUnitCost = (item: ApiSaleItem): number => {
+  const quantity = Number(item.quantity || 0);
+  if (item.cost_price != null && item.cost_price !== "") {
+    return Number(item.cost_price);
+  }
+  if (!quantity) return 0;
+  return (Number(item.subtotal || 0) - Number(item.profit || 0)) / quantity;
+};
+
+/**
+ * What each unit of a refunded line cost when it was sold, so a restocked
+ * return goes back on the shelf at that cost.
+ */
+const getReturnedUnitCost = (
+  lineCosts: Map<string, number>,
+  line: RefundedLine,
+  sale?: ApiSale,
+): number => {
+  const saleItem =
+    sale && line.lineIndex != null ? sale.items[line.lineIndex] : undefined;
+  if (sale && saleItem && line.lineIndex != null) {
+    const quantity = Number(saleItem.quantity || 0);
+    const lineCost = lineCosts.get(getSaleLineKey(sale.id, line.lineIndex));
+    if (lineCost != null && quantity) return lineCost / quantity;
+    return getSnapshotUnitCost(saleItem);
+  }
+  if (!line.quantity) return 0;
+  return (
+    (Number(line.item.amount || 0) - Number(line.item.profit || 0)) /
+    line.quantity
+  );
+};
+
+/**
+ * Stock a product started with before its first recorded restock, worked out
+ * from what is on the shelf now plus everything sold minus everything
+ * delivered or put back. Priced at the earliest cost we saw it sold at.
+ */
+const getOpeningLots = (
+  events: CostingEvent[],
+  inventory: ApiUserInventoryItem[],
+): Map<number, StockLot> => {
+  const totals = new Map<number, { sold: number; added: number }>();
+  const firstCost = new Map<number, number>();
+
+  events.forEach((event) => {
+    const total = totals.get(event.inventoryId) ?? { sold: 0, added: 0 };
+    if (event.kind === "sale") {
+      total.sold += event.quantity;
+      if (!firstCost.has(event.inventoryId) && event.fallbackCost > 0) {
+        firstCost.set(event.inventoryId, event.fallbackCost);
+      }
+    } else {
+      total.added +=
+        event.kind === "restock" ? event.lot.quantity : event.line.quantity;
+    }
+    totals.set(event.inventoryId, total);
+  });
+
+  const lots = new Map<number, StockLot>();
+  inventory.forEach((item) => {
+    const total = totals.get(item.id) ?? { sold: 0, added: 0 };
+    const quantity =
+      Number(item.units_in_stock || 0) + total.sold - total.added;
+    if (quantity <= 0) return;
+    lots.set(item.id, {
+      quantity,
+      unitCost: firstCost.get(item.id) ?? Number(item.cost_price || 0),
+    });
+  });
+  return lots;
+};
+
+/**
+ * Cost of goods sold for every sale line, keyed by `getSaleLineKey`.
+ *
+ * Restocks and sales are replayed in date order per product. FIFO draws each
+ * sale from the oldest lot first; weighted average keeps one running cost per
+ * unit that each delivery blends into. Anything sold beyond the known lots is
+ * costed at the price recorded on the sale line. Refunds marked for restock
+ * put their units back at the cost they were sold at.
+ */
+export const computeSaleLineCosts = (
+  sales: ApiSale[],
+  restocks: ApiRestock[],
+  method: CostingMethod,
+  inventory: ApiUserInventoryItem[] = [],
+  refunds: ApiRefund[] = [],
+): Map<string, number> => {
+  const events: CostingEvent[] = [];
+  const salesById = new Map(sales.map((sale) => [sale.id, sale]));
+
+  restocks.forEach((restock) => {
+    if (restock.inventory == null) return;
+    events.push({
+      kind: "restock",
+      time: getRestockDate(restock)?.getTime() ?? 0,
+      inventoryId: restock.inventory,
+      lot: {
+        quantity: Number(restock.quantity_added || 0),
+        unitCost: Number(restock.buying_price || 0),
+      },
+    });
+  });
+
+  sales.forEach((sale) => {
+    (sale.items ?? []).forEach((item, index) => {
+      const inventoryId = getItemInventoryId(item);
+      if (inventoryId == null) return;
+      events.push({
+        kind: "sale",
+        time: getSaleTime(sale),
+        inventoryId,
+        key: getSaleLineKey(sale.id, index),
+        quantity: Number(item.quantity || 0),
+        fallbackCost: getSnapshotUnitCost(item),
+      });
+    });
+  });
+
+  refunds.forEach((refund) => {
+    if (!refund.restock) return;
+    const sale = salesById.get(refund.sale);
+    getRefundedLines(refund, sale).forEach((line) => {
+      events.push({
+        kind: "return",
+        time: getRefundTime(refund, sale),
+        inventoryId: line.inventoryId,
+        sale,
+        line,
+      });
+    });
+  });
+
+  events.sort(
+    (a, b) => a.time - b.time || EVENT_ORDER[a.kind] - EVENT_ORDER[b.kind],
+  );
+
+  const lots = new Map<number, StockLot[]>();
+  getOpeningLots(events, inventory).forEach((lot, inventoryId) =>
+    lots.set(inventoryId, [lot]),
+  );
+
+  const costs = new Map<string, number>();
+
+  events.forEach((event) => {
+    const productLots = lots.get(event.inventoryId) ?? [];
+    lots.set(event.inventoryId, productLots);
+
+    if (event.kind !== "sale") {
+      const lot =
+        event.kind === "restock"
+          ? { ...event.lot }
+          : {
+              quantity: event.line.quantity,
+              unitCost: getReturnedUnitCost(costs, event.line, event.sale),
+            };
+      if (method === "fifo" || productLots.length === 0) {
+        // Returned units came out of the oldest lot, so they go back in front
+        if (event.kind === "return") productLots.unshift(lot);
+        else productLots.push(lot);
+        return;
+      }
+      // Weighted average keeps a single blended lot
+      const [onHand] = productLots;
+      const quantity = onHand.quantity + lot.quantity;
+      onHand.unitCost = quantity
+        ? (onHand.quantity * onHand.unitCost + lot.quantity * lot.unitCost) /
+          quantity
+        : lot.unitCost;
+      onHand.quantity = quantity;
+      return;
+    }
+
+    let remaining = event.quantity;
+    let cost = 0;
+    while (remaining > 0 && productLots.length > 0) {
+      const lot = productLots[0];
+      const taken = Math.min(remaining, lot.quantity);
+      cost += taken * lot.unitCost;
+      remaining -= taken;
+      lot.quantity -= taken;
+      if (lot.quantity > 0) continue;
+      // The averaged lot stays so later deliveries blend with its cost
+      if (method === "average") break;
+      productLots.shift();
+    }
+    cost += remaining * event.fallbackCost;
+    costs.set(event.key, cost);
+  });
+
+  return costs;
+};
+
+/** Revenue, recomputed cost and profit for sales made within `range`. */
+export const sumCostOfGoods = (
+  sales: ApiSale[],
+  lineCosts: Map<string, number>,
+  range?: DateRange,
+): CogsTotals => {
+  const totals: CogsTotals = { revenue: 0, cost: 0, profit: 0 };
+
+  sales.forEach((sale) => {
+    if (range && !isWithinRange(sale.sale_date || sale.created_at, range)) {
+      return;
+    }
+    (sale.items ?? []).forEach((item, index) => {
+      const revenue = Number(item.subtotal || 0);
+      const cost =
+        lineCosts.get(getSaleLineKey(sale.id, index)) ??
+        revenue - Number(item.profit || 0);
+      totals.revenue += revenue;
+      totals.cost += cost;
+    });
+  });
+
+  totals.profit = totals.revenue - totals.cost;
+  return totals;
+};
+
+/**
+ * Money handed back for refunds made within `range`. Cost is what the
+ * restocked units are worth back on the shelf, so profit is what the refunds
+ * take off the period's profit.
+ */
+export const sumRefunds = (
+  refunds: ApiRefund[],
+  sales: ApiSale[],
+  lineCosts: Map<string, number>,
+  range?: DateRange,
+): CogsTotals => {
+  const totals: CogsTotals = { revenue: 0, cost: 0, profit: 0 };
+  const salesById = new Map(sales.map((sale) => [sale.id, sale]));
+
+  refunds.forEach((refund) => {
+    if (range && !isWithinRange(refund.created_at, range)) return;
+    totals.revenue += Number(refund.amount || 0);
+    if (!refund.restock) return;
+    const sale = salesById.get(refund.sale);
+    getRefundedLines(refund, sale).forEach((line) => {
+      totals.cost +=
+        line.quantity * getReturnedUnitCost(lineCosts, line, sale);
+    });
+  });
+
+  totals.profit = totals.revenue - totals.cost;
+  return totals;
+};
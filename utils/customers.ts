@@ -0,0 +1,93 @@
+import type { ApiSale } from "@/src/api/sales";
+
+// A customer as we know them from the sales they were attached to.
+export interface Customer {
+  key: string;
+  name: string;
+  phone: string;
+  salesCount: number;
+  lifetimeValue: number;
+  totalOwed: number;
+  lastPurchaseAt: string;
+  sales: ApiSale[]; // newest first
+}
+
+export const normalizePhone = (phone?: string | null): string =>
+  (phone || "").replace(/\D/g, "");
+
+// Phone is the identity when we have one; otherwise fall back to the name so
+// walk-in customers with only a name still get a history.
+export const getCustomerKey = (
+  name?: string | null,
+  phone?: string | null,
+): string => {
+  const digits = normalizePhone(phone);
+  if (digits) return digits;
+  const trimmed = (name || "").trim().toLowerCase();
+  return trimmed ? `name:${trimmed}` : "";
+};
+
+const getSaleDate = (sale: ApiSale): string =>
+  sale.sale_date || sale.created_at || "";
+
+/** Build the customer directory from sale records, best customers first. */
+export const buildCustomerDirectory = (sales: ApiSale[]): Customer[] => {
+  const customers = new Map<string, Customer>();
+
+  sales.forEach((sale) => {
+    const key = getCustomerKey(sale.customer_name, sale.customer_phone);
+    if (!key) return;
+
+    const date = getSaleDate(sale);
+    const customer = customers.get(key) ?? {
+      key,
+      name: "",
+      phone: "",
+      salesCount: 0,
+      lifetimeValue: 0,
+      totalOwed: 0,
+      lastPurchaseAt: "",
+      sales: [],
+    };
+
+    customer.salesCount += 1;
+    customer.lifetimeValue += Number(sale.total_amount || 0);
+    customer.totalOwed += Number(sale.amount_owed || 0);
+    customer.sales.push(sale);
+
+    // Keep the details from the most recent sale
+    if (!customer.lastPurchaseAt || date > customer.lastPurchaseAt) {
+      customer.lastPurchaseAt = date;
+      customer.name = sale.customer_name?.trim() || customer.name;
+      customer.phone = sale.customer_phone?.trim() || customer.phone;
+    }
+    customers.set(key, customer);
+  });
+
+  return Array.from(customers.values())
+    .map((customer) => ({
+      ...customer,
+      name: customer.name || customer.phone || "Unknown customer",
+      sales: [...customer.sales].sort((a, b) =>
+        getSaleDate(b).localeCompare(getSaleDate(a)),
+      ),
+    }))
+    .sort((a, b) => b.lifetimeValue - a.lifetimeValue);
+};
+
+export const searchCustomers = (
+  customers: Customer[],
+  query: string,
+  limit?: number,
+): Customer[] => {
+  const text = query.trim().toLowerCase();
+  const digits = normalizePhone(query);
+  if (!text) return limit ? customers.slice(0, limit) : customers;
+
+  const matches = customers.filter(
+    (c) =>
+      c.name.toLowerCase().includes(text) ||
+      (!!digits && normalizePhone(c.phone).includes(digits)),
+  );
+  return limit ? matches.slice(0, limit) : matches;
+};
@@ -0,0 +1,164 @@
+import type { ApiExpense } from "@/src/api/expenses";
+import type { ApiUserInventoryItem } from "@/src/api/products";
+import type { ApiSale } from "@/src/api/sales";
+import { File, Paths } from "expo-file-system";
+import * as XLSX from "xlsx";
+import { toDateKey } from "./dateRanges";
+import { getVariantLabel } from "./variants";
+
+export type ExportDataset = "inventory" | "sales" | "expenses";
+export type ExportFormat = "csv" | "xlsx";
+
+export const EXPORT_DATASETS: { key: ExportDataset; label: string }[] = [
+  { key: "inventory", label: "Inventory" },
+  { key: "sales", label: "Sales" },
+  { key: "expenses", label: "Expenses" },
+];
+
+type Cell = string | number;
+
+// Header row first, then one row per record
+export type ExportTable = Cell[][];
+
+const toAmount = (value: string | number | null | undefined): number =>
+  Number(value || 0);
+
+// Local date and time, e.g. 2025-03-14 09:30
+const toDateCell = (value?: string | null): string => {
+  if (!value) return "";
+  const date = new Date(value);
+  const time = date.toTimeString().slice(0, 5);
+  return `${toDateKey(date)} ${time}`;
+};
+
+export const buildInventoryTable = (
+  items: ApiUserInventoryItem[],
+): ExportTable => [
+  [
+    "ID",
+    "Name",
+    "Variant",
+    "Category",
+    "Barcode",
+    "Units in stock",
+    "Cost price",
+    "Selling price",
+    "Stock value at cost",
+    "Low stock threshold",
+    "Expiry date",
+    "Supplier",
+    "Supplier phone",
+  ],
+  ...items.map((item) => [
+    item.id,
+    item.name,
+    getVariantLabel(item.variant_attributes),
+    item.category || "",
+    item.barcode || "",
+    Number(item.units_in_stock || 0),
+    toAmount(item.cost_price),
+    toAmount(item.selling_price),
+    Number(item.units_in_stock || 0) * toAmount(item.cost_price),
+    Number(item.low_stock_threshold ?? 0),
+    item.expiry_date || "",
+    item.supplier_name || "",
+    item.supplier_phone || "",
+  ]),
+];
+
+/** One row per line item, repeating the sale's details on each. */
+export const buildSalesTable = (sales: ApiSale[]): ExportTable => [
+  [
+    "Sale ID",
+    "Reference",
+    "Date",
+    "Payment method",
+    "Customer",
+    "Sold by",
+    "Product",
+    "Category",
+    "Quantity",
+    "Unit price",
+    "Line total",
+    "Line cost",
+    "Line profit",
+    "Sale total",
+    "Refunded",
+  ],
+  ...sales.flatMap((sale) =>
+    (sale.items ?? []).map((item) => [
+      sale.id,
+      sale.transaction_ref || "",
+      toDateCell(sale.sale_date || sale.created_at),
+      sale.payment_method,
+      sale.customer_name || "",
+      sale.sold_by_name || "",
+      item.product_name || "",
+      item.category_name || "",
+      Number(item.quantity || 0),
+      toAmount(item.unit_price),
+      toAmount(item.subtotal),
+      toAmount(item.cost_price) * Number(item.quantity || 0),
+      toAmount(item.profit),
+      toAmount(sale.total_amount),
+      toAmount(sale.refunded_amount),
+    ]),
+  ),
+];
+
+export const buildExpensesTable = (expenses: ApiExpense[]): ExportTable => [
+  ["ID", "Date", "Category", "Description", "Amount", "Recurring"],
+  ...expenses.map((expense) => [
+    expense.id,
+    expense.date,
+    expense.category,
+    expense.description || "",
+    toAmount(expense.amount),
+    expense.is_recurring ? expense.frequency || "yes" : "",
+  ]),
+];
+
+// Spreadsheets run text starting with these as a formula, so a product
+// named "=HYPERLINK(...)" would run when the export is opened
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeFormula = (cell: Cell): Cell =>
+  typeof cell === "string" && FORMULA_PREFIX.test(cell) ? `'${cell}` : cell;
+
+const escapeCsvCell = (cell: Cell): string => {
+  const text = String(escapeFormula(cell));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ExportTable): string =>
+  table.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+
+/** Write the table to a file in the cache directory and return its uri. */
+export const writeExportFile = (
+  table: ExportTable,
+  baseName: string,
+  format: ExportFormat,
+  sheetName: string,
+): string => {
+  const file = new File(Paths.cache, `${baseName}.${format}`);
+  file.create({ overwrite: true });
+
+  if (format === "csv") {
+    // The BOM makes Excel read ₦ and other non-ASCII text as UTF-8
+    file.write(`\uFEFF${toCsv(table)}`);
+  } else {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet(table.map((row) => row.map(escapeFormula))),
+      sheetName,
+    );
+    const bytes: ArrayBuffer = XLSX.write(workbook, {
+      type: "array",
+      bookType: "xlsx",
+    });
+    file.write(new Uint8Array(bytes));
+  }
+
+  return file.uri;
+};
@@ -0,0 +1,197 @@
+import { getFormatLocale } from "./formatters";
+
+export interface DateRange {
+  // Inclusive: from the start of `from`'s day to the end of `to`'s day
+  from: Date;
+  to: Date;
+}
+
+export type DateRangePreset =
+  | "today"
+  | "yesterday"
+  | "this_week"
+  | "last_7_days"
+  | "this_month"
+  | "last_month"
+  | "last_30_days"
+  | "this_quarter"
+  | "year_to_date";
+
+export const DATE_RANGE_PRESETS: { key: DateRangePreset; label: string }[] = [
+  { key: "today", label: "Today" },
+  { key: "yesterday", label: "Yesterday" },
+  { key: "this_week", label: "This week" },
+  { key: "last_7_days", label: "Last 7 days" },
+  { key: "this_month", label: "This month" },
+  { key: "last_month", label: "Last month" },
+  { key: "last_30_days", label: "Last 30 days" },
+  { key: "this_quarter", label: "This quarter" },
+  { key: "year_to_date", label: "Year to date" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const endOfDay = (date: Date) => {
+  const end = startOfDay(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+export const getPresetRange = (
+  preset: DateRangePreset,
+  now = new Date(),
+): DateRange => {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const day = now.getDate();
+  switch (preset) {
+    case "today":
+      return { from: startOfDay(now), to: now };
+    case "yesterday": {
+      const yesterday = new Date(year, month, day - 1);
+      return { from: yesterday, to: yesterday };
+    }
+    case "this_week":
+      // Weeks start on Monday
+      return {
+        from: new Date(year, month, day - ((now.getDay() + 6) % 7)),
+        to: now,
+      };
+    case "last_7_days":
+      return { from: new Date(year, month, day - 6), to: now };
+    case "last_month":
+      return {
+        from: new Date(year, month - 1, 1),
+        to: new Date(year, month, 0),
+      };
+    case "last_30_days":
+      return { from: new Date(year, month, day - 29), to: now };
+    case "this_quarter":
+      return { from: new Date(year, month - (month % 3), 1), to: now };
+    case "year_to_date":
+      return { from: new Date(year, 0, 1), to: now };
+    case "this_month":
+    default:
+      return { from: new Date(year, month, 1), to: now };
+  }
+};
+
+// Same day n months away, clamped to the end of shorter months
+export const shiftMonths = (date: Date, months: number): Date => {
+  const lastDay = new Date(
+    date.getFullYear(),
+    date.getMonth() + months + 1,
+    0,
+  ).getDate();
+  return new Date(
+    date.getFullYear(),
+    date.getMonth() + months,
+    Math.min(date.getDate(), lastDay),
+  );
+};
+
+const shiftDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const shiftRange = (range: DateRange, shift: (date: Date) => Date) => ({
+  from: shift(range.from),
+  to: shift(range.to),
+});
+
+/**
+ * The range to compare against: the same stretch of the previous week,
+ * month, quarter or year for those presets, the previous whole months for a
+ * custom range of whole months, and otherwise the same number of days just
+ * before.
+ */
+export const getPreviousRange = (
+  range: DateRange,
+  preset?: DateRangePreset | null,
+): DateRange => {
+  const from = startOfDay(range.from);
+  const to = startOfDay(range.to);
+
+  if (preset === "this_week") {
+    return shiftRange(range, (d) => shiftDays(d, -7));
+  }
+  if (preset === "this_month") {
+    return shiftRange(range, (d) => shiftMonths(d, -1));
+  }
+  if (preset === "this_quarter") {
+    return shiftRange(range, (d) => shiftMonths(d, -3));
+  }
+  if (preset === "year_to_date") {
+    return shiftRange(range, (d) => shiftMonths(d, -12));
+  }
+
+  const wholeMonths = from.getDate() === 1 && shiftDays(to, 1).getDate() === 1;
+  if (wholeMonths) {
+    const months =
+      (to.getFullYear() - from.getFullYear()) * 12 +
+      (to.getMonth() - from.getMonth()) +
+      1;
+    return {
+      from: new Date(from.getFullYear(), from.getMonth() - months, 1),
+      to: shiftDays(from, -1),
+    };
+  }
+
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+  return { from: shiftDays(from, -days), to: shiftDays(from, -1) };
+};
+
+// A bare YYYY-MM-DD is a calendar day; new Date() would read it as UTC
+// midnight, which is the day before west of UTC
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDateValue = (value: string): Date => {
+  if (!DATE_ONLY.test(value)) return new Date(value);
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isWithinRange = (
+  value: string | null | undefined,
+  range: DateRange,
+): boolean => {
+  if (!value) return false;
+  const time = parseDateValue(value).getTime();
+  return (
+    time >= startOfDay(range.from).getTime() &&
+    time <= endOfDay(range.to).getTime()
+  );
+};
+
+/** YYYY-MM-DD in local time, for file names and API params. */
+export const toDateKey = (date: Date): string =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/** The inclusive date window the finance and list endpoints accept. */
+export const toRangeParams = (range: DateRange) => ({
+  start_date: toDateKey(range.from),
+  end_date: toDateKey(range.to),
+});
+
+/** e.g. "Mar 1 – Mar 14, 2025", or just the day when from and to match. */
+export const formatRangeLabel = (range: DateRange): string => {
+  const sameYear = range.from.getFullYear() === range.to.getFullYear();
+  const to = range.to.toLocaleDateString(getFormatLocale(), {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  if (toDateKey(range.from) === toDateKey(range.to)) return to;
+  const from = range.from.toLocaleDateString(getFormatLocale(), {
+    month: "short",
+    day: "numeric",
+    year: sameYear ? undefined : "numeric",
+  });
+  return `${from} – ${to}`;
+};
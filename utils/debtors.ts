@@ -0,0 +1,154 @@
+import type { Debtor } from "@/hooks/useSales";
+import { Platform } from "react-native";
+import { normalizePhone } from "./customers";
+import { formatCurrency, getDialCode } from "./formatters";
+
+export type AgingBucket = "0-7" | "8-30" | "30+";
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: "0-7", label: "0–7 days" },
+  { key: "8-30", label: "8–30 days" },
+  { key: "30+", label: "30+ days" },
+];
+
+// Everything a customer owes, across all of their credit sales.
+export interface DebtorAccount {
+  key: string;
+  name: string;
+  phone: string;
+  totalOwed: number;
+  oldestDays: number;
+  buckets: Record<AgingBucket, number>;
+  sales: Debtor[]; // oldest first
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  "0-7": 0,
+  "8-30": 0,
+  "30+": 0,
+});
+
+export const getDebtDate = (debt: Debtor): string =>
+  debt.sale_date || debt.created_at || debt.due_date || "";
+
+export const getDebtAgeDays = (debt: Debtor, now = new Date()): number => {
+  const date = new Date(getDebtDate(debt));
+  if (isNaN(date.getTime())) return 0;
+  return Math.max(Math.floor((now.getTime() - date.getTime()) / DAY_MS), 0);
+};
+
+export const getAgingBucket = (days: number): AgingBucket => {
+  if (days <= 7) return "0-7";
+  if (days <= 30) return "8-30";
+  return "30+";
+};
+
+/**
+ * Group outstanding sales into one account per customer phone number (falling
+ * back to the name when no phone was taken), largest balance first.
+ */
+export const groupDebtorsByCustomer = (
+  debts: Debtor[],
+  now = new Date(),
+): DebtorAccount[] => {
+  const accounts = new Map<string, DebtorAccount>();
+
+  debts.forEach((debt) => {
+    const owed = Number(debt.amount_owed || 0);
+    if (owed <= 0) return;
+
+    const phone = normalizePhone(debt.customer_phone);
+    const key = phone || `name:${(debt.customer_name || "").toLowerCase()}`;
+    const days = getDebtAgeDays(debt, now);
+    const account = accounts.get(key) ?? {
+      key,
+      name: debt.customer_name || "Unknown customer",
+      phone: debt.customer_phone || "",
+      totalOwed: 0,
+      oldestDays: 0,
+      buckets: emptyBuckets(),
+      sales: [],
+    };
+
+    account.totalOwed += owed;
+    account.oldestDays = Math.max(account.oldestDays, days);
+    account.buckets[getAgingBucket(days)] += owed;
+    account.sales.push(debt);
+    accounts.set(key, account);
+  });
+
+  return Array.from(accounts.values())
+    .map((account) => ({
+      ...account,
+      sales: [...account.sales].sort(
+        (a, b) => getDebtAgeDays(b, now) - getDebtAgeDays(a, now),
+      ),
+    }))
+    .sort((a, b) => b.totalOwed - a.totalOwed);
+};
+
+export const sumAgingBuckets = (
+  accounts: DebtorAccount[],
+): Record<AgingBucket, number> =>
+  accounts.reduce((totals, account) => {
+    AGING_BUCKETS.forEach(({ key }) => {
+      totals[key] += account.buckets[key];
+    });
+    return totals;
+  }, emptyBuckets());
+
+/**
+ * Spread a repayment over a customer's sales, clearing the oldest debt first.
+ * Any amount above the total owed is ignored.
+ */
+export const allocateRepayment = (
+  sales: Debtor[],
+  amount: number,
+): { saleId: number; amount: number }[] => {
+  let remaining = amount;
+  const allocations: { saleId: number; amount: number }[] = [];
+
+  for (const sale of sales) {
+    if (remaining <= 0) break;
+    const owed = Number(sale.amount_owed || 0);
+    if (owed <= 0) continue;
+    const portion = Math.min(owed, remaining);
+    allocations.push({
+      saleId: sale.id,
+      amount: Math.round(portion * 100) / 100,
+    });
+    remaining -= portion;
+  }
+
+  return allocations;
+};
+
+export const buildReminderMessage = (
+  account: DebtorAccount,
+  businessName?: string | null,
+): string => {
+  const from = businessName?.trim() ? ` from ${businessName.trim()}` : "";
+  return (
+    `Hello ${account.name}, this is a friendly reminder${from} that you have ` +
+    `an outstanding balance of ${formatCurrency(account.totalOwed)}. ` +
+    `Please let us know when you can pay. Thank you!`
+  );
+};
+
+// wa.me wants the number in international format without "+"; local
+// numbers (0…) get the business's country code in place of the 0.
+const toInternationalPhone = (phone: string): string => {
+  const digits = normalizePhone(phone);
+  if (digits.startsWith("00")) return digits.slice(2);
+  if (digits.startsWith("0")) return `${getDialCode()}${digits.slice(1)}`;
+  return digits;
+};
+
+// iOS separates the body with "&", Android with "?"
+export const getSmsUrl = (phone: string, message: string): string =>
+  `sms:${phone}${Platform.OS === "ios" ? "&" : "?"}body=${encodeURIComponent(message)}`;
+
+export const getWhatsAppUrl = (phone: string, message: string): string =>
+  `https://wa.me/${toInternationalPhone(phone)}?text=${encodeURIComponent(message)}`;
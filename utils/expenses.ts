@@ -0,0 +1,79 @@
+import type { ApiExpense, ExpenseFrequency } from "@/src/api/expenses";
+import { shiftMonths } from "./dateRanges";
+
+export const EXPENSE_FREQUENCIES: { key: ExpenseFrequency; label: string }[] =
+  [
+    { key: "weekly", label: "Weekly" },
+    { key: "monthly", label: "Monthly" },
+    { key: "yearly", label: "Yearly" },
+  ];
+
+// A recurring expense whose next occurrence hasn't been logged yet.
+export interface DueExpense {
+  expense: ApiExpense; // most recent entry of the series
+  dueDate: Date;
+}
+
+export const getFrequencyLabel = (frequency?: string | null): string =>
+  EXPENSE_FREQUENCIES.find((f) => f.key === frequency)?.label ?? "";
+
+// Months are clamped to their last day, so rent logged on Jan 31 is due on
+// Feb 28 rather than rolling over into March
+export const addFrequency = (date: Date, frequency: ExpenseFrequency): Date => {
+  if (frequency === "weekly") {
+    const next = new Date(date);
+    next.setDate(next.getDate() + 7);
+    return next;
+  }
+  return shiftMonths(date, frequency === "monthly" ? 1 : 12);
+};
+
+// Entries of the same category and description belong to one series,
+// e.g. every month's "Rent · Shop".
+const getSeriesKey = (expense: ApiExpense) =>
+  `${expense.category}|${(expense.description || "").trim().toLowerCase()}`;
+
+/**
+ * Recurring expenses that are due (or overdue) as of `now`, based on the
+ * latest logged entry of each series. Soonest first.
+ */
+export const getDueRecurringExpenses = (
+  expenses: ApiExpense[],
+  now = new Date(),
+): DueExpense[] => {
+  const latest = new Map<string, ApiExpense>();
+  expenses.forEach((expense) => {
+    if (!expense.is_recurring || !expense.frequency) return;
+    const key = getSeriesKey(expense);
+    const current = latest.get(key);
+    if (!current || parseApiDate(expense.date) > parseApiDate(current.date)) {
+      latest.set(key, expense);
+    }
+  });
+
+  return Array.from(latest.values())
+    .map((expense) => ({
+      expense,
+      dueDate: addFrequency(
+        parseApiDate(expense.date),
+        expense.frequency as ExpenseFrequency,
+      ),
+    }))
+    .filter((due) => !isNaN(due.dueDate.getTime()) && due.dueDate <= now)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+};
+
+export const sumExpenses = (expenses: ApiExpense[]): number =>
+  expenses.reduce((sum, expense) => sum + Number(expense.amount || 0), 0);
+
+/** yyyy-mm-dd in local time, the format the API stores dates in. */
+export const toApiDate = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Parse a yyyy-mm-dd date as local midnight rather than UTC. */
+export const parseApiDate = (value: string): Date => {
+  const [year, month, day] = value.split("T")[0].split("-").map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : new Date(value);
+};
@@ -1,5 +1,29 @@
+import {
+    getCurrencyOption,
+    getLocaleOption,
+    type CurrencyOption,
+} from "@/constants/currencies";
+import useLocaleStore from "@/stores/localeStore";
+
+/** Locale code for toLocale*String calls, from the business profile. */
+export const getFormatLocale = (): string => useLocaleStore.getState().locale;
+
+export const getCurrency = (): CurrencyOption =>
+  getCurrencyOption(useLocaleStore.getState().currency);
+
+/**
+ * Calling code assumed for numbers typed without one: the country of the
+ * business currency, or of its locale when the currency is shared (CFA, euro).
+ */
+export const getDialCode = (): string => {
+  const { currency, locale } = useLocaleStore.getState();
+  return (
+    getCurrencyOption(currency).dialCode ?? getLocaleOption(locale).dialCode
+  );
+};
+
 export const formatDateLabel = (date: Date): string =>
-  date.toLocaleDateString("en-US", {
+  date.toLocaleDateString(getFormatLocale(), {
     month: "short",
     day: "numeric",
     year: "numeric",
@@ -9,7 +33,7 @@ export const formatDateLabel = (date: Date): string =>
  * Format a number with thousands separators (e.g. 7000000 -> "7,000,000",
  * 1234.5 -> "1,234.5"). Done manually rather than via toLocaleString so
  * grouping is reliable across JS engines (Hermes does not always apply locale
- * grouping).
+ * grouping); the separators come from the business locale.
  *
  * Decimals are preserved as-is by default — whole numbers stay whole
  * (50000 -> "50,000") and fractional values keep their decimals
@@ -26,17 +50,43 @@ export const formatNumber = (
   const num = typeof value === "string" ? Number(value) : value;
   const safe = typeof num === "number" && isFinite(num) ? num : 0;
   const str = decimals === undefined ? String(safe) : safe.toFixed(decimals);
+  const { groupSeparator, decimalSeparator } = getLocaleOption(
+    useLocaleStore.getState().locale,
+  );
   const [intPart, decPart] = str.split(".");
-  const grouped = intPart.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
-  return decPart ? `${grouped}.${decPart}` : grouped;
+  const grouped = intPart.replace(/\B(?=(\d{3})+(?!\d))/g, groupSeparator);
+  return decPart ? `${grouped}${decimalSeparator}${decPart}` : grouped;
 };
 
 /**
- * Format a money value with the ₦ symbol and thousands separators.
- * Defaults to 2 decimal places (e.g. "₦50,000.00"); pass a different
- * `decimals` to override.
+ * Format a money value with the business currency's symbol and thousands
+ * separators. Defaults to the currency's own decimal places (e.g.
+ * "₦50,000.00", "USh 50,000"); pass `decimals` to override.
  */
 export const formatCurrency = (
   amount: number | string | undefined | null,
-  decimals = 2,
-): string => `₦${formatNumber(amount, decimals)}`;
+  decimals?: number,
+): string => {
+  const { symbol, decimals: minorUnits } = getCurrency();
+  return `${symbol}${formatNumber(amount, decimals ?? minorUnits)}`;
+};
+
+/**
+ * Normalise a typed phone number to international form for sign-in codes.
+ * Numbers without a country code get the business's (`getDialCode`), e.g.
+ * "0803…" -> "+234803…" for naira or "024…" -> "+23324…" for cedis.
+ */
+export const formatPhoneNumber = (phone: string): string => {
+  let formatted = phone.trim().replace(/[\s\-\(\)]/g, "");
+  if (formatted.startsWith("00")) {
+    formatted = "+" + formatted.slice(2);
+  }
+  if (!formatted.startsWith("+")) {
+    formatted = formatted.replace(/^0/, "");
+    formatted = `+${getDialCode()}${formatted}`;
+  }
+  return formatted;
+};
+
+export const isValidPhoneNumber = (phone: string): boolean =>
+  /^\+[1-9]\d{6,14}$/.test(phone);
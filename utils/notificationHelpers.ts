@@ -1,4 +1,20 @@
-import { createNotification, listProducts, listSales } from "@/src/api";
+import {
+  createNotification,
+  listAllRefunds,
+  listAllRestocks,
+  listAllSales,
+  listAllUserInventory,
+  listSales,
+} from "@/src/api";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  computeBatches,
+  DEFAULT_EXPIRY_WINDOWS,
+  getDatedBatches,
+  getDaysUntilExpiry,
+  getExpiryWindow,
+} from "./batches";
+import { formatCurrency } from "./formatters";
 
 export const createAppNotification = async (
   type: string,
@@ -87,27 +103,56 @@ export const checkHighSelling = async (
   }
 };
 
-export const checkExpiringProducts = async (_userId: string) => {
+const EXPIRY_ALERTS_KEY = "inventra_expiry_alerts";
+
+/**
+ * Warns about every batch still on the shelf as it enters each warning
+ * window (e.g. 30, 14 and 3 days out) and once more when it has expired.
+ * Windows already warned about are remembered so each fires once per batch.
+ */
+export const checkExpiringProducts = async (
+  _userId: string,
+  windows: number[] = DEFAULT_EXPIRY_WINDOWS,
+) => {
   try {
-    const products = await listProducts();
-    const threeDaysFromNow = new Date();
-    threeDaysFromNow.setDate(threeDaysFromNow.getDate() + 3);
+    const [restocks, sales, inventory, refunds] = await Promise.all([
+      listAllRestocks(),
+      listAllSales(),
+      listAllUserInventory(),
+      listAllRefunds(),
+    ]);
+    const stored = await AsyncStorage.getItem(EXPIRY_ALERTS_KEY);
+    const sent = new Set<string>(stored ? JSON.parse(stored) : []);
+    const stillTracked = new Set<string>();
+
+    for (const batch of getDatedBatches(
+      computeBatches(restocks, sales, inventory, refunds),
+    )) {
+      const daysLeft = getDaysUntilExpiry(batch.expiryDate as Date);
+      const window = daysLeft < 0 ? 0 : getExpiryWindow(daysLeft, windows);
+      if (window == null) continue;
 
-    for (const product of products) {
-      if (!product.expiry_date) continue;
-      const expiryDate = new Date(product.expiry_date);
-      if (expiryDate <= threeDaysFromNow && expiryDate > new Date()) {
-        const daysLeft = Math.ceil(
-          (expiryDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24),
-        );
-        await createAppNotification(
-          "expiry",
-          "Stock Expiry Alert",
-          `${product.name} expires in ${daysLeft} days!`,
-          product.id,
-        );
-      }
+      const alertKey = `${batch.key}:${window}`;
+      stillTracked.add(alertKey);
+      if (sent.has(alertKey)) continue;
+
+      const lot = batch.lotNumber ? ` (lot ${batch.lotNumber})` : "";
+      await createAppNotification(
+        "expiry",
+        daysLeft < 0 ? "Stock Expired" : "Stock Expiry Alert",
+        daysLeft < 0
+          ? `${batch.remaining} of ${batch.productName}${lot} expired ${Math.abs(daysLeft)} days ago`
+          : `${batch.remaining} of ${batch.productName}${lot} expire in ${daysLeft} days!`,
+        batch.inventoryId,
+      );
+      sent.add(alertKey);
     }
+
+    // Forget batches that sold out so the list doesn't grow forever
+    await AsyncStorage.setItem(
+      EXPIRY_ALERTS_KEY,
+      JSON.stringify(Array.from(sent).filter((key) => stillTracked.has(key))),
+    );
   } catch (error) {
     console.error("Error checking expiring products:", error);
   }
@@ -121,6 +166,6 @@ export const notifySaleCompleted = async (
   await createAppNotification(
     "sale",
     "Sale Completed",
-    `Successfully sold ${itemCount} items for ₦${totalAmount.toFixed(0)}`,
+    `Successfully sold ${itemCount} items for ${formatCurrency(totalAmount)}`,
   );
 };
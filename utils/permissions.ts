@@ -0,0 +1,69 @@
+import type { StaffRole } from "@/src/api/types";
+
+export interface Permissions {
+  canViewCosts: boolean;
+  canViewProfit: boolean;
+  canViewFinance: boolean;
+  canDelete: boolean;
+  canManageStaff: boolean;
+  canManageBranches: boolean;
+  canTransferStock: boolean;
+}
+
+export const STAFF_ROLES: {
+  value: StaffRole;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "owner",
+    label: "Owner",
+    description: "Everything, including staff and branches",
+  },
+  {
+    value: "manager",
+    label: "Manager",
+    description: "Costs, profit and Finance, but not staff or branches",
+  },
+  {
+    value: "cashier",
+    label: "Cashier",
+    description: "Sells and checks stock. No costs, profit or deleting",
+  },
+];
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permissions> = {
+  owner: {
+    canViewCosts: true,
+    canViewProfit: true,
+    canViewFinance: true,
+    canDelete: true,
+    canManageStaff: true,
+    canManageBranches: true,
+    canTransferStock: true,
+  },
+  manager: {
+    canViewCosts: true,
+    canViewProfit: true,
+    canViewFinance: true,
+    canDelete: true,
+    canManageStaff: false,
+    canManageBranches: false,
+    canTransferStock: true,
+  },
+  cashier: {
+    canViewCosts: false,
+    canViewProfit: false,
+    canViewFinance: false,
+    canDelete: false,
+    canManageStaff: false,
+    canManageBranches: false,
+    canTransferStock: false,
+  },
+};
+
+export const getRolePermissions = (role: StaffRole): Permissions =>
+  ROLE_PERMISSIONS[role] ?? ROLE_PERMISSIONS.cashier;
+
+export const getRoleLabel = (role?: string | null): string =>
+  STAFF_ROLES.find((option) => option.value === role)?.label ?? "Owner";
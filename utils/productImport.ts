@@ -0,0 +1,343 @@
+import type { InventoryItemPayload } from "@/src/api/products";
+import { File } from "expo-file-system";
+import * as XLSX from "xlsx";
+
+export type ImportField =
+  | "name"
+  | "category"
+  | "barcode"
+  | "cost_price"
+  | "selling_price"
+  | "units_in_stock"
+  | "low_stock_threshold"
+  | "expiry_date"
+  | "lot_number"
+  | "supplier_name"
+  | "supplier_phone";
+
+// Header names a shop's own spreadsheet is likely to use for each field,
+// compared after lower-casing and stripping punctuation
+export const IMPORT_FIELDS: {
+  key: ImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}[] = [
+  {
+    key: "name",
+    label: "Name",
+    required: true,
+    aliases: ["name", "product", "product name", "item", "item name"],
+  },
+  { key: "category", label: "Category", aliases: ["category", "group"] },
+  {
+    key: "barcode",
+    label: "Barcode",
+    aliases: ["barcode", "sku", "code", "upc", "ean"],
+  },
+  {
+    key: "cost_price",
+    label: "Cost price",
+    aliases: ["cost", "cost price", "buying price", "unit cost"],
+  },
+  {
+    key: "selling_price",
+    label: "Selling price",
+    required: true,
+    aliases: ["price", "selling price", "sale price", "retail price"],
+  },
+  {
+    key: "units_in_stock",
+    label: "Quantity",
+    aliases: ["quantity", "qty", "stock", "units", "units in stock"],
+  },
+  {
+    key: "low_stock_threshold",
+    label: "Low stock at",
+    aliases: ["low stock", "low stock threshold", "reorder level", "reorder"],
+  },
+  {
+    key: "expiry_date",
+    label: "Expiry date",
+    aliases: ["expiry", "expiry date", "expires", "best before"],
+  },
+  {
+    key: "lot_number",
+    label: "Lot number",
+    aliases: ["lot", "lot number", "batch", "batch number"],
+  },
+  {
+    key: "supplier_name",
+    label: "Supplier",
+    aliases: ["supplier", "supplier name", "vendor"],
+  },
+  {
+    key: "supplier_phone",
+    label: "Supplier phone",
+    aliases: ["supplier phone", "phone", "supplier contact"],
+  },
+];
+
+// Column index for each field, null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportSheet {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  // Line in the file as the user sees it (header is row 1)
+  rowNumber: number;
+  payload: InventoryItemPayload | null;
+  errors: string[];
+}
+
+const normalizeHeader = (header: string) =>
+  header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/** Splits CSV text into rows, honouring quoted cells and "" escapes. */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  // Spreadsheets saved in some locales use ";" or tabs instead of commas
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length
+      ? candidate
+      : best,
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const toCellText = (value: unknown): string => {
+  if (value instanceof Date) {
+    return [
+      value.getFullYear(),
+      String(value.getMonth() + 1).padStart(2, "0"),
+      String(value.getDate()).padStart(2, "0"),
+    ].join("-");
+  }
+  return value == null ? "" : String(value).trim();
+};
+
+/** Reads the first sheet of a picked CSV or Excel file into text cells. */
+export async function readSpreadsheet(
+  uri: string,
+  fileName: string,
+): Promise<ImportSheet> {
+  const file = new File(uri);
+  let table: string[][];
+
+  if (/\.xlsx?$/i.test(fileName)) {
+    const workbook = XLSX.read(await file.base64(), {
+      type: "base64",
+      cellDates: true,
+    });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    // raw values keep long barcodes from turning into 5.01E+12
+    const cells = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      raw: true,
+      defval: "",
+    });
+    table = cells.map((row) => row.map(toCellText));
+  } else {
+    table = parseCsv(await file.text()).map((row) => row.map(toCellText));
+  }
+
+  const [headers = [], ...rows] = table.filter((row) =>
+    row.some((cell) => cell !== ""),
+  );
+  if (rows.length === 0) {
+    throw new Error("The file has no product rows under its header");
+  }
+  return { fileName, headers, rows };
+}
+
+/** Matches each field to the first unused column whose header fits. */
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, field) => {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && field.aliases.includes(header),
+    );
+    if (index >= 0) used.add(index);
+    mapping[field.key] = index >= 0 ? index : null;
+    return mapping;
+  }, {} as ColumnMapping);
+};
+
+const parseAmount = (value: string): number | null => {
+  const cleaned = value.replace(/[^0-9.-]/g, "");
+  if (!/[0-9]/.test(cleaned)) return null;
+  const amount = Number(cleaned);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+/**
+ * Accepts YYYY-MM-DD, YYYY-MM and DD/MM/YYYY (MM/DD/YYYY when the day can
+ * only be the second part). Returns YYYY-MM-DD, or null if unreadable.
+ */
+export const parseImportDate = (value: string): string | null => {
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?/);
+  const slashed = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  if (iso) {
+    year = Number(iso[1]);
+    month = Number(iso[2]);
+    day = Number(iso[3] || 1);
+  } else if (slashed) {
+    const [first, second] = [Number(slashed[1]), Number(slashed[2])];
+    [day, month] =
+      second > 12 && first <= 12 ? [second, first] : [first, second];
+    year = Number(slashed[3]);
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (
+    date.getFullYear() !== year ||
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day
+  ) {
+    return null;
+  }
+  return [
+    year,
+    String(month).padStart(2, "0"),
+    String(day).padStart(2, "0"),
+  ].join("-");
+};
+
+/**
+ * Turns mapped rows into add-product payloads, collecting every problem with
+ * a row rather than stopping at the first so the file can be fixed in one go.
+ */
+export const validateRows = (
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  existingBarcodes: Set<string> = new Set(),
+): ImportRow[] => {
+  const seenBarcodes = new Map<string, number>();
+
+  return sheet.rows.map((cells, index) => {
+    const rowNumber = index + 2;
+    const read = (field: ImportField) => {
+      const column = mapping[field];
+      return column == null ? "" : (cells[column] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const name = read("name");
+    if (!name) errors.push("Name is missing");
+
+    const sellingPrice = parseAmount(read("selling_price"));
+    if (sellingPrice == null || sellingPrice <= 0) {
+      errors.push("Selling price must be a number above 0");
+    }
+
+    const rawCost = read("cost_price");
+    const costPrice = rawCost ? parseAmount(rawCost) : 0;
+    if (costPrice == null || costPrice < 0) {
+      errors.push("Cost price must be a number of 0 or more");
+    }
+
+    const rawQuantity = read("units_in_stock");
+    const quantity = rawQuantity ? parseAmount(rawQuantity) : 0;
+    if (quantity == null || quantity < 0 || !Number.isInteger(quantity)) {
+      errors.push("Quantity must be a whole number of 0 or more");
+    }
+
+    const rawThreshold = read("low_stock_threshold");
+    const threshold = rawThreshold ? parseAmount(rawThreshold) : 0;
+    if (threshold == null || threshold < 0 || !Number.isInteger(threshold)) {
+      errors.push("Low stock level must be a whole number");
+    }
+
+    const rawExpiry = read("expiry_date");
+    const expiryDate = rawExpiry ? parseImportDate(rawExpiry) : null;
+    if (rawExpiry && !expiryDate) {
+      errors.push(`Expiry date "${rawExpiry}" isn't a valid date`);
+    }
+
+    const barcode = read("barcode");
+    if (barcode) {
+      if (existingBarcodes.has(barcode)) {
+        errors.push(`Barcode ${barcode} is already in your inventory`);
+      } else if (seenBarcodes.has(barcode)) {
+        errors.push(
+          `Barcode ${barcode} is also on row ${seenBarcodes.get(barcode)}`,
+        );
+      } else {
+        seenBarcodes.set(barcode, rowNumber);
+      }
+    }
+
+    if (errors.length > 0) return { rowNumber, payload: null, errors };
+
+    return {
+      rowNumber,
+      errors,
+      payload: {
+        name,
+        category: read("category"),
+        barcode: barcode || undefined,
+        cost_price: String(costPrice),
+        selling_price: String(sellingPrice),
+        units_in_stock: quantity as number,
+        unit_type: "Single Items",
+        low_stock_threshold: threshold as number,
+        expiry_date: expiryDate || undefined,
+        lot_number: read("lot_number") || undefined,
+        supplier_name: read("supplier_name"),
+        supplier_phone: read("supplier_phone"),
+      },
+    };
+  });
+};
@@ -0,0 +1,271 @@
+import type { ApiSale } from "@/src/api/sales";
+import {
+    formatCurrency,
+    formatNumber,
+    getCurrency,
+    getFormatLocale,
+} from "./formatters";
+
+// 58mm thermal printers fit 32 characters per line in their default font.
+export const RECEIPT_LINE_WIDTH = 32;
+
+export interface ReceiptLine {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  subtotal: number;
+}
+
+export interface ReceiptData {
+  businessName: string;
+  businessPhone?: string;
+  reference: string;
+  date: Date;
+  cashier?: string;
+  customerName?: string;
+  items: ReceiptLine[];
+  total: number;
+  amountPaid: number;
+  amountOwed: number;
+  payments: { method: string; amount: number }[];
+  change: number;
+}
+
+const PAYMENT_LABELS: Record<string, string> = {
+  cash: "Cash",
+  transfer: "Transfer",
+  pos: "POS",
+  credit: "Credit",
+  mixed: "Split payment",
+};
+
+export const getPaymentLabel = (method?: string | null): string =>
+  PAYMENT_LABELS[(method || "").toLowerCase()] || method || "—";
+
+export const getReceiptReference = (sale: ApiSale): string =>
+  sale.transaction_ref || `TXN-${String(sale.id).padStart(4, "0")}`;
+
+export const buildReceiptData = (
+  sale: ApiSale,
+  business: { name?: string | null; phone?: string | null },
+): ReceiptData => {
+  const items = (sale.items || []).map((item) => {
+    // Carton sales print as cartons rather than their piece count
+    const byCarton = item.sale_unit === "carton" && !!item.sale_quantity;
+    const quantity = Number(
+      (byCarton ? item.sale_quantity : item.quantity) || 0,
+    );
+    const unitPrice = Number(
+      (byCarton ? item.sale_unit_price : item.unit_price) || 0,
+    );
+    const name = item.product_name || item.product_code || "Item";
+    return {
+      name: byCarton ? `${name} (carton)` : name,
+      quantity,
+      unitPrice,
+      subtotal: Number(item.subtotal ?? unitPrice * quantity),
+    };
+  });
+  const total = Number(
+    sale.total_amount ?? items.reduce((sum, i) => sum + i.subtotal, 0),
+  );
+  const amountOwed = Number(sale.amount_owed || 0);
+  const payments =
+    sale.payments && sale.payments.length > 0
+      ? sale.payments.map((p) => ({
+          method: getPaymentLabel(p.method),
+          amount: Number(p.amount || 0),
+        }))
+      : [
+          {
+            method: getPaymentLabel(sale.payment_method),
+            amount: Number(sale.amount_paid ?? total - amountOwed),
+          },
+        ];
+
+  return {
+    businessName: business.name?.trim() || "Inventra",
+    businessPhone: business.phone?.trim() || undefined,
+    reference: getReceiptReference(sale),
+    date: new Date(sale.sale_date || sale.created_at || Date.now()),
+    cashier: sale.sold_by_name || undefined,
+    customerName: sale.customer_name?.trim() || undefined,
+    items,
+    total,
+    amountPaid: Number(sale.amount_paid ?? total - amountOwed),
+    amountOwed,
+    payments: payments.filter((p) => p.amount > 0),
+    change: Number(sale.change_given || 0),
+  };
+};
+
+export const formatReceiptDate = (date: Date): string =>
+  date.toLocaleString(getFormatLocale(), {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const renderReceiptHtml = (receipt: ReceiptData): string => {
+  const row = (label: string, value: string, strong = false) =>
+    `<tr${strong ? ' class="strong"' : ""}><td>${escapeHtml(label)}</td><td class="right">${value}</td></tr>`;
+
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><style>
+    body{font-family:'Courier New',monospace;color:#111;max-width:320px;margin:0 auto;padding:16px;font-size:13px}
+    h1{font-size:18px;text-align:center;margin:0}
+    .center{text-align:center}
+    .muted{color:#555;font-size:12px}
+    .rule{border-top:1px dashed #111;margin:10px 0}
+    table{width:100%;border-collapse:collapse}
+    td{padding:2px 0;vertical-align:top}
+    .right{text-align:right;white-space:nowrap}
+    .strong td{font-weight:bold;font-size:15px}
+  </style></head><body>
+    <h1>${escapeHtml(receipt.businessName)}</h1>
+    ${receipt.businessPhone ? `<p class="center muted">${escapeHtml(receipt.businessPhone)}</p>` : ""}
+    <p class="center muted">${escapeHtml(receipt.reference)}<br>${formatReceiptDate(receipt.date)}</p>
+    ${receipt.customerName ? `<p class="muted">Customer: ${escapeHtml(receipt.customerName)}</p>` : ""}
+    <div class="rule"></div>
+    <table>${receipt.items
+      .map(
+        (i) =>
+          `<tr><td>${escapeHtml(i.name)}<br><span class="muted">${formatNumber(i.quantity)} x ${formatCurrency(i.unitPrice)}</span></td><td class="right">${formatCurrency(i.subtotal)}</td></tr>`,
+      )
+      .join("")}</table>
+    <div class="rule"></div>
+    <table>
+      ${row("TOTAL", formatCurrency(receipt.total), true)}
+      ${receipt.payments.map((p) => row(p.method, formatCurrency(p.amount))).join("")}
+      ${receipt.change > 0 ? row("Change", formatCurrency(receipt.change)) : ""}
+      ${receipt.amountOwed > 0 ? row("Balance owed", formatCurrency(receipt.amountOwed)) : ""}
+    </table>
+    <div class="rule"></div>
+    ${receipt.cashier ? `<p class="center muted">Served by ${escapeHtml(receipt.cashier)}</p>` : ""}
+    <p class="center">Thank you for your patronage!</p>
+  </body></html>`;
+};
+
+// Thermal printers only know ASCII in their default code page, so odd spaces
+// become plain ones and anything else is dropped.
+const toPrinterText = (value: string): string =>
+  value.replace(/[\u00A0\u202F]/g, " ").replace(/[^\x20-\x7E\n]/g, "");
+
+// Currency signs like ₦ and GH₵ are swapped for an ASCII stand-in first
+const money = (value: number) => {
+  const { asciiSymbol, decimals } = getCurrency();
+  return toPrinterText(`${asciiSymbol}${formatNumber(value, decimals)}`);
+};
+
+const padLine = (left: string, right: string, width: number): string => {
+  const space = width - left.length - right.length;
+  if (space >= 1) return left + " ".repeat(space) + right;
+  // Too long: put the amount on its own right-aligned line
+  return `${left}\n${right.padStart(width)}`;
+};
+
+const centerLine = (text: string, width: number): string =>
+  text.length >= width
+    ? text
+    : " ".repeat(Math.floor((width - text.length) / 2)) + text;
+
+const wrap = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  let current = "";
+  text.split(" ").forEach((word) => {
+    if (!current) current = word;
+    else if (`${current} ${word}`.length <= width) current += ` ${word}`;
+    else {
+      lines.push(current);
+      current = word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines.flatMap((line) =>
+    line.length <= width
+      ? [line]
+      : (line.match(new RegExp(`.{1,${width}}`, "g")) ?? []),
+  );
+};
+
+/** Plain-text receipt laid out for a 58mm (32 column) thermal printer. */
+export const renderReceiptText = (
+  receipt: ReceiptData,
+  width = RECEIPT_LINE_WIDTH,
+): string => {
+  const rule = "-".repeat(width);
+  const lines: string[] = [
+    ...wrap(toPrinterText(receipt.businessName), width).map((l) =>
+      centerLine(l, width),
+    ),
+  ];
+  if (receipt.businessPhone) {
+    lines.push(centerLine(toPrinterText(receipt.businessPhone), width));
+  }
+  lines.push(centerLine(toPrinterText(receipt.reference), width));
+  lines.push(
+    centerLine(toPrinterText(formatReceiptDate(receipt.date)), width),
+  );
+  if (receipt.customerName) {
+    lines.push(
+      ...wrap(`Customer: ${toPrinterText(receipt.customerName)}`, width),
+    );
+  }
+  lines.push(rule);
+
+  receipt.items.forEach((item) => {
+    lines.push(...wrap(toPrinterText(item.name), width));
+    lines.push(
+      padLine(
+        `  ${formatNumber(item.quantity)} x ${money(item.unitPrice)}`,
+        money(item.subtotal),
+        width,
+      ),
+    );
+  });
+
+  lines.push(rule);
+  lines.push(padLine("TOTAL", money(receipt.total), width));
+  receipt.payments.forEach((p) =>
+    lines.push(padLine(toPrinterText(p.method), money(p.amount), width)),
+  );
+  if (receipt.change > 0) {
+    lines.push(padLine("Change", money(receipt.change), width));
+  }
+  if (receipt.amountOwed > 0) {
+    lines.push(padLine("Balance owed", money(receipt.amountOwed), width));
+  }
+  lines.push(rule);
+  if (receipt.cashier) {
+    lines.push(centerLine(`Served by ${toPrinterText(receipt.cashier)}`, width));
+  }
+  lines.push(centerLine("Thank you!", width));
+
+  return lines.join("\n");
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/**
+ * ESC/POS bytes for the plain-text receipt: initialise the printer, print the
+ * text, feed a few lines and do a partial cut (ignored by printers without a
+ * cutter).
+ */
+export const encodeEscPos = (text: string): Uint8Array => {
+  const body = toPrinterText(text);
+  const bytes: number[] = [ESC, 0x40];
+  for (let i = 0; i < body.length; i += 1) {
+    bytes.push(body.charCodeAt(i));
+  }
+  bytes.push(0x0a, ESC, 0x64, 4, GS, 0x56, 0x42, 0);
+  return Uint8Array.from(bytes);
+};
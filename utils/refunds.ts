@@ -0,0 +1,52 @@
+import type { ApiRefund, ApiRefundItem, ApiSale } from "@/src/api/sales";
+
+/** Units handed back on one refund line, tied to the sale line they left on. */
+export interface RefundedLine {
+  item: ApiRefundItem;
+  inventoryId: number;
+  // Position in the sale's items, or undefined when the line can't be found
+  lineIndex?: number;
+  quantity: number;
+}
+
+/** When the refund was made, falling back to the sale it reverses. */
+export const getRefundTime = (refund: ApiRefund, sale?: ApiSale): number =>
+  new Date(
+    refund.created_at || sale?.sale_date || sale?.created_at || 0,
+  ).getTime() || 0;
+
+/**
+ * Each refunded item matched to its sale line, by sale item id where the
+ * server sent one and by product otherwise.
+ */
+export const getRefundedLines = (
+  refund: ApiRefund,
+  sale?: ApiSale,
+): RefundedLine[] => {
+  const lines: RefundedLine[] = [];
+  const saleItems = sale?.items ?? [];
+
+  refund.items.forEach((item) => {
+    const productId = item.inventory ?? item.product;
+    let lineIndex =
+      item.sale_item != null
+        ? saleItems.findIndex((line) => line.id === item.sale_item)
+        : -1;
+    if (lineIndex < 0 && productId != null) {
+      lineIndex = saleItems.findIndex(
+        (line) => (line.inventory ?? line.product) === productId,
+      );
+    }
+    const line = lineIndex >= 0 ? saleItems[lineIndex] : undefined;
+    const inventoryId = productId ?? line?.inventory ?? line?.product;
+    if (inventoryId == null) return;
+    lines.push({
+      item,
+      inventoryId,
+      lineIndex: line ? lineIndex : undefined,
+      quantity: Number(item.quantity || 0),
+    });
+  });
+
+  return lines;
+};
@@ -0,0 +1,38 @@
+import type { ApiRestock } from "@/src/api/products";
+
+export interface CostChange {
+  amount: number;
+  percent: number;
+}
+
+/** The day stock arrived, falling back to when the restock was recorded. */
+export const getRestockDate = (restock: ApiRestock): Date | null => {
+  const date = new Date(restock.date_arrived || restock.created_at || "");
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const sortRestocksNewestFirst = (
+  restocks: ApiRestock[],
+): ApiRestock[] =>
+  [...restocks].sort(
+    (a, b) =>
+      (getRestockDate(b)?.getTime() ?? 0) -
+        (getRestockDate(a)?.getTime() ?? 0) || b.id - a.id,
+  );
+
+export const getRestockSupplierName = (restock: ApiRestock): string =>
+  restock.supplier_name?.trim() || "";
+
+/**
+ * Cost price change from one restock to the next. `previous` is the older
+ * delivery; returns null when either price is missing.
+ */
+export const getCostChange = (
+  current: ApiRestock,
+  previous?: ApiRestock,
+): CostChange | null => {
+  const now = Number(current.buying_price || 0);
+  const before = Number(previous?.buying_price || 0);
+  if (!previous || !now || !before) return null;
+  return { amount: now - before, percent: ((now - before) / before) * 100 };
+};
@@ -0,0 +1,158 @@
+import type { ApiShift, DenominationCount } from "@/src/api/shifts";
+import { formatCurrency, formatNumber, getCurrency } from "./formatters";
+import { escapeHtml, formatReceiptDate } from "./receipt";
+
+// Notes and coins in everyday use, largest first, so the drawer can be
+// counted the way it sits in the till
+const DENOMINATIONS: Record<string, number[]> = {
+  NGN: [1000, 500, 200, 100, 50, 20, 10, 5],
+  GHS: [200, 100, 50, 20, 10, 5, 2, 1, 0.5],
+  KES: [1000, 500, 200, 100, 50, 20, 10, 5, 1],
+  UGX: [50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100],
+  TZS: [10000, 5000, 2000, 1000, 500, 200, 100],
+  RWF: [5000, 2000, 1000, 500, 100, 50],
+  XOF: [10000, 5000, 2000, 1000, 500, 200, 100, 50],
+  ZAR: [200, 100, 50, 20, 10, 5, 2, 1, 0.5],
+  USD: [100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01],
+  GBP: [50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1],
+  EUR: [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1],
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export const getDenominations = (): number[] =>
+  DENOMINATIONS[getCurrency().code] ?? [100, 50, 20, 10, 5, 1];
+
+export const sumDenominations = (counts: DenominationCount[]): number =>
+  roundMoney(counts.reduce((sum, d) => sum + d.value * d.count, 0));
+
+// Notes are labelled without decimals, coins with them ("₦1,000", "$0.25")
+export const formatDenomination = (value: number): string =>
+  formatCurrency(value, Number.isInteger(value) ? 0 : 2);
+
+export interface ShiftTotals {
+  openingFloat: number;
+  cashSales: number;
+  nonCashSales: number;
+  cashRefunds: number;
+  payouts: number;
+  expected: number;
+  counted: number | null;
+  overShort: number | null;
+}
+
+/**
+ * What should be in the drawer: the float plus cash taken (net of change),
+ * less cash refunds and payouts. The server's own figures win once the shift
+ * is closed.
+ */
+export const getShiftTotals = (
+  shift: ApiShift,
+  counted?: number | null,
+): ShiftTotals => {
+  const openingFloat = Number(shift.opening_float || 0);
+  const cashSales = Number(shift.cash_sales || 0);
+  const cashRefunds = Number(shift.cash_refunds || 0);
+  const payouts = Number(
+    shift.payouts_total ??
+      (shift.payouts ?? []).reduce((sum, p) => sum + Number(p.amount || 0), 0),
+  );
+  const expected =
+    shift.expected_cash != null
+      ? Number(shift.expected_cash)
+      : roundMoney(openingFloat + cashSales - cashRefunds - payouts);
+  const countedCash =
+    counted ?? (shift.counted_cash != null ? Number(shift.counted_cash) : null);
+
+  return {
+    openingFloat,
+    cashSales,
+    nonCashSales: Number(shift.non_cash_sales || 0),
+    cashRefunds,
+    payouts,
+    expected,
+    counted: countedCash,
+    overShort:
+      countedCash == null
+        ? null
+        : counted == null && shift.over_short != null
+          ? Number(shift.over_short)
+          : roundMoney(countedCash - expected),
+  };
+};
+
+export const getOverShortLabel = (amount: number): string =>
+  amount > 0 ? "Over" : amount < 0 ? "Short" : "Balanced";
+
+export const getShiftReference = (shift: ApiShift): string =>
+  `Z-${String(shift.id).padStart(4, "0")}`;
+
+/** End-of-shift (Z) report, laid out like a receipt for the same printers. */
+export const renderZReportHtml = (
+  shift: ApiShift,
+  business: { name?: string | null; phone?: string | null },
+): string => {
+  const totals = getShiftTotals(shift);
+  const row = (label: string, value: string, strong = false) =>
+    `<tr${strong ? ' class="strong"' : ""}><td>${escapeHtml(label)}</td><td class="right">${value}</td></tr>`;
+  const denominations = (shift.denominations ?? []).filter((d) => d.count > 0);
+  const payouts = shift.payouts ?? [];
+
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><style>
+    body{font-family:'Courier New',monospace;color:#111;max-width:320px;margin:0 auto;padding:16px;font-size:13px}
+    h1{font-size:18px;text-align:center;margin:0}
+    h2{font-size:14px;text-align:center;margin:4px 0 0}
+    .center{text-align:center}
+    .muted{color:#555;font-size:12px}
+    .rule{border-top:1px dashed #111;margin:10px 0}
+    table{width:100%;border-collapse:collapse}
+    td{padding:2px 0;vertical-align:top}
+    .right{text-align:right;white-space:nowrap}
+    .strong td{font-weight:bold;font-size:15px}
+  </style></head><body>
+    <h1>${escapeHtml(business.name?.trim() || "Inventra")}</h1>
+    ${business.phone ? `<p class="center muted">${escapeHtml(business.phone)}</p>` : ""}
+    <h2>Z-REPORT ${escapeHtml(getShiftReference(shift))}</h2>
+    ${shift.branch_name ? `<p class="center muted">${escapeHtml(shift.branch_name)}</p>` : ""}
+    <div class="rule"></div>
+    <table>
+      ${row("Opened", formatReceiptDate(new Date(shift.opened_at)))}
+      ${shift.opened_by_name ? row("By", escapeHtml(shift.opened_by_name)) : ""}
+      ${shift.closed_at ? row("Closed", formatReceiptDate(new Date(shift.closed_at))) : ""}
+      ${shift.closed_by_name ? row("By", escapeHtml(shift.closed_by_name)) : ""}
+      ${row("Sales", formatNumber(shift.transactions ?? 0))}
+    </table>
+    <div class="rule"></div>
+    <table>
+      ${row("Opening float", formatCurrency(totals.openingFloat))}
+      ${row("Cash sales", formatCurrency(totals.cashSales))}
+      ${row("Cash refunds", `-${formatCurrency(totals.cashRefunds)}`)}
+      ${row("Payouts", `-${formatCurrency(totals.payouts)}`)}
+      ${row("Expected cash", formatCurrency(totals.expected), true)}
+      ${totals.counted != null ? row("Counted cash", formatCurrency(totals.counted), true) : ""}
+      ${totals.overShort != null ? row(getOverShortLabel(totals.overShort), formatCurrency(Math.abs(totals.overShort)), true) : ""}
+    </table>
+    ${
+      denominations.length > 0
+        ? `<div class="rule"></div><table>${denominations
+            .map((d) =>
+              row(
+                `${formatDenomination(d.value)} x ${d.count}`,
+                formatCurrency(d.value * d.count),
+              ),
+            )
+            .join("")}</table>`
+        : ""
+    }
+    ${
+      payouts.length > 0
+        ? `<div class="rule"></div><p class="muted">Payouts</p><table>${payouts
+            .map((p) => row(p.reason, formatCurrency(p.amount)))
+            .join("")}</table>`
+        : ""
+    }
+    <div class="rule"></div>
+    <table>${row("Transfer / POS sales", formatCurrency(totals.nonCashSales))}</table>
+    ${shift.notes ? `<p class="muted">${escapeHtml(shift.notes)}</p>` : ""}
+  </body></html>`;
+};
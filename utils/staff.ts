@@ -0,0 +1,29 @@
+import type { ApiSale } from "@/src/api/sales";
+
+export interface SellerFields {
+  // Stringified `sold_by`, so it can sit next to other string ids
+  soldById?: string;
+  soldByName?: string;
+}
+
+export interface SellerOption {
+  id: string;
+  name: string;
+}
+
+export const getSaleSeller = (sale: ApiSale): SellerFields => ({
+  soldById: sale.sold_by != null ? String(sale.sold_by) : undefined,
+  soldByName: sale.sold_by_name || undefined,
+});
+
+/** Everyone who rang up at least one of these sales, sorted by name. */
+export const getSellers = (rows: SellerFields[]): SellerOption[] => {
+  const sellers = new Map<string, string>();
+  rows.forEach(({ soldById, soldByName }) => {
+    if (!soldById || sellers.has(soldById)) return;
+    sellers.set(soldById, soldByName || `Staff #${soldById}`);
+  });
+  return Array.from(sellers, ([id, name]) => ({ id, name })).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+};
@@ -0,0 +1,47 @@
+import type {
+    ApiStockAdjustment,
+    StockAdjustmentReason,
+} from "@/src/api/products";
+
+export const STOCK_ADJUSTMENT_REASONS: {
+  value: StockAdjustmentReason;
+  label: string;
+}[] = [
+  { value: "damaged", label: "Damaged" },
+  { value: "expired", label: "Expired" },
+  { value: "personal_use", label: "Personal use" },
+  { value: "gift", label: "Gift" },
+  { value: "correction", label: "Correction" },
+  { value: "theft", label: "Theft" },
+  { value: "count_error", label: "Count error" },
+];
+
+// Offered when logging an adjustment by hand on a product
+export const MANUAL_ADJUSTMENT_REASONS = STOCK_ADJUSTMENT_REASONS.filter(
+  (option) => option.value !== "count_error",
+);
+
+export const getAdjustmentReasonLabel = (reason: string): string =>
+  STOCK_ADJUSTMENT_REASONS.find((option) => option.value === reason)?.label ??
+  reason;
+
+export const getAdjustmentDifference = (
+  adjustment: ApiStockAdjustment,
+): number =>
+  adjustment.difference ??
+  Number(adjustment.new_quantity || 0) -
+    Number(adjustment.previous_quantity || 0);
+
+/** Cost value of the change; negative when stock was written off. */
+export const getAdjustmentValue = (adjustment: ApiStockAdjustment): number =>
+  getAdjustmentDifference(adjustment) * Number(adjustment.unit_cost || 0);
+
+/**
+ * Stock written off at cost. Units found again (positive adjustments) aren't
+ * income, so they don't offset the loss.
+ */
+export const sumStockLosses = (adjustments: ApiStockAdjustment[]): number =>
+  adjustments.reduce((total, adjustment) => {
+    const value = getAdjustmentValue(adjustment);
+    return value < 0 ? total - value : total;
+  }, 0);
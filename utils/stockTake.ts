@@ -0,0 +1,83 @@
+import type { ApiUserInventoryItem } from "@/src/api/products";
+import { STOCK_ADJUSTMENT_REASONS } from "./stockAdjustments";
+
+// What a physical count turns up; the rest are logged from a product
+export const STOCK_TAKE_REASONS = STOCK_ADJUSTMENT_REASONS.filter((option) =>
+  ["damaged", "theft", "count_error"].includes(option.value),
+);
+
+export interface StockVariance {
+  item: ApiUserInventoryItem;
+  // On record when the product was counted
+  expected: number;
+  counted: number;
+  // Applied to today's stock, so sales since the count still come off
+  difference: number;
+  unitCost: number;
+  // Negative when stock is missing
+  costValue: number;
+}
+
+export interface VarianceTotals {
+  counted: number;
+  short: number;
+  over: number;
+  shortValue: number;
+  overValue: number;
+  netValue: number;
+}
+
+/**
+ * Counted products whose count differs from what was on record when they were
+ * counted, biggest loss first. `expected` falls back to today's stock.
+ */
+export const computeVariances = (
+  counts: Record<string, number>,
+  inventory: ApiUserInventoryItem[],
+  expectedCounts: Record<string, number> = {},
+): StockVariance[] =>
+  inventory
+    .filter((item) => counts[String(item.id)] != null)
+    .map((item) => {
+      const expected =
+        expectedCounts[String(item.id)] ?? Number(item.units_in_stock || 0);
+      const counted = counts[String(item.id)];
+      const unitCost = Number(item.cost_price || 0);
+      const difference = counted - expected;
+      return {
+        item,
+        expected,
+        counted,
+        difference,
+        unitCost,
+        costValue: difference * unitCost,
+      };
+    })
+    .filter((row) => row.difference !== 0)
+    .sort((a, b) => a.costValue - b.costValue);
+
+export const sumVariances = (
+  variances: StockVariance[],
+  countedProducts: number,
+): VarianceTotals =>
+  variances.reduce<VarianceTotals>(
+    (totals, row) => {
+      if (row.difference < 0) {
+        totals.short += -row.difference;
+        totals.shortValue += -row.costValue;
+      } else {
+        totals.over += row.difference;
+        totals.overValue += row.costValue;
+      }
+      totals.netValue += row.costValue;
+      return totals;
+    },
+    {
+      counted: countedProducts,
+      short: 0,
+      over: 0,
+      shortValue: 0,
+      overValue: 0,
+      netValue: 0,
+    },
+  );
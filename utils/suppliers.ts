@@ -0,0 +1,148 @@
+import type {
+    ApiRestock,
+    ApiSupplier,
+    ApiUserInventoryItem,
+} from "@/src/api/products";
+import { normalizePhone } from "./customers";
+import { formatCurrency, formatDateLabel, formatNumber } from "./formatters";
+import { escapeHtml } from "./receipt";
+
+export interface PurchaseOrderLine {
+  inventoryId: number;
+  name: string;
+  unitType?: string;
+  inStock: number;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrder {
+  reference: string;
+  date: Date;
+  businessName: string;
+  businessPhone?: string;
+  supplier: ApiSupplier;
+  lines: PurchaseOrderLine[];
+  notes?: string;
+}
+
+const normalizeName = (name?: string | null) =>
+  (name || "").trim().toLowerCase();
+
+/**
+ * Products still carry the supplier's name and phone, so an item belongs to a
+ * supplier when either matches.
+ */
+export const isSupplierItem = (
+  supplier: ApiSupplier,
+  item: { supplier_name?: string | null; supplier_phone?: string | null },
+): boolean => {
+  const phone = normalizePhone(supplier.phone || "");
+  if (phone && normalizePhone(item.supplier_phone || "") === phone) return true;
+  const name = normalizeName(supplier.name);
+  return !!name && normalizeName(item.supplier_name) === name;
+};
+
+export const getSupplierItems = (
+  supplier: ApiSupplier,
+  items: ApiUserInventoryItem[],
+): ApiUserInventoryItem[] =>
+  items.filter((item) => isSupplierItem(supplier, item));
+
+export const getSupplierRestocks = (
+  supplier: ApiSupplier,
+  restocks: ApiRestock[],
+): ApiRestock[] =>
+  restocks.filter(
+    (restock) =>
+      restock.supplier === supplier.id || isSupplierItem(supplier, restock),
+  );
+
+export const getRestockCost = (restock: ApiRestock): number =>
+  Number(restock.quantity_added || 0) * Number(restock.buying_price || 0);
+
+export const sumRestockSpend = (restocks: ApiRestock[]): number =>
+  restocks.reduce((sum, restock) => sum + getRestockCost(restock), 0);
+
+export const isLowStock = (item: ApiUserInventoryItem): boolean =>
+  Number(item.units_in_stock || 0) <= Number(item.low_stock_threshold ?? 0);
+
+/**
+ * How many to order to bring an item back to twice its low-stock threshold,
+ * so it isn't low again straight after the delivery.
+ */
+export const getSuggestedOrderQuantity = (
+  item: ApiUserInventoryItem,
+): number => {
+  const threshold = Math.max(Number(item.low_stock_threshold ?? 0), 1);
+  return Math.max(threshold * 2 - Number(item.units_in_stock || 0), 1);
+};
+
+export const toOrderLine = (
+  item: ApiUserInventoryItem,
+  quantity = getSuggestedOrderQuantity(item),
+): PurchaseOrderLine => ({
+  inventoryId: item.id,
+  name: item.name,
+  unitType: item.unit_type || item.quantity_type,
+  inStock: Number(item.units_in_stock || 0),
+  quantity,
+  unitCost: Number(item.cost_price || 0),
+});
+
+export const getOrderTotal = (lines: PurchaseOrderLine[]): number =>
+  lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+export const getPurchaseOrderReference = (date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `PO-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+};
+
+export const renderPurchaseOrderHtml = (order: PurchaseOrder): string => {
+  const rows = order.lines
+    .map(
+      (line) =>
+        `<tr><td>${escapeHtml(line.name)}</td><td class="right">${formatNumber(line.quantity)}${line.unitType ? ` ${escapeHtml(line.unitType)}` : ""}</td><td class="right">${formatCurrency(line.unitCost)}</td><td class="right">${formatCurrency(line.quantity * line.unitCost)}</td></tr>`,
+    )
+    .join("");
+
+  return `<!DOCTYPE html><html><head><meta name="viewport" content="width=device-width, initial-scale=1"><style>
+    body{font-family:Arial,sans-serif;color:#111;padding:24px;font-size:13px}
+    h1{font-size:22px;margin:0;color:#1155CC}
+    .muted{color:#555}
+    .parties{display:flex;justify-content:space-between;margin:20px 0}
+    table{width:100%;border-collapse:collapse;margin-top:12px}
+    th{background:#E7EEFA;text-align:left;padding:8px}
+    td{padding:8px;border-bottom:1px solid #eee}
+    .right{text-align:right}
+    .total td{font-weight:bold;font-size:15px;border-bottom:none}
+  </style></head><body>
+    <h1>Purchase Order</h1>
+    <p class="muted">${escapeHtml(order.reference)} · ${formatDateLabel(order.date)}</p>
+    <div class="parties">
+      <div><strong>From</strong><br>${escapeHtml(order.businessName)}${order.businessPhone ? `<br>${escapeHtml(order.businessPhone)}` : ""}</div>
+      <div><strong>To</strong><br>${escapeHtml(order.supplier.name)}${order.supplier.phone ? `<br>${escapeHtml(order.supplier.phone)}` : ""}${order.supplier.address ? `<br>${escapeHtml(order.supplier.address)}` : ""}</div>
+    </div>
+    <table>
+      <thead><tr><th>Item</th><th class="right">Qty</th><th class="right">Unit cost</th><th class="right">Amount</th></tr></thead>
+      <tbody>${rows}<tr class="total"><td colspan="3">Estimated total</td><td class="right">${formatCurrency(getOrderTotal(order.lines))}</td></tr></tbody>
+    </table>
+    ${order.notes ? `<p><strong>Notes:</strong> ${escapeHtml(order.notes)}</p>` : ""}
+  </body></html>`;
+};
+
+/** Plain-text order for WhatsApp or SMS. */
+export const renderPurchaseOrderText = (order: PurchaseOrder): string =>
+  [
+    `Hello ${order.supplier.name}, please supply the following for ${order.businessName} (${order.reference}):`,
+    "",
+    ...order.lines.map(
+      (line) =>
+        `• ${line.name} — ${formatNumber(line.quantity)}${line.unitType ? ` ${line.unitType}` : ""}`,
+    ),
+    "",
+    `Estimated total: ${formatCurrency(getOrderTotal(order.lines))}`,
+    ...(order.notes ? ["", order.notes] : []),
+    "",
+    "Thank you!",
+  ].join("\n");
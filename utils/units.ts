@@ -0,0 +1,100 @@
+import type { ApiUserInventoryItem } from "@/src/api/products";
+import { formatNumber } from "./formatters";
+
+// Stock is always held in pieces (the base unit). A carton is just a bigger
+// unit the cashier can ring up, worth `unitsPerCarton` pieces.
+export type SaleUnit = "piece" | "carton";
+
+export interface Packaging {
+  quantityType: string;
+  sellingPrice: number;
+  unitsPerCarton?: number;
+  cartonPrice?: number;
+}
+
+export const UNIT_LABELS: Record<SaleUnit, { one: string; many: string }> = {
+  piece: { one: "pc", many: "pcs" },
+  carton: { one: "carton", many: "cartons" },
+};
+
+export const getUnitLabel = (unit: SaleUnit, quantity: number): string =>
+  quantity === 1 ? UNIT_LABELS[unit].one : UNIT_LABELS[unit].many;
+
+export const getUnitsPerCarton = (product: Packaging): number => {
+  const units = Math.floor(Number(product.unitsPerCarton || 0));
+  return units > 1 ? units : 0;
+};
+
+export const isCartonProduct = (product: Packaging): boolean =>
+  (product.quantityType === "Carton" || product.quantityType === "Both") &&
+  getUnitsPerCarton(product) > 0;
+
+/**
+ * Units a product can be sold in. "Both" products sell by the piece or the
+ * carton; "Carton" products only have a carton price so sell by the carton.
+ */
+export const getSaleUnits = (product: Packaging): SaleUnit[] => {
+  if (!isCartonProduct(product)) return ["piece"];
+  return product.quantityType === "Carton" ? ["carton"] : ["piece", "carton"];
+};
+
+export const getDefaultSaleUnit = (product: Packaging): SaleUnit =>
+  getSaleUnits(product)[0];
+
+/** Carton fields for the app's product models, from an inventory item. */
+export const mapPackaging = (
+  item: Pick<
+    ApiUserInventoryItem,
+    "units_per_carton" | "carton_cost_price" | "carton_selling_price"
+  >,
+) => ({
+  unitsPerCarton: Number(item.units_per_carton || 0) || undefined,
+  cartonCostPrice: Number(item.carton_cost_price || 0) || undefined,
+  cartonPrice: Number(item.carton_selling_price || 0) || undefined,
+});
+
+/** How many pieces one of `unit` takes out of stock. */
+export const getUnitSize = (product: Packaging, unit: SaleUnit): number =>
+  unit === "carton" ? getUnitsPerCarton(product) || 1 : 1;
+
+/** Selling price for one of `unit`, honouring a set carton price. */
+export const getUnitPrice = (product: Packaging, unit: SaleUnit): number => {
+  if (unit === "piece") return product.sellingPrice;
+  const cartonPrice = Number(product.cartonPrice || 0);
+  return cartonPrice > 0
+    ? cartonPrice
+    : product.sellingPrice * getUnitSize(product, unit);
+};
+
+export const toBaseUnits = (
+  quantity: number,
+  product: Packaging,
+  unit: SaleUnit,
+): number => quantity * getUnitSize(product, unit);
+
+/** Whole cartons and loose pieces in a stock count. */
+export const splitCartons = (
+  units: number,
+  unitsPerCarton: number,
+): { cartons: number; pieces: number } => {
+  if (unitsPerCarton <= 1) return { cartons: 0, pieces: units };
+  return {
+    cartons: Math.floor(units / unitsPerCarton),
+    pieces: units % unitsPerCarton,
+  };
+};
+
+/** e.g. 41 pieces at 12 per carton -> "3 cartons + 5 pcs". */
+export const formatStockQuantity = (
+  units: number,
+  unitsPerCarton = 0,
+): string => {
+  const pieces = `${formatNumber(units)} ${getUnitLabel("piece", units)}`;
+  if (unitsPerCarton <= 1 || units < unitsPerCarton) return pieces;
+
+  const split = splitCartons(units, unitsPerCarton);
+  const cartons = `${formatNumber(split.cartons)} ${getUnitLabel("carton", split.cartons)}`;
+  return split.pieces > 0
+    ? `${cartons} + ${formatNumber(split.pieces)} ${getUnitLabel("piece", split.pieces)}`
+    : cartons;
+};
@@ -0,0 +1,87 @@
+import type { ApiUserInventoryItem } from "@/src/api/products";
+
+// Attributes offered when adding a variant; any other key the API returns
+// is still shown.
+export const VARIANT_ATTRIBUTES = ["Size", "Colour", "Flavour"] as const;
+
+export interface Variantable {
+  id: string;
+  name: string;
+  unitsInStock: number;
+  sellingPrice: number;
+  parentId?: string;
+  variantAttributes?: Record<string, string>;
+}
+
+/** Variant fields for the app's product models, from an inventory item. */
+export const mapVariant = (
+  item: Pick<ApiUserInventoryItem, "parent" | "variant_attributes">,
+) => ({
+  parentId: item.parent != null ? String(item.parent) : undefined,
+  variantAttributes: item.variant_attributes ?? undefined,
+});
+
+export const isVariant = (product: Pick<Variantable, "parentId">): boolean =>
+  !!product.parentId;
+
+/** e.g. { Size: "500ml", Flavour: "Mango" } -> "500ml / Mango". */
+export const getVariantLabel = (
+  attributes?: Record<string, string> | null,
+): string =>
+  Object.values(attributes ?? {})
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .join(" / ");
+
+/** Name to show wherever the variant appears on its own, like the cart. */
+export const getVariantName = (product: Variantable): string => {
+  const label = getVariantLabel(product.variantAttributes);
+  return label ? `${product.name} (${label})` : product.name;
+};
+
+export interface VariantGroups<T extends Variantable> {
+  /** Standalone products and parents, in the order they came in. */
+  products: T[];
+  variantsOf: Record<string, T[]>;
+}
+
+/**
+ * Folds variants under their parent. A variant whose parent is not in the
+ * list (e.g. only the variant matched a search) stays top level.
+ */
+export const groupVariants = <T extends Variantable>(
+  items: T[],
+): VariantGroups<T> => {
+  const ids = new Set(items.map((item) => item.id));
+  const variantsOf: Record<string, T[]> = {};
+  const products: T[] = [];
+
+  items.forEach((item) => {
+    if (item.parentId && ids.has(item.parentId)) {
+      variantsOf[item.parentId] = [...(variantsOf[item.parentId] ?? []), item];
+    } else {
+      products.push(item);
+    }
+  });
+
+  return { products, variantsOf };
+};
+
+/** The parent's own stock plus every variant's. */
+export const getAggregateStock = (
+  product: Variantable,
+  variants: Variantable[] = [],
+): number =>
+  variants.reduce(
+    (total, variant) => total + variant.unitsInStock,
+    product.unitsInStock,
+  );
+
+/** Cheapest and dearest variant price, for "from" labels on the parent. */
+export const getPriceRange = (
+  variants: Variantable[],
+): { min: number; max: number } | null => {
+  if (variants.length === 0) return null;
+  const prices = variants.map((variant) => variant.sellingPrice);
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+};